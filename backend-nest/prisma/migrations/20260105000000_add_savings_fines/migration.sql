@@ -0,0 +1,53 @@
+-- Savings Fines Migration
+-- Adds late-payment fines raised from the group's savings rules
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Fine status enum
+CREATE TYPE "FineStatus" AS ENUM (
+  'OUTSTANDING',
+  'DISPUTED',
+  'PAID',
+  'WAIVED'
+);
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Savings Fines (one per member per missed contribution period)
+CREATE TABLE "savings_fines" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "period_start" DATE NOT NULL,
+  "period_end" DATE NOT NULL,
+  "grace_ended_at" TIMESTAMPTZ NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "currency" VARCHAR(3) NOT NULL DEFAULT 'ZAR',
+  "fine_type" "FineType" NOT NULL,
+  "status" "FineStatus" NOT NULL DEFAULT 'OUTSTANDING',
+  "payment_method" "PaymentMethod",
+  "payment_reference" VARCHAR(100),
+  "paid_at" TIMESTAMPTZ,
+  "recorded_by" UUID,
+  "ledger_entry_id" UUID,
+  "waived_by" UUID,
+  "waived_at" TIMESTAMPTZ,
+  "waiver_reason" TEXT,
+  "disputed_by" UUID,
+  "disputed_at" TIMESTAMPTZ,
+  "dispute_reason" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "savings_fines_group_member_period_unique" UNIQUE ("group_id", "member_id", "period_start"),
+  CONSTRAINT "savings_fines_amount_positive" CHECK ("amount" > 0)
+);
+
+-- Indexes for savings_fines
+CREATE INDEX "savings_fines_group_id_idx" ON "savings_fines"("group_id");
+CREATE INDEX "savings_fines_member_id_idx" ON "savings_fines"("member_id");
+CREATE INDEX "savings_fines_status_idx" ON "savings_fines"("status");
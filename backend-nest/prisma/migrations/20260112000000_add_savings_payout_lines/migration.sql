@@ -0,0 +1,31 @@
+-- Savings Payout Lines Migration
+-- Stores the per-member split of each savings payout
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+-- Contribution window used to weight PROPORTIONAL payouts
+ALTER TABLE "savings_payouts" ADD COLUMN "period_start" DATE;
+ALTER TABLE "savings_payouts" ADD COLUMN "period_end" DATE;
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Savings Payout Lines (one per recipient)
+CREATE TABLE "savings_payout_lines" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "payout_id" UUID NOT NULL REFERENCES "savings_payouts"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "weight" DECIMAL(19, 4),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "savings_payout_lines_payout_member_unique" UNIQUE ("payout_id", "member_id"),
+  CONSTRAINT "savings_payout_lines_amount_non_negative" CHECK ("amount" >= 0)
+);
+
+-- Indexes for savings_payout_lines
+CREATE INDEX "savings_payout_lines_payout_id_idx" ON "savings_payout_lines"("payout_id");
+CREATE INDEX "savings_payout_lines_member_id_idx" ON "savings_payout_lines"("member_id");
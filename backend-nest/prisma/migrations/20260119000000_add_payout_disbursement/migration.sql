@@ -0,0 +1,32 @@
+-- Payout Disbursement Migration
+-- Tracks disbursement of approved payouts to each recipient
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Payout line status enum
+CREATE TYPE "PayoutLineStatus" AS ENUM (
+  'PENDING',
+  'PAID',
+  'FAILED'
+);
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "savings_payouts" ADD COLUMN "disbursement_started_at" TIMESTAMPTZ;
+ALTER TABLE "savings_payouts" ADD COLUMN "failed_at" TIMESTAMPTZ;
+ALTER TABLE "savings_payouts" ADD COLUMN "failure_reason" TEXT;
+
+ALTER TABLE "savings_payout_lines" ADD COLUMN "status" "PayoutLineStatus" NOT NULL DEFAULT 'PENDING';
+ALTER TABLE "savings_payout_lines" ADD COLUMN "payment_method" "PaymentMethod";
+ALTER TABLE "savings_payout_lines" ADD COLUMN "payment_reference" VARCHAR(100);
+ALTER TABLE "savings_payout_lines" ADD COLUMN "evidence_document_id" UUID REFERENCES "documents"("id");
+ALTER TABLE "savings_payout_lines" ADD COLUMN "paid_by" UUID;
+ALTER TABLE "savings_payout_lines" ADD COLUMN "paid_at" TIMESTAMPTZ;
+ALTER TABLE "savings_payout_lines" ADD COLUMN "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Indexes for savings_payout_lines
+CREATE INDEX "savings_payout_lines_status_idx" ON "savings_payout_lines"("status");
@@ -0,0 +1,83 @@
+-- Group Dissolution Migration
+-- Adds the proposal, vote and final settlement workflow for winding up a savings group
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Dissolution status enum
+CREATE TYPE "DissolutionStatus" AS ENUM (
+  'VOTING',
+  'REJECTED',
+  'CANCELLED',
+  'APPROVED',
+  'SETTLING',
+  'COMPLETED'
+);
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Group Dissolutions (proposal, vote outcome and settlement progress)
+CREATE TABLE "group_dissolutions" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "status" "DissolutionStatus" NOT NULL DEFAULT 'VOTING',
+  "reason" TEXT NOT NULL,
+  "quorum_percent" INTEGER NOT NULL DEFAULT 50,
+  "voting_ends_at" TIMESTAMPTZ NOT NULL,
+  "proposed_by" UUID NOT NULL REFERENCES "users"("id"),
+  "decided_at" TIMESTAMPTZ,
+  "frozen_at" TIMESTAMPTZ,
+  "completed_at" TIMESTAMPTZ,
+  "cancelled_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "group_dissolutions_quorum_range" CHECK ("quorum_percent" BETWEEN 1 AND 100)
+);
+
+-- Indexes for group_dissolutions
+CREATE INDEX "group_dissolutions_group_id_idx" ON "group_dissolutions"("group_id");
+CREATE INDEX "group_dissolutions_status_idx" ON "group_dissolutions"("status");
+
+-- Group Dissolution Votes (one per member per proposal)
+CREATE TABLE "group_dissolution_votes" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "dissolution_id" UUID NOT NULL REFERENCES "group_dissolutions"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "decision" "ApprovalDecision" NOT NULL,
+  "comment" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "group_dissolution_votes_dissolution_member_unique" UNIQUE ("dissolution_id", "member_id")
+);
+
+-- Indexes for group_dissolution_votes
+CREATE INDEX "group_dissolution_votes_dissolution_id_idx" ON "group_dissolution_votes"("dissolution_id");
+
+-- Dissolution Statements (final figures per member, written on completion)
+CREATE TABLE "dissolution_statements" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "dissolution_id" UUID NOT NULL REFERENCES "group_dissolutions"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "total_contributed" DECIMAL(19, 4) NOT NULL,
+  "total_fines_paid" DECIMAL(19, 4) NOT NULL,
+  "total_received" DECIMAL(19, 4) NOT NULL,
+  "final_share" DECIMAL(19, 4) NOT NULL,
+  "currency" VARCHAR(3) NOT NULL DEFAULT 'ZAR',
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "dissolution_statements_dissolution_member_unique" UNIQUE ("dissolution_id", "member_id")
+);
+
+-- Indexes for dissolution_statements
+CREATE INDEX "dissolution_statements_dissolution_id_idx" ON "dissolution_statements"("dissolution_id");
+CREATE INDEX "dissolution_statements_member_id_idx" ON "dissolution_statements"("member_id");
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "savings_payouts" ADD COLUMN "dissolution_id" UUID REFERENCES "group_dissolutions"("id");
@@ -0,0 +1,64 @@
+-- Member Exit Settlement Migration
+-- Adds exit policies and the refund settlement raised when a member leaves a savings group
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Exit policy enum
+CREATE TYPE "ExitPolicy" AS ENUM (
+  'FULL_REFUND',
+  'REFUND_LESS_PENALTY',
+  'FORFEIT_UNTIL_YEAR_END'
+);
+
+-- Exit settlement status enum
+CREATE TYPE "ExitSettlementStatus" AS ENUM (
+  'PENDING',
+  'PAYOUT_RAISED',
+  'SETTLED',
+  'WAIVED',
+  'CANCELLED'
+);
+
+ALTER TYPE "SavingsPayoutType" ADD VALUE 'MEMBER_EXIT';
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "savings_rules" ADD COLUMN "exit_policy" "ExitPolicy" NOT NULL DEFAULT 'FULL_REFUND';
+ALTER TABLE "savings_rules" ADD COLUMN "exit_penalty_percent" DECIMAL(5, 2);
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Member Exit Settlements (refund owed to a leaving member)
+CREATE TABLE "member_exit_settlements" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "status" "ExitSettlementStatus" NOT NULL DEFAULT 'PENDING',
+  "exit_policy" "ExitPolicy" NOT NULL,
+  "total_contributed" DECIMAL(19, 4) NOT NULL,
+  "total_received" DECIMAL(19, 4) NOT NULL,
+  "penalty_amount" DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  "refund_amount" DECIMAL(19, 4) NOT NULL,
+  "currency" VARCHAR(3) NOT NULL DEFAULT 'ZAR',
+  "payable_from" DATE,
+  "payout_id" UUID UNIQUE REFERENCES "savings_payouts"("id"),
+  "requested_by" UUID NOT NULL REFERENCES "users"("id"),
+  "resolved_by" UUID,
+  "resolved_at" TIMESTAMPTZ,
+  "waiver_reason" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "member_exit_settlements_amounts_non_negative" CHECK ("refund_amount" >= 0 AND "penalty_amount" >= 0)
+);
+
+-- Indexes for member_exit_settlements
+CREATE INDEX "member_exit_settlements_group_id_idx" ON "member_exit_settlements"("group_id");
+CREATE INDEX "member_exit_settlements_member_id_idx" ON "member_exit_settlements"("member_id");
+CREATE INDEX "member_exit_settlements_status_idx" ON "member_exit_settlements"("status");
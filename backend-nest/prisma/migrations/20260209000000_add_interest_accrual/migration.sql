@@ -0,0 +1,63 @@
+-- Interest Accrual Migration
+-- Adds the pot's interest rate and compounding basis, monthly accruals and per-member interest allocations
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Interest compounding enum
+CREATE TYPE "InterestCompounding" AS ENUM (
+  'SIMPLE',
+  'DAILY',
+  'MONTHLY'
+);
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "savings_rules" ADD COLUMN "interest_rate" DECIMAL(7, 4);
+ALTER TABLE "savings_rules" ADD COLUMN "interest_compounding" "InterestCompounding" NOT NULL DEFAULT 'MONTHLY';
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Interest Accruals (one per group per calendar month)
+CREATE TABLE "interest_accruals" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "period_start" DATE NOT NULL,
+  "period_end" DATE NOT NULL,
+  "annual_rate" DECIMAL(7, 4) NOT NULL,
+  "compounding" "InterestCompounding" NOT NULL,
+  "average_balance" DECIMAL(19, 4) NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "currency" VARCHAR(3) NOT NULL DEFAULT 'ZAR',
+  "ledger_entry_id" UUID UNIQUE REFERENCES "ledger_entries"("id"),
+  "created_by" UUID,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "interest_accruals_group_period_unique" UNIQUE ("group_id", "period_start"),
+  CONSTRAINT "interest_accruals_amount_positive" CHECK ("amount" > 0)
+);
+
+-- Interest Allocations (member's share of an accrual)
+CREATE TABLE "interest_allocations" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "accrual_id" UUID NOT NULL REFERENCES "interest_accruals"("id") ON DELETE CASCADE,
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "balance_days" DECIMAL(19, 4) NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "interest_allocations_accrual_member_unique" UNIQUE ("accrual_id", "member_id"),
+  CONSTRAINT "interest_allocations_amount_non_negative" CHECK ("amount" >= 0)
+);
+
+-- Indexes for interest_accruals
+CREATE INDEX "interest_accruals_group_id_idx" ON "interest_accruals"("group_id");
+
+-- Indexes for interest_allocations
+CREATE INDEX "interest_allocations_group_id_member_id_idx" ON "interest_allocations"("group_id", "member_id");
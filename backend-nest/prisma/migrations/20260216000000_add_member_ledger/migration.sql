@@ -0,0 +1,75 @@
+-- Member Ledger Migration
+-- Adds a per-member sub-ledger with running balances and backfills it from the group ledger
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Member Ledger Entries (a group entry's effect on one member; immutable)
+CREATE TABLE "member_ledger_entries" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "ledger_entry_id" UUID NOT NULL REFERENCES "ledger_entries"("id"),
+  "entry_type" "LedgerEntryType" NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "currency" VARCHAR(3) NOT NULL DEFAULT 'ZAR',
+  "balance_after" DECIMAL(19, 4) NOT NULL,
+  "reference_type" VARCHAR(50),
+  "reference_id" UUID,
+  "description" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "member_ledger_entries_amount_non_negative" CHECK ("amount" >= 0)
+);
+
+-- Indexes for member_ledger_entries
+CREATE INDEX "member_ledger_entries_group_id_member_id_created_at_idx" ON "member_ledger_entries"("group_id", "member_id", "created_at");
+CREATE INDEX "member_ledger_entries_ledger_entry_id_idx" ON "member_ledger_entries"("ledger_entry_id");
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+
+-- Post every existing group entry that can be traced to members:
+-- contributions and fines carry the member in their metadata, interest is
+-- split by its allocations and payouts by their lines. Payouts raised before
+-- payout lines existed have no per-member split and are not posted.
+INSERT INTO "member_ledger_entries" (
+  "group_id", "member_id", "ledger_entry_id", "entry_type", "amount", "currency",
+  "balance_after", "reference_type", "reference_id", "description", "created_at"
+)
+SELECT
+  "group_id", "member_id", "ledger_entry_id", "entry_type", "amount", "currency",
+  SUM(CASE WHEN "entry_type" = 'PAYOUT_DEBIT' THEN -"amount" ELSE "amount" END) OVER (
+    PARTITION BY "group_id", "member_id"
+    ORDER BY "created_at", "ledger_entry_id"
+    ROWS UNBOUNDED PRECEDING
+  ),
+  "reference_type", "reference_id", "description", "created_at"
+FROM (
+  SELECT le."group_id", (le."metadata"->>'memberId')::UUID AS "member_id", le."id" AS "ledger_entry_id",
+         le."entry_type", le."amount", le."currency", le."reference_type", le."reference_id",
+         le."description", le."created_at"
+  FROM "ledger_entries" le
+  WHERE le."entry_type" IN ('CONTRIBUTION_CREDIT', 'FINE_CREDIT')
+    AND le."metadata" ? 'memberId'
+
+  UNION ALL
+
+  SELECT le."group_id", ia."member_id", le."id", le."entry_type", ia."amount", le."currency",
+         le."reference_type", le."reference_id", le."description", le."created_at"
+  FROM "interest_allocations" ia
+  JOIN "interest_accruals" acc ON acc."id" = ia."accrual_id"
+  JOIN "ledger_entries" le ON le."id" = acc."ledger_entry_id"
+
+  UNION ALL
+
+  SELECT le."group_id", spl."member_id", le."id", le."entry_type", spl."amount", le."currency",
+         le."reference_type", le."reference_id", le."description", le."created_at"
+  FROM "ledger_entries" le
+  JOIN "savings_payout_lines" spl ON spl."payout_id" = le."reference_id"
+  WHERE le."reference_type" = 'SAVINGS_PAYOUT'
+    AND (le."entry_type" = 'PAYOUT_DEBIT'
+      OR (le."entry_type" = 'PAYOUT_ADJUSTMENT' AND spl."status" = 'FAILED'))
+) AS "postings";
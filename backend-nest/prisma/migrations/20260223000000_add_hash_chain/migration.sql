@@ -0,0 +1,71 @@
+-- Hash Chain Migration
+-- Chains ledger entries and audit logs per group with SHA-256 hashes and stores signed chain heads
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Integrity chain enum
+CREATE TYPE "IntegrityChain" AS ENUM (
+  'LEDGER',
+  'AUDIT'
+);
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+-- Existing rows are numbered in the order they were written. Their hashes
+-- are filled in by the application the first time the chain is written to
+-- or checkpointed, since the hash covers JSON columns in canonical form.
+ALTER TABLE "ledger_entries" ADD COLUMN "sequence" INTEGER;
+ALTER TABLE "ledger_entries" ADD COLUMN "hash" VARCHAR(64);
+ALTER TABLE "ledger_entries" ADD COLUMN "prev_hash" VARCHAR(64);
+
+UPDATE "ledger_entries" le
+SET "sequence" = numbered."sequence"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "group_id" ORDER BY "created_at", "id") AS "sequence"
+  FROM "ledger_entries"
+) AS numbered
+WHERE le."id" = numbered."id";
+
+ALTER TABLE "ledger_entries" ALTER COLUMN "sequence" SET NOT NULL;
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_group_sequence_unique" UNIQUE ("group_id", "sequence");
+
+ALTER TABLE "audit_logs" ADD COLUMN "sequence" INTEGER;
+ALTER TABLE "audit_logs" ADD COLUMN "hash" VARCHAR(64);
+ALTER TABLE "audit_logs" ADD COLUMN "prev_hash" VARCHAR(64);
+
+UPDATE "audit_logs" al
+SET "sequence" = numbered."sequence"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "group_id" ORDER BY "created_at", "id") AS "sequence"
+  FROM "audit_logs"
+) AS numbered
+WHERE al."id" = numbered."id";
+
+ALTER TABLE "audit_logs" ALTER COLUMN "sequence" SET NOT NULL;
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_group_sequence_unique" UNIQUE ("group_id", "sequence");
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Chain Checkpoints (Ed25519-signed chain heads)
+CREATE TABLE "chain_checkpoints" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "chain" "IntegrityChain" NOT NULL,
+  "sequence" INTEGER NOT NULL,
+  "head_hash" VARCHAR(64) NOT NULL,
+  "signature" TEXT NOT NULL,
+  "key_id" VARCHAR(32) NOT NULL,
+  "signed_at" TIMESTAMPTZ NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "chain_checkpoints_group_chain_sequence_unique" UNIQUE ("group_id", "chain", "sequence")
+);
+
+-- Indexes for chain_checkpoints
+CREATE INDEX "chain_checkpoints_group_id_chain_idx" ON "chain_checkpoints"("group_id", "chain");
@@ -0,0 +1,73 @@
+-- Accounting Periods Migration
+-- Adds an effective date to ledger entries, links corrections to the entry they correct and records closed periods
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Accounting period type enum
+CREATE TYPE "AccountingPeriodType" AS ENUM (
+  'MONTH',
+  'FINANCIAL_YEAR'
+);
+
+-- Accounting period status enum
+CREATE TYPE "AccountingPeriodStatus" AS ENUM (
+  'CLOSED',
+  'REOPEN_REQUESTED',
+  'REOPENED'
+);
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+-- Existing entries take effect on the (UTC) day they were written
+ALTER TABLE "ledger_entries" ADD COLUMN "effective_date" DATE;
+UPDATE "ledger_entries" SET "effective_date" = ("created_at" AT TIME ZONE 'UTC')::date;
+ALTER TABLE "ledger_entries" ALTER COLUMN "effective_date" SET NOT NULL;
+
+ALTER TABLE "ledger_entries" ADD COLUMN "corrects_entry_id" UUID REFERENCES "ledger_entries"("id");
+
+CREATE INDEX "ledger_entries_group_id_effective_date_idx" ON "ledger_entries"("group_id", "effective_date");
+
+-- The ledger hash now covers the effective date and corrected entry. Entries
+-- already written keep their hashes and checkpoints under hash version 1,
+-- which does not; entries written from now on are hashed under version 2
+ALTER TABLE "ledger_entries" ADD COLUMN "hash_version" SMALLINT NOT NULL DEFAULT 1;
+ALTER TABLE "ledger_entries" ALTER COLUMN "hash_version" SET DEFAULT 2;
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Accounting Periods (closed months and financial years)
+CREATE TABLE "accounting_periods" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "period_type" "AccountingPeriodType" NOT NULL,
+  "period_start" DATE NOT NULL,
+  "period_end" DATE NOT NULL,
+  "status" "AccountingPeriodStatus" NOT NULL DEFAULT 'CLOSED',
+  "opening_balance" DECIMAL(19, 4) NOT NULL,
+  "closing_balance" DECIMAL(19, 4) NOT NULL,
+  "total_credits" DECIMAL(19, 4) NOT NULL,
+  "total_debits" DECIMAL(19, 4) NOT NULL,
+  "entry_count" INTEGER NOT NULL,
+  "head_sequence" INTEGER NOT NULL,
+  "closed_by" UUID NOT NULL,
+  "closed_at" TIMESTAMPTZ NOT NULL,
+  "reopen_requested_by" UUID,
+  "reopen_requested_at" TIMESTAMPTZ,
+  "reopen_reason" TEXT,
+  "reopened_by" UUID,
+  "reopened_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "accounting_periods_group_type_start_unique" UNIQUE ("group_id", "period_type", "period_start"),
+  CONSTRAINT "accounting_periods_dates_valid" CHECK ("period_end" >= "period_start")
+);
+
+-- Indexes for accounting_periods
+CREATE INDEX "accounting_periods_group_id_period_idx" ON "accounting_periods"("group_id", "period_start", "period_end");
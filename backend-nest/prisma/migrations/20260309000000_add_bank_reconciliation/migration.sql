@@ -0,0 +1,77 @@
+-- Bank Reconciliation Migration
+-- Adds imported bank statements, their deposits and the payment reference members give with a contribution
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Bank statement format enum
+CREATE TYPE "BankStatementFormat" AS ENUM (
+  'CSV',
+  'OFX'
+);
+
+-- Bank transaction status enum
+CREATE TYPE "BankTransactionStatus" AS ENUM (
+  'UNMATCHED',
+  'PROPOSED',
+  'CONFIRMED',
+  'IGNORED'
+);
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "contributions" ADD COLUMN "external_reference" VARCHAR(100);
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Bank Statement Imports (one per BANK_STATEMENT document)
+CREATE TABLE "bank_statement_imports" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "document_id" UUID NOT NULL UNIQUE REFERENCES "documents"("id"),
+  "format" "BankStatementFormat" NOT NULL,
+  "layout" VARCHAR(30) NOT NULL,
+  "account_number" VARCHAR(50),
+  "statement_start" DATE,
+  "statement_end" DATE,
+  "deposit_count" INTEGER NOT NULL,
+  "duplicate_count" INTEGER NOT NULL,
+  "debit_count" INTEGER NOT NULL,
+  "imported_by" UUID NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Bank Transactions (deposits, matched to contributions)
+CREATE TABLE "bank_transactions" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "import_id" UUID NOT NULL REFERENCES "bank_statement_imports"("id") ON DELETE CASCADE,
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "posted_on" DATE NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "description" TEXT NOT NULL,
+  "reference" VARCHAR(100),
+  "fit_id" VARCHAR(100),
+  "fingerprint" VARCHAR(64) NOT NULL,
+  "status" "BankTransactionStatus" NOT NULL DEFAULT 'UNMATCHED',
+  "contribution_id" UUID UNIQUE REFERENCES "contributions"("id"),
+  "match_score" INTEGER,
+  "match_reasons" JSONB,
+  "resolved_by" UUID,
+  "resolved_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "bank_transactions_group_fingerprint_unique" UNIQUE ("group_id", "fingerprint"),
+  CONSTRAINT "bank_transactions_amount_positive" CHECK ("amount" > 0)
+);
+
+-- Indexes for bank_statement_imports
+CREATE INDEX "bank_statement_imports_group_id_idx" ON "bank_statement_imports"("group_id");
+
+-- Indexes for bank_transactions
+CREATE INDEX "bank_transactions_group_id_status_idx" ON "bank_transactions"("group_id", "status");
@@ -0,0 +1,22 @@
+-- Ledger Account Mappings Migration
+-- Adds per-group chart-of-accounts codes for exporting the ledger as a double-entry journal
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Ledger Account Mappings (one per group and entry type; unmapped types use the defaults)
+CREATE TABLE "ledger_account_mappings" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "entry_type" "LedgerEntryType" NOT NULL,
+  "account_code" VARCHAR(30) NOT NULL,
+  "account_name" VARCHAR(100) NOT NULL,
+  "cash_account_code" VARCHAR(30) NOT NULL,
+  "cash_account_name" VARCHAR(100) NOT NULL,
+  "updated_by" UUID NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "ledger_account_mappings_group_type_unique" UNIQUE ("group_id", "entry_type")
+);
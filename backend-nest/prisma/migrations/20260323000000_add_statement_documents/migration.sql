@@ -0,0 +1,10 @@
+-- Statement Documents Migration
+-- Adds document types for generated PDF member statements and group annual statements
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Add generated statement document types
+ALTER TYPE "DocumentType" ADD VALUE IF NOT EXISTS 'MEMBER_STATEMENT';
+ALTER TYPE "DocumentType" ADD VALUE IF NOT EXISTS 'GROUP_STATEMENT';
@@ -0,0 +1,9 @@
+-- AGM Report Documents Migration
+-- Adds a document type for generated annual general meeting report packs
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Add generated AGM report document type
+ALTER TYPE "DocumentType" ADD VALUE IF NOT EXISTS 'AGM_REPORT';
@@ -0,0 +1,22 @@
+-- Contribution Excusals Migration
+-- Adds periods a member is excused from contributing, for the compliance matrix and fine assessment
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Contribution Excusals (one per member per excused contribution period)
+CREATE TABLE "contribution_excusals" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "period_start" DATE NOT NULL,
+  "reason" TEXT NOT NULL,
+  "excused_by" UUID NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "contribution_excusals_group_member_period_unique" UNIQUE ("group_id", "member_id", "period_start")
+);
+
+-- Indexes for contribution_excusals
+CREATE INDEX "contribution_excusals_group_id_period_start_idx" ON "contribution_excusals"("group_id", "period_start");
@@ -0,0 +1,45 @@
+-- Contribution Allocations Migration
+-- Lets members pay a period in instalments or several periods ahead: approved
+-- contributions are allocated to periods and any excess is held as credit
+
+-- ============================================
+-- CONTRIBUTIONS
+-- ============================================
+
+-- A member may now have several contributions for one period
+DROP INDEX IF EXISTS "contributions_group_id_member_id_period_start_key";
+CREATE INDEX "contributions_group_id_member_id_period_start_idx" ON "contributions"("group_id", "member_id", "period_start");
+
+ALTER TABLE "contributions" ADD COLUMN "credit_remaining" DECIMAL(19, 4) NOT NULL DEFAULT 0;
+ALTER TABLE "contributions" ADD CONSTRAINT "contributions_credit_remaining_non_negative" CHECK ("credit_remaining" >= 0);
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Contribution Allocations (part of an approved contribution paying one period)
+CREATE TABLE "contribution_allocations" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL,
+  "contribution_id" UUID NOT NULL REFERENCES "contributions"("id") ON DELETE CASCADE,
+  "period_start" DATE NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "contribution_allocations_amount_positive" CHECK ("amount" > 0)
+);
+
+-- Indexes for contribution_allocations
+CREATE INDEX "contribution_allocations_group_id_member_id_period_start_idx" ON "contribution_allocations"("group_id", "member_id", "period_start");
+CREATE INDEX "contribution_allocations_contribution_id_idx" ON "contribution_allocations"("contribution_id");
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+
+-- Contributions approved before allocations existed paid their own period in full
+INSERT INTO "contribution_allocations" ("group_id", "member_id", "contribution_id", "period_start", "amount", "created_at")
+SELECT "group_id", "member_id", "id", "period_start", "amount", COALESCE("approved_at", "created_at")
+FROM "contributions"
+WHERE "status" = 'APPROVED' AND "deleted_at" IS NULL AND "amount" > 0;
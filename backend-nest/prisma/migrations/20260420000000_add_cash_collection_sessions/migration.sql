@@ -0,0 +1,61 @@
+-- Cash Collection Sessions Migration
+-- Adds meeting-day cash sessions, where the treasurer records cash per member and a second officer countersigns the count
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Cash session status enum
+CREATE TYPE "CashSessionStatus" AS ENUM (
+  'OPEN',
+  'COUNTERSIGNED',
+  'CLOSED',
+  'CANCELLED'
+);
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Cash Collection Sessions (one per meeting)
+CREATE TABLE "cash_collection_sessions" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "meeting_date" DATE NOT NULL,
+  "status" "CashSessionStatus" NOT NULL DEFAULT 'OPEN',
+  "recorded_total" DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  "counted_total" DECIMAL(19, 4),
+  "variance" DECIMAL(19, 4),
+  "variance_flagged" BOOLEAN NOT NULL DEFAULT FALSE,
+  "notes" TEXT,
+  "opened_by" UUID NOT NULL,
+  "countersigned_by" UUID,
+  "countersigned_at" TIMESTAMPTZ,
+  "closed_by" UUID,
+  "closed_at" TIMESTAMPTZ,
+  "ledger_entry_id" UUID UNIQUE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "cash_collection_sessions_counted_total_non_negative" CHECK ("counted_total" IS NULL OR "counted_total" >= 0),
+  CONSTRAINT "cash_collection_sessions_countersigned_by_other_officer" CHECK ("countersigned_by" IS NULL OR "countersigned_by" <> "opened_by")
+);
+
+-- Cash Collection Entries (cash recorded against a member for a period)
+CREATE TABLE "cash_collection_entries" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "session_id" UUID NOT NULL REFERENCES "cash_collection_sessions"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "period_start" DATE NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "recorded_by" UUID NOT NULL,
+  "contribution_id" UUID UNIQUE REFERENCES "contributions"("id"),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "cash_collection_entries_session_member_period_unique" UNIQUE ("session_id", "member_id", "period_start"),
+  CONSTRAINT "cash_collection_entries_amount_positive" CHECK ("amount" > 0)
+);
+
+-- Indexes for cash_collection_sessions
+CREATE INDEX "cash_collection_sessions_group_id_status_idx" ON "cash_collection_sessions"("group_id", "status");
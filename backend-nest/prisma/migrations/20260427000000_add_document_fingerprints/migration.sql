@@ -0,0 +1,18 @@
+-- Document Fingerprints Migration
+-- Adds content and perceptual hashes to documents so a proof of payment reused for another contribution can be flagged
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+-- Hashes are taken on upload; documents uploaded before this migration have none
+ALTER TABLE "documents" ADD COLUMN "content_hash" VARCHAR(64);
+ALTER TABLE "documents" ADD COLUMN "perceptual_hash" VARCHAR(16);
+
+ALTER TABLE "contributions" ADD COLUMN "pop_flagged" BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX "documents_group_id_content_hash_idx" ON "documents"("group_id", "content_hash");
@@ -0,0 +1,35 @@
+-- Document Extractions Migration
+-- Adds OCR results for proofs of payment and grocery receipts, used to prefill and check contributions and purchases
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Extraction status enum
+CREATE TYPE "ExtractionStatus" AS ENUM (
+  'PENDING',
+  'COMPLETED',
+  'FAILED',
+  'UNSUPPORTED'
+);
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Document Extractions (one per uploaded proof of payment or receipt)
+CREATE TABLE "document_extractions" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "document_id" UUID NOT NULL UNIQUE REFERENCES "documents"("id") ON DELETE CASCADE,
+  "status" "ExtractionStatus" NOT NULL DEFAULT 'PENDING',
+  "engine" VARCHAR(30),
+  "text" TEXT,
+  "amount" DECIMAL(19, 4),
+  "transaction_date" DATE,
+  "reference" VARCHAR(100),
+  "supplier_name" VARCHAR(200),
+  "line_items" JSONB,
+  "error" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "completed_at" TIMESTAMPTZ
+);
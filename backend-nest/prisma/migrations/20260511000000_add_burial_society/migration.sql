@@ -0,0 +1,163 @@
+-- Burial Society Migration
+-- Adds cover tiers, member policies with dependants, and funeral claims reviewed by several officers and paid from the pot
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Burial policy status enum
+CREATE TYPE "BurialPolicyStatus" AS ENUM (
+  'ACTIVE',
+  'CANCELLED',
+  'CLAIMED'
+);
+
+-- Dependant relationship enum
+CREATE TYPE "DependantRelationship" AS ENUM (
+  'SPOUSE',
+  'CHILD',
+  'PARENT',
+  'PARENT_IN_LAW',
+  'EXTENDED'
+);
+
+-- Dependant status enum
+CREATE TYPE "DependantStatus" AS ENUM (
+  'ACTIVE',
+  'REMOVED',
+  'DECEASED'
+);
+
+-- Burial claim status enum
+CREATE TYPE "BurialClaimStatus" AS ENUM (
+  'SUBMITTED',
+  'APPROVED',
+  'REJECTED',
+  'PAID'
+);
+
+-- Paid claims are debited from the pot
+ALTER TYPE "LedgerEntryType" ADD VALUE IF NOT EXISTS 'BURIAL_CLAIM_DEBIT';
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Burial Rules (one per burial group)
+CREATE TABLE "burial_rules" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL UNIQUE REFERENCES "groups"("id") ON DELETE CASCADE,
+  "min_approval_count" INTEGER NOT NULL DEFAULT 2,
+  "max_dependants" INTEGER NOT NULL DEFAULT 10,
+  "child_max_age" INTEGER NOT NULL DEFAULT 21,
+  "parent_max_age" INTEGER NOT NULL DEFAULT 75,
+  "extended_max_age" INTEGER NOT NULL DEFAULT 65,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "burial_rules_min_approval_count_positive" CHECK ("min_approval_count" >= 1)
+);
+
+-- Burial Cover Tiers
+CREATE TABLE "burial_cover_tiers" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "name" VARCHAR(100) NOT NULL,
+  "monthly_premium" DECIMAL(19, 4) NOT NULL,
+  "member_cover" DECIMAL(19, 4) NOT NULL,
+  "spouse_cover" DECIMAL(19, 4) NOT NULL,
+  "child_cover" DECIMAL(19, 4) NOT NULL,
+  "parent_cover" DECIMAL(19, 4) NOT NULL,
+  "extended_cover" DECIMAL(19, 4) NOT NULL,
+  "active" BOOLEAN NOT NULL DEFAULT TRUE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "deleted_at" TIMESTAMPTZ,
+
+  CONSTRAINT "burial_cover_tiers_group_name_unique" UNIQUE ("group_id", "name"),
+  CONSTRAINT "burial_cover_tiers_amounts_non_negative" CHECK (
+    "monthly_premium" >= 0 AND "member_cover" >= 0 AND "spouse_cover" >= 0 AND
+    "child_cover" >= 0 AND "parent_cover" >= 0 AND "extended_cover" >= 0
+  )
+);
+
+-- Burial Policies (one per member of a burial group)
+CREATE TABLE "burial_policies" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "tier_id" UUID NOT NULL REFERENCES "burial_cover_tiers"("id"),
+  "status" "BurialPolicyStatus" NOT NULL DEFAULT 'ACTIVE',
+  "start_date" DATE NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "burial_policies_group_member_unique" UNIQUE ("group_id", "member_id")
+);
+
+-- Burial Dependants
+CREATE TABLE "burial_dependants" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "policy_id" UUID NOT NULL REFERENCES "burial_policies"("id") ON DELETE CASCADE,
+  "first_name" VARCHAR(100) NOT NULL,
+  "last_name" VARCHAR(100) NOT NULL,
+  "id_number" VARCHAR(20),
+  "date_of_birth" DATE NOT NULL,
+  "relationship" "DependantRelationship" NOT NULL,
+  "status" "DependantStatus" NOT NULL DEFAULT 'ACTIVE',
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Burial Claims
+CREATE TABLE "burial_claims" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "policy_id" UUID NOT NULL REFERENCES "burial_policies"("id"),
+  "dependant_id" UUID REFERENCES "burial_dependants"("id"),
+  "claimant_id" UUID NOT NULL REFERENCES "users"("id"),
+  "deceased_name" VARCHAR(200) NOT NULL,
+  "date_of_death" DATE NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "currency" VARCHAR(3) NOT NULL DEFAULT 'ZAR',
+  "status" "BurialClaimStatus" NOT NULL DEFAULT 'SUBMITTED',
+  "death_certificate_document_id" UUID NOT NULL REFERENCES "documents"("id"),
+  "deceased_id_document_id" UUID NOT NULL REFERENCES "documents"("id"),
+  "claimant_id_document_id" UUID NOT NULL REFERENCES "documents"("id"),
+  "notes" TEXT,
+  "rejection_reason" TEXT,
+  "approved_at" TIMESTAMPTZ,
+  "payment_reference" VARCHAR(100),
+  "paid_by" UUID,
+  "paid_at" TIMESTAMPTZ,
+  "ledger_entry_id" UUID UNIQUE,
+  "idempotency_key" VARCHAR(100) UNIQUE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "burial_claims_amount_positive" CHECK ("amount" > 0)
+);
+
+-- Burial Claim Approvals (one vote per officer per claim)
+CREATE TABLE "burial_claim_approvals" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "claim_id" UUID NOT NULL REFERENCES "burial_claims"("id") ON DELETE CASCADE,
+  "approver_id" UUID NOT NULL REFERENCES "users"("id"),
+  "decision" "ApprovalDecision" NOT NULL,
+  "reason" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "burial_claim_approvals_claim_approver_unique" UNIQUE ("claim_id", "approver_id")
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX "burial_cover_tiers_group_id_idx" ON "burial_cover_tiers"("group_id");
+CREATE INDEX "burial_policies_tier_id_idx" ON "burial_policies"("tier_id");
+CREATE INDEX "burial_dependants_policy_id_idx" ON "burial_dependants"("policy_id");
+CREATE INDEX "burial_claims_group_id_status_idx" ON "burial_claims"("group_id", "status");
+CREATE INDEX "burial_claims_policy_id_idx" ON "burial_claims"("policy_id");
+CREATE INDEX "burial_claims_claimant_id_idx" ON "burial_claims"("claimant_id");
+CREATE INDEX "burial_claim_approvals_claim_id_idx" ON "burial_claim_approvals"("claim_id");
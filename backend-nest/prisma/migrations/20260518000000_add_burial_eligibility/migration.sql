@@ -0,0 +1,15 @@
+-- Burial Eligibility Migration
+-- Adds waiting periods, a minimum run of paid months and lapsing to burial rules, and records each claim's eligibility check
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "burial_rules" ADD COLUMN "waiting_period_months" INTEGER NOT NULL DEFAULT 6;
+ALTER TABLE "burial_rules" ADD COLUMN "min_consecutive_paid_months" INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE "burial_rules" ADD COLUMN "lapse_after_missed_months" INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE "burial_rules" ADD COLUMN "reinstatement_waiting_months" INTEGER NOT NULL DEFAULT 3;
+
+-- Claims submitted before this migration were not checked and have neither
+ALTER TABLE "burial_claims" ADD COLUMN "eligible" BOOLEAN;
+ALTER TABLE "burial_claims" ADD COLUMN "eligibility_checks" JSONB;
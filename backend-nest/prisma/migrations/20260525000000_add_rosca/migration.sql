@@ -0,0 +1,110 @@
+-- ROSCA Migration
+-- Adds rotations that hand each month's pot to one member in turn, and the defaults of members who miss a cycle
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Turn order method enum
+CREATE TYPE "RoscaOrderMethod" AS ENUM (
+  'MANUAL',
+  'RANDOM_DRAW',
+  'JOIN_DATE'
+);
+
+-- Rotation status enum
+CREATE TYPE "RoscaRotationStatus" AS ENUM (
+  'ACTIVE',
+  'COMPLETED',
+  'CANCELLED'
+);
+
+-- Cycle status enum
+CREATE TYPE "RoscaCycleStatus" AS ENUM (
+  'SCHEDULED',
+  'PAID'
+);
+
+-- Default status enum
+CREATE TYPE "RoscaDefaultStatus" AS ENUM (
+  'OUTSTANDING',
+  'SETTLED'
+);
+
+-- Pot handovers are debited from the pot
+ALTER TYPE "LedgerEntryType" ADD VALUE IF NOT EXISTS 'ROSCA_PAYOUT_DEBIT';
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- ROSCA Rotations
+CREATE TABLE "rosca_rotations" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "contribution_amount" DECIMAL(19, 4) NOT NULL,
+  "currency" VARCHAR(3) NOT NULL DEFAULT 'ZAR',
+  "start_period" DATE NOT NULL,
+  "order_method" "RoscaOrderMethod" NOT NULL,
+  "draw_seed" VARCHAR(64),
+  "status" "RoscaRotationStatus" NOT NULL DEFAULT 'ACTIVE',
+  "created_by" UUID NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "rosca_rotations_contribution_amount_positive" CHECK ("contribution_amount" > 0)
+);
+
+-- ROSCA Cycles (one per member of a rotation)
+CREATE TABLE "rosca_cycles" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "rotation_id" UUID NOT NULL REFERENCES "rosca_rotations"("id") ON DELETE CASCADE,
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "cycle_number" INTEGER NOT NULL,
+  "period_start" DATE NOT NULL,
+  "recipient_id" UUID NOT NULL REFERENCES "users"("id"),
+  "pot_amount" DECIMAL(19, 4) NOT NULL,
+  "paid_amount" DECIMAL(19, 4),
+  "status" "RoscaCycleStatus" NOT NULL DEFAULT 'SCHEDULED',
+  "payment_reference" VARCHAR(100),
+  "paid_by" UUID,
+  "paid_at" TIMESTAMPTZ,
+  "ledger_entry_id" UUID UNIQUE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "rosca_cycles_rotation_cycle_unique" UNIQUE ("rotation_id", "cycle_number"),
+  CONSTRAINT "rosca_cycles_rotation_recipient_unique" UNIQUE ("rotation_id", "recipient_id")
+);
+
+-- ROSCA Defaults (one per member per missed cycle)
+CREATE TABLE "rosca_defaults" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "rotation_id" UUID NOT NULL REFERENCES "rosca_rotations"("id") ON DELETE CASCADE,
+  "cycle_id" UUID NOT NULL REFERENCES "rosca_cycles"("id") ON DELETE CASCADE,
+  "group_id" UUID NOT NULL,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "after_payout" BOOLEAN NOT NULL,
+  "status" "RoscaDefaultStatus" NOT NULL DEFAULT 'OUTSTANDING',
+  "reason" TEXT,
+  "recorded_by" UUID NOT NULL,
+  "netted_in_cycle_id" UUID REFERENCES "rosca_cycles"("id"),
+  "payment_reference" VARCHAR(100),
+  "settled_by" UUID,
+  "settled_at" TIMESTAMPTZ,
+  "ledger_entry_id" UUID UNIQUE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "rosca_defaults_cycle_member_unique" UNIQUE ("cycle_id", "member_id")
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX "rosca_rotations_group_id_status_idx" ON "rosca_rotations"("group_id", "status");
+CREATE INDEX "rosca_cycles_group_id_period_start_idx" ON "rosca_cycles"("group_id", "period_start");
+CREATE INDEX "rosca_defaults_group_id_status_idx" ON "rosca_defaults"("group_id", "status");
+CREATE INDEX "rosca_defaults_member_id_idx" ON "rosca_defaults"("member_id");
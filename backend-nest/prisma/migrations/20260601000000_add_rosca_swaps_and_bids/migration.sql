@@ -0,0 +1,78 @@
+-- ROSCA Swaps and Bids Migration
+-- Adds turn swaps agreed by both members and approved by the chairperson, and auctions where members bid a discount to receive a pot early
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Turn swap status enum
+CREATE TYPE "RoscaSwapStatus" AS ENUM (
+  'PENDING',
+  'ACCEPTED',
+  'APPROVED',
+  'DECLINED',
+  'REJECTED',
+  'CANCELLED'
+);
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "rosca_rotations" ADD COLUMN "bidding_enabled" BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE "rosca_cycles" ADD COLUMN "auction_closed_at" TIMESTAMPTZ;
+ALTER TABLE "rosca_cycles" ADD COLUMN "discount" DECIMAL(19, 4);
+ALTER TABLE "rosca_cycles" ADD COLUMN "discount_ledger_entry_id" UUID UNIQUE;
+
+-- Swapping two recipients breaks one-turn-per-member between the two
+-- updates, so the check waits for the end of the transaction
+ALTER TABLE "rosca_cycles" DROP CONSTRAINT "rosca_cycles_rotation_recipient_unique";
+ALTER TABLE "rosca_cycles" ADD CONSTRAINT "rosca_cycles_rotation_recipient_unique"
+  UNIQUE ("rotation_id", "recipient_id") DEFERRABLE INITIALLY DEFERRED;
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- ROSCA Turn Swaps
+CREATE TABLE "rosca_turn_swaps" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "rotation_id" UUID NOT NULL REFERENCES "rosca_rotations"("id") ON DELETE CASCADE,
+  "group_id" UUID NOT NULL,
+  "requester_id" UUID NOT NULL REFERENCES "users"("id"),
+  "requester_cycle_id" UUID NOT NULL REFERENCES "rosca_cycles"("id") ON DELETE CASCADE,
+  "counterparty_id" UUID NOT NULL REFERENCES "users"("id"),
+  "counterparty_cycle_id" UUID NOT NULL REFERENCES "rosca_cycles"("id") ON DELETE CASCADE,
+  "status" "RoscaSwapStatus" NOT NULL DEFAULT 'PENDING',
+  "reason" TEXT,
+  "accepted_at" TIMESTAMPTZ,
+  "decided_by" UUID,
+  "decided_at" TIMESTAMPTZ,
+  "decision_reason" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "rosca_turn_swaps_different_cycles" CHECK ("requester_cycle_id" <> "counterparty_cycle_id")
+);
+
+-- ROSCA Bids (one per member per cycle, raised in place)
+CREATE TABLE "rosca_bids" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "cycle_id" UUID NOT NULL REFERENCES "rosca_cycles"("id") ON DELETE CASCADE,
+  "group_id" UUID NOT NULL,
+  "bidder_id" UUID NOT NULL REFERENCES "users"("id"),
+  "discount" DECIMAL(19, 4) NOT NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "rosca_bids_cycle_bidder_unique" UNIQUE ("cycle_id", "bidder_id"),
+  CONSTRAINT "rosca_bids_discount_positive" CHECK ("discount" > 0)
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX "rosca_turn_swaps_rotation_id_status_idx" ON "rosca_turn_swaps"("rotation_id", "status");
+CREATE INDEX "rosca_turn_swaps_counterparty_id_idx" ON "rosca_turn_swaps"("counterparty_id");
@@ -0,0 +1,128 @@
+-- Member Loans Migration
+-- Adds loans from a savings group's pot to its members, with their approvals, repayment schedules and repayments
+
+-- ============================================
+-- ENUMS
+-- ============================================
+
+-- Loan status enum
+CREATE TYPE "LoanStatus" AS ENUM (
+  'PENDING',
+  'APPROVED',
+  'REJECTED',
+  'CANCELLED',
+  'ACTIVE',
+  'REPAID'
+);
+
+-- Instalment status enum
+CREATE TYPE "LoanInstalmentStatus" AS ENUM (
+  'DUE',
+  'OVERDUE',
+  'PAID'
+);
+
+-- Loans leave the pot as a debit and come back as principal and interest credits
+ALTER TYPE "LedgerEntryType" ADD VALUE IF NOT EXISTS 'LOAN_DISBURSEMENT_DEBIT';
+ALTER TYPE "LedgerEntryType" ADD VALUE IF NOT EXISTS 'LOAN_REPAYMENT_CREDIT';
+ALTER TYPE "LedgerEntryType" ADD VALUE IF NOT EXISTS 'LOAN_INTEREST_CREDIT';
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "savings_rules" ADD COLUMN "loan_limit_percent" DECIMAL(5, 2);
+ALTER TABLE "savings_rules" ADD COLUMN "loan_interest_rate" DECIMAL(7, 4);
+ALTER TABLE "savings_rules" ADD COLUMN "loan_penalty_rate" DECIMAL(7, 4);
+ALTER TABLE "savings_rules" ADD COLUMN "loan_max_term_months" INTEGER NOT NULL DEFAULT 12;
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- Member Loans
+CREATE TABLE "member_loans" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "group_id" UUID NOT NULL REFERENCES "groups"("id") ON DELETE CASCADE,
+  "member_id" UUID NOT NULL REFERENCES "users"("id"),
+  "principal" DECIMAL(19, 4) NOT NULL,
+  "currency" VARCHAR(3) NOT NULL DEFAULT 'ZAR',
+  "interest_rate" DECIMAL(7, 4) NOT NULL,
+  "penalty_rate" DECIMAL(7, 4) NOT NULL,
+  "term_months" INTEGER NOT NULL,
+  "purpose" TEXT,
+  "status" "LoanStatus" NOT NULL DEFAULT 'PENDING',
+  "approved_at" TIMESTAMPTZ,
+  "disbursed_by" UUID,
+  "disbursed_at" TIMESTAMPTZ,
+  "payment_reference" VARCHAR(100),
+  "ledger_entry_id" UUID UNIQUE REFERENCES "ledger_entries"("id"),
+  "repaid_at" TIMESTAMPTZ,
+  "idempotency_key" VARCHAR(100) UNIQUE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "member_loans_principal_positive" CHECK ("principal" > 0),
+  CONSTRAINT "member_loans_term_positive" CHECK ("term_months" > 0)
+);
+
+-- Member Loan Approvals (one vote per officer per loan)
+CREATE TABLE "member_loan_approvals" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "loan_id" UUID NOT NULL REFERENCES "member_loans"("id") ON DELETE CASCADE,
+  "approver_id" UUID NOT NULL REFERENCES "users"("id"),
+  "decision" "ApprovalDecision" NOT NULL,
+  "reason" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "member_loan_approvals_loan_approver_unique" UNIQUE ("loan_id", "approver_id")
+);
+
+-- Member Loan Instalments (the repayment schedule, one per month)
+CREATE TABLE "member_loan_instalments" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "loan_id" UUID NOT NULL REFERENCES "member_loans"("id") ON DELETE CASCADE,
+  "instalment_number" INTEGER NOT NULL,
+  "due_date" DATE NOT NULL,
+  "principal_due" DECIMAL(19, 4) NOT NULL,
+  "interest_due" DECIMAL(19, 4) NOT NULL,
+  "principal_paid" DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  "interest_paid" DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  "penalty_charged" DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  "penalty_paid" DECIMAL(19, 4) NOT NULL DEFAULT 0,
+  "penalty_charged_to" DATE,
+  "status" "LoanInstalmentStatus" NOT NULL DEFAULT 'DUE',
+  "paid_at" TIMESTAMPTZ,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "member_loan_instalments_loan_number_unique" UNIQUE ("loan_id", "instalment_number")
+);
+
+-- Member Loan Repayments
+CREATE TABLE "member_loan_repayments" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "loan_id" UUID NOT NULL REFERENCES "member_loans"("id") ON DELETE CASCADE,
+  "group_id" UUID NOT NULL,
+  "amount" DECIMAL(19, 4) NOT NULL,
+  "principal" DECIMAL(19, 4) NOT NULL,
+  "interest" DECIMAL(19, 4) NOT NULL,
+  "penalty" DECIMAL(19, 4) NOT NULL,
+  "payment_reference" VARCHAR(100) NOT NULL,
+  "recorded_by" UUID NOT NULL,
+  "principal_ledger_entry_id" UUID UNIQUE REFERENCES "ledger_entries"("id"),
+  "interest_ledger_entry_id" UUID UNIQUE REFERENCES "ledger_entries"("id"),
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT "member_loan_repayments_amount_positive" CHECK ("amount" > 0)
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX "member_loans_group_id_status_idx" ON "member_loans"("group_id", "status");
+CREATE INDEX "member_loans_member_id_idx" ON "member_loans"("member_id");
+CREATE INDEX "member_loan_approvals_loan_id_idx" ON "member_loan_approvals"("loan_id");
+CREATE INDEX "member_loan_instalments_status_due_date_idx" ON "member_loan_instalments"("status", "due_date");
+CREATE INDEX "member_loan_repayments_loan_id_idx" ON "member_loan_repayments"("loan_id");
@@ -0,0 +1,47 @@
+-- Member Ledger Sequence Migration
+-- Numbers each member's sub-ledger postings so the latest one no longer
+-- depends on timestamps, which postings from one batch share
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+
+ALTER TABLE "member_ledger_entries" ADD COLUMN "sequence" INTEGER;
+
+-- Postings follow the group chain they were made on. Running balances are
+-- recomputed in that order, since postings that shared a timestamp were
+-- balanced against whichever of them happened to be read as the latest.
+UPDATE "member_ledger_entries" mle
+SET "sequence" = numbered."sequence",
+    "balance_after" = numbered."balance_after"
+FROM (
+  SELECT
+    m."id",
+    ROW_NUMBER() OVER w AS "sequence",
+    SUM(
+      CASE
+        WHEN m."entry_type" = 'CORRECTION' AND le."amount" < 0 THEN -m."amount"
+        WHEN m."entry_type" IN (
+          'CONTRIBUTION_CREDIT', 'CONTRIBUTION_ADJUSTMENT', 'PAYOUT_ADJUSTMENT', 'FINE_CREDIT',
+          'INTEREST_CREDIT', 'LOAN_REPAYMENT_CREDIT', 'LOAN_INTEREST_CREDIT', 'OPENING_BALANCE',
+          'CORRECTION'
+        ) THEN m."amount"
+        ELSE -m."amount"
+      END
+    ) OVER (w ROWS UNBOUNDED PRECEDING) AS "balance_after"
+  FROM "member_ledger_entries" m
+  JOIN "ledger_entries" le ON le."id" = m."ledger_entry_id"
+  WINDOW w AS (
+    PARTITION BY m."group_id", m."member_id"
+    ORDER BY le."sequence", m."created_at", m."id"
+  )
+) AS numbered
+WHERE mle."id" = numbered."id";
+
+ALTER TABLE "member_ledger_entries" ALTER COLUMN "sequence" SET NOT NULL;
+
+-- ============================================
+-- CONSTRAINTS
+-- ============================================
+
+ALTER TABLE "member_ledger_entries" ADD CONSTRAINT "member_ledger_entries_group_member_sequence_unique" UNIQUE ("group_id", "member_id", "sequence");
@@ -15,6 +15,12 @@ import { AuditModule } from './modules/audit/audit.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
 import { HealthModule } from './modules/health/health.module';
 import { GroceryModule } from './modules/grocery/grocery.module';
+import { IntegrityModule } from './modules/integrity/integrity.module';
+import { ReconciliationModule } from './modules/reconciliation/reconciliation.module';
+import { ReportsModule } from './modules/reports/reports.module';
+import { CashSessionsModule } from './modules/cash-sessions/cash-sessions.module';
+import { BurialModule } from './modules/burial/burial.module';
+import { RoscaModule } from './modules/rosca/rosca.module';
 
 @Module({
   imports: [
@@ -51,6 +57,12 @@ import { GroceryModule } from './modules/grocery/grocery.module';
     AuditModule,
     NotificationsModule,
     GroceryModule,
+    IntegrityModule,
+    ReconciliationModule,
+    ReportsModule,
+    CashSessionsModule,
+    BurialModule,
+    RoscaModule,
   ],
   providers: [
     {
@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { ActorType, AuditOutcome } from '@prisma/client';
+import { ActorType, AuditOutcome, Prisma } from '@prisma/client';
+import { GENESIS_HASH, hashAuditLog, lockChain } from '../integrity/hash-chain';
 
 export interface AuditLogInput {
   actorId?: string;
@@ -23,10 +25,35 @@ export interface AuditLogInput {
 export class AuditService {
   constructor(private prisma: PrismaService) {}
 
+  /**
+   * Append to the group's audit chain, or the system chain when there is no
+   * group. Each log carries the next sequence number, the previous log's hash
+   * and a hash over its own contents.
+   */
   async log(input: AuditLogInput): Promise<void> {
     try {
-      await this.prisma.auditLog.create({
-        data: {
+      const groupId = input.groupId ?? null;
+
+      await this.prisma.$transaction(async (tx) => {
+        await lockChain(tx, 'audit', groupId);
+
+        let latest = await tx.auditLog.findFirst({
+          where: { groupId },
+          orderBy: { sequence: 'desc' },
+          select: { sequence: true, hash: true },
+        });
+        if (latest && latest.hash === null) {
+          await this.sealChainInTransaction(tx, groupId);
+          latest = await tx.auditLog.findFirst({
+            where: { groupId },
+            orderBy: { sequence: 'desc' },
+            select: { sequence: true, hash: true },
+          });
+        }
+
+        const data = {
+          id: randomUUID(),
+          sequence: (latest?.sequence ?? 0) + 1,
           actorId: input.actorId,
           actorType: input.actorType as ActorType,
           action: input.action,
@@ -41,7 +68,13 @@ export class AuditService {
           outcome: input.outcome as AuditOutcome,
           errorCode: input.errorCode,
           errorMessage: input.errorMessage,
-        },
+          createdAt: new Date(),
+        };
+        const prevHash = latest?.hash ?? GENESIS_HASH;
+
+        await tx.auditLog.create({
+          data: { ...data, prevHash, hash: hashAuditLog(data, prevHash) },
+        });
       });
     } catch (error) {
       // Log to console but don't throw - audit logging should not break the main flow
@@ -49,6 +82,18 @@ export class AuditService {
     }
   }
 
+  /**
+   * Hash a chain's logs written before chaining was introduced. Only a chain
+   * with no sealed logs is sealed; anything else is left for verification to
+   * report. Returns the number of logs sealed.
+   */
+  async sealChain(groupId: string | null): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      await lockChain(tx, 'audit', groupId);
+      return this.sealChainInTransaction(tx, groupId);
+    });
+  }
+
   async getAuditLogs(filters: {
     groupId?: string;
     actorId?: string;
@@ -104,4 +149,28 @@ export class AuditService {
 
     return { logs, total, limit, offset };
   }
+
+  private async sealChainInTransaction(
+    tx: Prisma.TransactionClient,
+    groupId: string | null,
+  ): Promise<number> {
+    const sealed = await tx.auditLog.count({ where: { groupId, hash: { not: null } } });
+    if (sealed > 0) {
+      return 0;
+    }
+
+    const logs = await tx.auditLog.findMany({
+      where: { groupId },
+      orderBy: { sequence: 'asc' },
+    });
+
+    let prevHash = GENESIS_HASH;
+    for (const log of logs) {
+      const hash = hashAuditLog(log, prevHash);
+      await tx.auditLog.update({ where: { id: log.id }, data: { hash, prevHash } });
+      prevHash = hash;
+    }
+
+    return logs.length;
+  }
 }
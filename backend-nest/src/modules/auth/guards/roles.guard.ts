@@ -48,12 +48,18 @@ export class RolesGuard implements CanActivate {
           status: 'ACTIVE',
           deletedAt: null,
         },
+        include: { group: { select: { status: true } } },
       });
 
       if (!membership) {
         throw new ForbiddenException('You are not a member of this group');
       }
 
+      // Dissolved groups are archived read-only
+      if (membership.group.status === 'DISSOLVED' && request.method !== 'GET') {
+        throw new ForbiddenException('This group has been dissolved and is read-only');
+      }
+
       // Check if user has required role
       const hasRole = roleRequirement.roles.includes(membership.role as any);
       
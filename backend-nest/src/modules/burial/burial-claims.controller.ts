@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { BurialClaimStatus } from '@prisma/client';
+import { BurialClaimsService } from './burial-claims.service';
+import {
+  ApproveBurialClaimDto,
+  PayBurialClaimDto,
+  RejectBurialClaimDto,
+  SubmitBurialClaimDto,
+} from './dto/burial-claim.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AnyMember, Roles, TreasurerOrHigher } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('burial')
+@Controller({ path: 'groups/:groupId/burial/claims', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class BurialClaimsController {
+  constructor(private readonly claimsService: BurialClaimsService) {}
+
+  @Post()
+  @AnyMember()
+  @ApiOperation({ summary: 'Submit a funeral claim with the death certificate and ID documents' })
+  @ApiResponse({ status: 201, description: 'Claim submitted for review' })
+  @ApiResponse({ status: 400, description: 'Not covered, or a document is missing or wrong' })
+  submit(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: SubmitBurialClaimDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.claimsService.submitClaim(groupId, dto, user.id);
+  }
+
+  @Get()
+  @Roles('TREASURER', 'SECRETARY', 'CHAIRPERSON')
+  @ApiOperation({ summary: 'List funeral claims' })
+  @ApiResponse({ status: 200, description: 'Claims, newest first' })
+  @ApiQuery({ name: 'status', required: false, enum: BurialClaimStatus })
+  list(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('status') status?: BurialClaimStatus,
+  ) {
+    return this.claimsService.listClaims(groupId, status);
+  }
+
+  @Get('mine')
+  @AnyMember()
+  @ApiOperation({ summary: 'List my claims and claims on my policy' })
+  @ApiResponse({ status: 200, description: 'Claims, newest first' })
+  listMine(@Param('groupId', ParseUUIDPipe) groupId: string, @CurrentUser() user: AuthUser) {
+    return this.claimsService.listMyClaims(groupId, user.id);
+  }
+
+  @Get(':claimId')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get a claim with its documents and approvals' })
+  @ApiResponse({ status: 200, description: 'Claim details' })
+  get(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('claimId', ParseUUIDPipe) claimId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.claimsService.getClaim(groupId, claimId, user.id);
+  }
+
+  @Post(':claimId/approve')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Approve a claim (several officers must approve)' })
+  @ApiResponse({ status: 201, description: 'Approval recorded; claim approved once enough agree' })
+  @ApiResponse({ status: 403, description: 'Officers cannot review claims on their own policy' })
+  approve(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('claimId', ParseUUIDPipe) claimId: string,
+    @Body() dto: ApproveBurialClaimDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.claimsService.approveClaim(groupId, claimId, dto, user.id);
+  }
+
+  @Post(':claimId/reject')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Reject a claim' })
+  @ApiResponse({ status: 201, description: 'Claim rejected' })
+  reject(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('claimId', ParseUUIDPipe) claimId: string,
+    @Body() dto: RejectBurialClaimDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.claimsService.rejectClaim(groupId, claimId, dto, user.id);
+  }
+
+  @Post(':claimId/pay')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Record payment of an approved claim' })
+  @ApiResponse({ status: 201, description: 'Claim paid and debited from the ledger' })
+  @ApiResponse({ status: 400, description: 'Claim not approved, or the pot is short' })
+  pay(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('claimId', ParseUUIDPipe) claimId: string,
+    @Body() dto: PayBurialClaimDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.claimsService.payClaim(groupId, claimId, dto, user.id);
+  }
+}
@@ -0,0 +1,415 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { BurialClaimsService } from './burial-claims.service';
+import { BurialService } from './burial.service';
+import { DEFAULT_BURIAL_RULES } from './burial-cover';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('BurialClaimsService', () => {
+  let service: BurialClaimsService;
+
+  const mockPrismaService = {
+    groupMember: {
+      findFirst: jest.fn(),
+    },
+    burialPolicy: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    burialDependant: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    burialClaim: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    burialClaimApproval: {
+      create: jest.fn(),
+      count: jest.fn(),
+    },
+    document: {
+      findFirst: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    appendBurialClaimDebit: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    send: jest.fn(),
+  };
+
+  const mockBurialService = {
+    getRules: jest.fn(),
+    assertPolicyAccess: jest.fn(),
+    checkEligibility: jest.fn(),
+  };
+
+  const policy = (overrides = {}) => ({
+    id: 'policy-1',
+    groupId: 'group-1',
+    memberId: 'member-1',
+    status: 'ACTIVE',
+    startDate: new Date('2025-01-01T00:00:00Z'),
+    member: { id: 'member-1', firstName: 'Sipho', lastName: 'Moyo' },
+    group: { currency: 'ZAR' },
+    tier: {
+      name: 'Gold',
+      memberCover: new Prisma.Decimal(20000),
+      spouseCover: new Prisma.Decimal(15000),
+      childCover: new Prisma.Decimal(8000),
+      parentCover: new Prisma.Decimal(10000),
+      extendedCover: new Prisma.Decimal(0),
+    },
+    ...overrides,
+  });
+
+  const claim = (overrides = {}) => ({
+    id: 'claim-1',
+    groupId: 'group-1',
+    policyId: 'policy-1',
+    dependantId: 'dependant-1',
+    claimantId: 'member-1',
+    deceasedName: 'Grace Moyo',
+    amount: new Prisma.Decimal(10000),
+    currency: 'ZAR',
+    status: 'SUBMITTED',
+    approvals: [],
+    policy: { memberId: 'member-1' },
+    ...overrides,
+  });
+
+  const submission = {
+    policyId: 'policy-1',
+    dependantId: 'dependant-1',
+    dateOfDeath: '2026-05-03',
+    deathCertificateDocumentId: 'doc-death',
+    deceasedIdDocumentId: 'doc-deceased-id',
+    claimantIdDocumentId: 'doc-claimant-id',
+  };
+
+  const documents: Record<string, { id: string; type: string }> = {
+    'doc-death': { id: 'doc-death', type: 'DEATH_CERTIFICATE' },
+    'doc-deceased-id': { id: 'doc-deceased-id', type: 'ID_DOCUMENT' },
+    'doc-claimant-id': { id: 'doc-claimant-id', type: 'ID_DOCUMENT' },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BurialClaimsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: BurialService, useValue: mockBurialService },
+      ],
+    }).compile();
+
+    service = module.get<BurialClaimsService>(BurialClaimsService);
+
+    jest.clearAllMocks();
+    mockBurialService.getRules.mockResolvedValue({ groupId: 'group-1', ...DEFAULT_BURIAL_RULES });
+    mockBurialService.checkEligibility.mockResolvedValue({ eligible: true, checks: [] });
+    mockPrismaService.burialPolicy.findFirst.mockResolvedValue(policy());
+    mockPrismaService.document.findFirst.mockImplementation(({ where }) =>
+      Promise.resolve(documents[where.id] ?? null),
+    );
+    mockPrismaService.burialClaim.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'claim-1', status: 'SUBMITTED', ...data }),
+    );
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      Array.isArray(fn) ? Promise.all(fn) : fn(mockPrismaService),
+    );
+  });
+
+  describe('submitClaim', () => {
+    beforeEach(() => {
+      mockPrismaService.burialDependant.findFirst.mockResolvedValue({
+        id: 'dependant-1',
+        firstName: 'Grace',
+        lastName: 'Moyo',
+        relationship: 'PARENT',
+        dateOfBirth: new Date('1950-02-01T00:00:00Z'),
+      });
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(null);
+    });
+
+    it("should claim the tier's cover for the deceased and tell the claimant", async () => {
+      const result = await service.submitClaim('group-1', submission, 'member-1');
+
+      expect(mockPrismaService.burialClaim.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          claimantId: 'member-1',
+          deceasedName: 'Grace Moyo',
+          amount: new Prisma.Decimal(10000),
+          currency: 'ZAR',
+        }),
+      });
+      expect(result.status).toBe('SUBMITTED');
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-1', type: 'BURIAL_CLAIM_SUBMITTED' }),
+      );
+    });
+
+    it('should record a claim that fails the cover rules and tell the claimant why', async () => {
+      const checks = [
+        {
+          rule: 'WAITING_PERIOD',
+          passed: false,
+          detail: 'Joined on 2026-03-01; the 6-month waiting period ends on 2026-09-01',
+        },
+      ];
+      mockBurialService.checkEligibility.mockResolvedValue({ eligible: false, checks });
+
+      await service.submitClaim('group-1', submission, 'member-1');
+
+      expect(mockPrismaService.burialClaim.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eligible: false, eligibilityChecks: checks }),
+      });
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.stringContaining('the 6-month waiting period ends on 2026-09-01'),
+        }),
+      );
+    });
+
+    it('should refuse a document uploaded as the wrong type', async () => {
+      mockPrismaService.document.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.id === 'doc-death'
+            ? { id: 'doc-death', type: 'OTHER' }
+            : (documents[where.id] ?? null),
+        ),
+      );
+
+      await expect(service.submitClaim('group-1', submission, 'member-1')).rejects.toThrow(
+        'Death certificate must be uploaded as DEATH_CERTIFICATE',
+      );
+      expect(mockPrismaService.burialClaim.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a child who had aged out of cover', async () => {
+      mockPrismaService.burialDependant.findFirst.mockResolvedValue({
+        id: 'dependant-1',
+        firstName: 'Lwazi',
+        lastName: 'Moyo',
+        relationship: 'CHILD',
+        dateOfBirth: new Date('2000-01-01T00:00:00Z'),
+      });
+
+      await expect(service.submitClaim('group-1', submission, 'member-1')).rejects.toThrow(
+        'Children are covered up to age 21',
+      );
+    });
+
+    it('should refuse a second claim for the same person', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(claim());
+
+      await expect(service.submitClaim('group-1', submission, 'member-1')).rejects.toThrow(
+        'A claim for Grace Moyo has already been submitted',
+      );
+    });
+
+    it('should refuse a relationship the tier does not cover', async () => {
+      mockPrismaService.burialDependant.findFirst.mockResolvedValue({
+        id: 'dependant-1',
+        firstName: 'Bongani',
+        lastName: 'Dube',
+        relationship: 'EXTENDED',
+        dateOfBirth: new Date('1980-01-01T00:00:00Z'),
+      });
+
+      await expect(service.submitClaim('group-1', submission, 'member-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('approveClaim', () => {
+    beforeEach(() => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'TREASURER' });
+      mockPrismaService.burialClaimApproval.count.mockResolvedValue(1);
+      mockPrismaService.burialClaim.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should not let anyone review a claim on their own policy', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(claim());
+
+      await expect(service.approveClaim('group-1', 'claim-1', {}, 'member-1')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockPrismaService.burialClaimApproval.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the claim under review until enough officers approve', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(claim());
+
+      await service.approveClaim('group-1', 'claim-1', {}, 'treasurer-1');
+
+      expect(mockPrismaService.burialClaimApproval.create).toHaveBeenCalled();
+      expect(mockPrismaService.burialClaim.updateMany).toHaveBeenCalledWith({
+        where: { id: 'claim-1', status: 'SUBMITTED' },
+        data: { updatedAt: expect.any(Date) },
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'BURIAL_CLAIM_APPROVAL_ADDED' }),
+      );
+      expect(mockNotificationsService.send).not.toHaveBeenCalled();
+    });
+
+    it('should approve the claim on the last approval needed and tell the claimant', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(
+        claim({ approvals: [{ approverId: 'chair-1', decision: 'APPROVED' }] }),
+      );
+      mockPrismaService.burialClaimApproval.count.mockResolvedValue(2);
+
+      await service.approveClaim('group-1', 'claim-1', {}, 'treasurer-1');
+
+      expect(mockPrismaService.burialClaim.updateMany).toHaveBeenCalledWith({
+        where: { id: 'claim-1', status: 'SUBMITTED' },
+        data: expect.objectContaining({ status: 'APPROVED' }),
+      });
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-1', type: 'BURIAL_CLAIM_APPROVED' }),
+      );
+    });
+
+    it('should not approve a claim that failed the cover rules', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(
+        claim({
+          eligible: false,
+          eligibilityChecks: [
+            { rule: 'WAITING_PERIOD', passed: true, detail: 'Joined on 2025-01-10' },
+            {
+              rule: 'MEMBERSHIP_LAPSE',
+              passed: false,
+              detail: 'Lapsed after 3 missed months (2025-10 to 2025-12) and not reinstated',
+            },
+          ],
+        }),
+      );
+
+      await expect(service.approveClaim('group-1', 'claim-1', {}, 'treasurer-1')).rejects.toThrow(
+        'Claim does not meet the cover rules and can only be rejected: ' +
+          'Lapsed after 3 missed months (2025-10 to 2025-12) and not reinstated',
+      );
+      expect(mockPrismaService.burialClaimApproval.create).not.toHaveBeenCalled();
+    });
+
+    it('should not take a second vote from the same officer', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(
+        claim({ approvals: [{ approverId: 'treasurer-1', decision: 'APPROVED' }] }),
+      );
+
+      await expect(service.approveClaim('group-1', 'claim-1', {}, 'treasurer-1')).rejects.toThrow(
+        'You have already voted on this claim',
+      );
+    });
+
+    it('should approve on the vote that completes the count, even if read before others', async () => {
+      // Another officer's approval landed after the claim was read
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(claim());
+      mockPrismaService.burialClaimApproval.count.mockResolvedValue(2);
+
+      await service.approveClaim('group-1', 'claim-1', {}, 'treasurer-1');
+
+      expect(mockPrismaService.burialClaim.updateMany).toHaveBeenCalledWith({
+        where: { id: 'claim-1', status: 'SUBMITTED' },
+        data: expect.objectContaining({ status: 'APPROVED' }),
+      });
+    });
+
+    it('should not approve a claim rejected meanwhile', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(
+        claim({ approvals: [{ approverId: 'chair-1', decision: 'APPROVED' }] }),
+      );
+      mockPrismaService.burialClaimApproval.count.mockResolvedValue(2);
+      mockPrismaService.burialClaim.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.approveClaim('group-1', 'claim-1', {}, 'treasurer-1')).rejects.toThrow(
+        'Claim has already been decided',
+      );
+      expect(mockNotificationsService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectClaim', () => {
+    it('should not reject a claim approved meanwhile', async () => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'TREASURER' });
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(claim());
+      mockPrismaService.burialClaim.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.rejectClaim('group-1', 'claim-1', { reason: 'No death certificate' }, 'chair-1'),
+      ).rejects.toThrow('Claim has already been decided');
+      expect(mockNotificationsService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payClaim', () => {
+    beforeEach(() => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'TREASURER' });
+    });
+
+    it('should debit the ledger, close off the dependant and tell the claimant', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(claim({ status: 'APPROVED' }));
+      mockPrismaService.burialClaim.updateMany.mockResolvedValue({ count: 1 });
+      mockLedgerService.appendBurialClaimDebit.mockResolvedValue({ entry: { id: 'entry-1' } });
+
+      await service.payClaim('group-1', 'claim-1', { paymentReference: 'FNB-1' }, 'treasurer-1');
+
+      expect(mockLedgerService.appendBurialClaimDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'claim-1',
+        '10000',
+        'Grace Moyo',
+        'treasurer-1',
+      );
+      expect(mockPrismaService.burialClaim.update).toHaveBeenCalledWith({
+        where: { id: 'claim-1' },
+        data: { ledgerEntryId: 'entry-1' },
+      });
+      expect(mockPrismaService.burialDependant.update).toHaveBeenCalledWith({
+        where: { id: 'dependant-1' },
+        data: { status: 'DECEASED' },
+      });
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-1', type: 'BURIAL_CLAIM_PAID' }),
+      );
+    });
+
+    it('should only pay an approved claim', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(claim());
+
+      await expect(
+        service.payClaim('group-1', 'claim-1', { paymentReference: 'FNB-1' }, 'treasurer-1'),
+      ).rejects.toThrow('Only an approved claim can be paid');
+      expect(mockLedgerService.appendBurialClaimDebit).not.toHaveBeenCalled();
+    });
+
+    it('should not debit a claim paid by someone else in the meantime', async () => {
+      mockPrismaService.burialClaim.findFirst.mockResolvedValue(claim({ status: 'APPROVED' }));
+      mockPrismaService.burialClaim.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.payClaim('group-1', 'claim-1', { paymentReference: 'FNB-1' }, 'treasurer-1'),
+      ).rejects.toThrow('Claim has already been paid');
+      expect(mockLedgerService.appendBurialClaimDebit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,591 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { BurialClaim, BurialClaimStatus, DocumentType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { BurialService } from './burial.service';
+import { CoveredPerson, coverEndedReason, coverFor } from './burial-cover';
+import { parseEligibilityChecks, toEligibilityChecksJson } from './burial-eligibility';
+import {
+  ApproveBurialClaimDto,
+  PayBurialClaimDto,
+  RejectBurialClaimDto,
+  SubmitBurialClaimDto,
+} from './dto/burial-claim.dto';
+
+const memberSelect = { id: true, firstName: true, lastName: true } as const;
+const documentSelect = { id: true, type: true, originalFilename: true, mimeType: true } as const;
+
+@Injectable()
+export class BurialClaimsService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
+    private burialService: BurialService,
+  ) {}
+
+  /**
+   * Claim for the death of a policy's main member or one of its
+   * dependants. The claim is for the deceased's cover on the policy's
+   * tier at the time, and needs the death certificate and both the
+   * deceased's and the claimant's identity documents.
+   *
+   * The claim is checked against the group's waiting period, payment and
+   * lapse rules and the result kept on the claim. A claim that fails them
+   * is still recorded so the officers can see why, but cannot be approved.
+   */
+  async submitClaim(groupId: string, dto: SubmitBurialClaimDto, userId: string) {
+    if (dto.idempotencyKey) {
+      const existing = await this.prisma.burialClaim.findFirst({
+        where: { idempotencyKey: dto.idempotencyKey },
+      });
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const policy = await this.prisma.burialPolicy.findFirst({
+      where: { id: dto.policyId, groupId },
+      include: {
+        tier: true,
+        member: { select: memberSelect },
+        group: { select: { currency: true } },
+      },
+    });
+    if (!policy) {
+      throw new NotFoundException('Burial policy not found');
+    }
+    await this.burialService.assertPolicyAccess(policy, userId);
+
+    if (policy.status !== 'ACTIVE') {
+      throw new BadRequestException(`Burial policy is ${policy.status.toLowerCase()}`);
+    }
+
+    const dateOfDeath = new Date(dto.dateOfDeath);
+    if (dateOfDeath.getTime() > Date.now()) {
+      throw new BadRequestException('Date of death cannot be in the future');
+    }
+    if (dateOfDeath < policy.startDate) {
+      throw new BadRequestException('The death was before the policy started');
+    }
+
+    let person: CoveredPerson = 'MEMBER';
+    let deceasedName = `${policy.member.firstName} ${policy.member.lastName}`;
+    if (dto.dependantId) {
+      const dependant = await this.prisma.burialDependant.findFirst({
+        where: { id: dto.dependantId, policyId: policy.id, status: 'ACTIVE' },
+      });
+      if (!dependant) {
+        throw new BadRequestException('Dependant is not covered by this policy');
+      }
+
+      const rules = await this.burialService.getRules(groupId);
+      const ended = coverEndedReason(
+        rules,
+        dependant.relationship,
+        dependant.dateOfBirth,
+        dateOfDeath,
+      );
+      if (ended) {
+        throw new BadRequestException(ended);
+      }
+
+      person = dependant.relationship;
+      deceasedName = `${dependant.firstName} ${dependant.lastName}`;
+    } else if (policy.memberId === userId) {
+      throw new BadRequestException('Choose the dependant this claim is for');
+    }
+
+    const openClaim = await this.prisma.burialClaim.findFirst({
+      where: {
+        policyId: policy.id,
+        dependantId: dto.dependantId ?? null,
+        status: { not: 'REJECTED' },
+      },
+    });
+    if (openClaim) {
+      throw new BadRequestException(`A claim for ${deceasedName} has already been submitted`);
+    }
+
+    await this.assertClaimDocuments(groupId, dto);
+
+    const amount = coverFor(policy.tier, person);
+    if (amount.lessThanOrEqualTo(0)) {
+      throw new BadRequestException(`The ${policy.tier.name} tier does not cover this person`);
+    }
+
+    const eligibility = await this.burialService.checkEligibility(policy, dateOfDeath);
+
+    const claim = await this.prisma.burialClaim.create({
+      data: {
+        groupId,
+        policyId: policy.id,
+        dependantId: dto.dependantId,
+        claimantId: userId,
+        deceasedName,
+        dateOfDeath,
+        amount: new Prisma.Decimal(amount.toString()),
+        currency: policy.group.currency,
+        deathCertificateDocumentId: dto.deathCertificateDocumentId,
+        deceasedIdDocumentId: dto.deceasedIdDocumentId,
+        claimantIdDocumentId: dto.claimantIdDocumentId,
+        notes: dto.notes,
+        eligible: eligibility.eligible,
+        eligibilityChecks: toEligibilityChecksJson(eligibility.checks),
+        idempotencyKey: dto.idempotencyKey,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_CLAIM_SUBMITTED',
+      resourceType: 'BURIAL_CLAIM',
+      resourceId: claim.id,
+      groupId,
+      afterState: {
+        policyId: policy.id,
+        dependantId: dto.dependantId,
+        deceasedName,
+        dateOfDeath: dto.dateOfDeath,
+        amount: amount.toFixed(2),
+        eligible: eligibility.eligible,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    const failed = eligibility.checks.filter((check) => !check.passed);
+    await this.notifyClaimant(
+      claim,
+      'Funeral claim received',
+      failed.length === 0
+        ? `Your claim for ${deceasedName} has been received and will be reviewed by the group's officers.`
+        : `Your claim for ${deceasedName} has been received, but the cover rules were not met: ` +
+            `${failed.map((check) => check.detail).join('; ')}.`,
+    );
+
+    return claim;
+  }
+
+  async listClaims(groupId: string, status?: BurialClaimStatus) {
+    return this.prisma.burialClaim.findMany({
+      where: { groupId, ...(status && { status }) },
+      include: {
+        claimant: { select: memberSelect },
+        policy: { select: { id: true, member: { select: memberSelect } } },
+        _count: { select: { approvals: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Claims the user submitted, or made on their policy by an officer
+   */
+  async listMyClaims(groupId: string, userId: string) {
+    return this.prisma.burialClaim.findMany({
+      where: {
+        groupId,
+        OR: [{ claimantId: userId }, { policy: { memberId: userId } }],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getClaim(groupId: string, claimId: string, userId: string) {
+    const claim = await this.prisma.burialClaim.findFirst({
+      where: { id: claimId, groupId },
+      include: {
+        claimant: { select: memberSelect },
+        policy: {
+          include: {
+            member: { select: memberSelect },
+            tier: { select: { id: true, name: true } },
+          },
+        },
+        dependant: true,
+        deathCertificate: { select: documentSelect },
+        deceasedIdDocument: { select: documentSelect },
+        claimantIdDocument: { select: documentSelect },
+        approvals: {
+          include: { approver: { select: memberSelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!claim) {
+      throw new NotFoundException('Burial claim not found');
+    }
+
+    if (claim.claimantId !== userId) {
+      await this.burialService.assertPolicyAccess(claim.policy, userId);
+    }
+
+    return claim;
+  }
+
+  /**
+   * Record an officer's approval. The claim is approved once the group's
+   * minimum number of officers have approved it; nobody may approve a
+   * claim they submitted or one on their own policy, and a claim that
+   * failed the cover rules can only be rejected.
+   */
+  async approveClaim(groupId: string, claimId: string, dto: ApproveBurialClaimDto, userId: string) {
+    const claim = await this.findReviewableClaim(groupId, claimId, userId);
+
+    if (claim.eligible === false) {
+      const failed = parseEligibilityChecks(claim.eligibilityChecks)
+        .filter((check) => !check.passed)
+        .map((check) => check.detail);
+      throw new BadRequestException(
+        `Claim does not meet the cover rules and can only be rejected: ${failed.join('; ')}`,
+      );
+    }
+
+    const { minApprovalCount } = await this.burialService.getRules(groupId);
+
+    // The vote, the count and the decision go together, so two officers
+    // approving at once cannot both miss the last approval, and a claim
+    // rejected meanwhile stays rejected
+    const approvalCount = await this.prisma.$transaction(
+      async (tx) => {
+        await tx.burialClaimApproval.create({
+          data: {
+            claimId,
+            approverId: userId,
+            decision: 'APPROVED',
+            reason: dto.reason,
+          },
+        });
+        const approvalCount = await tx.burialClaimApproval.count({
+          where: { claimId, decision: 'APPROVED' },
+        });
+
+        const { count } = await tx.burialClaim.updateMany({
+          where: { id: claimId, status: 'SUBMITTED' },
+          data:
+            approvalCount >= minApprovalCount
+              ? { status: 'APPROVED', approvedAt: new Date() }
+              : { updatedAt: new Date() },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Claim has already been decided');
+        }
+
+        return approvalCount;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    if (approvalCount >= minApprovalCount) {
+      await this.auditService.log({
+        actorId: userId,
+        actorType: 'USER',
+        action: 'BURIAL_CLAIM_APPROVED',
+        resourceType: 'BURIAL_CLAIM',
+        resourceId: claimId,
+        groupId,
+        afterState: {
+          amount: claim.amount.toString(),
+          approvalCount,
+          status: 'APPROVED',
+        },
+        outcome: 'SUCCESS',
+      });
+
+      await this.notifyClaimant(
+        claim,
+        'Funeral claim approved',
+        `Your claim for ${claim.deceasedName} has been approved. ` +
+          `${claim.currency} ${claim.amount.toFixed(2)} will be paid out shortly.`,
+        'APPROVED',
+      );
+    } else {
+      await this.auditService.log({
+        actorId: userId,
+        actorType: 'USER',
+        action: 'BURIAL_CLAIM_APPROVAL_ADDED',
+        resourceType: 'BURIAL_CLAIM',
+        resourceId: claimId,
+        groupId,
+        afterState: {
+          approvalCount,
+          requiredApprovals: minApprovalCount,
+          status: 'SUBMITTED',
+        },
+        outcome: 'SUCCESS',
+      });
+    }
+
+    return this.getClaim(groupId, claimId, userId);
+  }
+
+  async rejectClaim(groupId: string, claimId: string, dto: RejectBurialClaimDto, userId: string) {
+    const claim = await this.findReviewableClaim(groupId, claimId, userId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.burialClaimApproval.create({
+        data: {
+          claimId,
+          approverId: userId,
+          decision: 'REJECTED',
+          reason: dto.reason,
+        },
+      });
+      const { count } = await tx.burialClaim.updateMany({
+        where: { id: claimId, status: 'SUBMITTED' },
+        data: { status: 'REJECTED', rejectionReason: dto.reason },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Claim has already been decided');
+      }
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_CLAIM_REJECTED',
+      resourceType: 'BURIAL_CLAIM',
+      resourceId: claimId,
+      groupId,
+      afterState: { reason: dto.reason, status: 'REJECTED' },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notifyClaimant(
+      claim,
+      'Funeral claim rejected',
+      `Your claim for ${claim.deceasedName} has been rejected: ${dto.reason}`,
+      'REJECTED',
+    );
+
+    return this.getClaim(groupId, claimId, userId);
+  }
+
+  /**
+   * Pay an approved claim: debit the pot and mark the claim paid in one
+   * transaction, so a claim can never be debited twice. The deceased
+   * dependant, or the policy for the main member, is closed off.
+   */
+  async payClaim(groupId: string, claimId: string, dto: PayBurialClaimDto, userId: string) {
+    const claim = await this.findClaimOrFail(groupId, claimId);
+
+    if (claim.status !== 'APPROVED') {
+      throw new BadRequestException('Only an approved claim can be paid');
+    }
+
+    await this.requireTreasurerOrChairperson(
+      groupId,
+      userId,
+      'Only treasurer or chairperson can pay claims',
+    );
+
+    const paidAt = new Date();
+    const ledgerEntry = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.burialClaim.updateMany({
+          where: { id: claimId, status: 'APPROVED' },
+          data: {
+            status: 'PAID',
+            paymentReference: dto.paymentReference,
+            paidById: userId,
+            paidAt,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Claim has already been paid');
+        }
+
+        const { entry } = await this.ledgerService.appendBurialClaimDebit(
+          tx,
+          groupId,
+          claimId,
+          claim.amount.toString(),
+          claim.deceasedName,
+          userId,
+        );
+
+        await tx.burialClaim.update({
+          where: { id: claimId },
+          data: { ledgerEntryId: entry.id },
+        });
+
+        if (claim.dependantId) {
+          await tx.burialDependant.update({
+            where: { id: claim.dependantId },
+            data: { status: 'DECEASED' },
+          });
+        } else {
+          await tx.burialPolicy.update({
+            where: { id: claim.policyId },
+            data: { status: 'CLAIMED' },
+          });
+        }
+
+        return entry;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_CLAIM_PAID',
+      resourceType: 'BURIAL_CLAIM',
+      resourceId: claimId,
+      groupId,
+      beforeState: { status: 'APPROVED' },
+      afterState: {
+        status: 'PAID',
+        amount: claim.amount.toString(),
+        paymentReference: dto.paymentReference,
+        ledgerEntryId: ledgerEntry.id,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notifyClaimant(
+      claim,
+      'Funeral claim paid',
+      `${claim.currency} ${claim.amount.toFixed(2)} for ${claim.deceasedName} has been paid ` +
+        `(reference ${dto.paymentReference}).`,
+      'PAID',
+    );
+
+    return this.getClaim(groupId, claimId, userId);
+  }
+
+  /**
+   * A submitted claim the user may vote on: they are an officer, have not
+   * voted yet, and neither submitted it nor hold the policy it is on
+   */
+  private async findReviewableClaim(groupId: string, claimId: string, userId: string) {
+    const claim = await this.prisma.burialClaim.findFirst({
+      where: { id: claimId, groupId },
+      include: { approvals: true, policy: { select: { memberId: true } } },
+    });
+
+    if (!claim) {
+      throw new NotFoundException('Burial claim not found');
+    }
+
+    if (claim.status !== 'SUBMITTED') {
+      throw new BadRequestException(`Claim is already ${claim.status.toLowerCase()}`);
+    }
+
+    if (claim.claimantId === userId || claim.policy.memberId === userId) {
+      throw new ForbiddenException('You cannot review a claim on your own policy');
+    }
+
+    if (claim.approvals.some((a) => a.approverId === userId)) {
+      throw new BadRequestException('You have already voted on this claim');
+    }
+
+    await this.requireTreasurerOrChairperson(
+      groupId,
+      userId,
+      'Only treasurer or chairperson can review claims',
+    );
+
+    return claim;
+  }
+
+  private async findClaimOrFail(groupId: string, claimId: string) {
+    const claim = await this.prisma.burialClaim.findFirst({
+      where: { id: claimId, groupId },
+    });
+
+    if (!claim) {
+      throw new NotFoundException('Burial claim not found');
+    }
+
+    return claim;
+  }
+
+  /**
+   * Each document must have been uploaded to this group as the right type,
+   * the two identity documents must be different files, and a death
+   * certificate can only back one claim
+   */
+  private async assertClaimDocuments(groupId: string, dto: SubmitBurialClaimDto) {
+    if (dto.deceasedIdDocumentId === dto.claimantIdDocumentId) {
+      throw new BadRequestException(
+        "The deceased's and the claimant's identity documents must be separate uploads",
+      );
+    }
+
+    const required: Array<[string, DocumentType, string]> = [
+      [dto.deathCertificateDocumentId, 'DEATH_CERTIFICATE', 'Death certificate'],
+      [dto.deceasedIdDocumentId, 'ID_DOCUMENT', "Deceased's identity document"],
+      [dto.claimantIdDocumentId, 'ID_DOCUMENT', "Claimant's identity document"],
+    ];
+
+    for (const [documentId, type, label] of required) {
+      const document = await this.prisma.document.findFirst({
+        where: { id: documentId, groupId, deletedAt: null },
+      });
+      if (!document) {
+        throw new BadRequestException(`${label} not found in this group`);
+      }
+      if (document.type !== type) {
+        throw new BadRequestException(`${label} must be uploaded as ${type}`);
+      }
+    }
+
+    const certificateInUse = await this.prisma.burialClaim.findFirst({
+      where: {
+        deathCertificateDocumentId: dto.deathCertificateDocumentId,
+        status: { not: 'REJECTED' },
+      },
+    });
+    if (certificateInUse) {
+      throw new BadRequestException('This death certificate is already attached to another claim');
+    }
+  }
+
+  private async notifyClaimant(
+    claim: BurialClaim,
+    title: string,
+    body: string,
+    status: BurialClaimStatus = claim.status,
+  ) {
+    await this.notificationsService.send({
+      userId: claim.claimantId,
+      type: `BURIAL_CLAIM_${status}`,
+      channels: ['IN_APP', 'EMAIL'],
+      title,
+      body,
+      data: { claimId: claim.id, status, amount: claim.amount.toString() },
+      groupId: claim.groupId,
+    });
+  }
+
+  private async requireTreasurerOrChairperson(groupId: string, userId: string, message: string) {
+    const membership = await this.prisma.groupMember.findFirst({
+      where: {
+        groupId,
+        userId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        role: { in: ['TREASURER', 'CHAIRPERSON'] },
+      },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException(message);
+    }
+  }
+}
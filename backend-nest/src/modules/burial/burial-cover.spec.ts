@@ -0,0 +1,125 @@
+import {
+  DEFAULT_BURIAL_RULES,
+  ageOn,
+  coverEndedReason,
+  coverFor,
+  dependantRegistrationError,
+} from './burial-cover';
+
+describe('burial cover', () => {
+  const on = new Date('2026-05-11T00:00:00Z');
+
+  describe('ageOn', () => {
+    it('should count a year only once the birthday has passed', () => {
+      expect(ageOn(new Date('2000-05-11T00:00:00Z'), on)).toBe(26);
+      expect(ageOn(new Date('2000-05-12T00:00:00Z'), on)).toBe(25);
+      expect(ageOn(new Date('2000-12-31T00:00:00Z'), on)).toBe(25);
+    });
+  });
+
+  describe('dependantRegistrationError', () => {
+    it('should allow a dependant within the age limit for their relationship', () => {
+      expect(
+        dependantRegistrationError(
+          DEFAULT_BURIAL_RULES,
+          'PARENT',
+          new Date('1951-05-11T00:00:00Z'),
+          2,
+          on,
+        ),
+      ).toBeNull();
+    });
+
+    it('should refuse a dependant over the age limit for their relationship', () => {
+      expect(
+        dependantRegistrationError(
+          DEFAULT_BURIAL_RULES,
+          'PARENT_IN_LAW',
+          new Date('1950-05-10T00:00:00Z'),
+          0,
+          on,
+        ),
+      ).toBe('A parent-in-law must be 75 or younger to be added');
+      expect(
+        dependantRegistrationError(
+          DEFAULT_BURIAL_RULES,
+          'CHILD',
+          new Date('2004-01-01T00:00:00Z'),
+          0,
+          on,
+        ),
+      ).toBe('A child must be 21 or younger to be added');
+    });
+
+    it('should not limit the age of a spouse', () => {
+      expect(
+        dependantRegistrationError(
+          DEFAULT_BURIAL_RULES,
+          'SPOUSE',
+          new Date('1930-01-01T00:00:00Z'),
+          0,
+          on,
+        ),
+      ).toBeNull();
+    });
+
+    it('should refuse more dependants than a policy may cover', () => {
+      expect(
+        dependantRegistrationError(
+          { ...DEFAULT_BURIAL_RULES, maxDependants: 3 },
+          'CHILD',
+          new Date('2020-01-01T00:00:00Z'),
+          3,
+          on,
+        ),
+      ).toBe('A policy can cover at most 3 dependants');
+    });
+
+    it('should refuse a date of birth in the future', () => {
+      expect(
+        dependantRegistrationError(
+          DEFAULT_BURIAL_RULES,
+          'CHILD',
+          new Date('2026-06-01T00:00:00Z'),
+          0,
+          on,
+        ),
+      ).toBe('Date of birth cannot be in the future');
+    });
+  });
+
+  describe('coverEndedReason', () => {
+    it('should end cover for a child past the age limit', () => {
+      expect(
+        coverEndedReason(DEFAULT_BURIAL_RULES, 'CHILD', new Date('2005-05-11T00:00:00Z'), on),
+      ).toBeNull();
+      expect(
+        coverEndedReason(DEFAULT_BURIAL_RULES, 'CHILD', new Date('2004-05-11T00:00:00Z'), on),
+      ).toBe('Children are covered up to age 21');
+    });
+
+    it('should keep covering parents past the age they could join at', () => {
+      expect(
+        coverEndedReason(DEFAULT_BURIAL_RULES, 'PARENT', new Date('1930-01-01T00:00:00Z'), on),
+      ).toBeNull();
+    });
+  });
+
+  describe('coverFor', () => {
+    const tier = {
+      memberCover: '20000',
+      spouseCover: '15000',
+      childCover: '8000',
+      parentCover: '10000',
+      extendedCover: '5000',
+    };
+
+    it('should pay the cover for the relationship of the deceased', () => {
+      expect(coverFor(tier, 'MEMBER').toString()).toBe('20000');
+      expect(coverFor(tier, 'SPOUSE').toString()).toBe('15000');
+      expect(coverFor(tier, 'CHILD').toString()).toBe('8000');
+      expect(coverFor(tier, 'PARENT_IN_LAW').toString()).toBe('10000');
+      expect(coverFor(tier, 'EXTENDED').toString()).toBe('5000');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { DependantRelationship } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { EligibilityRules } from './burial-eligibility';
+
+// The main member is covered under their own policy without being a dependant
+export type CoveredPerson = DependantRelationship | 'MEMBER';
+
+export interface BurialRuleLimits extends EligibilityRules {
+  minApprovalCount: number;
+  maxDependants: number;
+  childMaxAge: number;
+  parentMaxAge: number;
+  extendedMaxAge: number;
+}
+
+export interface CoverAmounts {
+  memberCover: Decimal | string | number;
+  spouseCover: Decimal | string | number;
+  childCover: Decimal | string | number;
+  parentCover: Decimal | string | number;
+  extendedCover: Decimal | string | number;
+}
+
+// Used until a group saves its own burial rules
+export const DEFAULT_BURIAL_RULES: BurialRuleLimits = {
+  minApprovalCount: 2,
+  maxDependants: 10,
+  childMaxAge: 21,
+  parentMaxAge: 75,
+  extendedMaxAge: 65,
+  waitingPeriodMonths: 6,
+  minConsecutivePaidMonths: 3,
+  lapseAfterMissedMonths: 3,
+  reinstatementWaitingMonths: 3,
+};
+
+const RELATIONSHIP_LABELS: Record<DependantRelationship, string> = {
+  SPOUSE: 'A spouse',
+  CHILD: 'A child',
+  PARENT: 'A parent',
+  PARENT_IN_LAW: 'A parent-in-law',
+  EXTENDED: 'An extended family member',
+};
+
+/**
+ * Age in completed years on a date
+ */
+export function ageOn(dateOfBirth: Date, on: Date): number {
+  let age = on.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const birthdayPassed =
+    on.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+    (on.getUTCMonth() === dateOfBirth.getUTCMonth() && on.getUTCDate() >= dateOfBirth.getUTCDate());
+  if (!birthdayPassed) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * Oldest age a dependant can be added to a policy at. Spouses have no
+ * limit; children are also only covered up to this age.
+ */
+export function maxAgeFor(rules: BurialRuleLimits, relationship: DependantRelationship) {
+  switch (relationship) {
+    case 'CHILD':
+      return rules.childMaxAge;
+    case 'PARENT':
+    case 'PARENT_IN_LAW':
+      return rules.parentMaxAge;
+    case 'EXTENDED':
+      return rules.extendedMaxAge;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Why a dependant cannot be added to a policy that already covers
+ * `activeDependants` people, or null when they can
+ */
+export function dependantRegistrationError(
+  rules: BurialRuleLimits,
+  relationship: DependantRelationship,
+  dateOfBirth: Date,
+  activeDependants: number,
+  on: Date = new Date(),
+): string | null {
+  if (dateOfBirth.getTime() > on.getTime()) {
+    return 'Date of birth cannot be in the future';
+  }
+
+  if (activeDependants >= rules.maxDependants) {
+    return `A policy can cover at most ${rules.maxDependants} dependants`;
+  }
+
+  const maxAge = maxAgeFor(rules, relationship);
+  if (maxAge !== null && ageOn(dateOfBirth, on) > maxAge) {
+    return `${RELATIONSHIP_LABELS[relationship]} must be ${maxAge} or younger to be added`;
+  }
+
+  return null;
+}
+
+/**
+ * Why a dependant was no longer covered when they died, or null when
+ * they were. Children age out of cover; everyone else stays covered.
+ */
+export function coverEndedReason(
+  rules: BurialRuleLimits,
+  relationship: DependantRelationship,
+  dateOfBirth: Date,
+  dateOfDeath: Date,
+): string | null {
+  if (relationship === 'CHILD' && ageOn(dateOfBirth, dateOfDeath) > rules.childMaxAge) {
+    return `Children are covered up to age ${rules.childMaxAge}`;
+  }
+  return null;
+}
+
+/**
+ * Amount a tier pays out on the death of the main member or a dependant
+ */
+export function coverFor(tier: CoverAmounts, person: CoveredPerson): Decimal {
+  switch (person) {
+    case 'MEMBER':
+      return new Decimal(tier.memberCover.toString());
+    case 'SPOUSE':
+      return new Decimal(tier.spouseCover.toString());
+    case 'CHILD':
+      return new Decimal(tier.childCover.toString());
+    case 'PARENT':
+    case 'PARENT_IN_LAW':
+      return new Decimal(tier.parentCover.toString());
+    case 'EXTENDED':
+      return new Decimal(tier.extendedCover.toString());
+  }
+}
@@ -0,0 +1,199 @@
+import { DEFAULT_BURIAL_RULES } from './burial-cover';
+import {
+  EligibilityInput,
+  addMonths,
+  checkClaimEligibility,
+  parseEligibilityChecks,
+  toEligibilityChecksJson,
+} from './burial-eligibility';
+
+describe('burial eligibility', () => {
+  const month = (period: string) => new Date(`${period}-01T00:00:00Z`);
+
+  // Every month from `from` to `to`, inclusive
+  const months = (from: string, to: string) => {
+    const periods: Date[] = [];
+    for (let m = month(from); m <= month(to); m = addMonths(m, 1)) {
+      periods.push(m);
+    }
+    return periods;
+  };
+
+  const check = (input: Partial<EligibilityInput>, rule: string) =>
+    checkClaimEligibility({
+      rules: DEFAULT_BURIAL_RULES,
+      joinedAt: new Date('2025-01-10T00:00:00Z'),
+      dateOfDeath: new Date('2026-05-03T00:00:00Z'),
+      paidPeriods: [],
+      excusedPeriods: [],
+      ...input,
+    }).checks.find((c) => c.rule === rule);
+
+  it('should pass a member who joined long ago and has paid every month', () => {
+    const result = checkClaimEligibility({
+      rules: DEFAULT_BURIAL_RULES,
+      joinedAt: new Date('2025-01-10T00:00:00Z'),
+      dateOfDeath: new Date('2026-05-03T00:00:00Z'),
+      paidPeriods: months('2025-01', '2026-04'),
+      excusedPeriods: [],
+    });
+
+    expect(result.eligible).toBe(true);
+    expect(result.checks.map((c) => c.rule)).toEqual([
+      'WAITING_PERIOD',
+      'CONSECUTIVE_PAYMENTS',
+      'MEMBERSHIP_LAPSE',
+      'REINSTATEMENT_WAITING_PERIOD',
+    ]);
+    expect(result.checks.every((c) => c.passed)).toBe(true);
+  });
+
+  it('should fail a death inside the waiting period and say when it ends', () => {
+    const result = checkClaimEligibility({
+      rules: DEFAULT_BURIAL_RULES,
+      joinedAt: new Date('2026-03-01T00:00:00Z'),
+      dateOfDeath: new Date('2026-05-03T00:00:00Z'),
+      paidPeriods: months('2026-03', '2026-04'),
+      excusedPeriods: [],
+    });
+
+    expect(result.eligible).toBe(false);
+    expect(result.checks[0]).toEqual({
+      rule: 'WAITING_PERIOD',
+      passed: false,
+      detail:
+        'Joined on 2026-03-01; the 6-month waiting period ends on 2026-09-01, after the date of death',
+    });
+    expect(result.checks[1]).toEqual({
+      rule: 'CONSECUTIVE_PAYMENTS',
+      passed: false,
+      detail: '2 consecutive months paid up to 2026-04; 3 required',
+    });
+  });
+
+  it('should let excused months neither count nor break the run of payments', () => {
+    expect(
+      check(
+        {
+          dateOfDeath: new Date('2026-03-15T00:00:00Z'),
+          paidPeriods: [month('2025-12'), month('2026-02')],
+          excusedPeriods: [month('2026-01')],
+        },
+        'CONSECUTIVE_PAYMENTS',
+      ),
+    ).toEqual({
+      rule: 'CONSECUTIVE_PAYMENTS',
+      passed: false,
+      detail: '2 consecutive months paid up to 2026-02; 3 required',
+    });
+  });
+
+  it('should not lapse membership over fewer missed months than the limit', () => {
+    const paidPeriods = [...months('2025-01', '2025-09'), ...months('2025-12', '2026-04')];
+
+    expect(check({ paidPeriods }, 'MEMBERSHIP_LAPSE')).toEqual({
+      rule: 'MEMBERSHIP_LAPSE',
+      passed: true,
+      detail: 'Never missed 3 months in a row',
+    });
+  });
+
+  it('should fail a lapsed membership that was never reinstated', () => {
+    const result = checkClaimEligibility({
+      rules: DEFAULT_BURIAL_RULES,
+      joinedAt: new Date('2025-01-10T00:00:00Z'),
+      dateOfDeath: new Date('2026-01-20T00:00:00Z'),
+      paidPeriods: months('2025-01', '2025-09'),
+      excusedPeriods: [],
+    });
+
+    expect(result.eligible).toBe(false);
+    expect(result.checks.slice(2)).toEqual([
+      {
+        rule: 'MEMBERSHIP_LAPSE',
+        passed: false,
+        detail: 'Lapsed after 3 missed months (2025-10 to 2025-12) and not reinstated',
+      },
+      {
+        rule: 'REINSTATEMENT_WAITING_PERIOD',
+        passed: false,
+        detail: 'Membership has not been reinstated',
+      },
+    ]);
+  });
+
+  it('should apply the reinstatement waiting period from the month that reinstated cover', () => {
+    const paidPeriods = [...months('2025-01', '2025-09'), ...months('2026-01', '2026-03')];
+
+    const early = checkClaimEligibility({
+      rules: DEFAULT_BURIAL_RULES,
+      joinedAt: new Date('2025-01-10T00:00:00Z'),
+      dateOfDeath: new Date('2026-03-20T00:00:00Z'),
+      paidPeriods,
+      excusedPeriods: [],
+    });
+
+    expect(early.eligible).toBe(false);
+    expect(early.checks[2]).toEqual({
+      rule: 'MEMBERSHIP_LAPSE',
+      passed: true,
+      detail: 'Lapsed over 2025-10 to 2025-12 and reinstated by the payment for 2026-01',
+    });
+    expect(early.checks[3]).toEqual({
+      rule: 'REINSTATEMENT_WAITING_PERIOD',
+      passed: false,
+      detail:
+        'Reinstated from 2026-01; the 3-month waiting period ends on 2026-04-01, after the date of death',
+    });
+
+    expect(
+      check(
+        { dateOfDeath: new Date('2026-04-02T00:00:00Z'), paidPeriods },
+        'REINSTATEMENT_WAITING_PERIOD',
+      )?.passed,
+    ).toBe(true);
+  });
+
+  describe('addMonths', () => {
+    it('should keep the day, or use the last day of a shorter month', () => {
+      expect(addMonths(new Date('2026-01-15T00:00:00Z'), 6)).toEqual(
+        new Date('2026-07-15T00:00:00Z'),
+      );
+      expect(addMonths(new Date('2026-01-31T00:00:00Z'), 1)).toEqual(
+        new Date('2026-02-28T00:00:00Z'),
+      );
+    });
+  });
+
+  describe('stored checks', () => {
+    it('should read back the checks it stores', () => {
+      const { checks } = checkClaimEligibility({
+        rules: DEFAULT_BURIAL_RULES,
+        joinedAt: new Date('2025-01-10T00:00:00Z'),
+        dateOfDeath: new Date('2026-05-03T00:00:00Z'),
+        paidPeriods: months('2025-01', '2026-04'),
+        excusedPeriods: [],
+      });
+
+      const stored = JSON.parse(JSON.stringify(toEligibilityChecksJson(checks)));
+
+      expect(parseEligibilityChecks(stored)).toEqual(checks);
+    });
+
+    it('should leave out anything that is not a check', () => {
+      const stored = [
+        { rule: 'WAITING_PERIOD', passed: false, detail: 'Joined on 2026-04-01' },
+        { rule: 'UNKNOWN_RULE', passed: true, detail: 'Unknown' },
+        { rule: 'MEMBERSHIP_LAPSE', passed: 'no', detail: 'Lapsed' },
+        'WAITING_PERIOD',
+        null,
+      ];
+
+      expect(parseEligibilityChecks(stored)).toEqual([
+        { rule: 'WAITING_PERIOD', passed: false, detail: 'Joined on 2026-04-01' },
+      ]);
+      expect(parseEligibilityChecks(null)).toEqual([]);
+      expect(parseEligibilityChecks({ rule: 'WAITING_PERIOD' })).toEqual([]);
+    });
+  });
+});
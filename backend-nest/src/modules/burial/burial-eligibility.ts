@@ -0,0 +1,226 @@
+import { Prisma } from '@prisma/client';
+
+export interface EligibilityRules {
+  waitingPeriodMonths: number;
+  minConsecutivePaidMonths: number;
+  lapseAfterMissedMonths: number;
+  reinstatementWaitingMonths: number;
+}
+
+export type EligibilityRule =
+  'WAITING_PERIOD' | 'CONSECUTIVE_PAYMENTS' | 'MEMBERSHIP_LAPSE' | 'REINSTATEMENT_WAITING_PERIOD';
+
+const ELIGIBILITY_RULES: readonly EligibilityRule[] = [
+  'WAITING_PERIOD',
+  'CONSECUTIVE_PAYMENTS',
+  'MEMBERSHIP_LAPSE',
+  'REINSTATEMENT_WAITING_PERIOD',
+];
+
+export interface EligibilityCheck {
+  rule: EligibilityRule;
+  passed: boolean;
+  detail: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  checks: EligibilityCheck[];
+}
+
+export interface EligibilityInput {
+  rules: EligibilityRules;
+  // When the policy holder joined the group
+  joinedAt: Date;
+  dateOfDeath: Date;
+  // Months the policy holder paid their premium for in full
+  paidPeriods: Date[];
+  // Months the policy holder was excused from paying
+  excusedPeriods: Date[];
+}
+
+/**
+ * Check a claim against the group's cover rules. Membership is judged on
+ * the policy holder's contributions, whoever on the policy has died.
+ *
+ * - WAITING_PERIOD: the death came at least `waitingPeriodMonths` after
+ *   the policy holder joined the group.
+ * - CONSECUTIVE_PAYMENTS: the months paid without a break, counting back
+ *   from the month of death (or the month before, if the month of death
+ *   has not been paid yet), reach `minConsecutivePaidMonths`. Excused
+ *   months neither count nor break the run.
+ * - MEMBERSHIP_LAPSE: membership lapses once `lapseAfterMissedMonths`
+ *   months in a row go unpaid, and is reinstated by the next paid month.
+ *   Only months that ended before the death can be missed.
+ * - REINSTATEMENT_WAITING_PERIOD: after a reinstatement, the death came at
+ *   least `reinstatementWaitingMonths` after the month that reinstated it.
+ */
+export function checkClaimEligibility(input: EligibilityInput): EligibilityResult {
+  const { rules, joinedAt, dateOfDeath } = input;
+  const paid = new Set(input.paidPeriods.map((p) => monthStart(p).getTime()));
+  const excused = new Set(input.excusedPeriods.map((p) => monthStart(p).getTime()));
+  const joinMonth = monthStart(joinedAt);
+  const deathMonth = monthStart(dateOfDeath);
+
+  const checks: EligibilityCheck[] = [];
+
+  const waitingEnds = addMonths(joinedAt, rules.waitingPeriodMonths);
+  checks.push({
+    rule: 'WAITING_PERIOD',
+    passed: dateOfDeath >= waitingEnds,
+    detail:
+      `Joined on ${isoDate(joinedAt)}; the ${rules.waitingPeriodMonths}-month waiting period ` +
+      (dateOfDeath >= waitingEnds
+        ? `ended on ${isoDate(waitingEnds)}`
+        : `ends on ${isoDate(waitingEnds)}, after the date of death`),
+  });
+
+  // Count back from the month of death while months are paid or excused
+  let streak = 0;
+  let streakEnd: Date | null = null;
+  let month = paid.has(deathMonth.getTime()) ? deathMonth : addMonths(deathMonth, -1);
+  while (month >= joinMonth) {
+    if (paid.has(month.getTime())) {
+      streak++;
+      streakEnd = streakEnd ?? month;
+    } else if (!excused.has(month.getTime())) {
+      break;
+    }
+    month = addMonths(month, -1);
+  }
+  checks.push({
+    rule: 'CONSECUTIVE_PAYMENTS',
+    passed: streak >= rules.minConsecutivePaidMonths,
+    detail: streakEnd
+      ? `${streak} consecutive ${plural(streak, 'month')} paid up to ${periodLabel(streakEnd)}; ` +
+        `${rules.minConsecutivePaidMonths} required`
+      : `No unbroken run of paid months before the death; ` +
+        `${rules.minConsecutivePaidMonths} required`,
+  });
+
+  // Walk the months from joining to the death, lapsing and reinstating
+  let missedRun = 0;
+  let runStart: Date | null = null;
+  let lapse: { from: Date; to: Date } | null = null;
+  let reinstatedBy: Date | null = null;
+  let lastLapse: { from: Date; to: Date } | null = null;
+  for (month = joinMonth; month <= deathMonth; month = addMonths(month, 1)) {
+    const key = month.getTime();
+    if (paid.has(key)) {
+      if (lapse) {
+        lastLapse = lapse;
+        reinstatedBy = month;
+        lapse = null;
+      }
+      missedRun = 0;
+      runStart = null;
+    } else if (!excused.has(key) && month < deathMonth) {
+      const from: Date = runStart ?? month;
+      runStart = from;
+      missedRun++;
+      if (missedRun >= rules.lapseAfterMissedMonths) {
+        lapse = { from, to: month };
+      }
+    }
+  }
+
+  checks.push({
+    rule: 'MEMBERSHIP_LAPSE',
+    passed: !lapse,
+    detail: lapse
+      ? `Lapsed after ${rules.lapseAfterMissedMonths} missed months ` +
+        `(${periodLabel(lapse.from)} to ${periodLabel(lapse.to)}) and not reinstated`
+      : lastLapse
+        ? `Lapsed over ${periodLabel(lastLapse.from)} to ${periodLabel(lastLapse.to)} ` +
+          `and reinstated by the payment for ${periodLabel(reinstatedBy!)}`
+        : `Never missed ${rules.lapseAfterMissedMonths} months in a row`,
+  });
+
+  if (!reinstatedBy || lapse) {
+    checks.push({
+      rule: 'REINSTATEMENT_WAITING_PERIOD',
+      passed: !lapse,
+      detail: lapse ? 'Membership has not been reinstated' : 'Membership has never lapsed',
+    });
+  } else {
+    const reinstatementEnds = addMonths(reinstatedBy, rules.reinstatementWaitingMonths);
+    checks.push({
+      rule: 'REINSTATEMENT_WAITING_PERIOD',
+      passed: dateOfDeath >= reinstatementEnds,
+      detail:
+        `Reinstated from ${periodLabel(reinstatedBy)}; the ` +
+        `${rules.reinstatementWaitingMonths}-month waiting period ` +
+        (dateOfDeath >= reinstatementEnds
+          ? `ended on ${isoDate(reinstatementEnds)}`
+          : `ends on ${isoDate(reinstatementEnds)}, after the date of death`),
+    });
+  }
+
+  return { eligible: checks.every((check) => check.passed), checks };
+}
+
+/**
+ * The checks as stored on the claim's `eligibilityChecks` column
+ */
+export function toEligibilityChecksJson(checks: EligibilityCheck[]): Prisma.InputJsonArray {
+  return checks.map((check) => ({
+    rule: check.rule,
+    passed: check.passed,
+    detail: check.detail,
+  }));
+}
+
+/**
+ * Read the checks back from a claim's `eligibilityChecks` column. Anything
+ * that is not a check written by `toEligibilityChecksJson` is left out.
+ */
+export function parseEligibilityChecks(value: Prisma.JsonValue | null): EligibilityCheck[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const checks: EligibilityCheck[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      continue;
+    }
+    const { rule, passed, detail } = item;
+    if (
+      ELIGIBILITY_RULES.includes(rule as EligibilityRule) &&
+      typeof passed === 'boolean' &&
+      typeof detail === 'string'
+    ) {
+      checks.push({ rule: rule as EligibilityRule, passed, detail });
+    }
+  }
+  return checks;
+}
+
+/**
+ * The same day `months` later, or the last day of that month when it is
+ * shorter
+ */
+export function addMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function periodLabel(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function plural(count: number, word: string): string {
+  return count === 1 ? word : `${word}s`;
+}
@@ -0,0 +1,223 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { BurialPolicyStatus } from '@prisma/client';
+import { BurialService } from './burial.service';
+import {
+  AddDependantDto,
+  BurialEligibilityQueryDto,
+  ChangeBurialPolicyTierDto,
+  CreateBurialPolicyDto,
+  CreateCoverTierDto,
+  UpdateBurialRulesDto,
+  UpdateCoverTierDto,
+} from './dto/burial.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import {
+  AnyMember,
+  ChairpersonOnly,
+  Roles,
+  TreasurerOrHigher,
+} from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('burial')
+@Controller({ path: 'groups/:groupId/burial', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class BurialController {
+  constructor(private readonly burialService: BurialService) {}
+
+  @Get('rules')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get the approval and dependant rules of a burial group' })
+  @ApiResponse({ status: 200, description: 'Burial rules' })
+  getRules(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.burialService.getRules(groupId);
+  }
+
+  @Put('rules')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Set the approval and dependant rules (chairperson)' })
+  @ApiResponse({ status: 200, description: 'Burial rules updated' })
+  updateRules(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: UpdateBurialRulesDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.updateRules(groupId, dto, user.id);
+  }
+
+  @Get('tiers')
+  @AnyMember()
+  @ApiOperation({ summary: 'List cover tiers' })
+  @ApiResponse({ status: 200, description: 'Cover tiers, cheapest first' })
+  listTiers(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.burialService.listTiers(groupId);
+  }
+
+  @Post('tiers')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Add a cover tier (chairperson)' })
+  @ApiResponse({ status: 201, description: 'Cover tier created' })
+  createTier(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateCoverTierDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.createTier(groupId, dto, user.id);
+  }
+
+  @Patch('tiers/:tierId')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: "Change a tier's premium or cover (chairperson)" })
+  @ApiResponse({ status: 200, description: 'Cover tier updated' })
+  updateTier(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('tierId', ParseUUIDPipe) tierId: string,
+    @Body() dto: UpdateCoverTierDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.updateTier(groupId, tierId, dto, user.id);
+  }
+
+  @Delete('tiers/:tierId')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Remove a cover tier with no active policies (chairperson)' })
+  @ApiResponse({ status: 200, description: 'Cover tier removed' })
+  deleteTier(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('tierId', ParseUUIDPipe) tierId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.deleteTier(groupId, tierId, user.id);
+  }
+
+  @Get('policies')
+  @Roles('TREASURER', 'SECRETARY', 'CHAIRPERSON')
+  @ApiOperation({ summary: 'List member policies' })
+  @ApiResponse({ status: 200, description: 'Policies with their tier and dependant count' })
+  @ApiQuery({ name: 'status', required: false, enum: BurialPolicyStatus })
+  listPolicies(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('status') status?: BurialPolicyStatus,
+  ) {
+    return this.burialService.listPolicies(groupId, status);
+  }
+
+  @Post('policies')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Put a member on cover' })
+  @ApiResponse({ status: 201, description: 'Policy created' })
+  @ApiResponse({ status: 400, description: 'Member already has cover' })
+  createPolicy(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateBurialPolicyDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.createPolicy(groupId, dto, user.id);
+  }
+
+  @Get('policies/me')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get my policy and dependants' })
+  @ApiResponse({ status: 200, description: 'Policy details' })
+  getMyPolicy(@Param('groupId', ParseUUIDPipe) groupId: string, @CurrentUser() user: AuthUser) {
+    return this.burialService.getMyPolicy(groupId, user.id);
+  }
+
+  @Get('policies/:policyId')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get a policy and its dependants' })
+  @ApiResponse({ status: 200, description: 'Policy details' })
+  getPolicy(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('policyId', ParseUUIDPipe) policyId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.getPolicy(groupId, policyId, user.id);
+  }
+
+  @Get('policies/:policyId/eligibility')
+  @AnyMember()
+  @ApiOperation({
+    summary: 'Check whether a death on a given date would be covered by the policy',
+  })
+  @ApiResponse({ status: 200, description: 'Each eligibility rule and whether it passed' })
+  checkEligibility(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('policyId', ParseUUIDPipe) policyId: string,
+    @Query() query: BurialEligibilityQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.previewEligibility(groupId, policyId, query.dateOfDeath, user.id);
+  }
+
+  @Patch('policies/:policyId/tier')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Move a policy to another cover tier' })
+  @ApiResponse({ status: 200, description: 'Policy tier changed' })
+  changeTier(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('policyId', ParseUUIDPipe) policyId: string,
+    @Body() dto: ChangeBurialPolicyTierDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.changeTier(groupId, policyId, dto, user.id);
+  }
+
+  @Post('policies/:policyId/cancel')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Cancel a policy with no open claim' })
+  @ApiResponse({ status: 201, description: 'Policy cancelled' })
+  cancelPolicy(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('policyId', ParseUUIDPipe) policyId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.cancelPolicy(groupId, policyId, user.id);
+  }
+
+  @Post('policies/:policyId/dependants')
+  @AnyMember()
+  @ApiOperation({ summary: 'Add a dependant to a policy' })
+  @ApiResponse({ status: 201, description: 'Dependant added' })
+  @ApiResponse({
+    status: 400,
+    description: 'Over the age limit or the maximum number of dependants',
+  })
+  addDependant(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('policyId', ParseUUIDPipe) policyId: string,
+    @Body() dto: AddDependantDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.addDependant(groupId, policyId, dto, user.id);
+  }
+
+  @Delete('policies/:policyId/dependants/:dependantId')
+  @AnyMember()
+  @ApiOperation({ summary: 'Remove a dependant from a policy' })
+  @ApiResponse({ status: 200, description: 'Dependant removed' })
+  removeDependant(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('policyId', ParseUUIDPipe) policyId: string,
+    @Param('dependantId', ParseUUIDPipe) dependantId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.burialService.removeDependant(groupId, policyId, dependantId, user.id);
+  }
+}
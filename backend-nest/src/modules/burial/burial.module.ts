@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { BurialService } from './burial.service';
+import { BurialClaimsService } from './burial-claims.service';
+import { BurialController } from './burial.controller';
+import { BurialClaimsController } from './burial-claims.controller';
+import { LedgerModule } from '../ledger/ledger.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [LedgerModule, NotificationsModule],
+  controllers: [BurialController, BurialClaimsController],
+  providers: [BurialService, BurialClaimsService],
+  exports: [BurialService, BurialClaimsService],
+})
+export class BurialModule {}
@@ -0,0 +1,587 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { BurialPolicyStatus, MemberRole, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { BurialRuleLimits, DEFAULT_BURIAL_RULES, dependantRegistrationError } from './burial-cover';
+import { EligibilityResult, checkClaimEligibility } from './burial-eligibility';
+import {
+  AddDependantDto,
+  ChangeBurialPolicyTierDto,
+  CreateBurialPolicyDto,
+  CreateCoverTierDto,
+  UpdateBurialRulesDto,
+  UpdateCoverTierDto,
+} from './dto/burial.dto';
+
+const memberSelect = { id: true, firstName: true, lastName: true } as const;
+
+// Officers may look after any member's policy; members only their own
+export const POLICY_OFFICER_ROLES: MemberRole[] = ['TREASURER', 'SECRETARY', 'CHAIRPERSON'];
+
+@Injectable()
+export class BurialService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * The group's burial rules, or the defaults until it has saved its own
+   */
+  async getRules(groupId: string): Promise<BurialRuleLimits & { groupId: string }> {
+    await this.requireBurialGroup(groupId);
+
+    const rules = await this.prisma.burialRule.findUnique({ where: { groupId } });
+    return rules ?? { groupId, ...DEFAULT_BURIAL_RULES };
+  }
+
+  async updateRules(groupId: string, dto: UpdateBurialRulesDto, userId: string) {
+    const before = await this.getRules(groupId);
+
+    const rules = await this.prisma.burialRule.upsert({
+      where: { groupId },
+      create: { groupId, ...DEFAULT_BURIAL_RULES, ...dto },
+      update: { ...dto },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_RULES_UPDATED',
+      resourceType: 'BURIAL_RULE',
+      resourceId: rules.id,
+      groupId,
+      beforeState: ruleState(before),
+      afterState: ruleState(rules),
+      outcome: 'SUCCESS',
+    });
+
+    return rules;
+  }
+
+  async listTiers(groupId: string) {
+    await this.requireBurialGroup(groupId);
+
+    return this.prisma.burialCoverTier.findMany({
+      where: { groupId, deletedAt: null },
+      include: { _count: { select: { policies: { where: { status: 'ACTIVE' } } } } },
+      orderBy: { monthlyPremium: 'asc' },
+    });
+  }
+
+  async createTier(groupId: string, dto: CreateCoverTierDto, userId: string) {
+    await this.requireBurialGroup(groupId);
+    await this.assertTierNameFree(groupId, dto.name);
+
+    const tier = await this.prisma.burialCoverTier.create({
+      data: { groupId, ...dto },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_TIER_CREATED',
+      resourceType: 'BURIAL_COVER_TIER',
+      resourceId: tier.id,
+      groupId,
+      afterState: { ...dto },
+      outcome: 'SUCCESS',
+    });
+
+    return tier;
+  }
+
+  /**
+   * Change a tier's premium or cover. Claims already submitted keep the
+   * cover they were made for.
+   */
+  async updateTier(groupId: string, tierId: string, dto: UpdateCoverTierDto, userId: string) {
+    const tier = await this.findTierOrFail(groupId, tierId);
+    if (dto.name && dto.name !== tier.name) {
+      await this.assertTierNameFree(groupId, dto.name);
+    }
+
+    const updated = await this.prisma.burialCoverTier.update({
+      where: { id: tierId },
+      data: { ...dto },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_TIER_UPDATED',
+      resourceType: 'BURIAL_COVER_TIER',
+      resourceId: tierId,
+      groupId,
+      beforeState: {
+        name: tier.name,
+        monthlyPremium: tier.monthlyPremium.toString(),
+        memberCover: tier.memberCover.toString(),
+        spouseCover: tier.spouseCover.toString(),
+        childCover: tier.childCover.toString(),
+        parentCover: tier.parentCover.toString(),
+        extendedCover: tier.extendedCover.toString(),
+        active: tier.active,
+      },
+      afterState: { ...dto },
+      outcome: 'SUCCESS',
+    });
+
+    return updated;
+  }
+
+  async deleteTier(groupId: string, tierId: string, userId: string) {
+    await this.findTierOrFail(groupId, tierId);
+
+    const policies = await this.prisma.burialPolicy.count({
+      where: { tierId, status: 'ACTIVE' },
+    });
+    if (policies > 0) {
+      throw new BadRequestException('Move the policies on this tier to another tier first');
+    }
+
+    await this.prisma.burialCoverTier.update({
+      where: { id: tierId },
+      data: { active: false, deletedAt: new Date() },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_TIER_DELETED',
+      resourceType: 'BURIAL_COVER_TIER',
+      resourceId: tierId,
+      groupId,
+      outcome: 'SUCCESS',
+    });
+
+    return { success: true };
+  }
+
+  async listPolicies(groupId: string, status?: BurialPolicyStatus) {
+    await this.requireBurialGroup(groupId);
+
+    return this.prisma.burialPolicy.findMany({
+      where: { groupId, ...(status && { status }) },
+      include: {
+        member: { select: memberSelect },
+        tier: { select: { id: true, name: true, monthlyPremium: true } },
+        _count: { select: { dependants: { where: { status: 'ACTIVE' } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async getMyPolicy(groupId: string, userId: string) {
+    const policy = await this.prisma.burialPolicy.findUnique({
+      where: { groupId_memberId: { groupId, memberId: userId } },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('You do not have burial cover in this group');
+    }
+
+    return this.getPolicy(groupId, policy.id, userId);
+  }
+
+  async getPolicy(groupId: string, policyId: string, userId: string) {
+    const policy = await this.prisma.burialPolicy.findFirst({
+      where: { id: policyId, groupId },
+      include: {
+        member: { select: memberSelect },
+        tier: true,
+        dependants: {
+          where: { status: { not: 'REMOVED' } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Burial policy not found');
+    }
+
+    await this.assertPolicyAccess(policy, userId);
+    return policy;
+  }
+
+  /**
+   * Put a member on cover. A member whose policy was cancelled is
+   * re-covered on the same policy from the new start date.
+   */
+  async createPolicy(groupId: string, dto: CreateBurialPolicyDto, userId: string) {
+    await this.requireBurialGroup(groupId);
+
+    const membership = await this.prisma.groupMember.findFirst({
+      where: { groupId, userId: dto.memberId, status: 'ACTIVE', deletedAt: null },
+    });
+    if (!membership) {
+      throw new BadRequestException('Only active members of the group can take out cover');
+    }
+
+    await this.findActiveTierOrFail(groupId, dto.tierId);
+
+    const existing = await this.prisma.burialPolicy.findUnique({
+      where: { groupId_memberId: { groupId, memberId: dto.memberId } },
+    });
+    if (existing && existing.status !== 'CANCELLED') {
+      throw new BadRequestException(
+        existing.status === 'ACTIVE'
+          ? 'Member already has burial cover in this group'
+          : "This member's own claim has been paid",
+      );
+    }
+
+    const startDate = dto.startDate ? new Date(dto.startDate) : startOfDay(new Date());
+    const policy = existing
+      ? await this.prisma.burialPolicy.update({
+          where: { id: existing.id },
+          data: { tierId: dto.tierId, status: 'ACTIVE', startDate },
+        })
+      : await this.prisma.burialPolicy.create({
+          data: { groupId, memberId: dto.memberId, tierId: dto.tierId, startDate },
+        });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: existing ? 'BURIAL_POLICY_REINSTATED' : 'BURIAL_POLICY_CREATED',
+      resourceType: 'BURIAL_POLICY',
+      resourceId: policy.id,
+      groupId,
+      beforeState: existing ? { status: existing.status, tierId: existing.tierId } : undefined,
+      afterState: {
+        memberId: dto.memberId,
+        tierId: dto.tierId,
+        startDate: startDate.toISOString().split('T')[0],
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return policy;
+  }
+
+  async changeTier(
+    groupId: string,
+    policyId: string,
+    dto: ChangeBurialPolicyTierDto,
+    userId: string,
+  ) {
+    const policy = await this.findActivePolicyOrFail(groupId, policyId);
+    await this.findActiveTierOrFail(groupId, dto.tierId);
+
+    const updated = await this.prisma.burialPolicy.update({
+      where: { id: policyId },
+      data: { tierId: dto.tierId },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_POLICY_TIER_CHANGED',
+      resourceType: 'BURIAL_POLICY',
+      resourceId: policyId,
+      groupId,
+      beforeState: { tierId: policy.tierId },
+      afterState: { tierId: dto.tierId },
+      outcome: 'SUCCESS',
+    });
+
+    return updated;
+  }
+
+  async cancelPolicy(groupId: string, policyId: string, userId: string) {
+    await this.findActivePolicyOrFail(groupId, policyId);
+    await this.assertNoOpenClaim({ policyId }, 'Settle the open claim on this policy first');
+
+    const policy = await this.prisma.burialPolicy.update({
+      where: { id: policyId },
+      data: { status: 'CANCELLED' },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_POLICY_CANCELLED',
+      resourceType: 'BURIAL_POLICY',
+      resourceId: policyId,
+      groupId,
+      beforeState: { status: 'ACTIVE' },
+      afterState: { status: 'CANCELLED' },
+      outcome: 'SUCCESS',
+    });
+
+    return policy;
+  }
+
+  /**
+   * Add a dependant to a policy, within the group's age limits and
+   * maximum number of dependants
+   */
+  async addDependant(groupId: string, policyId: string, dto: AddDependantDto, userId: string) {
+    const policy = await this.findActivePolicyOrFail(groupId, policyId);
+    await this.assertPolicyAccess(policy, userId);
+
+    const rules = await this.getRules(groupId);
+    const activeDependants = await this.prisma.burialDependant.count({
+      where: { policyId, status: 'ACTIVE' },
+    });
+
+    const dateOfBirth = new Date(dto.dateOfBirth);
+    const error = dependantRegistrationError(
+      rules,
+      dto.relationship,
+      dateOfBirth,
+      activeDependants,
+    );
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    const dependant = await this.prisma.burialDependant.create({
+      data: {
+        policyId,
+        firstName: dto.firstName,
+        lastName: dto.lastName,
+        idNumber: dto.idNumber,
+        dateOfBirth,
+        relationship: dto.relationship,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_DEPENDANT_ADDED',
+      resourceType: 'BURIAL_POLICY',
+      resourceId: policyId,
+      groupId,
+      afterState: {
+        dependantId: dependant.id,
+        relationship: dto.relationship,
+        dateOfBirth: dto.dateOfBirth,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return dependant;
+  }
+
+  async removeDependant(groupId: string, policyId: string, dependantId: string, userId: string) {
+    const policy = await this.findActivePolicyOrFail(groupId, policyId);
+    await this.assertPolicyAccess(policy, userId);
+
+    const dependant = await this.prisma.burialDependant.findFirst({
+      where: { id: dependantId, policyId, status: 'ACTIVE' },
+    });
+    if (!dependant) {
+      throw new NotFoundException('Dependant not found');
+    }
+
+    await this.assertNoOpenClaim({ dependantId }, 'This dependant has an open claim');
+
+    await this.prisma.burialDependant.update({
+      where: { id: dependantId },
+      data: { status: 'REMOVED' },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BURIAL_DEPENDANT_REMOVED',
+      resourceType: 'BURIAL_POLICY',
+      resourceId: policyId,
+      groupId,
+      beforeState: { dependantId, status: 'ACTIVE' },
+      afterState: { dependantId, status: 'REMOVED' },
+      outcome: 'SUCCESS',
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Whether a death on `dateOfDeath` would be paid out under the policy,
+   * judged on when the policy holder joined and which months their
+   * premium was paid in full
+   */
+  async checkEligibility(
+    policy: {
+      groupId: string;
+      memberId: string;
+      tier: { monthlyPremium: Prisma.Decimal };
+    },
+    dateOfDeath: Date,
+  ): Promise<EligibilityResult> {
+    const { groupId, memberId } = policy;
+    const membership = await this.prisma.groupMember.findFirst({
+      where: { groupId, userId: memberId, deletedAt: null },
+      select: { joinedAt: true },
+    });
+    if (!membership) {
+      throw new BadRequestException('Policy holder is not a member of this group');
+    }
+
+    const [rules, allocated, excusals] = await Promise.all([
+      this.getRules(groupId),
+      this.prisma.contributionAllocation.groupBy({
+        by: ['periodStart'],
+        where: { groupId, memberId, periodStart: { lte: dateOfDeath } },
+        _sum: { amount: true },
+      }),
+      this.prisma.contributionExcusal.findMany({
+        where: { groupId, memberId, periodStart: { lte: dateOfDeath } },
+        select: { periodStart: true },
+      }),
+    ]);
+
+    // Part-paid months do not count towards cover
+    const premium = policy.tier.monthlyPremium;
+    const paidPeriods = allocated
+      .filter((a) => a._sum.amount?.greaterThan(0) && premium.lessThanOrEqualTo(a._sum.amount))
+      .map((a) => a.periodStart);
+
+    return checkClaimEligibility({
+      rules,
+      joinedAt: membership.joinedAt,
+      dateOfDeath,
+      paidPeriods,
+      excusedPeriods: excusals.map((e) => e.periodStart),
+    });
+  }
+
+  /**
+   * Eligibility of a death on the given date, for members checking their
+   * cover before a claim is made
+   */
+  async previewEligibility(groupId: string, policyId: string, dateOfDeath: string, userId: string) {
+    const policy = await this.prisma.burialPolicy.findFirst({
+      where: { id: policyId, groupId },
+      include: { tier: true },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Burial policy not found');
+    }
+
+    await this.assertPolicyAccess(policy, userId);
+    return this.checkEligibility(policy, new Date(dateOfDeath));
+  }
+
+  /**
+   * Members may see and change their own policy; officers any policy
+   */
+  async assertPolicyAccess(policy: { groupId: string; memberId: string }, userId: string) {
+    if (policy.memberId === userId) {
+      return;
+    }
+
+    const officer = await this.prisma.groupMember.findFirst({
+      where: {
+        groupId: policy.groupId,
+        userId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        role: { in: POLICY_OFFICER_ROLES },
+      },
+    });
+
+    if (!officer) {
+      throw new ForbiddenException('You can only see and change your own burial policy');
+    }
+  }
+
+  private async requireBurialGroup(groupId: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'BURIAL', deletedAt: null },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Burial group not found');
+    }
+
+    return group;
+  }
+
+  private async findTierOrFail(groupId: string, tierId: string) {
+    const tier = await this.prisma.burialCoverTier.findFirst({
+      where: { id: tierId, groupId, deletedAt: null },
+    });
+
+    if (!tier) {
+      throw new NotFoundException('Cover tier not found');
+    }
+
+    return tier;
+  }
+
+  private async findActiveTierOrFail(groupId: string, tierId: string) {
+    const tier = await this.findTierOrFail(groupId, tierId);
+    if (!tier.active) {
+      throw new BadRequestException('This cover tier is no longer offered');
+    }
+    return tier;
+  }
+
+  private async findActivePolicyOrFail(groupId: string, policyId: string) {
+    const policy = await this.prisma.burialPolicy.findFirst({
+      where: { id: policyId, groupId },
+    });
+
+    if (!policy) {
+      throw new NotFoundException('Burial policy not found');
+    }
+
+    if (policy.status !== 'ACTIVE') {
+      throw new BadRequestException(`Burial policy is ${policy.status.toLowerCase()}`);
+    }
+
+    return policy;
+  }
+
+  private async assertTierNameFree(groupId: string, name: string) {
+    const clash = await this.prisma.burialCoverTier.findFirst({
+      where: { groupId, name },
+    });
+
+    if (clash) {
+      throw new BadRequestException('A cover tier with this name already exists');
+    }
+  }
+
+  private async assertNoOpenClaim(
+    where: { policyId?: string; dependantId?: string },
+    message: string,
+  ) {
+    const open = await this.prisma.burialClaim.findFirst({
+      where: { ...where, status: { in: ['SUBMITTED', 'APPROVED'] } },
+    });
+
+    if (open) {
+      throw new BadRequestException(message);
+    }
+  }
+}
+
+function ruleState(rules: BurialRuleLimits) {
+  return {
+    minApprovalCount: rules.minApprovalCount,
+    maxDependants: rules.maxDependants,
+    childMaxAge: rules.childMaxAge,
+    parentMaxAge: rules.parentMaxAge,
+    extendedMaxAge: rules.extendedMaxAge,
+    waitingPeriodMonths: rules.waitingPeriodMonths,
+    minConsecutivePaidMonths: rules.minConsecutivePaidMonths,
+    lapseAfterMissedMonths: rules.lapseAfterMissedMonths,
+    reinstatementWaitingMonths: rules.reinstatementWaitingMonths,
+  };
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
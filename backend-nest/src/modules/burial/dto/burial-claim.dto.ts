@@ -0,0 +1,65 @@
+import { IsDateString, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SubmitBurialClaimDto {
+  @ApiProperty({ description: 'Policy the deceased was covered under' })
+  @IsUUID()
+  policyId: string;
+
+  @ApiPropertyOptional({ description: 'Dependant who died; omit when the main member has died' })
+  @IsOptional()
+  @IsUUID()
+  dependantId?: string;
+
+  @ApiProperty({ example: '2026-05-03' })
+  @IsDateString()
+  dateOfDeath: string;
+
+  @ApiProperty({ description: 'Uploaded death certificate (DEATH_CERTIFICATE document)' })
+  @IsUUID()
+  deathCertificateDocumentId: string;
+
+  @ApiProperty({ description: "Deceased's identity document (ID_DOCUMENT document)" })
+  @IsUUID()
+  deceasedIdDocumentId: string;
+
+  @ApiProperty({ description: "Claimant's identity document (ID_DOCUMENT document)" })
+  @IsUUID()
+  claimantIdDocumentId: string;
+
+  @ApiPropertyOptional({ example: 'Funeral on Saturday at the family home' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'Client-generated key so a retried submission is not doubled',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  idempotencyKey?: string;
+}
+
+export class ApproveBurialClaimDto {
+  @ApiPropertyOptional({ example: 'Documents checked against Home Affairs' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class RejectBurialClaimDto {
+  @ApiProperty({ example: 'Death certificate does not match the dependant' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class PayBurialClaimDto {
+  @ApiProperty({ example: 'FNB-7781234', description: 'Bank reference of the payment' })
+  @IsString()
+  @MaxLength(100)
+  paymentReference: string;
+}
@@ -0,0 +1,183 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { DependantRelationship } from '@prisma/client';
+
+export class UpdateBurialRulesDto {
+  @ApiPropertyOptional({ example: 2, description: 'Officers who must approve a claim' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  minApprovalCount?: number;
+
+  @ApiPropertyOptional({ example: 10, description: 'Most dependants one policy can cover' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(50)
+  maxDependants?: number;
+
+  @ApiPropertyOptional({ example: 21, description: 'Children are covered up to this age' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30)
+  childMaxAge?: number;
+
+  @ApiPropertyOptional({ example: 75, description: 'Oldest age a parent can be added at' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  parentMaxAge?: number;
+
+  @ApiPropertyOptional({ example: 65, description: 'Oldest age other family can be added at' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(120)
+  extendedMaxAge?: number;
+
+  @ApiPropertyOptional({ example: 6, description: 'Months from joining before claims are paid' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  waitingPeriodMonths?: number;
+
+  @ApiPropertyOptional({
+    example: 3,
+    description: 'Months that must be paid without a break before the death',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  minConsecutivePaidMonths?: number;
+
+  @ApiPropertyOptional({ example: 3, description: 'Unpaid months in a row before cover lapses' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  lapseAfterMissedMonths?: number;
+
+  @ApiPropertyOptional({
+    example: 3,
+    description: 'Months after the first payment following a lapse before claims are paid again',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(24)
+  reinstatementWaitingMonths?: number;
+}
+
+export class CreateCoverTierDto {
+  @ApiProperty({ example: 'Gold' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 150, description: 'Premium a member pays each month' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  monthlyPremium: number;
+
+  @ApiProperty({ example: 20000, description: 'Paid out when the main member dies' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  memberCover: number;
+
+  @ApiProperty({ example: 20000 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  spouseCover: number;
+
+  @ApiProperty({ example: 10000 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  childCover: number;
+
+  @ApiProperty({ example: 10000, description: 'Parents and parents-in-law' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  parentCover: number;
+
+  @ApiProperty({ example: 5000 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  extendedCover: number;
+}
+
+export class UpdateCoverTierDto extends PartialType(CreateCoverTierDto) {
+  @ApiPropertyOptional({ description: 'Inactive tiers take no new policies' })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class CreateBurialPolicyDto {
+  @ApiProperty({ description: 'User ID of the member taking out cover' })
+  @IsUUID()
+  memberId: string;
+
+  @ApiProperty({ description: 'Cover tier' })
+  @IsUUID()
+  tierId: string;
+
+  @ApiPropertyOptional({ example: '2026-05-01', description: 'Today when omitted' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+}
+
+export class ChangeBurialPolicyTierDto {
+  @ApiProperty({ description: 'New cover tier' })
+  @IsUUID()
+  tierId: string;
+}
+
+export class BurialEligibilityQueryDto {
+  @ApiProperty({ example: '2026-05-03', description: 'Date of death to check cover for' })
+  @IsDateString()
+  dateOfDeath: string;
+}
+
+export class AddDependantDto {
+  @ApiProperty({ example: 'Thandi' })
+  @IsString()
+  @MaxLength(100)
+  firstName: string;
+
+  @ApiProperty({ example: 'Moyo' })
+  @IsString()
+  @MaxLength(100)
+  lastName: string;
+
+  @ApiPropertyOptional({ example: '1990010112345' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  idNumber?: string;
+
+  @ApiProperty({ example: '1990-01-01' })
+  @IsDateString()
+  dateOfBirth: string;
+
+  @ApiProperty({ enum: DependantRelationship })
+  @IsEnum(DependantRelationship)
+  relationship: DependantRelationship;
+}
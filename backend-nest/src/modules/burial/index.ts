@@ -0,0 +1,5 @@
+export * from './burial.module';
+export * from './burial.service';
+export * from './burial-claims.service';
+export * from './burial.controller';
+export * from './burial-claims.controller';
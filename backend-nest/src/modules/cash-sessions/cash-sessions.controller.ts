@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { CashSessionsService } from './cash-sessions.service';
+import {
+  CancelCashSessionDto,
+  CountersignCashSessionDto,
+  OpenCashSessionDto,
+  RecordCashEntryDto,
+} from './dto/cash-session.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles, TreasurerOrHigher } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('cash-sessions')
+@Controller({ path: 'groups/:groupId/cash-sessions', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class CashSessionsController {
+  constructor(private readonly cashSessionsService: CashSessionsService) {}
+
+  @Post()
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Open a cash collection session for a meeting' })
+  @ApiResponse({ status: 201, description: 'Session opened' })
+  @ApiResponse({ status: 400, description: 'Another session is still in progress' })
+  open(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: OpenCashSessionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashSessionsService.openSession(groupId, dto, user.id);
+  }
+
+  @Get()
+  @Roles('TREASURER', 'SECRETARY', 'CHAIRPERSON')
+  @ApiOperation({ summary: 'List cash collection sessions' })
+  @ApiResponse({ status: 200, description: 'Sessions, newest meeting first' })
+  list(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.cashSessionsService.listSessions(groupId);
+  }
+
+  @Get(':sessionId')
+  @Roles('TREASURER', 'SECRETARY', 'CHAIRPERSON')
+  @ApiOperation({ summary: 'Get a cash session with the cash recorded per member' })
+  @ApiResponse({ status: 200, description: 'Session details' })
+  get(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ) {
+    return this.cashSessionsService.getSession(groupId, sessionId);
+  }
+
+  @Post(':sessionId/entries')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Record cash received from a member' })
+  @ApiResponse({ status: 201, description: 'Cash recorded' })
+  recordEntry(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: RecordCashEntryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashSessionsService.recordEntry(groupId, sessionId, dto, user.id);
+  }
+
+  @Delete(':sessionId/entries/:entryId')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Remove cash recorded in error' })
+  @ApiResponse({ status: 200, description: 'Cash entry removed' })
+  removeEntry(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Param('entryId', ParseUUIDPipe) entryId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashSessionsService.removeEntry(groupId, sessionId, entryId, user.id);
+  }
+
+  @Post(':sessionId/countersign')
+  @Roles('TREASURER', 'SECRETARY', 'CHAIRPERSON')
+  @ApiOperation({ summary: 'Count the cash and countersign the total (second officer)' })
+  @ApiResponse({ status: 201, description: 'Session countersigned; any variance is flagged' })
+  @ApiResponse({ status: 403, description: 'The officer who opened the session cannot sign it' })
+  countersign(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: CountersignCashSessionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashSessionsService.countersign(groupId, sessionId, dto, user.id);
+  }
+
+  @Post(':sessionId/close')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Close the session, approving the cash contributions' })
+  @ApiResponse({ status: 201, description: 'Contributions approved and credited to the ledger' })
+  close(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashSessionsService.closeSession(groupId, sessionId, user.id);
+  }
+
+  @Post(':sessionId/cancel')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Cancel a session that has not been closed' })
+  @ApiResponse({ status: 201, description: 'Session cancelled' })
+  cancel(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: CancelCashSessionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.cashSessionsService.cancelSession(groupId, sessionId, dto, user.id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CashSessionsService } from './cash-sessions.service';
+import { CashSessionsController } from './cash-sessions.controller';
+import { LedgerModule } from '../ledger/ledger.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ContributionsModule } from '../contributions/contributions.module';
+
+@Module({
+  imports: [LedgerModule, NotificationsModule, ContributionsModule],
+  controllers: [CashSessionsController],
+  providers: [CashSessionsService],
+  exports: [CashSessionsService],
+})
+export class CashSessionsModule {}
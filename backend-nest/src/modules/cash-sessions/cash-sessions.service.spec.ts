@@ -0,0 +1,361 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { CashSessionsService } from './cash-sessions.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ContributionsService } from '../contributions/contributions.service';
+
+describe('CashSessionsService', () => {
+  let service: CashSessionsService;
+
+  const mockPrismaService = {
+    group: {
+      findFirst: jest.fn(),
+    },
+    groupMember: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    cashCollectionSession: {
+      findFirst: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    cashCollectionEntry: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      aggregate: jest.fn(),
+      count: jest.fn(),
+    },
+    contribution: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    appendEntry: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    sendBulk: jest.fn(),
+  };
+
+  const mockContributionsService = {
+    applyCredit: jest.fn(),
+  };
+
+  const session = (overrides = {}) => ({
+    id: 'session-1',
+    groupId: 'group-1',
+    meetingDate: new Date('2026-04-25T00:00:00Z'),
+    status: 'OPEN',
+    recordedTotal: new Prisma.Decimal(1500),
+    countedTotal: null,
+    variance: null,
+    varianceFlagged: false,
+    notes: null,
+    openedById: 'treasurer-1',
+    countersignedById: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CashSessionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: ContributionsService, useValue: mockContributionsService },
+      ],
+    }).compile();
+
+    service = module.get<CashSessionsService>(CashSessionsService);
+
+    jest.clearAllMocks();
+    mockPrismaService.group.findFirst.mockResolvedValue({ status: 'ACTIVE' });
+    mockPrismaService.cashCollectionSession.update.mockImplementation(({ data }) =>
+      Promise.resolve({ ...session(), ...data }),
+    );
+    mockPrismaService.$transaction.mockImplementation((fn) => fn(mockPrismaService));
+  });
+
+  describe('openSession', () => {
+    it('should not open a second session while one is in progress', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+
+      await expect(service.openSession('group-1', {}, 'treasurer-1')).rejects.toThrow(
+        'Close or cancel the cash session in progress first',
+      );
+      expect(mockPrismaService.cashCollectionSession.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordEntry', () => {
+    it("should record cash for the meeting month and update the session's total", async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ userId: 'user-1' });
+      mockPrismaService.cashCollectionSession.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.cashCollectionEntry.upsert.mockResolvedValue({ id: 'entry-1' });
+      mockPrismaService.cashCollectionEntry.aggregate.mockResolvedValue({
+        _sum: { amount: new Prisma.Decimal(2000) },
+      });
+
+      await service.recordEntry(
+        'group-1',
+        'session-1',
+        { memberId: 'user-1', amount: 500 },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.cashCollectionEntry.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            sessionId_memberId_periodStart: {
+              sessionId: 'session-1',
+              memberId: 'user-1',
+              periodStart: new Date('2026-04-01T00:00:00Z'),
+            },
+          },
+        }),
+      );
+      expect(mockPrismaService.cashCollectionSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: { recordedTotal: new Prisma.Decimal(2000) },
+      });
+    });
+
+    it('should not record cash once the session has been countersigned', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(
+        session({ status: 'COUNTERSIGNED' }),
+      );
+
+      await expect(
+        service.recordEntry(
+          'group-1',
+          'session-1',
+          { memberId: 'user-1', amount: 500 },
+          'treasurer-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not record cash into a session countersigned while the entry was being saved', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ userId: 'user-1' });
+      mockPrismaService.cashCollectionSession.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.recordEntry(
+          'group-1',
+          'session-1',
+          { memberId: 'user-1', amount: 500 },
+          'treasurer-1',
+        ),
+      ).rejects.toThrow('Cash can only be recorded while the session is open');
+      expect(mockPrismaService.cashCollectionSession.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'session-1', status: 'OPEN' } }),
+      );
+      expect(mockPrismaService.cashCollectionEntry.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('countersign', () => {
+    beforeEach(() => {
+      mockPrismaService.cashCollectionEntry.aggregate.mockResolvedValue({
+        _count: 3,
+        _sum: { amount: new Prisma.Decimal(1500) },
+      });
+      mockPrismaService.cashCollectionSession.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.cashCollectionSession.findUniqueOrThrow.mockImplementation(() =>
+        Promise.resolve({
+          ...session(),
+          ...mockPrismaService.cashCollectionSession.updateMany.mock.calls[0][0].data,
+        }),
+      );
+      mockPrismaService.groupMember.findMany.mockResolvedValue([
+        { userId: 'treasurer-1' },
+        { userId: 'chair-1' },
+      ]);
+    });
+
+    it('should not let the officer who opened the session countersign it', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+
+      await expect(
+        service.countersign('group-1', 'session-1', { countedTotal: 1500 }, 'treasurer-1'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should sign off a count that matches without flagging it', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+
+      const result = await service.countersign(
+        'group-1',
+        'session-1',
+        { countedTotal: 1500 },
+        'chair-1',
+      );
+
+      expect(result.status).toBe('COUNTERSIGNED');
+      expect(result.varianceFlagged).toBe(false);
+      expect(mockNotificationsService.sendBulk).not.toHaveBeenCalled();
+    });
+
+    it('should flag a shortfall to the treasurer and chairperson', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+
+      const result = await service.countersign(
+        'group-1',
+        'session-1',
+        { countedTotal: 1400 },
+        'chair-1',
+      );
+
+      expect(result.varianceFlagged).toBe(true);
+      expect(result.variance!.toString()).toBe('-100');
+      expect(mockNotificationsService.sendBulk).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userIds: ['treasurer-1', 'chair-1'],
+          type: 'CASH_SESSION_VARIANCE',
+          data: expect.objectContaining({ variance: '-100.00' }),
+        }),
+      );
+    });
+
+    it('should measure the count against the entries, not the stored running total', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+      mockPrismaService.cashCollectionEntry.aggregate.mockResolvedValue({
+        _count: 4,
+        _sum: { amount: new Prisma.Decimal(1600) },
+      });
+
+      const result = await service.countersign(
+        'group-1',
+        'session-1',
+        { countedTotal: 1600 },
+        'chair-1',
+      );
+
+      expect(result.recordedTotal.toString()).toBe('1600');
+      expect(result.varianceFlagged).toBe(false);
+    });
+
+    it('should not countersign a session another officer has just countersigned', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+      mockPrismaService.cashCollectionSession.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.countersign('group-1', 'session-1', { countedTotal: 1500 }, 'chair-1'),
+      ).rejects.toThrow('Only an open session can be countersigned');
+      expect(mockNotificationsService.sendBulk).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeSession', () => {
+    it('should approve a cash contribution per entry and post one ledger credit', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(
+        session({
+          status: 'COUNTERSIGNED',
+          countedTotal: new Prisma.Decimal(1500),
+          variance: new Prisma.Decimal(0),
+          countersignedById: 'chair-1',
+        }),
+      );
+      mockPrismaService.cashCollectionEntry.findMany.mockResolvedValue([
+        {
+          id: 'entry-1',
+          memberId: 'user-1',
+          periodStart: new Date('2026-04-01T00:00:00Z'),
+          amount: new Prisma.Decimal(500),
+        },
+        {
+          id: 'entry-2',
+          memberId: 'user-1',
+          periodStart: new Date('2026-05-01T00:00:00Z'),
+          amount: new Prisma.Decimal(500),
+        },
+        {
+          id: 'entry-3',
+          memberId: 'user-2',
+          periodStart: new Date('2026-04-01T00:00:00Z'),
+          amount: new Prisma.Decimal(500),
+        },
+      ]);
+      mockPrismaService.cashCollectionSession.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.contribution.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: `contribution-${data.memberId}`, ...data }),
+      );
+      mockLedgerService.appendEntry.mockResolvedValue({ entry: { id: 'ledger-1' } });
+
+      const result = await service.closeSession('group-1', 'session-1', 'treasurer-1');
+
+      expect(mockPrismaService.contribution.create).toHaveBeenCalledTimes(3);
+      expect(mockPrismaService.contribution.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          memberId: 'user-1',
+          periodEnd: new Date('2026-05-31T00:00:00Z'),
+          paymentMethod: 'CASH',
+          status: 'APPROVED',
+          approvedById: 'chair-1',
+        }),
+      });
+      expect(mockLedgerService.appendEntry).toHaveBeenCalledTimes(1);
+      const [, ledgerInput] = mockLedgerService.appendEntry.mock.calls[0];
+      expect(ledgerInput).toMatchObject({
+        entryType: 'CONTRIBUTION_CREDIT',
+        amount: '1500',
+        referenceType: 'CASH_SESSION',
+        referenceId: 'session-1',
+      });
+      expect(ledgerInput.memberPostings.map((p: any) => [p.memberId, p.amount.toString()])).toEqual(
+        [
+          ['user-1', '1000'],
+          ['user-2', '500'],
+        ],
+      );
+      expect(result.ledgerEntryId).toBe('ledger-1');
+      expect(mockContributionsService.applyCredit).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not close a session that has not been countersigned', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(session());
+
+      await expect(service.closeSession('group-1', 'session-1', 'treasurer-1')).rejects.toThrow(
+        'The session must be countersigned before it is closed',
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelSession', () => {
+    it('should not cancel a session closed while the cancellation was being made', async () => {
+      mockPrismaService.cashCollectionSession.findFirst.mockResolvedValue(
+        session({ status: 'COUNTERSIGNED' }),
+      );
+      mockPrismaService.cashCollectionSession.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.cancelSession('group-1', 'session-1', { reason: 'Miscount' }, 'treasurer-1'),
+      ).rejects.toThrow('Cash session has already been closed or cancelled');
+      expect(mockPrismaService.cashCollectionSession.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'session-1', status: { in: ['OPEN', 'COUNTERSIGNED'] } },
+        }),
+      );
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+  });
+});
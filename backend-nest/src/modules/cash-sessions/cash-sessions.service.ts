@@ -0,0 +1,551 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { CashCollectionSession, Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ContributionsService } from '../contributions/contributions.service';
+import {
+  CancelCashSessionDto,
+  CountersignCashSessionDto,
+  OpenCashSessionDto,
+  RecordCashEntryDto,
+} from './dto/cash-session.dto';
+
+const memberSelect = { id: true, firstName: true, lastName: true } as const;
+
+@Injectable()
+export class CashSessionsService {
+  private readonly logger = new Logger(CashSessionsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
+    private contributionsService: ContributionsService,
+  ) {}
+
+  /**
+   * Open a cash session for a meeting. A group has at most one session
+   * in progress, so cash is never recorded against two counts at once.
+   */
+  async openSession(groupId: string, dto: OpenCashSessionDto, userId: string) {
+    await this.assertAcceptingContributions(groupId);
+
+    const inProgress = await this.prisma.cashCollectionSession.findFirst({
+      where: { groupId, status: { in: ['OPEN', 'COUNTERSIGNED'] } },
+    });
+
+    if (inProgress) {
+      throw new BadRequestException('Close or cancel the cash session in progress first');
+    }
+
+    const session = await this.prisma.cashCollectionSession.create({
+      data: {
+        groupId,
+        meetingDate: dto.meetingDate ? new Date(dto.meetingDate) : startOfDay(new Date()),
+        notes: dto.notes,
+        openedById: userId,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'CASH_SESSION_OPENED',
+      resourceType: 'CASH_SESSION',
+      resourceId: session.id,
+      groupId,
+      afterState: { meetingDate: session.meetingDate.toISOString().slice(0, 10) },
+      outcome: 'SUCCESS',
+    });
+
+    return session;
+  }
+
+  async listSessions(groupId: string) {
+    return this.prisma.cashCollectionSession.findMany({
+      where: { groupId },
+      include: { _count: { select: { entries: true } } },
+      orderBy: { meetingDate: 'desc' },
+    });
+  }
+
+  async getSession(groupId: string, sessionId: string) {
+    const session = await this.prisma.cashCollectionSession.findFirst({
+      where: { id: sessionId, groupId },
+      include: {
+        entries: {
+          include: { member: { select: memberSelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Cash session not found');
+    }
+
+    return session;
+  }
+
+  /**
+   * Record the cash a member handed over for a period. Recording the same
+   * member and period again replaces the amount.
+   */
+  async recordEntry(groupId: string, sessionId: string, dto: RecordCashEntryDto, userId: string) {
+    const session = await this.findSession(groupId, sessionId);
+    assertStatus(session, 'OPEN', 'Cash can only be recorded while the session is open');
+
+    const membership = await this.prisma.groupMember.findFirst({
+      where: { groupId, userId: dto.memberId, status: 'ACTIVE', deletedAt: null },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('Member not found in this group');
+    }
+
+    const periodStart = dto.period
+      ? new Date(`${dto.period}-01T00:00:00Z`)
+      : monthStart(session.meetingDate);
+    const amount = new Prisma.Decimal(dto.amount);
+
+    const { entry, recordedTotal } = await this.prisma.$transaction(async (tx) => {
+      await this.lockOpenSession(
+        tx,
+        sessionId,
+        'Cash can only be recorded while the session is open',
+      );
+
+      const entry = await tx.cashCollectionEntry.upsert({
+        where: {
+          sessionId_memberId_periodStart: { sessionId, memberId: dto.memberId, periodStart },
+        },
+        create: { sessionId, memberId: dto.memberId, periodStart, amount, recordedById: userId },
+        update: { amount, recordedById: userId },
+      });
+
+      return { entry, recordedTotal: await this.updateRecordedTotal(tx, sessionId) };
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'CASH_ENTRY_RECORDED',
+      resourceType: 'CASH_SESSION',
+      resourceId: sessionId,
+      groupId,
+      afterState: {
+        memberId: dto.memberId,
+        period: periodStart.toISOString().slice(0, 7),
+        amount: amount.toString(),
+        recordedTotal: recordedTotal.toString(),
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return entry;
+  }
+
+  async removeEntry(groupId: string, sessionId: string, entryId: string, userId: string) {
+    const session = await this.findSession(groupId, sessionId);
+    assertStatus(session, 'OPEN', 'Cash can only be removed while the session is open');
+
+    const entry = await this.prisma.cashCollectionEntry.findFirst({
+      where: { id: entryId, sessionId },
+    });
+
+    if (!entry) {
+      throw new NotFoundException('Cash entry not found');
+    }
+
+    const recordedTotal = await this.prisma.$transaction(async (tx) => {
+      await this.lockOpenSession(
+        tx,
+        sessionId,
+        'Cash can only be removed while the session is open',
+      );
+
+      await tx.cashCollectionEntry.delete({ where: { id: entryId } });
+      return this.updateRecordedTotal(tx, sessionId);
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'CASH_ENTRY_REMOVED',
+      resourceType: 'CASH_SESSION',
+      resourceId: sessionId,
+      groupId,
+      beforeState: {
+        memberId: entry.memberId,
+        period: entry.periodStart.toISOString().slice(0, 7),
+        amount: entry.amount.toString(),
+      },
+      afterState: { recordedTotal: recordedTotal.toString() },
+      outcome: 'SUCCESS',
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * A second officer counts the cash and signs off the total. Any
+   * difference from the recorded amounts is flagged to the group's leaders;
+   * the session can still be closed, but the variance stays on record.
+   */
+  async countersign(
+    groupId: string,
+    sessionId: string,
+    dto: CountersignCashSessionDto,
+    userId: string,
+  ) {
+    const session = await this.findSession(groupId, sessionId);
+    assertStatus(session, 'OPEN', 'Only an open session can be countersigned');
+
+    if (session.openedById === userId) {
+      throw new ForbiddenException('A second officer must countersign the session');
+    }
+
+    const countedTotal = new Decimal(dto.countedTotal);
+
+    // Total the entries and sign off in one step, so cash recorded while the
+    // count was being entered cannot slip past the recorded total
+    const { updated, recordedTotal, variance } = await this.prisma.$transaction(
+      async (tx) => {
+        const recorded = await tx.cashCollectionEntry.aggregate({
+          where: { sessionId },
+          _count: true,
+          _sum: { amount: true },
+        });
+        if (recorded._count === 0) {
+          throw new BadRequestException('No cash has been recorded in this session');
+        }
+
+        const recordedTotal = new Decimal((recorded._sum.amount || 0).toString());
+        const variance = countedTotal.minus(recordedTotal);
+
+        const { count } = await tx.cashCollectionSession.updateMany({
+          where: { id: sessionId, status: 'OPEN' },
+          data: {
+            status: 'COUNTERSIGNED',
+            recordedTotal: new Prisma.Decimal(recordedTotal.toString()),
+            countedTotal: new Prisma.Decimal(countedTotal.toString()),
+            variance: new Prisma.Decimal(variance.toString()),
+            varianceFlagged: !variance.isZero(),
+            countersignedById: userId,
+            countersignedAt: new Date(),
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Only an open session can be countersigned');
+        }
+
+        const updated = await tx.cashCollectionSession.findUniqueOrThrow({
+          where: { id: sessionId },
+        });
+        return { updated, recordedTotal, variance };
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'CASH_SESSION_COUNTERSIGNED',
+      resourceType: 'CASH_SESSION',
+      resourceId: sessionId,
+      groupId,
+      beforeState: { status: 'OPEN' },
+      afterState: {
+        status: 'COUNTERSIGNED',
+        recordedTotal: recordedTotal.toString(),
+        countedTotal: countedTotal.toString(),
+        variance: variance.toString(),
+      },
+      outcome: 'SUCCESS',
+    });
+
+    if (!variance.isZero()) {
+      await this.flagVariance(updated, recordedTotal, countedTotal, variance);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Close a countersigned session. Each entry becomes an approved cash
+   * contribution and the session total is credited to the ledger as a
+   * single entry, posted to each member's sub-ledger, in one transaction.
+   */
+  async closeSession(groupId: string, sessionId: string, userId: string) {
+    const session = await this.findSession(groupId, sessionId);
+    assertStatus(session, 'COUNTERSIGNED', 'The session must be countersigned before it is closed');
+    await this.assertAcceptingContributions(groupId);
+
+    const entries = await this.prisma.cashCollectionEntry.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'asc' },
+    });
+    const meetingDate = session.meetingDate.toISOString().slice(0, 10);
+
+    // One posting per member, however many periods they paid for
+    const postings = new Map<string, Decimal>();
+    for (const entry of entries) {
+      const amount = postings.get(entry.memberId) || new Decimal(0);
+      postings.set(entry.memberId, amount.plus(entry.amount.toString()));
+    }
+
+    const closed = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.cashCollectionSession.updateMany({
+          where: { id: sessionId, status: 'COUNTERSIGNED' },
+          data: { status: 'CLOSED', closedById: userId, closedAt: new Date() },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Cash session was already closed');
+        }
+
+        const approvedAt = new Date();
+        for (const entry of entries) {
+          const contribution = await tx.contribution.create({
+            data: {
+              groupId,
+              memberId: entry.memberId,
+              amount: entry.amount,
+              periodStart: entry.periodStart,
+              periodEnd: monthEnd(entry.periodStart),
+              paymentMethod: 'CASH',
+              status: 'APPROVED',
+              approvedById: session.countersignedById,
+              approvedAt,
+              creditRemaining: entry.amount,
+              notes: `Cash collected at the meeting on ${meetingDate}`,
+            },
+          });
+
+          await tx.cashCollectionEntry.update({
+            where: { id: entry.id },
+            data: { contributionId: contribution.id },
+          });
+        }
+
+        const { entry: ledgerEntry } = await this.ledgerService.appendEntry(tx, {
+          groupId,
+          entryType: 'CONTRIBUTION_CREDIT',
+          amount: session.recordedTotal.toString(),
+          referenceType: 'CASH_SESSION',
+          referenceId: sessionId,
+          description: `Cash contributions collected at the meeting on ${meetingDate}`,
+          metadata: {
+            contributionCount: entries.length,
+            countedTotal: session.countedTotal?.toString(),
+            variance: session.variance?.toString(),
+          },
+          createdById: userId,
+          memberPostings: [...postings].map(([memberId, amount]) => ({ memberId, amount })),
+        });
+
+        return tx.cashCollectionSession.update({
+          where: { id: sessionId },
+          data: { ledgerEntryId: ledgerEntry.id },
+        });
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'CASH_SESSION_CLOSED',
+      resourceType: 'CASH_SESSION',
+      resourceId: sessionId,
+      groupId,
+      beforeState: { status: 'COUNTERSIGNED' },
+      afterState: {
+        status: 'CLOSED',
+        contributionCount: entries.length,
+        recordedTotal: session.recordedTotal.toString(),
+        ledgerEntryId: closed.ledgerEntryId,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    for (const memberId of postings.keys()) {
+      try {
+        await this.contributionsService.applyCredit(groupId, memberId, new Date(), userId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to apply credit for member ${memberId} in group ${groupId}`,
+          error,
+        );
+      }
+    }
+
+    return closed;
+  }
+
+  async cancelSession(
+    groupId: string,
+    sessionId: string,
+    dto: CancelCashSessionDto,
+    userId: string,
+  ) {
+    const session = await this.findSession(groupId, sessionId);
+    if (!['OPEN', 'COUNTERSIGNED'].includes(session.status)) {
+      throw new BadRequestException(`Cash session is already ${session.status.toLowerCase()}`);
+    }
+
+    const { count } = await this.prisma.cashCollectionSession.updateMany({
+      where: { id: sessionId, status: { in: ['OPEN', 'COUNTERSIGNED'] } },
+      data: {
+        status: 'CANCELLED',
+        notes: session.notes
+          ? `${session.notes}\n[Cancelled]: ${dto.reason}`
+          : `[Cancelled]: ${dto.reason}`,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Cash session has already been closed or cancelled');
+    }
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'CASH_SESSION_CANCELLED',
+      resourceType: 'CASH_SESSION',
+      resourceId: sessionId,
+      groupId,
+      beforeState: { status: session.status },
+      afterState: { status: 'CANCELLED', reason: dto.reason },
+      outcome: 'SUCCESS',
+    });
+
+    return this.prisma.cashCollectionSession.findUniqueOrThrow({ where: { id: sessionId } });
+  }
+
+  private async findSession(groupId: string, sessionId: string) {
+    const session = await this.prisma.cashCollectionSession.findFirst({
+      where: { id: sessionId, groupId },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Cash session not found');
+    }
+
+    return session;
+  }
+
+  private async assertAcceptingContributions(groupId: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, deletedAt: null },
+      select: { status: true },
+    });
+
+    if (!group || group.status !== 'ACTIVE') {
+      throw new BadRequestException('This group is not accepting contributions');
+    }
+  }
+
+  /**
+   * Hold the session open for the rest of the transaction, so it cannot be
+   * countersigned, closed or cancelled while its entries change
+   */
+  private async lockOpenSession(
+    tx: Prisma.TransactionClient,
+    sessionId: string,
+    message: string,
+  ): Promise<void> {
+    const { count } = await tx.cashCollectionSession.updateMany({
+      where: { id: sessionId, status: 'OPEN' },
+      data: { updatedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException(message);
+    }
+  }
+
+  private async updateRecordedTotal(
+    tx: Prisma.TransactionClient,
+    sessionId: string,
+  ): Promise<Prisma.Decimal> {
+    const recorded = await tx.cashCollectionEntry.aggregate({
+      where: { sessionId },
+      _sum: { amount: true },
+    });
+    const recordedTotal = recorded._sum.amount || new Prisma.Decimal(0);
+
+    await tx.cashCollectionSession.update({
+      where: { id: sessionId },
+      data: { recordedTotal },
+    });
+
+    return recordedTotal;
+  }
+
+  private async flagVariance(
+    session: CashCollectionSession,
+    recordedTotal: Decimal,
+    countedTotal: Decimal,
+    variance: Decimal,
+  ) {
+    const leaders = await this.prisma.groupMember.findMany({
+      where: {
+        groupId: session.groupId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        role: { in: ['TREASURER', 'CHAIRPERSON'] },
+      },
+      select: { userId: true },
+    });
+
+    const meetingDate = session.meetingDate.toISOString().slice(0, 10);
+    await this.notificationsService.sendBulk({
+      userIds: leaders.map((l) => l.userId),
+      type: 'CASH_SESSION_VARIANCE',
+      channels: ['IN_APP', 'EMAIL'],
+      title: 'Cash count does not match',
+      body:
+        `The cash counted for the meeting on ${meetingDate} was ${countedTotal.toFixed(2)} ` +
+        `but ${recordedTotal.toFixed(2)} was recorded against members, ` +
+        `${variance.isNegative() ? 'a shortfall' : 'a surplus'} of ${variance.abs().toFixed(2)}.`,
+      data: {
+        sessionId: session.id,
+        recordedTotal: recordedTotal.toFixed(2),
+        countedTotal: countedTotal.toFixed(2),
+        variance: variance.toFixed(2),
+      },
+      groupId: session.groupId,
+    });
+  }
+}
+
+function assertStatus(session: CashCollectionSession, status: string, message: string) {
+  if (session.status !== status) {
+    throw new BadRequestException(message);
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function monthEnd(periodStart: Date): Date {
+  return new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 0));
+}
@@ -0,0 +1,57 @@
+import {
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class OpenCashSessionDto {
+  @ApiPropertyOptional({ example: '2026-04-25', description: 'Today when omitted' })
+  @IsOptional()
+  @IsDateString()
+  meetingDate?: string;
+
+  @ApiPropertyOptional({ example: 'April meeting at the community hall' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class RecordCashEntryDto {
+  @ApiProperty({ description: 'User ID of the member who paid' })
+  @IsUUID()
+  memberId: string;
+
+  @ApiProperty({ example: 500, description: 'Cash received from the member' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiPropertyOptional({
+    example: '2026-04',
+    description: 'Contribution period paid for; the meeting month when omitted',
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Period must be in YYYY-MM format' })
+  period?: string;
+}
+
+export class CountersignCashSessionDto {
+  @ApiProperty({ example: 12500, description: 'Cash counted by the countersigning officer' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  countedTotal: number;
+}
+
+export class CancelCashSessionDto {
+  @ApiProperty({ example: 'Meeting postponed' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
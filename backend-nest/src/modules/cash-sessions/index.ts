@@ -0,0 +1,3 @@
+export * from './cash-sessions.module';
+export * from './cash-sessions.service';
+export * from './cash-sessions.controller';
@@ -0,0 +1,80 @@
+import { Decimal } from 'decimal.js';
+import { planAllocations } from './contribution-allocation';
+
+const month = (m: string) => new Date(`${m}-01T00:00:00Z`);
+
+const summarise = (plan: ReturnType<typeof planAllocations>) =>
+  plan.allocations.map((a) => [
+    a.contributionId,
+    a.periodStart.toISOString().slice(0, 7),
+    a.amount.toString(),
+  ]);
+
+describe('planAllocations', () => {
+  it('should add instalments up to the period obligation', () => {
+    const plan = planAllocations(
+      [
+        { contributionId: 'c1', periodStart: month('2026-01'), available: new Decimal(200) },
+        { contributionId: 'c2', periodStart: month('2026-01'), available: new Decimal(300) },
+      ],
+      [{ periodStart: month('2026-01'), outstanding: new Decimal(500) }],
+    );
+
+    expect(summarise(plan)).toEqual([
+      ['c1', '2026-01', '200'],
+      ['c2', '2026-01', '300'],
+    ]);
+    expect(plan.remaining.get('c1')!.toString()).toBe('0');
+    expect(plan.remaining.get('c2')!.toString()).toBe('0');
+  });
+
+  it('should carry an overpayment forward to later periods and keep the rest as credit', () => {
+    const plan = planAllocations(
+      [{ contributionId: 'c1', periodStart: month('2026-01'), available: new Decimal(1300) }],
+      [
+        { periodStart: month('2026-02'), outstanding: new Decimal(500) },
+        { periodStart: month('2026-01'), outstanding: new Decimal(500) },
+      ],
+    );
+
+    expect(summarise(plan)).toEqual([
+      ['c1', '2026-01', '500'],
+      ['c1', '2026-02', '500'],
+    ]);
+    expect(plan.remaining.get('c1')!.toString()).toBe('300');
+  });
+
+  it('should never pay a period before the contribution was made for', () => {
+    const plan = planAllocations(
+      [{ contributionId: 'c1', periodStart: month('2026-03'), available: new Decimal(700) }],
+      [
+        { periodStart: month('2026-02'), outstanding: new Decimal(500) },
+        { periodStart: month('2026-03'), outstanding: new Decimal(200) },
+      ],
+    );
+
+    expect(summarise(plan)).toEqual([['c1', '2026-03', '200']]);
+    expect(plan.remaining.get('c1')!.toString()).toBe('500');
+  });
+
+  it('should use older credit before newer and skip periods already paid', () => {
+    const plan = planAllocations(
+      [
+        { contributionId: 'old', periodStart: month('2026-01'), available: new Decimal(300) },
+        { contributionId: 'new', periodStart: month('2026-02'), available: new Decimal(500) },
+      ],
+      [
+        { periodStart: month('2026-01'), outstanding: new Decimal(0) },
+        { periodStart: month('2026-02'), outstanding: new Decimal(500) },
+        { periodStart: month('2026-03'), outstanding: new Decimal(500) },
+      ],
+    );
+
+    expect(summarise(plan)).toEqual([
+      ['old', '2026-02', '300'],
+      ['new', '2026-02', '200'],
+      ['new', '2026-03', '300'],
+    ]);
+    expect(plan.remaining.get('new')!.toString()).toBe('0');
+  });
+});
@@ -0,0 +1,70 @@
+import { Decimal } from 'decimal.js';
+
+export interface AllocationSource {
+  contributionId: string;
+  // The period the contribution was made for
+  periodStart: Date;
+  // Approved amount not yet allocated
+  available: Decimal;
+}
+
+export interface AllocationPeriod {
+  periodStart: Date;
+  // What is still owed for the period
+  outstanding: Decimal;
+}
+
+export interface PlannedAllocation {
+  contributionId: string;
+  periodStart: Date;
+  amount: Decimal;
+}
+
+export interface AllocationPlan {
+  allocations: PlannedAllocation[];
+  // What each source has left over as credit
+  remaining: Map<string, Decimal>;
+}
+
+/**
+ * Spread contributions over the periods they pay for. Sources are used in
+ * the order given, oldest first. Each pays its own period first and then
+ * later periods in order, never an earlier one, so paying ahead does not
+ * quietly settle old arrears. Whatever cannot be placed is left as credit.
+ */
+export function planAllocations(
+  sources: AllocationSource[],
+  periods: AllocationPeriod[],
+): AllocationPlan {
+  const outstanding = [...periods]
+    .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime())
+    .map((p) => ({ periodStart: p.periodStart, outstanding: p.outstanding }));
+  const allocations: PlannedAllocation[] = [];
+  const remaining = new Map<string, Decimal>();
+
+  for (const source of sources) {
+    let available = source.available;
+
+    for (const period of outstanding) {
+      if (available.lessThanOrEqualTo(0)) {
+        break;
+      }
+      if (period.periodStart < source.periodStart || period.outstanding.lessThanOrEqualTo(0)) {
+        continue;
+      }
+
+      const amount = Decimal.min(available, period.outstanding);
+      allocations.push({
+        contributionId: source.contributionId,
+        periodStart: period.periodStart,
+        amount,
+      });
+      period.outstanding = period.outstanding.minus(amount);
+      available = available.minus(amount);
+    }
+
+    remaining.set(source.contributionId, available);
+  }
+
+  return { allocations, remaining };
+}
@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { ContributionsBulkService } from './contributions-bulk.service';
+import { ContributionsService } from './contributions.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+describe('ContributionsBulkService', () => {
+  let service: ContributionsBulkService;
+
+  const mockPrismaService = {
+    groupMember: {
+      findFirst: jest.fn(),
+    },
+    contribution: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    appendContributionCredit: jest.fn(),
+  };
+
+  const mockContributionsService = {
+    applyCredit: jest.fn(),
+  };
+
+  const contribution = (id: string, memberId: string, status = 'PENDING') => ({
+    id,
+    groupId: 'group-1',
+    memberId,
+    amount: new Prisma.Decimal(500),
+    periodStart: new Date('2026-03-01T00:00:00Z'),
+    periodEnd: new Date('2026-03-31T00:00:00Z'),
+    status,
+    notes: null,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContributionsBulkService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: ContributionsService, useValue: mockContributionsService },
+      ],
+    }).compile();
+
+    service = module.get<ContributionsBulkService>(ContributionsBulkService);
+
+    jest.clearAllMocks();
+    mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'TREASURER' });
+    mockPrismaService.contribution.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.$transaction.mockImplementation((fn) => fn(mockPrismaService));
+  });
+
+  describe('approveMany', () => {
+    it('should credit every pending contribution in one transaction with running balances', async () => {
+      // Returned in submission order
+      mockPrismaService.contribution.findMany.mockResolvedValue([
+        contribution('c-2', 'user-2'),
+        contribution('c-1', 'user-1'),
+      ]);
+      mockLedgerService.appendContributionCredit
+        .mockResolvedValueOnce({ entry: {}, newBalance: new Decimal(10500) })
+        .mockResolvedValueOnce({ entry: {}, newBalance: new Decimal(11000) });
+
+      const result = await service.approveMany(
+        'group-1',
+        { contributionIds: ['c-1', 'c-2'] },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockLedgerService.appendContributionCredit.mock.calls.map((c) => c[2])).toEqual([
+        'c-2',
+        'c-1',
+      ]);
+      expect(result).toEqual({
+        succeeded: 2,
+        failed: 0,
+        results: [
+          { contributionId: 'c-1', outcome: 'APPROVED', balanceAfter: '11000.00' },
+          { contributionId: 'c-2', outcome: 'APPROVED', balanceAfter: '10500.00' },
+        ],
+      });
+      expect(mockAuditService.log).toHaveBeenCalledTimes(2);
+      expect(mockContributionsService.applyCredit).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report contributions that cannot be approved without holding up the rest', async () => {
+      mockPrismaService.contribution.findMany.mockResolvedValue([
+        contribution('c-1', 'user-1'),
+        contribution('c-2', 'user-2', 'APPROVED'),
+        contribution('c-3', 'treasurer-1'),
+      ]);
+      mockLedgerService.appendContributionCredit.mockResolvedValue({
+        entry: {},
+        newBalance: new Decimal(10500),
+      });
+
+      const result = await service.approveMany(
+        'group-1',
+        { contributionIds: ['c-1', 'c-2', 'c-3', 'c-4'] },
+        'treasurer-1',
+      );
+
+      expect(result.succeeded).toBe(1);
+      expect(result.results.slice(1)).toEqual([
+        { contributionId: 'c-2', outcome: 'FAILED', error: 'Contribution is already approved' },
+        { contributionId: 'c-3', outcome: 'FAILED', error: 'Cannot approve your own contribution' },
+        { contributionId: 'c-4', outcome: 'FAILED', error: 'Contribution not found' },
+      ]);
+      expect(mockLedgerService.appendContributionCredit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not credit a contribution reviewed by someone else in the meantime', async () => {
+      mockPrismaService.contribution.findMany.mockResolvedValue([contribution('c-1', 'user-1')]);
+      mockPrismaService.contribution.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.approveMany(
+        'group-1',
+        { contributionIds: ['c-1'] },
+        'treasurer-1',
+      );
+
+      expect(result.results).toEqual([
+        { contributionId: 'c-1', outcome: 'FAILED', error: 'Contribution was already reviewed' },
+      ]);
+      expect(mockLedgerService.appendContributionCredit).not.toHaveBeenCalled();
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+
+    it('should only let a treasurer or chairperson approve', async () => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.approveMany('group-1', { contributionIds: ['c-1'] }, 'user-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectMany', () => {
+    it('should reject pending contributions with the given reason', async () => {
+      mockPrismaService.contribution.findMany.mockResolvedValue([
+        contribution('c-1', 'user-1'),
+        contribution('c-2', 'user-2', 'REJECTED'),
+      ]);
+
+      const result = await service.rejectMany(
+        'group-1',
+        { contributionIds: ['c-1', 'c-2'], reason: 'No deposit on the statement' },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.contribution.updateMany).toHaveBeenCalledWith({
+        where: { id: 'c-1', status: 'PENDING', deletedAt: null },
+        data: { status: 'REJECTED', rejectionReason: 'No deposit on the statement' },
+      });
+      expect(result).toEqual({
+        succeeded: 1,
+        failed: 1,
+        results: [
+          { contributionId: 'c-1', outcome: 'REJECTED' },
+          { contributionId: 'c-2', outcome: 'FAILED', error: 'Contribution is already rejected' },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { Injectable, Logger, ForbiddenException } from '@nestjs/common';
+import { Contribution, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { ContributionsService } from './contributions.service';
+import {
+  BulkApproveContributionsDto,
+  BulkRejectContributionsDto,
+} from './dto/bulk-review-contributions.dto';
+
+// A month-end batch of a few hundred approvals outlasts Prisma's 5s default
+const BULK_TRANSACTION_TIMEOUT_MS = 60_000;
+
+export interface BulkReviewResult {
+  contributionId: string;
+  outcome: 'APPROVED' | 'REJECTED' | 'FAILED';
+  error?: string;
+  // Pot balance straight after this contribution was credited
+  balanceAfter?: string;
+}
+
+@Injectable()
+export class ContributionsBulkService {
+  private readonly logger = new Logger(ContributionsBulkService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+    private contributionsService: ContributionsService,
+  ) {}
+
+  /**
+   * Approve a batch of pending contributions. Each contribution is checked
+   * on its own and reported as failed if it cannot be approved; the rest are
+   * approved and credited to the ledger in one transaction, in the order
+   * they were submitted, so each entry's balance follows on from the last.
+   */
+  async approveMany(groupId: string, dto: BulkApproveContributionsDto, approverId: string) {
+    await this.assertReviewer(groupId, approverId, 'approve');
+
+    const { ids, pending, results } = await this.checkPending(
+      groupId,
+      dto.contributionIds,
+      approverId,
+    );
+
+    const approved: Contribution[] = [];
+    if (pending.length) {
+      await this.prisma.$transaction(
+        async (tx) => {
+          const approvedAt = new Date();
+
+          for (const contribution of pending) {
+            // Someone may have reviewed it since we looked
+            const { count } = await tx.contribution.updateMany({
+              where: { id: contribution.id, status: 'PENDING', deletedAt: null },
+              data: {
+                status: 'APPROVED',
+                approvedById: approverId,
+                approvedAt,
+                creditRemaining: contribution.amount,
+                notes: dto.notes
+                  ? `${contribution.notes || ''}\n[Approval Note]: ${dto.notes}`
+                  : contribution.notes,
+              },
+            });
+            if (count === 0) {
+              results.set(
+                contribution.id,
+                failed(contribution.id, 'Contribution was already reviewed'),
+              );
+              continue;
+            }
+
+            const { newBalance } = await this.ledgerService.appendContributionCredit(
+              tx,
+              groupId,
+              contribution.id,
+              contribution.amount,
+              contribution.memberId,
+              describePeriod(contribution),
+              approverId,
+            );
+
+            approved.push(contribution);
+            results.set(contribution.id, {
+              contributionId: contribution.id,
+              outcome: 'APPROVED',
+              balanceAfter: newBalance.toFixed(2),
+            });
+          }
+        },
+        {
+          isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+          timeout: BULK_TRANSACTION_TIMEOUT_MS,
+        },
+      );
+    }
+
+    for (const contribution of approved) {
+      await this.auditService.log({
+        actorId: approverId,
+        actorType: 'USER',
+        action: 'CONTRIBUTION_APPROVED',
+        resourceType: 'CONTRIBUTION',
+        resourceId: contribution.id,
+        groupId,
+        beforeState: { status: 'PENDING' },
+        afterState: {
+          status: 'APPROVED',
+          amount: contribution.amount.toString(),
+          memberId: contribution.memberId,
+          bulk: true,
+        },
+        outcome: 'SUCCESS',
+      });
+    }
+
+    // The approvals stand even if credit cannot be placed now; the monthly
+    // credit job picks up whatever is left
+    for (const memberId of new Set(approved.map((c) => c.memberId))) {
+      try {
+        await this.contributionsService.applyCredit(groupId, memberId, new Date(), approverId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to apply credit for member ${memberId} in group ${groupId}`,
+          error,
+        );
+      }
+    }
+
+    return summarise(ids, results, 'APPROVED');
+  }
+
+  /**
+   * Reject a batch of pending contributions with one reason. Nothing is
+   * posted to the ledger, so each rejection stands on its own.
+   */
+  async rejectMany(groupId: string, dto: BulkRejectContributionsDto, approverId: string) {
+    await this.assertReviewer(groupId, approverId, 'reject');
+
+    const { ids, pending, results } = await this.checkPending(groupId, dto.contributionIds);
+
+    for (const contribution of pending) {
+      const { count } = await this.prisma.contribution.updateMany({
+        where: { id: contribution.id, status: 'PENDING', deletedAt: null },
+        data: {
+          status: 'REJECTED',
+          rejectionReason: dto.reason,
+        },
+      });
+      if (count === 0) {
+        results.set(contribution.id, failed(contribution.id, 'Contribution was already reviewed'));
+        continue;
+      }
+
+      results.set(contribution.id, { contributionId: contribution.id, outcome: 'REJECTED' });
+
+      await this.auditService.log({
+        actorId: approverId,
+        actorType: 'USER',
+        action: 'CONTRIBUTION_REJECTED',
+        resourceType: 'CONTRIBUTION',
+        resourceId: contribution.id,
+        groupId,
+        beforeState: { status: 'PENDING' },
+        afterState: {
+          status: 'REJECTED',
+          reason: dto.reason,
+          bulk: true,
+        },
+        outcome: 'SUCCESS',
+      });
+    }
+
+    return summarise(ids, results, 'REJECTED');
+  }
+
+  private async assertReviewer(groupId: string, userId: string, action: string) {
+    const membership = await this.prisma.groupMember.findFirst({
+      where: {
+        groupId,
+        userId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        role: { in: ['TREASURER', 'CHAIRPERSON'] },
+      },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException(`Only treasurer or chairperson can ${action} contributions`);
+    }
+  }
+
+  /**
+   * Split the requested contributions into those still pending review,
+   * oldest submission first, and failures for the rest. Reviewers may not
+   * approve their own contributions.
+   */
+  private async checkPending(groupId: string, contributionIds: string[], approverId?: string) {
+    const ids = [...new Set(contributionIds)];
+    const contributions = await this.prisma.contribution.findMany({
+      where: { id: { in: ids }, groupId, deletedAt: null },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+    const found = new Set(contributions.map((c) => c.id));
+
+    const results = new Map<string, BulkReviewResult>();
+    for (const id of ids) {
+      if (!found.has(id)) {
+        results.set(id, failed(id, 'Contribution not found'));
+      }
+    }
+
+    const pending: Contribution[] = [];
+    for (const contribution of contributions) {
+      if (contribution.status !== 'PENDING') {
+        results.set(
+          contribution.id,
+          failed(contribution.id, `Contribution is already ${contribution.status.toLowerCase()}`),
+        );
+      } else if (approverId && contribution.memberId === approverId) {
+        results.set(
+          contribution.id,
+          failed(contribution.id, 'Cannot approve your own contribution'),
+        );
+      } else {
+        pending.push(contribution);
+      }
+    }
+
+    return { ids, pending, results };
+  }
+}
+
+function failed(contributionId: string, error: string): BulkReviewResult {
+  return { contributionId, outcome: 'FAILED', error };
+}
+
+function describePeriod(contribution: Contribution): string {
+  return `${contribution.periodStart.toISOString().split('T')[0]} to ${contribution.periodEnd.toISOString().split('T')[0]}`;
+}
+
+function summarise(
+  ids: string[],
+  results: Map<string, BulkReviewResult>,
+  outcome: BulkReviewResult['outcome'],
+) {
+  const ordered = ids.map((id) => results.get(id)!);
+
+  return {
+    succeeded: ordered.filter((r) => r.outcome === outcome).length,
+    failed: ordered.filter((r) => r.outcome === 'FAILED').length,
+    results: ordered,
+  };
+}
@@ -11,8 +11,13 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { ContributionsService } from './contributions.service';
+import { ContributionsBulkService } from './contributions-bulk.service';
 import { CreateContributionDto } from './dto/create-contribution.dto';
 import { ApproveContributionDto, RejectContributionDto } from './dto/approve-contribution.dto';
+import {
+  BulkApproveContributionsDto,
+  BulkRejectContributionsDto,
+} from './dto/bulk-review-contributions.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { TreasurerOrHigher, AnyMember } from '../auth/decorators/roles.decorator';
@@ -24,7 +29,10 @@ import { AuthUser } from '../auth/auth.service';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class ContributionsController {
-  constructor(private readonly contributionsService: ContributionsService) {}
+  constructor(
+    private readonly contributionsService: ContributionsService,
+    private readonly contributionsBulkService: ContributionsBulkService,
+  ) {}
 
   @Post('groups/:groupId/contributions')
   @UseGuards(RolesGuard)
@@ -69,6 +77,32 @@ export class ContributionsController {
     });
   }
 
+  @Post('groups/:groupId/contributions/bulk-approve')
+  @UseGuards(RolesGuard)
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Approve several pending contributions in one ledger transaction' })
+  @ApiResponse({ status: 201, description: 'Result for each contribution' })
+  bulkApprove(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: BulkApproveContributionsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.contributionsBulkService.approveMany(groupId, dto, user.id);
+  }
+
+  @Post('groups/:groupId/contributions/bulk-reject')
+  @UseGuards(RolesGuard)
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Reject several pending contributions' })
+  @ApiResponse({ status: 201, description: 'Result for each contribution' })
+  bulkReject(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: BulkRejectContributionsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.contributionsBulkService.rejectMany(groupId, dto, user.id);
+  }
+
   @Get('contributions/:id')
   @ApiOperation({ summary: 'Get contribution details' })
   @ApiResponse({ status: 200, description: 'Contribution details' })
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ContributionsService } from './contributions.service';
+import { ContributionsBulkService } from './contributions-bulk.service';
 import { ContributionsController } from './contributions.controller';
 import { LedgerModule } from '../ledger/ledger.module';
 import { DocumentsModule } from '../documents/documents.module';
@@ -7,7 +8,7 @@ import { DocumentsModule } from '../documents/documents.module';
 @Module({
   imports: [LedgerModule, DocumentsModule],
   controllers: [ContributionsController],
-  providers: [ContributionsService],
+  providers: [ContributionsService, ContributionsBulkService],
   exports: [ContributionsService],
 })
 export class ContributionsModule {}
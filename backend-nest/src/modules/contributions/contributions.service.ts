@@ -1,18 +1,53 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
   ForbiddenException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { AuditService } from '../audit/audit.service';
 import { LedgerService } from '../ledger/ledger.service';
+import { listContributionPeriods } from '../savings/contribution-compliance';
 import { CreateContributionDto } from './dto/create-contribution.dto';
 import { ApproveContributionDto, RejectContributionDto } from './dto/approve-contribution.dto';
+import { AllocationPeriod, planAllocations } from './contribution-allocation';
+import { SIMILAR_IMAGE_MAX_DISTANCE, hammingDistance } from '../documents/document-fingerprint';
+import { contributionMismatches } from '../documents/extraction-checks';
 import { Decimal } from 'decimal.js';
 
+export interface PopReuse {
+  contributionId: string;
+  memberId: string;
+  memberName: string;
+  periodStart: Date;
+  status: string;
+  submittedAt: Date;
+  // EXACT: the same file; SIMILAR: the same picture re-saved or re-photographed
+  match: 'EXACT' | 'SIMILAR';
+}
+
+interface PopFingerprint {
+  id: string;
+  contentHash: string | null;
+  perceptualHash: string | null;
+}
+
+interface PopReuseCandidate {
+  id: string;
+  memberId: string;
+  periodStart: Date;
+  status: string;
+  createdAt: Date;
+  member: { firstName: string; lastName: string };
+  popDocument: PopFingerprint | null;
+}
+
 @Injectable()
 export class ContributionsService {
+  private readonly logger = new Logger(ContributionsService.name);
+
   constructor(
     private prisma: PrismaService,
     private auditService: AuditService,
@@ -34,6 +69,24 @@ export class ContributionsService {
       throw new ForbiddenException('You are not a member of this group');
     }
 
+    // Frozen (being dissolved) and archived groups take no new money
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, deletedAt: null },
+      select: { status: true },
+    });
+
+    if (!group || group.status !== 'ACTIVE') {
+      throw new BadRequestException('This group is not accepting contributions');
+    }
+
+    const leaving = await this.prisma.memberExitSettlement.findFirst({
+      where: { groupId, memberId: userId, status: { in: ['PENDING', 'PAYOUT_RAISED'] } },
+    });
+
+    if (leaving) {
+      throw new BadRequestException('You are leaving this group and cannot contribute');
+    }
+
     // Check for idempotency
     if (dto.idempotencyKey) {
       const existing = await this.prisma.contribution.findFirst({
@@ -44,40 +97,28 @@ export class ContributionsService {
       }
     }
 
-    // Check for duplicate contribution (same member, same period, approved)
-    const existingApproved = await this.prisma.contribution.findFirst({
-      where: {
-        groupId,
-        memberId: userId,
-        periodStart: new Date(dto.periodStart),
-        status: 'APPROVED',
-        deletedAt: null,
-      },
+    // Instalments are accepted until the period's obligation has been met
+    const rules = await this.prisma.savingsRule.findUnique({
+      where: { groupId },
+      select: { monthlyAmount: true },
     });
 
-    if (existingApproved) {
-      throw new BadRequestException(
-        'You already have an approved contribution for this period',
-      );
-    }
-
-    // Check for pending contribution
-    const existingPending = await this.prisma.contribution.findFirst({
-      where: {
-        groupId,
-        memberId: userId,
-        periodStart: new Date(dto.periodStart),
-        status: 'PENDING',
-        deletedAt: null,
-      },
-    });
+    if (rules) {
+      const allocated = await this.prisma.contributionAllocation.aggregate({
+        where: { groupId, memberId: userId, periodStart: monthStart(new Date(dto.periodStart)) },
+        _sum: { amount: true },
+      });
 
-    if (existingPending) {
-      throw new BadRequestException(
-        'You already have a pending contribution for this period',
-      );
+      const paid = new Decimal(allocated._sum.amount?.toString() || 0);
+      if (paid.greaterThanOrEqualTo(rules.monthlyAmount.toString())) {
+        throw new BadRequestException('This period has already been paid in full');
+      }
     }
 
+    // A proof of payment already used for another contribution goes to the
+    // reviewers flagged rather than being refused outright
+    const popReuse = dto.popDocumentId ? await this.findPopReuse(groupId, dto.popDocumentId) : [];
+
     const contribution = await this.prisma.contribution.create({
       data: {
         groupId,
@@ -88,9 +129,11 @@ export class ContributionsService {
         periodEnd: new Date(dto.periodEnd),
         paymentMethod: dto.paymentMethod,
         popDocumentId: dto.popDocumentId,
+        externalReference: dto.externalReference,
         notes: dto.notes,
         idempotencyKey: dto.idempotencyKey,
         status: 'PENDING',
+        popFlagged: popReuse.length > 0,
       },
       include: {
         member: {
@@ -115,7 +158,23 @@ export class ContributionsService {
       outcome: 'SUCCESS',
     });
 
-    return contribution;
+    if (popReuse.length) {
+      await this.auditService.log({
+        actorId: userId,
+        actorType: 'USER',
+        action: 'CONTRIBUTION_POP_REUSED',
+        resourceType: 'CONTRIBUTION',
+        resourceId: contribution.id,
+        groupId,
+        afterState: {
+          popDocumentId: dto.popDocumentId,
+          matches: popReuse.map((r) => ({ contributionId: r.contributionId, match: r.match })),
+        },
+        outcome: 'SUCCESS',
+      });
+    }
+
+    return { ...contribution, popReuse };
   }
 
   async findAll(
@@ -148,7 +207,7 @@ export class ContributionsService {
             select: { id: true, firstName: true, lastName: true, email: true },
           },
           popDocument: {
-            select: { id: true, filename: true, mimeType: true },
+            select: { id: true, filename: true, mimeType: true, extraction: true },
           },
           approvedBy: {
             select: { id: true, firstName: true, lastName: true },
@@ -161,7 +220,16 @@ export class ContributionsService {
       this.prisma.contribution.count({ where }),
     ]);
 
-    return { contributions, total, limit, offset };
+    // Reviewers see where a flagged proof of payment was used before, and
+    // where it disagrees with what the member entered
+    const popReuse = await this.findPopReuseForPage(groupId, contributions);
+    const withReuse = contributions.map((c) => ({
+      ...c,
+      popReuse: popReuse.get(c.id) || [],
+      popMismatches: contributionMismatches(c.popDocument?.extraction, c),
+    }));
+
+    return { contributions: withReuse, total, limit, offset };
   }
 
   async findOne(id: string) {
@@ -171,7 +239,9 @@ export class ContributionsService {
         member: {
           select: { id: true, firstName: true, lastName: true, email: true, phone: true },
         },
-        popDocument: true,
+        popDocument: {
+          include: { extraction: true },
+        },
         approvedBy: {
           select: { id: true, firstName: true, lastName: true },
         },
@@ -185,7 +255,16 @@ export class ContributionsService {
       throw new NotFoundException('Contribution not found');
     }
 
-    return contribution;
+    const popReuse =
+      contribution.popFlagged && contribution.popDocumentId
+        ? await this.findPopReuse(contribution.groupId, contribution.popDocumentId, contribution.id)
+        : [];
+
+    return {
+      ...contribution,
+      popReuse,
+      popMismatches: contributionMismatches(contribution.popDocument?.extraction, contribution),
+    };
   }
 
   async approve(id: string, dto: ApproveContributionDto, approverId: string) {
@@ -236,6 +315,7 @@ export class ContributionsService {
         status: 'APPROVED',
         approvedById: approverId,
         approvedAt: new Date(),
+        creditRemaining: contribution.amount,
         notes: dto.notes ? `${contribution.notes || ''}\n[Approval Note]: ${dto.notes}` : contribution.notes,
       },
     });
@@ -267,9 +347,211 @@ export class ContributionsService {
       outcome: 'SUCCESS',
     });
 
+    await this.applyCredit(contribution.groupId, contribution.memberId, new Date(), approverId);
+
     return this.findOne(id);
   }
 
+  /**
+   * Allocate a member's unallocated contributions to the periods they pay
+   * for: each contribution's own period first, then later periods that have
+   * started by `asOf` and are still owed, skipping periods the member was
+   * excused from or not yet a member for. Whatever is left stays as credit
+   * until the next period starts. Groups without savings rules have no
+   * obligation to measure against, so contributions pay their own period.
+   */
+  async applyCredit(groupId: string, memberId: string, asOf: Date = new Date(), actorId?: string) {
+    const result = await this.prisma.$transaction(async (tx) => {
+      // One allocation run per member at a time, so two runs cannot spend
+      // the same credit; released when the transaction ends
+      const lockKey = `credit:${groupId}:${memberId}`;
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+
+      const [rules, membership, sources] = await Promise.all([
+        tx.savingsRule.findUnique({
+          where: { groupId },
+          select: { monthlyAmount: true, dueDay: true, gracePeriodDays: true },
+        }),
+        tx.groupMember.findFirst({
+          where: { groupId, userId: memberId },
+          select: { joinedAt: true },
+        }),
+        tx.contribution.findMany({
+          where: {
+            groupId,
+            memberId,
+            status: 'APPROVED',
+            deletedAt: null,
+            creditRemaining: { gt: 0 },
+          },
+          select: { id: true, periodStart: true, creditRemaining: true },
+          orderBy: [{ approvedAt: 'asc' }, { createdAt: 'asc' }],
+        }),
+      ]);
+
+      if (sources.length === 0) {
+        return null;
+      }
+
+      const available = sources.map((source) => ({
+        contributionId: source.id,
+        periodStart: monthStart(source.periodStart),
+        available: new Decimal(source.creditRemaining.toString()),
+      }));
+      const own = new Set(available.map((source) => source.periodStart.getTime()));
+
+      let periods: AllocationPeriod[];
+      if (!rules) {
+        periods = available.map((source) => ({
+          periodStart: source.periodStart,
+          outstanding: source.available,
+        }));
+      } else {
+        const from = available.reduce(
+          (min, source) => (source.periodStart < min ? source.periodStart : min),
+          available[0].periodStart,
+        );
+        const latestOwn = Math.max(...own);
+        const to = new Date(Math.max(latestOwn, monthStart(asOf).getTime()));
+
+        const [allocated, excusals] = await Promise.all([
+          tx.contributionAllocation.groupBy({
+            by: ['periodStart'],
+            where: { groupId, memberId, periodStart: { gte: from, lte: to } },
+            _sum: { amount: true },
+          }),
+          tx.contributionExcusal.findMany({
+            where: { groupId, memberId, periodStart: { gte: from, lte: to } },
+            select: { periodStart: true },
+          }),
+        ]);
+        const paid = new Map(
+          allocated.map((a) => [
+            a.periodStart.getTime(),
+            new Decimal(a._sum.amount?.toString() || 0),
+          ]),
+        );
+        const excused = new Set(excusals.map((e) => e.periodStart.getTime()));
+        const monthlyAmount = new Decimal(rules.monthlyAmount.toString());
+
+        periods = listContributionPeriods(rules, from, to)
+          .filter(
+            (period) =>
+              own.has(period.periodStart.getTime()) ||
+              (period.periodStart <= asOf &&
+                !excused.has(period.periodStart.getTime()) &&
+                (!membership || membership.joinedAt <= period.dueDate)),
+          )
+          .map((period) => ({
+            periodStart: period.periodStart,
+            outstanding: monthlyAmount.minus(paid.get(period.periodStart.getTime()) || 0),
+          }));
+      }
+
+      const plan = planAllocations(available, periods);
+
+      if (plan.allocations.length) {
+        await tx.contributionAllocation.createMany({
+          data: plan.allocations.map((allocation) => ({
+            groupId,
+            memberId,
+            contributionId: allocation.contributionId,
+            periodStart: allocation.periodStart,
+            amount: new Prisma.Decimal(allocation.amount.toString()),
+          })),
+        });
+      }
+
+      for (const source of available) {
+        const used = source.available.minus(plan.remaining.get(source.contributionId)!);
+        if (used.greaterThan(0)) {
+          const { count } = await tx.contribution.updateMany({
+            where: {
+              id: source.contributionId,
+              creditRemaining: { gte: new Prisma.Decimal(used.toString()) },
+            },
+            data: { creditRemaining: { decrement: new Prisma.Decimal(used.toString()) } },
+          });
+          if (count === 0) {
+            throw new BadRequestException('Contribution credit changed while it was being applied');
+          }
+        }
+      }
+
+      return { plan, available };
+    });
+
+    if (!result) {
+      return [];
+    }
+    const { plan, available } = result;
+
+    // Money carried forward from an earlier period is worth a trail
+    const carried = plan.allocations.filter((allocation) => {
+      const source = available.find((s) => s.contributionId === allocation.contributionId)!;
+      return allocation.periodStart.getTime() !== source.periodStart.getTime();
+    });
+
+    if (carried.length) {
+      await this.auditService.log({
+        actorId,
+        actorType: actorId ? 'USER' : 'SYSTEM',
+        action: 'CONTRIBUTION_CREDIT_APPLIED',
+        resourceType: 'CONTRIBUTION',
+        resourceId: carried[0].contributionId,
+        groupId,
+        afterState: {
+          memberId,
+          allocations: carried.map((allocation) => ({
+            contributionId: allocation.contributionId,
+            period: allocation.periodStart.toISOString().slice(0, 7),
+            amount: allocation.amount.toString(),
+          })),
+        },
+        outcome: 'SUCCESS',
+      });
+    }
+
+    return plan.allocations;
+  }
+
+  /**
+   * Apply every member's credit to periods that have started since it was
+   * paid. Called by the scheduled 'apply-contribution-credit' job at the
+   * start of each month.
+   */
+  async applyAllCredit(asOf: Date = new Date()) {
+    const holders = await this.prisma.contribution.findMany({
+      where: {
+        status: 'APPROVED',
+        deletedAt: null,
+        creditRemaining: { gt: 0 },
+        group: { status: 'ACTIVE', deletedAt: null },
+      },
+      distinct: ['groupId', 'memberId'],
+      select: { groupId: true, memberId: true },
+    });
+
+    let allocationCount = 0;
+    for (const holder of holders) {
+      try {
+        const allocations = await this.applyCredit(holder.groupId, holder.memberId, asOf);
+        allocationCount += allocations.length;
+      } catch (error) {
+        this.logger.error(
+          `Failed to apply credit for member ${holder.memberId} in group ${holder.groupId}`,
+          error,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Applied credit for ${holders.length} members in ${allocationCount} allocations`,
+    );
+
+    return { membersChecked: holders.length, allocationCount };
+  }
+
   async reject(id: string, dto: RejectContributionDto, approverId: string) {
     const contribution = await this.prisma.contribution.findFirst({
       where: { id, deletedAt: null },
@@ -380,8 +662,150 @@ export class ContributionsService {
         popDocument: {
           select: { id: true, filename: true },
         },
+        allocations: {
+          select: { periodStart: true, amount: true },
+          orderBy: { periodStart: 'asc' },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
   }
+
+  /**
+   * Other live contributions in the group whose proof of payment is the
+   * same file (EXACT) or looks like the same picture (SIMILAR), oldest first
+   */
+  private async findPopReuse(
+    groupId: string,
+    popDocumentId: string,
+    excludeContributionId?: string,
+  ): Promise<PopReuse[]> {
+    const document = await this.prisma.document.findFirst({
+      where: { id: popDocumentId, deletedAt: null },
+      select: { id: true, contentHash: true, perceptualHash: true },
+    });
+
+    if (!document) {
+      return [];
+    }
+
+    const candidates = await this.findPopReuseCandidates(groupId, {
+      ...(excludeContributionId && { id: { not: excludeContributionId } }),
+      popDocument: {
+        OR: [
+          { id: document.id },
+          ...(document.contentHash ? [{ contentHash: document.contentHash }] : []),
+          ...(document.perceptualHash ? [{ perceptualHash: { not: null } }] : []),
+        ],
+      },
+    });
+
+    return matchPopReuse(document, candidates);
+  }
+
+  /**
+   * findPopReuse for each flagged contribution on a page, loading the
+   * group's proofs of payment once and matching them in memory
+   */
+  private async findPopReuseForPage(
+    groupId: string,
+    contributions: { id: string; popFlagged: boolean; popDocumentId: string | null }[],
+  ): Promise<Map<string, PopReuse[]>> {
+    const reuse = new Map<string, PopReuse[]>();
+    const flagged = contributions.filter((c) => c.popFlagged && c.popDocumentId);
+    if (!flagged.length) {
+      return reuse;
+    }
+
+    const [documents, candidates] = await Promise.all([
+      this.prisma.document.findMany({
+        where: { id: { in: flagged.map((c) => c.popDocumentId!) }, deletedAt: null },
+        select: { id: true, contentHash: true, perceptualHash: true },
+      }),
+      this.findPopReuseCandidates(groupId, { popDocumentId: { not: null } }),
+    ]);
+
+    const documentsById = new Map(documents.map((d) => [d.id, d]));
+    for (const contribution of flagged) {
+      const document = documentsById.get(contribution.popDocumentId!);
+      if (document) {
+        reuse.set(
+          contribution.id,
+          matchPopReuse(
+            document,
+            candidates.filter((c) => c.id !== contribution.id),
+          ),
+        );
+      }
+    }
+
+    return reuse;
+  }
+
+  private findPopReuseCandidates(
+    groupId: string,
+    where: Prisma.ContributionWhereInput,
+  ): Promise<PopReuseCandidate[]> {
+    return this.prisma.contribution.findMany({
+      where: {
+        groupId,
+        deletedAt: null,
+        status: { in: ['PENDING', 'APPROVED'] },
+        ...where,
+      },
+      select: {
+        id: true,
+        memberId: true,
+        periodStart: true,
+        status: true,
+        createdAt: true,
+        member: { select: { firstName: true, lastName: true } },
+        popDocument: { select: { id: true, contentHash: true, perceptualHash: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
+
+/**
+ * The candidates whose proof of payment is the same file as the document
+ * (EXACT) or looks like the same picture (SIMILAR)
+ */
+function matchPopReuse(document: PopFingerprint, candidates: PopReuseCandidate[]): PopReuse[] {
+  const reuse: PopReuse[] = [];
+  for (const candidate of candidates) {
+    const pop = candidate.popDocument!;
+    let match: PopReuse['match'] | null = null;
+
+    if (
+      pop.id === document.id ||
+      (document.contentHash && pop.contentHash === document.contentHash)
+    ) {
+      match = 'EXACT';
+    } else if (
+      document.perceptualHash &&
+      pop.perceptualHash &&
+      hammingDistance(document.perceptualHash, pop.perceptualHash) <= SIMILAR_IMAGE_MAX_DISTANCE
+    ) {
+      match = 'SIMILAR';
+    }
+
+    if (match) {
+      reuse.push({
+        contributionId: candidate.id,
+        memberId: candidate.memberId,
+        memberName: `${candidate.member.firstName} ${candidate.member.lastName}`,
+        periodStart: candidate.periodStart,
+        status: candidate.status,
+        submittedAt: candidate.createdAt,
+        match,
+      });
+    }
+  }
+
+  return reuse;
+}
+
+function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
 }
@@ -0,0 +1,39 @@
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ArrayMinSize,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class BulkApproveContributionsDto {
+  @ApiProperty({ type: [String], description: 'Pending contributions to approve' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @IsUUID('4', { each: true })
+  contributionIds: string[];
+
+  @ApiPropertyOptional({ example: 'Matched to bank statement' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class BulkRejectContributionsDto {
+  @ApiProperty({ type: [String], description: 'Pending contributions to reject' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @IsUUID('4', { each: true })
+  contributionIds: string[];
+
+  @ApiProperty({ example: 'No matching deposit on the bank statement' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
@@ -40,6 +40,15 @@ export class CreateContributionDto {
   @IsUUID()
   popDocumentId?: string;
 
+  @ApiPropertyOptional({
+    example: 'MOYO JAN',
+    description: 'Reference used on the bank deposit, for statement reconciliation',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  externalReference?: string;
+
   @ApiPropertyOptional({ example: 'Monthly contribution for January' })
   @IsOptional()
   @IsString()
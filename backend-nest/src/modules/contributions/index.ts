@@ -1,3 +1,4 @@
 export * from './contributions.module';
 export * from './contributions.service';
+export * from './contributions-bulk.service';
 export * from './contributions.controller';
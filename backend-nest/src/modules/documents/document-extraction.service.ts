@@ -0,0 +1,109 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { DocumentsService } from './documents.service';
+import { S3Service } from './s3.service';
+import { OcrService } from './ocr.service';
+import { parseGroceryReceipt, parseProofOfPayment } from './document-text';
+import { suggestContribution, suggestPurchase } from './extraction-checks';
+
+@Injectable()
+export class DocumentExtractionService {
+  constructor(
+    private prisma: PrismaService,
+    private documentsService: DocumentsService,
+    private s3Service: S3Service,
+    private ocrService: OcrService,
+  ) {}
+
+  /**
+   * Run OCR over a queued document and store the fields found in its text.
+   * Engine errors are recorded and rethrown so the job is retried.
+   */
+  async extract(documentId: string) {
+    const extraction = await this.prisma.documentExtraction.findUnique({
+      where: { documentId },
+      include: { document: true },
+    });
+
+    if (!extraction || extraction.document.deletedAt || extraction.status === 'COMPLETED') {
+      return extraction;
+    }
+
+    const { document } = extraction;
+    let text: string | null;
+    try {
+      const file = await this.s3Service.getFile(document.storageKey);
+      text = await this.ocrService.recognise(file, document.mimeType);
+    } catch (error) {
+      await this.prisma.documentExtraction.update({
+        where: { documentId },
+        data: {
+          status: 'FAILED',
+          engine: this.ocrService.engine,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      throw error;
+    }
+
+    if (text === null) {
+      return this.prisma.documentExtraction.update({
+        where: { documentId },
+        data: { status: 'UNSUPPORTED', engine: this.ocrService.engine, completedAt: new Date() },
+      });
+    }
+
+    const fields =
+      document.type === 'GROCERY_RECEIPT' ? parseGroceryReceipt(text) : parseProofOfPayment(text);
+
+    return this.prisma.documentExtraction.update({
+      where: { documentId },
+      data: {
+        status: 'COMPLETED',
+        engine: this.ocrService.engine,
+        text,
+        amount: fields.amount?.toString() ?? null,
+        transactionDate: fields.transactionDate,
+        reference: fields.reference,
+        supplierName: fields.supplierName?.slice(0, 200) ?? null,
+        lineItems: fields.lineItems.length
+          ? (fields.lineItems as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        error: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * The fields read from a document, with a prefilled contribution for a
+   * proof of payment or purchase for a grocery receipt
+   */
+  async getExtraction(documentId: string, userId: string) {
+    const document = await this.documentsService.getDocument(documentId, userId);
+
+    const extraction = await this.prisma.documentExtraction.findUnique({
+      where: { documentId },
+    });
+
+    if (!extraction) {
+      throw new NotFoundException('This document has not been read');
+    }
+
+    const { text, ...fields } = extraction;
+
+    if (document.type === 'GROCERY_RECEIPT') {
+      const products = document.groupId
+        ? await this.prisma.groceryProduct.findMany({
+            where: { groupId: document.groupId, active: true, deletedAt: null },
+            select: { id: true, name: true },
+          })
+        : [];
+
+      return { ...fields, purchaseSuggestion: suggestPurchase(extraction, documentId, products) };
+    }
+
+    return { ...fields, contributionSuggestion: suggestContribution(extraction, documentId) };
+  }
+}
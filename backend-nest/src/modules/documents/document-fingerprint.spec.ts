@@ -0,0 +1,111 @@
+import * as jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import {
+  SIMILAR_IMAGE_MAX_DISTANCE,
+  contentHash,
+  hammingDistance,
+  perceptualHash,
+} from './document-fingerprint';
+
+const WIDTH = 120;
+const HEIGHT = 90;
+
+// A stand-in for a deposit slip: a light background with dark blocks of "text"
+function slip(blocks: Array<[number, number, number, number]>, shift = 0) {
+  const data = Buffer.alloc(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const inBlock = blocks.some(
+        ([bx, by, bw, bh]) => x >= bx && x < bx + bw && y >= by && y < by + bh,
+      );
+      const grey = inBlock ? 30 : 230 - Math.floor((x * 40) / WIDTH) + shift;
+      data.set([grey, grey, grey, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+const SLIP_BLOCKS: Array<[number, number, number, number]> = [
+  [10, 10, 60, 8],
+  [10, 30, 90, 8],
+  [70, 60, 40, 20],
+];
+
+const SLIP = slip(SLIP_BLOCKS);
+
+const OTHER_SLIP = slip([
+  [60, 5, 50, 30],
+  [5, 50, 30, 35],
+]);
+
+function asPng(image: ReturnType<typeof slip>): Buffer {
+  const png = new PNG({ width: image.width, height: image.height });
+  image.data.copy(png.data);
+  return PNG.sync.write(png);
+}
+
+function asJpeg(image: ReturnType<typeof slip>, quality: number): Buffer {
+  return jpeg.encode(image, quality).data;
+}
+
+// Just enough of a PDF for the image stream to be found
+function asPdf(jpegData: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(
+      `%PDF-1.4\n1 0 obj\n<< /Type /XObject /Subtype /Image /Width ${WIDTH} /Height ${HEIGHT} ` +
+        `/Filter /DCTDecode /Length ${jpegData.length} >>\nstream\n`,
+    ),
+    jpegData,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n'),
+  ]);
+}
+
+describe('document fingerprint', () => {
+  describe('contentHash', () => {
+    it('should give the same hash only for the same bytes', () => {
+      const png = asPng(SLIP);
+
+      expect(contentHash(png)).toBe(contentHash(Buffer.from(png)));
+      expect(contentHash(png)).not.toBe(contentHash(asJpeg(SLIP, 90)));
+    });
+  });
+
+  describe('perceptualHash', () => {
+    it('should treat a re-saved copy of a slip as similar', () => {
+      const original = perceptualHash(asPng(SLIP), 'image/png')!;
+      const resaved = perceptualHash(asJpeg(slip(SLIP_BLOCKS, 8), 40), 'image/jpeg')!;
+
+      expect(original).toHaveLength(16);
+      expect(hammingDistance(original, resaved)).toBeLessThanOrEqual(SIMILAR_IMAGE_MAX_DISTANCE);
+    });
+
+    it('should tell different slips apart', () => {
+      const first = perceptualHash(asPng(SLIP), 'image/png')!;
+      const second = perceptualHash(asPng(OTHER_SLIP), 'image/png')!;
+
+      expect(hammingDistance(first, second)).toBeGreaterThan(SIMILAR_IMAGE_MAX_DISTANCE);
+    });
+
+    it('should read the picture inside a scanned PDF', () => {
+      const scan = asJpeg(SLIP, 85);
+
+      expect(perceptualHash(asPdf(scan), 'application/pdf')).toBe(
+        perceptualHash(scan, 'image/jpeg'),
+      );
+    });
+
+    it('should return null for files without a readable picture', () => {
+      expect(perceptualHash(Buffer.from('%PDF-1.4 text only'), 'application/pdf')).toBeNull();
+      expect(perceptualHash(Buffer.from('not a png'), 'image/png')).toBeNull();
+      expect(perceptualHash(asPng(SLIP), 'image/heic')).toBeNull();
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it('should count differing bits', () => {
+      expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+      expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+      expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import * as jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+
+// Perceptual hashes this many bits apart or fewer are taken to be the same
+// picture, allowing for re-compression, resizing and screenshots
+export const SIMILAR_IMAGE_MAX_DISTANCE = 6;
+
+// dHash grid: 9 columns compared pairwise give 8 bits per row
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+interface Bitmap {
+  width: number;
+  height: number;
+  // RGBA, four bytes per pixel
+  data: Uint8Array;
+}
+
+/**
+ * SHA-256 of the file as uploaded, for spotting the exact same file
+ */
+export function contentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * A 64-bit difference hash of the picture in a JPEG or PNG, or of the
+ * first JPEG embedded in a PDF (how phone scans and most banking app
+ * exports carry the slip). Returns null for anything without a readable
+ * picture; those files can still be matched on their content hash.
+ */
+export function perceptualHash(buffer: Buffer, mimeType: string): string | null {
+  let bitmap: Bitmap | null;
+  try {
+    bitmap = decodeImage(buffer, mimeType);
+  } catch {
+    return null;
+  }
+
+  return bitmap && bitmap.width > 0 && bitmap.height > 0 ? differenceHash(bitmap) : null;
+}
+
+/**
+ * Number of bits that differ between two perceptual hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let bits = parseInt(a[i] || '0', 16) ^ parseInt(b[i] || '0', 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+function decodeImage(buffer: Buffer, mimeType: string): Bitmap | null {
+  switch (mimeType) {
+    case 'image/jpeg':
+    case 'image/jpg':
+      return decodeJpeg(buffer);
+    case 'image/png':
+      return PNG.sync.read(buffer);
+    case 'application/pdf': {
+      const embedded = firstEmbeddedJpeg(buffer);
+      return embedded ? decodeJpeg(embedded) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function decodeJpeg(buffer: Buffer): Bitmap {
+  return jpeg.decode(buffer, {
+    useTArray: true,
+    formatAsRGBA: true,
+    tolerantDecoding: true,
+    maxMemoryUsageInMB: 256,
+  });
+}
+
+/**
+ * Pull the first DCTDecode (JPEG) image stream out of a PDF
+ */
+export function firstEmbeddedJpeg(pdf: Buffer): Buffer | null {
+  const filter = pdf.indexOf('/DCTDecode');
+  if (filter < 0) {
+    return null;
+  }
+
+  const streamKeyword = pdf.indexOf('stream', filter);
+  if (streamKeyword < 0) {
+    return null;
+  }
+
+  // The stream data starts after the end of line following the keyword
+  let start = streamKeyword + 'stream'.length;
+  if (pdf[start] === 0x0d) {
+    start++;
+  }
+  if (pdf[start] === 0x0a) {
+    start++;
+  }
+
+  const end = pdf.indexOf('endstream', start);
+  return end > start ? pdf.subarray(start, end) : null;
+}
+
+/**
+ * Shrink the picture to a 9x8 greyscale grid by averaging, then record
+ * whether each cell is brighter than its right-hand neighbour
+ */
+function differenceHash(bitmap: Bitmap): string {
+  const grid = new Array<number>(HASH_WIDTH * HASH_HEIGHT).fill(0);
+  const counts = new Array<number>(HASH_WIDTH * HASH_HEIGHT).fill(0);
+
+  for (let y = 0; y < bitmap.height; y++) {
+    const row = Math.min(HASH_HEIGHT - 1, Math.floor((y * HASH_HEIGHT) / bitmap.height));
+    for (let x = 0; x < bitmap.width; x++) {
+      const column = Math.min(HASH_WIDTH - 1, Math.floor((x * HASH_WIDTH) / bitmap.width));
+      const offset = (y * bitmap.width + x) * 4;
+      const grey =
+        0.299 * bitmap.data[offset] +
+        0.587 * bitmap.data[offset + 1] +
+        0.114 * bitmap.data[offset + 2];
+      grid[row * HASH_WIDTH + column] += grey;
+      counts[row * HASH_WIDTH + column]++;
+    }
+  }
+
+  const cell = (row: number, column: number) => {
+    const i = row * HASH_WIDTH + column;
+    return counts[i] ? grid[i] / counts[i] : 0;
+  };
+
+  let hash = '';
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let nibble = 0;
+    for (let column = 0; column < HASH_WIDTH - 1; column++) {
+      nibble = (nibble << 1) | (cell(row, column) > cell(row, column + 1) ? 1 : 0);
+      if (column % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hash;
+}
@@ -0,0 +1,135 @@
+import { parseGroceryReceipt, parseProofOfPayment } from './document-text';
+import { contributionMismatches, suggestContribution, suggestPurchase } from './extraction-checks';
+
+describe('parseProofOfPayment', () => {
+  it('should read a banking app payment notification', () => {
+    const fields = parseProofOfPayment(
+      [
+        'Payment Notification',
+        'Date: 05 March 2026',
+        'Amount Paid',
+        'R1 500,00',
+        'My reference: STOKVEL',
+        'Beneficiary reference: MOYO MARCH',
+        'Available balance R 12 345.67',
+      ].join('\n'),
+    );
+
+    expect(fields.amount!.toString()).toBe('1500');
+    expect(fields.transactionDate).toEqual(new Date('2026-03-05T00:00:00Z'));
+    expect(fields.reference).toBe('MOYO MARCH');
+  });
+
+  it('should fall back to the largest amount and first date on a deposit slip', () => {
+    const fields = parseProofOfPayment(
+      ['CASH DEPOSIT', '2026/04/02 10:14', 'Notes 500.00', 'Fee 9.50', 'Ref NKOSI APR'].join('\n'),
+    );
+
+    expect(fields.amount!.toString()).toBe('500');
+    expect(fields.transactionDate).toEqual(new Date('2026-04-02T00:00:00Z'));
+    expect(fields.reference).toBe('NKOSI APR');
+  });
+
+  it('should leave out what it cannot find', () => {
+    const fields = parseProofOfPayment('Thank you for banking with us');
+
+    expect(fields).toEqual({
+      amount: null,
+      transactionDate: null,
+      reference: null,
+      supplierName: null,
+      lineItems: [],
+    });
+  });
+});
+
+describe('parseGroceryReceipt', () => {
+  it('should read the store, date, total and items of a till slip', () => {
+    const fields = parseGroceryReceipt(
+      [
+        'SHOPRITE SOWETO',
+        'Tel 011 555 0101',
+        '14/03/2026 09:41',
+        'MAIZE MEAL 10KG 2 x 119.99 239.98',
+        'COOKING OIL 2L 64.99',
+        'SUGAR 2.5KG 52.49 *',
+        'SUBTOTAL 357.46',
+        'VAT 46.62',
+        'TOTAL R357.46',
+        'CASH 400.00',
+        'CHANGE 42.54',
+      ].join('\n'),
+    );
+
+    expect(fields.supplierName).toBe('SHOPRITE SOWETO');
+    expect(fields.transactionDate).toEqual(new Date('2026-03-14T00:00:00Z'));
+    expect(fields.amount!.toString()).toBe('357.46');
+    expect(fields.lineItems).toEqual([
+      { description: 'MAIZE MEAL 10KG', quantity: 2, unitPrice: '119.99', lineTotal: '239.98' },
+      { description: 'COOKING OIL 2L', quantity: 1, unitPrice: '64.99', lineTotal: '64.99' },
+      { description: 'SUGAR 2.5KG', quantity: 1, unitPrice: '52.49', lineTotal: '52.49' },
+    ]);
+  });
+});
+
+describe('extraction checks', () => {
+  const extraction = {
+    status: 'COMPLETED',
+    amount: '1500',
+    transactionDate: new Date('2026-03-05T00:00:00Z'),
+    reference: 'MOYO MARCH',
+    supplierName: null,
+  };
+
+  it('should prefill a contribution for the month the payment was made', () => {
+    expect(suggestContribution(extraction, 'doc-1')).toEqual({
+      amount: 1500,
+      periodStart: '2026-03-01',
+      periodEnd: '2026-03-31',
+      paymentMethod: 'EFT',
+      externalReference: 'MOYO MARCH',
+      popDocumentId: 'doc-1',
+    });
+  });
+
+  it('should match receipt lines to catalogue products by name', () => {
+    const suggestion = suggestPurchase(
+      {
+        ...extraction,
+        lineItems: [
+          { description: 'MAIZE MEAL 10KG', quantity: 2, unitPrice: '119.99', lineTotal: '239.98' },
+          { description: 'AIRTIME', quantity: 1, unitPrice: '30.00', lineTotal: '30.00' },
+        ],
+      },
+      'doc-2',
+      [{ id: 'product-1', name: 'Maize Meal' }],
+    );
+
+    expect(suggestion.items).toEqual([
+      { description: 'MAIZE MEAL 10KG', productId: 'product-1', quantity: 2, unitPrice: 119.99 },
+      { description: 'AIRTIME', productId: null, quantity: 1, unitPrice: 30 },
+    ]);
+  });
+
+  it('should report where a contribution disagrees with its proof of payment', () => {
+    const mismatches = contributionMismatches(extraction, {
+      amount: '1000',
+      externalReference: 'Moyo-March',
+      createdAt: new Date('2026-03-02T08:00:00Z'),
+    });
+
+    expect(mismatches).toEqual([
+      { field: 'amount', submitted: '1000.00', extracted: '1500.00' },
+      { field: 'date', submitted: '2026-03-02', extracted: '2026-03-05' },
+    ]);
+  });
+
+  it('should not report anything until the document has been read', () => {
+    expect(
+      contributionMismatches(
+        { ...extraction, status: 'PENDING' },
+        { amount: '1000', externalReference: null, createdAt: new Date() },
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,218 @@
+import { Decimal } from 'decimal.js';
+import { parseStatementAmount, parseStatementDate } from '../reconciliation/bank-statement';
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: string;
+  lineTotal: string;
+}
+
+export interface ExtractedFields {
+  amount: Decimal | null;
+  transactionDate: Date | null;
+  reference: string | null;
+  supplierName: string | null;
+  lineItems: ReceiptLineItem[];
+}
+
+// R1 234,56 / 1,234.56 / 500.00 - always with cents, so item codes and
+// phone numbers are not read as money
+const AMOUNT = /R?\s?-?\d{1,3}(?:[ ,]\d{3})*[.,]\d{2}(?!\d)|R?\s?-?\d+[.,]\d{2}(?!\d)/g;
+
+const DATE =
+  /\b(\d{4}[-/]\d{1,2}[-/]\d{1,2}|\d{1,2}[-/]\d{1,2}[-/]\d{4}|\d{1,2}[\s-][A-Za-z]{3,9}[\s-]\d{4})\b/g;
+
+/**
+ * Labels banking apps put on the amount, date and reference of a payment
+ * notification, best first. The beneficiary's reference is the one the
+ * group sees on its statement, so it beats the payer's own.
+ */
+const SLIP_LABELS = {
+  amount: [/amount paid/i, /payment amount/i, /transfer amount/i, /\bamount\b/i, /\btotal\b/i],
+  date: [/payment date/i, /transaction date/i, /date paid/i, /\bdate\b/i],
+  reference: [
+    /(?:beneficiary|recipient|their|payee)\s*(?:'s\s*)?ref(?:erence)?/i,
+    /(?<!my |own |your )\bref(?:erence)?\b/i,
+  ],
+};
+
+// Receipt lines that carry an amount but are not something bought
+const RECEIPT_NON_ITEMS =
+  /\b(sub\s*total|total|vat|tax|change|cash|card|tender|balance|due|rounding|savings|discount|amount)\b/i;
+
+/**
+ * Pull the amount, date and reference out of the text of a proof of
+ * payment (a banking app notification, deposit slip or their screenshot)
+ */
+export function parseProofOfPayment(text: string): ExtractedFields {
+  const lines = splitLines(text);
+
+  return {
+    amount: findLabelledAmount(lines, SLIP_LABELS.amount) ?? largestAmount(lines),
+    transactionDate: findLabelledDate(lines, SLIP_LABELS.date) ?? firstDate(lines),
+    reference: findReference(lines),
+    supplierName: null,
+    lineItems: [],
+  };
+}
+
+/**
+ * Pull the store, date, total and items out of the text of a till slip.
+ * The store is the first line with words on it; items are the lines
+ * ending in a price, with `2 x 19.99` or `2 @ 19.99` read as the quantity.
+ */
+export function parseGroceryReceipt(text: string): ExtractedFields {
+  const lines = splitLines(text);
+
+  const lineItems: ReceiptLineItem[] = [];
+  for (const line of lines) {
+    const item = parseReceiptLine(line);
+    if (item) {
+      lineItems.push(item);
+    }
+  }
+
+  const total = lines
+    .filter((line) => /\btotal\b/i.test(line) && !/sub\s*total/i.test(line))
+    .map(lastAmount)
+    .find((amount) => amount !== null);
+
+  return {
+    amount: total ?? null,
+    transactionDate: firstDate(lines),
+    reference: null,
+    supplierName: lines.find((line) => /[A-Za-z]{3}/.test(line) && !amountsIn(line).length) ?? null,
+    lineItems,
+  };
+}
+
+function parseReceiptLine(line: string): ReceiptLineItem | null {
+  if (RECEIPT_NON_ITEMS.test(line)) {
+    return null;
+  }
+
+  const match = /^(.*?[A-Za-z].*?)\s+(R?\s?\d+[.,]\d{2})\s*[A-Z*]?$/.exec(line);
+  if (!match) {
+    return null;
+  }
+
+  const lineTotal = parseStatementAmount(match[2]);
+  if (!lineTotal || lineTotal.lessThanOrEqualTo(0)) {
+    return null;
+  }
+
+  let description = match[1].trim();
+  let quantity = 1;
+  let unitPrice = lineTotal;
+
+  const multiple = /(\d+(?:\.\d+)?)\s*[xX@]\s*(R?\s?\d+[.,]\d{2})/.exec(description);
+  if (multiple) {
+    quantity = Number(multiple[1]);
+    unitPrice = parseStatementAmount(multiple[2]) ?? lineTotal.dividedBy(quantity);
+    description = description.replace(multiple[0], '').trim();
+  }
+
+  if (!description || quantity <= 0) {
+    return null;
+  }
+
+  return {
+    description,
+    quantity,
+    unitPrice: unitPrice.toFixed(2),
+    lineTotal: lineTotal.toFixed(2),
+  };
+}
+
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function amountsIn(line: string): Decimal[] {
+  return (line.match(AMOUNT) || [])
+    .map((token) => parseStatementAmount(token))
+    .filter((amount): amount is Decimal => amount !== null);
+}
+
+function lastAmount(line: string): Decimal | null {
+  const amounts = amountsIn(line);
+  return amounts.length ? amounts[amounts.length - 1].abs() : null;
+}
+
+function datesIn(line: string): Date[] {
+  return (line.match(DATE) || [])
+    .map((token) => parseStatementDate(token))
+    .filter((date): date is Date => date !== null);
+}
+
+/**
+ * The value of a labelled field is on the label's line or, in the
+ * two-line layout most banking apps use, the line below it
+ */
+function labelledValue<T>(
+  lines: string[],
+  labels: RegExp[],
+  read: (line: string) => T | null,
+): T | null {
+  for (const label of labels) {
+    for (let i = 0; i < lines.length; i++) {
+      if (!label.test(lines[i])) {
+        continue;
+      }
+
+      const value = read(lines[i]) ?? (lines[i + 1] !== undefined ? read(lines[i + 1]) : null);
+      if (value !== null) {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+function findLabelledAmount(lines: string[], labels: RegExp[]): Decimal | null {
+  return labelledValue(lines, labels, lastAmount);
+}
+
+function findLabelledDate(lines: string[], labels: RegExp[]): Date | null {
+  return labelledValue(lines, labels, (line) => datesIn(line)[0] ?? null);
+}
+
+function largestAmount(lines: string[]): Decimal | null {
+  const amounts = lines.flatMap(amountsIn).map((amount) => amount.abs());
+  return amounts.length ? Decimal.max(...amounts) : null;
+}
+
+function firstDate(lines: string[]): Date | null {
+  for (const line of lines) {
+    const [date] = datesIn(line);
+    if (date) {
+      return date;
+    }
+  }
+  return null;
+}
+
+function findReference(lines: string[]): string | null {
+  for (const label of SLIP_LABELS.reference) {
+    for (let i = 0; i < lines.length; i++) {
+      const match = label.exec(lines[i]);
+      if (!match) {
+        continue;
+      }
+
+      const rest = lines[i]
+        .slice(match.index + match[0].length)
+        .replace(/^(?:number\b)?[\s:.#-]*/i, '')
+        .trim();
+      const value = rest || lines[i + 1] || '';
+      if (value) {
+        return value.slice(0, 100);
+      }
+    }
+  }
+  return null;
+}
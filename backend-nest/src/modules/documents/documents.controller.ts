@@ -22,6 +22,7 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { DocumentsService } from './documents.service';
+import { DocumentExtractionService } from './document-extraction.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { AuthUser } from '../auth/auth.service';
@@ -78,7 +79,10 @@ class ConfirmUploadDto {
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class DocumentsController {
-  constructor(private readonly documentsService: DocumentsService) {}
+  constructor(
+    private readonly documentsService: DocumentsService,
+    private readonly extractionService: DocumentExtractionService,
+  ) {}
 
   @Post('upload')
   @UseInterceptors(FileInterceptor('file'))
@@ -156,6 +160,16 @@ export class DocumentsController {
     return this.documentsService.getDocument(id, user.id);
   }
 
+  @Get(':id/extraction')
+  @ApiOperation({ summary: 'Get the text fields read from a proof of payment or receipt' })
+  @ApiResponse({ status: 200, description: 'Extracted fields and suggested form values' })
+  async getExtraction(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.extractionService.getExtraction(id, user.id);
+  }
+
   @Get(':id/download')
   @ApiOperation({ summary: 'Get signed download URL for a document' })
   @ApiResponse({ status: 200, description: 'Download URL' })
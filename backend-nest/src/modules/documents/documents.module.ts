@@ -1,13 +1,45 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { DocumentsService } from './documents.service';
 import { DocumentsController } from './documents.controller';
+import { DocumentExtractionService } from './document-extraction.service';
+import { DocumentsProcessor } from './documents.processor';
+import { OcrService } from './ocr.service';
 import { S3Service } from './s3.service';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [
+    ConfigModule,
+    BullModule.registerQueueAsync({
+      name: 'documents',
+      imports: [ConfigModule],
+      useFactory: async (configService: ConfigService) => ({
+        redis: {
+          host: configService.get('REDIS_HOST', 'localhost'),
+          port: configService.get('REDIS_PORT', 6379),
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 500,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
   controllers: [DocumentsController],
-  providers: [DocumentsService, S3Service],
-  exports: [DocumentsService, S3Service],
+  providers: [
+    DocumentsService,
+    DocumentExtractionService,
+    DocumentsProcessor,
+    OcrService,
+    S3Service,
+  ],
+  exports: [DocumentsService, DocumentExtractionService, S3Service],
 })
 export class DocumentsModule {}
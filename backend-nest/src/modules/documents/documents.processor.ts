@@ -0,0 +1,19 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { DocumentExtractionService } from './document-extraction.service';
+
+@Processor('documents')
+export class DocumentsProcessor {
+  private readonly logger = new Logger(DocumentsProcessor.name);
+
+  constructor(private extractionService: DocumentExtractionService) {}
+
+  @Process('extract-text')
+  async handleExtractText(job: Job<{ documentId: string }>) {
+    const extraction = await this.extractionService.extract(job.data.documentId);
+    this.logger.log(`Text extraction for document ${job.data.documentId}: ${extraction?.status}`);
+
+    return { status: extraction?.status };
+  }
+}
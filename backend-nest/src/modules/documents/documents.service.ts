@@ -1,13 +1,17 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   ForbiddenException,
 } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { S3Service } from './s3.service';
 import { AuditService } from '../audit/audit.service';
-import { DocumentType } from '@prisma/client';
+import { Document, DocumentType } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
+import { contentHash, perceptualHash } from './document-fingerprint';
 
 export interface UploadFileInput {
   buffer: Buffer;
@@ -19,10 +23,13 @@ export interface UploadFileInput {
 
 @Injectable()
 export class DocumentsService {
+  private readonly logger = new Logger(DocumentsService.name);
+
   constructor(
     private prisma: PrismaService,
     private s3Service: S3Service,
     private auditService: AuditService,
+    @InjectQueue('documents') private documentsQueue: Queue,
   ) {}
 
   async uploadDocument(input: UploadFileInput, userId: string) {
@@ -66,6 +73,7 @@ export class DocumentsService {
         sizeBytes: input.buffer.length,
         storageKey: key,
         storageBucket: bucket,
+        ...this.fingerprint(input.buffer, input.mimeType),
       },
     });
 
@@ -84,6 +92,8 @@ export class DocumentsService {
       outcome: 'SUCCESS',
     });
 
+    await this.queueExtraction(document);
+
     return document;
   }
 
@@ -183,6 +193,16 @@ export class DocumentsService {
     groupId: string | undefined,
     userId: string,
   ) {
+    // The file went straight to S3, so fetch it back to fingerprint it
+    let fingerprint = {};
+    if (isFingerprinted(mimeType)) {
+      try {
+        fingerprint = this.fingerprint(await this.s3Service.getFile(key), mimeType);
+      } catch (error) {
+        this.logger.warn(`Could not fingerprint uploaded file ${key}: ${error}`);
+      }
+    }
+
     const document = await this.prisma.document.create({
       data: {
         uploaderId: userId,
@@ -194,6 +214,7 @@ export class DocumentsService {
         sizeBytes,
         storageKey: key,
         storageBucket: 'stockvel-documents', // Should come from config
+        ...fingerprint,
       },
     });
 
@@ -208,6 +229,8 @@ export class DocumentsService {
       outcome: 'SUCCESS',
     });
 
+    await this.queueExtraction(document);
+
     return document;
   }
 
@@ -256,7 +279,7 @@ export class DocumentsService {
       action: 'DOCUMENT_DELETED',
       resourceType: 'DOCUMENT',
       resourceId: id,
-      groupId: document.groupId,
+      groupId: document.groupId ?? undefined,
       outcome: 'SUCCESS',
     });
 
@@ -292,4 +315,50 @@ export class DocumentsService {
       orderBy: { createdAt: 'desc' },
     });
   }
+
+  /**
+   * Read proofs of payment and grocery receipts in the background, so the
+   * amount, date and reference can prefill the contribution or purchase
+   */
+  private async queueExtraction(document: Document) {
+    if (!EXTRACTED_TYPES.includes(document.type) || !isFingerprinted(document.mimeType)) {
+      return;
+    }
+
+    await this.prisma.documentExtraction.create({
+      data: { documentId: document.id },
+    });
+
+    try {
+      await this.documentsQueue.add('extract-text', { documentId: document.id });
+    } catch (error) {
+      // The upload stands; the document simply has no extraction to offer
+      this.logger.error(`Failed to queue text extraction for document ${document.id}`, error);
+      await this.prisma.documentExtraction.update({
+        where: { documentId: document.id },
+        data: { status: 'FAILED', error: 'Could not be queued' },
+      });
+    }
+  }
+
+  /**
+   * Hashes used to spot the same proof of payment being uploaded twice.
+   * Only images and PDFs are fingerprinted.
+   */
+  private fingerprint(buffer: Buffer, mimeType: string) {
+    if (!isFingerprinted(mimeType)) {
+      return {};
+    }
+
+    return {
+      contentHash: contentHash(buffer),
+      perceptualHash: perceptualHash(buffer, mimeType),
+    };
+  }
+}
+
+const EXTRACTED_TYPES: DocumentType[] = ['PROOF_OF_PAYMENT', 'GROCERY_RECEIPT'];
+
+function isFingerprinted(mimeType: string): boolean {
+  return mimeType.startsWith('image/') || mimeType === 'application/pdf';
 }
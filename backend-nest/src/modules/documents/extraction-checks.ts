@@ -0,0 +1,243 @@
+import { Decimal } from 'decimal.js';
+import { ReceiptLineItem } from './document-text';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A proof of payment dated this long before the contribution was submitted
+// is more likely an old slip than a late submission
+const STALE_PAYMENT_DAYS = 45;
+
+/**
+ * The fields of a completed document extraction, as stored
+ */
+export interface ExtractionFields {
+  status: string;
+  amount: Decimal | string | number | null;
+  transactionDate: Date | null;
+  reference: string | null;
+  supplierName: string | null;
+  lineItems?: unknown;
+}
+
+export interface ExtractionMismatch {
+  field: 'amount' | 'date' | 'reference' | 'supplier';
+  submitted: string;
+  extracted: string;
+}
+
+export interface ContributionSuggestion {
+  amount?: number;
+  periodStart?: string;
+  periodEnd?: string;
+  paymentMethod?: 'EFT';
+  externalReference?: string;
+  popDocumentId: string;
+}
+
+export interface PurchaseItemSuggestion {
+  description: string;
+  // Null when no product in the group's catalogue looks like this line
+  productId: string | null;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface PurchaseSuggestion {
+  supplierName?: string;
+  purchaseDate?: string;
+  receiptDocumentId: string;
+  items: PurchaseItemSuggestion[];
+}
+
+/**
+ * Prefill for CreateContributionDto from a proof of payment: the amount
+ * paid, the month the payment was made in and the reference used
+ */
+export function suggestContribution(
+  extraction: ExtractionFields,
+  documentId: string,
+): ContributionSuggestion {
+  const suggestion: ContributionSuggestion = { popDocumentId: documentId };
+  if (extraction.status !== 'COMPLETED') {
+    return suggestion;
+  }
+
+  if (extraction.amount !== null) {
+    suggestion.amount = new Decimal(extraction.amount.toString()).toNumber();
+  }
+  if (extraction.transactionDate) {
+    const paidOn = extraction.transactionDate;
+    suggestion.periodStart = isoDate(
+      new Date(Date.UTC(paidOn.getUTCFullYear(), paidOn.getUTCMonth(), 1)),
+    );
+    suggestion.periodEnd = isoDate(
+      new Date(Date.UTC(paidOn.getUTCFullYear(), paidOn.getUTCMonth() + 1, 0)),
+    );
+  }
+  if (extraction.reference) {
+    suggestion.paymentMethod = 'EFT';
+    suggestion.externalReference = extraction.reference;
+  }
+
+  return suggestion;
+}
+
+/**
+ * Prefill for CreatePurchaseDto from a till slip. Each line is matched to
+ * the catalogue product whose name it contains, or that contains it.
+ */
+export function suggestPurchase(
+  extraction: ExtractionFields,
+  documentId: string,
+  products: Array<{ id: string; name: string }>,
+): PurchaseSuggestion {
+  const suggestion: PurchaseSuggestion = { receiptDocumentId: documentId, items: [] };
+  if (extraction.status !== 'COMPLETED') {
+    return suggestion;
+  }
+
+  if (extraction.supplierName) {
+    suggestion.supplierName = extraction.supplierName;
+  }
+  if (extraction.transactionDate) {
+    suggestion.purchaseDate = isoDate(extraction.transactionDate);
+  }
+
+  const catalogue = products.map((p) => ({ id: p.id, name: normalise(p.name) }));
+  for (const line of (extraction.lineItems as ReceiptLineItem[] | null) || []) {
+    const description = normalise(line.description);
+    const product = catalogue.find(
+      (p) =>
+        p.name && description && (description.includes(p.name) || p.name.includes(description)),
+    );
+
+    suggestion.items.push({
+      description: line.description,
+      productId: product?.id ?? null,
+      quantity: line.quantity,
+      unitPrice: Number(line.unitPrice),
+    });
+  }
+
+  return suggestion;
+}
+
+/**
+ * Where what the member entered disagrees with their proof of payment:
+ * a different amount, a reference the slip does not carry, or a payment
+ * dated after the contribution was submitted or long before it
+ */
+export function contributionMismatches(
+  extraction: ExtractionFields | null | undefined,
+  contribution: {
+    amount: Decimal | string | number;
+    externalReference: string | null;
+    createdAt: Date;
+  },
+): ExtractionMismatch[] {
+  if (!extraction || extraction.status !== 'COMPLETED') {
+    return [];
+  }
+
+  const mismatches: ExtractionMismatch[] = [];
+  checkAmount(mismatches, contribution.amount, extraction.amount);
+
+  if (extraction.transactionDate) {
+    const days =
+      (startOfDay(contribution.createdAt) - extraction.transactionDate.getTime()) / DAY_MS;
+    if (days < 0 || days > STALE_PAYMENT_DAYS) {
+      mismatches.push({
+        field: 'date',
+        submitted: isoDate(contribution.createdAt),
+        extracted: isoDate(extraction.transactionDate),
+      });
+    }
+  }
+
+  if (
+    contribution.externalReference &&
+    extraction.reference &&
+    !sameText(contribution.externalReference, extraction.reference)
+  ) {
+    mismatches.push({
+      field: 'reference',
+      submitted: contribution.externalReference,
+      extracted: extraction.reference,
+    });
+  }
+
+  return mismatches;
+}
+
+/**
+ * Where a recorded purchase disagrees with its till slip: the total, the
+ * date or the store
+ */
+export function purchaseMismatches(
+  extraction: ExtractionFields | null | undefined,
+  purchase: { totalAmount: Decimal | string | number; purchaseDate: Date; supplierName: string },
+): ExtractionMismatch[] {
+  if (!extraction || extraction.status !== 'COMPLETED') {
+    return [];
+  }
+
+  const mismatches: ExtractionMismatch[] = [];
+  checkAmount(mismatches, purchase.totalAmount, extraction.amount);
+
+  if (
+    extraction.transactionDate &&
+    isoDate(extraction.transactionDate) !== isoDate(purchase.purchaseDate)
+  ) {
+    mismatches.push({
+      field: 'date',
+      submitted: isoDate(purchase.purchaseDate),
+      extracted: isoDate(extraction.transactionDate),
+    });
+  }
+
+  if (extraction.supplierName && !sameText(purchase.supplierName, extraction.supplierName)) {
+    mismatches.push({
+      field: 'supplier',
+      submitted: purchase.supplierName,
+      extracted: extraction.supplierName,
+    });
+  }
+
+  return mismatches;
+}
+
+function checkAmount(
+  mismatches: ExtractionMismatch[],
+  submitted: Decimal | string | number,
+  extracted: Decimal | string | number | null,
+) {
+  if (extracted === null) {
+    return;
+  }
+
+  const entered = new Decimal(submitted.toString());
+  const read = new Decimal(extracted.toString());
+  if (!entered.equals(read)) {
+    mismatches.push({ field: 'amount', submitted: entered.toFixed(2), extracted: read.toFixed(2) });
+  }
+}
+
+// OCR drops and merges spaces, so text is compared on letters and digits,
+// and one containing the other is close enough
+function sameText(a: string, b: string): boolean {
+  const x = normalise(a);
+  const y = normalise(b);
+  return x === y || (!!x && !!y && (x.includes(y) || y.includes(x)));
+}
+
+function normalise(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function startOfDay(at: Date): number {
+  return Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate());
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -1,4 +1,5 @@
 export * from './documents.module';
 export * from './documents.service';
 export * from './documents.controller';
+export * from './document-extraction.service';
 export * from './s3.service';
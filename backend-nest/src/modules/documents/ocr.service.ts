@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { execFile } from 'child_process';
+import { firstEmbeddedJpeg } from './document-fingerprint';
+
+// A till slip photo takes a few seconds; anything much longer is stuck
+const OCR_TIMEOUT_MS = 60_000;
+
+@Injectable()
+export class OcrService {
+  private readonly logger = new Logger(OcrService.name);
+
+  constructor(private configService: ConfigService) {}
+
+  get engine(): string {
+    return this.configService.get('OCR_ENGINE', 'tesseract');
+  }
+
+  /**
+   * Read the text in an image, or in the first picture in a PDF. Returns
+   * null when OCR is switched off or the file has no picture to read.
+   */
+  async recognise(buffer: Buffer, mimeType: string): Promise<string | null> {
+    const image = mimeType === 'application/pdf' ? firstEmbeddedJpeg(buffer) : buffer;
+    if (!image || !(mimeType.startsWith('image/') || mimeType === 'application/pdf')) {
+      return null;
+    }
+
+    if (this.engine === 'none') {
+      return null;
+    }
+
+    if (this.engine === 'tesseract') {
+      return this.recogniseWithTesseract(image);
+    }
+
+    this.logger.warn(`Unknown OCR engine: ${this.engine}`);
+    return null;
+  }
+
+  // Runs the tesseract command line locally, so documents never leave the server
+  private recogniseWithTesseract(image: Buffer): Promise<string> {
+    const binary = this.configService.get('TESSERACT_PATH', 'tesseract');
+    const languages = this.configService.get('OCR_LANGUAGES', 'eng');
+
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        binary,
+        ['stdin', 'stdout', '-l', languages],
+        { timeout: OCR_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new Error(`tesseract failed: ${stderr || error.message}`));
+          } else {
+            resolve(stdout);
+          }
+        },
+      );
+      child.stdin?.end(image);
+    });
+  }
+}
@@ -13,6 +13,7 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { GroceryPurchaseStatus } from '@prisma/client';
+import { ExtractionMismatch } from '../../documents/extraction-checks';
 
 export class PurchaseItemDto {
   @IsUUID()
@@ -109,6 +110,8 @@ export class PurchaseResponseDto {
   status: GroceryPurchaseStatus;
   notes: string | null;
   receiptDocumentId: string | null;
+  // Where the recorded purchase disagrees with the text read from the receipt
+  receiptMismatches: ExtractionMismatch[];
   createdBy: {
     id: string;
     firstName: string;
@@ -9,6 +9,7 @@ import { AuditService } from '../../audit/audit.service';
 import { LedgerService } from '../../ledger/ledger.service';
 import { NotificationsService } from '../../notifications/notifications.service';
 import { StockService } from './stock.service';
+import { purchaseMismatches } from '../../documents/extraction-checks';
 import {
   CreatePurchaseDto,
   ApprovePurchaseDto,
@@ -174,6 +175,7 @@ export class PurchaseService {
         include: {
           createdBy: { select: { id: true, firstName: true, lastName: true } },
           approvedBy: { select: { id: true, firstName: true, lastName: true } },
+          receiptDocument: { select: { extraction: true } },
           items: {
             include: {
               product: { select: { name: true, unit: true } },
@@ -203,6 +205,7 @@ export class PurchaseService {
       include: {
         createdBy: { select: { id: true, firstName: true, lastName: true } },
         approvedBy: { select: { id: true, firstName: true, lastName: true } },
+        receiptDocument: { select: { extraction: true } },
         items: {
           include: {
             product: { select: { name: true, unit: true } },
@@ -411,6 +414,7 @@ export class PurchaseService {
       status: purchase.status,
       notes: purchase.notes,
       receiptDocumentId: purchase.receiptDocumentId,
+      receiptMismatches: purchaseMismatches(purchase.receiptDocument?.extraction, purchase),
       createdBy: {
         id: purchase.createdBy.id,
         firstName: purchase.createdBy.firstName,
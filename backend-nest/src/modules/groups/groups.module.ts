@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { GroupsService } from './groups.service';
 import { GroupsController } from './groups.controller';
+import { LedgerModule } from '../ledger/ledger.module';
 
 @Module({
+  imports: [LedgerModule],
   controllers: [GroupsController],
   providers: [GroupsService],
   exports: [GroupsService],
@@ -6,6 +6,7 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
 import { GroupType, GroupStatus, MemberRole } from '@prisma/client';
 import { CreateGroupDto } from './dto/create-group.dto';
 import { UpdateGroupDto } from './dto/update-group.dto';
@@ -15,6 +16,7 @@ export class GroupsService {
   constructor(
     private prisma: PrismaService,
     private auditService: AuditService,
+    private ledgerService: LedgerService,
   ) {}
 
   async create(dto: CreateGroupDto, userId: string) {
@@ -185,6 +187,25 @@ export class GroupsService {
       throw new NotFoundException('Group not found');
     }
 
+    // Savings groups holding members' money must be wound up by vote
+    if (group.type === 'SAVINGS') {
+      const [balance, openDissolution] = await Promise.all([
+        this.ledgerService.getBalance(id),
+        this.prisma.groupDissolution.findFirst({
+          where: { groupId: id, status: { in: ['VOTING', 'APPROVED', 'SETTLING'] } },
+        }),
+      ]);
+
+      if (openDissolution) {
+        throw new BadRequestException('A dissolution is in progress for this group');
+      }
+      if (!balance.isZero()) {
+        throw new BadRequestException(
+          `Group still holds ${group.currency} ${balance.toFixed(2)}; dissolve it through a member vote and final settlement`,
+        );
+      }
+    }
+
     await this.prisma.group.update({
       where: { id },
       data: { deletedAt: new Date(), status: 'DISSOLVED' },
@@ -0,0 +1,169 @@
+import { Prisma } from '@prisma/client';
+import {
+  ChainVerifier,
+  GENESIS_HASH,
+  LedgerEntryContent,
+  canonicalJson,
+  hashLedgerEntry,
+} from './hash-chain';
+
+type Row = LedgerEntryContent & { hash: string | null; prevHash: string | null };
+
+function buildChain(count: number): Row[] {
+  const rows: Row[] = [];
+  let prevHash = GENESIS_HASH;
+  for (let sequence = 1; sequence <= count; sequence++) {
+    const content: LedgerEntryContent = {
+      id: `entry-${sequence}`,
+      groupId: 'group-1',
+      sequence,
+      entryType: 'CONTRIBUTION_CREDIT',
+      amount: 500,
+      currency: 'ZAR',
+      balanceAfter: 500 * sequence,
+      referenceType: 'CONTRIBUTION',
+      referenceId: `contribution-${sequence}`,
+      description: `Contribution ${sequence}`,
+      metadata: { memberId: 'member-1', period: '2024-04' },
+      createdById: 'treasurer-1',
+      createdAt: new Date(Date.UTC(2024, 3, sequence)),
+      effectiveDate: new Date(Date.UTC(2024, 3, sequence)),
+    };
+    const hash = hashLedgerEntry(content, prevHash);
+    rows.push({ ...content, hash, prevHash });
+    prevHash = hash;
+  }
+  return rows;
+}
+
+function verify(rows: Row[]) {
+  const verifier = new ChainVerifier<Row>(hashLedgerEntry);
+  rows.forEach((row) => verifier.push(row));
+  return verifier.result();
+}
+
+describe('canonicalJson', () => {
+  it('should sort keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ f: 1, e: 2 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[{"e":2,"f":1}]},"b":1}',
+    );
+  });
+
+  it('should match the value read back from a JSON column', () => {
+    const written = { period: '2024-04', skipped: undefined, at: new Date('2024-04-01T00:00:00Z') };
+
+    expect(canonicalJson(written)).toBe(canonicalJson(JSON.parse(JSON.stringify(written))));
+  });
+});
+
+describe('hashLedgerEntry', () => {
+  it('should hash stored amounts the same as the amounts written', () => {
+    const [row] = buildChain(1);
+    const stored = {
+      ...row,
+      amount: new Prisma.Decimal('500.0000'),
+      balanceAfter: new Prisma.Decimal('500.0000'),
+    };
+
+    expect(hashLedgerEntry(stored, GENESIS_HASH)).toBe(row.hash);
+  });
+
+  it('should leave the effective date out of version 1 hashes', () => {
+    const [row] = buildChain(1);
+    const v1 = { ...row, hashVersion: 1 };
+    const moved = { ...v1, effectiveDate: new Date(Date.UTC(2024, 2, 31)) };
+
+    expect(hashLedgerEntry(moved, GENESIS_HASH)).toBe(hashLedgerEntry(v1, GENESIS_HASH));
+    expect(hashLedgerEntry(v1, GENESIS_HASH)).not.toBe(row.hash);
+  });
+
+  it('should cover the effective date in version 2 hashes', () => {
+    const [row] = buildChain(1);
+    const moved = { ...row, effectiveDate: new Date(Date.UTC(2024, 2, 31)) };
+
+    expect(hashLedgerEntry(moved, GENESIS_HASH)).not.toBe(row.hash);
+  });
+});
+
+describe('ChainVerifier', () => {
+  it('should accept an intact chain', () => {
+    const result = verify(buildChain(3));
+
+    expect(result).toEqual(
+      expect.objectContaining({ valid: true, checked: 3, headSequence: 3, brokenAt: null }),
+    );
+    expect(result.headHash).toBe(buildChain(3)[2].hash);
+  });
+
+  it('should report an edited row as the first broken link', () => {
+    const rows = buildChain(3);
+    rows[1] = { ...rows[1], amount: 5000 };
+
+    expect(verify(rows).brokenAt).toEqual({
+      id: 'entry-2',
+      sequence: 2,
+      reason: 'Row contents do not match its hash',
+    });
+  });
+
+  it('should accept version 1 rows followed by version 2 rows', () => {
+    const [first] = buildChain(1);
+    const v1 = { ...first, hashVersion: 1 };
+    const v1Row = { ...v1, hash: hashLedgerEntry(v1, GENESIS_HASH) };
+    const [, second] = buildChain(2);
+    const v2Row = { ...second, prevHash: v1Row.hash };
+    v2Row.hash = hashLedgerEntry(v2Row, v1Row.hash);
+
+    expect(verify([v1Row, v2Row])).toEqual(expect.objectContaining({ valid: true, checked: 2 }));
+  });
+
+  it('should report a row with an unknown hash version', () => {
+    const rows = buildChain(2);
+    rows[1] = { ...rows[1], hashVersion: 9 };
+
+    expect(verify(rows).brokenAt).toEqual({
+      id: 'entry-2',
+      sequence: 2,
+      reason: 'Unknown ledger hash version 9',
+    });
+  });
+
+  it('should report a deleted row', () => {
+    const rows = buildChain(3);
+    rows.splice(1, 1);
+
+    expect(verify(rows).brokenAt).toEqual(
+      expect.objectContaining({ sequence: 3, reason: 'Rows 2 to 2 are missing' }),
+    );
+  });
+
+  it('should report a row rehashed without its successors', () => {
+    const rows = buildChain(3);
+    const edited = { ...rows[1], amount: 5000 };
+    rows[1] = { ...edited, hash: hashLedgerEntry(edited, rows[1].prevHash!) };
+
+    expect(verify(rows).brokenAt).toEqual(
+      expect.objectContaining({
+        sequence: 3,
+        reason: 'Previous hash does not match the preceding row',
+      }),
+    );
+  });
+
+  it('should accept rows written before chaining until the chain is sealed', () => {
+    const unsealed = buildChain(2).map((row) => ({ ...row, hash: null, prevHash: null }));
+
+    expect(verify(unsealed)).toEqual(
+      expect.objectContaining({ valid: true, checked: 0, unsealed: 2, headHash: null }),
+    );
+  });
+
+  it('should reject an unsealed row after a sealed one', () => {
+    const rows = buildChain(2);
+    rows[1] = { ...rows[1], hash: null };
+
+    expect(verify(rows).brokenAt).toEqual(
+      expect.objectContaining({ sequence: 2, reason: 'Row has no hash' }),
+    );
+  });
+});
@@ -0,0 +1,287 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+
+// prevHash of the first row in every chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Ledger hash scheme written for new entries. Version 1 is the content
+// chained when hashing was introduced; version 2 adds the effective date and
+// the corrected entry. Entries keep the version they were sealed under, so
+// adding fields never re-hashes (and re-trusts) rows already in the chain.
+export const LEDGER_HASH_VERSION = 2;
+
+export interface LedgerEntryContent {
+  id: string;
+  groupId: string;
+  sequence: number;
+  entryType: string;
+  amount: Decimal | Prisma.Decimal | string | number;
+  currency: string;
+  balanceAfter: Decimal | Prisma.Decimal | string | number;
+  referenceType?: string | null;
+  referenceId?: string | null;
+  description?: string | null;
+  metadata?: unknown;
+  createdById?: string | null;
+  createdAt: Date;
+  effectiveDate: Date;
+  correctsEntryId?: string | null;
+  // Defaults to LEDGER_HASH_VERSION
+  hashVersion?: number;
+}
+
+export interface AuditLogContent {
+  id: string;
+  groupId?: string | null;
+  sequence: number;
+  actorId?: string | null;
+  actorType: string;
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  beforeState?: unknown;
+  afterState?: unknown;
+  metadata?: unknown;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  outcome: string;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+  createdAt: Date;
+}
+
+export interface ChainLink {
+  id: string;
+  sequence: number;
+  hash: string | null;
+  prevHash: string | null;
+}
+
+export interface ChainBreak {
+  // null when the row itself is missing
+  id: string | null;
+  sequence: number;
+  reason: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  unsealed: number;
+  headSequence: number | null;
+  headHash: string | null;
+  brokenAt: ChainBreak | null;
+}
+
+/**
+ * JSON with object keys sorted at every level. Values go through a JSON
+ * round trip first so they hash the same before they are written as they
+ * do when read back from a jsonb column (key order, dropped undefineds,
+ * Decimals and Dates as strings).
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === undefined) {
+    return 'null';
+  }
+  return stringifySorted(JSON.parse(JSON.stringify(value)));
+}
+
+function stringifySorted(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stringifySorted).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stringifySorted(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function chainHash(prevHash: string, content: string): string {
+  return createHash('sha256').update(prevHash).update('\n').update(content).digest('hex');
+}
+
+// Amounts are stored as DECIMAL(19, 4), so hash them at that scale
+function money(value: Decimal | Prisma.Decimal | string | number): string {
+  return new Decimal(value.toString()).toFixed(4);
+}
+
+export function hashLedgerEntry(entry: LedgerEntryContent, prevHash: string): string {
+  const version = entry.hashVersion ?? LEDGER_HASH_VERSION;
+  const content = {
+    id: entry.id,
+    groupId: entry.groupId,
+    sequence: entry.sequence,
+    entryType: entry.entryType,
+    amount: money(entry.amount),
+    currency: entry.currency,
+    balanceAfter: money(entry.balanceAfter),
+    referenceType: entry.referenceType ?? null,
+    referenceId: entry.referenceId ?? null,
+    description: entry.description ?? null,
+    metadata: entry.metadata ?? null,
+    createdById: entry.createdById ?? null,
+    createdAt: entry.createdAt.toISOString(),
+  };
+
+  switch (version) {
+    case 1:
+      return chainHash(prevHash, canonicalJson(content));
+    case 2:
+      return chainHash(
+        prevHash,
+        canonicalJson({
+          ...content,
+          hashVersion: 2,
+          effectiveDate: entry.effectiveDate.toISOString().slice(0, 10),
+          correctsEntryId: entry.correctsEntryId ?? null,
+        }),
+      );
+    default:
+      throw new Error(`Unknown ledger hash version ${version}`);
+  }
+}
+
+export function hashAuditLog(log: AuditLogContent, prevHash: string): string {
+  return chainHash(
+    prevHash,
+    canonicalJson({
+      id: log.id,
+      groupId: log.groupId ?? null,
+      sequence: log.sequence,
+      actorId: log.actorId ?? null,
+      actorType: log.actorType,
+      action: log.action,
+      resourceType: log.resourceType,
+      resourceId: log.resourceId ?? null,
+      beforeState: log.beforeState ?? null,
+      afterState: log.afterState ?? null,
+      metadata: log.metadata ?? null,
+      ipAddress: log.ipAddress ?? null,
+      userAgent: log.userAgent ?? null,
+      outcome: log.outcome,
+      errorCode: log.errorCode ?? null,
+      errorMessage: log.errorMessage ?? null,
+      createdAt: log.createdAt.toISOString(),
+    }),
+  );
+}
+
+/**
+ * What a checkpoint signs: the chain, its owner and its head
+ */
+export function checkpointPayload(checkpoint: {
+  groupId: string;
+  chain: string;
+  sequence: number;
+  headHash: string;
+  signedAt: Date;
+}): string {
+  return [
+    'stockvel-os-checkpoint/v1',
+    checkpoint.groupId,
+    checkpoint.chain,
+    checkpoint.sequence,
+    checkpoint.headHash,
+    checkpoint.signedAt.toISOString(),
+  ].join('|');
+}
+
+/**
+ * Take a transaction-scoped lock on one chain so appends are serialised.
+ * Released when the transaction ends.
+ */
+export async function lockChain(
+  tx: Prisma.TransactionClient,
+  chain: 'ledger' | 'audit',
+  groupId: string | null,
+): Promise<void> {
+  const key = `${chain}:${groupId ?? 'system'}`;
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+}
+
+/**
+ * Walks a chain in sequence order, one row at a time so long chains can be
+ * read in batches, and stops at the first broken link.
+ *
+ * Rows written before chaining was introduced have no hash until the chain
+ * is first sealed; they are only accepted while the whole chain is unsealed.
+ */
+export class ChainVerifier<T extends ChainLink> {
+  private expectedSequence = 1;
+  private prevHash = GENESIS_HASH;
+  private checked = 0;
+  private unsealed = 0;
+  private headSequence: number | null = null;
+  private brokenAt: ChainBreak | null = null;
+
+  constructor(private readonly hashOf: (row: T, prevHash: string) => string) {}
+
+  get broken(): boolean {
+    return this.brokenAt !== null;
+  }
+
+  push(row: T): boolean {
+    if (this.brokenAt) {
+      return false;
+    }
+
+    if (row.sequence !== this.expectedSequence) {
+      return this.fail(
+        row,
+        row.sequence > this.expectedSequence
+          ? `Rows ${this.expectedSequence} to ${row.sequence - 1} are missing`
+          : 'Sequence number is repeated',
+      );
+    }
+    this.expectedSequence++;
+    this.headSequence = row.sequence;
+
+    if (row.hash === null) {
+      if (this.checked > 0) {
+        return this.fail(row, 'Row has no hash');
+      }
+      this.unsealed++;
+      return true;
+    }
+
+    if (this.unsealed > 0) {
+      return this.fail(row, 'Row follows rows that were never sealed');
+    }
+    if (row.prevHash !== this.prevHash) {
+      return this.fail(row, 'Previous hash does not match the preceding row');
+    }
+    let hash: string;
+    try {
+      hash = this.hashOf(row, this.prevHash);
+    } catch (error) {
+      return this.fail(row, (error as Error).message);
+    }
+    if (hash !== row.hash) {
+      return this.fail(row, 'Row contents do not match its hash');
+    }
+
+    this.prevHash = row.hash;
+    this.checked++;
+    return true;
+  }
+
+  result(): ChainVerification {
+    return {
+      valid: this.brokenAt === null,
+      checked: this.checked,
+      unsealed: this.unsealed,
+      headSequence: this.headSequence,
+      headHash: this.checked > 0 ? this.prevHash : null,
+      brokenAt: this.brokenAt,
+    };
+  }
+
+  private fail(row: T, reason: string): boolean {
+    this.brokenAt = { id: row.id, sequence: row.sequence, reason };
+    return false;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './integrity.module';
+export * from './integrity.service';
+export * from './integrity.controller';
+export * from './hash-chain';
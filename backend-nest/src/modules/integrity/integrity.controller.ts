@@ -0,0 +1,47 @@
+import { Controller, Get, Param, UseGuards, Query, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { IntegrityChain } from '@prisma/client';
+import { IntegrityService } from './integrity.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AnyMember } from '../auth/decorators/roles.decorator';
+
+@ApiTags('integrity')
+@Controller({ version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class IntegrityController {
+  constructor(private readonly integrityService: IntegrityService) {}
+
+  @Get('groups/:groupId/integrity/verify')
+  @AnyMember()
+  @ApiOperation({ summary: 'Verify the ledger and audit hash chains for a group' })
+  @ApiResponse({ status: 200, description: 'Verification report with the first broken link' })
+  verify(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.integrityService.verifyGroup(groupId);
+  }
+
+  @Get('groups/:groupId/integrity/checkpoints')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get signed chain head checkpoints' })
+  @ApiResponse({ status: 200, description: 'Checkpoints list' })
+  @ApiQuery({ name: 'chain', required: false, enum: IntegrityChain })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  getCheckpoints(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('chain') chain?: IntegrityChain,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.integrityService.getCheckpoints(groupId, { chain, limit, offset });
+  }
+
+  @Get('integrity/public-key')
+  @ApiOperation({ summary: 'Get the public key checkpoints are signed with' })
+  @ApiResponse({ status: 200, description: 'Ed25519 public key in PEM form' })
+  @ApiResponse({ status: 404, description: 'No signing key is configured' })
+  getPublicKey() {
+    return this.integrityService.getPublicKey();
+  }
+}
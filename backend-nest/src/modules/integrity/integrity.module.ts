@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { IntegrityService } from './integrity.service';
+import { IntegrityController } from './integrity.controller';
+import { IntegrityProcessor } from './integrity.processor';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    LedgerModule,
+    BullModule.registerQueueAsync({
+      name: 'integrity',
+      imports: [ConfigModule],
+      useFactory: async (configService: ConfigService) => ({
+        redis: {
+          host: configService.get('REDIS_HOST', 'localhost'),
+          port: configService.get('REDIS_PORT', 6379),
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 500,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [IntegrityController],
+  providers: [IntegrityService, IntegrityProcessor],
+  exports: [IntegrityService],
+})
+export class IntegrityModule {}
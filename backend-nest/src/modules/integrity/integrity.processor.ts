@@ -0,0 +1,36 @@
+import { Processor, Process, InjectQueue } from '@nestjs/bull';
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import { IntegrityService } from './integrity.service';
+
+@Processor('integrity')
+export class IntegrityProcessor implements OnModuleInit {
+  private readonly logger = new Logger(IntegrityProcessor.name);
+
+  constructor(
+    @InjectQueue('integrity') private integrityQueue: Queue,
+    private configService: ConfigService,
+    private integrityService: IntegrityService,
+  ) {}
+
+  async onModuleInit() {
+    // Repeatable jobs are keyed on name + cron, so re-registering on boot is a no-op
+    await this.integrityQueue.add(
+      'checkpoint-chains',
+      {},
+      {
+        repeat: { cron: this.configService.get('INTEGRITY_CHECKPOINT_CRON', '0 1 * * *') },
+        jobId: 'checkpoint-chains',
+      },
+    );
+  }
+
+  @Process('checkpoint-chains')
+  async handleCheckpointChains() {
+    const result = await this.integrityService.createCheckpoints();
+    this.logger.log(`Chain checkpointing complete: ${result.checkpointsCreated} heads signed`);
+
+    return result;
+  }
+}
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync, verify } from 'crypto';
+import { IntegrityService } from './integrity.service';
+import { GENESIS_HASH, checkpointPayload, hashLedgerEntry } from './hash-chain';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+describe('IntegrityService', () => {
+  let service: IntegrityService;
+
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+
+  const mockPrismaService = {
+    group: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    ledgerEntry: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    auditLog: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    chainCheckpoint: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const mockAuditService = {
+    sealChain: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    sealChain: jest.fn(),
+  };
+
+  const entry = {
+    id: 'entry-1',
+    groupId: 'group-1',
+    sequence: 1,
+    entryType: 'OPENING_BALANCE',
+    amount: '0',
+    currency: 'ZAR',
+    balanceAfter: '0',
+    description: 'Opening balance for new savings group',
+    createdById: 'user-1',
+    createdAt: new Date('2024-04-01T08:00:00Z'),
+    effectiveDate: new Date('2024-04-01T00:00:00Z'),
+    prevHash: GENESIS_HASH,
+  };
+  const ledgerRow = { ...entry, hash: hashLedgerEntry(entry, GENESIS_HASH) };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IntegrityService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<IntegrityService>(IntegrityService);
+
+    jest.clearAllMocks();
+    mockConfigService.get.mockReturnValue(
+      privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    );
+    mockPrismaService.group.findFirst.mockResolvedValue({ id: 'group-1' });
+    mockPrismaService.group.findMany.mockResolvedValue([{ id: 'group-1' }]);
+    mockPrismaService.ledgerEntry.findMany.mockResolvedValue([ledgerRow]);
+    mockPrismaService.ledgerEntry.findFirst.mockResolvedValue(ledgerRow);
+    mockPrismaService.auditLog.findMany.mockResolvedValue([]);
+    mockPrismaService.auditLog.findFirst.mockResolvedValue(null);
+    mockPrismaService.chainCheckpoint.findFirst.mockResolvedValue(null);
+  });
+
+  describe('createCheckpoints', () => {
+    it('should seal and sign chain heads that have moved', async () => {
+      const result = await service.createCheckpoints();
+
+      expect(result).toEqual({ groupsChecked: 1, checkpointsCreated: 1 });
+      expect(mockLedgerService.sealChain).toHaveBeenCalledWith('group-1');
+      expect(mockAuditService.sealChain).toHaveBeenCalledWith('group-1');
+
+      const { data } = mockPrismaService.chainCheckpoint.create.mock.calls[0][0];
+      expect(data).toEqual(
+        expect.objectContaining({ chain: 'LEDGER', sequence: 1, headHash: ledgerRow.hash }),
+      );
+      expect(
+        verify(
+          null,
+          Buffer.from(checkpointPayload(data)),
+          publicKey,
+          Buffer.from(data.signature, 'base64'),
+        ),
+      ).toBe(true);
+    });
+
+    it('should not sign a head that is already checkpointed', async () => {
+      mockPrismaService.chainCheckpoint.findFirst.mockResolvedValue({ sequence: 1 });
+
+      await expect(service.createCheckpoints()).resolves.toEqual({
+        groupsChecked: 1,
+        checkpointsCreated: 0,
+      });
+      expect(mockPrismaService.chainCheckpoint.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip signing without a key', async () => {
+      mockConfigService.get.mockReturnValue(undefined);
+
+      await service.createCheckpoints();
+
+      expect(mockPrismaService.group.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyGroup', () => {
+    it('should report intact chains', async () => {
+      const result = await service.verifyGroup('group-1');
+
+      expect(result.valid).toBe(true);
+      expect(result.ledger).toEqual(
+        expect.objectContaining({ checked: 1, headHash: ledgerRow.hash, checkpoint: null }),
+      );
+    });
+
+    it('should flag a chain rewritten since its signed checkpoint', async () => {
+      await service.createCheckpoints();
+      const checkpoint = mockPrismaService.chainCheckpoint.create.mock.calls[0][0].data;
+
+      // Every hash recomputed after editing the only entry
+      const edited = { ...entry, description: 'Edited' };
+      const rewritten = { ...edited, hash: hashLedgerEntry(edited, GENESIS_HASH) };
+      mockPrismaService.ledgerEntry.findMany.mockResolvedValue([rewritten]);
+      mockPrismaService.ledgerEntry.findFirst.mockResolvedValue(rewritten);
+      mockPrismaService.chainCheckpoint.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(where.chain === 'LEDGER' ? checkpoint : null),
+      );
+
+      const result = await service.verifyGroup('group-1');
+
+      expect(result.valid).toBe(false);
+      expect(result.ledger.checkpoint).toEqual(
+        expect.objectContaining({ signatureValid: true, matchesChain: false }),
+      );
+      expect(result.ledger.brokenAt).toEqual({
+        id: 'entry-1',
+        sequence: 1,
+        reason: 'Row does not match the signed checkpoint',
+      });
+    });
+  });
+});
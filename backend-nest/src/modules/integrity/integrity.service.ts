@@ -0,0 +1,346 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IntegrityChain } from '@prisma/client';
+import { KeyObject, createHash, createPrivateKey, createPublicKey, sign, verify } from 'crypto';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  ChainLink,
+  ChainVerification,
+  ChainVerifier,
+  checkpointPayload,
+  hashAuditLog,
+  hashLedgerEntry,
+} from './hash-chain';
+
+const VERIFY_BATCH_SIZE = 500;
+
+interface SigningKey {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  keyId: string;
+}
+
+export interface CheckpointVerification {
+  sequence: number;
+  headHash: string;
+  keyId: string;
+  signedAt: Date;
+  // null when the checkpoint was signed with a key this server no longer holds
+  signatureValid: boolean | null;
+  matchesChain: boolean;
+}
+
+export interface ChainReport extends ChainVerification {
+  checkpoint: CheckpointVerification | null;
+}
+
+@Injectable()
+export class IntegrityService {
+  private readonly logger = new Logger(IntegrityService.name);
+  private signingKey: SigningKey | null | undefined;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Walk a group's ledger and audit chains from the first row, recomputing
+   * every hash, and check each chain against its latest signed checkpoint.
+   * Each chain reports the first broken link it found, if any.
+   */
+  async verifyGroup(groupId: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+
+    const ledger = await this.verifyChain(
+      groupId,
+      'LEDGER',
+      (afterSequence) =>
+        this.prisma.ledgerEntry.findMany({
+          where: { groupId, sequence: { gt: afterSequence } },
+          orderBy: { sequence: 'asc' },
+          take: VERIFY_BATCH_SIZE,
+        }),
+      (row, prevHash) => hashLedgerEntry(row, prevHash),
+    );
+
+    const audit = await this.verifyChain(
+      groupId,
+      'AUDIT',
+      (afterSequence) =>
+        this.prisma.auditLog.findMany({
+          where: { groupId, sequence: { gt: afterSequence } },
+          orderBy: { sequence: 'asc' },
+          take: VERIFY_BATCH_SIZE,
+        }),
+      (row, prevHash) => hashAuditLog(row, prevHash),
+    );
+
+    return {
+      groupId,
+      valid: ledger.valid && audit.valid,
+      ledger,
+      audit,
+      verifiedAt: new Date(),
+    };
+  }
+
+  /**
+   * Seal and sign the head of every group's ledger and audit chain that has
+   * moved since its last checkpoint. Called by the daily 'checkpoint-chains'
+   * job; does nothing until a signing key is configured.
+   */
+  async createCheckpoints() {
+    const key = this.getSigningKey();
+    if (!key) {
+      this.logger.warn('INTEGRITY_SIGNING_KEY is not set; chain checkpoints were not signed');
+      return { groupsChecked: 0, checkpointsCreated: 0 };
+    }
+
+    const groups = await this.prisma.group.findMany({
+      where: { deletedAt: null },
+      select: { id: true },
+    });
+
+    let checkpointsCreated = 0;
+    for (const group of groups) {
+      try {
+        await this.ledgerService.sealChain(group.id);
+        await this.auditService.sealChain(group.id);
+
+        const [ledgerHead, auditHead] = await Promise.all([
+          this.prisma.ledgerEntry.findFirst({
+            where: { groupId: group.id, hash: { not: null } },
+            orderBy: { sequence: 'desc' },
+            select: { sequence: true, hash: true },
+          }),
+          this.prisma.auditLog.findFirst({
+            where: { groupId: group.id, hash: { not: null } },
+            orderBy: { sequence: 'desc' },
+            select: { sequence: true, hash: true },
+          }),
+        ]);
+
+        for (const [chain, head] of [
+          ['LEDGER', ledgerHead],
+          ['AUDIT', auditHead],
+        ] as const) {
+          if (head && (await this.signHead(group.id, chain, head.sequence, head.hash!, key))) {
+            checkpointsCreated++;
+          }
+        }
+      } catch (error) {
+        this.logger.error(`Failed to checkpoint chains for group ${group.id}`, error);
+      }
+    }
+
+    this.logger.log(`Signed ${checkpointsCreated} chain checkpoints for ${groups.length} groups`);
+
+    return { groupsChecked: groups.length, checkpointsCreated };
+  }
+
+  async getCheckpoints(
+    groupId: string,
+    options: { chain?: IntegrityChain; limit?: number; offset?: number } = {},
+  ) {
+    const { chain, limit = 30, offset = 0 } = options;
+    const where = { groupId, ...(chain && { chain }) };
+
+    const [checkpoints, total] = await Promise.all([
+      this.prisma.chainCheckpoint.findMany({
+        where,
+        orderBy: [{ signedAt: 'desc' }, { chain: 'asc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.chainCheckpoint.count({ where }),
+    ]);
+
+    return { checkpoints, total, limit, offset };
+  }
+
+  /**
+   * The public half of the checkpoint signing key, so checkpoints can be
+   * verified outside the platform
+   */
+  getPublicKey() {
+    const key = this.getSigningKey();
+    if (!key) {
+      throw new NotFoundException('No checkpoint signing key is configured');
+    }
+
+    return {
+      keyId: key.keyId,
+      algorithm: 'Ed25519',
+      publicKey: key.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    };
+  }
+
+  private async verifyChain<T extends ChainLink>(
+    groupId: string,
+    chain: IntegrityChain,
+    fetchAfter: (afterSequence: number) => Promise<T[]>,
+    hashOf: (row: T, prevHash: string) => string,
+  ): Promise<ChainReport> {
+    const verifier = new ChainVerifier<T>(hashOf);
+
+    let afterSequence = 0;
+    while (!verifier.broken) {
+      const rows = await fetchAfter(afterSequence);
+      for (const row of rows) {
+        if (!verifier.push(row)) {
+          break;
+        }
+      }
+      if (rows.length < VERIFY_BATCH_SIZE) {
+        break;
+      }
+      afterSequence = rows[rows.length - 1].sequence;
+    }
+
+    const result = verifier.result();
+    const { checkpoint, rowId } = await this.verifyCheckpoint(groupId, chain);
+
+    // A chain rewritten end to end is internally consistent but no longer
+    // matches the head that was signed
+    if (
+      result.valid &&
+      checkpoint &&
+      (!checkpoint.matchesChain || checkpoint.signatureValid === false)
+    ) {
+      return {
+        ...result,
+        valid: false,
+        brokenAt: {
+          id: rowId,
+          sequence: checkpoint.sequence,
+          reason: checkpoint.matchesChain
+            ? 'Checkpoint signature is invalid'
+            : 'Row does not match the signed checkpoint',
+        },
+        checkpoint,
+      };
+    }
+
+    return { ...result, checkpoint };
+  }
+
+  private async verifyCheckpoint(
+    groupId: string,
+    chain: IntegrityChain,
+  ): Promise<{ checkpoint: CheckpointVerification | null; rowId: string | null }> {
+    const checkpoint = await this.prisma.chainCheckpoint.findFirst({
+      where: { groupId, chain },
+      orderBy: { sequence: 'desc' },
+    });
+
+    if (!checkpoint) {
+      return { checkpoint: null, rowId: null };
+    }
+
+    const row = await this.findChainRow(groupId, chain, checkpoint.sequence);
+
+    const key = this.getSigningKey();
+    let signatureValid: boolean | null = null;
+    if (key && key.keyId === checkpoint.keyId) {
+      signatureValid = verify(
+        null,
+        Buffer.from(checkpointPayload(checkpoint)),
+        key.publicKey,
+        Buffer.from(checkpoint.signature, 'base64'),
+      );
+    }
+
+    return {
+      checkpoint: {
+        sequence: checkpoint.sequence,
+        headHash: checkpoint.headHash,
+        keyId: checkpoint.keyId,
+        signedAt: checkpoint.signedAt,
+        signatureValid,
+        matchesChain: row?.hash === checkpoint.headHash,
+      },
+      rowId: row?.id ?? null,
+    };
+  }
+
+  private async signHead(
+    groupId: string,
+    chain: IntegrityChain,
+    sequence: number,
+    headHash: string,
+    key: SigningKey,
+  ): Promise<boolean> {
+    const last = await this.prisma.chainCheckpoint.findFirst({
+      where: { groupId, chain },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true },
+    });
+
+    if (last && last.sequence >= sequence) {
+      return false;
+    }
+
+    const signedAt = new Date();
+    const signature = sign(
+      null,
+      Buffer.from(checkpointPayload({ groupId, chain, sequence, headHash, signedAt })),
+      key.privateKey,
+    );
+
+    await this.prisma.chainCheckpoint.create({
+      data: {
+        groupId,
+        chain,
+        sequence,
+        headHash,
+        signature: signature.toString('base64'),
+        keyId: key.keyId,
+        signedAt,
+      },
+    });
+
+    return true;
+  }
+
+  private findChainRow(groupId: string, chain: IntegrityChain, sequence: number) {
+    const query = { where: { groupId, sequence }, select: { id: true, hash: true } };
+    return chain === 'LEDGER'
+      ? this.prisma.ledgerEntry.findFirst(query)
+      : this.prisma.auditLog.findFirst(query);
+  }
+
+  /**
+   * Ed25519 private key in PEM form; escaped newlines are accepted so the
+   * key fits on one line of an env file
+   */
+  private getSigningKey(): SigningKey | null {
+    if (this.signingKey === undefined) {
+      const pem = this.configService.get<string>('INTEGRITY_SIGNING_KEY');
+      if (!pem) {
+        this.signingKey = null;
+      } else {
+        const privateKey = createPrivateKey(pem.replace(/\\n/g, '\n'));
+        const publicKey = createPublicKey(privateKey);
+        const keyId = createHash('sha256')
+          .update(publicKey.export({ type: 'spki', format: 'der' }))
+          .digest('hex')
+          .slice(0, 16);
+        this.signingKey = { privateKey, publicKey, keyId };
+      }
+    }
+
+    return this.signingKey;
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  describeAccountingPeriod,
+  getAccountingPeriodRange,
+  toEffectiveDate,
+} from './accounting-period';
+
+describe('toEffectiveDate', () => {
+  it('should drop the time of day in UTC', () => {
+    expect(toEffectiveDate(new Date('2024-04-30T23:15:00Z'))).toEqual(
+      new Date('2024-04-30T00:00:00Z'),
+    );
+  });
+});
+
+describe('getAccountingPeriodRange', () => {
+  it('should cover a calendar month', () => {
+    expect(getAccountingPeriodRange('MONTH', '2024-02')).toEqual({
+      periodStart: new Date('2024-02-01T00:00:00Z'),
+      periodEnd: new Date('2024-02-29T00:00:00Z'),
+    });
+  });
+
+  it('should cover twelve months for a financial year', () => {
+    expect(getAccountingPeriodRange('FINANCIAL_YEAR', '2024-03')).toEqual({
+      periodStart: new Date('2024-03-01T00:00:00Z'),
+      periodEnd: new Date('2025-02-28T00:00:00Z'),
+    });
+  });
+
+  it('should reject malformed months', () => {
+    expect(() => getAccountingPeriodRange('MONTH', '2024-4')).toThrow('Invalid period month');
+  });
+});
+
+describe('describeAccountingPeriod', () => {
+  it('should name months and years', () => {
+    expect(describeAccountingPeriod(getAccountingPeriodRange('MONTH', '2024-04'))).toBe('2024-04');
+    expect(describeAccountingPeriod(getAccountingPeriodRange('FINANCIAL_YEAR', '2024-03'))).toBe(
+      '2024-03 to 2025-02',
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { AccountingPeriodType } from '@prisma/client';
+
+export interface AccountingPeriodRange {
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * The UTC calendar day a ledger entry takes effect on
+ */
+export function toEffectiveDate(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+}
+
+/**
+ * Dates covered by a period, from its first month as 'YYYY-MM'. A financial
+ * year runs for twelve months from whichever month the group's year starts.
+ */
+export function getAccountingPeriodRange(
+  periodType: AccountingPeriodType,
+  startMonth: string,
+): AccountingPeriodRange {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(startMonth);
+  if (!match) {
+    throw new Error(`Invalid period month: ${startMonth}`);
+  }
+
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  const months = periodType === 'FINANCIAL_YEAR' ? 12 : 1;
+
+  return {
+    periodStart: new Date(Date.UTC(year, monthIndex, 1)),
+    periodEnd: new Date(Date.UTC(year, monthIndex + months, 0)),
+  };
+}
+
+/**
+ * Human-readable name for a period, e.g. '2024-04' or '2024-03 to 2025-02'
+ */
+export function describeAccountingPeriod(period: AccountingPeriodRange): string {
+  const start = period.periodStart.toISOString().slice(0, 7);
+  const end = period.periodEnd.toISOString().slice(0, 7);
+  return start === end ? start : `${start} to ${end}`;
+}
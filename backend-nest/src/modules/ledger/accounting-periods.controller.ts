@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { AccountingPeriodsService } from './accounting-periods.service';
+import {
+  CloseAccountingPeriodDto,
+  CreateLedgerCorrectionDto,
+  DecidePeriodReopenDto,
+  RequestPeriodReopenDto,
+} from './dto/accounting-period.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { TreasurerOrHigher, ChairpersonOnly, AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('ledger')
+@Controller({ path: 'groups/:groupId/ledger', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class AccountingPeriodsController {
+  constructor(private readonly periodsService: AccountingPeriodsService) {}
+
+  @Get('periods')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get closed and reopened accounting periods' })
+  @ApiResponse({ status: 200, description: 'Accounting periods list' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  findAll(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.periodsService.getPeriods(groupId, { limit, offset });
+  }
+
+  @Post('periods/close')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Close a month or financial year and snapshot its balance' })
+  @ApiResponse({ status: 201, description: 'Period closed' })
+  close(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CloseAccountingPeriodDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.periodsService.closePeriod(groupId, dto, user.id);
+  }
+
+  @Post('periods/:periodId/reopen')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Request that a closed period be reopened' })
+  @ApiResponse({ status: 201, description: 'Reopen requested; awaiting chairperson approval' })
+  requestReopen(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('periodId', ParseUUIDPipe) periodId: string,
+    @Body() dto: RequestPeriodReopenDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.periodsService.requestReopen(groupId, periodId, dto, user.id);
+  }
+
+  @Post('periods/:periodId/reopen/decision')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Approve or reject reopening a closed period' })
+  @ApiResponse({ status: 201, description: 'Reopen decision recorded' })
+  decideReopen(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('periodId', ParseUUIDPipe) periodId: string,
+    @Body() dto: DecidePeriodReopenDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.periodsService.decideReopen(groupId, periodId, dto, user.id);
+  }
+
+  @Post('corrections')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Post a correction in the open period' })
+  @ApiResponse({ status: 201, description: 'Correction posted' })
+  createCorrection(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateLedgerCorrectionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.periodsService.postCorrection(groupId, dto, user.id);
+  }
+}
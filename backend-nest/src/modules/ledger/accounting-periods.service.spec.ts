@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Decimal } from 'decimal.js';
+import { AccountingPeriodsService } from './accounting-periods.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from './ledger.service';
+
+describe('AccountingPeriodsService', () => {
+  let service: AccountingPeriodsService;
+
+  const mockPrismaService: any = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    $executeRaw: jest.fn(),
+    accountingPeriod: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn((args) => Promise.resolve({ id: 'period-1', ...args.data })),
+      update: jest.fn((args) => Promise.resolve({ id: args.where.id, ...args.data })),
+    },
+    ledgerEntry: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    getPeriodTotals: jest.fn(),
+    createCorrection: jest.fn(),
+  };
+
+  const closedPeriod = {
+    id: 'period-1',
+    groupId: 'group-1',
+    periodType: 'MONTH',
+    periodStart: new Date('2024-04-01T00:00:00Z'),
+    periodEnd: new Date('2024-04-30T00:00:00Z'),
+    status: 'CLOSED',
+    reopenReason: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountingPeriodsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<AccountingPeriodsService>(AccountingPeriodsService);
+
+    jest.clearAllMocks();
+    mockPrismaService.accountingPeriod.findUnique.mockResolvedValue(null);
+    mockPrismaService.accountingPeriod.findFirst.mockResolvedValue(closedPeriod);
+    mockPrismaService.ledgerEntry.findFirst.mockResolvedValue({ sequence: 42 });
+    mockLedgerService.getPeriodTotals.mockImplementation((_tx, _groupId, range) =>
+      Promise.resolve(
+        range.from
+          ? { totalCredits: new Decimal(1500), totalDebits: new Decimal(400), entryCount: 5 }
+          : { totalCredits: new Decimal(10000), totalDebits: new Decimal(2000), entryCount: 30 },
+      ),
+    );
+  });
+
+  describe('closePeriod', () => {
+    it('should snapshot the opening and closing balance under the ledger lock', async () => {
+      const period = await service.closePeriod(
+        'group-1',
+        { periodType: 'MONTH', startMonth: '2024-04' },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.$executeRaw).toHaveBeenCalled();
+      expect(mockLedgerService.getPeriodTotals).toHaveBeenCalledWith(mockPrismaService, 'group-1', {
+        to: new Date('2024-03-31T00:00:00Z'),
+      });
+      expect(period).toEqual(
+        expect.objectContaining({
+          periodStart: new Date('2024-04-01T00:00:00Z'),
+          periodEnd: new Date('2024-04-30T00:00:00Z'),
+          status: 'CLOSED',
+          entryCount: 5,
+          headSequence: 42,
+        }),
+      );
+      expect(period.openingBalance.toString()).toBe('8000');
+      expect(period.closingBalance.toString()).toBe('9100');
+    });
+
+    it('should refuse a period that has not ended', async () => {
+      const month = new Date().toISOString().slice(0, 7);
+
+      await expect(
+        service.closePeriod('group-1', { periodType: 'MONTH', startMonth: month }, 'treasurer-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse a period that is already closed', async () => {
+      mockPrismaService.accountingPeriod.findUnique.mockResolvedValue(closedPeriod);
+
+      await expect(
+        service.closePeriod(
+          'group-1',
+          { periodType: 'MONTH', startMonth: '2024-04' },
+          'treasurer-1',
+        ),
+      ).rejects.toThrow('Accounting period 2024-04 is already closed');
+    });
+
+    it('should close a reopened period again with a fresh snapshot', async () => {
+      mockPrismaService.accountingPeriod.findUnique.mockResolvedValue({
+        ...closedPeriod,
+        status: 'REOPENED',
+      });
+
+      const period = await service.closePeriod(
+        'group-1',
+        { periodType: 'MONTH', startMonth: '2024-04' },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.accountingPeriod.create).not.toHaveBeenCalled();
+      expect(period.status).toBe('CLOSED');
+    });
+  });
+
+  describe('reopening', () => {
+    it('should keep the period closed until the chairperson approves', async () => {
+      const requested = await service.requestReopen(
+        'group-1',
+        'period-1',
+        { reason: 'Missed bank charges' },
+        'treasurer-1',
+      );
+
+      expect(requested.status).toBe('REOPEN_REQUESTED');
+    });
+
+    it('should reopen on approval', async () => {
+      mockPrismaService.accountingPeriod.findFirst.mockResolvedValue({
+        ...closedPeriod,
+        status: 'REOPEN_REQUESTED',
+      });
+
+      const reopened = await service.decideReopen(
+        'group-1',
+        'period-1',
+        { decision: 'APPROVED' },
+        'chair-1',
+      );
+
+      expect(reopened).toEqual(
+        expect.objectContaining({ status: 'REOPENED', reopenedById: 'chair-1' }),
+      );
+    });
+
+    it('should return the period to closed on rejection', async () => {
+      mockPrismaService.accountingPeriod.findFirst.mockResolvedValue({
+        ...closedPeriod,
+        status: 'REOPEN_REQUESTED',
+      });
+
+      const result = await service.decideReopen(
+        'group-1',
+        'period-1',
+        { decision: 'REJECTED' },
+        'chair-1',
+      );
+
+      expect(result.status).toBe('CLOSED');
+    });
+
+    it('should not decide a period nobody asked to reopen', async () => {
+      await expect(
+        service.decideReopen('group-1', 'period-1', { decision: 'APPROVED' }, 'chair-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not find a period from another group', async () => {
+      mockPrismaService.accountingPeriod.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.requestReopen('group-2', 'period-1', { reason: 'x' }, 'treasurer-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from './ledger.service';
+import { lockChain } from '../integrity/hash-chain';
+import {
+  describeAccountingPeriod,
+  getAccountingPeriodRange,
+  toEffectiveDate,
+} from './accounting-period';
+import {
+  CloseAccountingPeriodDto,
+  CreateLedgerCorrectionDto,
+  DecidePeriodReopenDto,
+  RequestPeriodReopenDto,
+} from './dto/accounting-period.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class AccountingPeriodsService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  async getPeriods(groupId: string, options: { limit?: number; offset?: number } = {}) {
+    const { limit = 24, offset = 0 } = options;
+
+    const [periods, total] = await Promise.all([
+      this.prisma.accountingPeriod.findMany({
+        where: { groupId },
+        orderBy: [{ periodStart: 'desc' }, { periodType: 'asc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.accountingPeriod.count({ where: { groupId } }),
+    ]);
+
+    return { periods, total, limit, offset };
+  }
+
+  /**
+   * Close a month or financial year that has ended. The ledger is locked
+   * while the closing balance is snapshotted, and from then on no entry may
+   * be dated in the period. A reopened period can be closed again.
+   */
+  async closePeriod(groupId: string, dto: CloseAccountingPeriodDto, userId: string) {
+    const range = getAccountingPeriodRange(dto.periodType, dto.startMonth);
+    const name = describeAccountingPeriod(range);
+
+    if (range.periodEnd >= toEffectiveDate(new Date())) {
+      throw new BadRequestException('Only a period that has ended can be closed');
+    }
+
+    const period = await this.prisma.$transaction(async (tx) => {
+      // Hold the ledger while the snapshot is taken
+      await lockChain(tx, 'ledger', groupId);
+
+      const existing = await tx.accountingPeriod.findUnique({
+        where: {
+          groupId_periodType_periodStart: {
+            groupId,
+            periodType: dto.periodType,
+            periodStart: range.periodStart,
+          },
+        },
+      });
+      if (existing && existing.status !== 'REOPENED') {
+        throw new BadRequestException(`Accounting period ${name} is already closed`);
+      }
+
+      const [before, during, head] = await Promise.all([
+        this.ledgerService.getPeriodTotals(tx, groupId, {
+          to: new Date(range.periodStart.getTime() - DAY_MS),
+        }),
+        this.ledgerService.getPeriodTotals(tx, groupId, {
+          from: range.periodStart,
+          to: range.periodEnd,
+        }),
+        tx.ledgerEntry.findFirst({
+          where: { groupId },
+          orderBy: { sequence: 'desc' },
+          select: { sequence: true },
+        }),
+      ]);
+
+      const openingBalance = before.totalCredits.minus(before.totalDebits);
+      const closingBalance = openingBalance.plus(during.totalCredits).minus(during.totalDebits);
+
+      const snapshot = {
+        status: 'CLOSED' as const,
+        openingBalance: new Prisma.Decimal(openingBalance.toString()),
+        closingBalance: new Prisma.Decimal(closingBalance.toString()),
+        totalCredits: new Prisma.Decimal(during.totalCredits.toString()),
+        totalDebits: new Prisma.Decimal(during.totalDebits.toString()),
+        entryCount: during.entryCount,
+        headSequence: head?.sequence ?? 0,
+        closedById: userId,
+        closedAt: new Date(),
+      };
+
+      if (existing) {
+        return tx.accountingPeriod.update({
+          where: { id: existing.id },
+          data: {
+            ...snapshot,
+            reopenRequestedById: null,
+            reopenRequestedAt: null,
+            reopenReason: null,
+          },
+        });
+      }
+
+      return tx.accountingPeriod.create({
+        data: {
+          groupId,
+          periodType: dto.periodType,
+          periodStart: range.periodStart,
+          periodEnd: range.periodEnd,
+          ...snapshot,
+        },
+      });
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ACCOUNTING_PERIOD_CLOSED',
+      resourceType: 'ACCOUNTING_PERIOD',
+      resourceId: period.id,
+      groupId,
+      afterState: {
+        periodType: period.periodType,
+        period: name,
+        openingBalance: period.openingBalance.toString(),
+        closingBalance: period.closingBalance.toString(),
+        entryCount: period.entryCount,
+        headSequence: period.headSequence,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return period;
+  }
+
+  /**
+   * Ask the chairperson to reopen a closed period. It stays closed until
+   * they approve.
+   */
+  async requestReopen(
+    groupId: string,
+    periodId: string,
+    dto: RequestPeriodReopenDto,
+    userId: string,
+  ) {
+    const period = await this.getPeriod(groupId, periodId);
+
+    if (period.status !== 'CLOSED') {
+      throw new BadRequestException(
+        period.status === 'REOPEN_REQUESTED'
+          ? 'Reopening this period has already been requested'
+          : 'This period is not closed',
+      );
+    }
+
+    const updated = await this.prisma.accountingPeriod.update({
+      where: { id: periodId },
+      data: {
+        status: 'REOPEN_REQUESTED',
+        reopenRequestedById: userId,
+        reopenRequestedAt: new Date(),
+        reopenReason: dto.reason,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ACCOUNTING_PERIOD_REOPEN_REQUESTED',
+      resourceType: 'ACCOUNTING_PERIOD',
+      resourceId: periodId,
+      groupId,
+      afterState: { period: describeAccountingPeriod(period), reason: dto.reason },
+      outcome: 'SUCCESS',
+    });
+
+    return updated;
+  }
+
+  /**
+   * Chairperson's decision on a reopen request. Approval lets entries be
+   * dated in the period again until it is closed again.
+   */
+  async decideReopen(
+    groupId: string,
+    periodId: string,
+    dto: DecidePeriodReopenDto,
+    userId: string,
+  ) {
+    const period = await this.getPeriod(groupId, periodId);
+
+    if (period.status !== 'REOPEN_REQUESTED') {
+      throw new BadRequestException('Reopening this period has not been requested');
+    }
+
+    const approved = dto.decision === 'APPROVED';
+    const updated = await this.prisma.accountingPeriod.update({
+      where: { id: periodId },
+      data: approved
+        ? { status: 'REOPENED', reopenedById: userId, reopenedAt: new Date() }
+        : {
+            status: 'CLOSED',
+            reopenRequestedById: null,
+            reopenRequestedAt: null,
+            reopenReason: null,
+          },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: approved ? 'ACCOUNTING_PERIOD_REOPENED' : 'ACCOUNTING_PERIOD_REOPEN_REJECTED',
+      resourceType: 'ACCOUNTING_PERIOD',
+      resourceId: periodId,
+      groupId,
+      beforeState: { status: period.status, reason: period.reopenReason },
+      afterState: { status: updated.status, note: dto.note },
+      outcome: 'SUCCESS',
+    });
+
+    return updated;
+  }
+
+  /**
+   * Post a correction in the open period, pointing back to the entry it
+   * corrects when there is one
+   */
+  async postCorrection(groupId: string, dto: CreateLedgerCorrectionDto, userId: string) {
+    const { entry, newBalance } = await this.ledgerService.createCorrection(
+      groupId,
+      new Decimal(dto.amount),
+      dto.direction === 'CREDIT',
+      dto.reason,
+      userId,
+      dto.correctsEntryId,
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LEDGER_CORRECTION_POSTED',
+      resourceType: 'LEDGER_ENTRY',
+      resourceId: entry.id,
+      groupId,
+      afterState: {
+        amount: dto.amount,
+        direction: dto.direction,
+        reason: dto.reason,
+        correctsEntryId: dto.correctsEntryId,
+        balanceAfter: newBalance.toString(),
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return entry;
+  }
+
+  private async getPeriod(groupId: string, periodId: string) {
+    const period = await this.prisma.accountingPeriod.findFirst({
+      where: { id: periodId, groupId },
+    });
+
+    if (!period) {
+      throw new NotFoundException('Accounting period not found');
+    }
+
+    return period;
+  }
+}
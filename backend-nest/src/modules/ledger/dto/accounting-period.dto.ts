@@ -0,0 +1,65 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  Matches,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AccountingPeriodType, ApprovalDecision } from '@prisma/client';
+
+export class CloseAccountingPeriodDto {
+  @ApiProperty({ enum: AccountingPeriodType, example: 'MONTH' })
+  @IsEnum(AccountingPeriodType)
+  periodType: AccountingPeriodType;
+
+  @ApiProperty({
+    example: '2026-01',
+    description: 'First month of the period; a financial year runs twelve months from it',
+  })
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Start month must be in YYYY-MM format' })
+  startMonth: string;
+}
+
+export class RequestPeriodReopenDto {
+  @ApiProperty({ example: 'Bank charges for January were never captured' })
+  @IsString()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class DecidePeriodReopenDto {
+  @ApiProperty({ enum: ApprovalDecision, example: 'APPROVED' })
+  @IsEnum(ApprovalDecision)
+  decision: ApprovalDecision;
+
+  @ApiPropertyOptional({ example: 'Reopen for the bank charges only' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class CreateLedgerCorrectionDto {
+  @ApiProperty({ example: 150, description: 'Correction amount' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ enum: ['CREDIT', 'DEBIT'], example: 'DEBIT' })
+  @IsEnum(['CREDIT', 'DEBIT'])
+  direction: 'CREDIT' | 'DEBIT';
+
+  @ApiProperty({ example: 'January bank charges not captured' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({ description: 'Ledger entry being corrected' })
+  @IsOptional()
+  @IsUUID()
+  correctsEntryId?: string;
+}
@@ -0,0 +1,69 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsIn,
+  IsDateString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LedgerEntryType } from '@prisma/client';
+import { LEDGER_EXPORT_FORMATS, LedgerExportFormat } from '../ledger-export';
+
+export class LedgerExportQueryDto {
+  @ApiProperty({ enum: LEDGER_EXPORT_FORMATS, example: 'JOURNAL' })
+  @IsIn(LEDGER_EXPORT_FORMATS)
+  format: LedgerExportFormat;
+
+  @ApiPropertyOptional({ example: '2026-03-01', description: 'First effective date to include' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: '2026-03-31', description: 'Last effective date to include' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    enum: LedgerEntryType,
+    isArray: true,
+    description: 'Entry types to include, comma separated; all when omitted',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
+  @IsEnum(LedgerEntryType, { each: true })
+  entryTypes?: LedgerEntryType[];
+}
+
+export class UpdateLedgerAccountMappingDto {
+  @ApiProperty({ example: '4000', description: 'Income or expense account code' })
+  @IsString()
+  @Matches(/^[A-Za-z0-9.\-/]+$/, {
+    message: 'Account code may only contain letters, digits, . - /',
+  })
+  @MaxLength(30)
+  accountCode: string;
+
+  @ApiProperty({ example: 'Member contributions' })
+  @IsString()
+  @MaxLength(100)
+  accountName: string;
+
+  @ApiPropertyOptional({ example: '1000', description: 'Bank or cash account holding the pot' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[A-Za-z0-9.\-/]+$/, {
+    message: 'Account code may only contain letters, digits, . - /',
+  })
+  @MaxLength(30)
+  cashAccountCode?: string;
+
+  @ApiPropertyOptional({ example: 'FNB Business Account' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  cashAccountName?: string;
+}
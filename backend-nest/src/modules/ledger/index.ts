@@ -1,3 +1,8 @@
 export * from './ledger.module';
 export * from './ledger.service';
 export * from './ledger.controller';
+export * from './accounting-periods.service';
+export * from './accounting-periods.controller';
+export * from './ledger-export.service';
+export * from './ledger-export.controller';
+export * from './ledger-export';
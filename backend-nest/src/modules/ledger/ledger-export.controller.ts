@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiProduces } from '@nestjs/swagger';
+import { LedgerEntryType } from '@prisma/client';
+import { LedgerExportService } from './ledger-export.service';
+import { LedgerExportQueryDto, UpdateLedgerAccountMappingDto } from './dto/ledger-export.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { TreasurerOrHigher, AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('ledger')
+@Controller({ path: 'groups/:groupId/ledger', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class LedgerExportController {
+  constructor(private readonly exportService: LedgerExportService) {}
+
+  @Get('export')
+  @AnyMember()
+  @ApiOperation({ summary: 'Download the ledger as CSV, OFX, QIF or a double-entry journal' })
+  @ApiProduces('text/csv', 'application/x-ofx', 'application/qif')
+  @ApiResponse({ status: 200, description: 'Ledger export file' })
+  async export(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query() query: LedgerExportQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const file = await this.exportService.exportLedger(groupId, query, user.id);
+    return new StreamableFile(Buffer.from(file.content), {
+      type: `${file.contentType}; charset=utf-8`,
+      disposition: `attachment; filename="${file.filename}"`,
+    });
+  }
+
+  @Get('account-mappings')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get the account each entry type is exported to' })
+  @ApiResponse({ status: 200, description: 'Account mappings, defaults included' })
+  getAccountMappings(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.exportService.getAccountMappings(groupId);
+  }
+
+  @Patch('account-mappings/:entryType')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Map an entry type to an account in your chart of accounts' })
+  @ApiResponse({ status: 200, description: 'Account mapping saved' })
+  updateAccountMapping(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('entryType', new ParseEnumPipe(LedgerEntryType)) entryType: LedgerEntryType,
+    @Body() dto: UpdateLedgerAccountMappingDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.exportService.updateAccountMapping(groupId, entryType, dto, user.id);
+  }
+
+  @Delete('account-mappings/:entryType')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Return an entry type to the default account' })
+  @ApiResponse({ status: 200, description: 'Account mapping reset' })
+  resetAccountMapping(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('entryType', new ParseEnumPipe(LedgerEntryType)) entryType: LedgerEntryType,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.exportService.resetAccountMapping(groupId, entryType, user.id);
+  }
+}
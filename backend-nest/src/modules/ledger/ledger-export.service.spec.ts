@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { LedgerExportService } from './ledger-export.service';
+import { LedgerService } from './ledger.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('LedgerExportService', () => {
+  let service: LedgerExportService;
+
+  const mockPrismaService: any = {
+    group: {
+      findFirst: jest.fn(),
+    },
+    ledgerEntry: {
+      findMany: jest.fn(),
+    },
+    ledgerAccountMapping: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn((args) => Promise.resolve({ id: 'mapping-1', ...args.create })),
+      delete: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const entry = (sequence: number, entryType: string, amount: string, balanceAfter: string) => ({
+    id: `entry-${sequence}`,
+    sequence,
+    effectiveDate: new Date('2026-03-10T00:00:00Z'),
+    entryType,
+    amount: new Prisma.Decimal(amount),
+    balanceAfter: new Prisma.Decimal(balanceAfter),
+    description: null,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LedgerExportService,
+        LedgerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+      ],
+    }).compile();
+
+    service = module.get<LedgerExportService>(LedgerExportService);
+
+    jest.clearAllMocks();
+    mockPrismaService.group.findFirst.mockResolvedValue({ name: 'Ubuntu', currency: 'ZAR' });
+    mockPrismaService.ledgerAccountMapping.findMany.mockResolvedValue([]);
+    mockPrismaService.ledgerEntry.findMany.mockResolvedValue([
+      entry(1, 'CONTRIBUTION_CREDIT', '500', '500'),
+      entry(2, 'PAYOUT_DEBIT', '200', '300'),
+      entry(3, 'CORRECTION', '-50', '250'),
+    ]);
+  });
+
+  describe('exportLedger', () => {
+    it('should filter by effective date and entry type', async () => {
+      await service.exportLedger(
+        'group-1',
+        {
+          format: 'CSV',
+          startDate: '2026-03-01',
+          endDate: '2026-03-31',
+          entryTypes: ['CONTRIBUTION_CREDIT', 'CORRECTION'],
+        },
+        'user-1',
+      );
+
+      expect(mockPrismaService.ledgerEntry.findMany).toHaveBeenCalledWith({
+        where: {
+          groupId: 'group-1',
+          entryType: { in: ['CONTRIBUTION_CREDIT', 'CORRECTION'] },
+          effectiveDate: {
+            gte: new Date('2026-03-01'),
+            lte: new Date('2026-03-31'),
+          },
+        },
+        orderBy: [{ effectiveDate: 'asc' }, { sequence: 'asc' }],
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'LEDGER_EXPORTED' }),
+      );
+    });
+
+    it('should post payouts and negative corrections out of the pot', async () => {
+      const file = await service.exportLedger('group-1', { format: 'JOURNAL' }, 'user-1');
+      const lines = file.content.trim().split('\r\n');
+
+      expect(lines.slice(3)).toEqual([
+        '2026-03-10,5000,Member payouts,200.00,,LE-2,',
+        '2026-03-10,1000,Bank,,200.00,LE-2,',
+        '2026-03-10,3900,Corrections,50.00,,LE-3,',
+        '2026-03-10,1000,Bank,,50.00,LE-3,',
+      ]);
+    });
+
+    it('should use the group mappings', async () => {
+      mockPrismaService.ledgerAccountMapping.findMany.mockResolvedValue([
+        {
+          entryType: 'CONTRIBUTION_CREDIT',
+          accountCode: '4010',
+          accountName: 'Savings contributions',
+          cashAccountCode: '1010',
+          cashAccountName: 'Capitec',
+        },
+      ]);
+
+      const file = await service.exportLedger('group-1', { format: 'JOURNAL' }, 'user-1');
+
+      expect(file.content).toContain('1010,Capitec,500.00,,LE-1');
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(
+        service.exportLedger(
+          'group-1',
+          { format: 'CSV', startDate: '2026-03-31', endDate: '2026-03-01' },
+          'user-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('account mappings', () => {
+    it('should list every entry type with defaults marked', async () => {
+      mockPrismaService.ledgerAccountMapping.findMany.mockResolvedValue([
+        {
+          entryType: 'FEE_DEBIT',
+          accountCode: '6100',
+          accountName: 'Bank fees',
+          cashAccountCode: '1000',
+          cashAccountName: 'Bank',
+        },
+      ]);
+
+      const mappings = await service.getAccountMappings('group-1');
+
+      expect(mappings).toHaveLength(16);
+      expect(mappings.find((m) => m.entryType === 'FEE_DEBIT')).toEqual(
+        expect.objectContaining({ accountCode: '6100', isDefault: false }),
+      );
+      expect(mappings.find((m) => m.entryType === 'FINE_CREDIT')).toEqual(
+        expect.objectContaining({ accountCode: '4100', isDefault: true }),
+      );
+    });
+
+    it('should keep the current cash account when none is given', async () => {
+      const mapping = await service.updateAccountMapping(
+        'group-1',
+        'FINE_CREDIT',
+        { accountCode: '4150', accountName: 'Late payment fines' },
+        'treasurer-1',
+      );
+
+      expect(mapping).toEqual(
+        expect.objectContaining({
+          accountCode: '4150',
+          cashAccountCode: '1000',
+          cashAccountName: 'Bank',
+        }),
+      );
+    });
+
+    it('should not reset a type that was never mapped', async () => {
+      mockPrismaService.ledgerAccountMapping.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.resetAccountMapping('group-1', 'FINE_CREDIT', 'treasurer-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { LedgerEntryType } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from './ledger.service';
+import {
+  DEFAULT_LEDGER_ACCOUNTS,
+  formatLedgerExport,
+  LedgerAccount,
+  LedgerExportFile,
+} from './ledger-export';
+import { LedgerExportQueryDto, UpdateLedgerAccountMappingDto } from './dto/ledger-export.dto';
+
+@Injectable()
+export class LedgerExportService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Account each entry type is posted to in a journal export, with the
+   * defaults filled in for types the group has not mapped
+   */
+  async getAccountMappings(groupId: string) {
+    const mappings = await this.prisma.ledgerAccountMapping.findMany({ where: { groupId } });
+    const accounts = toAccounts(mappings);
+    const custom = new Set(mappings.map((m) => m.entryType));
+
+    return (Object.keys(accounts) as LedgerEntryType[]).map((entryType) => ({
+      entryType,
+      ...accounts[entryType],
+      isDefault: !custom.has(entryType),
+    }));
+  }
+
+  async updateAccountMapping(
+    groupId: string,
+    entryType: LedgerEntryType,
+    dto: UpdateLedgerAccountMappingDto,
+    userId: string,
+  ) {
+    const accounts = await this.getAccounts(groupId);
+    const before = accounts[entryType];
+
+    const account = {
+      accountCode: dto.accountCode,
+      accountName: dto.accountName,
+      cashAccountCode: dto.cashAccountCode || before.cashAccountCode,
+      cashAccountName: dto.cashAccountName || before.cashAccountName,
+    };
+
+    const mapping = await this.prisma.ledgerAccountMapping.upsert({
+      where: { groupId_entryType: { groupId, entryType } },
+      create: { groupId, entryType, ...account, updatedById: userId },
+      update: { ...account, updatedById: userId },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LEDGER_ACCOUNT_MAPPING_UPDATED',
+      resourceType: 'LEDGER_ACCOUNT_MAPPING',
+      resourceId: mapping.id,
+      groupId,
+      beforeState: { entryType, ...before },
+      afterState: { entryType, ...account },
+      outcome: 'SUCCESS',
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Go back to the default account for an entry type
+   */
+  async resetAccountMapping(groupId: string, entryType: LedgerEntryType, userId: string) {
+    const mapping = await this.prisma.ledgerAccountMapping.findUnique({
+      where: { groupId_entryType: { groupId, entryType } },
+    });
+
+    if (!mapping) {
+      throw new NotFoundException('This entry type already uses the default account');
+    }
+
+    await this.prisma.ledgerAccountMapping.delete({ where: { id: mapping.id } });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LEDGER_ACCOUNT_MAPPING_RESET',
+      resourceType: 'LEDGER_ACCOUNT_MAPPING',
+      resourceId: mapping.id,
+      groupId,
+      beforeState: {
+        entryType,
+        accountCode: mapping.accountCode,
+        accountName: mapping.accountName,
+        cashAccountCode: mapping.cashAccountCode,
+        cashAccountName: mapping.cashAccountName,
+      },
+      afterState: { entryType, ...DEFAULT_LEDGER_ACCOUNTS[entryType] },
+      outcome: 'SUCCESS',
+    });
+
+    return { entryType, ...DEFAULT_LEDGER_ACCOUNTS[entryType], isDefault: true };
+  }
+
+  /**
+   * Export entries by effective date, oldest first, as CSV, OFX, QIF or a
+   * double-entry journal CSV
+   */
+  async exportLedger(
+    groupId: string,
+    query: LedgerExportQueryDto,
+    userId: string,
+  ): Promise<LedgerExportFile> {
+    const startDate = query.startDate ? new Date(query.startDate) : undefined;
+    const endDate = query.endDate ? new Date(query.endDate) : undefined;
+    if (startDate && endDate && startDate > endDate) {
+      throw new BadRequestException('Start date must be before end date');
+    }
+
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, deletedAt: null },
+      select: { name: true, currency: true },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+
+    const [entries, accounts] = await Promise.all([
+      this.prisma.ledgerEntry.findMany({
+        where: {
+          groupId,
+          ...(query.entryTypes?.length ? { entryType: { in: query.entryTypes } } : {}),
+          ...(startDate || endDate
+            ? {
+                effectiveDate: {
+                  ...(startDate && { gte: startDate }),
+                  ...(endDate && { lte: endDate }),
+                },
+              }
+            : {}),
+        },
+        orderBy: [{ effectiveDate: 'asc' }, { sequence: 'asc' }],
+      }),
+      this.getAccounts(groupId),
+    ]);
+
+    const file = formatLedgerExport(
+      query.format,
+      entries.map((entry) => {
+        const amount = new Decimal(entry.amount.toString());
+        return {
+          id: entry.id,
+          sequence: entry.sequence,
+          effectiveDate: entry.effectiveDate,
+          entryType: entry.entryType,
+          amount: this.ledgerService.isCredit(entry.entryType, amount)
+            ? amount.abs()
+            : amount.abs().negated(),
+          balanceAfter: new Decimal(entry.balanceAfter.toString()),
+          description: entry.description,
+        };
+      }),
+      {
+        groupId,
+        groupName: group.name,
+        currency: group.currency,
+        accounts,
+        startDate,
+        endDate,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LEDGER_EXPORTED',
+      resourceType: 'LEDGER',
+      resourceId: groupId,
+      groupId,
+      afterState: {
+        format: query.format,
+        startDate: query.startDate,
+        endDate: query.endDate,
+        entryTypes: query.entryTypes,
+        entryCount: entries.length,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return file;
+  }
+
+  private async getAccounts(groupId: string) {
+    const mappings = await this.prisma.ledgerAccountMapping.findMany({ where: { groupId } });
+    return toAccounts(mappings);
+  }
+}
+
+function toAccounts(
+  mappings: Array<LedgerAccount & { entryType: LedgerEntryType }>,
+): Record<LedgerEntryType, LedgerAccount> {
+  const accounts = { ...DEFAULT_LEDGER_ACCOUNTS };
+  for (const mapping of mappings) {
+    accounts[mapping.entryType] = {
+      accountCode: mapping.accountCode,
+      accountName: mapping.accountName,
+      cashAccountCode: mapping.cashAccountCode,
+      cashAccountName: mapping.cashAccountName,
+    };
+  }
+  return accounts;
+}
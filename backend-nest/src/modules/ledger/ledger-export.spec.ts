@@ -0,0 +1,107 @@
+import { Decimal } from 'decimal.js';
+import { DEFAULT_LEDGER_ACCOUNTS, ExportLedgerEntry, formatLedgerExport } from './ledger-export';
+
+describe('formatLedgerExport', () => {
+  const entries: ExportLedgerEntry[] = [
+    {
+      id: 'entry-1',
+      sequence: 1,
+      effectiveDate: new Date('2026-03-02T00:00:00Z'),
+      entryType: 'CONTRIBUTION_CREDIT',
+      amount: new Decimal(500),
+      balanceAfter: new Decimal(500),
+      description: 'Contribution from Thandi, March',
+    },
+    {
+      id: 'entry-2',
+      sequence: 2,
+      effectiveDate: new Date('2026-03-31T00:00:00Z'),
+      entryType: 'FEE_DEBIT',
+      amount: new Decimal('-12.5'),
+      balanceAfter: new Decimal('487.5'),
+      description: '=bank fee',
+    },
+  ];
+
+  const options = {
+    groupId: 'group-1',
+    groupName: 'Ubuntu Savings Club',
+    currency: 'ZAR',
+    accounts: DEFAULT_LEDGER_ACCOUNTS,
+  };
+
+  it('should name the file after the group and date range', () => {
+    const file = formatLedgerExport('CSV', entries, options);
+
+    expect(file.filename).toBe('ledger-ubuntu-savings-club-2026-03-02-to-2026-03-31.csv');
+    expect(file.contentType).toBe('text/csv');
+  });
+
+  it('should write money in and out in separate CSV columns', () => {
+    const lines = formatLedgerExport('CSV', entries, options).content.trim().split('\r\n');
+
+    expect(lines).toEqual([
+      'Date,Sequence,Type,Description,Money In,Money Out,Balance,Entry ID',
+      '2026-03-02,1,CONTRIBUTION_CREDIT,"Contribution from Thandi, March",500.00,,500.00,entry-1',
+      "2026-03-31,2,FEE_DEBIT,'=bank fee,,12.50,487.50,entry-2",
+    ]);
+  });
+
+  it('should post each entry to the journal as a balanced pair', () => {
+    const lines = formatLedgerExport('JOURNAL', entries, options).content.trim().split('\r\n');
+
+    expect(lines.slice(1)).toEqual([
+      '2026-03-02,1000,Bank,500.00,,LE-1,"Contribution from Thandi, March"',
+      '2026-03-02,4000,Member contributions,,500.00,LE-1,"Contribution from Thandi, March"',
+      "2026-03-31,5100,Bank charges,12.50,,LE-2,'=bank fee",
+      "2026-03-31,1000,Bank,,12.50,LE-2,'=bank fee",
+    ]);
+  });
+
+  it('should use the mapped accounts', () => {
+    const content = formatLedgerExport('JOURNAL', entries.slice(0, 1), {
+      ...options,
+      accounts: {
+        ...DEFAULT_LEDGER_ACCOUNTS,
+        CONTRIBUTION_CREDIT: {
+          accountCode: '4010',
+          accountName: 'Savings contributions',
+          cashAccountCode: '1010',
+          cashAccountName: 'FNB Business',
+        },
+      },
+    }).content;
+
+    expect(content).toContain('1010,FNB Business,500.00,');
+    expect(content).toContain('4010,Savings contributions,,500.00');
+  });
+
+  it('should write an OFX statement with signed amounts and the closing balance', () => {
+    const { content } = formatLedgerExport('OFX', entries, {
+      ...options,
+      startDate: new Date('2026-03-01T00:00:00Z'),
+      endDate: new Date('2026-03-31T00:00:00Z'),
+    });
+
+    expect(content.startsWith('OFXHEADER:100\r\n')).toBe(true);
+    expect(content).toContain('<DTSTART>20260301');
+    expect(content).toContain('<TRNTYPE>DEBIT\r\n<DTPOSTED>20260331\r\n<TRNAMT>-12.50');
+    expect(content).toContain('<FITID>entry-1');
+    expect(content).toContain('<BALAMT>487.50');
+  });
+
+  it('should write a QIF bank register with the mapped category', () => {
+    const { content } = formatLedgerExport('QIF', entries, options);
+
+    expect(content.split('\n').slice(0, 8)).toEqual([
+      '!Type:Bank',
+      'D03/02/2026',
+      'T500.00',
+      'NLE-1',
+      'PContribution credit',
+      'MContribution from Thandi, March',
+      'LMember contributions',
+      '^',
+    ]);
+  });
+});
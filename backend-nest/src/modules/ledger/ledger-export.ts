@@ -0,0 +1,325 @@
+import { LedgerEntryType } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+
+export const LEDGER_EXPORT_FORMATS = ['CSV', 'OFX', 'QIF', 'JOURNAL'] as const;
+
+export type LedgerExportFormat = (typeof LEDGER_EXPORT_FORMATS)[number];
+
+/**
+ * A ledger entry as exported; `amount` is signed, positive when it added to
+ * the pot and negative when it came out of it
+ */
+export interface ExportLedgerEntry {
+  id: string;
+  sequence: number;
+  effectiveDate: Date;
+  entryType: LedgerEntryType;
+  amount: Decimal;
+  balanceAfter: Decimal;
+  description: string | null;
+}
+
+export interface LedgerAccount {
+  accountCode: string;
+  accountName: string;
+  cashAccountCode: string;
+  cashAccountName: string;
+}
+
+export interface LedgerExportOptions {
+  groupId: string;
+  groupName: string;
+  currency: string;
+  accounts: Record<LedgerEntryType, LedgerAccount>;
+  // Defaults to the first and last entry
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface LedgerExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const CASH_ACCOUNT = { cashAccountCode: '1000', cashAccountName: 'Bank' };
+
+/**
+ * Chart of accounts used for any entry type a group has not mapped
+ */
+export const DEFAULT_LEDGER_ACCOUNTS: Record<LedgerEntryType, LedgerAccount> = {
+  CONTRIBUTION_CREDIT: {
+    accountCode: '4000',
+    accountName: 'Member contributions',
+    ...CASH_ACCOUNT,
+  },
+  CONTRIBUTION_ADJUSTMENT: {
+    accountCode: '4000',
+    accountName: 'Member contributions',
+    ...CASH_ACCOUNT,
+  },
+  FINE_CREDIT: { accountCode: '4100', accountName: 'Fines', ...CASH_ACCOUNT },
+  INTEREST_CREDIT: { accountCode: '4200', accountName: 'Interest received', ...CASH_ACCOUNT },
+  PAYOUT_DEBIT: { accountCode: '5000', accountName: 'Member payouts', ...CASH_ACCOUNT },
+  PAYOUT_ADJUSTMENT: { accountCode: '5000', accountName: 'Member payouts', ...CASH_ACCOUNT },
+  FEE_DEBIT: { accountCode: '5100', accountName: 'Bank charges', ...CASH_ACCOUNT },
+  GROCERY_PURCHASE_DEBIT: {
+    accountCode: '5200',
+    accountName: 'Grocery purchases',
+    ...CASH_ACCOUNT,
+  },
+  GROCERY_ADJUSTMENT: { accountCode: '5200', accountName: 'Grocery purchases', ...CASH_ACCOUNT },
+  BURIAL_CLAIM_DEBIT: { accountCode: '5300', accountName: 'Funeral claims', ...CASH_ACCOUNT },
+  ROSCA_PAYOUT_DEBIT: { accountCode: '5400', accountName: 'Rotation payouts', ...CASH_ACCOUNT },
+  LOAN_DISBURSEMENT_DEBIT: { accountCode: '1200', accountName: 'Member loans', ...CASH_ACCOUNT },
+  LOAN_REPAYMENT_CREDIT: { accountCode: '1200', accountName: 'Member loans', ...CASH_ACCOUNT },
+  LOAN_INTEREST_CREDIT: { accountCode: '4300', accountName: 'Loan interest', ...CASH_ACCOUNT },
+  OPENING_BALANCE: { accountCode: '3000', accountName: 'Opening balance', ...CASH_ACCOUNT },
+  CORRECTION: { accountCode: '3900', accountName: 'Corrections', ...CASH_ACCOUNT },
+};
+
+/**
+ * Render ledger entries, oldest first, in one of the export formats
+ */
+export function formatLedgerExport(
+  format: LedgerExportFormat,
+  entries: ExportLedgerEntry[],
+  options: LedgerExportOptions,
+): LedgerExportFile {
+  const first = entries[0]?.effectiveDate;
+  const last = entries[entries.length - 1]?.effectiveDate;
+  const from = options.startDate || first || new Date();
+  const to = options.endDate || last || new Date();
+  const basename = `ledger-${slugify(options.groupName)}-${isoDate(from)}-to-${isoDate(to)}`;
+
+  switch (format) {
+    case 'CSV':
+      return {
+        filename: `${basename}.csv`,
+        contentType: 'text/csv',
+        content: toCsv(entries),
+      };
+    case 'OFX':
+      return {
+        filename: `${basename}.ofx`,
+        contentType: 'application/x-ofx',
+        content: toOfx(entries, options, from, to),
+      };
+    case 'QIF':
+      return {
+        filename: `${basename}.qif`,
+        contentType: 'application/qif',
+        content: toQif(entries, options),
+      };
+    case 'JOURNAL':
+      return {
+        filename: `${basename}-journal.csv`,
+        contentType: 'text/csv',
+        content: toJournalCsv(entries, options),
+      };
+  }
+}
+
+function toCsv(entries: ExportLedgerEntry[]): string {
+  const rows = [
+    ['Date', 'Sequence', 'Type', 'Description', 'Money In', 'Money Out', 'Balance', 'Entry ID'],
+  ];
+  for (const entry of entries) {
+    rows.push([
+      isoDate(entry.effectiveDate),
+      String(entry.sequence),
+      entry.entryType,
+      entry.description || '',
+      entry.amount.isNegative() ? '' : money(entry.amount),
+      entry.amount.isNegative() ? money(entry.amount.abs()) : '',
+      money(entry.balanceAfter),
+      entry.id,
+    ]);
+  }
+  return csv(rows);
+}
+
+/**
+ * Double-entry journal: each entry moves money between the pot's cash
+ * account and the account its type is mapped to, so it becomes two lines
+ * that balance
+ */
+function toJournalCsv(entries: ExportLedgerEntry[], options: LedgerExportOptions): string {
+  const rows = [['Date', 'Account', 'Account Name', 'Debit', 'Credit', 'Reference', 'Description']];
+  for (const entry of entries) {
+    const account = options.accounts[entry.entryType];
+    const amount = money(entry.amount.abs());
+    const reference = journalReference(entry);
+    const cash = [account.cashAccountCode, account.cashAccountName];
+    const other = [account.accountCode, account.accountName];
+    const [debit, credit] = entry.amount.isNegative() ? [other, cash] : [cash, other];
+
+    rows.push([
+      isoDate(entry.effectiveDate),
+      ...debit,
+      amount,
+      '',
+      reference,
+      entry.description || '',
+    ]);
+    rows.push([
+      isoDate(entry.effectiveDate),
+      ...credit,
+      '',
+      amount,
+      reference,
+      entry.description || '',
+    ]);
+  }
+  return csv(rows);
+}
+
+/**
+ * OFX 1.0.2 (SGML) bank statement, which most accounting packages import
+ */
+function toOfx(
+  entries: ExportLedgerEntry[],
+  options: LedgerExportOptions,
+  from: Date,
+  to: Date,
+): string {
+  const head = entries.reduce<ExportLedgerEntry | null>(
+    (latest, entry) => (!latest || entry.sequence > latest.sequence ? entry : latest),
+    null,
+  );
+  const now = ofxDate(new Date());
+
+  const lines = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${now}`,
+    '<LANGUAGE>ENG',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${options.currency}`,
+    '<BANKACCTFROM>',
+    '<BANKID>STOCKVELOS',
+    `<ACCTID>${options.groupId}`,
+    '<ACCTTYPE>SAVINGS',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(from)}`,
+    `<DTEND>${ofxDate(to)}`,
+  ];
+
+  for (const entry of entries) {
+    lines.push(
+      '<STMTTRN>',
+      `<TRNTYPE>${entry.amount.isNegative() ? 'DEBIT' : 'CREDIT'}`,
+      `<DTPOSTED>${ofxDate(entry.effectiveDate)}`,
+      `<TRNAMT>${money(entry.amount)}`,
+      `<FITID>${entry.id}`,
+      `<NAME>${ofxText(describe(entry)).slice(0, 32)}`,
+      `<MEMO>${ofxText(entry.description || entry.entryType).slice(0, 255)}`,
+      '</STMTTRN>',
+    );
+  }
+
+  lines.push(
+    '</BANKTRANLIST>',
+    '<LEDGERBAL>',
+    `<BALAMT>${head ? money(head.balanceAfter) : '0.00'}`,
+    `<DTASOF>${ofxDate(to)}`,
+    '</LEDGERBAL>',
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+  );
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * QIF bank register. Dates are written month first, as Quicken defines the
+ * format; the category is the account the entry's type is mapped to.
+ */
+function toQif(entries: ExportLedgerEntry[], options: LedgerExportOptions): string {
+  const lines = ['!Type:Bank'];
+  for (const entry of entries) {
+    const date = entry.effectiveDate;
+    lines.push(
+      `D${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()}`,
+      `T${money(entry.amount)}`,
+      `N${journalReference(entry)}`,
+      `P${describe(entry)}`,
+      `M${(entry.description || '').replace(/\r?\n/g, ' ')}`,
+      `L${options.accounts[entry.entryType].accountName}`,
+      '^',
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+function describe(entry: ExportLedgerEntry): string {
+  return entry.entryType
+    .toLowerCase()
+    .split('_')
+    .map((word, i) => (i === 0 ? word[0].toUpperCase() + word.slice(1) : word))
+    .join(' ');
+}
+
+function journalReference(entry: ExportLedgerEntry): string {
+  return `LE-${entry.sequence}`;
+}
+
+function money(amount: Decimal): string {
+  return amount.toFixed(2);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function ofxDate(date: Date): string {
+  return isoDate(date).replace(/-/g, '');
+}
+
+function ofxText(text: string): string {
+  return text
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'group'
+  );
+}
+
+function csv(rows: string[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvCell(value: string): string {
+  // Keep spreadsheets from reading a description as a formula
+  const cell = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
@@ -91,6 +91,11 @@ export class LedgerController {
     return {
       ...statement,
       totalContributed: statement.totalContributed.toString(),
+      creditBalance: statement.creditBalance.toString(),
+      interestEarned: statement.interestEarned.toString(),
+      openingBalance: statement.openingBalance.toString(),
+      closingBalance: statement.closingBalance.toString(),
+      memberBalance: statement.memberBalance.toString(),
       groupBalance: statement.groupBalance.toString(),
       estimatedShare: statement.estimatedShare.toString(),
     };
@@ -115,6 +120,11 @@ export class LedgerController {
     return {
       ...statement,
       totalContributed: statement.totalContributed.toString(),
+      creditBalance: statement.creditBalance.toString(),
+      interestEarned: statement.interestEarned.toString(),
+      openingBalance: statement.openingBalance.toString(),
+      closingBalance: statement.closingBalance.toString(),
+      memberBalance: statement.memberBalance.toString(),
       groupBalance: statement.groupBalance.toString(),
       estimatedShare: statement.estimatedShare.toString(),
     };
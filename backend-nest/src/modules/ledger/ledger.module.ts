@@ -1,10 +1,14 @@
 import { Module } from '@nestjs/common';
 import { LedgerService } from './ledger.service';
 import { LedgerController } from './ledger.controller';
+import { AccountingPeriodsService } from './accounting-periods.service';
+import { AccountingPeriodsController } from './accounting-periods.controller';
+import { LedgerExportService } from './ledger-export.service';
+import { LedgerExportController } from './ledger-export.controller';
 
 @Module({
-  controllers: [LedgerController],
-  providers: [LedgerService],
+  controllers: [LedgerController, AccountingPeriodsController, LedgerExportController],
+  providers: [LedgerService, AccountingPeriodsService, LedgerExportService],
   exports: [LedgerService],
 })
 export class LedgerModule {}
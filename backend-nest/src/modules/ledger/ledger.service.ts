@@ -1,7 +1,15 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { LedgerEntryType, Prisma } from '@prisma/client';
 import { Decimal } from 'decimal.js';
+import {
+  GENESIS_HASH,
+  LEDGER_HASH_VERSION,
+  hashLedgerEntry,
+  lockChain,
+} from '../integrity/hash-chain';
+import { describeAccountingPeriod, toEffectiveDate } from './accounting-period';
 
 export interface CreateLedgerEntryInput {
   groupId: string;
@@ -12,6 +20,18 @@ export interface CreateLedgerEntryInput {
   description?: string;
   metadata?: Record<string, any>;
   createdById?: string;
+  memberPostings?: MemberLedgerPosting[];
+  // Defaults to today; may not fall in a closed accounting period
+  effectiveDate?: Date;
+  correctsEntryId?: string;
+}
+
+/**
+ * A member's share of a group ledger entry, posted to their sub-ledger
+ */
+export interface MemberLedgerPosting {
+  memberId: string;
+  amount: Decimal | string | number;
 }
 
 export interface LedgerSummary {
@@ -34,60 +54,193 @@ export class LedgerService {
   async getBalance(groupId: string): Promise<Decimal> {
     const latestEntry = await this.prisma.ledgerEntry.findFirst({
       where: { groupId },
-      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      orderBy: { sequence: 'desc' },
+      select: { balanceAfter: true },
+    });
+
+    return latestEntry ? new Decimal(latestEntry.balanceAfter.toString()) : new Decimal(0);
+  }
+
+  /**
+   * Get a member's current share of the pot from their sub-ledger
+   */
+  async getMemberBalance(groupId: string, memberId: string): Promise<Decimal> {
+    const latestEntry = await this.prisma.memberLedgerEntry.findFirst({
+      where: { groupId, memberId },
+      orderBy: { sequence: 'desc' },
       select: { balanceAfter: true },
     });
 
     return latestEntry ? new Decimal(latestEntry.balanceAfter.toString()) : new Decimal(0);
   }
 
+  /**
+   * Get every member's current share of the pot, keyed by member ID
+   */
+  async getMemberBalances(groupId: string): Promise<Map<string, Decimal>> {
+    const latestEntries = await this.prisma.memberLedgerEntry.findMany({
+      where: { groupId },
+      distinct: ['memberId'],
+      orderBy: [{ memberId: 'asc' }, { sequence: 'desc' }],
+      select: { memberId: true, balanceAfter: true },
+    });
+
+    return new Map(
+      latestEntries.map((e) => [e.memberId, new Decimal(e.balanceAfter.toString())]),
+    );
+  }
+
   /**
    * Create a new ledger entry with transactional balance update
    * This is the ONLY way to modify the pot balance
    */
   async createEntry(input: CreateLedgerEntryInput): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.prisma.$transaction(async (tx) => {
+      return this.appendEntry(tx, input);
+    }, {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+    });
+  }
+
+  /**
+   * Append an entry to the group's hash chain inside a caller's transaction.
+   * Each entry carries the next sequence number, the previous entry's hash
+   * and a hash over its own contents.
+   */
+  async appendEntry(
+    tx: Prisma.TransactionClient,
+    input: CreateLedgerEntryInput,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
     const amount = new Decimal(input.amount.toString());
 
-    // Determine if this is a credit or debit based on entry type
-    const isCredit = this.isCreditEntry(input.entryType);
+    const isCredit = this.isCredit(input.entryType, amount);
+    const change = amount.abs();
 
-    return this.prisma.$transaction(async (tx) => {
-      // Get current balance with a row lock (serializable transaction)
-      const currentBalance = await this.getBalanceInTransaction(tx, input.groupId);
+    const postings = (input.memberPostings || [])
+      .map((p) => ({ memberId: p.memberId, amount: new Decimal(p.amount.toString()) }))
+      .filter((p) => !p.amount.isZero());
+    const posted = postings.reduce((sum, p) => sum.plus(p.amount), new Decimal(0));
+    if (postings.some((p) => p.amount.isNegative()) || posted.greaterThan(change)) {
+      throw new BadRequestException('Member postings must be positive and within the entry amount');
+    }
 
-      // Calculate new balance
-      let newBalance: Decimal;
-      if (isCredit) {
-        newBalance = currentBalance.plus(amount);
-      } else {
-        newBalance = currentBalance.minus(amount);
-        // Prevent negative balance for debits
-        if (newBalance.lessThan(0)) {
-          throw new BadRequestException(
-            `Insufficient balance. Current: ${currentBalance.toString()}, Requested: ${amount.toString()}`,
-          );
-        }
+    // Serialise appends to this group's chain
+    await lockChain(tx, 'ledger', input.groupId);
+
+    const effectiveDate = toEffectiveDate(input.effectiveDate || new Date());
+    const closedPeriod = await tx.accountingPeriod.findFirst({
+      where: {
+        groupId: input.groupId,
+        status: { in: ['CLOSED', 'REOPEN_REQUESTED'] },
+        periodStart: { lte: effectiveDate },
+        periodEnd: { gte: effectiveDate },
+      },
+    });
+    if (closedPeriod) {
+      throw new BadRequestException(
+        `Accounting period ${describeAccountingPeriod(closedPeriod)} is closed`,
+      );
+    }
+
+    let latest = await tx.ledgerEntry.findFirst({
+      where: { groupId: input.groupId },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true, balanceAfter: true },
+    });
+    if (latest && latest.hash === null) {
+      await this.sealChainInTransaction(tx, input.groupId);
+      latest = await tx.ledgerEntry.findFirst({
+        where: { groupId: input.groupId },
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true, hash: true, balanceAfter: true },
+      });
+    }
+
+    const currentBalance = latest ? new Decimal(latest.balanceAfter.toString()) : new Decimal(0);
+
+    // Calculate new balance
+    let newBalance: Decimal;
+    if (isCredit) {
+      newBalance = currentBalance.plus(change);
+    } else {
+      newBalance = currentBalance.minus(change);
+      // Prevent negative balance for debits
+      if (newBalance.lessThan(0)) {
+        throw new BadRequestException(
+          `Insufficient balance. Current: ${currentBalance.toString()}, Requested: ${change.toString()}`,
+        );
       }
+    }
+
+    const data = {
+      id: randomUUID(),
+      groupId: input.groupId,
+      sequence: (latest?.sequence ?? 0) + 1,
+      entryType: input.entryType,
+      amount: new Prisma.Decimal(amount.toString()),
+      currency: 'ZAR',
+      balanceAfter: new Prisma.Decimal(newBalance.toString()),
+      referenceType: input.referenceType,
+      referenceId: input.referenceId,
+      description: input.description,
+      metadata: input.metadata,
+      createdById: input.createdById,
+      createdAt: new Date(),
+      effectiveDate,
+      correctsEntryId: input.correctsEntryId,
+      hashVersion: LEDGER_HASH_VERSION,
+    };
+    const prevHash = latest?.hash ?? GENESIS_HASH;
+
+    // Create the ledger entry
+    const entry = await tx.ledgerEntry.create({
+      data: { ...data, prevHash, hash: hashLedgerEntry(data, prevHash) },
+    });
 
-      // Create the ledger entry
-      const entry = await tx.ledgerEntry.create({
+    // Post each member's share against their own running balance
+    for (const posting of postings) {
+      const latestMemberEntry = await tx.memberLedgerEntry.findFirst({
+        where: { groupId: input.groupId, memberId: posting.memberId },
+        orderBy: { sequence: 'desc' },
+        select: { balanceAfter: true, sequence: true },
+      });
+      const memberBalance = latestMemberEntry
+        ? new Decimal(latestMemberEntry.balanceAfter.toString())
+        : new Decimal(0);
+      const memberBalanceAfter = isCredit
+        ? memberBalance.plus(posting.amount)
+        : memberBalance.minus(posting.amount);
+
+      await tx.memberLedgerEntry.create({
         data: {
           groupId: input.groupId,
+          memberId: posting.memberId,
+          ledgerEntryId: entry.id,
           entryType: input.entryType,
-          amount: new Prisma.Decimal(amount.toString()),
+          amount: new Prisma.Decimal(posting.amount.toString()),
           currency: 'ZAR',
-          balanceAfter: new Prisma.Decimal(newBalance.toString()),
+          balanceAfter: new Prisma.Decimal(memberBalanceAfter.toString()),
+          sequence: (latestMemberEntry?.sequence ?? 0) + 1,
           referenceType: input.referenceType,
           referenceId: input.referenceId,
           description: input.description,
-          metadata: input.metadata,
-          createdById: input.createdById,
+          createdAt: entry.createdAt,
         },
       });
+    }
 
-      return { entry, newBalance };
-    }, {
-      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+    return { entry, newBalance };
+  }
+
+  /**
+   * Hash a group's entries written before chaining was introduced. Only a
+   * chain with no sealed entries is sealed; anything else is left for
+   * verification to report. Returns the number of entries sealed.
+   */
+  async sealChain(groupId: string): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      await lockChain(tx, 'ledger', groupId);
+      return this.sealChainInTransaction(tx, groupId);
     });
   }
 
@@ -102,30 +255,100 @@ export class LedgerService {
     period: string,
     createdById?: string,
   ): Promise<{ entry: any; newBalance: Decimal }> {
-    return this.createEntry({
+    return this.createEntry(
+      this.contributionCredit(groupId, contributionId, amount, memberId, period, createdById),
+    );
+  }
+
+  /**
+   * Credit a contribution inside a caller's transaction, so a batch of
+   * approvals is posted as one run of entries
+   */
+  async appendContributionCredit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    contributionId: string,
+    amount: Decimal | string | number,
+    memberId: string,
+    period: string,
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(
+      tx,
+      this.contributionCredit(groupId, contributionId, amount, memberId, period, createdById),
+    );
+  }
+
+  /**
+   * Credit a paid late-payment fine to the ledger, inside the caller's
+   * transaction so the fine is marked paid with the same entry
+   */
+  async appendFineCredit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    fineId: string,
+    amount: Decimal | string | number,
+    memberId: string,
+    period: string,
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
       groupId,
-      entryType: 'CONTRIBUTION_CREDIT',
+      entryType: 'FINE_CREDIT',
       amount,
-      referenceType: 'CONTRIBUTION',
-      referenceId: contributionId,
-      description: `Contribution from member for ${period}`,
+      referenceType: 'SAVINGS_FINE',
+      referenceId: fineId,
+      description: `Late-payment fine for ${period}`,
       metadata: { memberId, period },
       createdById,
+      memberPostings: [{ memberId, amount }],
     });
   }
 
   /**
-   * Debit a payout from the ledger
+   * Credit a month's interest on the pot's bank account to the ledger,
+   * with each member's share posted to their sub-ledger, inside the
+   * caller's transaction so the accrual and its allocations are written
+   * with the same entry
    */
-  async debitPayout(
+  async appendInterestCredit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    accrualId: string,
+    amount: Decimal | string | number,
+    month: string,
+    memberShares: MemberLedgerPosting[],
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
+      groupId,
+      entryType: 'INTEREST_CREDIT',
+      amount,
+      referenceType: 'INTEREST_ACCRUAL',
+      referenceId: accrualId,
+      description: `Interest earned for ${month}`,
+      metadata: { month },
+      createdById,
+      memberPostings: memberShares,
+    });
+  }
+
+  /**
+   * Debit a payout from the ledger, and each recipient's line from their
+   * sub-ledger, inside the caller's transaction so the payout moves to
+   * PROCESSING with the same entry
+   */
+  async appendPayoutDebit(
+    tx: Prisma.TransactionClient,
     groupId: string,
     payoutId: string,
     amount: Decimal | string | number,
     payoutType: string,
     description?: string,
     createdById?: string,
+    memberShares?: MemberLedgerPosting[],
   ): Promise<{ entry: any; newBalance: Decimal }> {
-    return this.createEntry({
+    return this.appendEntry(tx, {
       groupId,
       entryType: 'PAYOUT_DEBIT',
       amount,
@@ -134,6 +357,178 @@ export class LedgerService {
       description: description || `Payout: ${payoutType}`,
       metadata: { payoutType },
       createdById,
+      memberPostings: memberShares,
+    });
+  }
+
+  /**
+   * Reverse the undisbursed part of a payout back into the pot, inside the
+   * caller's transaction so the payout is marked failed with the same entry
+   */
+  async appendPayoutReversal(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    payoutId: string,
+    amount: Decimal | string | number,
+    reason: string,
+    createdById?: string,
+    memberShares?: MemberLedgerPosting[],
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
+      groupId,
+      entryType: 'PAYOUT_ADJUSTMENT',
+      amount,
+      referenceType: 'SAVINGS_PAYOUT',
+      referenceId: payoutId,
+      description: `Payout reversal: ${reason}`,
+      metadata: { reason },
+      createdById,
+      memberPostings: memberShares,
+    });
+  }
+
+  /**
+   * Debit a paid funeral claim from the pot, inside the caller's transaction
+   * so the claim is marked paid with the same entry
+   */
+  async appendBurialClaimDebit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    claimId: string,
+    amount: Decimal | string | number,
+    deceasedName: string,
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
+      groupId,
+      entryType: 'BURIAL_CLAIM_DEBIT',
+      amount,
+      referenceType: 'BURIAL_CLAIM',
+      referenceId: claimId,
+      description: `Funeral claim: ${deceasedName}`,
+      createdById,
+    });
+  }
+
+  /**
+   * Debit a ROSCA pot handed to a member, inside the caller's transaction
+   * so the cycle or default is marked paid with the same entry
+   */
+  async appendRoscaPayoutDebit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    referenceType: 'ROSCA_CYCLE' | 'ROSCA_DEFAULT',
+    referenceId: string,
+    amount: Decimal | string | number,
+    description: string,
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
+      groupId,
+      entryType: 'ROSCA_PAYOUT_DEBIT',
+      amount,
+      referenceType,
+      referenceId,
+      description,
+      createdById,
+    });
+  }
+
+  /**
+   * Debit the discount a ROSCA recipient bid away, with each sharing
+   * member's part posted to their sub-ledger, inside the caller's
+   * transaction so the cycle is marked paid with the same entry
+   */
+  async appendRoscaDiscountDebit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    cycleId: string,
+    amount: Decimal | string | number,
+    description: string,
+    memberShares: MemberLedgerPosting[],
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
+      groupId,
+      entryType: 'ROSCA_PAYOUT_DEBIT',
+      amount,
+      referenceType: 'ROSCA_CYCLE',
+      referenceId: cycleId,
+      description,
+      createdById,
+      memberPostings: memberShares,
+    });
+  }
+
+  /**
+   * Debit a loan paid out to a member, inside the caller's transaction so
+   * the loan is marked disbursed with the same entry
+   */
+  async appendLoanDisbursementDebit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    loanId: string,
+    amount: Decimal | string | number,
+    memberName: string,
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
+      groupId,
+      entryType: 'LOAN_DISBURSEMENT_DEBIT',
+      amount,
+      referenceType: 'MEMBER_LOAN',
+      referenceId: loanId,
+      description: `Loan to ${memberName}`,
+      createdById,
+    });
+  }
+
+  /**
+   * Credit the principal part of a loan repayment back to the pot
+   */
+  async appendLoanRepaymentCredit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    repaymentId: string,
+    amount: Decimal | string | number,
+    memberName: string,
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
+      groupId,
+      entryType: 'LOAN_REPAYMENT_CREDIT',
+      amount,
+      referenceType: 'LOAN_REPAYMENT',
+      referenceId: repaymentId,
+      description: `Loan repayment: ${memberName}`,
+      createdById,
+    });
+  }
+
+  /**
+   * Credit the interest and penalty interest of a loan repayment, with
+   * each member's share posted to their sub-ledger
+   */
+  async appendLoanInterestCredit(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    repaymentId: string,
+    amount: Decimal | string | number,
+    memberName: string,
+    penalty: Decimal | string | number,
+    memberShares: MemberLedgerPosting[],
+    createdById?: string,
+  ): Promise<{ entry: any; newBalance: Decimal }> {
+    return this.appendEntry(tx, {
+      groupId,
+      entryType: 'LOAN_INTEREST_CREDIT',
+      amount,
+      referenceType: 'LOAN_REPAYMENT',
+      referenceId: repaymentId,
+      description: `Loan interest: ${memberName}`,
+      metadata: { penalty: penalty.toString() },
+      createdById,
+      memberPostings: memberShares,
     });
   }
 
@@ -147,15 +542,75 @@ export class LedgerService {
     isCredit: boolean,
     reason: string,
     createdById?: string,
+    correctsEntryId?: string,
   ): Promise<{ entry: any; newBalance: Decimal }> {
+    let original: { effectiveDate: Date } | null = null;
+    if (correctsEntryId) {
+      original = await this.prisma.ledgerEntry.findFirst({
+        where: { id: correctsEntryId, groupId },
+        select: { effectiveDate: true },
+      });
+      if (!original) {
+        throw new NotFoundException('Ledger entry to correct not found');
+      }
+    }
+
+    // Corrections are always dated today, in the open period, and point
+    // back to the entry they correct rather than being back-dated into it
     return this.createEntry({
       groupId,
       entryType: 'CORRECTION',
       amount: isCredit ? amount : new Decimal(amount.toString()).negated(),
       description: `Correction: ${reason}`,
-      metadata: { reason, correctionType: isCredit ? 'CREDIT' : 'DEBIT' },
+      metadata: {
+        reason,
+        correctionType: isCredit ? 'CREDIT' : 'DEBIT',
+        ...(original && {
+          originalEffectiveDate: original.effectiveDate.toISOString().slice(0, 10),
+        }),
+      },
       createdById,
+      correctsEntryId,
+    });
+  }
+
+  /**
+   * Credits, debits and entry count for entries effective within a date
+   * range, either end optional. Corrections count net, on the side their
+   * total falls.
+   */
+  async getPeriodTotals(
+    tx: Prisma.TransactionClient,
+    groupId: string,
+    range: { from?: Date; to?: Date },
+  ): Promise<{ totalCredits: Decimal; totalDebits: Decimal; entryCount: number }> {
+    const totals = await tx.ledgerEntry.groupBy({
+      by: ['entryType'],
+      where: {
+        groupId,
+        effectiveDate: {
+          ...(range.from && { gte: range.from }),
+          ...(range.to && { lte: range.to }),
+        },
+      },
+      _sum: { amount: true },
+      _count: { _all: true },
     });
+
+    let totalCredits = new Decimal(0);
+    let totalDebits = new Decimal(0);
+    let entryCount = 0;
+    for (const total of totals) {
+      const sum = new Decimal(total._sum.amount?.toString() || 0);
+      if (this.isCredit(total.entryType, sum)) {
+        totalCredits = totalCredits.plus(sum.abs());
+      } else {
+        totalDebits = totalDebits.plus(sum.abs());
+      }
+      entryCount += total._count._all;
+    }
+
+    return { totalCredits, totalDebits, entryCount };
   }
 
   /**
@@ -268,30 +723,90 @@ export class LedgerService {
             }
           : {}),
       },
+      include: {
+        // The periods each contribution paid for
+        allocations: {
+          select: { periodStart: true, amount: true },
+          orderBy: { periodStart: 'asc' },
+        },
+      },
       orderBy: { periodStart: 'desc' },
     });
 
+    // Overpayments not yet allocated to a period
+    const credit = await this.prisma.contribution.aggregate({
+      where: { groupId, memberId, status: 'APPROVED', deletedAt: null },
+      _sum: { creditRemaining: true },
+    });
+    const creditBalance = new Decimal(credit._sum.creditRemaining?.toString() || 0);
+
+    // Get member's share of interest earned on the pot
+    const interestAllocations = await this.prisma.interestAllocation.findMany({
+      where: {
+        groupId,
+        memberId,
+        ...(startDate || endDate
+          ? {
+              createdAt: {
+                ...(startDate && { gte: startDate }),
+                ...(endDate && { lte: endDate }),
+              },
+            }
+          : {}),
+      },
+      include: {
+        accrual: { select: { periodStart: true, periodEnd: true, annualRate: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
     // Calculate totals
     const totalContributed = contributions.reduce(
       (sum, c) => sum.plus(new Decimal(c.amount.toString())),
       new Decimal(0),
     );
 
-    // Get group summary
-    const groupSummary = await this.getSummary(groupId);
+    const interestEarned = interestAllocations.reduce(
+      (sum, a) => sum.plus(new Decimal(a.amount.toString())),
+      new Decimal(0),
+    );
 
-    // Get member count for equal share calculation
-    const memberCount = await this.prisma.groupMember.count({
-      where: {
-        groupId,
-        status: 'ACTIVE',
-        deletedAt: null,
-      },
-    });
+    // Get member's sub-ledger postings and running balance
+    const [entries, openingEntry, memberBalance] = await Promise.all([
+      this.prisma.memberLedgerEntry.findMany({
+        where: {
+          groupId,
+          memberId,
+          ...(startDate || endDate
+            ? {
+                createdAt: {
+                  ...(startDate && { gte: startDate }),
+                  ...(endDate && { lte: endDate }),
+                },
+              }
+            : {}),
+        },
+        orderBy: { sequence: 'asc' },
+      }),
+      startDate
+        ? this.prisma.memberLedgerEntry.findFirst({
+            where: { groupId, memberId, createdAt: { lt: startDate } },
+            orderBy: { sequence: 'desc' },
+            select: { balanceAfter: true },
+          })
+        : null,
+      this.getMemberBalance(groupId, memberId),
+    ]);
 
-    const equalShare = memberCount > 0
-      ? groupSummary.currentBalance.dividedBy(memberCount)
+    const openingBalance = openingEntry
+      ? new Decimal(openingEntry.balanceAfter.toString())
       : new Decimal(0);
+    const closingBalance = entries.length > 0
+      ? new Decimal(entries[entries.length - 1].balanceAfter.toString())
+      : openingBalance;
+
+    // Get group balance
+    const groupBalance = await this.getBalance(groupId);
 
     return {
       memberId,
@@ -299,32 +814,83 @@ export class LedgerService {
       contributions,
       totalContributed,
       contributionCount: contributions.length,
-      groupBalance: groupSummary.currentBalance,
-      estimatedShare: equalShare,
+      creditBalance,
+      interestAllocations,
+      interestEarned,
+      entries,
+      openingBalance,
+      closingBalance,
+      memberBalance,
+      groupBalance,
+      // The member's actual equity in the pot, from their sub-ledger
+      estimatedShare: memberBalance,
       generatedAt: new Date(),
     };
   }
 
+  /**
+   * Whether an entry adds to the pot. This follows from the entry type,
+   * except that corrections carry their direction in the sign of the amount.
+   */
+  isCredit(entryType: LedgerEntryType, amount: Decimal | Prisma.Decimal): boolean {
+    return entryType === 'CORRECTION' ? !amount.isNegative() : this.isCreditEntry(entryType);
+  }
+
+  private contributionCredit(
+    groupId: string,
+    contributionId: string,
+    amount: Decimal | string | number,
+    memberId: string,
+    period: string,
+    createdById?: string,
+  ): CreateLedgerEntryInput {
+    return {
+      groupId,
+      entryType: 'CONTRIBUTION_CREDIT',
+      amount,
+      referenceType: 'CONTRIBUTION',
+      referenceId: contributionId,
+      description: `Contribution from member for ${period}`,
+      metadata: { memberId, period },
+      createdById,
+      memberPostings: [{ memberId, amount }],
+    };
+  }
+
   private isCreditEntry(entryType: LedgerEntryType): boolean {
     return [
       'CONTRIBUTION_CREDIT',
       'CONTRIBUTION_ADJUSTMENT',
+      'PAYOUT_ADJUSTMENT',
       'FINE_CREDIT',
       'INTEREST_CREDIT',
+      'LOAN_REPAYMENT_CREDIT',
+      'LOAN_INTEREST_CREDIT',
       'OPENING_BALANCE',
     ].includes(entryType);
   }
 
-  private async getBalanceInTransaction(
+  private async sealChainInTransaction(
     tx: Prisma.TransactionClient,
     groupId: string,
-  ): Promise<Decimal> {
-    const latestEntry = await tx.ledgerEntry.findFirst({
+  ): Promise<number> {
+    const sealed = await tx.ledgerEntry.count({ where: { groupId, hash: { not: null } } });
+    if (sealed > 0) {
+      return 0;
+    }
+
+    const entries = await tx.ledgerEntry.findMany({
       where: { groupId },
-      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
-      select: { balanceAfter: true },
+      orderBy: { sequence: 'asc' },
     });
 
-    return latestEntry ? new Decimal(latestEntry.balanceAfter.toString()) : new Decimal(0);
+    let prevHash = GENESIS_HASH;
+    for (const entry of entries) {
+      const hash = hashLedgerEntry(entry, prevHash);
+      await tx.ledgerEntry.update({ where: { id: entry.id }, data: { hash, prevHash } });
+      prevHash = hash;
+    }
+
+    return entries.length;
   }
 }
@@ -43,12 +43,13 @@ export class MembershipsService {
       if (existingMembership.status === 'ACTIVE') {
         throw new BadRequestException('User is already a member of this group');
       }
-      // Reactivate if left
+      // Reactivate if left; the new membership starts today
       const updated = await this.prisma.groupMember.update({
         where: { id: existingMembership.id },
         data: {
           status: 'ACTIVE',
           role: dto.role || 'MEMBER',
+          joinedAt: new Date(),
           leftAt: null,
         },
         include: {
@@ -176,6 +177,11 @@ export class MembershipsService {
       throw new NotFoundException('Membership not found');
     }
 
+    // Leaving goes through removeMember, which checks the exit settlement
+    if (dto.status === 'LEFT') {
+      throw new BadRequestException('Remove the member to mark them as having left the group');
+    }
+
     const beforeState = { role: membership.role, status: membership.status };
 
     // Validate chairperson constraint for savings groups
@@ -244,6 +250,7 @@ export class MembershipsService {
   async removeMember(groupId: string, memberId: string, actorId: string) {
     const membership = await this.prisma.groupMember.findFirst({
       where: { id: memberId, groupId, deletedAt: null },
+      include: { group: true },
     });
 
     if (!membership) {
@@ -257,6 +264,31 @@ export class MembershipsService {
       );
     }
 
+    // Savings members leave only once what they paid in has been settled.
+    // Settlements from before a member rejoined belong to their old membership.
+    if (membership.group.type === 'SAVINGS') {
+      const settlement = await this.prisma.memberExitSettlement.findFirst({
+        where: {
+          groupId,
+          memberId: membership.userId,
+          status: { not: 'CANCELLED' },
+          createdAt: { gte: membership.joinedAt },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (!settlement) {
+        throw new BadRequestException(
+          'Start an exit settlement for this member before removing them',
+        );
+      }
+      if (settlement.status !== 'SETTLED' && settlement.status !== 'WAIVED') {
+        throw new BadRequestException(
+          "The member's exit settlement must be settled or waived before they can be removed",
+        );
+      }
+    }
+
     await this.prisma.groupMember.update({
       where: { id: memberId },
       data: {
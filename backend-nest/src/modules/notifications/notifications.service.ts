@@ -2,11 +2,11 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { NotificationType, NotificationChannel } from '@prisma/client';
+import { NotificationChannel } from '@prisma/client';
 
 export interface NotificationPayload {
   userId: string;
-  type: NotificationType;
+  type: string;
   channels: NotificationChannel[];
   title: string;
   body: string;
@@ -18,7 +18,7 @@ export interface NotificationPayload {
 
 export interface BulkNotificationPayload {
   userIds: string[];
-  type: NotificationType;
+  type: string;
   channels: NotificationChannel[];
   title: string;
   body: string;
@@ -44,10 +44,12 @@ export class NotificationsService {
         channel: payload.channels[0], // Primary channel
         title: payload.title,
         body: payload.body,
-        data: payload.data,
+        data: {
+          ...payload.data,
+          ...(payload.contributionId && { contributionId: payload.contributionId }),
+          ...(payload.payoutId && { payoutId: payload.payoutId }),
+        },
         groupId: payload.groupId,
-        contributionId: payload.contributionId,
-        payoutId: payload.payoutId,
       },
     });
 
@@ -115,11 +117,11 @@ export class NotificationsService {
           where: { status: 'ACTIVE', deletedAt: null },
           include: { user: true },
         },
-        savingsRule: true,
+        savingsRules: true,
       },
     });
 
-    if (!group || !group.savingsRule) {
+    if (!group || !group.savingsRules) {
       return;
     }
 
@@ -143,7 +145,7 @@ export class NotificationsService {
               phone: member.user.phone,
               memberName: `${member.user.firstName} ${member.user.lastName}`,
               groupName: group.name,
-              amount: group.savingsRule.contributionAmount.toNumber(),
+              amount: group.savingsRules.monthlyAmount.toNumber(),
               dueDate: dueDate.toISOString(),
               daysUntilDue: offset,
             },
@@ -166,7 +168,7 @@ export class NotificationsService {
     ]);
 
     for (const job of jobs) {
-      if (job.id?.startsWith(`reminder-${groupId}`)) {
+      if (String(job.id).startsWith(`reminder-${groupId}`)) {
         await job.remove();
       }
     }
@@ -0,0 +1,150 @@
+import {
+  parseBankStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  StatementParseError,
+} from './bank-statement';
+
+describe('parseBankStatement', () => {
+  it('should read money in and money out columns', () => {
+    const statement = parseBankStatement(
+      [
+        'Date,Description,Reference,Money In,Money Out,Balance',
+        '2024-03-01,EFT CREDIT,MOYO MARCH,500.00,,1500.00',
+        '2024-03-02,SERVICE FEE,,,12.50,1487.50',
+      ].join('\r\n'),
+    );
+
+    expect(statement.format).toBe('CSV');
+    expect(statement.layout).toBe('money-in-out');
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toEqual(
+      expect.objectContaining({
+        postedOn: new Date('2024-03-01T00:00:00Z'),
+        description: 'EFT CREDIT',
+        reference: 'MOYO MARCH',
+      }),
+    );
+    expect(statement.transactions[0].amount.toString()).toBe('500');
+    expect(statement.transactions[1].amount.toString()).toBe('-12.5');
+  });
+
+  it('should find the header below the account details', () => {
+    const statement = parseBankStatement(
+      [
+        '\uFEFFAccount Number,62000000000',
+        'Statement Period,01/03/2024 - 31/03/2024',
+        '',
+        'Transaction Date,Description,Amount,Balance',
+        '05/03/2024,"DEPOSIT, NKOSI T",750.00,2250.00',
+        '06/03/2024,POS PURCHASE,-120.00,2130.00',
+        'Closing Balance,,,2130.00',
+      ].join('\n'),
+    );
+
+    expect(statement.layout).toBe('signed-amount');
+    expect(statement.accountNumber).toBe('62000000000');
+    expect(statement.transactions.map((t) => t.description)).toEqual([
+      'DEPOSIT, NKOSI T',
+      'POS PURCHASE',
+    ]);
+    expect(statement.transactions[1].amount.toString()).toBe('-120');
+  });
+
+  it('should read Standard Bank HIST rows', () => {
+    const statement = parseBankStatement(
+      [
+        'ACC-NO,000123456,CURRENT ACCOUNT',
+        'OPEN,0,,1000.00,',
+        'HIST,20240304,,300.00,IB TRANSFER FROM,DLAMINI MARCH',
+        'HIST,20240305,,-45.00,MONTHLY FEE,',
+        'CLOSE,0,,1255.00,',
+      ].join('\n'),
+    );
+
+    expect(statement.layout).toBe('standard-bank');
+    expect(statement.accountNumber).toBe('000123456');
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0].reference).toBe('DLAMINI MARCH');
+    expect(statement.transactions[0].amount.toString()).toBe('300');
+  });
+
+  it('should read OFX statements in SGML form', () => {
+    const statement = parseBankStatement(
+      [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        '',
+        '<OFX>',
+        '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+        '<BANKACCTFROM><ACCTID>1234567890</BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        '<STMTTRN>',
+        '<TRNTYPE>CREDIT',
+        '<DTPOSTED>20240307120000[+2:SAST]',
+        '<TRNAMT>500.00',
+        '<FITID>202403070001',
+        '<NAME>MAGTF MOYO',
+        '<MEMO>MOYO MARCH',
+        '<STMTTRN>',
+        '<TRNTYPE>DEBIT',
+        '<DTPOSTED>20240308',
+        '<TRNAMT>-10.00',
+        '<FITID>202403080001',
+        '<NAME>FEE',
+        '</BANKTRANLIST>',
+        '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+        '</OFX>',
+      ].join('\n'),
+    );
+
+    expect(statement.format).toBe('OFX');
+    expect(statement.accountNumber).toBe('1234567890');
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toEqual(
+      expect.objectContaining({
+        postedOn: new Date('2024-03-07T00:00:00Z'),
+        description: 'MAGTF MOYO MOYO MARCH',
+        fitId: '202403070001',
+      }),
+    );
+    expect(statement.transactions[1].amount.toString()).toBe('-10');
+  });
+
+  it('should reject a file without date and amount columns', () => {
+    expect(() => parseBankStatement('Name,Surname\nThandi,Moyo')).toThrow(StatementParseError);
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('should read the date formats banks export', () => {
+    const expected = new Date('2024-01-05T00:00:00Z');
+
+    expect(parseStatementDate('20240105')).toEqual(expected);
+    expect(parseStatementDate('2024-01-05')).toEqual(expected);
+    expect(parseStatementDate('2024/01/05')).toEqual(expected);
+    expect(parseStatementDate('05/01/2024')).toEqual(expected);
+    expect(parseStatementDate('05 Jan 2024')).toEqual(expected);
+  });
+
+  it('should not read impossible dates', () => {
+    expect(parseStatementDate('31/02/2024')).toBeNull();
+    expect(parseStatementDate('Opening balance')).toBeNull();
+  });
+});
+
+describe('parseStatementAmount', () => {
+  it('should read the amount formats banks export', () => {
+    expect(parseStatementAmount('R 1 250.00')!.toString()).toBe('1250');
+    expect(parseStatementAmount('1,250.50')!.toString()).toBe('1250.5');
+    expect(parseStatementAmount('1250,50')!.toString()).toBe('1250.5');
+    expect(parseStatementAmount('350.00 Cr')!.toString()).toBe('350');
+    expect(parseStatementAmount('350.00Dr')!.toString()).toBe('-350');
+    expect(parseStatementAmount('(80.00)')!.toString()).toBe('-80');
+  });
+
+  it('should return null for blank or unreadable cells', () => {
+    expect(parseStatementAmount('')).toBeNull();
+    expect(parseStatementAmount('n/a')).toBeNull();
+  });
+});
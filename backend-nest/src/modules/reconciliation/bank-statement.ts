@@ -0,0 +1,312 @@
+import { Decimal } from 'decimal.js';
+
+export type StatementFormat = 'CSV' | 'OFX';
+
+export interface StatementTransaction {
+  postedOn: Date;
+  // Positive for money in, negative for money out
+  amount: Decimal;
+  description: string;
+  reference: string | null;
+  // Bank's own transaction ID (OFX only)
+  fitId: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  layout: string;
+  accountNumber: string | null;
+  transactions: StatementTransaction[];
+}
+
+export class StatementParseError extends Error {}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Header names used by South African bank CSV exports, by column. The first
+ * header that matches wins, so more specific names come first.
+ */
+const CSV_COLUMNS = {
+  date: ['transaction date', 'posting date', 'date', 'value date', 'trans date'],
+  description: ['description', 'transaction description', 'details', 'narrative'],
+  reference: ['reference', 'original description', 'statement reference'],
+  amount: ['amount', 'transaction amount'],
+  moneyIn: ['money in', 'credit', 'credit amount', 'deposits'],
+  moneyOut: ['money out', 'debit', 'debit amount', 'withdrawals'],
+  account: ['account', 'account number'],
+};
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+/**
+ * Parse a bank statement export. OFX (SGML or XML) is recognised by its
+ * header; anything else is read as CSV.
+ */
+export function parseBankStatement(content: Buffer | string): ParsedStatement {
+  const text = content.toString().replace(/^\uFEFF/, '');
+
+  if (/OFXHEADER|<OFX>/i.test(text)) {
+    return parseOfxStatement(text);
+  }
+  return parseCsvStatement(text);
+}
+
+/**
+ * CSV exports come in two shapes: Standard Bank's headerless rows tagged
+ * HIST, and a header row naming the columns (FNB, Absa, Nedbank, Capitec and
+ * most others), usually after a few lines of account details.
+ */
+export function parseCsvStatement(text: string): ParsedStatement {
+  const rows = text
+    .split(/\r?\n/)
+    .map(splitCsvLine)
+    .filter((row) => row.some((cell) => cell !== ''));
+
+  if (rows.some((row) => row[0].toUpperCase() === 'HIST')) {
+    return parseStandardBankRows(rows);
+  }
+
+  const headerIndex = rows.findIndex((row) => {
+    const columns = mapCsvColumns(row);
+    return (
+      columns.date !== undefined && (columns.amount !== undefined || columns.moneyIn !== undefined)
+    );
+  });
+  if (headerIndex === -1) {
+    throw new StatementParseError('Could not find the date and amount columns in this statement');
+  }
+
+  const columns = mapCsvColumns(rows[headerIndex]);
+  const accountNumber = findAccountNumber(rows.slice(0, headerIndex));
+
+  const transactions: StatementTransaction[] = [];
+  let accountFromRows: string | null = null;
+  for (const row of rows.slice(headerIndex + 1)) {
+    const postedOn = parseStatementDate(cell(row, columns.date));
+    if (!postedOn) {
+      // Footer lines such as closing balances
+      continue;
+    }
+
+    let amount: Decimal | null;
+    if (columns.amount !== undefined) {
+      amount = parseStatementAmount(cell(row, columns.amount));
+    } else {
+      const moneyIn = parseStatementAmount(cell(row, columns.moneyIn)) || new Decimal(0);
+      const moneyOut = parseStatementAmount(cell(row, columns.moneyOut)) || new Decimal(0);
+      amount = moneyIn.abs().minus(moneyOut.abs());
+    }
+    if (!amount || amount.isZero()) {
+      continue;
+    }
+
+    accountFromRows = accountFromRows || cell(row, columns.account) || null;
+    transactions.push({
+      postedOn,
+      amount,
+      description: cell(row, columns.description),
+      reference: cell(row, columns.reference) || null,
+      fitId: null,
+    });
+  }
+
+  return {
+    format: 'CSV',
+    layout: columns.moneyIn !== undefined ? 'money-in-out' : 'signed-amount',
+    accountNumber: accountNumber || accountFromRows,
+    transactions,
+  };
+}
+
+/**
+ * OFX 1.x (SGML, leaf tags unclosed) and 2.x (XML) bank statements
+ */
+export function parseOfxStatement(text: string): ParsedStatement {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  const transactions: StatementTransaction[] = [];
+  for (const block of blocks) {
+    const postedOn = parseStatementDate((ofxTag(block, 'DTPOSTED') || '').slice(0, 8));
+    const amount = parseStatementAmount(ofxTag(block, 'TRNAMT') || '');
+    if (!postedOn || !amount || amount.isZero()) {
+      continue;
+    }
+
+    const name = ofxTag(block, 'NAME');
+    const memo = ofxTag(block, 'MEMO');
+    transactions.push({
+      postedOn,
+      amount,
+      description: [name, memo].filter(Boolean).join(' ').trim(),
+      reference: ofxTag(block, 'REFNUM') || ofxTag(block, 'CHECKNUM') || null,
+      fitId: ofxTag(block, 'FITID'),
+    });
+  }
+
+  if (blocks.length === 0) {
+    throw new StatementParseError('No transactions found in this OFX statement');
+  }
+
+  return { format: 'OFX', layout: 'ofx', accountNumber: ofxTag(text, 'ACCTID'), transactions };
+}
+
+/**
+ * Statement dates: 20240105, 2024-01-05, 2024/01/05, 05/01/2024 (day
+ * first, as South African banks write them) and 05 Jan 2024
+ */
+export function parseStatementDate(value: string): Date | null {
+  const text = value.trim();
+  let match: RegExpExecArray | null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if ((match = /^(\d{4})(\d{2})(\d{2})$/.exec(text))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/.exec(text))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})/.exec(text))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{4})/.exec(text))) {
+    day = Number(match[1]);
+    month = MONTHS.indexOf(match[2].toUpperCase()) + 1;
+    year = Number(match[3]);
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || month > 12 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Amounts with optional currency symbol, thousands separators, a trailing
+ * Cr/Dr or accounting brackets. A lone comma is read as the decimal point.
+ */
+export function parseStatementAmount(value: string): Decimal | null {
+  let text = value.trim().replace(/\s/g, '').replace(/^R/i, '');
+  if (!text) {
+    return null;
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  const suffix = /(CR|DR)$/i.exec(text);
+  if (suffix) {
+    negative = suffix[1].toUpperCase() === 'DR';
+    text = text.slice(0, -2);
+  }
+
+  text = text.includes('.') ? text.replace(/,/g, '') : text.replace(',', '.');
+  if (!/^[+-]?\d+(\.\d+)?$/.test(text)) {
+    return null;
+  }
+
+  const amount = new Decimal(text);
+  return negative ? amount.abs().negated() : amount;
+}
+
+/**
+ * Standard Bank rows: HIST, date (YYYYMMDD), blank, amount, description,
+ * reference. An ACC-NO row carries the account number.
+ */
+function parseStandardBankRows(rows: string[][]): ParsedStatement {
+  const accountRow = rows.find((row) => row[0].toUpperCase() === 'ACC-NO');
+
+  const transactions: StatementTransaction[] = [];
+  for (const row of rows.filter((r) => r[0].toUpperCase() === 'HIST')) {
+    const postedOn = parseStatementDate(cell(row, 1));
+    const amount = parseStatementAmount(cell(row, 3));
+    if (!postedOn || !amount || amount.isZero()) {
+      continue;
+    }
+    transactions.push({
+      postedOn,
+      amount,
+      description: cell(row, 4),
+      reference: cell(row, 5) || null,
+      fitId: null,
+    });
+  }
+
+  return {
+    format: 'CSV',
+    layout: 'standard-bank',
+    accountNumber: accountRow ? cell(accountRow, 1) || null : null,
+    transactions,
+  };
+}
+
+function mapCsvColumns(header: string[]): Partial<Record<CsvColumn, number>> {
+  const names = header.map((h) => h.trim().toLowerCase());
+  const columns: Partial<Record<CsvColumn, number>> = {};
+
+  for (const column of Object.keys(CSV_COLUMNS) as CsvColumn[]) {
+    for (const synonym of CSV_COLUMNS[column]) {
+      const index = names.indexOf(synonym);
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+
+  return columns;
+}
+
+// Account details above the header, e.g. "Account Number,62000000000"
+function findAccountNumber(rows: string[][]): string | null {
+  for (const row of rows) {
+    const index = row.findIndex((c) => /^account( number| no\.?)?:?$/i.test(c.trim()));
+    if (index !== -1 && row[index + 1]) {
+      return row[index + 1].trim();
+    }
+  }
+  return null;
+}
+
+function cell(row: string[], index: number | undefined): string {
+  return index === undefined ? '' : (row[index] || '').trim();
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map((c) => c.trim());
+}
+
+function ofxTag(text: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(text);
+  return match ? match[1].trim() || null : null;
+}
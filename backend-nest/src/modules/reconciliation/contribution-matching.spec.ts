@@ -0,0 +1,89 @@
+import { proposeMatches } from './contribution-matching';
+
+describe('proposeMatches', () => {
+  const deposit = (id: string, postedOn: string, amount: number, description = 'EFT CREDIT') => ({
+    id,
+    postedOn: new Date(`${postedOn}T00:00:00Z`),
+    amount,
+    description,
+    reference: null,
+  });
+
+  const contribution = (
+    id: string,
+    submittedAt: string,
+    amount: number,
+    externalReference: string | null = null,
+    memberName = 'Thandi Moyo',
+  ) => ({
+    id,
+    submittedAt: new Date(submittedAt),
+    amount,
+    externalReference,
+    memberName,
+  });
+
+  it('should match on amount within the date window', () => {
+    const matches = proposeMatches(
+      [deposit('t1', '2024-03-05', 500)],
+      [contribution('c1', '2024-03-03T14:00:00Z', 500)],
+    );
+
+    expect(matches).toEqual([
+      {
+        transactionId: 't1',
+        contributionId: 'c1',
+        score: 55,
+        reasons: ['Amount matches', '2 days apart'],
+      },
+    ]);
+  });
+
+  it('should not match different amounts or deposits outside the window', () => {
+    const matches = proposeMatches(
+      [deposit('t1', '2024-03-05', 500), deposit('t2', '2024-03-20', 300)],
+      [contribution('c1', '2024-03-05T08:00:00Z', 450), contribution('c2', '2024-03-05', 300)],
+    );
+
+    expect(matches).toEqual([]);
+  });
+
+  it('should prefer the deposit carrying the payment reference', () => {
+    const matches = proposeMatches(
+      [
+        deposit('t1', '2024-03-05', 500, 'EFT CREDIT SOMEONE'),
+        deposit('t2', '2024-03-06', 500, 'EFT CREDIT REF: TM-0042'),
+      ],
+      [contribution('c1', '2024-03-05', 500, 'tm0042')],
+    );
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toEqual(
+      expect.objectContaining({ transactionId: 't2', contributionId: 'c1' }),
+    );
+    expect(matches[0].reasons).toContain('Payment reference matches');
+  });
+
+  it("should use the member's surname when there is no reference", () => {
+    const matches = proposeMatches(
+      [deposit('t1', '2024-03-05', 500, 'DEPOSIT NKOSI')],
+      [
+        contribution('c1', '2024-03-05', 500, null, 'Thandi Moyo'),
+        contribution('c2', '2024-03-05', 500, null, 'Sipho Nkosi'),
+      ],
+    );
+
+    expect(matches.map((m) => m.contributionId)).toEqual(['c2']);
+  });
+
+  it('should use each deposit and contribution once', () => {
+    const matches = proposeMatches(
+      [deposit('t1', '2024-03-05', 500), deposit('t2', '2024-03-05', 500)],
+      [contribution('c1', '2024-03-05', 500), contribution('c2', '2024-03-04', 500)],
+    );
+
+    expect(matches).toHaveLength(2);
+    expect(new Set(matches.map((m) => m.transactionId)).size).toBe(2);
+    expect(new Set(matches.map((m) => m.contributionId)).size).toBe(2);
+  });
+});
@@ -0,0 +1,118 @@
+import { Decimal } from 'decimal.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DepositToMatch {
+  id: string;
+  postedOn: Date;
+  amount: Decimal | string | number;
+  description: string;
+  reference: string | null;
+}
+
+export interface ContributionToMatch {
+  id: string;
+  amount: Decimal | string | number;
+  submittedAt: Date;
+  externalReference: string | null;
+  memberName: string;
+}
+
+export interface ContributionMatch {
+  transactionId: string;
+  contributionId: string;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Propose which deposit pays for which pending contribution. A deposit only
+ * matches a contribution of exactly the same amount submitted within
+ * `windowDays` of it; among those, the payment reference the member gave
+ * (or failing that their surname) on the deposit and the closeness of the
+ * dates decide. Each deposit and contribution is used at most once, best
+ * scores first.
+ */
+export function proposeMatches(
+  deposits: DepositToMatch[],
+  contributions: ContributionToMatch[],
+  windowDays = 7,
+): ContributionMatch[] {
+  const candidates: Array<ContributionMatch & { days: number }> = [];
+
+  for (const deposit of deposits) {
+    const amount = new Decimal(deposit.amount.toString());
+    const text = normalise(`${deposit.description} ${deposit.reference || ''}`);
+
+    for (const contribution of contributions) {
+      if (!amount.equals(contribution.amount.toString())) {
+        continue;
+      }
+
+      const days = Math.abs(
+        Math.round((deposit.postedOn.getTime() - startOfDay(contribution.submittedAt)) / DAY_MS),
+      );
+      if (days > windowDays) {
+        continue;
+      }
+
+      const reasons = ['Amount matches'];
+      let score = 50;
+
+      const reference = normalise(contribution.externalReference || '');
+      const surname = normalise(contribution.memberName.split(' ').pop() || '');
+      if (reference.length >= 3 && text.includes(reference)) {
+        score += 30;
+        reasons.push('Payment reference matches');
+      } else if (surname.length >= 3 && text.includes(surname)) {
+        score += 15;
+        reasons.push("Member's name appears on the deposit");
+      }
+
+      score += windowDays - days;
+      reasons.push(days === 0 ? 'Same day' : `${days} day${days === 1 ? '' : 's'} apart`);
+
+      candidates.push({
+        transactionId: deposit.id,
+        contributionId: contribution.id,
+        score,
+        reasons,
+        days,
+      });
+    }
+  }
+
+  candidates.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.days - b.days ||
+      a.transactionId.localeCompare(b.transactionId) ||
+      a.contributionId.localeCompare(b.contributionId),
+  );
+
+  const usedDeposits = new Set<string>();
+  const usedContributions = new Set<string>();
+  const matches: ContributionMatch[] = [];
+  for (const { days, ...candidate } of candidates) {
+    if (
+      usedDeposits.has(candidate.transactionId) ||
+      usedContributions.has(candidate.contributionId)
+    ) {
+      continue;
+    }
+    usedDeposits.add(candidate.transactionId);
+    usedContributions.add(candidate.contributionId);
+    matches.push(candidate);
+  }
+
+  return matches;
+}
+
+// Upper-case letters and digits only, so "REF: JS-0042" matches "js0042"
+function normalise(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function startOfDay(at: Date): number {
+  return Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate());
+}
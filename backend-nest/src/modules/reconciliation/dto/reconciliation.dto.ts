@@ -0,0 +1,33 @@
+import { IsString, IsOptional, IsUUID, IsInt, Min, Max, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ImportBankStatementDto {
+  @ApiProperty({ description: 'BANK_STATEMENT document holding the CSV or OFX export' })
+  @IsUUID()
+  documentId: string;
+
+  @ApiPropertyOptional({
+    example: 7,
+    default: 7,
+    description: 'How many days apart a deposit and a contribution may be and still match',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(31)
+  windowDays?: number;
+}
+
+export class MatchBankTransactionDto {
+  @ApiProperty({ description: 'Pending contribution this deposit pays for' })
+  @IsUUID()
+  contributionId: string;
+}
+
+export class ConfirmBankTransactionDto {
+  @ApiPropertyOptional({ example: 'Matched to FNB statement for March' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
@@ -0,0 +1,5 @@
+export * from './reconciliation.module';
+export * from './reconciliation.service';
+export * from './reconciliation.controller';
+export * from './bank-statement';
+export * from './contribution-matching';
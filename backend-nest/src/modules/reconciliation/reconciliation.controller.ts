@@ -0,0 +1,89 @@
+import { Controller, Get, Post, Body, Param, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ReconciliationService } from './reconciliation.service';
+import {
+  ConfirmBankTransactionDto,
+  ImportBankStatementDto,
+  MatchBankTransactionDto,
+} from './dto/reconciliation.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { TreasurerOrHigher } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('reconciliation')
+@Controller({ path: 'groups/:groupId/reconciliation', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Post('statements')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Import an uploaded bank statement (CSV or OFX) and propose matches' })
+  @ApiResponse({ status: 201, description: 'Statement imported' })
+  @ApiResponse({ status: 400, description: 'Not a bank statement, already imported or unreadable' })
+  importStatement(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: ImportBankStatementDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reconciliationService.importStatement(groupId, dto, user.id);
+  }
+
+  @Get()
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Get proposed matches, unmatched deposits and unpaid contributions' })
+  @ApiResponse({ status: 200, description: 'Reconciliation status' })
+  getReconciliation(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.reconciliationService.getReconciliation(groupId);
+  }
+
+  @Post('proposals')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Match unmatched deposits against contributions submitted since' })
+  @ApiResponse({ status: 201, description: 'Number of matches proposed' })
+  async proposeMatches(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    const proposed = await this.reconciliationService.proposeMatches(groupId);
+    return { proposed };
+  }
+
+  @Post('transactions/:transactionId/confirm')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Confirm a match and approve the contribution' })
+  @ApiResponse({ status: 201, description: 'Match confirmed and contribution approved' })
+  confirm(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('transactionId', ParseUUIDPipe) transactionId: string,
+    @Body() dto: ConfirmBankTransactionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reconciliationService.confirmMatch(groupId, transactionId, dto, user.id);
+  }
+
+  @Post('transactions/:transactionId/match')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Match a deposit to a pending contribution by hand' })
+  @ApiResponse({ status: 201, description: 'Match proposed' })
+  match(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('transactionId', ParseUUIDPipe) transactionId: string,
+    @Body() dto: MatchBankTransactionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reconciliationService.matchTransaction(groupId, transactionId, dto, user.id);
+  }
+
+  @Post('transactions/:transactionId/ignore')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Set aside a deposit that is not a contribution' })
+  @ApiResponse({ status: 201, description: 'Deposit ignored' })
+  ignore(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('transactionId', ParseUUIDPipe) transactionId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reconciliationService.ignoreTransaction(groupId, transactionId, user.id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ReconciliationService } from './reconciliation.service';
+import { ReconciliationController } from './reconciliation.controller';
+import { DocumentsModule } from '../documents/documents.module';
+import { ContributionsModule } from '../contributions/contributions.module';
+
+@Module({
+  imports: [DocumentsModule, ContributionsModule],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService],
+  exports: [ReconciliationService],
+})
+export class ReconciliationModule {}
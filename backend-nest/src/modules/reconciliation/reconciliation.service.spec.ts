@@ -0,0 +1,286 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ReconciliationService } from './reconciliation.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { S3Service } from '../documents/s3.service';
+import { ContributionsService } from '../contributions/contributions.service';
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+
+  const mockPrismaService: any = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    document: {
+      findFirst: jest.fn(),
+    },
+    bankStatementImport: {
+      create: jest.fn((args) => Promise.resolve({ id: 'import-1', ...args.data })),
+      findMany: jest.fn(),
+    },
+    bankTransaction: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn((args) => Promise.resolve({ id: args.where.id, ...args.data })),
+    },
+    contribution: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockS3Service = {
+    getFile: jest.fn(),
+  };
+
+  const mockContributionsService = {
+    approve: jest.fn(),
+  };
+
+  const statementDocument = {
+    id: 'doc-1',
+    groupId: 'group-1',
+    type: 'BANK_STATEMENT',
+    storageKey: 'bank-statement/doc-1.csv',
+    bankStatementImport: null,
+  };
+
+  const statement = [
+    'Date,Description,Reference,Money In,Money Out',
+    '2024-03-05,EFT CREDIT,TM0042,500.00,',
+    '2024-03-06,EFT CREDIT,,750.00,',
+    '2024-03-06,SERVICE FEE,,,12.50',
+  ].join('\n');
+
+  const pendingContribution = {
+    id: 'contribution-1',
+    groupId: 'group-1',
+    amount: new Prisma.Decimal(500),
+    status: 'PENDING',
+    createdAt: new Date('2024-03-04T10:00:00Z'),
+    externalReference: 'TM0042',
+    member: { id: 'member-1', firstName: 'Thandi', lastName: 'Moyo' },
+    bankTransaction: null,
+  };
+
+  const proposedTransaction = {
+    id: 'txn-1',
+    groupId: 'group-1',
+    postedOn: new Date('2024-03-05T00:00:00Z'),
+    amount: new Prisma.Decimal(500),
+    status: 'PROPOSED',
+    contributionId: 'contribution-1',
+    matchScore: 85,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: S3Service, useValue: mockS3Service },
+        { provide: ContributionsService, useValue: mockContributionsService },
+      ],
+    }).compile();
+
+    service = module.get<ReconciliationService>(ReconciliationService);
+
+    jest.clearAllMocks();
+    mockPrismaService.document.findFirst.mockResolvedValue(statementDocument);
+    mockS3Service.getFile.mockResolvedValue(Buffer.from(statement));
+    mockPrismaService.bankTransaction.findMany.mockResolvedValue([]);
+    mockPrismaService.contribution.findMany.mockResolvedValue([]);
+    mockPrismaService.bankTransaction.findFirst.mockResolvedValue(proposedTransaction);
+    mockPrismaService.contribution.findFirst.mockResolvedValue(pendingContribution);
+  });
+
+  describe('importStatement', () => {
+    it('should import the deposits and count the withdrawals', async () => {
+      const result = await service.importStatement(
+        'group-1',
+        { documentId: 'doc-1' },
+        'treasurer-1',
+      );
+
+      expect(mockS3Service.getFile).toHaveBeenCalledWith('bank-statement/doc-1.csv');
+      expect(result).toEqual(
+        expect.objectContaining({
+          format: 'CSV',
+          depositCount: 2,
+          duplicateCount: 0,
+          debitCount: 1,
+          statementStart: new Date('2024-03-05T00:00:00Z'),
+          statementEnd: new Date('2024-03-06T00:00:00Z'),
+        }),
+      );
+
+      const { data } = mockPrismaService.bankTransaction.createMany.mock.calls[0][0];
+      expect(data).toHaveLength(2);
+      expect(data[0]).toEqual(
+        expect.objectContaining({ importId: 'import-1', reference: 'TM0042' }),
+      );
+      expect(data[0].fingerprint).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should skip deposits already imported from an overlapping statement', async () => {
+      await service.importStatement('group-1', { documentId: 'doc-1' }, 'treasurer-1');
+      const [first] = mockPrismaService.bankTransaction.createMany.mock.calls[0][0].data;
+
+      mockPrismaService.bankTransaction.findMany.mockResolvedValueOnce([
+        { fingerprint: first.fingerprint },
+      ]);
+      const result = await service.importStatement(
+        'group-1',
+        { documentId: 'doc-1' },
+        'treasurer-1',
+      );
+
+      expect(result).toEqual(expect.objectContaining({ depositCount: 1, duplicateCount: 1 }));
+    });
+
+    it('should propose a match for a pending contribution', async () => {
+      mockPrismaService.bankTransaction.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([
+        {
+          id: 'txn-1',
+          postedOn: new Date('2024-03-05T00:00:00Z'),
+          amount: new Prisma.Decimal(500),
+          description: 'EFT CREDIT',
+          reference: 'TM0042',
+        },
+      ]);
+      mockPrismaService.contribution.findMany.mockResolvedValue([pendingContribution]);
+
+      const result = await service.importStatement(
+        'group-1',
+        { documentId: 'doc-1' },
+        'treasurer-1',
+      );
+
+      expect(result.proposed).toBe(1);
+      expect(mockPrismaService.bankTransaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1' },
+        data: expect.objectContaining({
+          status: 'PROPOSED',
+          contributionId: 'contribution-1',
+        }),
+      });
+    });
+
+    it('should only import bank statement documents', async () => {
+      mockPrismaService.document.findFirst.mockResolvedValue({
+        ...statementDocument,
+        type: 'PROOF_OF_PAYMENT',
+      });
+
+      await expect(
+        service.importStatement('group-1', { documentId: 'doc-1' }, 'treasurer-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not import the same statement twice', async () => {
+      mockPrismaService.document.findFirst.mockResolvedValue({
+        ...statementDocument,
+        bankStatementImport: { id: 'import-1' },
+      });
+
+      await expect(
+        service.importStatement('group-1', { documentId: 'doc-1' }, 'treasurer-1'),
+      ).rejects.toThrow('This statement has already been imported');
+    });
+
+    it('should report a statement it cannot read', async () => {
+      mockS3Service.getFile.mockResolvedValue(Buffer.from('not,a,statement'));
+
+      await expect(
+        service.importStatement('group-1', { documentId: 'doc-1' }, 'treasurer-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.bankStatementImport.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmMatch', () => {
+    it('should approve the contribution through the contribution flow', async () => {
+      const confirmed = await service.confirmMatch('group-1', 'txn-1', {}, 'treasurer-1');
+
+      expect(mockContributionsService.approve).toHaveBeenCalledWith(
+        'contribution-1',
+        { notes: 'Matched to bank deposit of 2024-03-05' },
+        'treasurer-1',
+      );
+      expect(confirmed.status).toBe('CONFIRMED');
+    });
+
+    it('should not confirm a deposit without a match', async () => {
+      mockPrismaService.bankTransaction.findFirst.mockResolvedValue({
+        ...proposedTransaction,
+        status: 'UNMATCHED',
+        contributionId: null,
+      });
+
+      await expect(service.confirmMatch('group-1', 'txn-1', {}, 'treasurer-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockContributionsService.approve).not.toHaveBeenCalled();
+    });
+
+    it('should not find a deposit from another group', async () => {
+      mockPrismaService.bankTransaction.findFirst.mockResolvedValue(null);
+
+      await expect(service.confirmMatch('group-2', 'txn-1', {}, 'treasurer-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('matchTransaction', () => {
+    it('should not match a contribution already matched to another deposit', async () => {
+      mockPrismaService.contribution.findFirst.mockResolvedValue({
+        ...pendingContribution,
+        bankTransaction: { id: 'txn-2' },
+      });
+
+      await expect(
+        service.matchTransaction(
+          'group-1',
+          'txn-1',
+          { contributionId: 'contribution-1' },
+          'treasurer-1',
+        ),
+      ).rejects.toThrow('This contribution is already matched to another deposit');
+    });
+
+    it('should note when the amounts differ', async () => {
+      mockPrismaService.contribution.findFirst.mockResolvedValue({
+        ...pendingContribution,
+        amount: new Prisma.Decimal(450),
+      });
+
+      const matched = await service.matchTransaction(
+        'group-1',
+        'txn-1',
+        { contributionId: 'contribution-1' },
+        'treasurer-1',
+      );
+
+      expect(matched.matchReasons).toEqual([
+        'Matched by hand',
+        'Deposit of 500 differs from contribution of 450',
+      ]);
+    });
+  });
+
+  describe('ignoreTransaction', () => {
+    it('should clear any proposed match', async () => {
+      const ignored = await service.ignoreTransaction('group-1', 'txn-1', 'treasurer-1');
+
+      expect(ignored).toEqual(expect.objectContaining({ status: 'IGNORED', contributionId: null }));
+    });
+  });
+});
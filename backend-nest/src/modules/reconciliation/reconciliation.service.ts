@@ -0,0 +1,394 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { S3Service } from '../documents/s3.service';
+import { ContributionsService } from '../contributions/contributions.service';
+import { parseBankStatement, StatementParseError, StatementTransaction } from './bank-statement';
+import { proposeMatches } from './contribution-matching';
+import {
+  ConfirmBankTransactionDto,
+  ImportBankStatementDto,
+  MatchBankTransactionDto,
+} from './dto/reconciliation.dto';
+
+const DEFAULT_WINDOW_DAYS = 7;
+
+const memberSelect = { id: true, firstName: true, lastName: true } as const;
+
+@Injectable()
+export class ReconciliationService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private s3Service: S3Service,
+    private contributionsService: ContributionsService,
+  ) {}
+
+  /**
+   * Read the deposits off an uploaded bank statement and propose which
+   * pending contributions they pay for. Deposits already imported from an
+   * overlapping statement are skipped; withdrawals are only counted.
+   */
+  async importStatement(groupId: string, dto: ImportBankStatementDto, userId: string) {
+    const document = await this.prisma.document.findFirst({
+      where: { id: dto.documentId, groupId, deletedAt: null },
+      include: { bankStatementImport: true },
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    if (document.type !== 'BANK_STATEMENT') {
+      throw new BadRequestException('Only a bank statement document can be imported');
+    }
+
+    if (document.bankStatementImport) {
+      throw new BadRequestException('This statement has already been imported');
+    }
+
+    const file = await this.s3Service.getFile(document.storageKey);
+    let statement;
+    try {
+      statement = parseBankStatement(file);
+    } catch (error) {
+      if (error instanceof StatementParseError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    const deposits = statement.transactions.filter((t) => t.amount.greaterThan(0));
+    const fingerprints = fingerprintTransactions(deposits);
+
+    const existing = await this.prisma.bankTransaction.findMany({
+      where: { groupId, fingerprint: { in: fingerprints } },
+      select: { fingerprint: true },
+    });
+    const seen = new Set(existing.map((t) => t.fingerprint));
+    const fresh = deposits
+      .map((deposit, i) => ({ deposit, fingerprint: fingerprints[i] }))
+      .filter(({ fingerprint }) => !seen.has(fingerprint));
+
+    const dates = statement.transactions.map((t) => t.postedOn.getTime());
+
+    const statementImport = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.bankStatementImport.create({
+        data: {
+          groupId,
+          documentId: document.id,
+          format: statement.format,
+          layout: statement.layout,
+          accountNumber: statement.accountNumber,
+          statementStart: dates.length ? new Date(Math.min(...dates)) : null,
+          statementEnd: dates.length ? new Date(Math.max(...dates)) : null,
+          depositCount: fresh.length,
+          duplicateCount: deposits.length - fresh.length,
+          debitCount: statement.transactions.length - deposits.length,
+          importedById: userId,
+        },
+      });
+
+      await tx.bankTransaction.createMany({
+        data: fresh.map(({ deposit, fingerprint }) => ({
+          importId: created.id,
+          groupId,
+          postedOn: deposit.postedOn,
+          amount: new Prisma.Decimal(deposit.amount.toString()),
+          description: deposit.description,
+          reference: deposit.reference?.slice(0, 100),
+          fitId: deposit.fitId?.slice(0, 100),
+          fingerprint,
+        })),
+      });
+
+      return created;
+    });
+
+    const proposed = await this.proposeMatches(groupId, dto.windowDays);
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BANK_STATEMENT_IMPORTED',
+      resourceType: 'BANK_STATEMENT_IMPORT',
+      resourceId: statementImport.id,
+      groupId,
+      afterState: {
+        documentId: document.id,
+        format: statementImport.format,
+        layout: statementImport.layout,
+        depositCount: statementImport.depositCount,
+        duplicateCount: statementImport.duplicateCount,
+        debitCount: statementImport.debitCount,
+        proposed,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return { ...statementImport, proposed };
+  }
+
+  /**
+   * Match unmatched deposits against pending contributions that no deposit
+   * has been matched to yet. Returns how many matches were proposed.
+   */
+  async proposeMatches(groupId: string, windowDays = DEFAULT_WINDOW_DAYS) {
+    const [deposits, contributions] = await Promise.all([
+      this.prisma.bankTransaction.findMany({
+        where: { groupId, status: 'UNMATCHED' },
+      }),
+      this.prisma.contribution.findMany({
+        where: { groupId, status: 'PENDING', deletedAt: null, bankTransaction: { is: null } },
+        include: { member: { select: memberSelect } },
+      }),
+    ]);
+
+    const matches = proposeMatches(
+      deposits,
+      contributions.map((c) => ({
+        id: c.id,
+        amount: c.amount,
+        submittedAt: c.createdAt,
+        externalReference: c.externalReference,
+        memberName: `${c.member.firstName} ${c.member.lastName}`,
+      })),
+      windowDays,
+    );
+
+    for (const match of matches) {
+      await this.prisma.bankTransaction.update({
+        where: { id: match.transactionId },
+        data: {
+          status: 'PROPOSED',
+          contributionId: match.contributionId,
+          matchScore: match.score,
+          matchReasons: match.reasons,
+        },
+      });
+    }
+
+    return matches.length;
+  }
+
+  /**
+   * Proposed matches awaiting confirmation, deposits nothing matched and
+   * pending contributions with no deposit on any imported statement
+   */
+  async getReconciliation(groupId: string) {
+    const [proposed, unmatchedDeposits, unmatchedContributions, imports] = await Promise.all([
+      this.prisma.bankTransaction.findMany({
+        where: { groupId, status: 'PROPOSED' },
+        include: { contribution: { include: { member: { select: memberSelect } } } },
+        orderBy: [{ postedOn: 'asc' }, { createdAt: 'asc' }],
+      }),
+      this.prisma.bankTransaction.findMany({
+        where: { groupId, status: 'UNMATCHED' },
+        orderBy: [{ postedOn: 'asc' }, { createdAt: 'asc' }],
+      }),
+      this.prisma.contribution.findMany({
+        where: { groupId, status: 'PENDING', deletedAt: null, bankTransaction: { is: null } },
+        include: { member: { select: memberSelect } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.bankStatementImport.findMany({
+        where: { groupId },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+
+    return { proposed, unmatchedDeposits, unmatchedContributions, imports };
+  }
+
+  /**
+   * Approve the contribution a deposit was matched to. The approval goes
+   * through the normal contribution flow, so it credits the ledger and
+   * obeys the same rules as approving by hand.
+   */
+  async confirmMatch(
+    groupId: string,
+    transactionId: string,
+    dto: ConfirmBankTransactionDto,
+    userId: string,
+  ) {
+    const transaction = await this.getTransaction(groupId, transactionId);
+
+    if (transaction.status !== 'PROPOSED' || !transaction.contributionId) {
+      throw new BadRequestException('This deposit has no match to confirm');
+    }
+
+    const note = `Matched to bank deposit of ${transaction.postedOn.toISOString().split('T')[0]}`;
+    await this.contributionsService.approve(
+      transaction.contributionId,
+      { notes: dto.notes ? `${note}. ${dto.notes}` : note },
+      userId,
+    );
+
+    const confirmed = await this.prisma.bankTransaction.update({
+      where: { id: transactionId },
+      data: { status: 'CONFIRMED', resolvedById: userId, resolvedAt: new Date() },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BANK_TRANSACTION_CONFIRMED',
+      resourceType: 'BANK_TRANSACTION',
+      resourceId: transactionId,
+      groupId,
+      afterState: {
+        contributionId: transaction.contributionId,
+        amount: transaction.amount.toString(),
+        matchScore: transaction.matchScore,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return confirmed;
+  }
+
+  /**
+   * Match a deposit to a pending contribution by hand, replacing any
+   * proposal. It still has to be confirmed.
+   */
+  async matchTransaction(
+    groupId: string,
+    transactionId: string,
+    dto: MatchBankTransactionDto,
+    userId: string,
+  ) {
+    const transaction = await this.getTransaction(groupId, transactionId);
+
+    if (transaction.status === 'CONFIRMED') {
+      throw new BadRequestException('This deposit has already been confirmed');
+    }
+
+    const contribution = await this.prisma.contribution.findFirst({
+      where: { id: dto.contributionId, groupId, deletedAt: null },
+      include: { bankTransaction: true },
+    });
+
+    if (!contribution) {
+      throw new NotFoundException('Contribution not found');
+    }
+
+    if (contribution.status !== 'PENDING') {
+      throw new BadRequestException(`Contribution is already ${contribution.status.toLowerCase()}`);
+    }
+
+    if (contribution.bankTransaction && contribution.bankTransaction.id !== transactionId) {
+      throw new BadRequestException('This contribution is already matched to another deposit');
+    }
+
+    const reasons = ['Matched by hand'];
+    if (!transaction.amount.equals(contribution.amount)) {
+      reasons.push(
+        `Deposit of ${transaction.amount.toString()} differs from contribution of ${contribution.amount.toString()}`,
+      );
+    }
+
+    const matched = await this.prisma.bankTransaction.update({
+      where: { id: transactionId },
+      data: {
+        status: 'PROPOSED',
+        contributionId: contribution.id,
+        matchScore: null,
+        matchReasons: reasons,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BANK_TRANSACTION_MATCHED',
+      resourceType: 'BANK_TRANSACTION',
+      resourceId: transactionId,
+      groupId,
+      beforeState: { status: transaction.status, contributionId: transaction.contributionId },
+      afterState: { status: matched.status, contributionId: contribution.id },
+      outcome: 'SUCCESS',
+    });
+
+    return matched;
+  }
+
+  /**
+   * Set aside a deposit that is not a contribution, such as a transfer from
+   * another account
+   */
+  async ignoreTransaction(groupId: string, transactionId: string, userId: string) {
+    const transaction = await this.getTransaction(groupId, transactionId);
+
+    if (transaction.status === 'CONFIRMED') {
+      throw new BadRequestException('This deposit has already been confirmed');
+    }
+
+    const ignored = await this.prisma.bankTransaction.update({
+      where: { id: transactionId },
+      data: {
+        status: 'IGNORED',
+        contributionId: null,
+        matchScore: null,
+        matchReasons: Prisma.DbNull,
+        resolvedById: userId,
+        resolvedAt: new Date(),
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'BANK_TRANSACTION_IGNORED',
+      resourceType: 'BANK_TRANSACTION',
+      resourceId: transactionId,
+      groupId,
+      beforeState: { status: transaction.status, contributionId: transaction.contributionId },
+      afterState: { status: ignored.status },
+      outcome: 'SUCCESS',
+    });
+
+    return ignored;
+  }
+
+  private async getTransaction(groupId: string, transactionId: string) {
+    const transaction = await this.prisma.bankTransaction.findFirst({
+      where: { id: transactionId, groupId },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException('Bank transaction not found');
+    }
+
+    return transaction;
+  }
+}
+
+/**
+ * Identify each deposit so the same one on an overlapping statement is not
+ * imported twice: by the bank's own ID when it has one, otherwise by its
+ * details plus how many identical deposits came before it on the statement.
+ */
+function fingerprintTransactions(transactions: StatementTransaction[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map((t) => {
+    let key: string;
+    if (t.fitId) {
+      key = `ofx|${t.fitId}`;
+    } else {
+      const details = [
+        t.postedOn.toISOString().split('T')[0],
+        t.amount.toFixed(2),
+        t.description.toUpperCase(),
+        (t.reference || '').toUpperCase(),
+      ].join('|');
+      const occurrence = occurrences.get(details) || 0;
+      occurrences.set(details, occurrence + 1);
+      key = `${details}|${occurrence}`;
+    }
+    return createHash('sha256').update(key).digest('hex');
+  });
+}
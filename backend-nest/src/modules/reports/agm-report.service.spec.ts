@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { AgmReportService } from './agm-report.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+describe('AgmReportService', () => {
+  let service: AgmReportService;
+
+  const mockPrismaService: any = {
+    group: { findFirst: jest.fn() },
+    ledgerEntry: { groupBy: jest.fn() },
+    groupMember: { findMany: jest.fn() },
+    contribution: { findMany: jest.fn() },
+    savingsFine: { groupBy: jest.fn() },
+    savingsPayout: { findMany: jest.fn() },
+    groceryPurchase: { findMany: jest.fn() },
+    groceryDistribution: { findMany: jest.fn() },
+    auditLog: { findMany: jest.fn() },
+  };
+
+  const mockLedgerService = {
+    getPeriodTotals: jest.fn(),
+    isCredit: jest.fn((entryType: string, amount: Decimal) =>
+      entryType === 'CORRECTION'
+        ? !amount.isNegative()
+        : ['CONTRIBUTION_CREDIT', 'FINE_CREDIT', 'INTEREST_CREDIT'].includes(entryType),
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AgmReportService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<AgmReportService>(AgmReportService);
+
+    jest.clearAllMocks();
+    mockPrismaService.group.findFirst.mockResolvedValue({
+      id: 'group-1',
+      name: 'Ubuntu Club',
+      currency: 'ZAR',
+    });
+    mockLedgerService.getPeriodTotals.mockResolvedValue({
+      totalCredits: new Decimal(5000),
+      totalDebits: new Decimal(1000),
+      entryCount: 9,
+    });
+    mockPrismaService.ledgerEntry.groupBy.mockResolvedValue([
+      {
+        entryType: 'PAYOUT_DEBIT',
+        _sum: { amount: new Prisma.Decimal(2500) },
+        _count: { _all: 1 },
+      },
+      {
+        entryType: 'CONTRIBUTION_CREDIT',
+        _sum: { amount: new Prisma.Decimal(6000) },
+        _count: { _all: 12 },
+      },
+      {
+        entryType: 'FINE_CREDIT',
+        _sum: { amount: new Prisma.Decimal(100) },
+        _count: { _all: 2 },
+      },
+    ]);
+    mockPrismaService.groupMember.findMany.mockResolvedValue([
+      {
+        userId: 'member-1',
+        joinedAt: new Date('2024-01-01T00:00:00Z'),
+        leftAt: null,
+        user: { firstName: 'Thandi', lastName: 'Moyo' },
+      },
+    ]);
+    mockPrismaService.contribution.findMany.mockResolvedValue([
+      {
+        memberId: 'member-1',
+        periodStart: new Date('2025-03-01T00:00:00Z'),
+        status: 'APPROVED',
+        amount: new Prisma.Decimal(500),
+      },
+    ]);
+    mockPrismaService.savingsFine.groupBy.mockResolvedValue([
+      { status: 'PAID', _sum: { amount: new Prisma.Decimal(100) }, _count: { _all: 2 } },
+      { status: 'WAIVED', _sum: { amount: new Prisma.Decimal(50) }, _count: { _all: 1 } },
+      { status: 'DISPUTED', _sum: { amount: new Prisma.Decimal(50) }, _count: { _all: 1 } },
+    ]);
+    mockPrismaService.savingsPayout.findMany.mockResolvedValue([
+      {
+        id: 'payout-1',
+        payoutType: 'YEAR_END',
+        description: null,
+        amount: new Prisma.Decimal(2500),
+        processedAt: new Date('2025-12-15T10:00:00Z'),
+      },
+    ]);
+    mockPrismaService.groceryPurchase.findMany.mockResolvedValue([
+      {
+        id: 'purchase-1',
+        purchaseDate: new Date('2025-11-20T00:00:00Z'),
+        supplierName: 'Makro',
+        totalAmount: new Prisma.Decimal(1800.5),
+      },
+    ]);
+    mockPrismaService.groceryDistribution.findMany.mockResolvedValue([
+      {
+        id: 'distribution-1',
+        distributionDate: new Date('2025-12-01T00:00:00Z'),
+        status: 'COMPLETED',
+        items: [
+          { memberId: 'gm-1', status: 'CONFIRMED' },
+          { memberId: 'gm-1', status: 'COLLECTED' },
+          { memberId: 'gm-2', status: 'PACKED' },
+        ],
+      },
+    ]);
+    mockPrismaService.auditLog.findMany.mockResolvedValue([
+      {
+        createdAt: new Date('2025-12-15T10:00:00Z'),
+        action: 'PAYOUT_COMPLETED',
+        resourceType: 'SAVINGS_PAYOUT',
+        resourceId: 'payout-1',
+        actor: { firstName: 'Lerato', lastName: 'Nkosi' },
+      },
+    ]);
+  });
+
+  it('should assemble the report for the financial year', async () => {
+    const report = await service.getAgmReport('group-1', '2025-03');
+
+    expect(report.financialYear.periodStart).toEqual(new Date('2025-03-01T00:00:00Z'));
+    expect(report.financialYear.periodEnd).toEqual(new Date('2026-02-28T00:00:00Z'));
+
+    expect(report.openingBalance.toString()).toBe('4000');
+    expect(report.entryTypeTotals.map((t) => [t.entryType, t.amount.toString()])).toEqual([
+      ['CONTRIBUTION_CREDIT', '6000'],
+      ['FINE_CREDIT', '100'],
+      ['PAYOUT_DEBIT', '-2500'],
+    ]);
+    expect(report.closingBalance.toString()).toBe('7600');
+
+    expect(report.compliance.months).toHaveLength(12);
+    expect(report.compliance.members[0].memberName).toBe('Thandi Moyo');
+    expect(report.compliance.members[0].paidCount).toBe(1);
+
+    expect(report.fines.raised).toEqual({ count: 4, amount: new Decimal(200) });
+    expect(report.fines.collected.amount.toString()).toBe('100');
+    expect(report.fines.waived.count).toBe(1);
+    expect(report.fines.outstanding.amount.toString()).toBe('50');
+
+    expect(report.payouts.total.toString()).toBe('2500');
+    expect(report.grocery.purchaseTotal.toString()).toBe('1800.5');
+    expect(report.grocery.distributions[0]).toEqual(
+      expect.objectContaining({ memberCount: 2, itemCount: 3, collectedCount: 2 }),
+    );
+    expect(report.auditHighlights[0]).toEqual(
+      expect.objectContaining({ description: 'Payout completed', actorName: 'Lerato Nkosi' }),
+    );
+  });
+
+  it('should count postings by effective date within the year', async () => {
+    await service.getAgmReport('group-1', '2025-03');
+
+    expect(mockLedgerService.getPeriodTotals).toHaveBeenCalledWith(mockPrismaService, 'group-1', {
+      to: new Date('2025-02-28T00:00:00Z'),
+    });
+    expect(mockPrismaService.ledgerEntry.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          groupId: 'group-1',
+          effectiveDate: {
+            gte: new Date('2025-03-01T00:00:00Z'),
+            lte: new Date('2026-02-28T00:00:00Z'),
+          },
+        },
+      }),
+    );
+  });
+
+  it('should refuse a financial year that has not started', async () => {
+    const nextYear = new Date().getUTCFullYear() + 1;
+
+    await expect(service.getAgmReport('group-1', `${nextYear}-03`)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should throw when the group does not exist', async () => {
+    mockPrismaService.group.findFirst.mockResolvedValue(null);
+
+    await expect(service.getAgmReport('missing', '2025-03')).rejects.toThrow(NotFoundException);
+  });
+});
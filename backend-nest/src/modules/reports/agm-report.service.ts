@@ -0,0 +1,252 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { FineStatus } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { getAccountingPeriodRange, toEffectiveDate } from '../ledger/accounting-period';
+import {
+  AGM_HIGHLIGHT_ACTIONS,
+  AgmCountAndAmount,
+  AgmReport,
+  buildComplianceMatrix,
+  listMonths,
+} from './agm-report';
+import { describeCode } from './pdf-layout';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HIGHLIGHT_LIMIT = 100;
+
+@Injectable()
+export class AgmReportService {
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Everything the treasurer presents at the AGM for one financial year:
+   * balances, ledger totals by entry type, who paid for which month, fines,
+   * payouts, groceries bought and handed out, and notable audit events.
+   * Ledger entries count by their effective date.
+   */
+  async getAgmReport(groupId: string, startMonth: string): Promise<AgmReport> {
+    const range = getAccountingPeriodRange('FINANCIAL_YEAR', startMonth);
+    const now = new Date();
+    if (range.periodStart > toEffectiveDate(now)) {
+      throw new BadRequestException('This financial year has not started');
+    }
+
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, deletedAt: null },
+      select: { id: true, name: true, currency: true },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+
+    const yearStart = range.periodStart;
+    const yearEnd = new Date(range.periodEnd.getTime() + DAY_MS - 1);
+
+    const [
+      before,
+      entryTotals,
+      members,
+      contributions,
+      fines,
+      payouts,
+      purchases,
+      distributions,
+      highlights,
+    ] = await Promise.all([
+      this.ledgerService.getPeriodTotals(this.prisma, groupId, {
+        to: new Date(yearStart.getTime() - DAY_MS),
+      }),
+      this.prisma.ledgerEntry.groupBy({
+        by: ['entryType'],
+        where: { groupId, effectiveDate: { gte: yearStart, lte: range.periodEnd } },
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+      this.prisma.groupMember.findMany({
+        where: {
+          groupId,
+          status: { not: 'PENDING' },
+          joinedAt: { lte: yearEnd },
+          OR: [{ leftAt: null }, { leftAt: { gte: yearStart } }],
+        },
+        select: {
+          userId: true,
+          joinedAt: true,
+          leftAt: true,
+          user: { select: { firstName: true, lastName: true } },
+        },
+      }),
+      this.prisma.contribution.findMany({
+        where: {
+          groupId,
+          status: { in: ['APPROVED', 'PENDING'] },
+          deletedAt: null,
+          periodStart: { gte: yearStart, lte: range.periodEnd },
+        },
+        select: { memberId: true, periodStart: true, status: true, amount: true },
+      }),
+      this.prisma.savingsFine.groupBy({
+        by: ['status'],
+        where: { groupId, periodStart: { gte: yearStart, lte: range.periodEnd } },
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+      this.prisma.savingsPayout.findMany({
+        where: {
+          groupId,
+          status: 'COMPLETED',
+          deletedAt: null,
+          processedAt: { gte: yearStart, lte: yearEnd },
+        },
+        select: {
+          id: true,
+          payoutType: true,
+          description: true,
+          amount: true,
+          processedAt: true,
+        },
+        orderBy: { processedAt: 'asc' },
+      }),
+      this.prisma.groceryPurchase.findMany({
+        where: {
+          groupId,
+          status: 'APPROVED',
+          deletedAt: null,
+          purchaseDate: { gte: yearStart, lte: range.periodEnd },
+        },
+        select: { id: true, purchaseDate: true, supplierName: true, totalAmount: true },
+        orderBy: { purchaseDate: 'asc' },
+      }),
+      this.prisma.groceryDistribution.findMany({
+        where: {
+          groupId,
+          status: { not: 'CANCELLED' },
+          deletedAt: null,
+          distributionDate: { gte: yearStart, lte: range.periodEnd },
+        },
+        select: {
+          id: true,
+          distributionDate: true,
+          status: true,
+          items: { select: { memberId: true, status: true } },
+        },
+        orderBy: { distributionDate: 'asc' },
+      }),
+      this.prisma.auditLog.findMany({
+        where: {
+          groupId,
+          action: { in: AGM_HIGHLIGHT_ACTIONS },
+          outcome: 'SUCCESS',
+          createdAt: { gte: yearStart, lte: yearEnd },
+        },
+        select: {
+          createdAt: true,
+          action: true,
+          resourceType: true,
+          resourceId: true,
+          actor: { select: { firstName: true, lastName: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: HIGHLIGHT_LIMIT,
+      }),
+    ]);
+
+    const openingBalance = before.totalCredits.minus(before.totalDebits);
+    const entryTypeTotals = entryTotals
+      .map((total) => {
+        const sum = new Decimal(total._sum.amount?.toString() || 0);
+        return {
+          entryType: total.entryType,
+          entryCount: total._count._all,
+          amount: this.ledgerService.isCredit(total.entryType, sum)
+            ? sum.abs()
+            : sum.abs().negated(),
+        };
+      })
+      .sort((a, b) => a.entryType.localeCompare(b.entryType));
+    const closingBalance = entryTypeTotals.reduce(
+      (balance, total) => balance.plus(total.amount),
+      openingBalance,
+    );
+
+    const compliance = buildComplianceMatrix(
+      listMonths(yearStart, range.periodEnd, now),
+      members.map((m) => ({
+        userId: m.userId,
+        name: `${m.user.firstName} ${m.user.lastName}`,
+        joinedAt: m.joinedAt,
+        leftAt: m.leftAt,
+      })),
+      contributions.map((c) => ({ ...c, amount: new Decimal(c.amount.toString()) })),
+    );
+
+    const fineTotal = (statuses: FineStatus[]): AgmCountAndAmount =>
+      fines
+        .filter((f) => statuses.includes(f.status))
+        .reduce(
+          (total, f) => ({
+            count: total.count + f._count._all,
+            amount: total.amount.plus(f._sum.amount?.toString() || 0),
+          }),
+          { count: 0, amount: new Decimal(0) },
+        );
+
+    const payoutItems = payouts.map((p) => ({
+      ...p,
+      amount: new Decimal(p.amount.toString()),
+      processedAt: p.processedAt!,
+    }));
+    const purchaseItems = purchases.map((p) => ({
+      ...p,
+      totalAmount: new Decimal(p.totalAmount.toString()),
+    }));
+
+    return {
+      group,
+      financialYear: { startMonth, periodStart: yearStart, periodEnd: range.periodEnd },
+      openingBalance,
+      closingBalance,
+      entryTypeTotals,
+      compliance,
+      fines: {
+        raised: fineTotal(['OUTSTANDING', 'DISPUTED', 'PAID', 'WAIVED']),
+        collected: fineTotal(['PAID']),
+        waived: fineTotal(['WAIVED']),
+        outstanding: fineTotal(['OUTSTANDING', 'DISPUTED']),
+      },
+      payouts: {
+        total: payoutItems.reduce((sum, p) => sum.plus(p.amount), new Decimal(0)),
+        items: payoutItems,
+      },
+      grocery: {
+        purchaseTotal: purchaseItems.reduce((sum, p) => sum.plus(p.totalAmount), new Decimal(0)),
+        purchases: purchaseItems,
+        distributions: distributions.map((d) => ({
+          id: d.id,
+          distributionDate: d.distributionDate,
+          status: d.status,
+          memberCount: new Set(d.items.map((item) => item.memberId)).size,
+          itemCount: d.items.length,
+          collectedCount: d.items.filter((item) => ['COLLECTED', 'CONFIRMED'].includes(item.status))
+            .length,
+        })),
+      },
+      auditHighlights: highlights.map((log) => ({
+        createdAt: log.createdAt,
+        action: log.action,
+        description: describeCode(log.action),
+        actorName: log.actor ? `${log.actor.firstName} ${log.actor.lastName}` : null,
+        resourceType: log.resourceType,
+        resourceId: log.resourceId,
+      })),
+      generatedAt: now,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { Decimal } from 'decimal.js';
+import { AgmReport, buildComplianceMatrix, listMonths, renderAgmReportPdf } from './agm-report';
+
+describe('listMonths', () => {
+  it('should stop at the current month for a year in progress', () => {
+    const months = listMonths(
+      new Date('2026-03-01T00:00:00Z'),
+      new Date('2027-02-28T00:00:00Z'),
+      new Date('2026-05-17T10:00:00Z'),
+    );
+
+    expect(months.map((m) => m.toISOString().slice(0, 10))).toEqual([
+      '2026-03-01',
+      '2026-04-01',
+      '2026-05-01',
+    ]);
+  });
+
+  it('should list all twelve months of a finished year', () => {
+    expect(
+      listMonths(
+        new Date('2025-03-01T00:00:00Z'),
+        new Date('2026-02-28T00:00:00Z'),
+        new Date('2026-10-01T00:00:00Z'),
+      ),
+    ).toHaveLength(12);
+  });
+});
+
+describe('buildComplianceMatrix', () => {
+  const months = [
+    new Date('2025-03-01T00:00:00Z'),
+    new Date('2025-04-01T00:00:00Z'),
+    new Date('2025-05-01T00:00:00Z'),
+  ];
+
+  it('should mark each month paid, pending or missing', () => {
+    const matrix = buildComplianceMatrix(
+      months,
+      [
+        {
+          userId: 'member-1',
+          name: 'Thandi Moyo',
+          joinedAt: new Date('2024-01-01T00:00:00Z'),
+          leftAt: null,
+        },
+      ],
+      [
+        {
+          memberId: 'member-1',
+          periodStart: new Date('2025-03-01T00:00:00Z'),
+          status: 'APPROVED',
+          amount: new Decimal(500),
+        },
+        {
+          memberId: 'member-1',
+          periodStart: new Date('2025-04-01T00:00:00Z'),
+          status: 'PENDING',
+          amount: new Decimal(500),
+        },
+      ],
+    );
+
+    expect(matrix.months).toEqual(['2025-03', '2025-04', '2025-05']);
+    const [row] = matrix.members;
+    expect(row.cells.map((c) => c.status)).toEqual(['PAID', 'PENDING', 'MISSING']);
+    expect(row.cells[0].amount.toString()).toBe('500');
+    expect(row.cells[1].amount.toString()).toBe('0');
+    expect(row.paidCount).toBe(1);
+    expect(row.expectedCount).toBe(3);
+  });
+
+  it('should not expect payment for months outside the membership', () => {
+    const matrix = buildComplianceMatrix(
+      months,
+      [
+        {
+          userId: 'late',
+          name: 'Sipho Dube',
+          joinedAt: new Date('2025-04-20T08:00:00Z'),
+          leftAt: null,
+        },
+        {
+          userId: 'left',
+          name: 'Anele Khumalo',
+          joinedAt: new Date('2023-06-01T00:00:00Z'),
+          leftAt: new Date('2025-03-31T12:00:00Z'),
+        },
+      ],
+      [],
+    );
+
+    expect(matrix.members.map((m) => m.memberName)).toEqual(['Anele Khumalo', 'Sipho Dube']);
+    expect(matrix.members[0].cells.map((c) => c.status)).toEqual(['MISSING', null, null]);
+    expect(matrix.members[1].cells.map((c) => c.status)).toEqual([null, 'MISSING', 'MISSING']);
+    expect(matrix.expectedCount).toBe(3);
+    expect(matrix.paidCount).toBe(0);
+  });
+});
+
+describe('renderAgmReportPdf', () => {
+  const zero = { count: 0, amount: new Decimal(0) };
+
+  const report = (memberCount: number): AgmReport => ({
+    group: { id: 'group-1', name: 'Ubuntu Club', currency: 'ZAR' },
+    financialYear: {
+      startMonth: '2025-03',
+      periodStart: new Date('2025-03-01T00:00:00Z'),
+      periodEnd: new Date('2026-02-28T00:00:00Z'),
+    },
+    openingBalance: new Decimal(1000),
+    closingBalance: new Decimal(1500),
+    entryTypeTotals: [
+      { entryType: 'CONTRIBUTION_CREDIT', entryCount: 2, amount: new Decimal(1000) },
+      { entryType: 'PAYOUT_DEBIT', entryCount: 1, amount: new Decimal(-500) },
+    ],
+    compliance: buildComplianceMatrix(
+      listMonths(
+        new Date('2025-03-01T00:00:00Z'),
+        new Date('2026-02-28T00:00:00Z'),
+        new Date('2026-06-01T00:00:00Z'),
+      ),
+      Array.from({ length: memberCount }, (_, i) => ({
+        userId: `member-${i}`,
+        name: `Member ${i}`,
+        joinedAt: new Date('2024-01-01T00:00:00Z'),
+        leftAt: null,
+      })),
+      [],
+    ),
+    fines: {
+      raised: { count: 1, amount: new Decimal(50) },
+      collected: zero,
+      waived: zero,
+      outstanding: zero,
+    },
+    payouts: {
+      total: new Decimal(500),
+      items: [
+        {
+          id: 'payout-1',
+          payoutType: 'YEAR_END',
+          description: 'December payout',
+          amount: new Decimal(500),
+          processedAt: new Date('2025-12-15T00:00:00Z'),
+        },
+      ],
+    },
+    grocery: { purchaseTotal: new Decimal(0), purchases: [], distributions: [] },
+    auditHighlights: [
+      {
+        createdAt: new Date('2025-12-15T09:00:00Z'),
+        action: 'PAYOUT_COMPLETED',
+        description: 'Payout completed',
+        actorName: null,
+        resourceType: 'SAVINGS_PAYOUT',
+        resourceId: 'payout-1',
+      },
+    ],
+    generatedAt: new Date('2026-06-01T00:00:00Z'),
+  });
+
+  it('should render a PDF', async () => {
+    const pdf = await renderAgmReportPdf(report(3));
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should run the compliance matrix over several pages for a large group', async () => {
+    const small = await renderAgmReportPdf(report(3));
+    const large = await renderAgmReportPdf(report(120));
+
+    const pages = (pdf: Buffer) => (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length;
+    expect(pages(large)).toBeGreaterThan(pages(small));
+  });
+});
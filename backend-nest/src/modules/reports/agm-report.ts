@@ -0,0 +1,413 @@
+import { ContributionStatus, LedgerEntryType } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import {
+  describeCode,
+  describePeriod,
+  details,
+  formatDate,
+  formatMoney,
+  heading,
+  note,
+  render,
+  section,
+  table,
+} from './pdf-layout';
+
+/**
+ * Audit log actions worth presenting at the AGM: rule changes, membership
+ * changes, money leaving the pot and anything that altered the books
+ */
+export const AGM_HIGHLIGHT_ACTIONS = [
+  'GROUP_UPDATED',
+  'SAVINGS_RULES_UPDATED',
+  'MEMBER_ADDED',
+  'MEMBER_REMOVED',
+  'MEMBER_REACTIVATED',
+  'MEMBER_EXIT_STARTED',
+  'MEMBER_EXIT_WAIVED',
+  'PAYOUT_APPROVED',
+  'PAYOUT_COMPLETED',
+  'PAYOUT_FAILED',
+  'PAYOUT_CANCELLED',
+  'FINE_WAIVED',
+  'FINE_DISPUTED',
+  'INTEREST_ACCRUED',
+  'LEDGER_CORRECTION_POSTED',
+  'ACCOUNTING_PERIOD_CLOSED',
+  'ACCOUNTING_PERIOD_REOPENED',
+  'BANK_STATEMENT_IMPORTED',
+  'DISSOLUTION_PROPOSED',
+  'DISSOLUTION_CANCELLED',
+  'GROUP_DISSOLVED',
+];
+
+/**
+ * Whether a member paid for a month: an approved contribution, one still
+ * awaiting approval, or none. Null when they were not a member that month.
+ */
+export type ComplianceStatus = 'PAID' | 'PENDING' | 'MISSING';
+
+export interface ComplianceCell {
+  month: string;
+  status: ComplianceStatus | null;
+  // Approved contributions for the month
+  amount: Decimal;
+}
+
+export interface ComplianceRow {
+  memberId: string;
+  memberName: string;
+  cells: ComplianceCell[];
+  paidCount: number;
+  expectedCount: number;
+}
+
+export interface ComplianceMatrix {
+  // YYYY-MM, oldest first
+  months: string[];
+  members: ComplianceRow[];
+  paidCount: number;
+  expectedCount: number;
+}
+
+export interface ComplianceMember {
+  userId: string;
+  name: string;
+  joinedAt: Date;
+  leftAt: Date | null;
+}
+
+export interface ComplianceContribution {
+  memberId: string;
+  periodStart: Date;
+  status: ContributionStatus;
+  amount: Decimal;
+}
+
+export interface AgmCountAndAmount {
+  count: number;
+  amount: Decimal;
+}
+
+export interface AgmReport {
+  group: { id: string; name: string; currency: string };
+  financialYear: { startMonth: string; periodStart: Date; periodEnd: Date };
+  openingBalance: Decimal;
+  closingBalance: Decimal;
+  // Signed: positive when the type added to the pot
+  entryTypeTotals: Array<{ entryType: LedgerEntryType; entryCount: number; amount: Decimal }>;
+  compliance: ComplianceMatrix;
+  fines: {
+    raised: AgmCountAndAmount;
+    collected: AgmCountAndAmount;
+    waived: AgmCountAndAmount;
+    outstanding: AgmCountAndAmount;
+  };
+  payouts: {
+    total: Decimal;
+    items: Array<{
+      id: string;
+      payoutType: string;
+      description: string | null;
+      amount: Decimal;
+      processedAt: Date;
+    }>;
+  };
+  grocery: {
+    purchaseTotal: Decimal;
+    purchases: Array<{
+      id: string;
+      purchaseDate: Date;
+      supplierName: string;
+      totalAmount: Decimal;
+    }>;
+    distributions: Array<{
+      id: string;
+      distributionDate: Date;
+      status: string;
+      memberCount: number;
+      itemCount: number;
+      collectedCount: number;
+    }>;
+  };
+  auditHighlights: Array<{
+    createdAt: Date;
+    action: string;
+    description: string;
+    actorName: string | null;
+    resourceType: string;
+    resourceId: string | null;
+  }>;
+  generatedAt: Date;
+}
+
+/**
+ * First day of each month from `periodStart` to `periodEnd` that has begun
+ * by `asOf`
+ */
+export function listMonths(periodStart: Date, periodEnd: Date, asOf: Date): Date[] {
+  const months: Date[] = [];
+  let month = new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth(), 1));
+  while (month <= periodEnd && month <= asOf) {
+    months.push(month);
+    month = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1));
+  }
+  return months;
+}
+
+/**
+ * Members by month: a member is expected to pay for every month they
+ * belonged to the group for any part of. Rows are sorted by name.
+ */
+export function buildComplianceMatrix(
+  months: Date[],
+  members: ComplianceMember[],
+  contributions: ComplianceContribution[],
+): ComplianceMatrix {
+  const keys = months.map(monthKey);
+  const byMemberMonth = new Map<string, ComplianceContribution[]>();
+  for (const contribution of contributions) {
+    const key = `${contribution.memberId}|${monthKey(contribution.periodStart)}`;
+    byMemberMonth.set(key, [...(byMemberMonth.get(key) || []), contribution]);
+  }
+
+  const rows = members.map((member) => {
+    const cells = months.map((month, i) => {
+      const monthEnd = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0));
+      const belonged =
+        member.joinedAt <= endOfDay(monthEnd) && (!member.leftAt || member.leftAt >= month);
+      const paid = byMemberMonth.get(`${member.userId}|${keys[i]}`) || [];
+      const approved = paid.filter((c) => c.status === 'APPROVED');
+      const amount = approved.reduce((sum, c) => sum.plus(c.amount), new Decimal(0));
+
+      let status: ComplianceStatus | null = null;
+      if (approved.length) {
+        status = 'PAID';
+      } else if (belonged) {
+        status = paid.some((c) => c.status === 'PENDING') ? 'PENDING' : 'MISSING';
+      }
+      return { month: keys[i], status, amount };
+    });
+
+    return {
+      memberId: member.userId,
+      memberName: member.name,
+      cells,
+      paidCount: cells.filter((c) => c.status === 'PAID').length,
+      expectedCount: cells.filter((c) => c.status !== null).length,
+    };
+  });
+
+  rows.sort((a, b) => a.memberName.localeCompare(b.memberName));
+
+  return {
+    months: keys,
+    members: rows,
+    paidCount: rows.reduce((sum, row) => sum + row.paidCount, 0),
+    expectedCount: rows.reduce((sum, row) => sum + row.expectedCount, 0),
+  };
+}
+
+const COMPLIANCE_SYMBOLS: Record<ComplianceStatus, string> = {
+  PAID: 'P',
+  PENDING: 'A',
+  MISSING: 'X',
+};
+
+const MONTH_NAMES = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+export function renderAgmReportPdf(report: AgmReport): Promise<Buffer> {
+  const { currency } = report.group;
+
+  return render(`AGM report - ${report.group.name}`, (doc) => {
+    heading(doc, report.group.name, 'Annual general meeting report');
+    details(doc, [
+      [
+        'Financial year',
+        describePeriod(report.financialYear.periodStart, report.financialYear.periodEnd),
+      ],
+      ['Members', String(report.compliance.members.length)],
+      ['Generated', formatDate(report.generatedAt)],
+    ]);
+
+    section(doc, 'Balances');
+    table(
+      doc,
+      [
+        { header: 'Entry type', width: 230 },
+        { header: 'Entries', width: 60, align: 'right' },
+        { header: currency, width: 120, align: 'right' },
+      ],
+      [
+        ['Opening balance', '', formatMoney(report.openingBalance)],
+        ...report.entryTypeTotals.map((total) => [
+          describeCode(total.entryType),
+          String(total.entryCount),
+          formatMoney(total.amount),
+        ]),
+        ['Closing balance', '', formatMoney(report.closingBalance)],
+      ],
+      { boldRows: [0, report.entryTypeTotals.length + 1] },
+    );
+
+    section(doc, 'Contribution compliance');
+    const { compliance } = report;
+    if (compliance.members.length === 0 || compliance.months.length === 0) {
+      note(doc, 'No members were expected to contribute this year.');
+    } else {
+      const monthWidth = Math.min(30, Math.floor(330 / compliance.months.length));
+      table(
+        doc,
+        [
+          { header: 'Member', width: 120 },
+          ...compliance.months.map((month) => ({
+            header: MONTH_NAMES[Number(month.slice(5)) - 1],
+            width: monthWidth,
+          })),
+          { header: 'Paid', width: 45, align: 'right' as const },
+        ],
+        compliance.members.map((row) => [
+          row.memberName,
+          ...row.cells.map((cell) => (cell.status ? COMPLIANCE_SYMBOLS[cell.status] : '')),
+          `${row.paidCount}/${row.expectedCount}`,
+        ]),
+      );
+      note(
+        doc,
+        `P paid, A awaiting approval, X missing, blank not a member. ` +
+          `${compliance.paidCount} of ${compliance.expectedCount} contributions paid.`,
+      );
+    }
+
+    section(doc, 'Fines');
+    const { fines } = report;
+    table(
+      doc,
+      [
+        { header: '', width: 230 },
+        { header: 'Fines', width: 60, align: 'right' },
+        { header: currency, width: 120, align: 'right' },
+      ],
+      [
+        countRow('Raised', fines.raised),
+        countRow('Collected', fines.collected),
+        countRow('Waived', fines.waived),
+        countRow('Outstanding', fines.outstanding),
+      ],
+    );
+
+    section(doc, 'Payouts');
+    if (report.payouts.items.length === 0) {
+      note(doc, 'No payouts were made this year.');
+    } else {
+      table(
+        doc,
+        [
+          { header: 'Date', width: 70 },
+          { header: 'Type', width: 100 },
+          { header: 'Description', width: 205 },
+          { header: currency, width: 120, align: 'right' },
+        ],
+        [
+          ...report.payouts.items.map((payout) => [
+            formatDate(payout.processedAt),
+            describeCode(payout.payoutType),
+            payout.description || '',
+            formatMoney(payout.amount),
+          ]),
+          ['Total', '', '', formatMoney(report.payouts.total)],
+        ],
+        { boldRows: [report.payouts.items.length] },
+      );
+    }
+
+    section(doc, 'Grocery purchases');
+    const { grocery } = report;
+    if (grocery.purchases.length === 0) {
+      note(doc, 'No grocery purchases were approved this year.');
+    } else {
+      table(
+        doc,
+        [
+          { header: 'Date', width: 70 },
+          { header: 'Supplier', width: 305 },
+          { header: currency, width: 120, align: 'right' },
+        ],
+        [
+          ...grocery.purchases.map((purchase) => [
+            formatDate(purchase.purchaseDate),
+            purchase.supplierName,
+            formatMoney(purchase.totalAmount),
+          ]),
+          ['Total', '', formatMoney(grocery.purchaseTotal)],
+        ],
+        { boldRows: [grocery.purchases.length] },
+      );
+    }
+
+    section(doc, 'Grocery distributions');
+    if (grocery.distributions.length === 0) {
+      note(doc, 'No groceries were distributed this year.');
+    } else {
+      table(
+        doc,
+        [
+          { header: 'Date', width: 70 },
+          { header: 'Status', width: 120 },
+          { header: 'Members', width: 80, align: 'right' },
+          { header: 'Items collected', width: 120, align: 'right' },
+        ],
+        grocery.distributions.map((distribution) => [
+          formatDate(distribution.distributionDate),
+          describeCode(distribution.status),
+          String(distribution.memberCount),
+          `${distribution.collectedCount}/${distribution.itemCount}`,
+        ]),
+      );
+    }
+
+    section(doc, 'Audit highlights');
+    if (report.auditHighlights.length === 0) {
+      note(doc, 'Nothing to highlight this year.');
+    } else {
+      table(
+        doc,
+        [
+          { header: 'Date', width: 70 },
+          { header: 'Event', width: 250 },
+          { header: 'By', width: 175 },
+        ],
+        report.auditHighlights.map((highlight) => [
+          formatDate(highlight.createdAt),
+          highlight.description,
+          highlight.actorName || 'System',
+        ]),
+      );
+    }
+  });
+}
+
+function countRow(label: string, total: AgmCountAndAmount): string[] {
+  return [label, String(total.count), formatMoney(total.amount)];
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1);
+}
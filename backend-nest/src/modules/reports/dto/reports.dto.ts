@@ -0,0 +1,35 @@
+import { IsOptional, IsDateString, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class GenerateMemberStatementDto {
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'From the first posting when omitted',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: '2026-06-30', description: 'Up to today when omitted' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class GenerateAnnualStatementDto {
+  @ApiProperty({
+    example: '2025-03',
+    description: 'First month of the financial year; the statement covers twelve months from it',
+  })
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Start month must be in YYYY-MM format' })
+  startMonth: string;
+}
+
+export class AgmReportQueryDto {
+  @ApiProperty({
+    example: '2025-03',
+    description: 'First month of the financial year; the report covers twelve months from it',
+  })
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Start month must be in YYYY-MM format' })
+  startMonth: string;
+}
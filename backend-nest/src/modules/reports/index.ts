@@ -0,0 +1,6 @@
+export * from './reports.module';
+export * from './reports.service';
+export * from './agm-report.service';
+export * from './reports.controller';
+export * from './statement-pdf';
+export * from './agm-report';
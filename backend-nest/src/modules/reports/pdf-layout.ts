@@ -0,0 +1,110 @@
+import * as PDFDocument from 'pdfkit';
+import { Decimal } from 'decimal.js';
+
+export const MARGIN = 50;
+
+export interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Draw an A4 document and collect the PDF into a buffer
+ */
+export function render(title: string, draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    draw(doc);
+    doc.end();
+  });
+}
+
+export function heading(doc: PDFKit.PDFDocument, groupName: string, title: string) {
+  doc.font('Helvetica-Bold').fontSize(18).text(groupName);
+  doc.font('Helvetica').fontSize(13).fillColor('#555555').text(title);
+  doc.fillColor('black').moveDown();
+}
+
+export function details(doc: PDFKit.PDFDocument, rows: Array<[string, string]>) {
+  for (const [label, value] of rows) {
+    doc.font('Helvetica-Bold').fontSize(10).text(`${label}: `, { continued: true });
+    doc.font('Helvetica').text(value);
+  }
+  doc.moveDown();
+}
+
+export function section(doc: PDFKit.PDFDocument, title: string) {
+  doc.moveDown().font('Helvetica-Bold').fontSize(12).text(title, MARGIN);
+  doc.moveDown(0.5);
+}
+
+export function note(doc: PDFKit.PDFDocument, text: string) {
+  doc.font('Helvetica').fontSize(9).text(text, MARGIN);
+}
+
+export function table(
+  doc: PDFKit.PDFDocument,
+  columns: Column[],
+  rows: string[][],
+  options: { header?: boolean; boldRows?: number[] } = {},
+) {
+  const { header = true, boldRows = [] } = options;
+  const bottom = doc.page.height - MARGIN;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    const height = Math.max(
+      ...cells.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - 6 })),
+    );
+    if (doc.y + height > bottom) {
+      doc.addPage();
+    }
+
+    const y = doc.y;
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x, y, { width: columns[i].width - 6, align: columns[i].align || 'left' });
+      x += columns[i].width;
+    });
+    doc.x = MARGIN;
+    doc.y = y + height + 4;
+  };
+
+  if (header) {
+    drawRow(
+      columns.map((c) => c.header),
+      true,
+    );
+  }
+  rows.forEach((row, i) => drawRow(row, boldRows.includes(i)));
+}
+
+/**
+ * PAYOUT_COMPLETED becomes "Payout completed"
+ */
+export function describeCode(code: string): string {
+  const text = code.toLowerCase().replace(/_/g, ' ');
+  return text[0].toUpperCase() + text.slice(1);
+}
+
+export function describePeriod(start: Date | null, end: Date): string {
+  return start ? `${formatDate(start)} to ${formatDate(end)}` : `Up to ${formatDate(end)}`;
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function formatMoney(amount: Decimal, currency?: string): string {
+  const [whole, cents] = amount.abs().toFixed(2).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+  const text = `${grouped}.${cents}`;
+  const signed = amount.isNegative() && !amount.isZero() ? `-${text}` : text;
+  return currency ? `${currency} ${signed}` : signed;
+}
@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ReportsService } from './reports.service';
+import { AgmReportService } from './agm-report.service';
+import {
+  AgmReportQueryDto,
+  GenerateAnnualStatementDto,
+  GenerateMemberStatementDto,
+} from './dto/reports.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { TreasurerOrHigher, AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('reports')
+@Controller({ path: 'groups/:groupId/reports', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ReportsController {
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly agmReportService: AgmReportService,
+  ) {}
+
+  @Post('statements/me')
+  @AnyMember()
+  @ApiOperation({ summary: 'Generate a PDF statement of my share of the pot' })
+  @ApiResponse({ status: 201, description: 'Statement stored; returns a signed download URL' })
+  generateMyStatement(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: GenerateMemberStatementDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reportsService.generateMemberStatement(groupId, user.id, dto, user.id);
+  }
+
+  @Post('statements/members/:userId')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: "Generate a PDF statement of a member's share of the pot" })
+  @ApiResponse({ status: 201, description: 'Statement stored; returns a signed download URL' })
+  generateMemberStatement(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: GenerateMemberStatementDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reportsService.generateMemberStatement(groupId, userId, dto, user.id);
+  }
+
+  @Post('statements/annual')
+  @AnyMember()
+  @ApiOperation({ summary: "Generate the group's PDF financial statement for a financial year" })
+  @ApiResponse({ status: 201, description: 'Statement stored; returns a signed download URL' })
+  generateAnnualStatement(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: GenerateAnnualStatementDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reportsService.generateAnnualStatement(groupId, dto, user.id);
+  }
+
+  @Get('agm')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get the AGM report pack for a financial year' })
+  @ApiResponse({
+    status: 200,
+    description: 'Balances, totals, compliance, fines, payouts, grocery and audit highlights',
+  })
+  getAgmReport(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query() query: AgmReportQueryDto,
+  ) {
+    return this.agmReportService.getAgmReport(groupId, query.startMonth);
+  }
+
+  @Post('agm')
+  @AnyMember()
+  @ApiOperation({ summary: 'Generate the AGM report pack for a financial year as a PDF' })
+  @ApiResponse({ status: 201, description: 'Report stored; returns a signed download URL' })
+  generateAgmReport(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: AgmReportQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.reportsService.generateAgmReport(groupId, dto, user.id);
+  }
+}
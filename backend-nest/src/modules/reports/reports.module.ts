@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { AgmReportService } from './agm-report.service';
+import { ReportsController } from './reports.controller';
+import { LedgerModule } from '../ledger/ledger.module';
+import { DocumentsModule } from '../documents/documents.module';
+
+@Module({
+  imports: [LedgerModule, DocumentsModule],
+  controllers: [ReportsController],
+  providers: [ReportsService, AgmReportService],
+  exports: [ReportsService, AgmReportService],
+})
+export class ReportsModule {}
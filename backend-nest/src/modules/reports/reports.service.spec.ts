@@ -0,0 +1,294 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { ReportsService } from './reports.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { DocumentsService } from '../documents/documents.service';
+import { AgmReportService } from './agm-report.service';
+import * as agmReport from './agm-report';
+import * as statementPdf from './statement-pdf';
+
+describe('ReportsService', () => {
+  let service: ReportsService;
+
+  const mockPrismaService: any = {
+    group: {
+      findFirst: jest.fn(),
+    },
+    groupMember: {
+      findFirst: jest.fn(),
+    },
+    ledgerEntry: {
+      groupBy: jest.fn(),
+    },
+    memberLedgerEntry: {
+      findMany: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockLedgerService = {
+    getMemberStatement: jest.fn(),
+    getPeriodTotals: jest.fn(),
+    isCredit: jest.fn((entryType: string, amount: Decimal) =>
+      entryType === 'CORRECTION'
+        ? !amount.isNegative()
+        : ['CONTRIBUTION_CREDIT', 'FINE_CREDIT', 'INTEREST_CREDIT'].includes(entryType),
+    ),
+  };
+
+  const mockDocumentsService = {
+    uploadDocument: jest.fn(),
+    getDownloadUrl: jest.fn(),
+  };
+
+  const mockAgmReportService = {
+    getAgmReport: jest.fn(),
+  };
+
+  const memberEntry = (entryType: string, balanceAfter: number, description: string | null) => ({
+    entryType,
+    balanceAfter: new Prisma.Decimal(balanceAfter),
+    description,
+    createdAt: new Date('2026-02-10T09:00:00Z'),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: DocumentsService, useValue: mockDocumentsService },
+        { provide: AgmReportService, useValue: mockAgmReportService },
+      ],
+    }).compile();
+
+    service = module.get<ReportsService>(ReportsService);
+
+    jest.clearAllMocks();
+    mockPrismaService.group.findFirst.mockResolvedValue({ name: 'Ubuntu Club', currency: 'ZAR' });
+    mockPrismaService.groupMember.findFirst.mockResolvedValue({
+      user: { firstName: 'Thandi', lastName: 'Moyo' },
+    });
+    mockDocumentsService.uploadDocument.mockResolvedValue({ id: 'doc-1' });
+    mockDocumentsService.getDownloadUrl.mockResolvedValue({
+      url: 'https://files.example/doc-1',
+      filename: 'statement.pdf',
+      mimeType: 'application/pdf',
+      expiresIn: 900,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('generateMemberStatement', () => {
+    beforeEach(() => {
+      mockLedgerService.getMemberStatement.mockResolvedValue({
+        openingBalance: new Decimal(1000),
+        closingBalance: new Decimal(1250),
+        entries: [
+          memberEntry('CONTRIBUTION_CREDIT', 1500, 'February contribution'),
+          memberEntry('FINE_CREDIT', 1550, null),
+          memberEntry('PAYOUT_DEBIT', 1250, 'Mid-year payout'),
+        ],
+        contributions: [
+          {
+            createdAt: new Date('2026-02-03T08:00:00Z'),
+            allocations: [
+              { periodStart: new Date('2026-03-01T00:00:00Z'), amount: new Decimal(200) },
+              { periodStart: new Date('2026-02-01T00:00:00Z'), amount: new Decimal(300) },
+            ],
+          },
+        ],
+        creditBalance: new Decimal(0),
+        generatedAt: new Date('2026-03-01T00:00:00Z'),
+      });
+    });
+
+    it('should total the period by kind and store the PDF', async () => {
+      const render = jest.spyOn(statementPdf, 'renderMemberStatementPdf');
+
+      const result = await service.generateMemberStatement(
+        'group-1',
+        'member-1',
+        { startDate: '2026-02-01', endDate: '2026-02-28' },
+        'member-1',
+      );
+
+      expect(mockLedgerService.getMemberStatement).toHaveBeenCalledWith(
+        'group-1',
+        'member-1',
+        new Date('2026-02-01T00:00:00Z'),
+        new Date('2026-02-28T23:59:59.999Z'),
+      );
+
+      const statement = render.mock.calls[0][0];
+      expect(statement.memberName).toBe('Thandi Moyo');
+      expect(statement.totals.contributions.toString()).toBe('500');
+      expect(statement.totals.fines.toString()).toBe('50');
+      expect(statement.totals.payouts.toString()).toBe('-300');
+      expect(statement.lines[1].description).toBe('Fine credit');
+      expect(
+        statement.allocations.map((a) => [
+          a.periodStart.toISOString().slice(0, 7),
+          a.amount.toString(),
+        ]),
+      ).toEqual([
+        ['2026-02', '300'],
+        ['2026-03', '200'],
+      ]);
+
+      expect(mockDocumentsService.uploadDocument).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'MEMBER_STATEMENT',
+          mimeType: 'application/pdf',
+          groupId: 'group-1',
+          originalFilename: 'statement-thandi-moyo-ubuntu-club-2026-02-28.pdf',
+        }),
+        'member-1',
+      );
+      expect(result).toEqual(
+        expect.objectContaining({ documentId: 'doc-1', url: 'https://files.example/doc-1' }),
+      );
+    });
+
+    it('should not generate a statement for someone outside the group', async () => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.generateMemberStatement('group-1', 'stranger', {}, 'treasurer-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('generateAnnualStatement', () => {
+    it("should balance the pot and show each member's share", async () => {
+      const render = jest.spyOn(statementPdf, 'renderGroupStatementPdf');
+      mockLedgerService.getPeriodTotals.mockResolvedValue({
+        totalCredits: new Decimal(2000),
+        totalDebits: new Decimal(500),
+        entryCount: 4,
+      });
+      mockPrismaService.ledgerEntry.groupBy.mockResolvedValue([
+        { entryType: 'CONTRIBUTION_CREDIT', _sum: { amount: new Prisma.Decimal(3000) } },
+        { entryType: 'PAYOUT_DEBIT', _sum: { amount: new Prisma.Decimal(1200) } },
+        { entryType: 'CORRECTION', _sum: { amount: new Prisma.Decimal(-20) } },
+      ]);
+      mockPrismaService.memberLedgerEntry.findMany.mockResolvedValue([
+        {
+          memberId: 'member-1',
+          entryType: 'CONTRIBUTION_CREDIT',
+          amount: new Prisma.Decimal(800),
+          ledgerEntry: {
+            amount: new Prisma.Decimal(800),
+            effectiveDate: new Date('2025-01-10T00:00:00Z'),
+          },
+        },
+        {
+          memberId: 'member-1',
+          entryType: 'CONTRIBUTION_CREDIT',
+          amount: new Prisma.Decimal(1500),
+          ledgerEntry: {
+            amount: new Prisma.Decimal(1500),
+            effectiveDate: new Date('2025-06-10T00:00:00Z'),
+          },
+        },
+        {
+          memberId: 'member-1',
+          entryType: 'PAYOUT_DEBIT',
+          amount: new Prisma.Decimal(600),
+          ledgerEntry: {
+            amount: new Prisma.Decimal(1200),
+            effectiveDate: new Date('2025-12-01T00:00:00Z'),
+          },
+        },
+      ]);
+      mockPrismaService.user.findMany.mockResolvedValue([
+        { id: 'member-1', firstName: 'Thandi', lastName: 'Moyo' },
+      ]);
+
+      await service.generateAnnualStatement('group-1', { startMonth: '2025-03' }, 'treasurer-1');
+
+      expect(mockPrismaService.ledgerEntry.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            groupId: 'group-1',
+            effectiveDate: {
+              gte: new Date('2025-03-01T00:00:00Z'),
+              lte: new Date('2026-02-28T00:00:00Z'),
+            },
+          },
+        }),
+      );
+
+      const statement = render.mock.calls[0][0];
+      expect(statement.openingBalance.toString()).toBe('1500');
+      expect(statement.totals.contributions.toString()).toBe('3000');
+      expect(statement.totals.payouts.toString()).toBe('-1200');
+      expect(statement.totals.other.toString()).toBe('-20');
+      expect(statement.closingBalance.toString()).toBe('3280');
+
+      const [member] = statement.members;
+      expect(member.memberName).toBe('Thandi Moyo');
+      expect(member.openingBalance.toString()).toBe('800');
+      expect(member.totals.contributions.toString()).toBe('1500');
+      expect(member.totals.payouts.toString()).toBe('-600');
+      expect(member.closingBalance.toString()).toBe('1700');
+
+      expect(mockDocumentsService.uploadDocument).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'GROUP_STATEMENT',
+          originalFilename: 'annual-statement-ubuntu-club-2025-03-01-to-2026-02-28.pdf',
+        }),
+        'treasurer-1',
+      );
+    });
+
+    it('should refuse a financial year that has not started', async () => {
+      const nextYear = new Date().getUTCFullYear() + 1;
+
+      await expect(
+        service.generateAnnualStatement('group-1', { startMonth: `${nextYear}-03` }, 'treasurer-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('generateAgmReport', () => {
+    it('should render the report pack and store it as an AGM report', async () => {
+      const report = { group: { name: 'Ubuntu Club' } } as any;
+      report.financialYear = {
+        startMonth: '2025-03',
+        periodStart: new Date('2025-03-01T00:00:00Z'),
+        periodEnd: new Date('2026-02-28T00:00:00Z'),
+      };
+      mockAgmReportService.getAgmReport.mockResolvedValue(report);
+      const render = jest
+        .spyOn(agmReport, 'renderAgmReportPdf')
+        .mockResolvedValue(Buffer.from('%PDF-1.3'));
+
+      const result = await service.generateAgmReport(
+        'group-1',
+        { startMonth: '2025-03' },
+        'treasurer-1',
+      );
+
+      expect(mockAgmReportService.getAgmReport).toHaveBeenCalledWith('group-1', '2025-03');
+      expect(render).toHaveBeenCalledWith(report);
+      expect(mockDocumentsService.uploadDocument).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'AGM_REPORT',
+          originalFilename: 'agm-report-ubuntu-club-2025-03-01-to-2026-02-28.pdf',
+        }),
+        'treasurer-1',
+      );
+      expect(result.url).toBe('https://files.example/doc-1');
+    });
+  });
+});
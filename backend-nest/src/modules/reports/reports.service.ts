@@ -0,0 +1,307 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Decimal } from 'decimal.js';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { DocumentsService } from '../documents/documents.service';
+import { getAccountingPeriodRange, toEffectiveDate } from '../ledger/accounting-period';
+import {
+  emptyStatementTotals,
+  GroupStatementMember,
+  renderGroupStatementPdf,
+  renderMemberStatementPdf,
+  statementCategory,
+  StatementLine,
+} from './statement-pdf';
+import { describeCode } from './pdf-layout';
+import { renderAgmReportPdf } from './agm-report';
+import { AgmReportService } from './agm-report.service';
+import {
+  AgmReportQueryDto,
+  GenerateAnnualStatementDto,
+  GenerateMemberStatementDto,
+} from './dto/reports.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class ReportsService {
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+    private documentsService: DocumentsService,
+    private agmReportService: AgmReportService,
+  ) {}
+
+  /**
+   * Printable statement of a member's share of the pot: opening balance,
+   * every posting to their sub-ledger in the period, the closing balance and
+   * which periods their contributions paid for. Stored as a MEMBER_STATEMENT
+   * document.
+   */
+  async generateMemberStatement(
+    groupId: string,
+    memberId: string,
+    dto: GenerateMemberStatementDto,
+    userId: string,
+  ) {
+    const startDate = dto.startDate ? new Date(dto.startDate) : undefined;
+    // Include the whole of the last day
+    const endDate = dto.endDate
+      ? new Date(new Date(dto.endDate).getTime() + DAY_MS - 1)
+      : undefined;
+    if (startDate && endDate && startDate > endDate) {
+      throw new BadRequestException('Start date must be before end date');
+    }
+
+    const [group, membership] = await Promise.all([
+      this.getGroup(groupId),
+      this.prisma.groupMember.findFirst({
+        // Members who have left still get statements
+        where: { groupId, userId: memberId },
+        include: { user: { select: { firstName: true, lastName: true } } },
+      }),
+    ]);
+
+    if (!membership) {
+      throw new NotFoundException('Member not found in this group');
+    }
+
+    const statement = await this.ledgerService.getMemberStatement(
+      groupId,
+      memberId,
+      startDate,
+      endDate,
+    );
+
+    const totals = emptyStatementTotals();
+    const lines: StatementLine[] = [];
+    let balance = statement.openingBalance;
+    for (const entry of statement.entries) {
+      const balanceAfter = new Decimal(entry.balanceAfter.toString());
+      const amount = balanceAfter.minus(balance);
+      const category = statementCategory(entry.entryType);
+      totals[category] = totals[category].plus(amount);
+      lines.push({
+        date: entry.createdAt,
+        description: entry.description || describeCode(entry.entryType),
+        amount,
+        balance: balanceAfter,
+      });
+      balance = balanceAfter;
+    }
+
+    const allocations = statement.contributions
+      .flatMap((contribution) =>
+        contribution.allocations.map((allocation) => ({
+          paidOn: contribution.createdAt,
+          periodStart: allocation.periodStart,
+          amount: new Decimal(allocation.amount.toString()),
+        })),
+      )
+      .sort(
+        (a, b) =>
+          a.paidOn.getTime() - b.paidOn.getTime() ||
+          a.periodStart.getTime() - b.periodStart.getTime(),
+      );
+
+    const memberName = `${membership.user.firstName} ${membership.user.lastName}`;
+    const periodEnd = endDate ? toEffectiveDate(endDate) : toEffectiveDate(new Date());
+    const pdf = await renderMemberStatementPdf({
+      groupName: group.name,
+      memberName,
+      currency: group.currency,
+      periodStart: startDate || null,
+      periodEnd,
+      openingBalance: statement.openingBalance,
+      closingBalance: statement.closingBalance,
+      totals,
+      lines,
+      allocations,
+      creditBalance: statement.creditBalance,
+      generatedAt: statement.generatedAt,
+    });
+
+    return this.store(
+      groupId,
+      'MEMBER_STATEMENT',
+      `statement-${slugify(memberName)}-${slugify(group.name)}-${isoDate(periodEnd)}.pdf`,
+      pdf,
+      userId,
+    );
+  }
+
+  /**
+   * Group statement for a financial year: the pot's opening and closing
+   * balance, money in and out by kind, and each member's share. Entries
+   * count by their effective date. Stored as a GROUP_STATEMENT document.
+   */
+  async generateAnnualStatement(groupId: string, dto: GenerateAnnualStatementDto, userId: string) {
+    const range = getAccountingPeriodRange('FINANCIAL_YEAR', dto.startMonth);
+    if (range.periodStart > toEffectiveDate(new Date())) {
+      throw new BadRequestException('This financial year has not started');
+    }
+
+    const group = await this.getGroup(groupId);
+
+    const [before, during, memberEntries] = await Promise.all([
+      this.ledgerService.getPeriodTotals(this.prisma, groupId, {
+        to: new Date(range.periodStart.getTime() - DAY_MS),
+      }),
+      this.prisma.ledgerEntry.groupBy({
+        by: ['entryType'],
+        where: {
+          groupId,
+          effectiveDate: { gte: range.periodStart, lte: range.periodEnd },
+        },
+        _sum: { amount: true },
+      }),
+      this.prisma.memberLedgerEntry.findMany({
+        where: { groupId, ledgerEntry: { effectiveDate: { lte: range.periodEnd } } },
+        select: {
+          memberId: true,
+          entryType: true,
+          amount: true,
+          ledgerEntry: { select: { amount: true, effectiveDate: true } },
+        },
+      }),
+    ]);
+
+    const openingBalance = before.totalCredits.minus(before.totalDebits);
+    const totals = emptyStatementTotals();
+    for (const total of during) {
+      const sum = new Decimal(total._sum.amount?.toString() || 0);
+      const signed = this.ledgerService.isCredit(total.entryType, sum)
+        ? sum.abs()
+        : sum.abs().negated();
+      const category = statementCategory(total.entryType);
+      totals[category] = totals[category].plus(signed);
+    }
+    const closingBalance = (Object.values(totals) as Decimal[]).reduce(
+      (sum, amount) => sum.plus(amount),
+      openingBalance,
+    );
+
+    // Each member's share, from their sub-ledger postings
+    const shares = new Map<string, Omit<GroupStatementMember, 'memberName'>>();
+    for (const posting of memberEntries) {
+      const share = shares.get(posting.memberId) || {
+        openingBalance: new Decimal(0),
+        totals: emptyStatementTotals(),
+        closingBalance: new Decimal(0),
+      };
+      const amount = new Decimal(posting.amount.toString());
+      const signed = this.ledgerService.isCredit(
+        posting.entryType,
+        new Decimal(posting.ledgerEntry.amount.toString()),
+      )
+        ? amount
+        : amount.negated();
+
+      if (posting.ledgerEntry.effectiveDate < range.periodStart) {
+        share.openingBalance = share.openingBalance.plus(signed);
+      } else {
+        const category = statementCategory(posting.entryType);
+        share.totals[category] = share.totals[category].plus(signed);
+      }
+      share.closingBalance = share.closingBalance.plus(signed);
+      shares.set(posting.memberId, share);
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: [...shares.keys()] } },
+      select: { id: true, firstName: true, lastName: true },
+    });
+    const members = users
+      .map((user) => ({
+        memberName: `${user.firstName} ${user.lastName}`,
+        ...shares.get(user.id)!,
+      }))
+      .sort((a, b) => a.memberName.localeCompare(b.memberName));
+
+    const pdf = await renderGroupStatementPdf({
+      groupName: group.name,
+      currency: group.currency,
+      periodStart: range.periodStart,
+      periodEnd: range.periodEnd,
+      openingBalance,
+      closingBalance,
+      totals,
+      members,
+      generatedAt: new Date(),
+    });
+
+    return this.store(
+      groupId,
+      'GROUP_STATEMENT',
+      `annual-statement-${slugify(group.name)}-${isoDate(range.periodStart)}-to-${isoDate(range.periodEnd)}.pdf`,
+      pdf,
+      userId,
+    );
+  }
+
+  /**
+   * The AGM report pack as a PDF, stored as an AGM_REPORT document
+   */
+  async generateAgmReport(groupId: string, dto: AgmReportQueryDto, userId: string) {
+    const report = await this.agmReportService.getAgmReport(groupId, dto.startMonth);
+    const pdf = await renderAgmReportPdf(report);
+    const { periodStart, periodEnd } = report.financialYear;
+
+    return this.store(
+      groupId,
+      'AGM_REPORT',
+      `agm-report-${slugify(report.group.name)}-${isoDate(periodStart)}-to-${isoDate(periodEnd)}.pdf`,
+      pdf,
+      userId,
+    );
+  }
+
+  private async store(
+    groupId: string,
+    type: 'MEMBER_STATEMENT' | 'GROUP_STATEMENT' | 'AGM_REPORT',
+    filename: string,
+    pdf: Buffer,
+    userId: string,
+  ) {
+    const document = await this.documentsService.uploadDocument(
+      {
+        buffer: pdf,
+        originalFilename: filename,
+        mimeType: 'application/pdf',
+        type,
+        groupId,
+      },
+      userId,
+    );
+
+    const download = await this.documentsService.getDownloadUrl(document.id, userId);
+
+    return { documentId: document.id, ...download };
+  }
+
+  private async getGroup(groupId: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, deletedAt: null },
+      select: { name: true, currency: true },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+
+    return group;
+  }
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'group'
+  );
+}
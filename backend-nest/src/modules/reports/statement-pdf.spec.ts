@@ -0,0 +1,91 @@
+import { Decimal } from 'decimal.js';
+import {
+  emptyStatementTotals,
+  renderGroupStatementPdf,
+  renderMemberStatementPdf,
+  statementCategory,
+} from './statement-pdf';
+
+describe('statementCategory', () => {
+  it('should group entry types by what the money was for', () => {
+    expect(statementCategory('CONTRIBUTION_CREDIT')).toBe('contributions');
+    expect(statementCategory('CONTRIBUTION_ADJUSTMENT')).toBe('contributions');
+    expect(statementCategory('FINE_CREDIT')).toBe('fines');
+    expect(statementCategory('INTEREST_CREDIT')).toBe('interest');
+    expect(statementCategory('PAYOUT_ADJUSTMENT')).toBe('payouts');
+    expect(statementCategory('FEE_DEBIT')).toBe('other');
+  });
+});
+
+describe('statement PDFs', () => {
+  const totals = {
+    ...emptyStatementTotals(),
+    contributions: new Decimal(1500),
+    payouts: new Decimal(-400),
+  };
+
+  it('should render a member statement', async () => {
+    const pdf = await renderMemberStatementPdf({
+      groupName: 'Ubuntu Savings Club',
+      memberName: 'Thandi Moyo',
+      currency: 'ZAR',
+      periodStart: new Date('2026-01-01T00:00:00Z'),
+      periodEnd: new Date('2026-03-31T00:00:00Z'),
+      openingBalance: new Decimal(0),
+      closingBalance: new Decimal(1100),
+      totals,
+      lines: [
+        {
+          date: new Date('2026-01-05T00:00:00Z'),
+          description: 'January contribution',
+          amount: new Decimal(1500),
+          balance: new Decimal(1500),
+        },
+        {
+          date: new Date('2026-03-20T00:00:00Z'),
+          description: 'Payout',
+          amount: new Decimal(-400),
+          balance: new Decimal(1100),
+        },
+      ],
+      allocations: [
+        {
+          paidOn: new Date('2026-01-05T00:00:00Z'),
+          periodStart: new Date('2026-01-01T00:00:00Z'),
+          amount: new Decimal(500),
+        },
+        {
+          paidOn: new Date('2026-01-05T00:00:00Z'),
+          periodStart: new Date('2026-02-01T00:00:00Z'),
+          amount: new Decimal(500),
+        },
+      ],
+      creditBalance: new Decimal(500),
+      generatedAt: new Date('2026-04-01T00:00:00Z'),
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should run a long member list onto more pages', async () => {
+    const pdf = await renderGroupStatementPdf({
+      groupName: 'Ubuntu Savings Club',
+      currency: 'ZAR',
+      periodStart: new Date('2025-03-01T00:00:00Z'),
+      periodEnd: new Date('2026-02-28T00:00:00Z'),
+      openingBalance: new Decimal(0),
+      closingBalance: new Decimal(1100),
+      totals,
+      members: Array.from({ length: 80 }, (_, i) => ({
+        memberName: `Member ${i + 1}`,
+        openingBalance: new Decimal(0),
+        totals,
+        closingBalance: new Decimal(1100),
+      })),
+      generatedAt: new Date('2026-03-01T00:00:00Z'),
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect((pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length).toBeGreaterThan(1);
+  });
+});
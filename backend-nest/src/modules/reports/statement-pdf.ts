@@ -0,0 +1,252 @@
+import { LedgerEntryType } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import {
+  describePeriod,
+  details,
+  formatDate,
+  formatMoney,
+  heading,
+  MARGIN,
+  note,
+  render,
+  section,
+  table,
+} from './pdf-layout';
+
+export type StatementCategory = 'contributions' | 'fines' | 'interest' | 'payouts' | 'other';
+
+/**
+ * Money in (positive) and out (negative) of the pot over the statement
+ * period, by what it was for
+ */
+export type StatementTotals = Record<StatementCategory, Decimal>;
+
+export interface StatementLine {
+  date: Date;
+  description: string;
+  // Positive for money in, negative for money out
+  amount: Decimal;
+  balance: Decimal;
+}
+
+/**
+ * Part of a contribution paying for a period: an instalment, or an
+ * overpayment carried forward
+ */
+export interface StatementAllocation {
+  paidOn: Date;
+  periodStart: Date;
+  amount: Decimal;
+}
+
+export interface MemberStatementPdf {
+  groupName: string;
+  memberName: string;
+  currency: string;
+  periodStart: Date | null;
+  periodEnd: Date;
+  openingBalance: Decimal;
+  closingBalance: Decimal;
+  totals: StatementTotals;
+  lines: StatementLine[];
+  allocations: StatementAllocation[];
+  // Overpayments waiting to be applied to future periods
+  creditBalance: Decimal;
+  generatedAt: Date;
+}
+
+export interface GroupStatementMember {
+  memberName: string;
+  openingBalance: Decimal;
+  totals: StatementTotals;
+  closingBalance: Decimal;
+}
+
+export interface GroupStatementPdf {
+  groupName: string;
+  currency: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: Decimal;
+  closingBalance: Decimal;
+  totals: StatementTotals;
+  members: GroupStatementMember[];
+  generatedAt: Date;
+}
+
+const CATEGORY_LABELS: Record<StatementCategory, string> = {
+  contributions: 'Contributions',
+  fines: 'Fines',
+  interest: 'Interest',
+  payouts: 'Payouts',
+  other: 'Fees and other',
+};
+
+export function statementCategory(entryType: LedgerEntryType): StatementCategory {
+  switch (entryType) {
+    case 'CONTRIBUTION_CREDIT':
+    case 'CONTRIBUTION_ADJUSTMENT':
+      return 'contributions';
+    case 'FINE_CREDIT':
+      return 'fines';
+    case 'INTEREST_CREDIT':
+    case 'LOAN_INTEREST_CREDIT':
+      return 'interest';
+    case 'PAYOUT_DEBIT':
+    case 'PAYOUT_ADJUSTMENT':
+    case 'BURIAL_CLAIM_DEBIT':
+    case 'ROSCA_PAYOUT_DEBIT':
+      return 'payouts';
+    default:
+      return 'other';
+  }
+}
+
+export function emptyStatementTotals(): StatementTotals {
+  return {
+    contributions: new Decimal(0),
+    fines: new Decimal(0),
+    interest: new Decimal(0),
+    payouts: new Decimal(0),
+    other: new Decimal(0),
+  };
+}
+
+export function renderMemberStatementPdf(statement: MemberStatementPdf): Promise<Buffer> {
+  return render(`Member statement - ${statement.memberName}`, (doc) => {
+    heading(doc, statement.groupName, 'Member statement');
+    details(doc, [
+      ['Member', statement.memberName],
+      ['Period', describePeriod(statement.periodStart, statement.periodEnd)],
+      ['Generated', formatDate(statement.generatedAt)],
+    ]);
+
+    summary(
+      doc,
+      statement.currency,
+      statement.openingBalance,
+      statement.totals,
+      statement.closingBalance,
+    );
+
+    section(doc, 'Transactions');
+    table(
+      doc,
+      [
+        { header: 'Date', width: 70 },
+        { header: 'Description', width: 235 },
+        { header: 'Amount', width: 95, align: 'right' },
+        { header: 'Balance', width: 95, align: 'right' },
+      ],
+      statement.lines.map((line) => [
+        formatDate(line.date),
+        line.description,
+        formatMoney(line.amount, statement.currency),
+        formatMoney(line.balance, statement.currency),
+      ]),
+    );
+    if (statement.lines.length === 0) {
+      note(doc, 'No transactions in this period.');
+    }
+
+    section(doc, 'Contributions by period');
+    if (statement.allocations.length === 0) {
+      note(doc, 'No contributions were made in this period.');
+    } else {
+      table(
+        doc,
+        [
+          { header: 'Paid on', width: 100 },
+          { header: 'Paid for', width: 150 },
+          { header: 'Amount', width: 120, align: 'right' },
+        ],
+        statement.allocations.map((allocation) => [
+          formatDate(allocation.paidOn),
+          formatMonth(allocation.periodStart),
+          formatMoney(allocation.amount, statement.currency),
+        ]),
+      );
+    }
+    if (statement.creditBalance.greaterThan(0)) {
+      note(
+        doc,
+        `${formatMoney(statement.creditBalance, statement.currency)} paid in advance will be ` +
+          'applied to future periods as they start.',
+      );
+    }
+  });
+}
+
+export function renderGroupStatementPdf(statement: GroupStatementPdf): Promise<Buffer> {
+  return render(`Annual statement - ${statement.groupName}`, (doc) => {
+    heading(doc, statement.groupName, 'Annual financial statement');
+    details(doc, [
+      ['Financial year', describePeriod(statement.periodStart, statement.periodEnd)],
+      ['Members', String(statement.members.length)],
+      ['Generated', formatDate(statement.generatedAt)],
+    ]);
+
+    summary(
+      doc,
+      statement.currency,
+      statement.openingBalance,
+      statement.totals,
+      statement.closingBalance,
+    );
+
+    section(doc, 'Members');
+    table(
+      doc,
+      [
+        { header: 'Member', width: 115 },
+        { header: 'Opening', width: 70, align: 'right' },
+        { header: 'Contributions', width: 75, align: 'right' },
+        { header: 'Fines', width: 55, align: 'right' },
+        { header: 'Interest', width: 60, align: 'right' },
+        { header: 'Payouts', width: 65, align: 'right' },
+        { header: 'Closing', width: 70, align: 'right' },
+      ],
+      statement.members.map((member) => [
+        member.memberName,
+        formatMoney(member.openingBalance),
+        formatMoney(member.totals.contributions),
+        formatMoney(member.totals.fines),
+        formatMoney(member.totals.interest),
+        formatMoney(member.totals.payouts),
+        formatMoney(member.closingBalance),
+      ]),
+    );
+  });
+}
+
+function formatMonth(periodStart: Date): string {
+  return periodStart.toISOString().slice(0, 7);
+}
+
+function summary(
+  doc: PDFKit.PDFDocument,
+  currency: string,
+  openingBalance: Decimal,
+  totals: StatementTotals,
+  closingBalance: Decimal,
+) {
+  doc.font('Helvetica-Bold').fontSize(12).text('Summary', MARGIN);
+  doc.moveDown(0.5);
+
+  const rows: Array<[string, Decimal]> = [
+    ['Opening balance', openingBalance],
+    ...(Object.keys(CATEGORY_LABELS) as StatementCategory[]).map(
+      (category) => [CATEGORY_LABELS[category], totals[category]] as [string, Decimal],
+    ),
+    ['Closing balance', closingBalance],
+  ];
+  table(
+    doc,
+    [
+      { header: '', width: 200 },
+      { header: currency, width: 120, align: 'right' },
+    ],
+    rows.map(([label, amount]) => [label, formatMoney(amount, currency)]),
+    { header: false, boldRows: [0, rows.length - 1] },
+  );
+}
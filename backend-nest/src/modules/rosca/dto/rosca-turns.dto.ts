@@ -0,0 +1,43 @@
+import { IsNumber, IsOptional, IsString, IsUUID, MaxLength, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RequestTurnSwapDto {
+  @ApiProperty({ description: 'Rotation the two turns are in' })
+  @IsUUID()
+  rotationId: string;
+
+  @ApiProperty({ description: 'User ID of the member to trade turns with' })
+  @IsUUID()
+  counterpartyId: string;
+
+  @ApiPropertyOptional({ example: 'School fees are due in January' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class DecideTurnSwapDto {
+  @ApiPropertyOptional({ example: 'Both members confirmed at the meeting' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class RejectTurnSwapDto {
+  @ApiProperty({ example: 'The later turn falls after the rotation is due to end' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class PlaceRoscaBidDto {
+  @ApiProperty({
+    example: 300,
+    description: 'Discount taken off the pot to receive this turn, shared among the other members',
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  discount: number;
+}
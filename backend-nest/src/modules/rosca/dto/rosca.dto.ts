@@ -0,0 +1,84 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RoscaOrderMethod } from '@prisma/client';
+
+export class CreateRotationDto {
+  @ApiProperty({ example: 500, description: 'What each member pays every cycle' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  contributionAmount: number;
+
+  @ApiProperty({ example: '2026-06-01', description: 'Month of the first cycle' })
+  @IsDateString()
+  startPeriod: string;
+
+  @ApiProperty({ enum: RoscaOrderMethod })
+  @IsEnum(RoscaOrderMethod)
+  orderMethod: RoscaOrderMethod;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description:
+      'Members taking part, all active members when omitted. For MANUAL, the turn order.',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsUUID('4', { each: true })
+  memberIds?: string[];
+
+  @ApiPropertyOptional({
+    example: 'june-2026-meeting',
+    description: 'Seed for RANDOM_DRAW, generated when omitted',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  seed?: string;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Let members bid a discount, shared among the others, to take each turn early',
+  })
+  @IsOptional()
+  @IsBoolean()
+  biddingEnabled?: boolean;
+}
+
+export class PayRoscaCycleDto {
+  @ApiProperty({ example: 'FNB-7781234', description: 'Bank reference of the handover' })
+  @IsString()
+  @MaxLength(100)
+  paymentReference: string;
+}
+
+export class RecordRoscaDefaultDto {
+  @ApiProperty({ description: 'User ID of the member who missed the cycle' })
+  @IsUUID()
+  memberId: string;
+
+  @ApiPropertyOptional({ example: 'Lost their job, will pay at the next meeting' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class SettleRoscaDefaultDto {
+  @ApiProperty({ example: 'FNB-7781299', description: 'Bank reference of the late share' })
+  @IsString()
+  @MaxLength(100)
+  paymentReference: string;
+}
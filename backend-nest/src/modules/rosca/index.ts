@@ -0,0 +1,5 @@
+export * from './rosca.module';
+export * from './rosca.service';
+export * from './rosca-turns.service';
+export * from './rosca.controller';
+export * from './rosca-turns.controller';
@@ -0,0 +1,118 @@
+import { Decimal } from 'decimal.js';
+import {
+  cycleContributions,
+  cyclePeriod,
+  drawTurnOrder,
+  joinDateTurnOrder,
+  manualOrderError,
+  winningBid,
+} from './rosca-rotation';
+
+describe('rosca rotation', () => {
+  const members = ['m-thandi', 'm-sipho', 'm-grace', 'm-lwazi', 'm-bongani'];
+
+  describe('drawTurnOrder', () => {
+    it('should give every member one turn', () => {
+      const order = drawTurnOrder(members, 'seed-1');
+
+      expect([...order].sort()).toEqual([...members].sort());
+    });
+
+    it('should replay the same draw from the same seed, whatever order members are listed in', () => {
+      const order = drawTurnOrder(members, 'june-2026-meeting');
+
+      expect(drawTurnOrder([...members].reverse(), 'june-2026-meeting')).toEqual(order);
+    });
+
+    it('should draw a different order from a different seed', () => {
+      const orders = new Set(
+        ['seed-1', 'seed-2', 'seed-3', 'seed-4'].map((seed) =>
+          drawTurnOrder(members, seed).join(','),
+        ),
+      );
+
+      expect(orders.size).toBeGreaterThan(1);
+    });
+  });
+
+  describe('joinDateTurnOrder', () => {
+    it('should put the longest-standing members first and break ties by ID', () => {
+      expect(
+        joinDateTurnOrder([
+          { userId: 'c', joinedAt: new Date('2025-03-01T00:00:00Z') },
+          { userId: 'b', joinedAt: new Date('2024-01-01T00:00:00Z') },
+          { userId: 'a', joinedAt: new Date('2025-03-01T00:00:00Z') },
+        ]),
+      ).toEqual(['b', 'a', 'c']);
+    });
+  });
+
+  describe('manualOrderError', () => {
+    it('should accept an order listing every member once', () => {
+      expect(manualOrderError(['b', 'a', 'c'], ['a', 'b', 'c'])).toBeNull();
+    });
+
+    it('should refuse an order that leaves a member out, repeats one or adds an outsider', () => {
+      expect(manualOrderError(['b', 'a'], ['a', 'b', 'c'])).toBe(
+        'The turn order must list every member taking part',
+      );
+      expect(manualOrderError(['a', 'b', 'a'], ['a', 'b', 'c'])).toBe('a is listed more than once');
+      expect(manualOrderError(['a', 'b', 'x'], ['a', 'b', 'c'])).toBe(
+        'x is not taking part in the rotation',
+      );
+    });
+  });
+
+  describe('cyclePeriod', () => {
+    it('should run one month per cycle, across the year end', () => {
+      const start = new Date('2026-11-01T00:00:00Z');
+
+      expect(cyclePeriod(start, 1)).toEqual(new Date('2026-11-01T00:00:00Z'));
+      expect(cyclePeriod(start, 3)).toEqual(new Date('2027-01-01T00:00:00Z'));
+    });
+  });
+
+  describe('cycleContributions', () => {
+    it('should mark members paid, defaulted or still outstanding', () => {
+      const result = cycleContributions(
+        ['a', 'b', 'c', 'd'],
+        new Decimal(500),
+        new Map([
+          ['a', new Decimal(500)],
+          ['b', new Decimal(200)],
+          ['d', new Decimal(600)],
+        ]),
+        new Set(['c']),
+      );
+
+      expect(result.map((c) => [c.memberId, c.status, c.paid.toString()])).toEqual([
+        ['a', 'PAID', '500'],
+        ['b', 'OUTSTANDING', '200'],
+        ['c', 'DEFAULTED', '0'],
+        ['d', 'PAID', '600'],
+      ]);
+    });
+  });
+
+  describe('winningBid', () => {
+    const bid = (bidderId: string, discount: number, placedAt: string) => ({
+      bidderId,
+      discount: new Decimal(discount),
+      createdAt: new Date(placedAt),
+    });
+
+    it('should pick the largest discount, and the earliest of equal bids', () => {
+      const winner = winningBid([
+        bid('a', 200, '2026-02-01T10:00:00Z'),
+        bid('b', 350, '2026-02-01T12:00:00Z'),
+        bid('c', 350, '2026-02-01T11:00:00Z'),
+      ]);
+
+      expect(winner?.bidderId).toBe('c');
+    });
+
+    it('should find no winner without bids', () => {
+      expect(winningBid([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import { Decimal } from 'decimal.js';
+
+export interface RotationMember {
+  userId: string;
+  joinedAt: Date;
+}
+
+export type CycleContributionStatus = 'PAID' | 'DEFAULTED' | 'OUTSTANDING';
+
+export interface CycleContribution {
+  memberId: string;
+  paid: Decimal;
+  status: CycleContributionStatus;
+}
+
+/**
+ * Shuffle the members into a turn order with a seeded Fisher-Yates draw.
+ * The members are sorted first, so anyone holding the seed and the member
+ * list can replay the draw and get the same order.
+ */
+export function drawTurnOrder(memberIds: string[], seed: string): string[] {
+  const order = [...memberIds].sort();
+  for (let i = order.length - 1; i > 0; i--) {
+    const digest = createHash('sha256').update(`${seed}:${i}`).digest();
+    const j = digest.readUInt32BE(0) % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * Longest-standing members first; members who joined together are taken
+ * in ID order so the order is stable
+ */
+export function joinDateTurnOrder(members: RotationMember[]): string[] {
+  return [...members]
+    .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime() || a.userId.localeCompare(b.userId))
+    .map((member) => member.userId);
+}
+
+/**
+ * Why a manual turn order cannot be used, or null when it lists every
+ * member exactly once
+ */
+export function manualOrderError(order: string[], memberIds: string[]): string | null {
+  const members = new Set(memberIds);
+  const seen = new Set<string>();
+
+  for (const memberId of order) {
+    if (!members.has(memberId)) {
+      return `${memberId} is not taking part in the rotation`;
+    }
+    if (seen.has(memberId)) {
+      return `${memberId} is listed more than once`;
+    }
+    seen.add(memberId);
+  }
+
+  if (seen.size !== members.size) {
+    return 'The turn order must list every member taking part';
+  }
+
+  return null;
+}
+
+/**
+ * The month a cycle's contributions are for, counting from the first cycle
+ */
+export function cyclePeriod(startPeriod: Date, cycleNumber: number): Date {
+  return new Date(
+    Date.UTC(startPeriod.getUTCFullYear(), startPeriod.getUTCMonth() + cycleNumber - 1, 1),
+  );
+}
+
+/**
+ * Where each member stands for a cycle: paid once their contributions for
+ * the month reach the rotation's amount, defaulted once an officer has
+ * recorded that they missed it, otherwise still outstanding
+ */
+export function cycleContributions(
+  memberIds: string[],
+  contributionAmount: Decimal,
+  paid: Map<string, Decimal>,
+  defaulted: Set<string>,
+): CycleContribution[] {
+  return memberIds.map((memberId) => {
+    const amount = paid.get(memberId) ?? new Decimal(0);
+    const status: CycleContributionStatus = amount.greaterThanOrEqualTo(contributionAmount)
+      ? 'PAID'
+      : defaulted.has(memberId)
+        ? 'DEFAULTED'
+        : 'OUTSTANDING';
+    return { memberId, paid: amount, status };
+  });
+}
+
+export interface TurnBid {
+  bidderId: string;
+  discount: Decimal;
+  createdAt: Date;
+}
+
+/**
+ * The bid that wins an early turn: the largest discount, and between equal
+ * discounts the one placed first. Null when nobody bid.
+ */
+export function winningBid<T extends TurnBid>(bids: T[]): T | null {
+  return bids.reduce<T | null>((best, bid) => {
+    if (!best) {
+      return bid;
+    }
+    const byDiscount = bid.discount.comparedTo(best.discount);
+    if (byDiscount > 0 || (byDiscount === 0 && bid.createdAt < best.createdAt)) {
+      return bid;
+    }
+    return best;
+  }, null);
+}
+
+export function memberName(member: { firstName: string; lastName: string }): string {
+  return `${member.firstName} ${member.lastName}`;
+}
+
+export function periodLabel(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
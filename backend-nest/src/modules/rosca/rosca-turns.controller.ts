@@ -0,0 +1,158 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RoscaSwapStatus } from '@prisma/client';
+import { RoscaTurnsService } from './rosca-turns.service';
+import {
+  DecideTurnSwapDto,
+  PlaceRoscaBidDto,
+  RejectTurnSwapDto,
+  RequestTurnSwapDto,
+} from './dto/rosca-turns.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AnyMember, ChairpersonOnly } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('rosca')
+@Controller({ path: 'groups/:groupId/rosca', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RoscaTurnsController {
+  constructor(private readonly turnsService: RoscaTurnsService) {}
+
+  @Post('swaps')
+  @AnyMember()
+  @ApiOperation({ summary: 'Ask another member to trade turns' })
+  @ApiResponse({ status: 201, description: 'Swap waiting for the other member' })
+  @ApiResponse({ status: 400, description: 'A turn is paid, won at auction or already in a swap' })
+  requestSwap(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: RequestTurnSwapDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.turnsService.requestSwap(groupId, dto, user.id);
+  }
+
+  @Get('swaps')
+  @AnyMember()
+  @ApiOperation({ summary: 'List turn swaps, newest first' })
+  @ApiResponse({ status: 200, description: 'Turn swaps' })
+  @ApiQuery({ name: 'status', required: false, enum: RoscaSwapStatus })
+  listSwaps(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('status') status?: RoscaSwapStatus,
+  ) {
+    return this.turnsService.listSwaps(groupId, status);
+  }
+
+  @Post('swaps/:swapId/accept')
+  @AnyMember()
+  @ApiOperation({ summary: 'Agree to a swap you were asked for' })
+  @ApiResponse({ status: 201, description: 'Swap waiting for the chairperson' })
+  acceptSwap(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.turnsService.acceptSwap(groupId, swapId, user.id);
+  }
+
+  @Post('swaps/:swapId/decline')
+  @AnyMember()
+  @ApiOperation({ summary: 'Decline a swap you were asked for' })
+  @ApiResponse({ status: 201, description: 'Swap declined' })
+  declineSwap(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @Body() dto: DecideTurnSwapDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.turnsService.declineSwap(groupId, swapId, dto, user.id);
+  }
+
+  @Post('swaps/:swapId/cancel')
+  @AnyMember()
+  @ApiOperation({ summary: 'Withdraw a swap you asked for' })
+  @ApiResponse({ status: 201, description: 'Swap cancelled' })
+  cancelSwap(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.turnsService.cancelSwap(groupId, swapId, user.id);
+  }
+
+  @Post('swaps/:swapId/approve')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Approve a swap both members agreed to and trade their turns' })
+  @ApiResponse({ status: 201, description: 'Turn order changed' })
+  @ApiResponse({ status: 400, description: 'Not accepted yet, or a turn has moved on' })
+  approveSwap(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @Body() dto: DecideTurnSwapDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.turnsService.approveSwap(groupId, swapId, dto, user.id);
+  }
+
+  @Post('swaps/:swapId/reject')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Reject a turn swap' })
+  @ApiResponse({ status: 201, description: 'Swap rejected' })
+  rejectSwap(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @Body() dto: RejectTurnSwapDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.turnsService.rejectSwap(groupId, swapId, dto, user.id);
+  }
+
+  @Post('cycles/:cycleId/bids')
+  @AnyMember()
+  @ApiOperation({ summary: 'Bid a discount to take this turn early' })
+  @ApiResponse({ status: 201, description: 'Bid placed or raised' })
+  @ApiResponse({ status: 400, description: 'Bidding closed, or your turn is not later' })
+  placeBid(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('cycleId', ParseUUIDPipe) cycleId: string,
+    @Body() dto: PlaceRoscaBidDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.turnsService.placeBid(groupId, cycleId, dto, user.id);
+  }
+
+  @Get('cycles/:cycleId/bids')
+  @AnyMember()
+  @ApiOperation({ summary: 'List bids for a turn, highest discount first' })
+  @ApiResponse({ status: 200, description: 'Bids' })
+  listBids(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('cycleId', ParseUUIDPipe) cycleId: string,
+  ) {
+    return this.turnsService.listBids(groupId, cycleId);
+  }
+
+  @Post('cycles/:cycleId/auction/close')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Close the auction and give the turn to the best bid' })
+  @ApiResponse({ status: 201, description: 'Auction closed and turn order updated' })
+  closeAuction(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('cycleId', ParseUUIDPipe) cycleId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.turnsService.closeAuction(groupId, cycleId, user.id);
+  }
+}
@@ -0,0 +1,355 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { RoscaTurnsService } from './rosca-turns.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('RoscaTurnsService', () => {
+  let service: RoscaTurnsService;
+
+  const mockPrismaService = {
+    roscaRotation: {
+      findFirst: jest.fn(),
+    },
+    roscaCycle: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    roscaTurnSwap: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    roscaBid: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    send: jest.fn(),
+  };
+
+  const person = (id: string, firstName: string) => ({ id, firstName, lastName: 'Moyo' });
+  const members = [
+    person('member-1', 'Thandi'),
+    person('member-2', 'Sipho'),
+    person('member-3', 'Grace'),
+  ];
+
+  const rotation = {
+    id: 'rotation-1',
+    groupId: 'group-1',
+    currency: 'ZAR',
+    status: 'ACTIVE',
+    biddingEnabled: true,
+  };
+
+  const cycle = (number: number, overrides = {}) => ({
+    id: `cycle-${number}`,
+    rotationId: 'rotation-1',
+    groupId: 'group-1',
+    cycleNumber: number,
+    periodStart: new Date(Date.UTC(2026, number - 1, 1)),
+    recipientId: members[number - 1].id,
+    recipient: members[number - 1],
+    potAmount: new Prisma.Decimal(1500),
+    status: 'SCHEDULED',
+    auctionClosedAt: null,
+    discount: null,
+    ...overrides,
+  });
+
+  const swap = (overrides = {}) => ({
+    id: 'swap-1',
+    rotationId: 'rotation-1',
+    groupId: 'group-1',
+    requesterId: 'member-2',
+    requester: members[1],
+    requesterCycle: cycle(2),
+    counterpartyId: 'member-3',
+    counterparty: members[2],
+    counterpartyCycle: cycle(3),
+    status: 'ACCEPTED',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoscaTurnsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<RoscaTurnsService>(RoscaTurnsService);
+
+    jest.clearAllMocks();
+    mockPrismaService.roscaCycle.findMany.mockResolvedValue([cycle(1), cycle(2), cycle(3)]);
+    mockPrismaService.roscaCycle.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.roscaTurnSwap.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.$transaction.mockImplementation((fn) => fn(mockPrismaService));
+  });
+
+  describe('requestSwap', () => {
+    beforeEach(() => {
+      mockPrismaService.roscaRotation.findFirst.mockResolvedValue({
+        ...rotation,
+        cycles: [cycle(1, { status: 'PAID' }), cycle(2), cycle(3)],
+      });
+      mockPrismaService.roscaTurnSwap.findFirst.mockResolvedValue(null);
+      mockPrismaService.roscaTurnSwap.create.mockResolvedValue({ id: 'swap-1' });
+    });
+
+    it('should ask the other member and audit the request', async () => {
+      await service.requestSwap(
+        'group-1',
+        { rotationId: 'rotation-1', counterpartyId: 'member-3' },
+        'member-2',
+      );
+
+      expect(mockPrismaService.roscaTurnSwap.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          requesterCycleId: 'cycle-2',
+          counterpartyId: 'member-3',
+          counterpartyCycleId: 'cycle-3',
+        }),
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ROSCA_TURN_SWAP_REQUESTED', resourceId: 'swap-1' }),
+      );
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-3', type: 'ROSCA_TURN_SWAP_REQUESTED' }),
+      );
+    });
+
+    it('should not swap a turn whose pot has been paid', async () => {
+      await expect(
+        service.requestSwap(
+          'group-1',
+          { rotationId: 'rotation-1', counterpartyId: 'member-1' },
+          'member-2',
+        ),
+      ).rejects.toThrow('The pot for turn 1 has already been paid');
+    });
+
+    it('should not open a second swap on a turn', async () => {
+      mockPrismaService.roscaTurnSwap.findFirst.mockResolvedValue({ id: 'swap-0' });
+
+      await expect(
+        service.requestSwap(
+          'group-1',
+          { rotationId: 'rotation-1', counterpartyId: 'member-3' },
+          'member-2',
+        ),
+      ).rejects.toThrow('One of these turns already has a swap waiting');
+    });
+  });
+
+  describe('acceptSwap', () => {
+    it('should only let the member asked accept', async () => {
+      mockPrismaService.roscaTurnSwap.findFirst.mockResolvedValue(swap({ status: 'PENDING' }));
+
+      await expect(service.acceptSwap('group-1', 'swap-1', 'member-2')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should not accept a swap the requester has just cancelled', async () => {
+      mockPrismaService.roscaTurnSwap.findFirst.mockResolvedValue(swap({ status: 'PENDING' }));
+      mockPrismaService.roscaTurnSwap.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.acceptSwap('group-1', 'swap-1', 'member-3')).rejects.toThrow(
+        'Swap has already been answered',
+      );
+      expect(mockPrismaService.roscaTurnSwap.updateMany).toHaveBeenCalledWith({
+        where: { id: 'swap-1', status: 'PENDING' },
+        data: { status: 'ACCEPTED', acceptedAt: expect.any(Date) },
+      });
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectSwap', () => {
+    it('should not reject a swap that has just been approved', async () => {
+      mockPrismaService.roscaTurnSwap.findFirst.mockResolvedValue(swap());
+      mockPrismaService.roscaTurnSwap.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.rejectSwap('group-1', 'swap-1', { reason: 'Too late' }, 'chair-1'),
+      ).rejects.toThrow('Swap has already been decided');
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approveSwap', () => {
+    it('should trade the turns and audit the order before and after', async () => {
+      mockPrismaService.roscaTurnSwap.findFirst.mockResolvedValue(swap());
+
+      await service.approveSwap('group-1', 'swap-1', {}, 'chair-1');
+
+      expect(mockPrismaService.roscaCycle.updateMany).toHaveBeenCalledWith({
+        where: { id: 'cycle-2', recipientId: 'member-2', status: 'SCHEDULED' },
+        data: { recipientId: 'member-3' },
+      });
+      expect(mockPrismaService.roscaCycle.updateMany).toHaveBeenCalledWith({
+        where: { id: 'cycle-3', recipientId: 'member-3', status: 'SCHEDULED' },
+        data: { recipientId: 'member-2' },
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ROSCA_TURN_SWAP_APPROVED',
+          beforeState: { status: 'ACCEPTED', order: ['member-1', 'member-2', 'member-3'] },
+          afterState: expect.objectContaining({ order: ['member-1', 'member-3', 'member-2'] }),
+        }),
+      );
+    });
+
+    it('should wait for the other member to accept', async () => {
+      mockPrismaService.roscaTurnSwap.findFirst.mockResolvedValue(swap({ status: 'PENDING' }));
+
+      await expect(service.approveSwap('group-1', 'swap-1', {}, 'chair-1')).rejects.toThrow(
+        'Grace Moyo has not accepted the swap',
+      );
+      expect(mockPrismaService.roscaCycle.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not let a chairperson decide a swap of their own turn', async () => {
+      mockPrismaService.roscaTurnSwap.findFirst.mockResolvedValue(swap());
+
+      await expect(service.approveSwap('group-1', 'swap-1', {}, 'member-3')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('placeBid', () => {
+    beforeEach(() => {
+      mockPrismaService.roscaCycle.findFirst.mockImplementation(({ where }) => {
+        if (where.recipientId) {
+          const own = members.findIndex((m) => m.id === where.recipientId) + 1;
+          return Promise.resolve(cycle(own));
+        }
+        return Promise.resolve(where.cycleNumber ? null : { ...cycle(2), rotation });
+      });
+      mockPrismaService.roscaBid.findUnique.mockResolvedValue(null);
+      mockPrismaService.roscaBid.upsert.mockResolvedValue({ id: 'bid-1' });
+    });
+
+    it('should take a bid from a member whose turn comes later', async () => {
+      await service.placeBid('group-1', 'cycle-2', { discount: 250 }, 'member-3');
+
+      expect(mockPrismaService.roscaBid.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { cycleId_bidderId: { cycleId: 'cycle-2', bidderId: 'member-3' } },
+        }),
+      );
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ROSCA_BID_PLACED' }),
+      );
+    });
+
+    it('should refuse a bid from a member whose turn has come', async () => {
+      await expect(
+        service.placeBid('group-1', 'cycle-2', { discount: 250 }, 'member-1'),
+      ).rejects.toThrow('Only members whose turn comes later can bid for this turn');
+    });
+
+    it('should refuse a discount as large as the pot', async () => {
+      await expect(
+        service.placeBid('group-1', 'cycle-2', { discount: 1500 }, 'member-3'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should only take bids for the next turn up for auction', async () => {
+      mockPrismaService.roscaCycle.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(where.cycleNumber ? cycle(1) : { ...cycle(2), rotation }),
+      );
+
+      await expect(
+        service.placeBid('group-1', 'cycle-2', { discount: 250 }, 'member-3'),
+      ).rejects.toThrow('The auction for turn 1 is still open');
+    });
+  });
+
+  describe('closeAuction', () => {
+    beforeEach(() => {
+      mockPrismaService.roscaCycle.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(where.cycleNumber ? null : { ...cycle(1), rotation }),
+      );
+    });
+
+    it('should give the turn to the best bid and move its member to the winner turn', async () => {
+      mockPrismaService.roscaBid.findMany.mockResolvedValue([
+        {
+          id: 'bid-2',
+          bidderId: 'member-2',
+          discount: new Prisma.Decimal(200),
+          createdAt: new Date('2026-01-02T00:00:00Z'),
+        },
+        {
+          id: 'bid-3',
+          bidderId: 'member-3',
+          discount: new Prisma.Decimal(300),
+          createdAt: new Date('2026-01-03T00:00:00Z'),
+        },
+      ]);
+
+      await service.closeAuction('group-1', 'cycle-1', 'chair-1');
+
+      expect(mockPrismaService.roscaCycle.updateMany).toHaveBeenCalledWith({
+        where: { id: 'cycle-1', recipientId: 'member-1', auctionClosedAt: null },
+        data: expect.objectContaining({
+          recipientId: 'member-3',
+          discount: new Prisma.Decimal(300),
+        }),
+      });
+      expect(mockPrismaService.roscaCycle.updateMany).toHaveBeenCalledWith({
+        where: { id: 'cycle-3', recipientId: 'member-3', status: 'SCHEDULED' },
+        data: { recipientId: 'member-1' },
+      });
+      expect(mockPrismaService.roscaTurnSwap.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'CANCELLED' }) }),
+      );
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ROSCA_AUCTION_CLOSED',
+          afterState: expect.objectContaining({
+            winningBidId: 'bid-3',
+            discount: '300.00',
+            order: ['member-3', 'member-2', 'member-1'],
+          }),
+        }),
+      );
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-1', type: 'ROSCA_TURN_MOVED' }),
+      );
+    });
+
+    it('should leave the turn with its member when nobody bid', async () => {
+      mockPrismaService.roscaBid.findMany.mockResolvedValue([]);
+
+      await service.closeAuction('group-1', 'cycle-1', 'chair-1');
+
+      expect(mockPrismaService.roscaCycle.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.roscaCycle.updateMany).toHaveBeenCalledWith({
+        where: { id: 'cycle-1', recipientId: 'member-1', auctionClosedAt: null },
+        data: { auctionClosedAt: expect.any(Date) },
+      });
+      expect(mockNotificationsService.send).not.toHaveBeenCalled();
+    });
+  });
+});
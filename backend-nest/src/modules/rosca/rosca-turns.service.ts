@@ -0,0 +1,687 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma, RoscaSwapStatus } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { memberName, periodLabel, winningBid } from './rosca-rotation';
+import {
+  DecideTurnSwapDto,
+  PlaceRoscaBidDto,
+  RejectTurnSwapDto,
+  RequestTurnSwapDto,
+} from './dto/rosca-turns.dto';
+
+const memberSelect = { id: true, firstName: true, lastName: true } as const;
+const OPEN_SWAP_STATUSES: RoscaSwapStatus[] = ['PENDING', 'ACCEPTED'];
+
+interface TurnCycle {
+  id: string;
+  cycleNumber: number;
+  periodStart: Date;
+  recipientId: string;
+  status: string;
+  discount: Prisma.Decimal | null;
+}
+
+@Injectable()
+export class RoscaTurnsService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Ask another member to trade turns. Asking counts as the requester's
+   * agreement; the swap then needs the other member to accept and the
+   * chairperson to approve before the order changes.
+   */
+  async requestSwap(groupId: string, dto: RequestTurnSwapDto, userId: string) {
+    if (dto.counterpartyId === userId) {
+      throw new BadRequestException('You cannot swap turns with yourself');
+    }
+
+    const rotation = await this.prisma.roscaRotation.findFirst({
+      where: { id: dto.rotationId, groupId },
+      include: { cycles: { include: { recipient: { select: memberSelect } } } },
+    });
+    if (!rotation) {
+      throw new NotFoundException('Rotation not found');
+    }
+    if (rotation.status !== 'ACTIVE') {
+      throw new BadRequestException(`Rotation is ${rotation.status.toLowerCase()}`);
+    }
+
+    const requesterCycle = rotation.cycles.find((c) => c.recipientId === userId);
+    if (!requesterCycle) {
+      throw new ForbiddenException('You are not taking part in this rotation');
+    }
+    const counterpartyCycle = rotation.cycles.find((c) => c.recipientId === dto.counterpartyId);
+    if (!counterpartyCycle) {
+      throw new BadRequestException('Member is not taking part in this rotation');
+    }
+    assertSwappable(requesterCycle);
+    assertSwappable(counterpartyCycle);
+    await this.assertNoOpenSwap([requesterCycle.id, counterpartyCycle.id]);
+
+    const swap = await this.prisma.roscaTurnSwap.create({
+      data: {
+        rotationId: rotation.id,
+        groupId,
+        requesterId: userId,
+        requesterCycleId: requesterCycle.id,
+        counterpartyId: dto.counterpartyId,
+        counterpartyCycleId: counterpartyCycle.id,
+        reason: dto.reason,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ROSCA_TURN_SWAP_REQUESTED',
+      resourceType: 'ROSCA_TURN_SWAP',
+      resourceId: swap.id,
+      groupId,
+      afterState: {
+        status: 'PENDING',
+        rotationId: rotation.id,
+        requesterTurn: requesterCycle.cycleNumber,
+        counterpartyId: dto.counterpartyId,
+        counterpartyTurn: counterpartyCycle.cycleNumber,
+        reason: dto.reason,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notify(
+      dto.counterpartyId,
+      groupId,
+      'ROSCA_TURN_SWAP_REQUESTED',
+      'Turn swap requested',
+      `${memberName(requesterCycle.recipient)} would like to take your turn ` +
+        `${counterpartyCycle.cycleNumber} (${periodLabel(counterpartyCycle.periodStart)}) and ` +
+        `give you turn ${requesterCycle.cycleNumber} (${periodLabel(requesterCycle.periodStart)}).`,
+      { swapId: swap.id },
+    );
+
+    return swap;
+  }
+
+  async listSwaps(groupId: string, status?: RoscaSwapStatus) {
+    return this.prisma.roscaTurnSwap.findMany({
+      where: { groupId, ...(status && { status }) },
+      include: {
+        requester: { select: memberSelect },
+        counterparty: { select: memberSelect },
+        requesterCycle: { select: { cycleNumber: true, periodStart: true } },
+        counterpartyCycle: { select: { cycleNumber: true, periodStart: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * The other member agrees to the swap, which goes to the chairperson
+   */
+  async acceptSwap(groupId: string, swapId: string, userId: string) {
+    const swap = await this.findSwapOrFail(groupId, swapId);
+
+    if (swap.counterpartyId !== userId) {
+      throw new ForbiddenException('Only the member asked can accept this swap');
+    }
+    if (swap.status !== 'PENDING') {
+      throw new BadRequestException(`Swap is already ${swap.status.toLowerCase()}`);
+    }
+
+    const { count } = await this.prisma.roscaTurnSwap.updateMany({
+      where: { id: swapId, status: 'PENDING' },
+      data: { status: 'ACCEPTED', acceptedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Swap has already been answered');
+    }
+
+    await this.logSwapChange(swap, 'ROSCA_TURN_SWAP_ACCEPTED', 'ACCEPTED', userId);
+    await this.notify(
+      swap.requesterId,
+      groupId,
+      'ROSCA_TURN_SWAP_ACCEPTED',
+      'Turn swap accepted',
+      `${memberName(swap.counterparty)} has agreed to swap turns. ` +
+        'The swap now needs the chairperson to approve it.',
+      { swapId },
+    );
+
+    return this.findSwapOrFail(groupId, swapId);
+  }
+
+  async declineSwap(groupId: string, swapId: string, dto: DecideTurnSwapDto, userId: string) {
+    const swap = await this.findSwapOrFail(groupId, swapId);
+
+    if (swap.counterpartyId !== userId) {
+      throw new ForbiddenException('Only the member asked can decline this swap');
+    }
+    if (swap.status !== 'PENDING') {
+      throw new BadRequestException(`Swap is already ${swap.status.toLowerCase()}`);
+    }
+
+    const { count } = await this.prisma.roscaTurnSwap.updateMany({
+      where: { id: swapId, status: 'PENDING' },
+      data: { status: 'DECLINED', decisionReason: dto.reason },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Swap has already been answered');
+    }
+
+    await this.logSwapChange(swap, 'ROSCA_TURN_SWAP_DECLINED', 'DECLINED', userId, dto.reason);
+    await this.notify(
+      swap.requesterId,
+      groupId,
+      'ROSCA_TURN_SWAP_DECLINED',
+      'Turn swap declined',
+      `${memberName(swap.counterparty)} does not want to swap turns` +
+        (dto.reason ? `: ${dto.reason}` : '.'),
+      { swapId },
+    );
+
+    return this.findSwapOrFail(groupId, swapId);
+  }
+
+  async cancelSwap(groupId: string, swapId: string, userId: string) {
+    const swap = await this.findSwapOrFail(groupId, swapId);
+
+    if (swap.requesterId !== userId) {
+      throw new ForbiddenException('Only the member who asked can cancel this swap');
+    }
+    if (!OPEN_SWAP_STATUSES.includes(swap.status)) {
+      throw new BadRequestException(`Swap is already ${swap.status.toLowerCase()}`);
+    }
+
+    const { count } = await this.prisma.roscaTurnSwap.updateMany({
+      where: { id: swapId, status: { in: OPEN_SWAP_STATUSES } },
+      data: { status: 'CANCELLED' },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Swap has already been decided');
+    }
+
+    await this.logSwapChange(swap, 'ROSCA_TURN_SWAP_CANCELLED', 'CANCELLED', userId);
+
+    return this.findSwapOrFail(groupId, swapId);
+  }
+
+  /**
+   * Approve a swap both members have agreed to and trade their turns. The
+   * turns are checked again, as a pot or an auction may have moved on
+   * since the swap was asked for.
+   */
+  async approveSwap(groupId: string, swapId: string, dto: DecideTurnSwapDto, userId: string) {
+    const swap = await this.findDecidableSwap(groupId, swapId, userId);
+
+    if (swap.status !== 'ACCEPTED') {
+      throw new BadRequestException(`${memberName(swap.counterparty)} has not accepted the swap`);
+    }
+    const { requesterCycle, counterpartyCycle } = swap;
+    if (
+      requesterCycle.recipientId !== swap.requesterId ||
+      counterpartyCycle.recipientId !== swap.counterpartyId
+    ) {
+      throw new BadRequestException('The turns have changed hands since the swap was asked for');
+    }
+    assertSwappable(requesterCycle);
+    assertSwappable(counterpartyCycle);
+
+    const orderBefore = await this.turnOrder(swap.rotationId);
+    const decidedAt = new Date();
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.roscaTurnSwap.updateMany({
+          where: { id: swapId, status: 'ACCEPTED' },
+          data: {
+            status: 'APPROVED',
+            decidedById: userId,
+            decidedAt,
+            decisionReason: dto.reason,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Swap has already been decided');
+        }
+
+        await this.moveTurn(tx, requesterCycle, swap.requesterId, swap.counterpartyId);
+        await this.moveTurn(tx, counterpartyCycle, swap.counterpartyId, swap.requesterId);
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ROSCA_TURN_SWAP_APPROVED',
+      resourceType: 'ROSCA_TURN_SWAP',
+      resourceId: swapId,
+      groupId,
+      beforeState: { status: 'ACCEPTED', order: orderBefore },
+      afterState: {
+        status: 'APPROVED',
+        order: exchange(orderBefore, swap.requesterId, swap.counterpartyId),
+        reason: dto.reason,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    for (const [memberId, cycle] of [
+      [swap.requesterId, counterpartyCycle],
+      [swap.counterpartyId, requesterCycle],
+    ] as const) {
+      await this.notify(
+        memberId,
+        groupId,
+        'ROSCA_TURN_SWAP_APPROVED',
+        'Turn swap approved',
+        `Your turn is now turn ${cycle.cycleNumber}; you receive the pot in ` +
+          `${periodLabel(cycle.periodStart)}.`,
+        { swapId, cycleId: cycle.id },
+      );
+    }
+
+    return this.findSwapOrFail(groupId, swapId);
+  }
+
+  async rejectSwap(groupId: string, swapId: string, dto: RejectTurnSwapDto, userId: string) {
+    const swap = await this.findDecidableSwap(groupId, swapId, userId);
+
+    const { count } = await this.prisma.roscaTurnSwap.updateMany({
+      where: { id: swapId, status: { in: OPEN_SWAP_STATUSES } },
+      data: {
+        status: 'REJECTED',
+        decidedById: userId,
+        decidedAt: new Date(),
+        decisionReason: dto.reason,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Swap has already been decided');
+    }
+
+    await this.logSwapChange(swap, 'ROSCA_TURN_SWAP_REJECTED', 'REJECTED', userId, dto.reason);
+    for (const memberId of [swap.requesterId, swap.counterpartyId]) {
+      await this.notify(
+        memberId,
+        groupId,
+        'ROSCA_TURN_SWAP_REJECTED',
+        'Turn swap rejected',
+        `The chairperson did not approve the swap of turns ${swap.requesterCycle.cycleNumber} ` +
+          `and ${swap.counterpartyCycle.cycleNumber}: ${dto.reason}`,
+        { swapId },
+      );
+    }
+
+    return this.findSwapOrFail(groupId, swapId);
+  }
+
+  /**
+   * Bid a discount to receive the next turn up for auction. Only members
+   * whose own turn comes later can bid, and a member raising their bid
+   * replaces it.
+   */
+  async placeBid(groupId: string, cycleId: string, dto: PlaceRoscaBidDto, userId: string) {
+    const cycle = await this.findAuctionCycle(groupId, cycleId);
+
+    const ownCycle = await this.prisma.roscaCycle.findFirst({
+      where: { rotationId: cycle.rotationId, recipientId: userId },
+    });
+    if (!ownCycle) {
+      throw new ForbiddenException('You are not taking part in this rotation');
+    }
+    if (ownCycle.cycleNumber <= cycle.cycleNumber) {
+      throw new BadRequestException('Only members whose turn comes later can bid for this turn');
+    }
+
+    const discount = new Decimal(dto.discount);
+    if (discount.greaterThanOrEqualTo(cycle.potAmount.toString())) {
+      throw new BadRequestException(
+        `The discount must be less than the pot of ${cycle.potAmount.toFixed(2)}`,
+      );
+    }
+
+    const previous = await this.prisma.roscaBid.findUnique({
+      where: { cycleId_bidderId: { cycleId, bidderId: userId } },
+    });
+    const bid = await this.prisma.roscaBid.upsert({
+      where: { cycleId_bidderId: { cycleId, bidderId: userId } },
+      create: {
+        cycleId,
+        groupId,
+        bidderId: userId,
+        discount: new Prisma.Decimal(discount.toString()),
+      },
+      update: { discount: new Prisma.Decimal(discount.toString()) },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ROSCA_BID_PLACED',
+      resourceType: 'ROSCA_CYCLE',
+      resourceId: cycleId,
+      groupId,
+      beforeState: previous ? { bidId: previous.id, discount: previous.discount.toString() } : {},
+      afterState: { bidId: bid.id, discount: discount.toFixed(2) },
+      outcome: 'SUCCESS',
+    });
+
+    return bid;
+  }
+
+  /**
+   * Bids for a turn, highest discount first
+   */
+  async listBids(groupId: string, cycleId: string) {
+    return this.prisma.roscaBid.findMany({
+      where: { cycleId, groupId },
+      include: { bidder: { select: memberSelect } },
+      orderBy: [{ discount: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Close the auction for a turn. The best bid from a member whose turn is
+   * still to come wins: they take this turn and the member who held it
+   * moves to the winner's turn. Open swaps of either turn are cancelled.
+   * With no bids the turn stays with its member and can now be paid.
+   */
+  async closeAuction(groupId: string, cycleId: string, userId: string) {
+    const cycle = await this.findAuctionCycle(groupId, cycleId);
+
+    const [bids, cycles] = await Promise.all([
+      this.prisma.roscaBid.findMany({ where: { cycleId } }),
+      this.prisma.roscaCycle.findMany({
+        where: { rotationId: cycle.rotationId },
+        include: { recipient: { select: memberSelect } },
+        orderBy: { cycleNumber: 'asc' },
+      }),
+    ]);
+    const turns = new Map(cycles.map((c) => [c.recipientId, c]));
+
+    // A bidder who has since swapped into this turn or earlier cannot win it
+    const winner = winningBid(
+      bids
+        .filter((b) => {
+          const turn = turns.get(b.bidderId);
+          return turn && turn.cycleNumber > cycle.cycleNumber && turn.status === 'SCHEDULED';
+        })
+        .map((b) => ({ ...b, discount: new Decimal(b.discount.toString()) })),
+    );
+    const winnerCycle = winner ? turns.get(winner.bidderId)! : null;
+    const orderBefore = cycles.map((c) => c.recipientId);
+    const closedAt = new Date();
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.roscaCycle.updateMany({
+          where: { id: cycleId, recipientId: cycle.recipientId, auctionClosedAt: null },
+          data: {
+            auctionClosedAt: closedAt,
+            ...(winner && {
+              recipientId: winner.bidderId,
+              discount: new Prisma.Decimal(winner.discount.toString()),
+            }),
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Auction for this turn is already closed');
+        }
+
+        if (winnerCycle) {
+          await this.moveTurn(tx, winnerCycle, winnerCycle.recipientId, cycle.recipientId);
+          await tx.roscaTurnSwap.updateMany({
+            where: {
+              status: { in: OPEN_SWAP_STATUSES },
+              OR: [
+                { requesterCycleId: { in: [cycleId, winnerCycle.id] } },
+                { counterpartyCycleId: { in: [cycleId, winnerCycle.id] } },
+              ],
+            },
+            data: {
+              status: 'CANCELLED',
+              decisionReason: `Turn ${cycle.cycleNumber} was won at auction`,
+            },
+          });
+        }
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ROSCA_AUCTION_CLOSED',
+      resourceType: 'ROSCA_CYCLE',
+      resourceId: cycleId,
+      groupId,
+      beforeState: { recipientId: cycle.recipientId, order: orderBefore },
+      afterState: {
+        recipientId: winner?.bidderId ?? cycle.recipientId,
+        winningBidId: winner?.id,
+        discount: winner?.discount.toFixed(2),
+        bids: bids.length,
+        order: winner ? exchange(orderBefore, cycle.recipientId, winner.bidderId) : orderBefore,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    if (winner && winnerCycle) {
+      const currency = cycle.rotation.currency;
+      await this.notify(
+        winner.bidderId,
+        groupId,
+        'ROSCA_AUCTION_WON',
+        'You won the turn',
+        `Your bid won turn ${cycle.cycleNumber} (${periodLabel(cycle.periodStart)}). ` +
+          `${currency} ${winner.discount.toFixed(2)} will be taken off the pot and shared ` +
+          'among the other members.',
+        { cycleId },
+      );
+      await this.notify(
+        cycle.recipientId,
+        groupId,
+        'ROSCA_TURN_MOVED',
+        'Your turn has moved',
+        `${memberName(winnerCycle.recipient)} won turn ${cycle.cycleNumber} at auction. ` +
+          `Your turn is now turn ${winnerCycle.cycleNumber}; you receive the pot in ` +
+          `${periodLabel(winnerCycle.periodStart)}.`,
+        { cycleId: winnerCycle.id },
+      );
+    }
+
+    return this.prisma.roscaCycle.findUnique({
+      where: { id: cycleId },
+      include: { recipient: { select: memberSelect } },
+    });
+  }
+
+  /**
+   * A cycle of a bidding rotation whose auction is open: it is the earliest
+   * turn still to be auctioned
+   */
+  private async findAuctionCycle(groupId: string, cycleId: string) {
+    const cycle = await this.prisma.roscaCycle.findFirst({
+      where: { id: cycleId, groupId },
+      include: { rotation: true },
+    });
+
+    if (!cycle) {
+      throw new NotFoundException('Cycle not found');
+    }
+    if (!cycle.rotation.biddingEnabled) {
+      throw new BadRequestException('This rotation does not take bids for turns');
+    }
+    if (cycle.rotation.status !== 'ACTIVE') {
+      throw new BadRequestException(`Rotation is ${cycle.rotation.status.toLowerCase()}`);
+    }
+    if (cycle.status !== 'SCHEDULED' || cycle.auctionClosedAt) {
+      throw new BadRequestException('Auction for this turn is already closed');
+    }
+
+    const earlier = await this.prisma.roscaCycle.findFirst({
+      where: {
+        rotationId: cycle.rotationId,
+        cycleNumber: { lt: cycle.cycleNumber },
+        status: 'SCHEDULED',
+        auctionClosedAt: null,
+      },
+      orderBy: { cycleNumber: 'asc' },
+    });
+    if (earlier) {
+      throw new BadRequestException(`The auction for turn ${earlier.cycleNumber} is still open`);
+    }
+
+    return cycle;
+  }
+
+  /**
+   * A swap the chairperson can still decide, and is not a party to
+   */
+  private async findDecidableSwap(groupId: string, swapId: string, userId: string) {
+    const swap = await this.findSwapOrFail(groupId, swapId);
+
+    if (!OPEN_SWAP_STATUSES.includes(swap.status)) {
+      throw new BadRequestException(`Swap is already ${swap.status.toLowerCase()}`);
+    }
+    if (swap.requesterId === userId || swap.counterpartyId === userId) {
+      throw new ForbiddenException('You cannot decide a swap of your own turn');
+    }
+
+    return swap;
+  }
+
+  private async findSwapOrFail(groupId: string, swapId: string) {
+    const swap = await this.prisma.roscaTurnSwap.findFirst({
+      where: { id: swapId, groupId },
+      include: {
+        requester: { select: memberSelect },
+        counterparty: { select: memberSelect },
+        requesterCycle: true,
+        counterpartyCycle: true,
+      },
+    });
+
+    if (!swap) {
+      throw new NotFoundException('Turn swap not found');
+    }
+
+    return swap;
+  }
+
+  private async assertNoOpenSwap(cycleIds: string[]) {
+    const open = await this.prisma.roscaTurnSwap.findFirst({
+      where: {
+        status: { in: OPEN_SWAP_STATUSES },
+        OR: [{ requesterCycleId: { in: cycleIds } }, { counterpartyCycleId: { in: cycleIds } }],
+      },
+    });
+    if (open) {
+      throw new BadRequestException('One of these turns already has a swap waiting');
+    }
+  }
+
+  /**
+   * Hand a turn to another member, provided it is still unpaid and held by
+   * the member expected
+   */
+  private async moveTurn(
+    tx: Prisma.TransactionClient,
+    cycle: { id: string; cycleNumber: number },
+    from: string,
+    to: string,
+  ) {
+    const { count } = await tx.roscaCycle.updateMany({
+      where: { id: cycle.id, recipientId: from, status: 'SCHEDULED' },
+      data: { recipientId: to },
+    });
+    if (count === 0) {
+      throw new BadRequestException(`Turn ${cycle.cycleNumber} has changed since it was checked`);
+    }
+  }
+
+  private async turnOrder(rotationId: string): Promise<string[]> {
+    const cycles = await this.prisma.roscaCycle.findMany({
+      where: { rotationId },
+      select: { recipientId: true },
+      orderBy: { cycleNumber: 'asc' },
+    });
+    return cycles.map((c) => c.recipientId);
+  }
+
+  private async logSwapChange(
+    swap: { id: string; groupId: string; status: RoscaSwapStatus },
+    action: string,
+    status: RoscaSwapStatus,
+    userId: string,
+    reason?: string,
+  ) {
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action,
+      resourceType: 'ROSCA_TURN_SWAP',
+      resourceId: swap.id,
+      groupId: swap.groupId,
+      beforeState: { status: swap.status },
+      afterState: { status, reason },
+      outcome: 'SUCCESS',
+    });
+  }
+
+  private async notify(
+    userId: string,
+    groupId: string,
+    type: string,
+    title: string,
+    body: string,
+    data: Record<string, string>,
+  ) {
+    await this.notificationsService.send({
+      userId,
+      type,
+      channels: ['IN_APP', 'EMAIL'],
+      title,
+      body,
+      data,
+      groupId,
+    });
+  }
+}
+
+/**
+ * Turns can only change hands before their pot is paid, and a turn won at
+ * auction stays with the member who paid the discount for it
+ */
+function assertSwappable(cycle: TurnCycle) {
+  if (cycle.status !== 'SCHEDULED') {
+    throw new BadRequestException(`The pot for turn ${cycle.cycleNumber} has already been paid`);
+  }
+  if (cycle.discount) {
+    throw new BadRequestException(`Turn ${cycle.cycleNumber} was won at auction`);
+  }
+}
+
+/**
+ * The turn order with two members' turns traded
+ */
+function exchange(order: string[], a: string, b: string): string[] {
+  return order.map((memberId) => (memberId === a ? b : memberId === b ? a : memberId));
+}
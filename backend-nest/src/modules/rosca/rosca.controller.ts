@@ -0,0 +1,127 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RoscaDefaultStatus } from '@prisma/client';
+import { RoscaService } from './rosca.service';
+import {
+  CreateRotationDto,
+  PayRoscaCycleDto,
+  RecordRoscaDefaultDto,
+  SettleRoscaDefaultDto,
+} from './dto/rosca.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AnyMember, ChairpersonOnly, TreasurerOrHigher } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('rosca')
+@Controller({ path: 'groups/:groupId/rosca', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RoscaController {
+  constructor(private readonly roscaService: RoscaService) {}
+
+  @Post('rotations')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Start a rotation with a manual, drawn or join-date turn order' })
+  @ApiResponse({ status: 201, description: 'Rotation and its cycles' })
+  @ApiResponse({ status: 400, description: 'A rotation is already running, or bad turn order' })
+  createRotation(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateRotationDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.roscaService.createRotation(groupId, dto, user.id);
+  }
+
+  @Get('rotations')
+  @AnyMember()
+  @ApiOperation({ summary: 'List rotations, newest first' })
+  @ApiResponse({ status: 200, description: 'Rotations' })
+  listRotations(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.roscaService.listRotations(groupId);
+  }
+
+  @Get('rotations/:rotationId')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get a rotation with its turn order and defaults' })
+  @ApiResponse({ status: 200, description: 'Rotation details' })
+  getRotation(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('rotationId', ParseUUIDPipe) rotationId: string,
+  ) {
+    return this.roscaService.getRotation(groupId, rotationId);
+  }
+
+  @Get('cycles/:cycleId')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get a cycle and where each member stands for its month' })
+  @ApiResponse({ status: 200, description: 'Cycle with contributions and whether it can be paid' })
+  getCycle(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('cycleId', ParseUUIDPipe) cycleId: string,
+  ) {
+    return this.roscaService.getCycle(groupId, cycleId);
+  }
+
+  @Post('cycles/:cycleId/pay')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: "Hand the cycle's pot to its recipient and debit the ledger" })
+  @ApiResponse({ status: 201, description: 'Cycle paid' })
+  @ApiResponse({ status: 400, description: 'Contributions outstanding or an earlier cycle unpaid' })
+  payCycle(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('cycleId', ParseUUIDPipe) cycleId: string,
+    @Body() dto: PayRoscaCycleDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.roscaService.payCycle(groupId, cycleId, dto, user.id);
+  }
+
+  @Post('cycles/:cycleId/defaults')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Record that a member has not paid for a cycle' })
+  @ApiResponse({ status: 201, description: 'Default recorded' })
+  recordDefault(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('cycleId', ParseUUIDPipe) cycleId: string,
+    @Body() dto: RecordRoscaDefaultDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.roscaService.recordDefault(groupId, cycleId, dto, user.id);
+  }
+
+  @Get('defaults')
+  @AnyMember()
+  @ApiOperation({ summary: 'List defaults, members who had already received their pot first' })
+  @ApiResponse({ status: 200, description: 'Defaults' })
+  @ApiQuery({ name: 'status', required: false, enum: RoscaDefaultStatus })
+  listDefaults(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('status') status?: RoscaDefaultStatus,
+  ) {
+    return this.roscaService.listDefaults(groupId, status);
+  }
+
+  @Post('defaults/:defaultId/settle')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Settle a default the member has paid late' })
+  @ApiResponse({ status: 201, description: 'Default settled' })
+  settleDefault(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('defaultId', ParseUUIDPipe) defaultId: string,
+    @Body() dto: SettleRoscaDefaultDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.roscaService.settleDefault(groupId, defaultId, dto, user.id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { RoscaService } from './rosca.service';
+import { RoscaTurnsService } from './rosca-turns.service';
+import { RoscaController } from './rosca.controller';
+import { RoscaTurnsController } from './rosca-turns.controller';
+import { LedgerModule } from '../ledger/ledger.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [LedgerModule, NotificationsModule],
+  controllers: [RoscaController, RoscaTurnsController],
+  providers: [RoscaService, RoscaTurnsService],
+  exports: [RoscaService, RoscaTurnsService],
+})
+export class RoscaModule {}
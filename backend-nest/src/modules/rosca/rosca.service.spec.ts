@@ -0,0 +1,532 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { RoscaService } from './rosca.service';
+import { drawTurnOrder } from './rosca-rotation';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('RoscaService', () => {
+  let service: RoscaService;
+
+  const mockPrismaService = {
+    group: {
+      findFirst: jest.fn(),
+    },
+    groupMember: {
+      findMany: jest.fn(),
+    },
+    roscaRotation: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    roscaCycle: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    roscaDefault: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    contributionAllocation: {
+      groupBy: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    appendRoscaPayoutDebit: jest.fn(),
+    appendRoscaDiscountDebit: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    send: jest.fn(),
+  };
+
+  const person = (id: string, firstName: string) => ({ id, firstName, lastName: 'Moyo' });
+  const members = [
+    person('member-1', 'Thandi'),
+    person('member-2', 'Sipho'),
+    person('member-3', 'Grace'),
+  ];
+
+  const rotation = {
+    id: 'rotation-1',
+    groupId: 'group-1',
+    contributionAmount: new Prisma.Decimal(500),
+    currency: 'ZAR',
+    status: 'ACTIVE',
+  };
+
+  const cycle = (overrides = {}) => ({
+    id: 'cycle-2',
+    rotationId: 'rotation-1',
+    groupId: 'group-1',
+    cycleNumber: 2,
+    periodStart: new Date('2026-02-01T00:00:00Z'),
+    recipientId: 'member-2',
+    recipient: members[1],
+    potAmount: new Prisma.Decimal(1500),
+    status: 'SCHEDULED',
+    rotation,
+    ...overrides,
+  });
+
+  const allocations = (paid: Record<string, number>) =>
+    mockPrismaService.contributionAllocation.groupBy.mockResolvedValue(
+      Object.entries(paid).map(([memberId, amount]) => ({
+        memberId,
+        _sum: { amount: new Prisma.Decimal(amount) },
+      })),
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoscaService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<RoscaService>(RoscaService);
+
+    jest.clearAllMocks();
+    mockPrismaService.group.findFirst.mockResolvedValue({
+      id: 'group-1',
+      type: 'ROSCA',
+      status: 'ACTIVE',
+      currency: 'ZAR',
+    });
+    mockPrismaService.roscaCycle.findMany.mockResolvedValue(
+      members.map((recipient) => ({ recipient })),
+    );
+    mockPrismaService.roscaDefault.findMany.mockResolvedValue([]);
+    mockPrismaService.roscaDefault.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.roscaCycle.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.roscaCycle.count.mockResolvedValue(1);
+    mockLedgerService.appendRoscaPayoutDebit.mockResolvedValue({ entry: { id: 'entry-1' } });
+    mockLedgerService.appendRoscaDiscountDebit.mockResolvedValue({ entry: { id: 'entry-2' } });
+    mockPrismaService.$transaction.mockImplementation((fn) => fn(mockPrismaService));
+  });
+
+  describe('createRotation', () => {
+    beforeEach(() => {
+      mockPrismaService.roscaRotation.findFirst.mockResolvedValueOnce(null);
+      mockPrismaService.groupMember.findMany.mockResolvedValue(
+        members.map((m, i) => ({ userId: m.id, joinedAt: new Date(2025, i, 1) })),
+      );
+      mockPrismaService.roscaRotation.create.mockResolvedValue({ id: 'rotation-1' });
+      mockPrismaService.roscaRotation.findFirst.mockResolvedValue(rotation);
+    });
+
+    it('should store the seed of a random draw and schedule a cycle per member', async () => {
+      await service.createRotation(
+        'group-1',
+        {
+          contributionAmount: 500,
+          startPeriod: '2026-01-15',
+          orderMethod: 'RANDOM_DRAW',
+          seed: 'january-meeting',
+        },
+        'chair-1',
+      );
+
+      const order = drawTurnOrder(
+        members.map((m) => m.id),
+        'january-meeting',
+      );
+      const { data } = mockPrismaService.roscaRotation.create.mock.calls[0][0];
+      expect(data.drawSeed).toBe('january-meeting');
+      expect(data.startPeriod).toEqual(new Date('2026-01-01T00:00:00Z'));
+      expect(data.cycles.create).toEqual(
+        order.map((recipientId, i) =>
+          expect.objectContaining({
+            cycleNumber: i + 1,
+            recipientId,
+            periodStart: new Date(Date.UTC(2026, i, 1)),
+            potAmount: new Prisma.Decimal(1500),
+          }),
+        ),
+      );
+      expect(mockNotificationsService.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should refuse a manual order that is missing or lists a member twice', async () => {
+      await expect(
+        service.createRotation(
+          'group-1',
+          {
+            contributionAmount: 500,
+            startPeriod: '2026-01-01',
+            orderMethod: 'MANUAL',
+            memberIds: ['member-2', 'member-1', 'member-2'],
+          },
+          'chair-1',
+        ),
+      ).rejects.toThrow('member-2 is listed more than once');
+
+      mockPrismaService.roscaRotation.findFirst.mockResolvedValueOnce(null);
+      await expect(
+        service.createRotation(
+          'group-1',
+          { contributionAmount: 500, startPeriod: '2026-01-01', orderMethod: 'MANUAL' },
+          'chair-1',
+        ),
+      ).rejects.toThrow('List the members in their turn order');
+      expect(mockPrismaService.roscaRotation.create).not.toHaveBeenCalled();
+    });
+
+    it('should not start a second rotation while one is running', async () => {
+      mockPrismaService.roscaRotation.findFirst.mockReset();
+      mockPrismaService.roscaRotation.findFirst.mockResolvedValue(rotation);
+
+      await expect(
+        service.createRotation(
+          'group-1',
+          { contributionAmount: 500, startPeriod: '2026-01-01', orderMethod: 'JOIN_DATE' },
+          'chair-1',
+        ),
+      ).rejects.toThrow('Finish the current rotation before starting another');
+    });
+  });
+
+  describe('payCycle', () => {
+    beforeEach(() => {
+      mockPrismaService.roscaCycle.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(where.cycleNumber ? null : cycle()),
+      );
+    });
+
+    it('should wait until every other member has paid for the month', async () => {
+      allocations({ 'member-1': 500, 'member-3': 200 });
+
+      await expect(
+        service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'treasurer-1'),
+      ).rejects.toThrow('Waiting for contributions from Grace Moyo');
+      expect(mockLedgerService.appendRoscaPayoutDebit).not.toHaveBeenCalled();
+    });
+
+    it('should hand the full pot to the recipient and debit the ledger', async () => {
+      allocations({ 'member-1': 500, 'member-2': 500, 'member-3': 500 });
+
+      await service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'treasurer-1');
+
+      expect(mockLedgerService.appendRoscaPayoutDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'ROSCA_CYCLE',
+        'cycle-2',
+        '1500',
+        'Rotation pot 2: Sipho Moyo',
+        'treasurer-1',
+      );
+      expect(mockPrismaService.roscaCycle.update).toHaveBeenCalledWith({
+        where: { id: 'cycle-2' },
+        data: { ledgerEntryId: 'entry-1' },
+      });
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-2', type: 'ROSCA_POT_PAID' }),
+      );
+    });
+
+    it('should leave a defaulting member out of the pot', async () => {
+      allocations({ 'member-1': 500, 'member-2': 500 });
+      mockPrismaService.roscaDefault.findMany.mockImplementation(({ where }) =>
+        Promise.resolve(where.cycleId ? [{ memberId: 'member-3' }] : []),
+      );
+
+      await service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'treasurer-1');
+
+      expect(mockPrismaService.roscaCycle.updateMany).toHaveBeenCalledWith({
+        where: { id: 'cycle-2', status: 'SCHEDULED' },
+        data: expect.objectContaining({ paidAmount: new Prisma.Decimal(1000) }),
+      });
+    });
+
+    it('should take what the recipient owes from their pot and pass it to whoever it was owed to', async () => {
+      allocations({ 'member-1': 500, 'member-2': 500, 'member-3': 500 });
+      mockPrismaService.roscaDefault.findMany.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.cycleId
+            ? []
+            : [
+                {
+                  id: 'default-1',
+                  memberId: 'member-2',
+                  amount: new Prisma.Decimal(500),
+                  cycle: cycle({
+                    id: 'cycle-1',
+                    cycleNumber: 1,
+                    recipientId: 'member-1',
+                    recipient: members[0],
+                    status: 'PAID',
+                  }),
+                },
+              ],
+        ),
+      );
+
+      await service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'treasurer-1');
+
+      expect(mockLedgerService.appendRoscaPayoutDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'ROSCA_CYCLE',
+        'cycle-2',
+        '1000',
+        'Rotation pot 2: Sipho Moyo',
+        'treasurer-1',
+      );
+      expect(mockLedgerService.appendRoscaPayoutDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'ROSCA_DEFAULT',
+        'default-1',
+        '500',
+        'Share owed for rotation pot 1: Thandi Moyo',
+        'treasurer-1',
+      );
+      expect(mockPrismaService.roscaDefault.updateMany).toHaveBeenCalledWith({
+        where: { id: 'default-1', status: 'OUTSTANDING' },
+        data: expect.objectContaining({ status: 'SETTLED', nettedInCycleId: 'cycle-2' }),
+      });
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-1', type: 'ROSCA_DEFAULT_SETTLED' }),
+      );
+    });
+
+    it('should not take a missed share that was settled while the pot was being paid', async () => {
+      allocations({ 'member-1': 500, 'member-2': 500, 'member-3': 500 });
+      mockPrismaService.roscaDefault.findMany.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.cycleId
+            ? []
+            : [
+                {
+                  id: 'default-1',
+                  memberId: 'member-2',
+                  amount: new Prisma.Decimal(500),
+                  cycle: cycle({ id: 'cycle-1', cycleNumber: 1, status: 'PAID' }),
+                },
+              ],
+        ),
+      );
+      mockPrismaService.roscaDefault.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'treasurer-1'),
+      ).rejects.toThrow('A missed share was settled while the pot was being paid');
+      expect(mockNotificationsService.send).not.toHaveBeenCalled();
+    });
+
+    it('should pay cycles in turn order', async () => {
+      mockPrismaService.roscaCycle.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(where.cycleNumber ? { cycleNumber: 1 } : cycle()),
+      );
+
+      await expect(
+        service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'treasurer-1'),
+      ).rejects.toThrow('Cycle 1 has not been paid yet');
+    });
+
+    it('should wait for the auction of a bidding rotation to close', async () => {
+      mockPrismaService.roscaCycle.findFirst.mockResolvedValue(
+        cycle({ rotation: { ...rotation, biddingEnabled: true }, auctionClosedAt: null }),
+      );
+
+      await expect(
+        service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'treasurer-1'),
+      ).rejects.toThrow('Close the auction for this turn before paying the pot');
+    });
+
+    it('should share a winning discount among the other members who paid', async () => {
+      mockPrismaService.roscaCycle.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.cycleNumber
+            ? null
+            : cycle({
+                rotation: { ...rotation, biddingEnabled: true },
+                auctionClosedAt: new Date('2026-02-02T00:00:00Z'),
+                discount: new Prisma.Decimal(301),
+              }),
+        ),
+      );
+      allocations({ 'member-1': 500, 'member-2': 500, 'member-3': 500 });
+
+      await service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'treasurer-1');
+
+      expect(mockLedgerService.appendRoscaPayoutDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'ROSCA_CYCLE',
+        'cycle-2',
+        '1199',
+        'Rotation pot 2: Sipho Moyo',
+        'treasurer-1',
+      );
+      expect(mockLedgerService.appendRoscaDiscountDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'cycle-2',
+        '301',
+        'Rotation pot 2 discount shared by 2 members',
+        [
+          { memberId: 'member-1', amount: new Decimal('150.5') },
+          { memberId: 'member-3', amount: new Decimal('150.5') },
+        ],
+        'treasurer-1',
+      );
+      expect(mockPrismaService.roscaCycle.update).toHaveBeenCalledWith({
+        where: { id: 'cycle-2' },
+        data: { discountLedgerEntryId: 'entry-2' },
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ROSCA_CYCLE_PAID',
+          afterState: expect.objectContaining({
+            discount: '301.00',
+            discountShares: [
+              { memberId: 'member-1', amount: '150.50' },
+              { memberId: 'member-3', amount: '150.50' },
+            ],
+          }),
+        }),
+      );
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-3', type: 'ROSCA_DISCOUNT_SHARED' }),
+      );
+    });
+
+    it('should not let the recipient hand over their own pot', async () => {
+      await expect(
+        service.payCycle('group-1', 'cycle-2', { paymentReference: 'FNB-1' }, 'member-2'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('recordDefault', () => {
+    beforeEach(() => {
+      mockPrismaService.roscaCycle.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(where.recipientId ? null : cycle()),
+      );
+      mockPrismaService.roscaDefault.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'default-1', ...data }),
+      );
+    });
+
+    it('should flag a member who defaults after receiving their pot', async () => {
+      allocations({ 'member-1': 100 });
+      mockPrismaService.roscaCycle.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(where.recipientId ? { id: 'cycle-1', status: 'PAID' } : cycle()),
+      );
+
+      const result = await service.recordDefault(
+        'group-1',
+        'cycle-2',
+        { memberId: 'member-1' },
+        'treasurer-1',
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ amount: new Prisma.Decimal(400), afterPayout: true }),
+      );
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'member-1',
+          body: expect.stringContaining('You have already received your pot'),
+        }),
+      );
+    });
+
+    it('should not record a default for a member who has paid', async () => {
+      allocations({ 'member-3': 500 });
+
+      await expect(
+        service.recordDefault('group-1', 'cycle-2', { memberId: 'member-3' }, 'treasurer-1'),
+      ).rejects.toThrow('Grace Moyo has already paid for this cycle');
+      expect(mockPrismaService.roscaDefault.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleDefault', () => {
+    const owed = (cycleStatus: string) => ({
+      id: 'default-1',
+      groupId: 'group-1',
+      memberId: 'member-2',
+      amount: new Prisma.Decimal(500),
+      status: 'OUTSTANDING',
+      member: members[1],
+      rotation,
+      cycle: cycle({
+        id: 'cycle-1',
+        cycleNumber: 1,
+        recipientId: 'member-1',
+        recipient: members[0],
+        periodStart: new Date('2026-01-01T00:00:00Z'),
+        status: cycleStatus,
+      }),
+    });
+
+    beforeEach(() => {
+      mockPrismaService.roscaDefault.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should pass a late share on to the recipient of a pot already paid out', async () => {
+      mockPrismaService.roscaDefault.findFirst.mockResolvedValue(owed('PAID'));
+      mockPrismaService.contributionAllocation.aggregate.mockResolvedValue({
+        _sum: { amount: new Prisma.Decimal(500) },
+      });
+
+      await service.settleDefault(
+        'group-1',
+        'default-1',
+        { paymentReference: 'FNB-2' },
+        'treasurer-1',
+      );
+
+      expect(mockLedgerService.appendRoscaPayoutDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'ROSCA_DEFAULT',
+        'default-1',
+        '500',
+        'Share owed for rotation pot 1: Thandi Moyo',
+        'treasurer-1',
+      );
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-1', type: 'ROSCA_DEFAULT_SETTLED' }),
+      );
+    });
+
+    it('should not settle a default the member has not yet paid', async () => {
+      mockPrismaService.roscaDefault.findFirst.mockResolvedValue(owed('PAID'));
+      mockPrismaService.contributionAllocation.aggregate.mockResolvedValue({
+        _sum: { amount: null },
+      });
+
+      await expect(
+        service.settleDefault('group-1', 'default-1', { paymentReference: 'FNB-2' }, 'treasurer-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.roscaDefault.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
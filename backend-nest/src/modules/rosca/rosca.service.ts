@@ -0,0 +1,803 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { Prisma, RoscaDefaultStatus } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { allocateEqually } from '../savings/payout-allocation';
+import {
+  CycleContribution,
+  cycleContributions,
+  cyclePeriod,
+  drawTurnOrder,
+  joinDateTurnOrder,
+  manualOrderError,
+  memberName,
+  periodLabel,
+} from './rosca-rotation';
+import {
+  CreateRotationDto,
+  PayRoscaCycleDto,
+  RecordRoscaDefaultDto,
+  SettleRoscaDefaultDto,
+} from './dto/rosca.dto';
+
+const memberSelect = { id: true, firstName: true, lastName: true } as const;
+
+@Injectable()
+export class RoscaService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Start a rotation: fix the turn order and schedule one monthly cycle per
+   * member, each handing the whole pot to the member whose turn it is. A
+   * group runs one rotation at a time.
+   */
+  async createRotation(groupId: string, dto: CreateRotationDto, userId: string) {
+    const group = await this.requireRoscaGroup(groupId);
+    if (group.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        `Cannot start a rotation in a ${group.status.toLowerCase()} group`,
+      );
+    }
+
+    const running = await this.prisma.roscaRotation.findFirst({
+      where: { groupId, status: 'ACTIVE' },
+    });
+    if (running) {
+      throw new BadRequestException('Finish the current rotation before starting another');
+    }
+
+    const members = await this.prisma.groupMember.findMany({
+      where: { groupId, status: 'ACTIVE', deletedAt: null },
+      select: { userId: true, joinedAt: true },
+    });
+    const activeIds = new Set(members.map((m) => m.userId));
+
+    let participants = members;
+    if (dto.memberIds) {
+      const notMember = dto.memberIds.find((id) => !activeIds.has(id));
+      if (notMember) {
+        throw new BadRequestException(`${notMember} is not an active member of this group`);
+      }
+      participants = members.filter((m) => dto.memberIds!.includes(m.userId));
+    }
+    if (participants.length < 2) {
+      throw new BadRequestException('A rotation needs at least two members');
+    }
+
+    const participantIds = participants.map((m) => m.userId);
+    let order: string[];
+    let drawSeed: string | undefined;
+    switch (dto.orderMethod) {
+      case 'MANUAL': {
+        const error = dto.memberIds
+          ? manualOrderError(dto.memberIds, participantIds)
+          : 'List the members in their turn order';
+        if (error) {
+          throw new BadRequestException(error);
+        }
+        order = dto.memberIds!;
+        break;
+      }
+      case 'RANDOM_DRAW':
+        drawSeed = dto.seed || randomBytes(16).toString('hex');
+        order = drawTurnOrder(participantIds, drawSeed);
+        break;
+      case 'JOIN_DATE':
+        order = joinDateTurnOrder(participants);
+        break;
+    }
+
+    const startPeriod = monthStart(new Date(dto.startPeriod));
+    const contributionAmount = new Decimal(dto.contributionAmount);
+    const potAmount = contributionAmount.times(order.length);
+
+    const rotation = await this.prisma.roscaRotation.create({
+      data: {
+        groupId,
+        contributionAmount: new Prisma.Decimal(contributionAmount.toString()),
+        currency: group.currency,
+        startPeriod,
+        orderMethod: dto.orderMethod,
+        drawSeed,
+        biddingEnabled: dto.biddingEnabled ?? false,
+        createdById: userId,
+        cycles: {
+          create: order.map((recipientId, index) => ({
+            groupId,
+            cycleNumber: index + 1,
+            periodStart: cyclePeriod(startPeriod, index + 1),
+            recipientId,
+            potAmount: new Prisma.Decimal(potAmount.toString()),
+          })),
+        },
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ROSCA_ROTATION_CREATED',
+      resourceType: 'ROSCA_ROTATION',
+      resourceId: rotation.id,
+      groupId,
+      afterState: {
+        contributionAmount: contributionAmount.toFixed(2),
+        startPeriod: periodLabel(startPeriod),
+        orderMethod: dto.orderMethod,
+        drawSeed,
+        biddingEnabled: dto.biddingEnabled ?? false,
+        order,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    for (const [index, recipientId] of order.entries()) {
+      await this.notificationsService.send({
+        userId: recipientId,
+        type: 'ROSCA_TURN_SCHEDULED',
+        channels: ['IN_APP', 'EMAIL'],
+        title: 'Your turn in the rotation',
+        body:
+          `You receive the pot of ${group.currency} ${potAmount.toFixed(2)} in ` +
+          `${periodLabel(cyclePeriod(startPeriod, index + 1))} (turn ${index + 1} of ${order.length}).`,
+        data: { rotationId: rotation.id, cycleNumber: index + 1 },
+        groupId,
+      });
+    }
+
+    return this.getRotation(groupId, rotation.id);
+  }
+
+  async listRotations(groupId: string) {
+    await this.requireRoscaGroup(groupId);
+
+    return this.prisma.roscaRotation.findMany({
+      where: { groupId },
+      include: { _count: { select: { cycles: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * A rotation with its turn order and every default recorded against it
+   */
+  async getRotation(groupId: string, rotationId: string) {
+    const rotation = await this.prisma.roscaRotation.findFirst({
+      where: { id: rotationId, groupId },
+      include: {
+        cycles: {
+          include: { recipient: { select: memberSelect } },
+          orderBy: { cycleNumber: 'asc' },
+        },
+        defaults: {
+          include: { member: { select: memberSelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!rotation) {
+      throw new NotFoundException('Rotation not found');
+    }
+
+    return rotation;
+  }
+
+  /**
+   * A cycle with where each member stands for its month, and whether the
+   * pot can be handed over yet
+   */
+  async getCycle(groupId: string, cycleId: string) {
+    const cycle = await this.findCycleOrFail(groupId, cycleId);
+    const contributions = await this.cycleStanding(cycle);
+
+    return {
+      ...cycle,
+      contributions,
+      ready: cycle.status === 'SCHEDULED' && awaited(contributions, cycle.recipientId).length === 0,
+    };
+  }
+
+  /**
+   * Hand a cycle's pot to its recipient once every member has paid for the
+   * month or been recorded as defaulting. Members in default are left out
+   * of the pot, and anything the recipient still owes from cycles they
+   * missed is taken from their pot and passed to the members it was owed
+   * to. A recipient who has not paid their own share simply receives
+   * less. Cycles are paid in turn order.
+   *
+   * In a bidding rotation the turn's auction must be closed first. A
+   * winning bid's discount is kept back from the recipient and shared
+   * equally among the other members who paid for the month.
+   */
+  async payCycle(groupId: string, cycleId: string, dto: PayRoscaCycleDto, userId: string) {
+    const cycle = await this.findCycleOrFail(groupId, cycleId);
+
+    if (cycle.status !== 'SCHEDULED') {
+      throw new BadRequestException('Cycle has already been paid');
+    }
+    if (cycle.rotation.status !== 'ACTIVE') {
+      throw new BadRequestException(`Rotation is ${cycle.rotation.status.toLowerCase()}`);
+    }
+    if (cycle.rotation.biddingEnabled && !cycle.auctionClosedAt) {
+      throw new BadRequestException('Close the auction for this turn before paying the pot');
+    }
+    if (cycle.recipientId === userId) {
+      throw new ForbiddenException('You cannot hand over your own pot');
+    }
+
+    const earlier = await this.prisma.roscaCycle.findFirst({
+      where: {
+        rotationId: cycle.rotationId,
+        cycleNumber: { lt: cycle.cycleNumber },
+        status: 'SCHEDULED',
+      },
+      orderBy: { cycleNumber: 'asc' },
+    });
+    if (earlier) {
+      throw new BadRequestException(`Cycle ${earlier.cycleNumber} has not been paid yet`);
+    }
+
+    const contributions = await this.cycleStanding(cycle);
+    const outstanding = awaited(contributions, cycle.recipientId);
+    if (outstanding.length > 0) {
+      throw new BadRequestException(
+        `Waiting for contributions from ${outstanding.map((c) => c.name).join(', ')}`,
+      );
+    }
+
+    const contributionAmount = new Decimal(cycle.rotation.contributionAmount.toString());
+    const collected = contributions.reduce(
+      (sum, c) => sum.plus(Decimal.min(c.paid, contributionAmount)),
+      new Decimal(0),
+    );
+
+    // Nobody else paid in means nobody to share a discount with, so the
+    // recipient keeps it
+    const sharers = contributions
+      .filter((c) => c.status === 'PAID' && c.memberId !== cycle.recipientId)
+      .map((c) => c.memberId);
+    const discount =
+      cycle.discount && sharers.length > 0
+        ? new Decimal(cycle.discount.toString())
+        : new Decimal(0);
+    if (discount.greaterThan(collected)) {
+      throw new BadRequestException(
+        `The pot of ${collected.toFixed(2)} collected cannot cover the discount of ${discount.toFixed(2)}`,
+      );
+    }
+    const discountShares = discount.greaterThan(0) ? allocateEqually(discount, sharers) : [];
+
+    const paidAt = new Date();
+    const {
+      entry: ledgerEntry,
+      netted,
+      paidAmount,
+    } = await this.prisma.$transaction(
+      async (tx) => {
+        // Read what the recipient owes inside the transaction, so a share
+        // settled separately meanwhile is not taken from the pot again
+        const owed = await tx.roscaDefault.findMany({
+          where: {
+            rotationId: cycle.rotationId,
+            memberId: cycle.recipientId,
+            status: 'OUTSTANDING',
+          },
+          include: { cycle: { include: { recipient: { select: memberSelect } } } },
+          orderBy: { createdAt: 'asc' },
+        });
+        // Only what the pot can cover is netted; the rest stays owed
+        let available = collected.minus(discount);
+        const netted = owed.filter((d) => {
+          if (d.amount.greaterThan(available.toString()) || d.cycle.status !== 'PAID') {
+            return false;
+          }
+          available = available.minus(d.amount.toString());
+          return true;
+        });
+        const paidAmount = available;
+
+        const { count } = await tx.roscaCycle.updateMany({
+          where: { id: cycleId, status: 'SCHEDULED' },
+          data: {
+            status: 'PAID',
+            paidAmount: new Prisma.Decimal(paidAmount.toString()),
+            paymentReference: dto.paymentReference,
+            paidById: userId,
+            paidAt,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Cycle has already been paid');
+        }
+
+        // Nothing is debited when the recipient's pot all went on what they owed
+        let entry: { id: string } | null = null;
+        if (paidAmount.greaterThan(0)) {
+          const debit = await this.ledgerService.appendRoscaPayoutDebit(
+            tx,
+            groupId,
+            'ROSCA_CYCLE',
+            cycleId,
+            paidAmount.toString(),
+            `Rotation pot ${cycle.cycleNumber}: ${memberName(cycle.recipient)}`,
+            userId,
+          );
+          entry = debit.entry;
+          await tx.roscaCycle.update({
+            where: { id: cycleId },
+            data: { ledgerEntryId: debit.entry.id },
+          });
+        }
+
+        if (discount.greaterThan(0)) {
+          const { entry: shared } = await this.ledgerService.appendRoscaDiscountDebit(
+            tx,
+            groupId,
+            cycleId,
+            discount.toString(),
+            `Rotation pot ${cycle.cycleNumber} discount shared by ${discountShares.length} members`,
+            discountShares.map((share) => ({ memberId: share.memberId, amount: share.amount })),
+            userId,
+          );
+          await tx.roscaCycle.update({
+            where: { id: cycleId },
+            data: { discountLedgerEntryId: shared.id },
+          });
+        }
+
+        for (const owedDefault of netted) {
+          const { entry: lateShare } = await this.ledgerService.appendRoscaPayoutDebit(
+            tx,
+            groupId,
+            'ROSCA_DEFAULT',
+            owedDefault.id,
+            owedDefault.amount.toString(),
+            `Share owed for rotation pot ${owedDefault.cycle.cycleNumber}: ` +
+              memberName(owedDefault.cycle.recipient),
+            userId,
+          );
+          const { count: settled } = await tx.roscaDefault.updateMany({
+            where: { id: owedDefault.id, status: 'OUTSTANDING' },
+            data: {
+              status: 'SETTLED',
+              nettedInCycleId: cycleId,
+              paymentReference: dto.paymentReference,
+              settledById: userId,
+              settledAt: paidAt,
+              ledgerEntryId: lateShare.id,
+            },
+          });
+          if (settled === 0) {
+            throw new BadRequestException(
+              'A missed share was settled while the pot was being paid',
+            );
+          }
+        }
+
+        const remaining = await tx.roscaCycle.count({
+          where: { rotationId: cycle.rotationId, status: 'SCHEDULED' },
+        });
+        if (remaining === 0) {
+          await tx.roscaRotation.update({
+            where: { id: cycle.rotationId },
+            data: { status: 'COMPLETED' },
+          });
+        }
+
+        return { entry, netted, paidAmount };
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ROSCA_CYCLE_PAID',
+      resourceType: 'ROSCA_CYCLE',
+      resourceId: cycleId,
+      groupId,
+      beforeState: { status: 'SCHEDULED' },
+      afterState: {
+        status: 'PAID',
+        recipientId: cycle.recipientId,
+        potAmount: cycle.potAmount.toString(),
+        paidAmount: paidAmount.toFixed(2),
+        discount: discount.greaterThan(0) ? discount.toFixed(2) : undefined,
+        discountShares: discountShares.map((share) => ({
+          memberId: share.memberId,
+          amount: share.amount.toFixed(2),
+        })),
+        defaulted: contributions.filter((c) => c.status === 'DEFAULTED').map((c) => c.memberId),
+        nettedDefaults: netted.map((d) => d.id),
+        paymentReference: dto.paymentReference,
+        ledgerEntryId: ledgerEntry?.id,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    const currency = cycle.rotation.currency;
+    const deductions = [
+      ...(discount.greaterThan(0) ? ['the discount you bid'] : []),
+      ...(netted.length > 0 ? ['the shares you missed'] : []),
+    ];
+    await this.notify(
+      cycle.recipientId,
+      groupId,
+      'ROSCA_POT_PAID',
+      'Your rotation pot has been paid',
+      `${currency} ${paidAmount.toFixed(2)} has been paid to you for turn ${cycle.cycleNumber} ` +
+        `(reference ${dto.paymentReference})` +
+        (deductions.length > 0 ? `, after taking off ${deductions.join(' and ')}.` : '.'),
+      { cycleId, amount: paidAmount.toString() },
+    );
+    for (const share of discountShares) {
+      await this.notify(
+        share.memberId,
+        groupId,
+        'ROSCA_DISCOUNT_SHARED',
+        'Your share of a turn discount',
+        `${currency} ${share.amount.toFixed(2)} has been paid to you as your share of the ` +
+          `discount ${memberName(cycle.recipient)} bid for turn ${cycle.cycleNumber}.`,
+        { cycleId, amount: share.amount.toString() },
+      );
+    }
+    for (const owedDefault of netted) {
+      await this.notify(
+        owedDefault.cycle.recipientId,
+        groupId,
+        'ROSCA_DEFAULT_SETTLED',
+        'Missing share paid',
+        `${currency} ${owedDefault.amount.toFixed(2)} missing from your pot for turn ` +
+          `${owedDefault.cycle.cycleNumber} has now been paid to you.`,
+        { defaultId: owedDefault.id, amount: owedDefault.amount.toString() },
+      );
+    }
+
+    return this.getCycle(groupId, cycleId);
+  }
+
+  /**
+   * Record that a member has not paid for a cycle, so the pot can go out
+   * without their share. What they owe is passed to the cycle's recipient
+   * when they pay it late, or taken from their own pot if their turn is
+   * still to come. Members who default after receiving their pot are
+   * flagged, as their pot can no longer make it good.
+   */
+  async recordDefault(
+    groupId: string,
+    cycleId: string,
+    dto: RecordRoscaDefaultDto,
+    userId: string,
+  ) {
+    const cycle = await this.findCycleOrFail(groupId, cycleId);
+
+    if (cycle.status !== 'SCHEDULED') {
+      throw new BadRequestException('Cycle has already been paid');
+    }
+    if (cycle.periodStart.getTime() > Date.now()) {
+      throw new BadRequestException('This cycle has not started yet');
+    }
+
+    const contributions = await this.cycleStanding(cycle);
+    const standing = contributions.find((c) => c.memberId === dto.memberId);
+    if (!standing) {
+      throw new BadRequestException('Member is not taking part in this rotation');
+    }
+    if (dto.memberId === cycle.recipientId) {
+      throw new BadRequestException("The recipient's unpaid share is left out of their own pot");
+    }
+    if (standing.status === 'PAID') {
+      throw new BadRequestException(`${standing.name} has already paid for this cycle`);
+    }
+    if (standing.status === 'DEFAULTED') {
+      throw new BadRequestException(`${standing.name} is already in default for this cycle`);
+    }
+
+    const received = await this.prisma.roscaCycle.findFirst({
+      where: { rotationId: cycle.rotationId, recipientId: dto.memberId, status: 'PAID' },
+    });
+    const amount = new Decimal(cycle.rotation.contributionAmount.toString()).minus(standing.paid);
+
+    const roscaDefault = await this.prisma.roscaDefault.create({
+      data: {
+        rotationId: cycle.rotationId,
+        cycleId,
+        groupId,
+        memberId: dto.memberId,
+        amount: new Prisma.Decimal(amount.toString()),
+        afterPayout: !!received,
+        reason: dto.reason,
+        recordedById: userId,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ROSCA_DEFAULT_RECORDED',
+      resourceType: 'ROSCA_CYCLE',
+      resourceId: cycleId,
+      groupId,
+      afterState: {
+        defaultId: roscaDefault.id,
+        memberId: dto.memberId,
+        amount: amount.toFixed(2),
+        afterPayout: !!received,
+        reason: dto.reason,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    const currency = cycle.rotation.currency;
+    await this.notify(
+      dto.memberId,
+      groupId,
+      'ROSCA_DEFAULT_RECORDED',
+      'Missed rotation contribution',
+      `You have not paid ${currency} ${amount.toFixed(2)} for turn ${cycle.cycleNumber}. ` +
+        (received
+          ? `You have already received your pot, so please pay it as soon as you can; it is owed to ${memberName(cycle.recipient)}.`
+          : 'It will be taken from your pot when your turn comes if it is not paid before then.'),
+      { defaultId: roscaDefault.id, cycleId, amount: amount.toString() },
+    );
+
+    return roscaDefault;
+  }
+
+  /**
+   * Defaults recorded in the group, by default only those still owed
+   */
+  async listDefaults(groupId: string, status: RoscaDefaultStatus = 'OUTSTANDING') {
+    await this.requireRoscaGroup(groupId);
+
+    return this.prisma.roscaDefault.findMany({
+      where: { groupId, status },
+      include: {
+        member: { select: memberSelect },
+        cycle: {
+          select: {
+            id: true,
+            cycleNumber: true,
+            periodStart: true,
+            recipient: { select: memberSelect },
+          },
+        },
+      },
+      orderBy: [{ afterPayout: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Settle a default once the member has paid the missed month late. If
+   * the cycle's pot has already gone out, the late share is passed on to
+   * its recipient.
+   */
+  async settleDefault(
+    groupId: string,
+    defaultId: string,
+    dto: SettleRoscaDefaultDto,
+    userId: string,
+  ) {
+    const roscaDefault = await this.prisma.roscaDefault.findFirst({
+      where: { id: defaultId, groupId },
+      include: {
+        member: { select: memberSelect },
+        cycle: { include: { recipient: { select: memberSelect } } },
+        rotation: true,
+      },
+    });
+
+    if (!roscaDefault) {
+      throw new NotFoundException('Default not found');
+    }
+    if (roscaDefault.status !== 'OUTSTANDING') {
+      throw new BadRequestException('Default has already been settled');
+    }
+
+    const { cycle } = roscaDefault;
+    const allocated = await this.prisma.contributionAllocation.aggregate({
+      where: { groupId, memberId: roscaDefault.memberId, periodStart: cycle.periodStart },
+      _sum: { amount: true },
+    });
+    const paid = new Decimal(allocated._sum.amount?.toString() || 0);
+    if (paid.lessThan(roscaDefault.rotation.contributionAmount.toString())) {
+      throw new BadRequestException(
+        `${memberName(roscaDefault.member)} has not yet paid for ${periodLabel(cycle.periodStart)}`,
+      );
+    }
+
+    const settledAt = new Date();
+    const ledgerEntry = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.roscaDefault.updateMany({
+          where: { id: defaultId, status: 'OUTSTANDING' },
+          data: {
+            status: 'SETTLED',
+            paymentReference: dto.paymentReference,
+            settledById: userId,
+            settledAt,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Default has already been settled');
+        }
+
+        // A cycle not yet paid out takes the late share into its pot
+        if (cycle.status !== 'PAID') {
+          return null;
+        }
+
+        const { entry } = await this.ledgerService.appendRoscaPayoutDebit(
+          tx,
+          groupId,
+          'ROSCA_DEFAULT',
+          defaultId,
+          roscaDefault.amount.toString(),
+          `Share owed for rotation pot ${cycle.cycleNumber}: ${memberName(cycle.recipient)}`,
+          userId,
+        );
+        await tx.roscaDefault.update({
+          where: { id: defaultId },
+          data: { ledgerEntryId: entry.id },
+        });
+
+        return entry;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'ROSCA_DEFAULT_SETTLED',
+      resourceType: 'ROSCA_CYCLE',
+      resourceId: cycle.id,
+      groupId,
+      beforeState: { defaultId, status: 'OUTSTANDING' },
+      afterState: {
+        defaultId,
+        status: 'SETTLED',
+        amount: roscaDefault.amount.toString(),
+        paymentReference: dto.paymentReference,
+        ledgerEntryId: ledgerEntry?.id,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    if (ledgerEntry) {
+      await this.notify(
+        cycle.recipientId,
+        groupId,
+        'ROSCA_DEFAULT_SETTLED',
+        'Missing share paid',
+        `${roscaDefault.rotation.currency} ${roscaDefault.amount.toFixed(2)} missing from your ` +
+          `pot for turn ${cycle.cycleNumber} has now been paid to you.`,
+        { defaultId, amount: roscaDefault.amount.toString() },
+      );
+    }
+
+    return this.prisma.roscaDefault.findUnique({ where: { id: defaultId } });
+  }
+
+  /**
+   * Each member's contributions for the cycle's month. Overpayments show
+   * in `paid`, but only the rotation amount goes into the pot.
+   */
+  private async cycleStanding(cycle: {
+    id: string;
+    groupId: string;
+    rotationId: string;
+    periodStart: Date;
+    rotation: { contributionAmount: Prisma.Decimal };
+  }): Promise<Array<CycleContribution & { name: string }>> {
+    const participants = await this.prisma.roscaCycle.findMany({
+      where: { rotationId: cycle.rotationId },
+      select: { recipient: { select: memberSelect } },
+      orderBy: { cycleNumber: 'asc' },
+    });
+    const memberIds = participants.map((p) => p.recipient.id);
+
+    const [allocated, defaults] = await Promise.all([
+      this.prisma.contributionAllocation.groupBy({
+        by: ['memberId'],
+        where: {
+          groupId: cycle.groupId,
+          periodStart: cycle.periodStart,
+          memberId: { in: memberIds },
+        },
+        _sum: { amount: true },
+      }),
+      this.prisma.roscaDefault.findMany({
+        where: { cycleId: cycle.id, status: 'OUTSTANDING' },
+        select: { memberId: true },
+      }),
+    ]);
+
+    const paid = new Map(
+      allocated.map((a) => [a.memberId, new Decimal(a._sum.amount?.toString() || 0)]),
+    );
+    const names = new Map(participants.map((p) => [p.recipient.id, memberName(p.recipient)]));
+
+    return cycleContributions(
+      memberIds,
+      new Decimal(cycle.rotation.contributionAmount.toString()),
+      paid,
+      new Set(defaults.map((d) => d.memberId)),
+    ).map((c) => ({ ...c, name: names.get(c.memberId)! }));
+  }
+
+  private async findCycleOrFail(groupId: string, cycleId: string) {
+    const cycle = await this.prisma.roscaCycle.findFirst({
+      where: { id: cycleId, groupId },
+      include: { rotation: true, recipient: { select: memberSelect } },
+    });
+
+    if (!cycle) {
+      throw new NotFoundException('Cycle not found');
+    }
+
+    return cycle;
+  }
+
+  private async requireRoscaGroup(groupId: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'ROSCA', deletedAt: null },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Rotating savings group not found');
+    }
+
+    return group;
+  }
+
+  private async notify(
+    userId: string,
+    groupId: string,
+    type: string,
+    title: string,
+    body: string,
+    data: Record<string, string>,
+  ) {
+    await this.notificationsService.send({
+      userId,
+      type,
+      channels: ['IN_APP', 'EMAIL'],
+      title,
+      body,
+      data,
+      groupId,
+    });
+  }
+}
+
+/**
+ * Members the pot is still waiting on; the recipient's own share does not
+ * hold up their pot
+ */
+function awaited<T extends CycleContribution>(contributions: T[], recipientId: string): T[] {
+  return contributions.filter((c) => c.status === 'OUTSTANDING' && c.memberId !== recipientId);
+}
+
+function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
@@ -0,0 +1,179 @@
+import { Decimal } from 'decimal.js';
+import {
+  buildComplianceGrid,
+  ComplianceAllocation,
+  ComplianceContribution,
+  ComplianceMember,
+  listContributionPeriods,
+} from './contribution-compliance';
+
+const rules = { dueDay: 5, gracePeriodDays: 7 };
+
+const member = (userId: string, name: string, joinedAt = '2024-01-01T00:00:00Z') =>
+  ({ userId, name, joinedAt: new Date(joinedAt), leftAt: null }) as ComplianceMember;
+
+const allocation = (
+  memberId: string,
+  month: string,
+  paidAt: string,
+  amount = 500,
+): ComplianceAllocation => ({
+  contributionId: `${memberId}-${paidAt}`,
+  memberId,
+  periodStart: new Date(`${month}-01T00:00:00Z`),
+  amount: new Decimal(amount),
+  paidAt: new Date(paidAt),
+});
+
+const pending = (memberId: string, month: string): ComplianceContribution => ({
+  id: `${memberId}-${month}`,
+  memberId,
+  periodStart: new Date(`${month}-01T00:00:00Z`),
+  status: 'PENDING',
+});
+
+describe('listContributionPeriods', () => {
+  it('should list every month across a year end', () => {
+    const periods = listContributionPeriods(
+      rules,
+      new Date('2025-11-01T00:00:00Z'),
+      new Date('2026-02-01T00:00:00Z'),
+    );
+
+    expect(periods.map((p) => p.periodStart.toISOString().slice(0, 7))).toEqual([
+      '2025-11',
+      '2025-12',
+      '2026-01',
+      '2026-02',
+    ]);
+    expect(periods[3].dueDate).toEqual(new Date('2026-02-05T00:00:00Z'));
+    expect(periods[3].graceEndsAt).toEqual(new Date('2026-02-13T00:00:00Z'));
+  });
+});
+
+describe('buildComplianceGrid', () => {
+  const periods = listContributionPeriods(
+    rules,
+    new Date('2026-01-01T00:00:00Z'),
+    new Date('2026-03-01T00:00:00Z'),
+  );
+  const asOf = new Date('2026-03-10T00:00:00Z');
+
+  it('should mark each period paid, late, pending, due, missing or excused', () => {
+    const [row] = buildComplianceGrid({
+      periods,
+      members: [member('m1', 'Thandi Moyo')],
+      contributions: [pending('m1', '2026-02')],
+      allocations: [allocation('m1', '2026-01', '2026-01-20T00:00:00Z')],
+      excusals: [],
+      monthlyAmount: new Decimal(500),
+      asOf,
+    });
+
+    expect(row.cells.map((c) => c.status)).toEqual(['LATE', 'PENDING', 'DUE']);
+    expect(row.lateCount).toBe(1);
+    expect(row.arrears.toString()).toBe('0');
+
+    const [excused] = buildComplianceGrid({
+      periods,
+      members: [member('m1', 'Thandi Moyo')],
+      contributions: [],
+      allocations: [allocation('m1', '2026-01', '2026-01-06T00:00:00Z')],
+      excusals: [
+        {
+          id: 'excusal-1',
+          memberId: 'm1',
+          periodStart: new Date('2026-02-01T00:00:00Z'),
+          reason: 'Hospitalised',
+        },
+      ],
+      monthlyAmount: new Decimal(500),
+      asOf: new Date('2026-03-20T00:00:00Z'),
+    });
+
+    expect(excused.cells.map((c) => c.status)).toEqual(['PAID', 'EXCUSED', 'MISSING']);
+    expect(excused.cells[1].excusalReason).toBe('Hospitalised');
+    expect(excused.arrears.toString()).toBe('500');
+  });
+
+  it('should build up arrears from shortfalls and missing periods', () => {
+    const [row] = buildComplianceGrid({
+      periods,
+      members: [member('m1', 'Thandi Moyo')],
+      contributions: [],
+      allocations: [allocation('m1', '2026-01', '2026-01-04T00:00:00Z', 300)],
+      excusals: [],
+      monthlyAmount: new Decimal(500),
+      asOf: new Date('2026-03-20T00:00:00Z'),
+    });
+
+    expect(row.cells.map((c) => c.status)).toEqual(['PARTIAL', 'MISSING', 'MISSING']);
+    expect(row.cells.map((c) => c.arrears.toString())).toEqual(['200', '700', '1200']);
+    expect(row.arrears.toString()).toBe('1200');
+    expect(row.missingCount).toBe(2);
+  });
+
+  it('should count instalments and credit towards the monthly amount', () => {
+    const [row] = buildComplianceGrid({
+      periods,
+      members: [member('m1', 'Thandi Moyo')],
+      contributions: [],
+      allocations: [
+        allocation('m1', '2026-01', '2026-01-02T00:00:00Z', 200),
+        allocation('m1', '2026-01', '2026-01-09T00:00:00Z', 300),
+        // Carried forward from January's overpayment
+        allocation('m1', '2026-02', '2026-01-09T00:00:00Z', 500),
+      ],
+      excusals: [],
+      monthlyAmount: new Decimal(500),
+      asOf,
+    });
+
+    expect(row.cells.map((c) => c.status)).toEqual(['PAID', 'PAID', 'DUE']);
+    expect(row.cells[0].amountPaid.toString()).toBe('500');
+    expect(row.arrears.toString()).toBe('0');
+  });
+
+  it('should not expect payment before a member joined', () => {
+    const [row] = buildComplianceGrid({
+      periods,
+      members: [member('m1', 'Sipho Dube', '2026-02-10T00:00:00Z')],
+      contributions: [],
+      allocations: [],
+      excusals: [],
+      monthlyAmount: new Decimal(500),
+      asOf,
+    });
+
+    expect(row.cells.map((c) => c.status)).toEqual([null, null, 'DUE']);
+    expect(row.arrears.toString()).toBe('0');
+  });
+
+  it('should put the members furthest behind first unless sorted by name', () => {
+    const input = {
+      periods,
+      members: [
+        member('m1', 'Anele Khumalo'),
+        member('m2', 'Busi Nkosi'),
+        member('m3', 'Zola Mthembu'),
+      ],
+      contributions: [],
+      allocations: [
+        allocation('m1', '2026-01', '2026-01-04T00:00:00Z'),
+        allocation('m1', '2026-02', '2026-02-04T00:00:00Z'),
+        allocation('m2', '2026-01', '2026-01-30T00:00:00Z'),
+        allocation('m2', '2026-02', '2026-02-04T00:00:00Z'),
+      ],
+      excusals: [],
+      monthlyAmount: new Decimal(500),
+      asOf,
+    };
+
+    expect(buildComplianceGrid(input).map((r) => r.memberId)).toEqual(['m3', 'm2', 'm1']);
+    expect(buildComplianceGrid({ ...input, sort: 'NAME' }).map((r) => r.memberId)).toEqual([
+      'm1',
+      'm2',
+      'm3',
+    ]);
+  });
+});
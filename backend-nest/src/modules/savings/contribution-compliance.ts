@@ -0,0 +1,230 @@
+import { ContributionStatus, SavingsRule } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+
+export interface ContributionPeriod {
+  periodStart: Date;
+  periodEnd: Date;
+  dueDate: Date;
+  graceEndsAt: Date;
+}
+
+/**
+ * - PAID: paid in full, the last of it submitted before the grace period ended
+ * - LATE: paid in full, the last of it submitted after the grace period ended
+ * - PENDING: submitted and awaiting approval
+ * - PARTIAL: some but not all of the monthly amount has been paid
+ * - DUE: nothing submitted yet, but the grace period is still running
+ * - MISSING: nothing submitted and the grace period has ended
+ * - EXCUSED: the member was excused from paying
+ */
+export type ComplianceStatus =
+  'PAID' | 'LATE' | 'PENDING' | 'PARTIAL' | 'DUE' | 'MISSING' | 'EXCUSED';
+
+export const COMPLIANCE_SORTS = ['ARREARS', 'NAME'] as const;
+
+export type ComplianceSort = (typeof COMPLIANCE_SORTS)[number];
+
+export interface ComplianceMember {
+  userId: string;
+  name: string;
+  joinedAt: Date;
+  leftAt: Date | null;
+}
+
+export interface ComplianceContribution {
+  id: string;
+  memberId: string;
+  periodStart: Date;
+  status: ContributionStatus;
+}
+
+export interface ComplianceAllocation {
+  contributionId: string;
+  memberId: string;
+  periodStart: Date;
+  amount: Decimal;
+  // When the contribution it came from was submitted
+  paidAt: Date;
+}
+
+export interface ComplianceExcusal {
+  id: string;
+  memberId: string;
+  periodStart: Date;
+  reason: string;
+}
+
+export interface ComplianceCell {
+  periodStart: Date;
+  // Null when the member was not expected to pay for the period
+  status: ComplianceStatus | null;
+  contributionId: string | null;
+  excusalId: string | null;
+  excusalReason: string | null;
+  amountPaid: Decimal;
+  // What the member owes for this and earlier periods in the grid
+  arrears: Decimal;
+}
+
+export interface ComplianceRow {
+  memberId: string;
+  memberName: string;
+  cells: ComplianceCell[];
+  arrears: Decimal;
+  missingCount: number;
+  lateCount: number;
+}
+
+export interface ComplianceGridInput {
+  periods: ContributionPeriod[];
+  members: ComplianceMember[];
+  contributions: ComplianceContribution[];
+  allocations: ComplianceAllocation[];
+  excusals: ComplianceExcusal[];
+  monthlyAmount: Decimal;
+  asOf: Date;
+  sort?: ComplianceSort;
+}
+
+/**
+ * A calendar-month contribution period in UTC. The due day is clamped to
+ * the last day of shorter months.
+ */
+export function getContributionPeriod(
+  rules: Pick<SavingsRule, 'dueDay' | 'gracePeriodDays'>,
+  year: number,
+  month: number,
+): ContributionPeriod {
+  const periodStart = new Date(Date.UTC(year, month, 1));
+  const periodEnd = new Date(Date.UTC(year, month + 1, 0));
+  const dueDay = Math.min(rules.dueDay, periodEnd.getUTCDate());
+  const dueDate = new Date(Date.UTC(year, month, dueDay));
+  // Grace covers the whole of its last day
+  const graceEndsAt = new Date(Date.UTC(year, month, dueDay + rules.gracePeriodDays + 1));
+
+  return { periodStart, periodEnd, dueDate, graceEndsAt };
+}
+
+/**
+ * Every monthly period from the month of `from` to the month of `to`
+ */
+export function listContributionPeriods(
+  rules: Pick<SavingsRule, 'dueDay' | 'gracePeriodDays'>,
+  from: Date,
+  to: Date,
+): ContributionPeriod[] {
+  const periods: ContributionPeriod[] = [];
+  let year = from.getUTCFullYear();
+  let month = from.getUTCMonth();
+  while (
+    year < to.getUTCFullYear() ||
+    (year === to.getUTCFullYear() && month <= to.getUTCMonth())
+  ) {
+    periods.push(getContributionPeriod(rules, year, month));
+    month += 1;
+    if (month === 12) {
+      month = 0;
+      year += 1;
+    }
+  }
+  return periods;
+}
+
+/**
+ * Members by contribution period. A member is expected to pay for a period
+ * if they joined by its due date and had not left before it started; the
+ * same rule fines are raised by. What was paid for a period comes from the
+ * allocations of approved contributions, so instalments and credit carried
+ * forward both count. Arrears are the shortfall against the monthly amount
+ * for every expected, unexcused period whose grace has ended; a contribution
+ * awaiting approval is not counted as owed.
+ */
+export function buildComplianceGrid(input: ComplianceGridInput): ComplianceRow[] {
+  const pendingByPeriod = new Map<string, ComplianceContribution>();
+  for (const contribution of input.contributions) {
+    if (contribution.status === 'PENDING') {
+      pendingByPeriod.set(
+        `${contribution.memberId}|${monthKey(contribution.periodStart)}`,
+        contribution,
+      );
+    }
+  }
+  const allocationsByPeriod = new Map<string, ComplianceAllocation[]>();
+  for (const allocation of input.allocations) {
+    const key = `${allocation.memberId}|${monthKey(allocation.periodStart)}`;
+    allocationsByPeriod.set(key, [...(allocationsByPeriod.get(key) || []), allocation]);
+  }
+  const excusals = new Map(
+    input.excusals.map((e) => [`${e.memberId}|${monthKey(e.periodStart)}`, e]),
+  );
+
+  const rows = input.members.map((member) => {
+    let arrears = new Decimal(0);
+
+    const cells = input.periods.map((period) => {
+      const key = `${member.userId}|${monthKey(period.periodStart)}`;
+      const allocations = allocationsByPeriod.get(key) || [];
+      const pending = pendingByPeriod.get(key);
+      const excusal = excusals.get(key);
+      const amountPaid = allocations.reduce((sum, a) => sum.plus(a.amount), new Decimal(0));
+      const expected =
+        member.joinedAt <= period.dueDate &&
+        (!member.leftAt || member.leftAt >= period.periodStart);
+      const graceEnded = input.asOf >= period.graceEndsAt;
+
+      let status: ComplianceStatus | null = null;
+      if (excusal) {
+        status = 'EXCUSED';
+      } else if (allocations.length && amountPaid.greaterThanOrEqualTo(input.monthlyAmount)) {
+        const last = allocations.reduce((a, b) => (a.paidAt > b.paidAt ? a : b));
+        status = last.paidAt >= period.graceEndsAt ? 'LATE' : 'PAID';
+      } else if (pending) {
+        status = 'PENDING';
+      } else if (allocations.length) {
+        status = 'PARTIAL';
+      } else if (expected) {
+        status = graceEnded ? 'MISSING' : 'DUE';
+      }
+
+      if (expected && graceEnded && status !== 'EXCUSED' && status !== 'PENDING') {
+        arrears = arrears.plus(Decimal.max(input.monthlyAmount.minus(amountPaid), 0));
+      }
+
+      return {
+        periodStart: period.periodStart,
+        status,
+        contributionId: allocations[0]?.contributionId ?? pending?.id ?? null,
+        excusalId: excusal?.id ?? null,
+        excusalReason: excusal?.reason ?? null,
+        amountPaid,
+        arrears,
+      };
+    });
+
+    return {
+      memberId: member.userId,
+      memberName: member.name,
+      cells,
+      arrears,
+      missingCount: cells.filter((c) => c.status === 'MISSING').length,
+      lateCount: cells.filter((c) => c.status === 'LATE').length,
+    };
+  });
+
+  return rows.sort((a, b) => {
+    if (input.sort !== 'NAME') {
+      const worst =
+        b.arrears.comparedTo(a.arrears) ||
+        b.missingCount - a.missingCount ||
+        b.lateCount - a.lateCount;
+      if (worst) {
+        return worst;
+      }
+    }
+    return a.memberName.localeCompare(b.memberName);
+  });
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
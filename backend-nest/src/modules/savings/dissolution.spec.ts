@@ -0,0 +1,85 @@
+import { Decimal } from 'decimal.js';
+import { calculateDissolutionShares, tallyDissolutionVotes } from './dissolution';
+
+describe('dissolution', () => {
+  describe('tallyDissolutionVotes', () => {
+    const tally = (approvals: number, rejections: number, eligible = 10, quorumPercent = 50) => ({
+      eligible,
+      approvals,
+      rejections,
+      quorumPercent,
+    });
+
+    it('should approve early once a majority of all members approve', () => {
+      expect(tallyDissolutionVotes(tally(6, 0))).toBe('APPROVED');
+    });
+
+    it('should reject early once approvals can no longer lead', () => {
+      expect(tallyDissolutionVotes(tally(2, 5))).toBe('REJECTED');
+    });
+
+    it('should stay open while the result is undecided', () => {
+      expect(tallyDissolutionVotes(tally(4, 2))).toBe('OPEN');
+    });
+
+    it('should wait for quorum even with a majority of all members', () => {
+      expect(tallyDissolutionVotes(tally(6, 0, 10, 80))).toBe('OPEN');
+    });
+
+    it('should decide by votes cast when closed with quorum', () => {
+      expect(tallyDissolutionVotes(tally(4, 2), true)).toBe('APPROVED');
+    });
+
+    it('should reject when closed without quorum', () => {
+      expect(tallyDissolutionVotes(tally(3, 1), true)).toBe('REJECTED');
+    });
+
+    it('should reject a tie', () => {
+      expect(tallyDissolutionVotes(tally(2, 2, 4), true)).toBe('REJECTED');
+    });
+  });
+
+  describe('calculateDissolutionShares', () => {
+    const sum = (shares: Array<{ amount: Decimal }>) =>
+      shares.reduce((total, s) => total.plus(s.amount), new Decimal(0));
+
+    it('should share the pot in proportion to money still in it', () => {
+      const shares = calculateDissolutionShares(1100, [
+        { memberId: 'a', contributed: 1200, received: 200 },
+        { memberId: 'b', contributed: 600, received: 100 },
+        { memberId: 'c', contributed: 500, received: 0 },
+      ]);
+
+      expect(shares.map((s) => s.amount.toString())).toEqual(['550', '275', '275']);
+    });
+
+    it('should give nothing to members already paid back in full', () => {
+      const shares = calculateDissolutionShares(300, [
+        { memberId: 'a', contributed: 500, received: 800 },
+        { memberId: 'b', contributed: 300, received: 0 },
+      ]);
+
+      expect(shares.map((s) => s.amount.toString())).toEqual(['0', '300']);
+    });
+
+    it('should always add up to the balance to the cent', () => {
+      const shares = calculateDissolutionShares('1000.01', [
+        { memberId: 'a', contributed: 100, received: 0 },
+        { memberId: 'b', contributed: 100, received: 0 },
+        { memberId: 'c', contributed: 100, received: 0 },
+      ]);
+
+      expect(sum(shares).toString()).toBe('1000.01');
+    });
+
+    it('should fall back to equal shares when nobody has money in the pot', () => {
+      const shares = calculateDissolutionShares(90, [
+        { memberId: 'a', contributed: 0, received: 0 },
+        { memberId: 'b', contributed: 100, received: 100 },
+        { memberId: 'c', contributed: 0, received: 0 },
+      ]);
+
+      expect(shares.map((s) => s.amount.toString())).toEqual(['30', '30', '30']);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { Decimal } from 'decimal.js';
+import { PayoutShare, allocateByWeight, allocateEqually } from './payout-allocation';
+
+export type DissolutionVoteOutcome = 'APPROVED' | 'REJECTED' | 'OPEN';
+
+export interface DissolutionVoteTally {
+  eligible: number;
+  approvals: number;
+  rejections: number;
+  quorumPercent: number;
+}
+
+/**
+ * Decide a dissolution vote.
+ *
+ * Quorum is the share of eligible members that must cast a vote; the
+ * proposal then needs more approvals than rejections. The vote is settled
+ * early once the remaining votes can no longer change the result, and
+ * `closed` (deadline passed) settles whatever is left.
+ */
+export function tallyDissolutionVotes(
+  tally: DissolutionVoteTally,
+  closed = false,
+): DissolutionVoteOutcome {
+  const { eligible, approvals, rejections, quorumPercent } = tally;
+  const cast = approvals + rejections;
+  const quorumMet = cast * 100 >= quorumPercent * eligible;
+
+  // A majority of all members approving can't be outvoted
+  if (quorumMet && approvals * 2 > eligible) {
+    return 'APPROVED';
+  }
+  // Half or more rejecting means approvals can never lead
+  if (rejections * 2 >= eligible) {
+    return 'REJECTED';
+  }
+
+  if (closed || cast >= eligible) {
+    return quorumMet && approvals > rejections ? 'APPROVED' : 'REJECTED';
+  }
+
+  return 'OPEN';
+}
+
+export interface MemberContributionHistory {
+  memberId: string;
+  contributed: Decimal | string | number;
+  received: Decimal | string | number;
+}
+
+/**
+ * Split the remaining pot between members in proportion to what they have
+ * put in and not yet taken out (contributions less payouts received).
+ * Members who have already been paid back in full get nothing; if nobody
+ * has anything left in the pot it is shared equally.
+ */
+export function calculateDissolutionShares(
+  balance: Decimal | string | number,
+  members: MemberContributionHistory[],
+): PayoutShare[] {
+  const weights = members.map((m) => ({
+    memberId: m.memberId,
+    weight: Decimal.max(new Decimal(m.contributed.toString()).minus(m.received.toString()), 0),
+  }));
+
+  if (weights.every((w) => w.weight.isZero())) {
+    return allocateEqually(
+      balance,
+      members.map((m) => m.memberId),
+    );
+  }
+
+  return allocateByWeight(balance, weights);
+}
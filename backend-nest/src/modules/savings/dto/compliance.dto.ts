@@ -0,0 +1,42 @@
+import { IsIn, IsOptional, IsString, IsUUID, Matches, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { COMPLIANCE_SORTS, ComplianceSort } from '../contribution-compliance';
+
+export class ComplianceQueryDto {
+  @ApiPropertyOptional({
+    example: '2026-01',
+    description: 'Eleven months before `to` when omitted',
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'From must be in YYYY-MM format' })
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2026-12', description: 'The current month when omitted' })
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'To must be in YYYY-MM format' })
+  to?: string;
+
+  @ApiPropertyOptional({
+    enum: COMPLIANCE_SORTS,
+    default: 'ARREARS',
+    description: 'ARREARS puts the members furthest behind first',
+  })
+  @IsOptional()
+  @IsIn(COMPLIANCE_SORTS)
+  sort?: ComplianceSort;
+}
+
+export class ExcuseContributionDto {
+  @ApiProperty({ description: 'User ID of the member' })
+  @IsUUID()
+  memberId: string;
+
+  @ApiProperty({ example: '2026-03', description: 'Contribution period to excuse' })
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Period must be in YYYY-MM format' })
+  period: string;
+
+  @ApiProperty({ example: 'Hospitalised for most of the month' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
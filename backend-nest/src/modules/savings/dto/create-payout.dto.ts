@@ -6,14 +6,28 @@ import {
   IsEnum,
   IsArray,
   IsUUID,
+  IsDateString,
+  ValidateNested,
   MaxLength,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { SavingsPayoutType, DistributionType } from '@prisma/client';
 
+export class PayoutAllocationDto {
+  @ApiProperty({ description: 'Recipient member (user) ID' })
+  @IsUUID()
+  memberId: string;
+
+  @ApiProperty({ example: 1250.5, description: 'Amount paid to this member' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  amount: number;
+}
+
 export class CreatePayoutDto {
   @ApiProperty({ example: 5000, description: 'Payout amount' })
-  @IsNumber()
+  @IsNumber({ maxDecimalPlaces: 2 })
   @Min(1)
   amount: number;
 
@@ -46,6 +60,34 @@ export class CreatePayoutDto {
   @IsEnum(DistributionType)
   distributionType?: DistributionType;
 
+  @ApiPropertyOptional({
+    type: [PayoutAllocationDto],
+    description: 'Per-member amounts, required for CUSTOM distribution',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PayoutAllocationDto)
+  allocations?: PayoutAllocationDto[];
+
+  @ApiPropertyOptional({
+    example: '2024-01-01',
+    description:
+      'Weight PROPORTIONAL payouts by contributions from this date instead of member balances (1 January if only periodEnd is set)',
+  })
+  @IsOptional()
+  @IsDateString()
+  periodStart?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-12-31',
+    description:
+      'Weight PROPORTIONAL payouts by contributions up to this date instead of member balances (today if only periodStart is set)',
+  })
+  @IsOptional()
+  @IsDateString()
+  periodEnd?: string;
+
   @ApiPropertyOptional({ description: 'Idempotency key for offline support' })
   @IsOptional()
   @IsString()
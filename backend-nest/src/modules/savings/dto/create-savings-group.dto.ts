@@ -1,6 +1,7 @@
 import {
   IsString,
   IsNumber,
+  IsInt,
   Min,
   Max,
   IsOptional,
@@ -10,7 +11,7 @@ import {
   MaxLength,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { FineType, PayoutModel } from '@prisma/client';
+import { ExitPolicy, FineType, InterestCompounding, PayoutModel } from '@prisma/client';
 
 export class CreateSavingsGroupDto {
   @ApiProperty({ example: 'Family Savings Club' })
@@ -68,7 +69,11 @@ export class CreateSavingsGroupDto {
   @IsEnum(PayoutModel)
   payoutModel?: PayoutModel;
 
-  @ApiPropertyOptional({ example: { months: [6, 12] }, description: 'Custom payout schedule' })
+  @ApiPropertyOptional({
+    example: { months: [6, 12], day: 25, portionPercent: 100 },
+    description:
+      'Payout schedule: months (CUSTOM only), day (1-28), portionPercent of the pot and distributionType',
+  })
   @IsOptional()
   @IsObject()
   payoutSchedule?: Record<string, any>;
@@ -79,4 +84,72 @@ export class CreateSavingsGroupDto {
   @Min(1)
   @Max(10)
   minApprovalCount?: number;
+
+  @ApiPropertyOptional({
+    enum: ExitPolicy,
+    example: 'REFUND_LESS_PENALTY',
+    description: 'What a member who leaves mid-cycle gets back',
+  })
+  @IsOptional()
+  @IsEnum(ExitPolicy)
+  exitPolicy?: ExitPolicy;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Percentage kept by the group under REFUND_LESS_PENALTY',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  exitPenaltyPercent?: number;
+
+  @ApiPropertyOptional({
+    example: 4.5,
+    description: "Annual interest rate (percent) on the pot's bank account",
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(100)
+  interestRate?: number;
+
+  @ApiPropertyOptional({ enum: InterestCompounding, example: 'MONTHLY' })
+  @IsOptional()
+  @IsEnum(InterestCompounding)
+  interestCompounding?: InterestCompounding;
+
+  @ApiPropertyOptional({
+    example: 50,
+    description: "Percentage of a member's savings they may borrow; no loans when unset",
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(500)
+  loanLimitPercent?: number;
+
+  @ApiPropertyOptional({ example: 5, description: 'Loan interest rate, percent per month' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(100)
+  loanInterestRate?: number;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Extra interest on overdue loan instalments, percent per month',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(100)
+  loanPenaltyRate?: number;
+
+  @ApiPropertyOptional({ example: 12, description: 'Longest a loan may be repaid over' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  loanMaxTermMonths?: number;
 }
@@ -0,0 +1,29 @@
+import { IsString, IsOptional, IsEnum, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentMethod } from '@prisma/client';
+
+export class RecordLinePaymentDto {
+  @ApiProperty({ enum: PaymentMethod, example: 'EFT' })
+  @IsEnum(PaymentMethod)
+  paymentMethod: PaymentMethod;
+
+  @ApiPropertyOptional({ example: 'FNB-20240115-88231', description: 'Bank or transfer reference' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  paymentReference?: string;
+
+  @ApiPropertyOptional({
+    description: 'Document ID of the signed cash handover or bank confirmation',
+  })
+  @IsOptional()
+  @IsUUID()
+  evidenceDocumentId?: string;
+}
+
+export class FailPayoutDto {
+  @ApiProperty({ example: 'Bank rejected the batch: account closed' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,40 @@
+import { IsString, IsOptional, IsEnum, IsInt, Min, Max, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApprovalDecision } from '@prisma/client';
+
+export class ProposeDissolutionDto {
+  @ApiProperty({ example: 'Members have agreed to wind up the stokvel at year end' })
+  @IsString()
+  @MaxLength(1000)
+  reason: string;
+
+  @ApiPropertyOptional({ example: 14, default: 14, description: 'Days members have to vote' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  votingDays?: number;
+
+  @ApiPropertyOptional({
+    example: 50,
+    default: 50,
+    description: 'Percentage of active members that must vote for the result to count',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(50)
+  @Max(100)
+  quorumPercent?: number;
+}
+
+export class DissolutionVoteDto {
+  @ApiProperty({ enum: ApprovalDecision, example: 'APPROVED' })
+  @IsEnum(ApprovalDecision)
+  decision: ApprovalDecision;
+
+  @ApiPropertyOptional({ example: 'Happy to close once the December payout is done' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  comment?: string;
+}
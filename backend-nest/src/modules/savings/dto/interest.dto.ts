@@ -0,0 +1,8 @@
+import { Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AccrueInterestDto {
+  @ApiProperty({ example: '2026-01', description: 'Calendar month to accrue, once it has ended' })
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Month must be in YYYY-MM format' })
+  month: string;
+}
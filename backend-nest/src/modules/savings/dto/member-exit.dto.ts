@@ -0,0 +1,18 @@
+import { IsString, IsOptional, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StartMemberExitDto {
+  @ApiPropertyOptional({
+    description: 'Leaving member (user) ID; defaults to the caller. Treasurer or chairperson only.',
+  })
+  @IsOptional()
+  @IsUUID()
+  memberId?: string;
+}
+
+export class WaiveExitSettlementDto {
+  @ApiProperty({ example: 'Member asked for their refund to stay in the pot' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
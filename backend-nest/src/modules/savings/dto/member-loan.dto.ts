@@ -0,0 +1,63 @@
+import { IsString, IsNumber, IsInt, IsOptional, MaxLength, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApplyForLoanDto {
+  @ApiProperty({ example: 3000, description: 'Amount to borrow' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ example: 6, description: 'Months to repay over' })
+  @IsInt()
+  @Min(1)
+  termMonths: number;
+
+  @ApiPropertyOptional({ example: 'School uniforms and stationery' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  purpose?: string;
+
+  @ApiPropertyOptional({ description: 'Key that makes retrying the application safe' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  idempotencyKey?: string;
+}
+
+export class ApproveLoanDto {
+  @ApiPropertyOptional({ example: 'Member has repaid two loans on time' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class RejectLoanDto {
+  @ApiProperty({ example: 'The pot is needed for the December payout' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class DisburseLoanDto {
+  @ApiProperty({
+    example: 'FNB-7781234',
+    description: 'Bank reference of the payment to the member',
+  })
+  @IsString()
+  @MaxLength(100)
+  paymentReference: string;
+}
+
+export class RecordLoanRepaymentDto {
+  @ApiProperty({ example: 550, description: 'Amount the member paid' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ example: 'FNB-7781299', description: 'Bank reference of the repayment' })
+  @IsString()
+  @MaxLength(100)
+  paymentReference: string;
+}
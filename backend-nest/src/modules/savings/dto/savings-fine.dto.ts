@@ -0,0 +1,40 @@
+import { IsString, IsOptional, IsEnum, IsIn, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentMethod } from '@prisma/client';
+
+export class PayFineDto {
+  @ApiProperty({ enum: PaymentMethod, example: 'EFT' })
+  @IsEnum(PaymentMethod)
+  paymentMethod: PaymentMethod;
+
+  @ApiPropertyOptional({ example: 'FNB-REF-10293' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  paymentReference?: string;
+}
+
+export class WaiveFineDto {
+  @ApiProperty({ example: 'Member was hospitalised during the grace period' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class DisputeFineDto {
+  @ApiProperty({ example: 'Paid in cash to the treasurer on the due date' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class ResolveFineDisputeDto {
+  @ApiProperty({ enum: ['UPHOLD', 'WAIVE'], description: 'Keep the fine or waive it' })
+  @IsIn(['UPHOLD', 'WAIVE'])
+  resolution: 'UPHOLD' | 'WAIVE';
+
+  @ApiProperty({ example: 'No proof of the cash payment was provided' })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
@@ -3,3 +3,16 @@ export * from './savings.service';
 export * from './savings.controller';
 export * from './savings-payouts.service';
 export * from './savings-payouts.controller';
+export * from './savings-fines.service';
+export * from './savings-fines.controller';
+export * from './savings-compliance.service';
+export * from './savings-compliance.controller';
+export * from './savings-schedule.service';
+export * from './savings-dissolution.service';
+export * from './savings-dissolution.controller';
+export * from './savings-exits.service';
+export * from './savings-exits.controller';
+export * from './savings-interest.service';
+export * from './savings-interest.controller';
+export * from './savings-loans.service';
+export * from './savings-loans.controller';
@@ -0,0 +1,90 @@
+import { Decimal } from 'decimal.js';
+import {
+  attributeInterest,
+  calculatePeriodInterest,
+  getDailyBalances,
+  getInterestPeriod,
+  getPreviousMonth,
+} from './interest';
+
+describe('getInterestPeriod', () => {
+  it('should cover the whole calendar month', () => {
+    const period = getInterestPeriod('2024-02');
+
+    expect(period.periodStart).toEqual(new Date('2024-02-01T00:00:00Z'));
+    expect(period.periodEnd).toEqual(new Date('2024-02-29T00:00:00Z'));
+    expect(period.days).toBe(29);
+  });
+
+  it('should reject malformed months', () => {
+    expect(() => getInterestPeriod('2024-13')).toThrow('Invalid interest month');
+  });
+
+  it('should find the previous month across a year boundary', () => {
+    expect(getPreviousMonth(new Date('2025-01-01T04:00:00Z'))).toBe('2024-12');
+  });
+});
+
+describe('getDailyBalances', () => {
+  const period = getInterestPeriod('2024-04');
+
+  it('should apply movements from the day they happen', () => {
+    const balances = getDailyBalances(
+      1000,
+      [
+        { at: new Date('2024-04-10T15:30:00Z'), amount: 500 },
+        { at: new Date('2024-04-20T08:00:00Z'), amount: -200 },
+        { at: new Date('2024-05-01T08:00:00Z'), amount: 9999 },
+      ],
+      period,
+    );
+
+    expect(balances).toHaveLength(30);
+    expect(balances[8].toString()).toBe('1000');
+    expect(balances[9].toString()).toBe('1500');
+    expect(balances[29].toString()).toBe('1300');
+  });
+});
+
+describe('calculatePeriodInterest', () => {
+  const flat = (amount: number, days: number) => new Array<Decimal>(days).fill(new Decimal(amount));
+
+  it('should accrue simple daily interest on the daily balance', () => {
+    // 36 500 at 10% for 30 days = 10 a day
+    expect(calculatePeriodInterest(flat(36500, 30), 10, 'MONTHLY').toString()).toBe('300');
+    expect(calculatePeriodInterest(flat(36500, 30), 10, 'SIMPLE').toString()).toBe('300');
+  });
+
+  it('should earn slightly more when compounding daily', () => {
+    const daily = calculatePeriodInterest(flat(36500, 30), 10, 'DAILY');
+
+    expect(daily.toString()).toBe('301.19');
+  });
+
+  it('should not charge interest on overdrawn days', () => {
+    const balances = [...flat(-1000, 10), ...flat(36500, 20)];
+
+    expect(calculatePeriodInterest(balances, 10, 'MONTHLY').toString()).toBe('200');
+  });
+});
+
+describe('attributeInterest', () => {
+  it('should split pro rata to balance-days', () => {
+    const shares = attributeInterest(100, [
+      { memberId: 'member-1', dailyBalances: [new Decimal(300), new Decimal(300)] },
+      { memberId: 'member-2', dailyBalances: [new Decimal(0), new Decimal(200)] },
+      { memberId: 'member-3', dailyBalances: [new Decimal(0), new Decimal(0)] },
+    ]);
+
+    expect(shares.map((s) => [s.memberId, s.amount.toString(), s.balanceDays.toString()])).toEqual([
+      ['member-1', '75', '600'],
+      ['member-2', '25', '200'],
+    ]);
+  });
+
+  it('should leave interest unattributed when nobody holds a balance', () => {
+    expect(
+      attributeInterest(10, [{ memberId: 'member-1', dailyBalances: [new Decimal(0)] }]),
+    ).toEqual([]);
+  });
+});
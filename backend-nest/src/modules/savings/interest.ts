@@ -0,0 +1,125 @@
+import { Decimal } from 'decimal.js';
+import { InterestCompounding } from '@prisma/client';
+import { allocateByWeight } from './payout-allocation';
+
+// South African banks accrue on actual days over a 365-day year, leap years included
+const DAYS_IN_YEAR = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface InterestPeriod {
+  month: string;
+  periodStart: Date;
+  periodEnd: Date;
+  days: number;
+}
+
+export interface BalanceMovement {
+  at: Date;
+  amount: Decimal | string | number;
+}
+
+export interface MemberInterestShare {
+  memberId: string;
+  balanceDays: Decimal;
+  amount: Decimal;
+}
+
+/**
+ * Calendar month (UTC) for a 'YYYY-MM' string
+ */
+export function getInterestPeriod(month: string): InterestPeriod {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) {
+    throw new Error(`Invalid interest month: ${month}`);
+  }
+
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  const periodStart = new Date(Date.UTC(year, monthIndex, 1));
+  const periodEnd = new Date(Date.UTC(year, monthIndex + 1, 0));
+
+  return { month, periodStart, periodEnd, days: periodEnd.getUTCDate() };
+}
+
+/**
+ * The last full month before `asOf`, as 'YYYY-MM'
+ */
+export function getPreviousMonth(asOf: Date): string {
+  const previous = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() - 1, 1));
+  return previous.toISOString().slice(0, 7);
+}
+
+/**
+ * End-of-day balance for every day of the period, starting from the balance
+ * carried in and applying signed movements on the day they happened.
+ * Movements outside the period are ignored.
+ */
+export function getDailyBalances(
+  opening: Decimal | string | number,
+  movements: BalanceMovement[],
+  period: InterestPeriod,
+): Decimal[] {
+  const byDay = new Array<Decimal>(period.days).fill(new Decimal(0));
+  for (const movement of movements) {
+    const day = Math.floor((movement.at.getTime() - period.periodStart.getTime()) / DAY_MS);
+    if (day >= 0 && day < period.days) {
+      byDay[day] = byDay[day].plus(movement.amount.toString());
+    }
+  }
+
+  let balance = new Decimal(opening.toString());
+  return byDay.map((change) => {
+    balance = balance.plus(change);
+    return balance;
+  });
+}
+
+/**
+ * Interest earned over a period on the daily balances, at an annual rate in
+ * percent. DAILY compounds within the month; SIMPLE and MONTHLY accrue on
+ * the daily balance and differ only in whether earlier interest is part of
+ * that balance, which the caller decides. Overdrawn days earn nothing.
+ */
+export function calculatePeriodInterest(
+  dailyBalances: Decimal[],
+  annualRate: Decimal | string | number,
+  compounding: InterestCompounding,
+): Decimal {
+  const dailyRate = new Decimal(annualRate.toString()).dividedBy(100).dividedBy(DAYS_IN_YEAR);
+
+  let interest = new Decimal(0);
+  for (const balance of dailyBalances) {
+    const earning =
+      compounding === 'DAILY' ? Decimal.max(balance, 0).plus(interest) : Decimal.max(balance, 0);
+    interest = interest.plus(earning.times(dailyRate));
+  }
+
+  return interest.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * Attribute a period's interest to members pro rata to their balance-days
+ * (the sum of each day's end-of-day balance). Members with nothing in the
+ * pot get nothing; if nobody held a balance the interest stays unattributed.
+ */
+export function attributeInterest(
+  total: Decimal | string | number,
+  members: Array<{ memberId: string; dailyBalances: Decimal[] }>,
+): MemberInterestShare[] {
+  const weights = members
+    .map((m) => ({
+      memberId: m.memberId,
+      weight: m.dailyBalances.reduce((sum, b) => sum.plus(Decimal.max(b, 0)), new Decimal(0)),
+    }))
+    .filter((w) => w.weight.greaterThan(0));
+
+  if (weights.length === 0 || new Decimal(total.toString()).isZero()) {
+    return [];
+  }
+
+  return allocateByWeight(total, weights).map((share) => ({
+    memberId: share.memberId,
+    balanceDays: share.weight!,
+    amount: share.amount,
+  }));
+}
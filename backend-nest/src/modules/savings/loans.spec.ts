@@ -0,0 +1,111 @@
+import { Decimal } from 'decimal.js';
+import {
+  InstalmentBalance,
+  availableLoanLimit,
+  buildRepaymentSchedule,
+  penaltyInterest,
+  splitRepayment,
+} from './loans';
+
+function instalment(
+  id: string,
+  principalDue: number,
+  interestDue: number,
+  penaltyCharged = 0,
+): InstalmentBalance {
+  return {
+    id,
+    principalDue: new Decimal(principalDue),
+    interestDue: new Decimal(interestDue),
+    principalPaid: new Decimal(0),
+    interestPaid: new Decimal(0),
+    penaltyCharged: new Decimal(penaltyCharged),
+    penaltyPaid: new Decimal(0),
+  };
+}
+
+describe('buildRepaymentSchedule', () => {
+  const disbursedAt = new Date('2024-03-15T10:00:00Z');
+
+  it('should charge interest on the reducing balance and repay the principal exactly', () => {
+    const schedule = buildRepaymentSchedule(1000, 2, 3, disbursedAt);
+
+    expect(schedule.map((i) => i.interestDue.toFixed(2))).toEqual(['20.00', '13.47', '6.80']);
+    expect(schedule.map((i) => i.principalDue.toFixed(2))).toEqual(['326.75', '333.28', '339.97']);
+    expect(schedule.reduce((sum, i) => sum.plus(i.principalDue), new Decimal(0)).toFixed(2)).toBe(
+      '1000.00',
+    );
+  });
+
+  it('should fall due monthly from a month after the payout', () => {
+    const schedule = buildRepaymentSchedule(1000, 2, 3, disbursedAt);
+
+    expect(schedule.map((i) => i.dueDate.toISOString().slice(0, 10))).toEqual([
+      '2024-04-15',
+      '2024-05-15',
+      '2024-06-15',
+    ]);
+  });
+
+  it('should split an interest-free loan evenly with the last instalment taking the cents', () => {
+    const schedule = buildRepaymentSchedule(1000, 0, 3, disbursedAt);
+
+    expect(schedule.map((i) => i.principalDue.toFixed(2))).toEqual(['333.33', '333.33', '333.34']);
+    expect(schedule.every((i) => i.interestDue.isZero())).toBe(true);
+  });
+
+  it('should reject a term shorter than a month', () => {
+    expect(() => buildRepaymentSchedule(1000, 2, 0, disbursedAt)).toThrow('at least one month');
+  });
+});
+
+describe('penaltyInterest', () => {
+  it('should accrue the monthly rate daily over the days overdue', () => {
+    const penalty = penaltyInterest(
+      1000,
+      3,
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2024-01-31T18:00:00Z'),
+    );
+
+    // 1000 x 3% x 12 x 30 / 365
+    expect(penalty.toFixed(2)).toBe('29.59');
+  });
+
+  it('should charge nothing for the same day', () => {
+    const day = new Date('2024-01-01T08:00:00Z');
+
+    expect(penaltyInterest(1000, 3, day, new Date('2024-01-01T20:00:00Z')).isZero()).toBe(true);
+  });
+});
+
+describe('splitRepayment', () => {
+  it('should clear penalty, then interest, then principal, oldest instalment first', () => {
+    const split = splitRepayment(400, [instalment('i-1', 300, 20, 5), instalment('i-2', 300, 15)]);
+
+    expect(split.penalty.toFixed(2)).toBe('5.00');
+    expect(split.interest.toFixed(2)).toBe('35.00');
+    expect(split.principal.toFixed(2)).toBe('360.00');
+    expect(split.instalments).toEqual([
+      expect.objectContaining({ id: 'i-1', settled: true }),
+      expect.objectContaining({ id: 'i-2', settled: false }),
+    ]);
+    expect(split.instalments[1].principal.toFixed(2)).toBe('60.00');
+  });
+
+  it('should reject paying more than is owed', () => {
+    expect(() => splitRepayment(400, [instalment('i-1', 300, 20)])).toThrow(
+      'more than the loan still owes',
+    );
+  });
+});
+
+describe('availableLoanLimit', () => {
+  it('should allow a share of savings less what is already borrowed', () => {
+    expect(availableLoanLimit(new Decimal(5000), 50, new Decimal(1000)).toFixed(2)).toBe('1500.00');
+  });
+
+  it('should never go below zero', () => {
+    expect(availableLoanLimit(new Decimal(5000), 50, new Decimal(3000)).isZero()).toBe(true);
+  });
+});
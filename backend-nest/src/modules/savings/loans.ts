@@ -0,0 +1,188 @@
+import { Decimal } from 'decimal.js';
+import { addMonths } from '../burial/burial-eligibility';
+
+// Penalty interest accrues on actual days, a monthly rate being twelve over 365
+const DAYS_IN_YEAR = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduledInstalment {
+  instalmentNumber: number;
+  dueDate: Date;
+  principalDue: Decimal;
+  interestDue: Decimal;
+}
+
+/**
+ * What is still owed on one instalment
+ */
+export interface InstalmentBalance {
+  id: string;
+  principalDue: Decimal;
+  interestDue: Decimal;
+  principalPaid: Decimal;
+  interestPaid: Decimal;
+  penaltyCharged: Decimal;
+  penaltyPaid: Decimal;
+}
+
+export interface InstalmentAllocation {
+  id: string;
+  principal: Decimal;
+  interest: Decimal;
+  penalty: Decimal;
+  settled: boolean;
+}
+
+export interface RepaymentSplit {
+  principal: Decimal;
+  interest: Decimal;
+  penalty: Decimal;
+  instalments: InstalmentAllocation[];
+}
+
+/**
+ * Repay a loan in equal monthly instalments on the reducing balance, the
+ * first due a month after it is paid out. Each month's interest is charged
+ * on the principal still owed and rounded to the cent; the last instalment
+ * takes whatever principal is left so the schedule repays it exactly.
+ */
+export function buildRepaymentSchedule(
+  principal: Decimal | string | number,
+  monthlyRatePercent: Decimal | string | number,
+  termMonths: number,
+  disbursedAt: Date,
+): ScheduledInstalment[] {
+  if (!Number.isInteger(termMonths) || termMonths < 1) {
+    throw new Error('A loan must be repaid over at least one month');
+  }
+
+  const amount = new Decimal(principal.toString());
+  const rate = new Decimal(monthlyRatePercent.toString()).dividedBy(100);
+  const payment = rate.isZero()
+    ? amount.dividedBy(termMonths)
+    : amount.times(rate).dividedBy(new Decimal(1).minus(rate.plus(1).pow(-termMonths)));
+  const rounded = payment.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+
+  const schedule: ScheduledInstalment[] = [];
+  let owed = amount;
+  for (let n = 1; n <= termMonths; n++) {
+    const interestDue = owed.times(rate).toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+    const principalDue = n === termMonths ? owed : Decimal.min(rounded.minus(interestDue), owed);
+    owed = owed.minus(principalDue);
+    schedule.push({
+      instalmentNumber: n,
+      dueDate: addMonths(disbursedAt, n),
+      principalDue,
+      interestDue,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Penalty interest on an overdue amount between two days, to the cent
+ */
+export function penaltyInterest(
+  overdue: Decimal | string | number,
+  monthlyRatePercent: Decimal | string | number,
+  from: Date,
+  to: Date,
+): Decimal {
+  const days = Math.floor((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+  if (days <= 0) {
+    return new Decimal(0);
+  }
+
+  return new Decimal(overdue.toString())
+    .times(monthlyRatePercent.toString())
+    .dividedBy(100)
+    .times(12)
+    .times(days)
+    .dividedBy(DAYS_IN_YEAR)
+    .toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * Everything still owed on an instalment, penalty included
+ */
+export function instalmentOwed(instalment: InstalmentBalance): Decimal {
+  return instalment.principalDue
+    .minus(instalment.principalPaid)
+    .plus(instalment.interestDue.minus(instalment.interestPaid))
+    .plus(instalment.penaltyCharged.minus(instalment.penaltyPaid));
+}
+
+/**
+ * Apply a repayment to the instalments in the order given, oldest first.
+ * Each instalment's penalty is cleared first, then its interest, then its
+ * principal, before anything goes to the next one.
+ */
+export function splitRepayment(
+  amount: Decimal | string | number,
+  instalments: InstalmentBalance[],
+): RepaymentSplit {
+  let left = new Decimal(amount.toString());
+  const split: RepaymentSplit = {
+    principal: new Decimal(0),
+    interest: new Decimal(0),
+    penalty: new Decimal(0),
+    instalments: [],
+  };
+
+  for (const instalment of instalments) {
+    if (left.lessThanOrEqualTo(0)) {
+      break;
+    }
+
+    const take = (owed: Decimal) => {
+      const paid = Decimal.min(left, Decimal.max(owed, 0));
+      left = left.minus(paid);
+      return paid;
+    };
+    const penalty = take(instalment.penaltyCharged.minus(instalment.penaltyPaid));
+    const interest = take(instalment.interestDue.minus(instalment.interestPaid));
+    const principal = take(instalment.principalDue.minus(instalment.principalPaid));
+
+    if (penalty.plus(interest).plus(principal).isZero()) {
+      continue;
+    }
+
+    split.penalty = split.penalty.plus(penalty);
+    split.interest = split.interest.plus(interest);
+    split.principal = split.principal.plus(principal);
+    split.instalments.push({
+      id: instalment.id,
+      principal,
+      interest,
+      penalty,
+      settled: instalmentOwed(instalment).minus(penalty).minus(interest).minus(principal).isZero(),
+    });
+  }
+
+  if (left.greaterThan(0)) {
+    throw new Error('Repayment is more than the loan still owes');
+  }
+
+  return split;
+}
+
+/**
+ * How much more a member may borrow: a share of their savings, less the
+ * principal of loans they already have or have asked for
+ */
+export function availableLoanLimit(
+  savingsBalance: Decimal,
+  limitPercent: Decimal | string | number,
+  alreadyBorrowed: Decimal,
+): Decimal {
+  const limit = savingsBalance
+    .times(limitPercent.toString())
+    .dividedBy(100)
+    .toDecimalPlaces(2, Decimal.ROUND_DOWN);
+  return Decimal.max(limit.minus(alreadyBorrowed), 0);
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
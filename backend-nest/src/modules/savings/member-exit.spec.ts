@@ -0,0 +1,57 @@
+import { calculateExitRefund } from './member-exit';
+
+describe('calculateExitRefund', () => {
+  const asOf = new Date('2024-06-15T10:00:00Z');
+  const base = { equity: 2500, balance: 20000, asOf };
+
+  it('should refund everything not yet paid out under FULL_REFUND', () => {
+    const result = calculateExitRefund({ ...base, policy: 'FULL_REFUND' });
+
+    expect(result.refund.toString()).toBe('2500');
+    expect(result.penalty.toString()).toBe('0');
+    expect(result.payableFrom).toBeNull();
+  });
+
+  it('should keep the penalty in the pot under REFUND_LESS_PENALTY', () => {
+    const result = calculateExitRefund({
+      ...base,
+      policy: 'REFUND_LESS_PENALTY',
+      penaltyPercent: '12.5',
+    });
+
+    expect(result.penalty.toString()).toBe('312.5');
+    expect(result.refund.toString()).toBe('2187.5');
+  });
+
+  it('should round the penalty to the cent', () => {
+    const result = calculateExitRefund({
+      ...base,
+      equity: 100.01,
+      policy: 'REFUND_LESS_PENALTY',
+      penaltyPercent: 10,
+    });
+
+    expect(result.penalty.toString()).toBe('10');
+    expect(result.refund.toString()).toBe('90.01');
+  });
+
+  it('should defer the refund to year end under FORFEIT_UNTIL_YEAR_END', () => {
+    const result = calculateExitRefund({ ...base, policy: 'FORFEIT_UNTIL_YEAR_END' });
+
+    expect(result.refund.toString()).toBe('2500');
+    expect(result.payableFrom).toEqual(new Date('2024-12-31T00:00:00Z'));
+  });
+
+  it('should refund nothing to members already paid back in full', () => {
+    const result = calculateExitRefund({ ...base, equity: -1000, policy: 'FULL_REFUND' });
+
+    expect(result.refund.toString()).toBe('0');
+  });
+
+  it('should never refund more than the pot holds', () => {
+    const result = calculateExitRefund({ ...base, balance: 1800, policy: 'FULL_REFUND' });
+
+    expect(result.refundable.toString()).toBe('1800');
+    expect(result.refund.toString()).toBe('1800');
+  });
+});
@@ -0,0 +1,53 @@
+import { ExitPolicy } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+
+export interface ExitRefundInput {
+  policy: ExitPolicy;
+  penaltyPercent?: Decimal | string | number | null;
+  equity: Decimal | string | number;
+  balance: Decimal | string | number;
+  asOf: Date;
+}
+
+export interface ExitRefund {
+  refundable: Decimal;
+  penalty: Decimal;
+  refund: Decimal;
+  payableFrom: Date | null;
+}
+
+/**
+ * Work out what a leaving member gets back under the group's exit policy.
+ *
+ * The refundable amount is the member's equity in the pot (their sub-ledger
+ * balance: what they have put in and earned, less what they have taken out),
+ * capped at what the pot actually holds.
+ * - FULL_REFUND pays all of it now.
+ * - REFUND_LESS_PENALTY keeps `penaltyPercent` of it in the pot.
+ * - FORFEIT_UNTIL_YEAR_END pays all of it, but not before 31 December.
+ */
+export function calculateExitRefund(input: ExitRefundInput): ExitRefund {
+  const refundable = Decimal.min(
+    Decimal.max(new Decimal(input.equity.toString()), 0),
+    Decimal.max(new Decimal(input.balance.toString()), 0),
+  ).toDecimalPlaces(2, Decimal.ROUND_DOWN);
+
+  let penalty = new Decimal(0);
+  let payableFrom: Date | null = null;
+
+  if (input.policy === 'REFUND_LESS_PENALTY') {
+    penalty = refundable
+      .times(new Decimal((input.penaltyPercent ?? 0).toString()))
+      .dividedBy(100)
+      .toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+  } else if (input.policy === 'FORFEIT_UNTIL_YEAR_END') {
+    payableFrom = new Date(Date.UTC(input.asOf.getUTCFullYear(), 11, 31));
+  }
+
+  return {
+    refundable,
+    penalty,
+    refund: refundable.minus(penalty),
+    payableFrom,
+  };
+}
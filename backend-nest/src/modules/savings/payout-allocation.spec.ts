@@ -0,0 +1,107 @@
+import { Decimal } from 'decimal.js';
+import { allocateByWeight, allocateEqually, validateCustomAllocation } from './payout-allocation';
+
+const sum = (shares: Array<{ amount: Decimal }>) =>
+  shares.reduce((total, s) => total.plus(s.amount), new Decimal(0));
+
+describe('payout allocation', () => {
+  describe('allocateEqually', () => {
+    it('should split evenly when the amount divides exactly', () => {
+      const shares = allocateEqually(300, ['a', 'b', 'c']);
+
+      expect(shares.map((s) => s.amount.toString())).toEqual(['100', '100', '100']);
+    });
+
+    it('should hand leftover cents out by member ID', () => {
+      const shares = allocateEqually(100, ['c', 'a', 'b']);
+
+      expect(shares).toEqual([
+        { memberId: 'c', amount: new Decimal('33.33') },
+        { memberId: 'a', amount: new Decimal('33.34') },
+        { memberId: 'b', amount: new Decimal('33.33') },
+      ]);
+      expect(sum(shares).toString()).toBe('100');
+    });
+
+    it('should give the same result regardless of input order', () => {
+      const forward = allocateEqually('0.05', ['a', 'b', 'c']);
+      const reversed = allocateEqually('0.05', ['c', 'b', 'a']);
+
+      const byMember = (shares: typeof forward) =>
+        Object.fromEntries(shares.map((s) => [s.memberId, s.amount.toString()]));
+      expect(byMember(forward)).toEqual(byMember(reversed));
+      expect(byMember(forward)).toEqual({ a: '0.02', b: '0.02', c: '0.01' });
+    });
+  });
+
+  describe('allocateByWeight', () => {
+    it('should weight shares by contribution and add up exactly', () => {
+      const shares = allocateByWeight(1000, [
+        { memberId: 'a', weight: 500 },
+        { memberId: 'b', weight: 300 },
+        { memberId: 'c', weight: 200 },
+      ]);
+
+      expect(shares.map((s) => s.amount.toString())).toEqual(['500', '300', '200']);
+    });
+
+    it('should give leftover cents to the largest remainders', () => {
+      const shares = allocateByWeight('10.00', [
+        { memberId: 'a', weight: 1 },
+        { memberId: 'b', weight: 2 },
+        { memberId: 'c', weight: 4 },
+      ]);
+
+      // Exact shares are 1.428571, 2.857142 and 5.714285
+      expect(shares.map((s) => s.amount.toString())).toEqual(['1.43', '2.86', '5.71']);
+      expect(sum(shares).toString()).toBe('10');
+    });
+
+    it('should keep the weight on each share', () => {
+      const [share] = allocateByWeight(50, [{ memberId: 'a', weight: '1250.5' }]);
+
+      expect(share.weight?.toString()).toBe('1250.5');
+      expect(share.amount.toString()).toBe('50');
+    });
+
+    it('should reject fractional cents and all-zero weights', () => {
+      expect(() => allocateByWeight('10.005', [{ memberId: 'a', weight: 1 }])).toThrow();
+      expect(() => allocateByWeight(10, [{ memberId: 'a', weight: 0 }])).toThrow();
+    });
+  });
+
+  describe('validateCustomAllocation', () => {
+    it('should accept allocations that match the total exactly', () => {
+      expect(
+        validateCustomAllocation(100, [
+          { memberId: 'a', amount: 60.5 },
+          { memberId: 'b', amount: 39.5 },
+        ]),
+      ).toEqual([]);
+    });
+
+    it('should report a mismatch with the payout total', () => {
+      const errors = validateCustomAllocation(100, [
+        { memberId: 'a', amount: 60 },
+        { memberId: 'b', amount: 39.99 },
+      ]);
+
+      expect(errors).toEqual(['Allocations add up to 99.99 but the payout is 100.00']);
+    });
+
+    it('should report duplicates, negatives and fractional cents', () => {
+      const errors = validateCustomAllocation(0, [
+        { memberId: 'a', amount: '10.001' },
+        { memberId: 'a', amount: -10 },
+      ]);
+
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          'Member a appears more than once',
+          'Amount for member a cannot be negative',
+          'Amount for member a must be a whole number of cents',
+        ]),
+      );
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { Decimal } from 'decimal.js';
+
+export interface PayoutShare {
+  memberId: string;
+  amount: Decimal;
+  weight?: Decimal;
+}
+
+/**
+ * Split a payout into per-member shares weighted by `weights`.
+ *
+ * Uses the largest remainder method on whole cents so the shares always add
+ * up exactly to `total`. Leftover cents go to the largest fractional parts,
+ * with ties broken by member ID so the result never depends on input order.
+ */
+export function allocateByWeight(
+  total: Decimal | string | number,
+  weights: Array<{ memberId: string; weight: Decimal | string | number }>,
+): PayoutShare[] {
+  const totalCents = new Decimal(total.toString()).times(100);
+  if (!totalCents.isInteger()) {
+    throw new Error('Payout amount must be a whole number of cents');
+  }
+
+  const entries = weights.map((w) => ({
+    memberId: w.memberId,
+    weight: new Decimal(w.weight.toString()),
+  }));
+  if (entries.some((e) => e.weight.isNegative())) {
+    throw new Error('Allocation weights cannot be negative');
+  }
+
+  const totalWeight = entries.reduce((sum, e) => sum.plus(e.weight), new Decimal(0));
+  if (totalWeight.isZero()) {
+    throw new Error('Allocation weights must not all be zero');
+  }
+
+  const shares = entries.map((e) => {
+    const exact = totalCents.times(e.weight).dividedBy(totalWeight);
+    const cents = exact.floor();
+    return { ...e, cents, remainder: exact.minus(cents) };
+  });
+
+  const allocated = shares.reduce((sum, s) => sum.plus(s.cents), new Decimal(0));
+  let leftover = totalCents.minus(allocated).toNumber();
+
+  const byRemainder = [...shares].sort((a, b) => {
+    const diff = b.remainder.comparedTo(a.remainder);
+    if (diff !== 0) return diff;
+    return a.memberId < b.memberId ? -1 : a.memberId > b.memberId ? 1 : 0;
+  });
+  for (const share of byRemainder) {
+    if (leftover <= 0) break;
+    share.cents = share.cents.plus(1);
+    leftover -= 1;
+  }
+
+  return shares.map((s) => ({
+    memberId: s.memberId,
+    amount: s.cents.dividedBy(100),
+    weight: s.weight,
+  }));
+}
+
+/**
+ * Split a payout equally between members, to the cent
+ */
+export function allocateEqually(
+  total: Decimal | string | number,
+  memberIds: string[],
+): PayoutShare[] {
+  return allocateByWeight(
+    total,
+    memberIds.map((memberId) => ({ memberId, weight: 1 })),
+  ).map(({ memberId, amount }) => ({ memberId, amount }));
+}
+
+/**
+ * Check a caller-supplied split: one line per member, whole cents, no
+ * negative amounts and an exact match with the payout total.
+ * Returns a list of problems; an empty list means the split is valid.
+ */
+export function validateCustomAllocation(
+  total: Decimal | string | number,
+  allocations: Array<{ memberId: string; amount: Decimal | string | number }>,
+): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  let sum = new Decimal(0);
+
+  for (const allocation of allocations) {
+    const amount = new Decimal(allocation.amount.toString());
+
+    if (seen.has(allocation.memberId)) {
+      errors.push(`Member ${allocation.memberId} appears more than once`);
+    }
+    seen.add(allocation.memberId);
+
+    if (amount.isNegative()) {
+      errors.push(`Amount for member ${allocation.memberId} cannot be negative`);
+    }
+    if (!amount.times(100).isInteger()) {
+      errors.push(`Amount for member ${allocation.memberId} must be a whole number of cents`);
+    }
+
+    sum = sum.plus(amount);
+  }
+
+  if (!sum.equals(new Decimal(total.toString()))) {
+    errors.push(
+      `Allocations add up to ${sum.toFixed(2)} but the payout is ${new Decimal(total.toString()).toFixed(2)}`,
+    );
+  }
+
+  return errors;
+}
@@ -0,0 +1,95 @@
+import {
+  PayoutScheduleError,
+  getDuePayoutDates,
+  getNextPayoutDates,
+  normalizePayoutSchedule,
+} from './payout-schedule';
+
+describe('payout schedule', () => {
+  describe('normalizePayoutSchedule', () => {
+    it('should fill in defaults for YEAR_END', () => {
+      expect(normalizePayoutSchedule('YEAR_END', undefined)).toEqual({
+        months: [12],
+        day: 28,
+        portionPercent: 100,
+        distributionType: 'EQUAL',
+      });
+    });
+
+    it('should use quarter-end months for QUARTERLY', () => {
+      expect(normalizePayoutSchedule('QUARTERLY', { day: 15 })?.months).toEqual([3, 6, 9, 12]);
+    });
+
+    it('should sort and de-duplicate CUSTOM months', () => {
+      const schedule = normalizePayoutSchedule('CUSTOM', {
+        months: [12, 6, 12],
+        portionPercent: 50,
+      });
+
+      expect(schedule?.months).toEqual([6, 12]);
+      expect(schedule?.portionPercent).toBe(50);
+    });
+
+    it('should return null for ON_DEMAND', () => {
+      expect(normalizePayoutSchedule('ON_DEMAND', null)).toBeNull();
+    });
+
+    it('should accept a stored schedule for a fixed model', () => {
+      const stored = normalizePayoutSchedule('QUARTERLY', undefined);
+
+      expect(normalizePayoutSchedule('QUARTERLY', stored as any)).toEqual(stored);
+    });
+
+    it('should collect every problem with an invalid schedule', () => {
+      try {
+        normalizePayoutSchedule('CUSTOM', { months: [13], day: 31, portionPercent: 0, foo: 1 });
+        fail('expected PayoutScheduleError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PayoutScheduleError);
+        expect((error as PayoutScheduleError).problems).toHaveLength(4);
+      }
+    });
+
+    it('should reject months on a fixed model and a schedule on ON_DEMAND', () => {
+      expect(() => normalizePayoutSchedule('YEAR_END', { months: [6] })).toThrow(
+        PayoutScheduleError,
+      );
+      expect(() => normalizePayoutSchedule('ON_DEMAND', { day: 1 })).toThrow(PayoutScheduleError);
+    });
+  });
+
+  describe('getNextPayoutDates', () => {
+    const quarterly = normalizePayoutSchedule('QUARTERLY', { day: 25 })!;
+
+    it('should list the next N dates across year boundaries', () => {
+      const dates = getNextPayoutDates(quarterly, new Date('2026-10-18T09:00:00Z'), 3);
+
+      expect(dates.map((d) => d.toISOString().split('T')[0])).toEqual([
+        '2026-12-25',
+        '2027-03-25',
+        '2027-06-25',
+      ]);
+    });
+
+    it('should include a payout date falling on the start day', () => {
+      const [first] = getNextPayoutDates(quarterly, new Date('2026-09-25T18:30:00Z'), 1);
+
+      expect(first.toISOString()).toBe('2026-09-25T00:00:00.000Z');
+    });
+  });
+
+  describe('getDuePayoutDates', () => {
+    const yearEnd = normalizePayoutSchedule('YEAR_END', { day: 1 })!;
+
+    it('should return a date that fell within the catch-up window', () => {
+      const dates = getDuePayoutDates(yearEnd, new Date('2026-12-05T03:00:00Z'), 7);
+
+      expect(dates).toEqual([new Date('2026-12-01T00:00:00Z')]);
+    });
+
+    it('should return nothing outside the window', () => {
+      expect(getDuePayoutDates(yearEnd, new Date('2026-12-09T03:00:00Z'), 7)).toEqual([]);
+      expect(getDuePayoutDates(yearEnd, new Date('2026-11-30T03:00:00Z'), 7)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { PayoutModel } from '@prisma/client';
+
+/**
+ * Normalized shape of SavingsRule.payoutSchedule
+ */
+export interface PayoutScheduleConfig {
+  months: number[];
+  day: number;
+  portionPercent: number;
+  distributionType: 'EQUAL' | 'PROPORTIONAL';
+}
+
+// Last day that exists in every month, matching the dueDay limit
+const DEFAULT_PAYOUT_DAY = 28;
+
+const DEFAULT_MONTHS: Partial<Record<PayoutModel, number[]>> = {
+  YEAR_END: [12],
+  QUARTERLY: [3, 6, 9, 12],
+};
+
+export class PayoutScheduleError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join('; '));
+  }
+}
+
+/**
+ * Validate a payout schedule against its payout model and fill in defaults.
+ *
+ * - YEAR_END and QUARTERLY use fixed months; only `day`, `portionPercent`
+ *   and `distributionType` may be changed.
+ * - CUSTOM requires `months` (1-12).
+ * - ON_DEMAND has no schedule and returns null.
+ */
+export function normalizePayoutSchedule(
+  model: PayoutModel,
+  raw?: Record<string, any> | null,
+): PayoutScheduleConfig | null {
+  const schedule = raw || {};
+  const problems: string[] = [];
+
+  const allowed = ['months', 'day', 'portionPercent', 'distributionType'];
+  const unknown = Object.keys(schedule).filter((key) => !allowed.includes(key));
+  if (unknown.length > 0) {
+    problems.push(`Unknown payout schedule fields: ${unknown.join(', ')}`);
+  }
+
+  if (model === 'ON_DEMAND') {
+    if (Object.keys(schedule).length > 0) {
+      problems.push('ON_DEMAND payouts do not take a schedule');
+    }
+    if (problems.length > 0) throw new PayoutScheduleError(problems);
+    return null;
+  }
+
+  let months = DEFAULT_MONTHS[model] || [];
+  if (model === 'CUSTOM') {
+    const given = schedule.months;
+    if (!Array.isArray(given) || given.length === 0) {
+      problems.push('CUSTOM payouts require a non-empty months list');
+    } else if (!given.every((m) => Number.isInteger(m) && m >= 1 && m <= 12)) {
+      problems.push('months must be whole numbers from 1 to 12');
+    } else {
+      months = [...new Set<number>(given)].sort((a, b) => a - b);
+    }
+  } else if (schedule.months !== undefined && String(schedule.months) !== String(months)) {
+    problems.push(`months can only be set for CUSTOM payouts, ${model} uses ${months.join(', ')}`);
+  }
+
+  const day = schedule.day ?? DEFAULT_PAYOUT_DAY;
+  if (!Number.isInteger(day) || day < 1 || day > 28) {
+    problems.push('day must be a whole number from 1 to 28');
+  }
+
+  const portionPercent = schedule.portionPercent ?? 100;
+  if (typeof portionPercent !== 'number' || portionPercent <= 0 || portionPercent > 100) {
+    problems.push('portionPercent must be greater than 0 and at most 100');
+  }
+
+  const distributionType = schedule.distributionType ?? 'EQUAL';
+  if (!['EQUAL', 'PROPORTIONAL'].includes(distributionType)) {
+    problems.push('distributionType must be EQUAL or PROPORTIONAL');
+  }
+
+  if (problems.length > 0) {
+    throw new PayoutScheduleError(problems);
+  }
+
+  return { months, day, portionPercent, distributionType };
+}
+
+/**
+ * List the next `count` payout dates on or after `from` (UTC midnight)
+ */
+export function getNextPayoutDates(
+  schedule: PayoutScheduleConfig,
+  from: Date,
+  count: number,
+): Date[] {
+  const fromDay = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  const dates: Date[] = [];
+
+  let year = from.getUTCFullYear();
+  let month = from.getUTCMonth();
+  while (dates.length < count) {
+    if (schedule.months.includes(month + 1)) {
+      const date = new Date(Date.UTC(year, month, schedule.day));
+      if (date.getTime() >= fromDay) {
+        dates.push(date);
+      }
+    }
+    month += 1;
+    if (month === 12) {
+      month = 0;
+      year += 1;
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Payout dates that fell within the `lookbackDays` up to and including `asOf`,
+ * so a missed daily run still catches up
+ */
+export function getDuePayoutDates(
+  schedule: PayoutScheduleConfig,
+  asOf: Date,
+  lookbackDays: number,
+): Date[] {
+  const asOfDay = Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate());
+  const from = new Date(asOfDay - lookbackDays * 24 * 60 * 60 * 1000);
+
+  return getNextPayoutDates(schedule, from, schedule.months.length + 1).filter(
+    (date) => date.getTime() <= asOfDay,
+  );
+}
@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { SavingsComplianceService } from './savings-compliance.service';
+import { ComplianceQueryDto, ExcuseContributionDto } from './dto/compliance.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { TreasurerOrHigher, AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('savings')
+@Controller({ path: 'groups/:groupId/savings/compliance', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SavingsComplianceController {
+  constructor(private readonly complianceService: SavingsComplianceService) {}
+
+  @Get()
+  @AnyMember()
+  @ApiOperation({ summary: 'Get the members by periods contribution compliance matrix' })
+  @ApiResponse({
+    status: 200,
+    description: 'Status of every member for every period, with arrears',
+  })
+  getCompliance(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query() query: ComplianceQueryDto,
+  ) {
+    return this.complianceService.getCompliance(groupId, query);
+  }
+
+  @Post('excusals')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Excuse a member from contributing for a period' })
+  @ApiResponse({ status: 201, description: 'Period excused' })
+  excuse(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: ExcuseContributionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.complianceService.excuseContribution(groupId, dto, user.id);
+  }
+
+  @Delete('excusals/:excusalId')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Remove an excusal' })
+  @ApiResponse({ status: 200, description: 'Excusal removed' })
+  removeExcusal(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('excusalId', ParseUUIDPipe) excusalId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.complianceService.removeExcusal(groupId, excusalId, user.id);
+  }
+
+  @Post('reminders')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Remind members in arrears of what they owe' })
+  @ApiResponse({ status: 201, description: 'Reminders sent' })
+  remind(@Param('groupId', ParseUUIDPipe) groupId: string, @CurrentUser() user: AuthUser) {
+    return this.complianceService.remindGroupArrears(groupId, new Date(), user.id);
+  }
+}
@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SavingsComplianceService } from './savings-compliance.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('SavingsComplianceService', () => {
+  let service: SavingsComplianceService;
+
+  const mockPrismaService = {
+    group: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    groupMember: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    contribution: {
+      findMany: jest.fn(),
+    },
+    contributionAllocation: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    contributionExcusal: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    send: jest.fn(),
+  };
+
+  const mockGroup = {
+    id: 'group-1',
+    name: 'Umoja Savings',
+    currency: 'ZAR',
+    savingsRules: {
+      monthlyAmount: new Prisma.Decimal(500),
+      dueDay: 5,
+      gracePeriodDays: 7,
+    },
+  };
+
+  const member = (userId: string, firstName: string) => ({
+    userId,
+    joinedAt: new Date('2024-01-01T00:00:00Z'),
+    leftAt: null,
+    user: { firstName, lastName: 'Moyo' },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavingsComplianceService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<SavingsComplianceService>(SavingsComplianceService);
+
+    jest.clearAllMocks();
+    mockPrismaService.contribution.findMany.mockResolvedValue([]);
+    mockPrismaService.contributionAllocation.findMany.mockResolvedValue([]);
+    mockPrismaService.contributionExcusal.findMany.mockResolvedValue([]);
+  });
+
+  describe('getCompliance', () => {
+    const asOf = new Date('2026-03-20T00:00:00Z');
+
+    it('should default to the twelve months up to the current one', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(mockGroup);
+      mockPrismaService.groupMember.findMany.mockResolvedValue([
+        member('user-1', 'Thandi'),
+        member('user-2', 'Sipho'),
+      ]);
+      mockPrismaService.contributionAllocation.findMany.mockResolvedValue([
+        {
+          contributionId: 'contribution-1',
+          memberId: 'user-1',
+          periodStart: new Date('2026-02-01T00:00:00Z'),
+          amount: new Prisma.Decimal(500),
+          contribution: { createdAt: new Date('2026-02-03T00:00:00Z') },
+        },
+      ]);
+
+      const result = await service.getCompliance('group-1', {}, asOf);
+
+      expect(result.periods).toHaveLength(12);
+      expect(result.periods[0].periodStart).toEqual(new Date('2025-04-01T00:00:00Z'));
+      expect(result.members.map((m) => m.memberId)).toEqual(['user-2', 'user-1']);
+      expect(result.members[0].arrears.toString()).toBe('6000');
+      expect(result.totalArrears.toString()).toBe('11500');
+      expect(result.membersInArrears).toBe(2);
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(
+        service.getCompliance('group-1', { from: '2026-03', to: '2026-01' }, asOf),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject ranges longer than three years', async () => {
+      await expect(
+        service.getCompliance('group-1', { from: '2023-01', to: '2026-01' }, asOf),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject groups without savings rules', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue({ ...mockGroup, savingsRules: null });
+
+      await expect(service.getCompliance('group-1', {}, asOf)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('excuseContribution', () => {
+    const dto = { memberId: 'user-1', period: '2026-02', reason: 'Hospitalised' };
+
+    it('should excuse a member from an unpaid period', async () => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ userId: 'user-1' });
+      mockPrismaService.contributionAllocation.findFirst.mockResolvedValue(null);
+      mockPrismaService.contributionExcusal.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'excusal-1', ...data }),
+      );
+
+      const result = await service.excuseContribution('group-1', dto, 'treasurer-1');
+
+      expect(mockPrismaService.contributionExcusal.create).toHaveBeenCalledWith({
+        data: {
+          groupId: 'group-1',
+          memberId: 'user-1',
+          periodStart: new Date('2026-02-01T00:00:00Z'),
+          reason: 'Hospitalised',
+          excusedById: 'treasurer-1',
+        },
+      });
+      expect(result.id).toBe('excusal-1');
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'CONTRIBUTION_EXCUSED', resourceId: 'excusal-1' }),
+      );
+    });
+
+    it('should reject members outside the group', async () => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue(null);
+
+      await expect(service.excuseContribution('group-1', dto, 'treasurer-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should reject a period that has already been paid towards', async () => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ userId: 'user-1' });
+      mockPrismaService.contributionAllocation.findFirst.mockResolvedValue({
+        id: 'allocation-1',
+      });
+
+      await expect(service.excuseContribution('group-1', dto, 'treasurer-1')).rejects.toThrow(
+        'Contributions have already been allocated to this period',
+      );
+      expect(mockPrismaService.contributionExcusal.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second excusal for the same period', async () => {
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ userId: 'user-1' });
+      mockPrismaService.contributionAllocation.findFirst.mockResolvedValue(null);
+      mockPrismaService.contributionExcusal.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.0.0',
+        }),
+      );
+
+      await expect(service.excuseContribution('group-1', dto, 'treasurer-1')).rejects.toThrow(
+        'This member is already excused for this period',
+      );
+    });
+  });
+
+  describe('removeExcusal', () => {
+    it('should delete the excusal and audit it', async () => {
+      mockPrismaService.contributionExcusal.findFirst.mockResolvedValue({
+        id: 'excusal-1',
+        memberId: 'user-1',
+        periodStart: new Date('2026-02-01T00:00:00Z'),
+        reason: 'Hospitalised',
+      });
+
+      const result = await service.removeExcusal('group-1', 'excusal-1', 'treasurer-1');
+
+      expect(result).toEqual({ success: true });
+      expect(mockPrismaService.contributionExcusal.delete).toHaveBeenCalledWith({
+        where: { id: 'excusal-1' },
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'CONTRIBUTION_EXCUSAL_REMOVED',
+          beforeState: expect.objectContaining({ period: '2026-02' }),
+        }),
+      );
+    });
+
+    it('should throw when the excusal is not in the group', async () => {
+      mockPrismaService.contributionExcusal.findFirst.mockResolvedValue(null);
+
+      await expect(service.removeExcusal('group-1', 'excusal-1', 'treasurer-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remindGroupArrears', () => {
+    const asOf = new Date('2026-03-20T00:00:00Z');
+
+    it('should remind only current members in arrears', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(mockGroup);
+      mockPrismaService.groupMember.findMany.mockResolvedValue([
+        { ...member('user-1', 'Thandi'), joinedAt: new Date('2026-03-01T00:00:00Z') },
+        { ...member('user-2', 'Sipho'), joinedAt: new Date('2026-02-01T00:00:00Z') },
+      ]);
+      mockPrismaService.contributionAllocation.findMany.mockResolvedValue([
+        {
+          contributionId: 'contribution-1',
+          memberId: 'user-1',
+          periodStart: new Date('2026-03-01T00:00:00Z'),
+          amount: new Prisma.Decimal(500),
+          contribution: { createdAt: new Date('2026-03-02T00:00:00Z') },
+        },
+      ]);
+
+      const result = await service.remindGroupArrears('group-1', asOf);
+
+      expect(mockPrismaService.groupMember.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: 'ACTIVE', deletedAt: null }),
+        }),
+      );
+      expect(result).toEqual({ remindersSent: 1 });
+      expect(mockNotificationsService.send).toHaveBeenCalledTimes(1);
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-2',
+          type: 'CONTRIBUTION_ARREARS',
+          data: { arrears: '1000.00', missingPeriods: ['2026-02', '2026-03'] },
+        }),
+      );
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'ARREARS_REMINDERS_SENT', actorType: 'SYSTEM' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  buildComplianceGrid,
+  ComplianceSort,
+  listContributionPeriods,
+} from './contribution-compliance';
+import { ComplianceQueryDto, ExcuseContributionDto } from './dto/compliance.dto';
+
+const DEFAULT_MONTHS = 12;
+const MAX_MONTHS = 36;
+
+@Injectable()
+export class SavingsComplianceService {
+  private readonly logger = new Logger(SavingsComplianceService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Who has paid for which period, with each member's arrears. Defaults to
+   * the twelve months up to the current one, worst offenders first.
+   */
+  async getCompliance(groupId: string, query: ComplianceQueryDto, asOf: Date = new Date()) {
+    const to = query.to ? parseMonth(query.to) : monthStart(asOf);
+    const from = query.from
+      ? parseMonth(query.from)
+      : new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - (DEFAULT_MONTHS - 1), 1));
+
+    if (from > to) {
+      throw new BadRequestException('From must not be after to');
+    }
+
+    const months =
+      (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+    if (months >= MAX_MONTHS) {
+      throw new BadRequestException(`At most ${MAX_MONTHS} months can be shown at once`);
+    }
+
+    return this.buildGrid(groupId, from, to, asOf, query.sort);
+  }
+
+  /**
+   * Excuse a member from paying for a period. Excused periods are not
+   * counted as arrears and are not fined.
+   */
+  async excuseContribution(groupId: string, dto: ExcuseContributionDto, userId: string) {
+    const periodStart = parseMonth(dto.period);
+
+    const membership = await this.prisma.groupMember.findFirst({
+      where: { groupId, userId: dto.memberId, deletedAt: null },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('Member not found in this group');
+    }
+
+    const allocation = await this.prisma.contributionAllocation.findFirst({
+      where: { groupId, memberId: dto.memberId, periodStart },
+    });
+
+    if (allocation) {
+      throw new BadRequestException('Contributions have already been allocated to this period');
+    }
+
+    let excusal;
+    try {
+      excusal = await this.prisma.contributionExcusal.create({
+        data: {
+          groupId,
+          memberId: dto.memberId,
+          periodStart,
+          reason: dto.reason,
+          excusedById: userId,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new BadRequestException('This member is already excused for this period');
+      }
+      throw error;
+    }
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'CONTRIBUTION_EXCUSED',
+      resourceType: 'CONTRIBUTION_EXCUSAL',
+      resourceId: excusal.id,
+      groupId,
+      afterState: { memberId: dto.memberId, period: dto.period, reason: dto.reason },
+      outcome: 'SUCCESS',
+    });
+
+    return excusal;
+  }
+
+  async removeExcusal(groupId: string, excusalId: string, userId: string) {
+    const excusal = await this.prisma.contributionExcusal.findFirst({
+      where: { id: excusalId, groupId },
+    });
+
+    if (!excusal) {
+      throw new NotFoundException('Excusal not found');
+    }
+
+    await this.prisma.contributionExcusal.delete({ where: { id: excusalId } });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'CONTRIBUTION_EXCUSAL_REMOVED',
+      resourceType: 'CONTRIBUTION_EXCUSAL',
+      resourceId: excusalId,
+      groupId,
+      beforeState: {
+        memberId: excusal.memberId,
+        period: excusal.periodStart.toISOString().slice(0, 7),
+        reason: excusal.reason,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Remind members of every active savings group who are in arrears.
+   * Called by the scheduled 'remind-arrears' job.
+   */
+  async remindArrears(asOf: Date = new Date()) {
+    const groups = await this.prisma.group.findMany({
+      where: { type: 'SAVINGS', status: 'ACTIVE', deletedAt: null, savingsRules: { isNot: null } },
+      select: { id: true },
+    });
+
+    let remindersSent = 0;
+    for (const group of groups) {
+      try {
+        const result = await this.remindGroupArrears(group.id, asOf);
+        remindersSent += result.remindersSent;
+      } catch (error) {
+        this.logger.error(`Failed to send arrears reminders for group ${group.id}`, error);
+      }
+    }
+
+    this.logger.log(`Checked ${groups.length} groups, sent ${remindersSent} arrears reminders`);
+
+    return { groupsChecked: groups.length, remindersSent };
+  }
+
+  /**
+   * Remind each current member in arrears over the last twelve months of
+   * what they owe and which periods are missing
+   */
+  async remindGroupArrears(groupId: string, asOf: Date = new Date(), actorId?: string) {
+    const to = monthStart(asOf);
+    const from = new Date(
+      Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - (DEFAULT_MONTHS - 1), 1),
+    );
+    const grid = await this.buildGrid(groupId, from, to, asOf, 'ARREARS', true);
+
+    const inArrears = grid.members.filter((m) => m.arrears.greaterThan(0));
+    for (const member of inArrears) {
+      const missing = member.cells
+        .filter((c) => c.status === 'MISSING')
+        .map((c) => c.periodStart.toISOString().slice(0, 7));
+
+      await this.notificationsService.send({
+        userId: member.memberId,
+        type: 'CONTRIBUTION_ARREARS',
+        channels: ['IN_APP', 'EMAIL'],
+        title: `Contributions in arrears for ${grid.groupName}`,
+        body:
+          `You are ${grid.currency} ${member.arrears.toFixed(2)} behind on your contributions to ${grid.groupName}.` +
+          (missing.length ? ` Nothing has been received for ${missing.join(', ')}.` : ''),
+        data: { arrears: member.arrears.toFixed(2), missingPeriods: missing },
+        groupId,
+      });
+    }
+
+    if (inArrears.length) {
+      await this.auditService.log({
+        actorId,
+        actorType: actorId ? 'USER' : 'SYSTEM',
+        action: 'ARREARS_REMINDERS_SENT',
+        resourceType: 'GROUP',
+        resourceId: groupId,
+        groupId,
+        afterState: {
+          members: inArrears.map((m) => ({
+            memberId: m.memberId,
+            arrears: m.arrears.toFixed(2),
+          })),
+        },
+        outcome: 'SUCCESS',
+      });
+    }
+
+    return { remindersSent: inArrears.length };
+  }
+
+  private async buildGrid(
+    groupId: string,
+    from: Date,
+    to: Date,
+    asOf: Date,
+    sort?: ComplianceSort,
+    currentMembersOnly = false,
+  ) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'SAVINGS', deletedAt: null },
+      include: { savingsRules: true },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Savings group not found');
+    }
+
+    const rules = group.savingsRules;
+    if (!rules) {
+      throw new BadRequestException('This group has no savings rules');
+    }
+
+    const periods = listContributionPeriods(rules, from, to);
+    const first = periods[0];
+    const last = periods[periods.length - 1];
+
+    const [members, contributions, allocations, excusals] = await Promise.all([
+      this.prisma.groupMember.findMany({
+        where: {
+          groupId,
+          ...(currentMembersOnly
+            ? { status: 'ACTIVE', deletedAt: null }
+            : { status: { not: 'PENDING' } }),
+          joinedAt: { lte: last.dueDate },
+          OR: [{ leftAt: null }, { leftAt: { gte: first.periodStart } }],
+        },
+        select: {
+          userId: true,
+          joinedAt: true,
+          leftAt: true,
+          user: { select: { firstName: true, lastName: true } },
+        },
+      }),
+      this.prisma.contribution.findMany({
+        where: {
+          groupId,
+          status: 'PENDING',
+          deletedAt: null,
+          periodStart: { gte: first.periodStart, lte: last.periodEnd },
+        },
+        select: { id: true, memberId: true, periodStart: true, status: true },
+      }),
+      this.prisma.contributionAllocation.findMany({
+        where: { groupId, periodStart: { gte: first.periodStart, lte: last.periodEnd } },
+        select: {
+          contributionId: true,
+          memberId: true,
+          periodStart: true,
+          amount: true,
+          contribution: { select: { createdAt: true } },
+        },
+      }),
+      this.prisma.contributionExcusal.findMany({
+        where: { groupId, periodStart: { gte: first.periodStart, lte: last.periodEnd } },
+        select: { id: true, memberId: true, periodStart: true, reason: true },
+      }),
+    ]);
+
+    const monthlyAmount = new Decimal(rules.monthlyAmount.toString());
+    const rows = buildComplianceGrid({
+      periods,
+      members: members.map((m) => ({
+        userId: m.userId,
+        name: `${m.user.firstName} ${m.user.lastName}`,
+        joinedAt: m.joinedAt,
+        leftAt: m.leftAt,
+      })),
+      contributions,
+      allocations: allocations.map((a) => ({
+        contributionId: a.contributionId,
+        memberId: a.memberId,
+        periodStart: a.periodStart,
+        amount: new Decimal(a.amount.toString()),
+        paidAt: a.contribution.createdAt,
+      })),
+      excusals,
+      monthlyAmount,
+      asOf,
+      sort,
+    });
+
+    return {
+      groupName: group.name,
+      currency: group.currency,
+      monthlyAmount,
+      dueDay: rules.dueDay,
+      gracePeriodDays: rules.gracePeriodDays,
+      periods,
+      members: rows,
+      totalArrears: rows.reduce((sum, row) => sum.plus(row.arrears), new Decimal(0)),
+      membersInArrears: rows.filter((row) => row.arrears.greaterThan(0)).length,
+    };
+  }
+}
+
+function parseMonth(month: string): Date {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m - 1, 1));
+}
+
+function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
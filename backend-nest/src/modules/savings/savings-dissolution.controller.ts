@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { SavingsDissolutionService } from './savings-dissolution.service';
+import { ProposeDissolutionDto, DissolutionVoteDto } from './dto/dissolution.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { ChairpersonOnly, AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('savings')
+@Controller({ path: 'groups/:groupId/savings/dissolution', version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SavingsDissolutionController {
+  constructor(private readonly dissolutionService: SavingsDissolutionService) {}
+
+  @Get()
+  @AnyMember()
+  @ApiOperation({ summary: 'Get the latest dissolution proposal with votes' })
+  @ApiResponse({ status: 200, description: 'Dissolution details' })
+  findOne(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.dissolutionService.getDissolution(groupId);
+  }
+
+  @Post()
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Propose dissolving the group and open a member vote' })
+  @ApiResponse({ status: 201, description: 'Dissolution proposed' })
+  propose(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: ProposeDissolutionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.dissolutionService.proposeDissolution(groupId, dto, user.id);
+  }
+
+  @Post('vote')
+  @AnyMember()
+  @ApiOperation({ summary: 'Vote on the open dissolution proposal' })
+  @ApiResponse({ status: 201, description: 'Vote recorded' })
+  vote(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: DissolutionVoteDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.dissolutionService.vote(groupId, dto, user.id);
+  }
+
+  @Post('close')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Close voting after the deadline and record the result' })
+  @ApiResponse({ status: 201, description: 'Vote closed' })
+  close(@Param('groupId', ParseUUIDPipe) groupId: string, @CurrentUser() user: AuthUser) {
+    return this.dissolutionService.closeVoting(groupId, user.id);
+  }
+
+  @Post('cancel')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Withdraw the proposal and lift the contribution freeze' })
+  @ApiResponse({ status: 201, description: 'Dissolution cancelled' })
+  cancel(@Param('groupId', ParseUUIDPipe) groupId: string, @CurrentUser() user: AuthUser) {
+    return this.dissolutionService.cancelDissolution(groupId, user.id);
+  }
+
+  @Post('settle')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Raise the DISSOLUTION payout sharing out the whole pot' })
+  @ApiResponse({ status: 201, description: 'Settlement payout raised' })
+  settle(@Param('groupId', ParseUUIDPipe) groupId: string, @CurrentUser() user: AuthUser) {
+    return this.dissolutionService.settle(groupId, user.id);
+  }
+
+  @Post('complete')
+  @ChairpersonOnly()
+  @ApiOperation({ summary: 'Archive the group once the ledger is at zero' })
+  @ApiResponse({ status: 201, description: 'Group dissolved' })
+  complete(@Param('groupId', ParseUUIDPipe) groupId: string, @CurrentUser() user: AuthUser) {
+    return this.dissolutionService.completeDissolution(groupId, user.id);
+  }
+
+  @Get('statement')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get a final statement (own, or any member for treasurer/chair)' })
+  @ApiResponse({ status: 200, description: 'Final statement' })
+  @ApiQuery({ name: 'memberId', required: false })
+  statement(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @CurrentUser() user: AuthUser,
+    @Query('memberId') memberId?: string,
+  ) {
+    return this.dissolutionService.getStatement(groupId, memberId || user.id, user.id);
+  }
+}
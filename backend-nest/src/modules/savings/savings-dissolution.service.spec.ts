@@ -0,0 +1,258 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { SavingsDissolutionService } from './savings-dissolution.service';
+import { SavingsPayoutsService } from './savings-payouts.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('SavingsDissolutionService', () => {
+  let service: SavingsDissolutionService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    group: {
+      update: jest.fn(),
+    },
+    groupMember: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+    groupDissolution: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    groupDissolutionVote: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    dissolutionStatement: {
+      createMany: jest.fn(),
+    },
+    savingsPayout: {
+      count: jest.fn(),
+    },
+    savingsPayoutLine: {
+      groupBy: jest.fn(),
+    },
+    contribution: {
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    savingsFine: {
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    memberLoan: {
+      count: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    getBalance: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    sendBulk: jest.fn(),
+  };
+
+  const mockPayoutsService = {
+    createPayout: jest.fn(),
+  };
+
+  const dissolution = {
+    id: 'dissolution-1',
+    groupId: 'group-1',
+    quorumPercent: 50,
+    votingEndsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    group: { name: 'Umoja Savings', currency: 'ZAR', status: 'INACTIVE' },
+  };
+
+  const sums = (rows: Record<string, number>) =>
+    Object.entries(rows).map(([memberId, amount]) => ({
+      memberId,
+      _sum: { amount: new Prisma.Decimal(amount) },
+    }));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavingsDissolutionService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: SavingsPayoutsService, useValue: mockPayoutsService },
+      ],
+    }).compile();
+
+    service = module.get<SavingsDissolutionService>(SavingsDissolutionService);
+
+    jest.clearAllMocks();
+    mockPrismaService.groupMember.findMany.mockResolvedValue([
+      { userId: 'member-a' },
+      { userId: 'member-b' },
+      { userId: 'member-c' },
+    ]);
+    mockPrismaService.groupMember.count.mockResolvedValue(3);
+    mockPrismaService.savingsPayout.count.mockResolvedValue(0);
+    mockPrismaService.contribution.count.mockResolvedValue(0);
+    mockPrismaService.savingsFine.count.mockResolvedValue(0);
+    mockPrismaService.memberLoan.count.mockResolvedValue(0);
+    mockPrismaService.contribution.groupBy.mockResolvedValue([]);
+    mockPrismaService.savingsPayoutLine.groupBy.mockResolvedValue([]);
+    mockPrismaService.savingsFine.groupBy.mockResolvedValue([]);
+    jest.spyOn(service, 'getDissolution').mockResolvedValue({} as any);
+  });
+
+  describe('vote', () => {
+    it('should freeze the group once a majority approves', async () => {
+      mockPrismaService.groupDissolution.findFirst.mockResolvedValue({
+        ...dissolution,
+        status: 'VOTING',
+      });
+      mockPrismaService.groupDissolutionVote.findFirst.mockResolvedValue(null);
+      mockPrismaService.groupDissolutionVote.findMany.mockResolvedValue([
+        { decision: 'APPROVED' },
+        { decision: 'APPROVED' },
+      ]);
+
+      await service.vote('group-1', { decision: 'APPROVED' }, 'member-b');
+
+      expect(mockPrismaService.groupDissolution.update).toHaveBeenCalledWith({
+        where: { id: 'dissolution-1' },
+        data: expect.objectContaining({ status: 'APPROVED', frozenAt: expect.any(Date) }),
+      });
+      expect(mockPrismaService.group.update).toHaveBeenCalledWith({
+        where: { id: 'group-1' },
+        data: { status: 'INACTIVE' },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalled();
+    });
+
+    it('should reject a second vote from the same member', async () => {
+      mockPrismaService.groupDissolution.findFirst.mockResolvedValue({
+        ...dissolution,
+        status: 'VOTING',
+      });
+      mockPrismaService.groupDissolutionVote.findFirst.mockResolvedValue({ id: 'vote-1' });
+
+      await expect(service.vote('group-1', { decision: 'REJECTED' }, 'member-a')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.groupDissolutionVote.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settle', () => {
+    it('should pay out the whole balance in proportion to net contributions', async () => {
+      mockPrismaService.groupDissolution.findFirst.mockResolvedValue({
+        ...dissolution,
+        status: 'APPROVED',
+      });
+      mockLedgerService.getBalance.mockResolvedValue(new Decimal(1000));
+      mockPrismaService.contribution.groupBy.mockResolvedValue(
+        sums({ 'member-a': 600, 'member-b': 300, 'member-c': 100 }),
+      );
+      mockPrismaService.savingsPayoutLine.groupBy.mockResolvedValue(sums({ 'member-a': 200 }));
+      mockPayoutsService.createPayout.mockResolvedValue({ id: 'payout-1' });
+
+      await service.settle('group-1', 'chair-1');
+
+      expect(mockPayoutsService.createPayout).toHaveBeenCalledWith(
+        'group-1',
+        expect.objectContaining({
+          amount: 1000,
+          payoutType: 'DISSOLUTION',
+          distributionType: 'CUSTOM',
+          allocations: [
+            { memberId: 'member-a', amount: 500 },
+            { memberId: 'member-b', amount: 375 },
+            { memberId: 'member-c', amount: 125 },
+          ],
+        }),
+        'chair-1',
+        { dissolutionId: 'dissolution-1' },
+      );
+      expect(mockPrismaService.groupDissolution.update).toHaveBeenCalledWith({
+        where: { id: 'dissolution-1' },
+        data: { status: 'SETTLING' },
+      });
+    });
+
+    it('should refuse while contributions are pending', async () => {
+      mockPrismaService.groupDissolution.findFirst.mockResolvedValue({
+        ...dissolution,
+        status: 'APPROVED',
+      });
+      mockPrismaService.contribution.count.mockResolvedValue(2);
+
+      await expect(service.settle('group-1', 'chair-1')).rejects.toThrow(BadRequestException);
+      expect(mockPayoutsService.createPayout).not.toHaveBeenCalled();
+    });
+
+    it('should refuse while members have loans out', async () => {
+      mockPrismaService.groupDissolution.findFirst.mockResolvedValue({
+        ...dissolution,
+        status: 'APPROVED',
+      });
+      mockPrismaService.memberLoan.count.mockResolvedValue(1);
+      mockLedgerService.getBalance.mockResolvedValue(new Decimal(1000));
+
+      await expect(service.settle('group-1', 'chair-1')).rejects.toThrow(
+        'Recover or cancel member loans before settling the group',
+      );
+      expect(mockPayoutsService.createPayout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeDissolution', () => {
+    it('should refuse while money is left in the pot', async () => {
+      mockPrismaService.groupDissolution.findFirst.mockResolvedValue({
+        ...dissolution,
+        status: 'SETTLING',
+      });
+      mockLedgerService.getBalance.mockResolvedValue(new Decimal('0.01'));
+
+      await expect(service.completeDissolution('group-1', 'chair-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.group.update).not.toHaveBeenCalled();
+    });
+
+    it('should archive the group with a statement per member', async () => {
+      mockPrismaService.groupDissolution.findFirst.mockResolvedValue({
+        ...dissolution,
+        status: 'SETTLING',
+      });
+      mockLedgerService.getBalance.mockResolvedValue(new Decimal(0));
+      mockPrismaService.contribution.groupBy.mockResolvedValue(sums({ 'member-a': 600 }));
+      mockPrismaService.savingsPayoutLine.groupBy.mockResolvedValue(sums({ 'member-a': 650 }));
+
+      await service.completeDissolution('group-1', 'chair-1');
+
+      const { data } = mockPrismaService.dissolutionStatement.createMany.mock.calls[0][0];
+      expect(data).toHaveLength(3);
+      expect(data[0]).toEqual(
+        expect.objectContaining({
+          memberId: 'member-a',
+          totalContributed: new Prisma.Decimal(600),
+          finalShare: new Prisma.Decimal(650),
+          totalReceived: new Prisma.Decimal(0),
+        }),
+      );
+      expect(mockPrismaService.group.update).toHaveBeenCalledWith({
+        where: { id: 'group-1' },
+        data: { status: 'DISSOLVED' },
+      });
+    });
+  });
+});
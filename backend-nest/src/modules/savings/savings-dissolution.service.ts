@@ -0,0 +1,623 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { GroupDissolution, PayoutStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SavingsPayoutsService } from './savings-payouts.service';
+import { ProposeDissolutionDto, DissolutionVoteDto } from './dto/dissolution.dto';
+import { calculateDissolutionShares, tallyDissolutionVotes } from './dissolution';
+import { Decimal } from 'decimal.js';
+
+const DEFAULT_VOTING_DAYS = 14;
+const DEFAULT_QUORUM_PERCENT = 50;
+
+// Payouts that still have money in flight
+const OPEN_PAYOUT_STATUSES: PayoutStatus[] = ['PENDING', 'APPROVED', 'PROCESSING'];
+
+@Injectable()
+export class SavingsDissolutionService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
+    private payoutsService: SavingsPayoutsService,
+  ) {}
+
+  /**
+   * Chairperson proposes winding up the group; members then vote
+   */
+  async proposeDissolution(groupId: string, dto: ProposeDissolutionDto, userId: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'SAVINGS', deletedAt: null },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Savings group not found');
+    }
+
+    if (group.status !== 'ACTIVE') {
+      throw new BadRequestException(`Cannot dissolve a ${group.status.toLowerCase()} group`);
+    }
+
+    const open = await this.prisma.groupDissolution.findFirst({
+      where: { groupId, status: { in: ['VOTING', 'APPROVED', 'SETTLING'] } },
+    });
+    if (open) {
+      throw new BadRequestException('A dissolution is already in progress for this group');
+    }
+
+    const votingDays = dto.votingDays || DEFAULT_VOTING_DAYS;
+    const dissolution = await this.prisma.groupDissolution.create({
+      data: {
+        groupId,
+        reason: dto.reason,
+        quorumPercent: dto.quorumPercent || DEFAULT_QUORUM_PERCENT,
+        votingEndsAt: new Date(Date.now() + votingDays * 24 * 60 * 60 * 1000),
+        proposedById: userId,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'DISSOLUTION_PROPOSED',
+      resourceType: 'GROUP_DISSOLUTION',
+      resourceId: dissolution.id,
+      groupId,
+      afterState: {
+        reason: dto.reason,
+        quorumPercent: dissolution.quorumPercent,
+        votingEndsAt: dissolution.votingEndsAt,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notifyMembers(groupId, {
+      type: 'DISSOLUTION_PROPOSED',
+      title: 'Vote on dissolving the group',
+      body: `The chairperson has proposed dissolving ${group.name}. Please vote before ${dissolution.votingEndsAt.toISOString().split('T')[0]}.`,
+      data: { dissolutionId: dissolution.id },
+    });
+
+    return this.getDissolution(groupId);
+  }
+
+  /**
+   * Latest dissolution for a group with its votes and current tally
+   */
+  async getDissolution(groupId: string) {
+    const dissolution = await this.prisma.groupDissolution.findFirst({
+      where: { groupId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        proposedBy: { select: { id: true, firstName: true, lastName: true } },
+        votes: {
+          include: {
+            member: { select: { id: true, firstName: true, lastName: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        payouts: {
+          where: { deletedAt: null },
+          include: { lines: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!dissolution) {
+      throw new NotFoundException('No dissolution has been proposed for this group');
+    }
+
+    const eligible = await this.countEligibleVoters(groupId);
+    const approvals = dissolution.votes.filter((v) => v.decision === 'APPROVED').length;
+
+    return {
+      ...dissolution,
+      tally: {
+        eligible,
+        approvals,
+        rejections: dissolution.votes.length - approvals,
+        quorumPercent: dissolution.quorumPercent,
+      },
+    };
+  }
+
+  async vote(groupId: string, dto: DissolutionVoteDto, userId: string) {
+    const dissolution = await this.prisma.groupDissolution.findFirst({
+      where: { groupId, status: 'VOTING' },
+    });
+
+    if (!dissolution) {
+      throw new BadRequestException('There is no dissolution vote open for this group');
+    }
+
+    if (dissolution.votingEndsAt < new Date()) {
+      throw new BadRequestException('Voting on this proposal has closed');
+    }
+
+    const existing = await this.prisma.groupDissolutionVote.findFirst({
+      where: { dissolutionId: dissolution.id, memberId: userId },
+    });
+    if (existing) {
+      throw new BadRequestException('You have already voted on this proposal');
+    }
+
+    await this.prisma.groupDissolutionVote.create({
+      data: {
+        dissolutionId: dissolution.id,
+        memberId: userId,
+        decision: dto.decision,
+        comment: dto.comment,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'DISSOLUTION_VOTE_CAST',
+      resourceType: 'GROUP_DISSOLUTION',
+      resourceId: dissolution.id,
+      groupId,
+      afterState: { decision: dto.decision },
+      outcome: 'SUCCESS',
+    });
+
+    await this.resolveVote(dissolution, false, userId);
+
+    return this.getDissolution(groupId);
+  }
+
+  /**
+   * Close the vote once the deadline has passed (or everyone has voted)
+   */
+  async closeVoting(groupId: string, userId: string) {
+    const dissolution = await this.prisma.groupDissolution.findFirst({
+      where: { groupId, status: 'VOTING' },
+    });
+
+    if (!dissolution) {
+      throw new BadRequestException('There is no dissolution vote open for this group');
+    }
+
+    const [eligible, cast] = await Promise.all([
+      this.countEligibleVoters(groupId),
+      this.prisma.groupDissolutionVote.count({ where: { dissolutionId: dissolution.id } }),
+    ]);
+    if (dissolution.votingEndsAt > new Date() && cast < eligible) {
+      throw new BadRequestException(
+        `Voting is open until ${dissolution.votingEndsAt.toISOString()}`,
+      );
+    }
+
+    await this.resolveVote(dissolution, true, userId);
+
+    return this.getDissolution(groupId);
+  }
+
+  /**
+   * Withdraw a proposal before any money has been paid out, lifting the freeze
+   */
+  async cancelDissolution(groupId: string, userId: string) {
+    const dissolution = await this.prisma.groupDissolution.findFirst({
+      where: { groupId, status: { in: ['VOTING', 'APPROVED'] } },
+    });
+
+    if (!dissolution) {
+      throw new BadRequestException('There is no dissolution that can be cancelled');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.groupDissolution.update({
+        where: { id: dissolution.id },
+        data: { status: 'CANCELLED', cancelledAt: new Date() },
+      }),
+      ...(dissolution.status === 'APPROVED'
+        ? [this.prisma.group.update({ where: { id: groupId }, data: { status: 'ACTIVE' } })]
+        : []),
+    ]);
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'DISSOLUTION_CANCELLED',
+      resourceType: 'GROUP_DISSOLUTION',
+      resourceId: dissolution.id,
+      groupId,
+      beforeState: { status: dissolution.status },
+      afterState: { status: 'CANCELLED' },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getDissolution(groupId);
+  }
+
+  /**
+   * Raise a DISSOLUTION payout that shares the whole pot between members.
+   * Can be run again after a failed payout to settle whatever is left.
+   */
+  async settle(groupId: string, userId: string) {
+    const dissolution = await this.prisma.groupDissolution.findFirst({
+      where: { groupId, status: { in: ['APPROVED', 'SETTLING'] } },
+      include: { group: true },
+    });
+
+    if (!dissolution) {
+      throw new BadRequestException('Members have not approved a dissolution for this group');
+    }
+
+    const [openPayouts, pendingContributions, unresolvedFines, openLoans] = await Promise.all([
+      this.prisma.savingsPayout.count({
+        where: { groupId, deletedAt: null, status: { in: OPEN_PAYOUT_STATUSES } },
+      }),
+      this.prisma.contribution.count({
+        where: { groupId, deletedAt: null, status: 'PENDING' },
+      }),
+      this.prisma.savingsFine.count({
+        where: { groupId, status: { in: ['OUTSTANDING', 'DISPUTED'] } },
+      }),
+      this.prisma.memberLoan.count({
+        where: { groupId, status: { in: ['PENDING', 'APPROVED', 'ACTIVE'] } },
+      }),
+    ]);
+
+    if (openPayouts > 0) {
+      throw new BadRequestException('Finish or cancel open payouts before settling the group');
+    }
+    if (pendingContributions > 0) {
+      throw new BadRequestException(
+        'Approve or reject pending contributions before settling the group',
+      );
+    }
+    if (unresolvedFines > 0) {
+      throw new BadRequestException('Resolve outstanding fines before settling the group');
+    }
+    // Lent-out principal is not in the balance being shared out
+    if (openLoans > 0) {
+      throw new BadRequestException('Recover or cancel member loans before settling the group');
+    }
+
+    const balance = await this.ledgerService.getBalance(groupId);
+    if (!balance.times(100).isInteger()) {
+      throw new BadRequestException(
+        `Balance ${balance.toString()} is not a whole number of cents; post a correction before settling`,
+      );
+    }
+
+    let payout = null;
+    if (balance.greaterThan(0)) {
+      const members = await this.prisma.groupMember.findMany({
+        where: { groupId, status: 'ACTIVE', deletedAt: null },
+        select: { userId: true },
+      });
+      const history = await this.getMemberHistory(
+        groupId,
+        members.map((m) => m.userId),
+      );
+
+      const shares = calculateDissolutionShares(balance, history).filter((s) =>
+        s.amount.greaterThan(0),
+      );
+
+      payout = await this.payoutsService.createPayout(
+        groupId,
+        {
+          amount: balance.toNumber(),
+          currency: dissolution.group.currency,
+          payoutType: 'DISSOLUTION',
+          description: `Final settlement on dissolution of ${dissolution.group.name}`,
+          distributionType: 'CUSTOM',
+          allocations: shares.map((s) => ({ memberId: s.memberId, amount: s.amount.toNumber() })),
+        },
+        userId,
+        { dissolutionId: dissolution.id },
+      );
+    }
+
+    await this.prisma.groupDissolution.update({
+      where: { id: dissolution.id },
+      data: { status: 'SETTLING' },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'DISSOLUTION_SETTLEMENT_RAISED',
+      resourceType: 'GROUP_DISSOLUTION',
+      resourceId: dissolution.id,
+      groupId,
+      beforeState: { status: dissolution.status, balance: balance.toString() },
+      afterState: { status: 'SETTLING', payoutId: payout?.id },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getDissolution(groupId);
+  }
+
+  /**
+   * Archive the group once the settlement has been paid and the ledger is
+   * at zero, writing a final statement for every member
+   */
+  async completeDissolution(groupId: string, userId: string) {
+    const dissolution = await this.prisma.groupDissolution.findFirst({
+      where: { groupId, status: 'SETTLING' },
+      include: { group: true },
+    });
+
+    if (!dissolution) {
+      throw new BadRequestException('The group has not been settled yet');
+    }
+
+    const openPayouts = await this.prisma.savingsPayout.count({
+      where: { groupId, deletedAt: null, status: { in: OPEN_PAYOUT_STATUSES } },
+    });
+    if (openPayouts > 0) {
+      throw new BadRequestException('Settlement payouts are still being processed');
+    }
+
+    const balance = await this.ledgerService.getBalance(groupId);
+    if (!balance.isZero()) {
+      throw new BadRequestException(
+        `Ledger balance is ${balance.toFixed(2)}; settle the remaining balance before completing`,
+      );
+    }
+
+    const members = await this.prisma.groupMember.findMany({
+      where: { groupId, status: 'ACTIVE', deletedAt: null },
+      select: { userId: true },
+    });
+    const memberIds = members.map((m) => m.userId);
+
+    const [history, finalShares] = await Promise.all([
+      this.getMemberHistory(groupId, memberIds),
+      this.prisma.savingsPayoutLine.groupBy({
+        by: ['memberId'],
+        where: {
+          memberId: { in: memberIds },
+          status: 'PAID',
+          payout: { dissolutionId: dissolution.id },
+        },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const statements = history.map((h) => {
+      const finalShare = this.sumFor(finalShares, h.memberId);
+      return {
+        dissolutionId: dissolution.id,
+        memberId: h.memberId,
+        totalContributed: new Prisma.Decimal(h.contributed.toString()),
+        totalFinesPaid: new Prisma.Decimal(h.finesPaid.toString()),
+        totalReceived: new Prisma.Decimal(h.received.minus(finalShare).toString()),
+        finalShare: new Prisma.Decimal(finalShare.toString()),
+        currency: dissolution.group.currency,
+      };
+    });
+
+    const completedAt = new Date();
+    await this.prisma.$transaction([
+      this.prisma.dissolutionStatement.createMany({ data: statements }),
+      this.prisma.groupDissolution.update({
+        where: { id: dissolution.id },
+        data: { status: 'COMPLETED', completedAt },
+      }),
+      this.prisma.group.update({
+        where: { id: groupId },
+        data: { status: 'DISSOLVED' },
+      }),
+    ]);
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'GROUP_DISSOLVED',
+      resourceType: 'GROUP',
+      resourceId: groupId,
+      groupId,
+      beforeState: { status: dissolution.group.status },
+      afterState: { status: 'DISSOLVED', dissolutionId: dissolution.id },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notifyMembers(groupId, {
+      type: 'GROUP_DISSOLVED',
+      title: 'Group dissolved',
+      body: `${dissolution.group.name} has been dissolved. Your final statement is available.`,
+      data: { dissolutionId: dissolution.id },
+    });
+
+    return this.getDissolution(groupId);
+  }
+
+  /**
+   * Final statement for a member of a dissolved group. Members see their own;
+   * the treasurer and chairperson can see anyone's.
+   */
+  async getStatement(groupId: string, memberId: string, userId: string) {
+    if (memberId !== userId) {
+      const membership = await this.prisma.groupMember.findFirst({
+        where: {
+          groupId,
+          userId,
+          status: 'ACTIVE',
+          deletedAt: null,
+          role: { in: ['TREASURER', 'CHAIRPERSON'] },
+        },
+      });
+      if (!membership) {
+        throw new ForbiddenException('You can only view your own final statement');
+      }
+    }
+
+    const statement = await this.prisma.dissolutionStatement.findFirst({
+      where: {
+        memberId,
+        dissolution: { groupId, status: 'COMPLETED' },
+      },
+      include: {
+        member: { select: { id: true, firstName: true, lastName: true, email: true } },
+        dissolution: {
+          select: { id: true, reason: true, completedAt: true, group: { select: { name: true } } },
+        },
+      },
+    });
+
+    if (!statement) {
+      throw new NotFoundException('Final statement not found');
+    }
+
+    const payments = await this.prisma.savingsPayoutLine.findMany({
+      where: { memberId, payout: { dissolutionId: statement.dissolutionId } },
+      select: {
+        id: true,
+        payoutId: true,
+        amount: true,
+        status: true,
+        paymentMethod: true,
+        paymentReference: true,
+        paidAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { ...statement, payments };
+  }
+
+  private async resolveVote(dissolution: GroupDissolution, closed: boolean, actorId: string) {
+    const [eligible, votes] = await Promise.all([
+      this.countEligibleVoters(dissolution.groupId),
+      this.prisma.groupDissolutionVote.findMany({
+        where: { dissolutionId: dissolution.id },
+        select: { decision: true },
+      }),
+    ]);
+    const approvals = votes.filter((v) => v.decision === 'APPROVED').length;
+
+    const outcome = tallyDissolutionVotes(
+      {
+        eligible,
+        approvals,
+        rejections: votes.length - approvals,
+        quorumPercent: dissolution.quorumPercent,
+      },
+      closed,
+    );
+    if (outcome === 'OPEN') {
+      return;
+    }
+
+    const decidedAt = new Date();
+    if (outcome === 'APPROVED') {
+      // Freeze the group: no new contributions, fines or scheduled payouts
+      await this.prisma.$transaction([
+        this.prisma.groupDissolution.update({
+          where: { id: dissolution.id },
+          data: { status: 'APPROVED', decidedAt, frozenAt: decidedAt },
+        }),
+        this.prisma.group.update({
+          where: { id: dissolution.groupId },
+          data: { status: 'INACTIVE' },
+        }),
+      ]);
+    } else {
+      await this.prisma.groupDissolution.update({
+        where: { id: dissolution.id },
+        data: { status: 'REJECTED', decidedAt },
+      });
+    }
+
+    await this.auditService.log({
+      actorId,
+      actorType: 'USER',
+      action: outcome === 'APPROVED' ? 'DISSOLUTION_APPROVED' : 'DISSOLUTION_REJECTED',
+      resourceType: 'GROUP_DISSOLUTION',
+      resourceId: dissolution.id,
+      groupId: dissolution.groupId,
+      beforeState: { status: 'VOTING' },
+      afterState: { status: outcome, eligible, approvals, rejections: votes.length - approvals },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notifyMembers(dissolution.groupId, {
+      type: outcome === 'APPROVED' ? 'DISSOLUTION_APPROVED' : 'DISSOLUTION_REJECTED',
+      title: outcome === 'APPROVED' ? 'Dissolution approved' : 'Dissolution rejected',
+      body:
+        outcome === 'APPROVED'
+          ? 'Members voted to dissolve the group. Contributions are now frozen while the pot is shared out.'
+          : 'Members voted against dissolving the group.',
+      data: { dissolutionId: dissolution.id },
+    });
+  }
+
+  /**
+   * What each member has paid in and taken out of the pot so far
+   */
+  private async getMemberHistory(groupId: string, memberIds: string[]) {
+    const [contributed, received, fines] = await Promise.all([
+      this.prisma.contribution.groupBy({
+        by: ['memberId'],
+        where: { groupId, memberId: { in: memberIds }, status: 'APPROVED', deletedAt: null },
+        _sum: { amount: true },
+      }),
+      this.prisma.savingsPayoutLine.groupBy({
+        by: ['memberId'],
+        where: {
+          memberId: { in: memberIds },
+          status: 'PAID',
+          payout: { groupId, deletedAt: null },
+        },
+        _sum: { amount: true },
+      }),
+      this.prisma.savingsFine.groupBy({
+        by: ['memberId'],
+        where: { groupId, memberId: { in: memberIds }, status: 'PAID' },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return [...memberIds].sort().map((memberId) => ({
+      memberId,
+      contributed: this.sumFor(contributed, memberId),
+      received: this.sumFor(received, memberId),
+      finesPaid: this.sumFor(fines, memberId),
+    }));
+  }
+
+  private sumFor(
+    rows: Array<{ memberId: string; _sum: { amount: Prisma.Decimal | null } }>,
+    memberId: string,
+  ): Decimal {
+    const row = rows.find((r) => r.memberId === memberId);
+    return new Decimal(row?._sum.amount?.toString() || 0);
+  }
+
+  private async countEligibleVoters(groupId: string) {
+    return this.prisma.groupMember.count({
+      where: { groupId, status: 'ACTIVE', deletedAt: null },
+    });
+  }
+
+  private async notifyMembers(
+    groupId: string,
+    message: { type: string; title: string; body: string; data: Record<string, any> },
+  ) {
+    const members = await this.prisma.groupMember.findMany({
+      where: { groupId, status: 'ACTIVE', deletedAt: null },
+      select: { userId: true },
+    });
+
+    await this.notificationsService.sendBulk({
+      userIds: members.map((m) => m.userId),
+      channels: ['IN_APP', 'EMAIL'],
+      groupId,
+      ...message,
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { SavingsExitsService } from './savings-exits.service';
+import { StartMemberExitDto, WaiveExitSettlementDto } from './dto/member-exit.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('savings')
+@Controller({ version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SavingsExitsController {
+  constructor(private readonly exitsService: SavingsExitsService) {}
+
+  @Get('groups/:groupId/savings/exits')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get member exit settlements for a group' })
+  @ApiResponse({ status: 200, description: 'Exit settlements list' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  findAll(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.exitsService.getSettlements(groupId, { status, limit, offset });
+  }
+
+  @Post('groups/:groupId/savings/exits')
+  @AnyMember()
+  @ApiOperation({ summary: 'Start leaving the group and work out the refund' })
+  @ApiResponse({ status: 201, description: 'Exit settlement created' })
+  start(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: StartMemberExitDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.exitsService.startExit(groupId, dto, user.id);
+  }
+
+  @Get('savings/exits/:settlementId')
+  @ApiOperation({ summary: 'Get exit settlement details' })
+  @ApiResponse({ status: 200, description: 'Exit settlement details' })
+  findOne(
+    @Param('settlementId', ParseUUIDPipe) settlementId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.exitsService.getSettlement(settlementId, user.id);
+  }
+
+  @Post('savings/exits/:settlementId/payout')
+  @ApiOperation({ summary: 'Raise the refund payout once it is payable' })
+  @ApiResponse({ status: 200, description: 'Exit payout raised' })
+  raisePayout(
+    @Param('settlementId', ParseUUIDPipe) settlementId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.exitsService.raisePayout(settlementId, user.id);
+  }
+
+  @Post('savings/exits/:settlementId/waive')
+  @ApiOperation({ summary: 'Waive the refund so the member can be removed (chairperson)' })
+  @ApiResponse({ status: 200, description: 'Exit settlement waived' })
+  waive(
+    @Param('settlementId', ParseUUIDPipe) settlementId: string,
+    @Body() dto: WaiveExitSettlementDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.exitsService.waiveSettlement(settlementId, dto, user.id);
+  }
+
+  @Post('savings/exits/:settlementId/cancel')
+  @ApiOperation({ summary: 'Cancel an exit before the refund payout is raised' })
+  @ApiResponse({ status: 200, description: 'Exit cancelled' })
+  cancel(
+    @Param('settlementId', ParseUUIDPipe) settlementId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.exitsService.cancelSettlement(settlementId, user.id);
+  }
+}
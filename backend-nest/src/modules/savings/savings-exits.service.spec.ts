@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { SavingsExitsService } from './savings-exits.service';
+import { SavingsPayoutsService } from './savings-payouts.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('SavingsExitsService', () => {
+  let service: SavingsExitsService;
+
+  const mockPrismaService = {
+    group: {
+      findFirst: jest.fn(),
+    },
+    groupMember: {
+      findFirst: jest.fn(),
+    },
+    memberExitSettlement: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    contribution: {
+      aggregate: jest.fn(),
+    },
+    savingsPayoutLine: {
+      aggregate: jest.fn(),
+    },
+    memberLoan: {
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    getBalance: jest.fn(),
+    getMemberBalance: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    send: jest.fn(),
+  };
+
+  const mockPayoutsService = {
+    createPayout: jest.fn(),
+  };
+
+  const groupWithPolicy = (exitPolicy: string, exitPenaltyPercent?: number) => ({
+    id: 'group-1',
+    name: 'Umoja Savings',
+    currency: 'ZAR',
+    savingsRules: {
+      exitPolicy,
+      exitPenaltyPercent:
+        exitPenaltyPercent === undefined ? null : new Prisma.Decimal(exitPenaltyPercent),
+    },
+  });
+
+  const sum = (amount: number | null) => ({
+    _sum: { amount: amount === null ? null : new Prisma.Decimal(amount) },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavingsExitsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: SavingsPayoutsService, useValue: mockPayoutsService },
+      ],
+    }).compile();
+
+    service = module.get<SavingsExitsService>(SavingsExitsService);
+
+    jest.clearAllMocks();
+    mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'MEMBER' });
+    mockPrismaService.memberExitSettlement.findFirst.mockResolvedValue(null);
+    mockPrismaService.memberExitSettlement.create.mockImplementation(({ data }) => ({
+      id: 'settlement-1',
+      ...data,
+    }));
+    mockPrismaService.contribution.aggregate.mockResolvedValue(sum(3000));
+    mockPrismaService.savingsPayoutLine.aggregate.mockResolvedValue(sum(null));
+    mockPrismaService.memberLoan.count.mockResolvedValue(0);
+    mockLedgerService.getMemberBalance.mockResolvedValue(new Decimal(3000));
+    mockLedgerService.getBalance.mockResolvedValue(new Decimal(20000));
+    jest.spyOn(service, 'getSettlement').mockResolvedValue({} as any);
+    mockPrismaService.$transaction.mockImplementation((fn) => fn(mockPrismaService));
+  });
+
+  describe('startExit', () => {
+    it('should not let a member with a loan still out leave', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(groupWithPolicy('FULL_REFUND'));
+      mockPrismaService.memberLoan.count.mockResolvedValue(1);
+
+      await expect(service.startExit('group-1', {}, 'member-1')).rejects.toThrow(
+        'Repay or cancel outstanding loans before leaving the group',
+      );
+      expect(mockPrismaService.memberLoan.count).toHaveBeenCalledWith({
+        where: {
+          groupId: 'group-1',
+          memberId: 'member-1',
+          status: { in: ['PENDING', 'APPROVED', 'ACTIVE'] },
+        },
+      });
+      expect(mockPrismaService.memberExitSettlement.create).not.toHaveBeenCalled();
+    });
+
+    it('should check for an exit in progress in the transaction that starts the new one', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(groupWithPolicy('FULL_REFUND'));
+      mockPrismaService.memberExitSettlement.findFirst.mockResolvedValue({
+        id: 'settlement-0',
+        status: 'PENDING',
+      });
+
+      await expect(service.startExit('group-1', {}, 'member-1')).rejects.toThrow(
+        'This member already has an exit in progress',
+      );
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+      expect(mockPrismaService.memberExitSettlement.create).not.toHaveBeenCalled();
+    });
+
+    it('should raise a payout for the refund less penalty', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(
+        groupWithPolicy('REFUND_LESS_PENALTY', 10),
+      );
+      const raise = jest.spyOn(service, 'raisePayout').mockResolvedValue({} as any);
+
+      await service.startExit('group-1', {}, 'member-1');
+
+      expect(mockPrismaService.memberExitSettlement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          memberId: 'member-1',
+          status: 'PENDING',
+          penaltyAmount: new Prisma.Decimal(300),
+          refundAmount: new Prisma.Decimal(2700),
+          payableFrom: null,
+        }),
+      });
+      expect(raise).toHaveBeenCalledWith('settlement-1', 'member-1');
+    });
+
+    it('should hold the refund until year end when forfeited', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(
+        groupWithPolicy('FORFEIT_UNTIL_YEAR_END'),
+      );
+      const raise = jest.spyOn(service, 'raisePayout');
+
+      await service.startExit('group-1', {}, 'member-1');
+
+      expect(mockPrismaService.memberExitSettlement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'PENDING', payableFrom: expect.any(Date) }),
+      });
+      expect(raise).not.toHaveBeenCalled();
+    });
+
+    it('should settle straight away when nothing is owed', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(groupWithPolicy('FULL_REFUND'));
+      mockPrismaService.contribution.aggregate.mockResolvedValue(sum(null));
+      mockLedgerService.getMemberBalance.mockResolvedValue(new Decimal(0));
+      const raise = jest.spyOn(service, 'raisePayout');
+
+      await service.startExit('group-1', {}, 'member-1');
+
+      expect(mockPrismaService.memberExitSettlement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'SETTLED', refundAmount: new Prisma.Decimal(0) }),
+      });
+      expect(raise).not.toHaveBeenCalled();
+    });
+
+    it('should not let the chairperson leave', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(groupWithPolicy('FULL_REFUND'));
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'CHAIRPERSON' });
+
+      await expect(service.startExit('group-1', {}, 'chair-1')).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('raisePayout', () => {
+    it('should create a MEMBER_EXIT payout for the leaving member only', async () => {
+      mockPrismaService.memberExitSettlement.findFirst.mockResolvedValue({
+        id: 'settlement-1',
+        groupId: 'group-1',
+        memberId: 'member-1',
+        requestedById: 'member-1',
+        status: 'PENDING',
+        refundAmount: new Prisma.Decimal(2700),
+        currency: 'ZAR',
+        payableFrom: null,
+        member: { firstName: 'Thandi', lastName: 'Nkosi' },
+      });
+      mockPayoutsService.createPayout.mockResolvedValue({ id: 'payout-1' });
+
+      await service.raisePayout('settlement-1', 'member-1');
+
+      expect(mockPayoutsService.createPayout).toHaveBeenCalledWith(
+        'group-1',
+        expect.objectContaining({
+          amount: 2700,
+          payoutType: 'MEMBER_EXIT',
+          targetMembers: ['member-1'],
+          allocations: [{ memberId: 'member-1', amount: 2700 }],
+        }),
+        'member-1',
+        { memberExit: true },
+      );
+      expect(mockPrismaService.memberExitSettlement.update).toHaveBeenCalledWith({
+        where: { id: 'settlement-1' },
+        data: { status: 'PAYOUT_RAISED', payoutId: 'payout-1' },
+      });
+    });
+
+    it('should refuse before the refund is payable', async () => {
+      mockPrismaService.memberExitSettlement.findFirst.mockResolvedValue({
+        id: 'settlement-1',
+        groupId: 'group-1',
+        requestedById: 'member-1',
+        status: 'PENDING',
+        payableFrom: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      });
+
+      await expect(service.raisePayout('settlement-1', 'member-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPayoutsService.createPayout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waiveSettlement', () => {
+    it('should not waive while a payout is in flight', async () => {
+      mockPrismaService.memberExitSettlement.findFirst.mockResolvedValue({
+        id: 'settlement-1',
+        groupId: 'group-1',
+        status: 'PAYOUT_RAISED',
+      });
+
+      await expect(
+        service.waiveSettlement('settlement-1', { reason: 'Stays in the pot' }, 'chair-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
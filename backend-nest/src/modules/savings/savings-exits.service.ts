@@ -0,0 +1,412 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { MemberRole, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SavingsPayoutsService } from './savings-payouts.service';
+import { StartMemberExitDto, WaiveExitSettlementDto } from './dto/member-exit.dto';
+import { calculateExitRefund } from './member-exit';
+import { Decimal } from 'decimal.js';
+
+@Injectable()
+export class SavingsExitsService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
+    private payoutsService: SavingsPayoutsService,
+  ) {}
+
+  /**
+   * Work out a leaving member's refund under the group's exit policy and,
+   * when it is payable now, raise the MEMBER_EXIT payout for it
+   */
+  async startExit(groupId: string, dto: StartMemberExitDto, userId: string) {
+    const memberId = dto.memberId || userId;
+    if (memberId !== userId) {
+      await this.requireRole(
+        groupId,
+        userId,
+        ['TREASURER', 'CHAIRPERSON'],
+        'Only treasurer or chairperson can start an exit for another member',
+      );
+    }
+
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'SAVINGS', deletedAt: null },
+      include: { savingsRules: true },
+    });
+
+    if (!group || !group.savingsRules) {
+      throw new NotFoundException('Savings group not found');
+    }
+
+    const membership = await this.prisma.groupMember.findFirst({
+      where: { groupId, userId: memberId, status: 'ACTIVE', deletedAt: null },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('Member not found');
+    }
+
+    if (membership.role === 'CHAIRPERSON') {
+      throw new ForbiddenException('Transfer the chairperson role before leaving the group');
+    }
+
+    // The refund is the member's share of the pot, which a loan still out
+    // has not been paid back into
+    const loans = await this.prisma.memberLoan.count({
+      where: { groupId, memberId, status: { in: ['PENDING', 'APPROVED', 'ACTIVE'] } },
+    });
+    if (loans > 0) {
+      throw new BadRequestException('Repay or cancel outstanding loans before leaving the group');
+    }
+
+    const [contributed, received, equity, balance] = await Promise.all([
+      this.prisma.contribution.aggregate({
+        where: { groupId, memberId, status: 'APPROVED', deletedAt: null },
+        _sum: { amount: true },
+      }),
+      this.prisma.savingsPayoutLine.aggregate({
+        where: { memberId, status: 'PAID', payout: { groupId, deletedAt: null } },
+        _sum: { amount: true },
+      }),
+      this.ledgerService.getMemberBalance(groupId, memberId),
+      this.ledgerService.getBalance(groupId),
+    ]);
+
+    const { exitPolicy } = group.savingsRules;
+    const now = new Date();
+    const result = calculateExitRefund({
+      policy: exitPolicy,
+      penaltyPercent: group.savingsRules.exitPenaltyPercent?.toString(),
+      equity,
+      balance,
+      asOf: now,
+    });
+
+    // Nothing to pay back means nothing to settle
+    const settled = result.refund.isZero();
+
+    // Serializable, so two requests cannot both find no exit in progress
+    const settlement = await this.prisma.$transaction(
+      async (tx) => {
+        const open = await tx.memberExitSettlement.findFirst({
+          where: { groupId, memberId, status: { in: ['PENDING', 'PAYOUT_RAISED'] } },
+        });
+        if (open) {
+          throw new BadRequestException('This member already has an exit in progress');
+        }
+
+        return tx.memberExitSettlement.create({
+          data: {
+            groupId,
+            memberId,
+            status: settled ? 'SETTLED' : 'PENDING',
+            exitPolicy,
+            totalContributed: new Prisma.Decimal(contributed._sum.amount?.toString() || 0),
+            totalReceived: new Prisma.Decimal(received._sum.amount?.toString() || 0),
+            penaltyAmount: new Prisma.Decimal(result.penalty.toString()),
+            refundAmount: new Prisma.Decimal(result.refund.toString()),
+            currency: group.currency,
+            payableFrom: result.payableFrom,
+            requestedById: userId,
+            resolvedById: settled ? userId : null,
+            resolvedAt: settled ? now : null,
+          },
+        });
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'MEMBER_EXIT_STARTED',
+      resourceType: 'MEMBER_EXIT_SETTLEMENT',
+      resourceId: settlement.id,
+      groupId,
+      afterState: {
+        memberId,
+        exitPolicy: settlement.exitPolicy,
+        refundable: result.refundable.toString(),
+        penalty: result.penalty.toString(),
+        refund: result.refund.toString(),
+        payableFrom: result.payableFrom,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notificationsService.send({
+      userId: memberId,
+      type: 'MEMBER_EXIT_STARTED',
+      channels: ['IN_APP', 'EMAIL'],
+      title: 'Your exit from the group',
+      body: settled
+        ? `You have nothing left to be refunded by ${group.name}.`
+        : `You will be refunded ${group.currency} ${result.refund.toFixed(2)} by ${group.name}${
+            result.payableFrom
+              ? ` from ${result.payableFrom.toISOString().split('T')[0]}`
+              : ' once the payout is approved'
+          }.`,
+      data: { settlementId: settlement.id, refund: result.refund.toFixed(2) },
+      groupId,
+    });
+
+    if (!settled && !result.payableFrom) {
+      return this.raisePayout(settlement.id, userId);
+    }
+
+    return this.getSettlement(settlement.id, userId);
+  }
+
+  async getSettlements(
+    groupId: string,
+    options: { status?: string; limit?: number; offset?: number } = {},
+  ) {
+    const { status, limit = 50, offset = 0 } = options;
+
+    const where = {
+      groupId,
+      ...(status && { status: status as any }),
+    };
+
+    const [settlements, total] = await Promise.all([
+      this.prisma.memberExitSettlement.findMany({
+        where,
+        include: {
+          member: { select: { id: true, firstName: true, lastName: true } },
+          payout: { select: { id: true, status: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.memberExitSettlement.count({ where }),
+    ]);
+
+    return { settlements, total, limit, offset };
+  }
+
+  async getSettlement(settlementId: string, userId: string) {
+    const settlement = await this.prisma.memberExitSettlement.findFirst({
+      where: { id: settlementId },
+      include: {
+        member: { select: { id: true, firstName: true, lastName: true, email: true } },
+        payout: { include: { lines: true } },
+      },
+    });
+
+    if (!settlement) {
+      throw new NotFoundException('Exit settlement not found');
+    }
+
+    await this.requireRole(
+      settlement.groupId,
+      userId,
+      ['MEMBER', 'TREASURER', 'SECRETARY', 'CHAIRPERSON'],
+      'You are not a member of this group',
+    );
+
+    return settlement;
+  }
+
+  /**
+   * Raise the MEMBER_EXIT payout for a pending settlement once it is payable.
+   * The payout then follows the normal approval and disbursement steps.
+   */
+  async raisePayout(settlementId: string, userId: string) {
+    const settlement = await this.prisma.memberExitSettlement.findFirst({
+      where: { id: settlementId },
+      include: { member: { select: { firstName: true, lastName: true } } },
+    });
+
+    if (!settlement) {
+      throw new NotFoundException('Exit settlement not found');
+    }
+
+    if (settlement.requestedById !== userId) {
+      await this.requireRole(
+        settlement.groupId,
+        userId,
+        ['TREASURER', 'CHAIRPERSON'],
+        'Only treasurer or chairperson can raise exit payouts',
+      );
+    }
+
+    if (settlement.status !== 'PENDING') {
+      throw new BadRequestException(
+        `Exit settlement is already ${settlement.status.toLowerCase().replace('_', ' ')}`,
+      );
+    }
+
+    if (settlement.payableFrom && settlement.payableFrom > new Date()) {
+      throw new BadRequestException(
+        `Refund is payable from ${settlement.payableFrom.toISOString().split('T')[0]}`,
+      );
+    }
+
+    const amount = new Decimal(settlement.refundAmount.toString());
+    const payout = await this.payoutsService.createPayout(
+      settlement.groupId,
+      {
+        amount: amount.toNumber(),
+        currency: settlement.currency,
+        payoutType: 'MEMBER_EXIT',
+        description: `Exit refund for ${settlement.member.firstName} ${settlement.member.lastName}`,
+        targetMembers: [settlement.memberId],
+        distributionType: 'CUSTOM',
+        allocations: [{ memberId: settlement.memberId, amount: amount.toNumber() }],
+      },
+      userId,
+      { memberExit: true },
+    );
+
+    await this.prisma.memberExitSettlement.update({
+      where: { id: settlementId },
+      data: { status: 'PAYOUT_RAISED', payoutId: payout.id },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'MEMBER_EXIT_PAYOUT_RAISED',
+      resourceType: 'MEMBER_EXIT_SETTLEMENT',
+      resourceId: settlementId,
+      groupId: settlement.groupId,
+      beforeState: { status: 'PENDING' },
+      afterState: { status: 'PAYOUT_RAISED', payoutId: payout.id, amount: amount.toString() },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getSettlement(settlementId, userId);
+  }
+
+  /**
+   * Chairperson waives the refund so the member can be removed without a payout
+   */
+  async waiveSettlement(settlementId: string, dto: WaiveExitSettlementDto, userId: string) {
+    const settlement = await this.prisma.memberExitSettlement.findFirst({
+      where: { id: settlementId },
+    });
+
+    if (!settlement) {
+      throw new NotFoundException('Exit settlement not found');
+    }
+
+    await this.requireRole(
+      settlement.groupId,
+      userId,
+      ['CHAIRPERSON'],
+      'Only the chairperson can waive an exit settlement',
+    );
+
+    if (settlement.status !== 'PENDING') {
+      throw new BadRequestException(
+        settlement.status === 'PAYOUT_RAISED'
+          ? 'Cancel or reject the exit payout before waiving the settlement'
+          : `Exit settlement is already ${settlement.status.toLowerCase()}`,
+      );
+    }
+
+    await this.prisma.memberExitSettlement.update({
+      where: { id: settlementId },
+      data: {
+        status: 'WAIVED',
+        waiverReason: dto.reason,
+        resolvedById: userId,
+        resolvedAt: new Date(),
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'MEMBER_EXIT_WAIVED',
+      resourceType: 'MEMBER_EXIT_SETTLEMENT',
+      resourceId: settlementId,
+      groupId: settlement.groupId,
+      beforeState: { status: 'PENDING', refundAmount: settlement.refundAmount.toString() },
+      afterState: { status: 'WAIVED', reason: dto.reason },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getSettlement(settlementId, userId);
+  }
+
+  /**
+   * Member changed their mind; only possible before a payout is raised
+   */
+  async cancelSettlement(settlementId: string, userId: string) {
+    const settlement = await this.prisma.memberExitSettlement.findFirst({
+      where: { id: settlementId },
+    });
+
+    if (!settlement) {
+      throw new NotFoundException('Exit settlement not found');
+    }
+
+    if (settlement.memberId !== userId) {
+      await this.requireRole(
+        settlement.groupId,
+        userId,
+        ['CHAIRPERSON'],
+        'Only the leaving member or chairperson can cancel an exit',
+      );
+    }
+
+    if (settlement.status !== 'PENDING') {
+      throw new BadRequestException(
+        settlement.status === 'PAYOUT_RAISED'
+          ? 'Cancel or reject the exit payout first'
+          : `Exit settlement is already ${settlement.status.toLowerCase()}`,
+      );
+    }
+
+    await this.prisma.memberExitSettlement.update({
+      where: { id: settlementId },
+      data: { status: 'CANCELLED', resolvedById: userId, resolvedAt: new Date() },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'MEMBER_EXIT_CANCELLED',
+      resourceType: 'MEMBER_EXIT_SETTLEMENT',
+      resourceId: settlementId,
+      groupId: settlement.groupId,
+      beforeState: { status: 'PENDING' },
+      afterState: { status: 'CANCELLED' },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getSettlement(settlementId, userId);
+  }
+
+  private async requireRole(groupId: string, userId: string, roles: MemberRole[], message: string) {
+    const membership = await this.prisma.groupMember.findFirst({
+      where: {
+        groupId,
+        userId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        role: { in: roles },
+      },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException(message);
+    }
+
+    return membership;
+  }
+}
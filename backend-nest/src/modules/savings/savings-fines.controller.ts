@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { SavingsFinesService } from './savings-fines.service';
+import {
+  PayFineDto,
+  WaiveFineDto,
+  DisputeFineDto,
+  ResolveFineDisputeDto,
+} from './dto/savings-fine.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { TreasurerOrHigher, AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('savings')
+@Controller({ version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SavingsFinesController {
+  constructor(private readonly finesService: SavingsFinesService) {}
+
+  @Get('groups/:groupId/savings/fines')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get late-payment fines for a group' })
+  @ApiResponse({ status: 200, description: 'Fines list' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'memberId', required: false })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  findAll(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('status') status?: string,
+    @Query('memberId') memberId?: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.finesService.getFines(groupId, { status, memberId, limit, offset });
+  }
+
+  @Post('groups/:groupId/savings/fines/assess')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Raise fines for the latest period past its grace deadline' })
+  @ApiResponse({ status: 201, description: 'Fines raised' })
+  assess(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.finesService.assessGroupFines(groupId, new Date(), user.id);
+  }
+
+  @Get('savings/fines/:fineId')
+  @ApiOperation({ summary: 'Get fine details' })
+  @ApiResponse({ status: 200, description: 'Fine details' })
+  findOne(
+    @Param('fineId', ParseUUIDPipe) fineId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.finesService.getFine(fineId, user.id);
+  }
+
+  @Post('savings/fines/:fineId/pay')
+  @ApiOperation({ summary: 'Record payment of a fine and credit the ledger' })
+  @ApiResponse({ status: 200, description: 'Fine marked as paid' })
+  pay(
+    @Param('fineId', ParseUUIDPipe) fineId: string,
+    @Body() dto: PayFineDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.finesService.payFine(fineId, dto, user.id);
+  }
+
+  @Post('savings/fines/:fineId/waive')
+  @ApiOperation({ summary: 'Waive a fine (chairperson)' })
+  @ApiResponse({ status: 200, description: 'Fine waived' })
+  waive(
+    @Param('fineId', ParseUUIDPipe) fineId: string,
+    @Body() dto: WaiveFineDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.finesService.waiveFine(fineId, dto, user.id);
+  }
+
+  @Post('savings/fines/:fineId/dispute')
+  @ApiOperation({ summary: 'Dispute a fine' })
+  @ApiResponse({ status: 200, description: 'Fine marked as disputed' })
+  dispute(
+    @Param('fineId', ParseUUIDPipe) fineId: string,
+    @Body() dto: DisputeFineDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.finesService.disputeFine(fineId, dto, user.id);
+  }
+
+  @Post('savings/fines/:fineId/resolve')
+  @ApiOperation({ summary: 'Resolve a disputed fine (chairperson)' })
+  @ApiResponse({ status: 200, description: 'Dispute resolved' })
+  resolve(
+    @Param('fineId', ParseUUIDPipe) fineId: string,
+    @Body() dto: ResolveFineDisputeDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.finesService.resolveDispute(fineId, dto, user.id);
+  }
+}
@@ -0,0 +1,378 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SavingsFinesService } from './savings-fines.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('SavingsFinesService', () => {
+  let service: SavingsFinesService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    group: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    groupMember: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    savingsFine: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    contributionExcusal: {
+      findMany: jest.fn(),
+    },
+    contributionAllocation: {
+      groupBy: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    appendFineCredit: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    send: jest.fn(),
+  };
+
+  const rules = {
+    monthlyAmount: new Prisma.Decimal(500),
+    dueDay: 5,
+    gracePeriodDays: 7,
+    fineEnabled: true,
+    fineAmount: new Prisma.Decimal(50),
+    fineType: 'FLAT',
+  };
+
+  const mockGroup = {
+    id: 'group-1',
+    name: 'Umoja Savings',
+    currency: 'ZAR',
+    status: 'ACTIVE',
+    savingsRules: rules,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavingsFinesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<SavingsFinesService>(SavingsFinesService);
+
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((fn) => fn(mockPrismaService));
+    mockPrismaService.contributionExcusal.findMany.mockResolvedValue([]);
+    mockPrismaService.contributionAllocation.groupBy.mockResolvedValue([]);
+  });
+
+  describe('getLatestClosedPeriod', () => {
+    it('should use the previous month while the grace period is still running', () => {
+      const period = service.getLatestClosedPeriod(rules, new Date('2026-03-12T10:00:00Z'));
+
+      expect(period.periodStart).toEqual(new Date('2026-02-01T00:00:00Z'));
+      expect(period.periodEnd).toEqual(new Date('2026-02-28T00:00:00Z'));
+    });
+
+    it('should use the current month once the grace period has ended', () => {
+      const period = service.getLatestClosedPeriod(rules, new Date('2026-03-13T00:00:00Z'));
+
+      expect(period.periodStart).toEqual(new Date('2026-03-01T00:00:00Z'));
+      expect(period.dueDate).toEqual(new Date('2026-03-05T00:00:00Z'));
+      expect(period.graceEndsAt).toEqual(new Date('2026-03-13T00:00:00Z'));
+    });
+
+    it('should clamp the due day to the end of short months', () => {
+      const period = service.getLatestClosedPeriod(
+        { dueDay: 31, gracePeriodDays: 0 },
+        new Date('2026-03-15T00:00:00Z'),
+      );
+
+      expect(period.dueDate).toEqual(new Date('2026-02-28T00:00:00Z'));
+    });
+  });
+
+  describe('calculateFineAmount', () => {
+    it('should use the flat amount for FLAT fines', () => {
+      expect(service.calculateFineAmount(rules as any).toString()).toBe('50');
+    });
+
+    it('should take a percentage of the monthly amount for PERCENTAGE fines', () => {
+      const amount = service.calculateFineAmount({
+        ...rules,
+        fineType: 'PERCENTAGE',
+        fineAmount: new Prisma.Decimal(12.5),
+      } as any);
+
+      expect(amount.toString()).toBe('62.5');
+    });
+  });
+
+  describe('assessGroupFines', () => {
+    const asOf = new Date('2026-03-20T00:00:00Z');
+
+    it('should fine only members who have not paid in full or been fined', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(mockGroup);
+      mockPrismaService.groupMember.findMany.mockResolvedValue([
+        { userId: 'user-paid' },
+        { userId: 'user-fined' },
+        { userId: 'user-late' },
+      ]);
+      mockPrismaService.contributionAllocation.groupBy.mockResolvedValue([
+        { memberId: 'user-paid', _sum: { amount: new Prisma.Decimal(500) } },
+      ]);
+      mockPrismaService.savingsFine.findMany.mockResolvedValue([{ memberId: 'user-fined' }]);
+      mockPrismaService.savingsFine.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'fine-1', ...data }),
+      );
+
+      const fines = await service.assessGroupFines('group-1', asOf);
+
+      expect(fines).toHaveLength(1);
+      expect(mockPrismaService.savingsFine.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          memberId: 'user-late',
+          periodStart: new Date('2026-03-01T00:00:00Z'),
+          fineType: 'FLAT',
+        }),
+      });
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-late', type: 'FINE_RAISED' }),
+      );
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'FINE_RAISED', actorType: 'SYSTEM' }),
+      );
+    });
+
+    it('should fine a member whose instalments fall short of the monthly amount', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(mockGroup);
+      mockPrismaService.groupMember.findMany.mockResolvedValue([{ userId: 'user-partial' }]);
+      mockPrismaService.contributionAllocation.groupBy.mockResolvedValue([
+        { memberId: 'user-partial', _sum: { amount: new Prisma.Decimal(300) } },
+      ]);
+      mockPrismaService.savingsFine.findMany.mockResolvedValue([]);
+      mockPrismaService.savingsFine.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'fine-1', ...data }),
+      );
+
+      const fines = await service.assessGroupFines('group-1', asOf);
+
+      expect(fines).toHaveLength(1);
+      expect(mockPrismaService.contributionAllocation.groupBy).toHaveBeenCalledWith({
+        by: ['memberId'],
+        where: { groupId: 'group-1', periodStart: new Date('2026-03-01T00:00:00Z') },
+        _sum: { amount: true },
+      });
+    });
+
+    it('should not fine a member excused from the period', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(mockGroup);
+      mockPrismaService.groupMember.findMany.mockResolvedValue([{ userId: 'user-excused' }]);
+      mockPrismaService.savingsFine.findMany.mockResolvedValue([]);
+      mockPrismaService.contributionExcusal.findMany.mockResolvedValue([
+        { memberId: 'user-excused' },
+      ]);
+
+      const fines = await service.assessGroupFines('group-1', asOf);
+
+      expect(fines).toEqual([]);
+      expect(mockPrismaService.contributionExcusal.findMany).toHaveBeenCalledWith({
+        where: { groupId: 'group-1', periodStart: new Date('2026-03-01T00:00:00Z') },
+        select: { memberId: true },
+      });
+      expect(mockPrismaService.savingsFine.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip members who joined after the due date', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(mockGroup);
+      mockPrismaService.groupMember.findMany.mockResolvedValue([]);
+      mockPrismaService.savingsFine.findMany.mockResolvedValue([]);
+
+      await service.assessGroupFines('group-1', asOf);
+
+      expect(mockPrismaService.groupMember.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            joinedAt: { lte: new Date('2026-03-05T00:00:00Z') },
+          }),
+        }),
+      );
+    });
+
+    it('should do nothing when fines are disabled', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue({
+        ...mockGroup,
+        savingsRules: { ...rules, fineEnabled: false },
+      });
+
+      const fines = await service.assessGroupFines('group-1', asOf);
+
+      expect(fines).toEqual([]);
+      expect(mockPrismaService.groupMember.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payFine', () => {
+    const outstandingFine = {
+      id: 'fine-1',
+      groupId: 'group-1',
+      memberId: 'user-late',
+      amount: new Prisma.Decimal(50),
+      status: 'OUTSTANDING',
+      periodStart: new Date('2026-03-01T00:00:00Z'),
+      periodEnd: new Date('2026-03-31T00:00:00Z'),
+    };
+
+    it('should credit the ledger and mark the fine as paid', async () => {
+      mockPrismaService.savingsFine.findUnique.mockResolvedValue(outstandingFine);
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'TREASURER' });
+      mockPrismaService.savingsFine.updateMany.mockResolvedValue({ count: 1 });
+      mockLedgerService.appendFineCredit.mockResolvedValue({ entry: { id: 'entry-1' } });
+
+      await service.payFine('fine-1', { paymentMethod: 'EFT' }, 'treasurer-1');
+
+      expect(mockPrismaService.savingsFine.updateMany).toHaveBeenCalledWith({
+        where: { id: 'fine-1', status: 'OUTSTANDING' },
+        data: expect.objectContaining({ status: 'PAID' }),
+      });
+      expect(mockLedgerService.appendFineCredit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'fine-1',
+        '50',
+        'user-late',
+        '2026-03-01 to 2026-03-31',
+        'treasurer-1',
+      );
+      expect(mockPrismaService.savingsFine.update).toHaveBeenCalledWith({
+        where: { id: 'fine-1' },
+        data: { ledgerEntryId: 'entry-1' },
+      });
+    });
+
+    it('should not credit a fine another payment has already settled', async () => {
+      mockPrismaService.savingsFine.findUnique.mockResolvedValue(outstandingFine);
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'TREASURER' });
+      mockPrismaService.savingsFine.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.payFine('fine-1', { paymentMethod: 'EFT' }, 'treasurer-1'),
+      ).rejects.toThrow('Fine payment has already been recorded');
+      expect(mockLedgerService.appendFineCredit).not.toHaveBeenCalled();
+    });
+
+    it('should reject payment of a waived fine', async () => {
+      mockPrismaService.savingsFine.findUnique.mockResolvedValue({
+        ...outstandingFine,
+        status: 'WAIVED',
+      });
+
+      await expect(
+        service.payFine('fine-1', { paymentMethod: 'EFT' }, 'treasurer-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockLedgerService.appendFineCredit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waiveFine', () => {
+    it('should only allow the chairperson to waive', async () => {
+      mockPrismaService.savingsFine.findUnique.mockResolvedValue({
+        id: 'fine-1',
+        groupId: 'group-1',
+        status: 'OUTSTANDING',
+      });
+      mockPrismaService.groupMember.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.waiveFine('fine-1', { reason: 'Hardship' }, 'treasurer-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.savingsFine.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not waive a fine paid while the waiver was being made', async () => {
+      mockPrismaService.savingsFine.findUnique.mockResolvedValue({
+        id: 'fine-1',
+        groupId: 'group-1',
+        status: 'OUTSTANDING',
+      });
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'CHAIRPERSON' });
+      mockPrismaService.savingsFine.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.waiveFine('fine-1', { reason: 'Hardship' }, 'chair-1')).rejects.toThrow(
+        'Fine has already been paid or waived',
+      );
+      expect(mockPrismaService.savingsFine.updateMany).toHaveBeenCalledWith({
+        where: { id: 'fine-1', status: { in: ['OUTSTANDING', 'DISPUTED'] } },
+        data: expect.objectContaining({ status: 'WAIVED' }),
+      });
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disputeFine', () => {
+    it('should let the fined member dispute their own fine', async () => {
+      mockPrismaService.savingsFine.findUnique.mockResolvedValue({
+        id: 'fine-1',
+        groupId: 'group-1',
+        memberId: 'user-late',
+        status: 'OUTSTANDING',
+      });
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'MEMBER' });
+      mockPrismaService.savingsFine.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.disputeFine('fine-1', { reason: 'Paid in cash' }, 'user-late');
+
+      expect(mockPrismaService.savingsFine.updateMany).toHaveBeenCalledWith({
+        where: { id: 'fine-1', status: 'OUTSTANDING' },
+        data: expect.objectContaining({ status: 'DISPUTED', disputedById: 'user-late' }),
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'FINE_DISPUTED' }),
+      );
+    });
+  });
+
+  describe('resolveDispute', () => {
+    it('should not reopen a dispute another resolution has already settled', async () => {
+      mockPrismaService.savingsFine.findUnique.mockResolvedValue({
+        id: 'fine-1',
+        groupId: 'group-1',
+        memberId: 'user-late',
+        status: 'DISPUTED',
+      });
+      mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'CHAIRPERSON' });
+      mockPrismaService.savingsFine.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.resolveDispute(
+          'fine-1',
+          { resolution: 'UPHOLD', reason: 'No proof of cash payment' },
+          'chair-1',
+        ),
+      ).rejects.toThrow('Fine is no longer under dispute');
+      expect(mockPrismaService.savingsFine.updateMany).toHaveBeenCalledWith({
+        where: { id: 'fine-1', status: 'DISPUTED' },
+        data: { status: 'OUTSTANDING' },
+      });
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,505 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { MemberRole, Prisma, SavingsRule } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  PayFineDto,
+  WaiveFineDto,
+  DisputeFineDto,
+  ResolveFineDisputeDto,
+} from './dto/savings-fine.dto';
+import { Decimal } from 'decimal.js';
+import { ContributionPeriod, getContributionPeriod } from './contribution-compliance';
+
+export type FinePeriod = ContributionPeriod;
+
+@Injectable()
+export class SavingsFinesService {
+  private readonly logger = new Logger(SavingsFinesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Raise fines for every active savings group with fines enabled.
+   * Called by the scheduled 'assess-fines' job; safe to run repeatedly.
+   */
+  async assessFines(asOf: Date = new Date()) {
+    const groups = await this.prisma.group.findMany({
+      where: {
+        type: 'SAVINGS',
+        status: 'ACTIVE',
+        deletedAt: null,
+        savingsRules: { fineEnabled: true },
+      },
+      select: { id: true },
+    });
+
+    let finesRaised = 0;
+    for (const group of groups) {
+      try {
+        const fines = await this.assessGroupFines(group.id, asOf);
+        finesRaised += fines.length;
+      } catch (error) {
+        this.logger.error(`Failed to assess fines for group ${group.id}`, error);
+      }
+    }
+
+    this.logger.log(`Assessed ${groups.length} groups, raised ${finesRaised} fines`);
+
+    return { groupsAssessed: groups.length, finesRaised };
+  }
+
+  /**
+   * Raise fines for members of a group who have not paid the latest period
+   * whose grace period has ended in full and were not excused from it.
+   */
+  async assessGroupFines(groupId: string, asOf: Date = new Date(), actorId?: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'SAVINGS', deletedAt: null },
+      include: { savingsRules: true },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Savings group not found');
+    }
+
+    // Groups frozen for dissolution no longer expect contributions
+    if (group.status !== 'ACTIVE') {
+      return [];
+    }
+
+    const rules = group.savingsRules;
+    if (!rules || !rules.fineEnabled || !rules.fineType || !rules.fineAmount) {
+      return [];
+    }
+
+    const period = this.getLatestClosedPeriod(rules, asOf);
+    const amount = this.calculateFineAmount(rules);
+    if (amount.lessThanOrEqualTo(0)) {
+      return [];
+    }
+
+    // Members who joined after the due date were not expected to pay this period
+    const members = await this.prisma.groupMember.findMany({
+      where: {
+        groupId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        joinedAt: { lte: period.dueDate },
+      },
+      select: { userId: true },
+    });
+
+    const [allocations, existingFines, excusals] = await Promise.all([
+      this.prisma.contributionAllocation.groupBy({
+        by: ['memberId'],
+        where: { groupId, periodStart: period.periodStart },
+        _sum: { amount: true },
+      }),
+      this.prisma.savingsFine.findMany({
+        where: { groupId, periodStart: period.periodStart },
+        select: { memberId: true },
+      }),
+      this.prisma.contributionExcusal.findMany({
+        where: { groupId, periodStart: period.periodStart },
+        select: { memberId: true },
+      }),
+    ]);
+
+    // Instalments that do not yet add up to the monthly amount still owe
+    const paidInFull = allocations.filter((a) =>
+      rules.monthlyAmount.lessThanOrEqualTo(a._sum.amount || 0),
+    );
+    const settled = new Set([
+      ...paidInFull.map((a) => a.memberId),
+      ...existingFines.map((f) => f.memberId),
+      ...excusals.map((e) => e.memberId),
+    ]);
+    const defaulters = members.filter((m) => !settled.has(m.userId));
+
+    const periodStr = this.formatPeriod(period.periodStart, period.periodEnd);
+    const fines = [];
+
+    for (const member of defaulters) {
+      try {
+        const fine = await this.prisma.savingsFine.create({
+          data: {
+            groupId,
+            memberId: member.userId,
+            periodStart: period.periodStart,
+            periodEnd: period.periodEnd,
+            graceEndedAt: period.graceEndsAt,
+            amount: new Prisma.Decimal(amount.toString()),
+            currency: group.currency,
+            fineType: rules.fineType,
+          },
+        });
+        fines.push(fine);
+      } catch (error) {
+        // Another run raised this fine first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    for (const fine of fines) {
+      await this.auditService.log({
+        actorId,
+        actorType: actorId ? 'USER' : 'SYSTEM',
+        action: 'FINE_RAISED',
+        resourceType: 'SAVINGS_FINE',
+        resourceId: fine.id,
+        groupId,
+        afterState: {
+          memberId: fine.memberId,
+          amount: fine.amount.toString(),
+          fineType: fine.fineType,
+          period: periodStr,
+          status: 'OUTSTANDING',
+        },
+        outcome: 'SUCCESS',
+      });
+
+      await this.notificationsService.send({
+        userId: fine.memberId,
+        type: 'FINE_RAISED',
+        channels: ['IN_APP', 'EMAIL'],
+        title: 'Late contribution fine',
+        body: `A fine of ${fine.currency} ${amount.toFixed(2)} has been raised in ${group.name} because no contribution was received for ${periodStr}.`,
+        data: { fineId: fine.id, amount: amount.toFixed(2), period: periodStr },
+        groupId,
+      });
+    }
+
+    return fines;
+  }
+
+  async getFines(
+    groupId: string,
+    options: { status?: string; memberId?: string; limit?: number; offset?: number } = {},
+  ) {
+    const { status, memberId, limit = 50, offset = 0 } = options;
+
+    const where: Prisma.SavingsFineWhereInput = {
+      groupId,
+      ...(status && { status: status as any }),
+      ...(memberId && { memberId }),
+    };
+
+    const [fines, total] = await Promise.all([
+      this.prisma.savingsFine.findMany({
+        where,
+        include: {
+          member: {
+            select: { id: true, firstName: true, lastName: true, email: true },
+          },
+        },
+        orderBy: [{ periodStart: 'desc' }, { createdAt: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.savingsFine.count({ where }),
+    ]);
+
+    return { fines, total, limit, offset };
+  }
+
+  async getFine(fineId: string, userId: string) {
+    const fine = await this.prisma.savingsFine.findUnique({
+      where: { id: fineId },
+      include: {
+        member: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+      },
+    });
+
+    if (!fine) {
+      throw new NotFoundException('Fine not found');
+    }
+
+    await this.requireRole(fine.groupId, userId, ['MEMBER', 'TREASURER', 'SECRETARY', 'CHAIRPERSON']);
+
+    return fine;
+  }
+
+  async payFine(fineId: string, dto: PayFineDto, userId: string) {
+    const fine = await this.findFineOrFail(fineId);
+
+    if (fine.status !== 'OUTSTANDING') {
+      throw new BadRequestException(`Cannot record payment for a ${fine.status.toLowerCase()} fine`);
+    }
+
+    await this.requireRole(
+      fine.groupId,
+      userId,
+      ['TREASURER', 'CHAIRPERSON'],
+      'Only treasurer or chairperson can record fine payments',
+    );
+
+    const periodStr = this.formatPeriod(fine.periodStart, fine.periodEnd);
+    const entry = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.savingsFine.updateMany({
+          where: { id: fineId, status: 'OUTSTANDING' },
+          data: {
+            status: 'PAID',
+            paymentMethod: dto.paymentMethod,
+            paymentReference: dto.paymentReference,
+            paidAt: new Date(),
+            recordedById: userId,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Fine payment has already been recorded');
+        }
+
+        const { entry } = await this.ledgerService.appendFineCredit(
+          tx,
+          fine.groupId,
+          fine.id,
+          fine.amount.toString(),
+          fine.memberId,
+          periodStr,
+          userId,
+        );
+        await tx.savingsFine.update({
+          where: { id: fineId },
+          data: { ledgerEntryId: entry.id },
+        });
+
+        return entry;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'FINE_PAID',
+      resourceType: 'SAVINGS_FINE',
+      resourceId: fineId,
+      groupId: fine.groupId,
+      beforeState: { status: fine.status },
+      afterState: {
+        status: 'PAID',
+        amount: fine.amount.toString(),
+        paymentMethod: dto.paymentMethod,
+        ledgerEntryId: entry.id,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getFine(fineId, userId);
+  }
+
+  async waiveFine(fineId: string, dto: WaiveFineDto, userId: string) {
+    const fine = await this.findFineOrFail(fineId);
+
+    if (fine.status !== 'OUTSTANDING' && fine.status !== 'DISPUTED') {
+      throw new BadRequestException(`Cannot waive a ${fine.status.toLowerCase()} fine`);
+    }
+
+    await this.requireRole(fine.groupId, userId, ['CHAIRPERSON'], 'Only the chairperson can waive fines');
+
+    const { count } = await this.prisma.savingsFine.updateMany({
+      where: { id: fineId, status: { in: ['OUTSTANDING', 'DISPUTED'] } },
+      data: {
+        status: 'WAIVED',
+        waivedById: userId,
+        waivedAt: new Date(),
+        waiverReason: dto.reason,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Fine has already been paid or waived');
+    }
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'FINE_WAIVED',
+      resourceType: 'SAVINGS_FINE',
+      resourceId: fineId,
+      groupId: fine.groupId,
+      beforeState: { status: fine.status },
+      afterState: { status: 'WAIVED', reason: dto.reason },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getFine(fineId, userId);
+  }
+
+  async disputeFine(fineId: string, dto: DisputeFineDto, userId: string) {
+    const fine = await this.findFineOrFail(fineId);
+
+    if (fine.status !== 'OUTSTANDING') {
+      throw new BadRequestException(`Cannot dispute a ${fine.status.toLowerCase()} fine`);
+    }
+
+    // The fined member or the chairperson may open a dispute
+    if (fine.memberId !== userId) {
+      await this.requireRole(
+        fine.groupId,
+        userId,
+        ['CHAIRPERSON'],
+        'Only the fined member or the chairperson can dispute a fine',
+      );
+    }
+
+    const { count } = await this.prisma.savingsFine.updateMany({
+      where: { id: fineId, status: 'OUTSTANDING' },
+      data: {
+        status: 'DISPUTED',
+        disputedById: userId,
+        disputedAt: new Date(),
+        disputeReason: dto.reason,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Fine is no longer outstanding');
+    }
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'FINE_DISPUTED',
+      resourceType: 'SAVINGS_FINE',
+      resourceId: fineId,
+      groupId: fine.groupId,
+      beforeState: { status: fine.status },
+      afterState: { status: 'DISPUTED', reason: dto.reason },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getFine(fineId, userId);
+  }
+
+  async resolveDispute(fineId: string, dto: ResolveFineDisputeDto, userId: string) {
+    const fine = await this.findFineOrFail(fineId);
+
+    if (fine.status !== 'DISPUTED') {
+      throw new BadRequestException('Fine is not under dispute');
+    }
+
+    await this.requireRole(
+      fine.groupId,
+      userId,
+      ['CHAIRPERSON'],
+      'Only the chairperson can resolve fine disputes',
+    );
+
+    if (dto.resolution === 'WAIVE') {
+      return this.waiveFine(fineId, { reason: dto.reason }, userId);
+    }
+
+    const { count } = await this.prisma.savingsFine.updateMany({
+      where: { id: fineId, status: 'DISPUTED' },
+      data: { status: 'OUTSTANDING' },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Fine is no longer under dispute');
+    }
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'FINE_DISPUTE_REJECTED',
+      resourceType: 'SAVINGS_FINE',
+      resourceId: fineId,
+      groupId: fine.groupId,
+      beforeState: { status: 'DISPUTED', disputeReason: fine.disputeReason },
+      afterState: { status: 'OUTSTANDING', reason: dto.reason },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getFine(fineId, userId);
+  }
+
+  /**
+   * Work out the most recent contribution period whose grace period has
+   * fully elapsed. Periods are calendar months in UTC; the due day is
+   * clamped to the last day of shorter months.
+   */
+  getLatestClosedPeriod(
+    rules: Pick<SavingsRule, 'dueDay' | 'gracePeriodDays'>,
+    asOf: Date,
+  ): FinePeriod {
+    const current = getContributionPeriod(rules, asOf.getUTCFullYear(), asOf.getUTCMonth());
+    if (asOf >= current.graceEndsAt) {
+      return current;
+    }
+    return getContributionPeriod(rules, asOf.getUTCFullYear(), asOf.getUTCMonth() - 1);
+  }
+
+  calculateFineAmount(
+    rules: Pick<SavingsRule, 'fineType' | 'fineAmount' | 'monthlyAmount'>,
+  ): Decimal {
+    const fineAmount = new Decimal(rules.fineAmount?.toString() || 0);
+
+    if (rules.fineType === 'PERCENTAGE') {
+      return new Decimal(rules.monthlyAmount.toString())
+        .times(fineAmount)
+        .dividedBy(100)
+        .toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+    }
+
+    return fineAmount;
+  }
+
+  private formatPeriod(start: Date, end: Date): string {
+    return `${start.toISOString().split('T')[0]} to ${end.toISOString().split('T')[0]}`;
+  }
+
+  private async findFineOrFail(fineId: string) {
+    const fine = await this.prisma.savingsFine.findUnique({
+      where: { id: fineId },
+    });
+
+    if (!fine) {
+      throw new NotFoundException('Fine not found');
+    }
+
+    return fine;
+  }
+
+  private async requireRole(
+    groupId: string,
+    userId: string,
+    roles: MemberRole[],
+    message = 'You are not a member of this group',
+  ) {
+    const membership = await this.prisma.groupMember.findFirst({
+      where: {
+        groupId,
+        userId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        role: { in: roles },
+      },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException(message);
+    }
+
+    return membership;
+  }
+}
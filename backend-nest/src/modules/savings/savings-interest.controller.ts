@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { SavingsInterestService } from './savings-interest.service';
+import { AccrueInterestDto } from './dto/interest.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { TreasurerOrHigher, AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('savings')
+@Controller({ version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SavingsInterestController {
+  constructor(private readonly interestService: SavingsInterestService) {}
+
+  @Get('groups/:groupId/savings/interest')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get monthly interest accruals and member allocations' })
+  @ApiResponse({ status: 200, description: 'Interest accruals list' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  findAll(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.interestService.getAccruals(groupId, { limit, offset });
+  }
+
+  @Post('groups/:groupId/savings/interest/accrue')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Accrue interest for a month the job missed' })
+  @ApiResponse({ status: 201, description: 'Interest credited to the ledger' })
+  accrue(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: AccrueInterestDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.interestService.accrueGroupInterest(groupId, dto.month, user.id);
+  }
+}
@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SavingsInterestService } from './savings-interest.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+describe('SavingsInterestService', () => {
+  let service: SavingsInterestService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    group: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    interestAccrual: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    interestAllocation: {
+      createMany: jest.fn(),
+    },
+    ledgerEntry: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    memberLedgerEntry: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    appendInterestCredit: jest.fn(),
+  };
+
+  const mockGroup = {
+    id: 'group-1',
+    currency: 'ZAR',
+    savingsRules: {
+      interestRate: new Prisma.Decimal(10),
+      interestCompounding: 'MONTHLY',
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavingsInterestService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<SavingsInterestService>(SavingsInterestService);
+
+    jest.clearAllMocks();
+    mockPrismaService.group.findFirst.mockResolvedValue(mockGroup);
+    mockPrismaService.interestAccrual.findUnique.mockResolvedValue(null);
+    mockPrismaService.interestAccrual.create.mockResolvedValue({ id: 'accrual-1' });
+    mockPrismaService.ledgerEntry.findFirst.mockResolvedValue({
+      balanceAfter: new Prisma.Decimal(36500),
+    });
+    mockPrismaService.ledgerEntry.findMany.mockResolvedValue([]);
+    mockPrismaService.ledgerEntry.aggregate.mockResolvedValue({ _sum: { amount: null } });
+    mockPrismaService.memberLedgerEntry.findMany.mockResolvedValue([
+      {
+        memberId: 'member-1',
+        entryType: 'CONTRIBUTION_CREDIT',
+        balanceAfter: new Prisma.Decimal(27375),
+        createdAt: new Date('2024-03-01T09:00:00Z'),
+      },
+      {
+        memberId: 'member-2',
+        entryType: 'CONTRIBUTION_CREDIT',
+        balanceAfter: new Prisma.Decimal(9000),
+        createdAt: new Date('2024-03-01T09:00:00Z'),
+      },
+      {
+        memberId: 'member-2',
+        entryType: 'FINE_CREDIT',
+        balanceAfter: new Prisma.Decimal(9125),
+        createdAt: new Date('2024-03-01T09:00:00Z'),
+      },
+    ]);
+    mockLedgerService.appendInterestCredit.mockResolvedValue({ entry: { id: 'entry-1' } });
+    mockPrismaService.$transaction.mockImplementation((fn) => fn(mockPrismaService));
+  });
+
+  describe('accrueGroupInterest', () => {
+    it('should credit the month and attribute it pro rata to member balances', async () => {
+      await service.accrueGroupInterest('group-1', '2024-04', 'treasurer-1');
+
+      const [tx, groupId, accrualId, amount, month] =
+        mockLedgerService.appendInterestCredit.mock.calls[0];
+      expect([tx, groupId, accrualId, amount.toString(), month]).toEqual([
+        mockPrismaService,
+        'group-1',
+        'accrual-1',
+        '300',
+        '2024-04',
+      ]);
+      expect(mockPrismaService.interestAccrual.update).toHaveBeenCalledWith({
+        where: { id: 'accrual-1' },
+        data: { ledgerEntryId: 'entry-1' },
+      });
+      expect(mockPrismaService.interestAllocation.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ memberId: 'member-1', amount: new Prisma.Decimal(225) }),
+          expect.objectContaining({ memberId: 'member-2', amount: new Prisma.Decimal(75) }),
+        ],
+      });
+    });
+
+    it('should leave credited interest out of member stakes under SIMPLE interest', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue({
+        ...mockGroup,
+        savingsRules: { ...mockGroup.savingsRules, interestCompounding: 'SIMPLE' },
+      });
+      mockPrismaService.memberLedgerEntry.findMany.mockResolvedValue([
+        {
+          memberId: 'member-1',
+          entryType: 'CONTRIBUTION_CREDIT',
+          balanceAfter: new Prisma.Decimal(18250),
+          createdAt: new Date('2024-03-01T09:00:00Z'),
+        },
+        {
+          memberId: 'member-1',
+          entryType: 'INTEREST_CREDIT',
+          balanceAfter: new Prisma.Decimal(36500),
+          createdAt: new Date('2024-04-01T04:00:00Z'),
+        },
+        {
+          memberId: 'member-2',
+          entryType: 'CONTRIBUTION_CREDIT',
+          balanceAfter: new Prisma.Decimal(18250),
+          createdAt: new Date('2024-03-01T09:00:00Z'),
+        },
+      ]);
+
+      await service.accrueGroupInterest('group-1', '2024-04', 'treasurer-1');
+
+      const { data } = mockPrismaService.interestAllocation.createMany.mock.calls[0][0];
+      expect(data.map((share: any) => share.amount.toString())).toEqual(['150', '150']);
+    });
+
+    it('should refuse a month that was already accrued', async () => {
+      mockPrismaService.interestAccrual.findUnique.mockResolvedValue({ id: 'accrual-0' });
+
+      await expect(service.accrueGroupInterest('group-1', '2024-04')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockLedgerService.appendInterestCredit).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a month that has not ended', async () => {
+      const month = new Date().toISOString().slice(0, 7);
+
+      await expect(service.accrueGroupInterest('group-1', month)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should write the accrual, ledger credit and allocations in one transaction', async () => {
+      mockLedgerService.appendInterestCredit.mockRejectedValue(new Error('serialization failure'));
+
+      await expect(service.accrueGroupInterest('group-1', '2024-04')).rejects.toThrow(
+        'serialization failure',
+      );
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+      expect(mockPrismaService.interestAllocation.createMany).not.toHaveBeenCalled();
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+
+    it('should post nothing for an empty pot', async () => {
+      mockPrismaService.ledgerEntry.findFirst.mockResolvedValue(null);
+
+      await expect(service.accrueGroupInterest('group-1', '2024-04')).resolves.toBeNull();
+      expect(mockPrismaService.interestAccrual.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InterestCompounding, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  BalanceMovement,
+  InterestPeriod,
+  attributeInterest,
+  calculatePeriodInterest,
+  getDailyBalances,
+  getInterestPeriod,
+  getPreviousMonth,
+} from './interest';
+import { Decimal } from 'decimal.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class SavingsInterestService {
+  private readonly logger = new Logger(SavingsInterestService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Post last month's interest for every active savings group with an
+   * interest rate. Called by the monthly 'accrue-interest' job; months
+   * already accrued are skipped.
+   */
+  async accrueInterest(asOf: Date = new Date()) {
+    const month = getPreviousMonth(asOf);
+    const { periodStart } = getInterestPeriod(month);
+
+    const groups = await this.prisma.group.findMany({
+      where: {
+        type: 'SAVINGS',
+        status: 'ACTIVE',
+        deletedAt: null,
+        savingsRules: { interestRate: { gt: 0 } },
+        interestAccruals: { none: { periodStart } },
+      },
+      select: { id: true },
+    });
+
+    let accrualsPosted = 0;
+    for (const group of groups) {
+      try {
+        const accrual = await this.accrueGroupInterest(group.id, month);
+        if (accrual) {
+          accrualsPosted++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to accrue interest for group ${group.id}`, error);
+      }
+    }
+
+    this.logger.log(`Accrued ${month} interest for ${accrualsPosted} of ${groups.length} groups`);
+
+    return { month, groupsChecked: groups.length, accrualsPosted };
+  }
+
+  /**
+   * Work out a group's interest for a month that has ended from its daily
+   * pot balance, credit it to the ledger and attribute it to members pro
+   * rata to their daily balances. Returns null when there is nothing to post.
+   */
+  async accrueGroupInterest(groupId: string, month: string, actorId?: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'SAVINGS', deletedAt: null },
+      include: { savingsRules: true },
+    });
+
+    if (!group || !group.savingsRules) {
+      throw new NotFoundException('Savings group not found');
+    }
+
+    const rules = group.savingsRules;
+    if (!rules.interestRate || rules.interestRate.lessThanOrEqualTo(0)) {
+      throw new BadRequestException('No interest rate is set for this group');
+    }
+
+    const period = getInterestPeriod(month);
+    const periodEndExclusive = new Date(period.periodEnd.getTime() + DAY_MS);
+    if (periodEndExclusive > new Date()) {
+      throw new BadRequestException('Interest can only be accrued for a month that has ended');
+    }
+
+    const existing = await this.prisma.interestAccrual.findUnique({
+      where: { groupId_periodStart: { groupId, periodStart: period.periodStart } },
+    });
+    if (existing) {
+      throw new BadRequestException(`Interest for ${month} has already been accrued`);
+    }
+
+    const compounding = rules.interestCompounding;
+    const dailyBalances = await this.getGroupDailyBalances(groupId, period, compounding);
+    const amount = calculatePeriodInterest(
+      dailyBalances,
+      rules.interestRate.toString(),
+      compounding,
+    );
+    if (amount.lessThan(0.01)) {
+      this.logger.log(`Group ${groupId} earned no interest for ${month}`);
+      return null;
+    }
+
+    const averageBalance = dailyBalances
+      .reduce((sum, b) => sum.plus(b), new Decimal(0))
+      .dividedBy(period.days)
+      .toDecimalPlaces(4);
+
+    const shares = attributeInterest(
+      amount,
+      await this.getMemberDailyBalances(groupId, period, compounding),
+    );
+
+    const annualRate = rules.interestRate;
+
+    // The unique (group, month) row claims the month; the ledger entry and
+    // the allocations are written with it or not at all
+    const accrual = await this.prisma.$transaction(
+      async (tx) => {
+        const accrual = await tx.interestAccrual.create({
+          data: {
+            groupId,
+            periodStart: period.periodStart,
+            periodEnd: period.periodEnd,
+            annualRate,
+            compounding,
+            averageBalance: new Prisma.Decimal(averageBalance.toString()),
+            amount: new Prisma.Decimal(amount.toString()),
+            currency: group.currency,
+            createdById: actorId,
+          },
+        });
+
+        const { entry } = await this.ledgerService.appendInterestCredit(
+          tx,
+          groupId,
+          accrual.id,
+          amount,
+          month,
+          shares.map((share) => ({ memberId: share.memberId, amount: share.amount })),
+          actorId,
+        );
+
+        await tx.interestAccrual.update({
+          where: { id: accrual.id },
+          data: { ledgerEntryId: entry.id },
+        });
+        await tx.interestAllocation.createMany({
+          data: shares.map((share) => ({
+            accrualId: accrual.id,
+            groupId,
+            memberId: share.memberId,
+            balanceDays: new Prisma.Decimal(share.balanceDays.toString()),
+            amount: new Prisma.Decimal(share.amount.toString()),
+          })),
+        });
+
+        return accrual;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId,
+      actorType: actorId ? 'USER' : 'SYSTEM',
+      action: 'INTEREST_ACCRUED',
+      resourceType: 'INTEREST_ACCRUAL',
+      resourceId: accrual.id,
+      groupId,
+      afterState: {
+        month,
+        annualRate: rules.interestRate.toString(),
+        compounding,
+        averageBalance: averageBalance.toString(),
+        amount: amount.toString(),
+        membersAttributed: shares.length,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return this.prisma.interestAccrual.findUnique({
+      where: { id: accrual.id },
+      include: { allocations: true },
+    });
+  }
+
+  async getAccruals(groupId: string, options: { limit?: number; offset?: number } = {}) {
+    const { limit = 12, offset = 0 } = options;
+
+    const [accruals, total] = await Promise.all([
+      this.prisma.interestAccrual.findMany({
+        where: { groupId },
+        include: {
+          allocations: {
+            include: { member: { select: { id: true, firstName: true, lastName: true } } },
+            orderBy: { amount: 'desc' },
+          },
+        },
+        orderBy: { periodStart: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.interestAccrual.count({ where: { groupId } }),
+    ]);
+
+    return { accruals, total, limit, offset };
+  }
+
+  /**
+   * End-of-day pot balances from the ledger. SIMPLE interest is earned on
+   * the pot without the interest already credited to it.
+   */
+  private async getGroupDailyBalances(
+    groupId: string,
+    period: InterestPeriod,
+    compounding: InterestCompounding,
+  ): Promise<Decimal[]> {
+    const periodEndExclusive = new Date(period.periodEnd.getTime() + DAY_MS);
+
+    const [openingEntry, entries, priorInterest] = await Promise.all([
+      this.prisma.ledgerEntry.findFirst({
+        where: { groupId, createdAt: { lt: period.periodStart } },
+        orderBy: { sequence: 'desc' },
+        select: { balanceAfter: true },
+      }),
+      this.prisma.ledgerEntry.findMany({
+        where: { groupId, createdAt: { gte: period.periodStart, lt: periodEndExclusive } },
+        orderBy: { sequence: 'asc' },
+        select: { entryType: true, balanceAfter: true, createdAt: true },
+      }),
+      this.prisma.ledgerEntry.aggregate({
+        where: { groupId, entryType: 'INTEREST_CREDIT', createdAt: { lt: period.periodStart } },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    let opening = new Decimal(openingEntry?.balanceAfter.toString() || 0);
+    let previous = opening;
+    const movements: BalanceMovement[] = [];
+    for (const entry of entries) {
+      const balanceAfter = new Decimal(entry.balanceAfter.toString());
+      if (compounding !== 'SIMPLE' || entry.entryType !== 'INTEREST_CREDIT') {
+        movements.push({ at: entry.createdAt, amount: balanceAfter.minus(previous) });
+      }
+      previous = balanceAfter;
+    }
+
+    if (compounding === 'SIMPLE') {
+      opening = opening.minus(priorInterest._sum.amount?.toString() || 0);
+    }
+
+    return getDailyBalances(opening, movements, period);
+  }
+
+  /**
+   * Each member's end-of-day stake in the pot from their sub-ledger, so
+   * fines, exits and loan interest count as well as contributions and
+   * payouts. SIMPLE interest leaves out interest already credited to them.
+   */
+  private async getMemberDailyBalances(
+    groupId: string,
+    period: InterestPeriod,
+    compounding: InterestCompounding,
+  ) {
+    const periodEndExclusive = new Date(period.periodEnd.getTime() + DAY_MS);
+
+    const postings = await this.prisma.memberLedgerEntry.findMany({
+      where: { groupId, createdAt: { lt: periodEndExclusive } },
+      orderBy: [{ memberId: 'asc' }, { sequence: 'asc' }],
+      select: { memberId: true, entryType: true, balanceAfter: true, createdAt: true },
+    });
+
+    const byMember = new Map<
+      string,
+      { opening: Decimal; previous: Decimal; movements: BalanceMovement[] }
+    >();
+    for (const posting of postings) {
+      const member = byMember.get(posting.memberId) || {
+        opening: new Decimal(0),
+        previous: new Decimal(0),
+        movements: [],
+      };
+      byMember.set(posting.memberId, member);
+
+      const balanceAfter = new Decimal(posting.balanceAfter.toString());
+      const change = balanceAfter.minus(member.previous);
+      member.previous = balanceAfter;
+
+      if (compounding === 'SIMPLE' && posting.entryType === 'INTEREST_CREDIT') {
+        continue;
+      }
+      if (posting.createdAt < period.periodStart) {
+        member.opening = member.opening.plus(change);
+      } else {
+        member.movements.push({ at: posting.createdAt, amount: change });
+      }
+    }
+
+    return [...byMember.entries()].map(([memberId, member]) => ({
+      memberId,
+      dailyBalances: getDailyBalances(member.opening, member.movements, period),
+    }));
+  }
+}
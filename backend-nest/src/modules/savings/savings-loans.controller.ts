@@ -0,0 +1,157 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { LoanStatus } from '@prisma/client';
+import { SavingsLoansService } from './savings-loans.service';
+import {
+  ApplyForLoanDto,
+  ApproveLoanDto,
+  DisburseLoanDto,
+  RecordLoanRepaymentDto,
+  RejectLoanDto,
+} from './dto/member-loan.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { TreasurerOrHigher, AnyMember } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth.service';
+
+@ApiTags('savings')
+@Controller({ version: '1' })
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SavingsLoansController {
+  constructor(private readonly loansService: SavingsLoansService) {}
+
+  @Post('groups/:groupId/savings/loans')
+  @AnyMember()
+  @ApiOperation({ summary: 'Apply for a loan from the group pot' })
+  @ApiResponse({ status: 201, description: 'Loan waiting for approval' })
+  @ApiResponse({ status: 400, description: 'Above your loan limit or the longest term' })
+  apply(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: ApplyForLoanDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.loansService.applyForLoan(groupId, dto, user.id);
+  }
+
+  @Get('groups/:groupId/savings/loans')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get member loans' })
+  @ApiResponse({ status: 200, description: 'Loans list' })
+  @ApiQuery({ name: 'status', required: false, enum: LoanStatus })
+  @ApiQuery({ name: 'memberId', required: false })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  findAll(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('status') status?: LoanStatus,
+    @Query('memberId') memberId?: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.loansService.getLoans(groupId, { status, memberId, limit, offset });
+  }
+
+  @Get('groups/:groupId/savings/loans/limit')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get how much you can borrow' })
+  @ApiResponse({ status: 200, description: 'Savings balance, amount borrowed and what is left' })
+  getLimit(@Param('groupId', ParseUUIDPipe) groupId: string, @CurrentUser() user: AuthUser) {
+    return this.loansService.getLoanLimit(groupId, user.id);
+  }
+
+  @Post('groups/:groupId/savings/loans/arrears/assess')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Charge penalty interest on overdue instalments now' })
+  @ApiResponse({ status: 201, description: 'Overdue instalments and penalty charged' })
+  assessArrears(@Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.loansService.assessArrears(new Date(), groupId);
+  }
+
+  @Get('groups/:groupId/savings/loans/:loanId')
+  @AnyMember()
+  @ApiOperation({ summary: 'Get a loan with its schedule and repayments' })
+  @ApiResponse({ status: 200, description: 'Loan details' })
+  findOne(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('loanId', ParseUUIDPipe) loanId: string,
+  ) {
+    return this.loansService.getLoan(groupId, loanId);
+  }
+
+  @Post('groups/:groupId/savings/loans/:loanId/approve')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Approve a loan (requires multiple approvals)' })
+  @ApiResponse({ status: 201, description: 'Approval recorded' })
+  @ApiResponse({ status: 403, description: 'You applied for this loan' })
+  approve(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('loanId', ParseUUIDPipe) loanId: string,
+    @Body() dto: ApproveLoanDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.loansService.approveLoan(groupId, loanId, dto, user.id);
+  }
+
+  @Post('groups/:groupId/savings/loans/:loanId/reject')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Reject a loan' })
+  @ApiResponse({ status: 201, description: 'Loan rejected' })
+  reject(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('loanId', ParseUUIDPipe) loanId: string,
+    @Body() dto: RejectLoanDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.loansService.rejectLoan(groupId, loanId, dto, user.id);
+  }
+
+  @Post('groups/:groupId/savings/loans/:loanId/cancel')
+  @AnyMember()
+  @ApiOperation({ summary: 'Withdraw a loan before it is paid out' })
+  @ApiResponse({ status: 201, description: 'Loan cancelled' })
+  cancel(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('loanId', ParseUUIDPipe) loanId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.loansService.cancelLoan(groupId, loanId, user.id);
+  }
+
+  @Post('groups/:groupId/savings/loans/:loanId/disburse')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Record paying an approved loan out to the member' })
+  @ApiResponse({ status: 201, description: 'Loan paid out and repayment schedule set' })
+  disburse(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('loanId', ParseUUIDPipe) loanId: string,
+    @Body() dto: DisburseLoanDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.loansService.disburseLoan(groupId, loanId, dto, user.id);
+  }
+
+  @Post('groups/:groupId/savings/loans/:loanId/repayments')
+  @TreasurerOrHigher()
+  @ApiOperation({ summary: 'Record a loan repayment' })
+  @ApiResponse({ status: 201, description: 'Repayment split into penalty, interest and principal' })
+  @ApiResponse({ status: 400, description: 'More than the loan still owes' })
+  recordRepayment(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('loanId', ParseUUIDPipe) loanId: string,
+    @Body() dto: RecordLoanRepaymentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.loansService.recordRepayment(groupId, loanId, dto, user.id);
+  }
+}
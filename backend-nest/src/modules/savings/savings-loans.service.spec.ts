@@ -0,0 +1,424 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { SavingsLoansService } from './savings-loans.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('SavingsLoansService', () => {
+  let service: SavingsLoansService;
+
+  const mockPrismaService: any = {
+    $transaction: jest.fn((fn) => fn(mockPrismaService)),
+    group: {
+      findFirst: jest.fn(),
+    },
+    groupMember: {
+      findFirst: jest.fn(),
+    },
+    memberLoan: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    memberLoanApproval: {
+      create: jest.fn(),
+      count: jest.fn(),
+    },
+    memberExitSettlement: {
+      findFirst: jest.fn(),
+    },
+    memberLoanInstalment: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    memberLoanRepayment: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    getBalance: jest.fn(),
+    getMemberBalance: jest.fn(),
+    getMemberBalances: jest.fn(),
+    appendLoanDisbursementDebit: jest.fn(),
+    appendLoanRepaymentCredit: jest.fn(),
+    appendLoanInterestCredit: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    send: jest.fn(),
+  };
+
+  const mockGroup = {
+    id: 'group-1',
+    type: 'SAVINGS',
+    status: 'ACTIVE',
+    currency: 'ZAR',
+    savingsRules: {
+      minApprovalCount: 2,
+      loanLimitPercent: new Prisma.Decimal(50),
+      loanInterestRate: new Prisma.Decimal(2),
+      loanPenaltyRate: new Prisma.Decimal(3),
+      loanMaxTermMonths: 12,
+    },
+  };
+
+  const mockLoan = {
+    id: 'loan-1',
+    groupId: 'group-1',
+    memberId: 'member-1',
+    principal: new Prisma.Decimal(1000),
+    currency: 'ZAR',
+    interestRate: new Prisma.Decimal(2),
+    penaltyRate: new Prisma.Decimal(3),
+    termMonths: 3,
+    status: 'PENDING',
+    member: { id: 'member-1', firstName: 'Thandi', lastName: 'Mokoena' },
+    approvals: [],
+    instalments: [],
+    repayments: [],
+  };
+
+  const instalmentRow = (id: string, n: number, principalDue: number, interestDue: number) => ({
+    id,
+    instalmentNumber: n,
+    dueDate: new Date(`2024-0${n + 3}-15T00:00:00Z`),
+    principalDue: new Prisma.Decimal(principalDue),
+    interestDue: new Prisma.Decimal(interestDue),
+    principalPaid: new Prisma.Decimal(0),
+    interestPaid: new Prisma.Decimal(0),
+    penaltyCharged: new Prisma.Decimal(0),
+    penaltyPaid: new Prisma.Decimal(0),
+    penaltyChargedTo: null,
+    status: 'DUE',
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavingsLoansService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<SavingsLoansService>(SavingsLoansService);
+
+    jest.clearAllMocks();
+    mockPrismaService.group.findFirst.mockResolvedValue(mockGroup);
+    mockPrismaService.groupMember.findFirst.mockResolvedValue({ id: 'membership-1' });
+    mockPrismaService.memberLoan.findFirst.mockResolvedValue(mockLoan);
+    mockPrismaService.memberLoan.findMany.mockResolvedValue([]);
+    mockPrismaService.memberLoan.create.mockResolvedValue(mockLoan);
+    mockPrismaService.memberLoan.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.memberLoanApproval.count.mockResolvedValue(1);
+    mockPrismaService.memberLoanInstalment.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.memberLoanRepayment.create.mockResolvedValue({ id: 'repayment-1' });
+    mockPrismaService.memberLoanRepayment.update.mockResolvedValue({ id: 'repayment-1' });
+    mockLedgerService.getBalance.mockResolvedValue(new Decimal(20000));
+    mockLedgerService.getMemberBalance.mockResolvedValue(new Decimal(4000));
+    mockLedgerService.appendLoanDisbursementDebit.mockResolvedValue({ entry: { id: 'entry-1' } });
+    mockLedgerService.appendLoanRepaymentCredit.mockResolvedValue({ entry: { id: 'entry-2' } });
+    mockLedgerService.appendLoanInterestCredit.mockResolvedValue({ entry: { id: 'entry-3' } });
+  });
+
+  describe('applyForLoan', () => {
+    it('should take the group rates for a loan within the limit', async () => {
+      await service.applyForLoan('group-1', { amount: 2000, termMonths: 6 }, 'member-1');
+
+      expect(mockPrismaService.memberLoan.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          memberId: 'member-1',
+          principal: new Prisma.Decimal(2000),
+          interestRate: new Prisma.Decimal(2),
+          penaltyRate: new Prisma.Decimal(3),
+        }),
+      });
+    });
+
+    it('should refuse more than half the savings less what is already borrowed', async () => {
+      mockPrismaService.memberLoan.findMany.mockResolvedValue([
+        {
+          principal: new Prisma.Decimal(1000),
+          instalments: [{ principalPaid: new Prisma.Decimal(400) }],
+        },
+      ]);
+
+      await expect(
+        service.applyForLoan('group-1', { amount: 1500, termMonths: 6 }, 'member-1'),
+      ).rejects.toThrow('You can borrow up to ZAR 1400.00');
+      expect(mockPrismaService.memberLoan.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a member who is leaving the group', async () => {
+      mockPrismaService.memberExitSettlement.findFirst.mockResolvedValue({ id: 'settlement-1' });
+
+      await expect(
+        service.applyForLoan('group-1', { amount: 500, termMonths: 3 }, 'member-1'),
+      ).rejects.toThrow('You cannot borrow while leaving the group');
+      expect(mockPrismaService.memberLoan.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse when the group does not lend', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue({
+        ...mockGroup,
+        savingsRules: { ...mockGroup.savingsRules, loanLimitPercent: null },
+      });
+
+      await expect(
+        service.applyForLoan('group-1', { amount: 100, termMonths: 1 }, 'member-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('approveLoan', () => {
+    it('should not let the borrower approve their own loan', async () => {
+      await expect(service.approveLoan('group-1', 'loan-1', {}, 'member-1')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should wait for the minimum number of approvals', async () => {
+      await service.approveLoan('group-1', 'loan-1', {}, 'treasurer-1');
+
+      expect(mockPrismaService.memberLoan.updateMany).toHaveBeenCalledWith({
+        where: { id: 'loan-1', status: 'PENDING' },
+        data: { updatedAt: expect.any(Date) },
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'LOAN_APPROVAL_ADDED' }),
+      );
+    });
+
+    it('should approve the loan on the last approval needed', async () => {
+      mockPrismaService.memberLoan.findFirst.mockResolvedValue({
+        ...mockLoan,
+        approvals: [{ approverId: 'chair-1', decision: 'APPROVED' }],
+      });
+      mockPrismaService.memberLoanApproval.count.mockResolvedValue(2);
+
+      await service.approveLoan('group-1', 'loan-1', {}, 'treasurer-1');
+
+      expect(mockPrismaService.memberLoan.updateMany).toHaveBeenCalledWith({
+        where: { id: 'loan-1', status: 'PENDING' },
+        data: { status: 'APPROVED', approvedAt: expect.any(Date) },
+      });
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-1', type: 'LOAN_APPROVED' }),
+      );
+    });
+
+    it('should not count a vote on a loan that was decided meanwhile', async () => {
+      mockPrismaService.memberLoan.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.approveLoan('group-1', 'loan-1', {}, 'treasurer-1')).rejects.toThrow(
+        'Loan has already been decided',
+      );
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectLoan', () => {
+    it('should not reject a loan that was approved meanwhile', async () => {
+      mockPrismaService.memberLoan.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.rejectLoan('group-1', 'loan-1', { reason: 'Too large' }, 'treasurer-1'),
+      ).rejects.toThrow('Loan has already been decided');
+      expect(mockNotificationsService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelLoan', () => {
+    it('should not cancel a loan paid out meanwhile', async () => {
+      mockPrismaService.memberLoan.findFirst.mockResolvedValue({ ...mockLoan, status: 'APPROVED' });
+      mockPrismaService.memberLoan.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.cancelLoan('group-1', 'loan-1', 'member-1')).rejects.toThrow(
+        'Loan has already been decided or paid out',
+      );
+      expect(mockPrismaService.memberLoan.updateMany).toHaveBeenCalledWith({
+        where: { id: 'loan-1', status: { in: ['PENDING', 'APPROVED'] } },
+        data: { status: 'CANCELLED' },
+      });
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('disburseLoan', () => {
+    it('should debit the pot and set the repayment schedule', async () => {
+      mockPrismaService.memberLoan.findFirst.mockResolvedValue({ ...mockLoan, status: 'APPROVED' });
+
+      await service.disburseLoan('group-1', 'loan-1', { paymentReference: 'FNB-1' }, 'treasurer-1');
+
+      expect(mockLedgerService.appendLoanDisbursementDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'loan-1',
+        '1000',
+        'Thandi Mokoena',
+        'treasurer-1',
+      );
+      const { data } = mockPrismaService.memberLoanInstalment.createMany.mock.calls[0][0];
+      expect(data).toHaveLength(3);
+      expect(data[0].interestDue).toEqual(new Prisma.Decimal(20));
+      expect(mockPrismaService.memberLoan.update).toHaveBeenCalledWith({
+        where: { id: 'loan-1' },
+        data: { ledgerEntryId: 'entry-1' },
+      });
+    });
+
+    it('should refuse a loan that is not approved', async () => {
+      await expect(
+        service.disburseLoan('group-1', 'loan-1', { paymentReference: 'FNB-1' }, 'treasurer-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockLedgerService.appendLoanDisbursementDebit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordRepayment', () => {
+    beforeEach(() => {
+      mockPrismaService.memberLoan.findFirst.mockResolvedValue({ ...mockLoan, status: 'ACTIVE' });
+      mockPrismaService.memberLoanInstalment.findMany.mockResolvedValue([
+        instalmentRow('i-1', 1, 326.75, 20),
+        instalmentRow('i-2', 2, 333.28, 13.47),
+      ]);
+      mockLedgerService.getMemberBalances.mockResolvedValue(
+        new Map([
+          ['member-1', new Decimal(3000)],
+          ['member-2', new Decimal(1000)],
+        ]),
+      );
+    });
+
+    it('should credit principal and interest separately and share the interest', async () => {
+      await service.recordRepayment(
+        'group-1',
+        'loan-1',
+        { amount: 400, paymentReference: 'FNB-2' },
+        'treasurer-1',
+      );
+
+      const [, , , principal] = mockLedgerService.appendLoanRepaymentCredit.mock.calls[0];
+      expect(principal).toBe('366.53');
+      const [, , , interest, , penalty, shares] =
+        mockLedgerService.appendLoanInterestCredit.mock.calls[0];
+      expect([interest, penalty]).toEqual(['33.47', '0']);
+      expect(shares.map((s: any) => [s.memberId, s.amount.toFixed(2)])).toEqual([
+        ['member-1', '25.10'],
+        ['member-2', '8.37'],
+      ]);
+      expect(mockPrismaService.memberLoanInstalment.update).toHaveBeenCalledWith({
+        where: { id: 'i-1' },
+        data: expect.objectContaining({ status: 'PAID' }),
+      });
+      expect(mockPrismaService.memberLoan.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark the loan repaid when the last of it is paid', async () => {
+      await service.recordRepayment(
+        'group-1',
+        'loan-1',
+        { amount: 693.5, paymentReference: 'FNB-2' },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.memberLoan.update).toHaveBeenCalledWith({
+        where: { id: 'loan-1' },
+        data: { status: 'REPAID', repaidAt: expect.any(Date) },
+      });
+    });
+
+    it('should refuse more than the loan owes', async () => {
+      await expect(
+        service.recordRepayment(
+          'group-1',
+          'loan-1',
+          { amount: 700, paymentReference: 'FNB-2' },
+          'treasurer-1',
+        ),
+      ).rejects.toThrow('The loan only has ZAR 693.50 left to repay');
+      expect(mockPrismaService.memberLoanRepayment.create).not.toHaveBeenCalled();
+    });
+
+    it('should not record a repayment once another has settled the loan', async () => {
+      mockPrismaService.memberLoan.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.recordRepayment(
+          'group-1',
+          'loan-1',
+          { amount: 400, paymentReference: 'FNB-2' },
+          'treasurer-1',
+        ),
+      ).rejects.toThrow('Loan is no longer being repaid');
+      expect(mockPrismaService.memberLoan.updateMany).toHaveBeenCalledWith({
+        where: { id: 'loan-1', status: 'ACTIVE' },
+        data: { updatedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.memberLoanRepayment.create).not.toHaveBeenCalled();
+      expect(mockLedgerService.appendLoanRepaymentCredit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assessLoanArrears', () => {
+    it('should mark late instalments overdue and charge penalty interest', async () => {
+      mockPrismaService.memberLoan.findFirst.mockResolvedValue({
+        ...mockLoan,
+        status: 'ACTIVE',
+        instalments: [instalmentRow('i-1', 1, 326.75, 20)],
+      });
+
+      const result = await service.assessLoanArrears('loan-1', new Date('2024-05-15T02:30:00Z'));
+
+      // 346.75 x 3% x 12 x 30 / 365
+      expect(result.penaltyCharged.toFixed(2)).toBe('10.26');
+      expect(mockPrismaService.memberLoanInstalment.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'i-1',
+          status: 'DUE',
+          penaltyChargedTo: null,
+          principalPaid: new Prisma.Decimal(0),
+          interestPaid: new Prisma.Decimal(0),
+        },
+        data: {
+          status: 'OVERDUE',
+          penaltyCharged: { increment: new Prisma.Decimal('10.26') },
+          penaltyChargedTo: new Date('2024-05-15T00:00:00Z'),
+        },
+      });
+      expect(mockNotificationsService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'member-1', type: 'LOAN_INSTALMENT_OVERDUE' }),
+      );
+    });
+
+    it('should not charge an instalment a repayment has just moved on', async () => {
+      mockPrismaService.memberLoan.findFirst.mockResolvedValue({
+        ...mockLoan,
+        status: 'ACTIVE',
+        instalments: [instalmentRow('i-1', 1, 326.75, 20)],
+      });
+      mockPrismaService.memberLoanInstalment.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.assessLoanArrears('loan-1', new Date('2024-05-15T02:30:00Z'));
+
+      expect(result).toEqual({ newlyOverdue: 0, penaltyCharged: new Decimal(0) });
+      expect(mockNotificationsService.send).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,976 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { LoanStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService, MemberLedgerPosting } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  ApplyForLoanDto,
+  ApproveLoanDto,
+  DisburseLoanDto,
+  RecordLoanRepaymentDto,
+  RejectLoanDto,
+} from './dto/member-loan.dto';
+import {
+  InstalmentBalance,
+  availableLoanLimit,
+  buildRepaymentSchedule,
+  instalmentOwed,
+  penaltyInterest,
+  splitRepayment,
+  startOfDay,
+} from './loans';
+import { allocateByWeight } from './payout-allocation';
+import { Decimal } from 'decimal.js';
+
+const memberSelect = { id: true, firstName: true, lastName: true } as const;
+
+// Loans that count against a member's limit
+const OPEN_LOAN_STATUSES: LoanStatus[] = ['PENDING', 'APPROVED', 'ACTIVE'];
+
+@Injectable()
+export class SavingsLoansService {
+  private readonly logger = new Logger(SavingsLoansService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * A member asks to borrow from the pot. The loan takes the group's
+   * current interest and penalty rates, and must fit within the member's
+   * limit: a share of their savings less what they already owe or have
+   * asked for.
+   */
+  async applyForLoan(groupId: string, dto: ApplyForLoanDto, userId: string) {
+    if (dto.idempotencyKey) {
+      const existing = await this.prisma.memberLoan.findFirst({
+        where: { idempotencyKey: dto.idempotencyKey },
+      });
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const { group, rules } = await this.requireLendingGroup(groupId);
+    if (group.status !== 'ACTIVE') {
+      throw new BadRequestException(`Cannot lend from a ${group.status.toLowerCase()} group`);
+    }
+    if (dto.termMonths > rules.loanMaxTermMonths) {
+      throw new BadRequestException(
+        `Loans must be repaid within ${rules.loanMaxTermMonths} months`,
+      );
+    }
+
+    const membership = await this.prisma.groupMember.findFirst({
+      where: { groupId, userId, status: 'ACTIVE', deletedAt: null },
+    });
+    if (!membership) {
+      throw new ForbiddenException('Only active members can borrow from the group');
+    }
+
+    const exit = await this.prisma.memberExitSettlement.findFirst({
+      where: { groupId, memberId: userId, status: { in: ['PENDING', 'PAYOUT_RAISED'] } },
+    });
+    if (exit) {
+      throw new BadRequestException('You cannot borrow while leaving the group');
+    }
+
+    const limit = await this.getLoanLimit(groupId, userId);
+    const amount = new Decimal(dto.amount);
+    if (amount.greaterThan(limit.available)) {
+      throw new BadRequestException(
+        `You can borrow up to ${group.currency} ${limit.available.toFixed(2)}`,
+      );
+    }
+
+    const loan = await this.prisma.memberLoan.create({
+      data: {
+        groupId,
+        memberId: userId,
+        principal: new Prisma.Decimal(amount.toString()),
+        currency: group.currency,
+        interestRate: rules.loanInterestRate ?? new Prisma.Decimal(0),
+        penaltyRate: rules.loanPenaltyRate ?? new Prisma.Decimal(0),
+        termMonths: dto.termMonths,
+        purpose: dto.purpose,
+        idempotencyKey: dto.idempotencyKey,
+      },
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LOAN_APPLIED',
+      resourceType: 'MEMBER_LOAN',
+      resourceId: loan.id,
+      groupId,
+      afterState: {
+        principal: amount.toFixed(2),
+        termMonths: dto.termMonths,
+        interestRate: loan.interestRate.toString(),
+        penaltyRate: loan.penaltyRate.toString(),
+        limitAvailable: limit.available.toFixed(2),
+        status: 'PENDING',
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return loan;
+  }
+
+  /**
+   * What a member may borrow, worked out from their share of the pot
+   */
+  async getLoanLimit(groupId: string, memberId: string) {
+    const { rules } = await this.requireLendingGroup(groupId);
+
+    const [savingsBalance, borrowed] = await Promise.all([
+      this.ledgerService.getMemberBalance(groupId, memberId),
+      this.borrowedBy(groupId, memberId),
+    ]);
+
+    return {
+      savingsBalance,
+      limitPercent: rules.loanLimitPercent!.toString(),
+      borrowed,
+      available: availableLoanLimit(savingsBalance, rules.loanLimitPercent!.toString(), borrowed),
+    };
+  }
+
+  async getLoans(
+    groupId: string,
+    options: { status?: string; memberId?: string; limit?: number; offset?: number } = {},
+  ) {
+    const { status, memberId, limit = 50, offset = 0 } = options;
+
+    const where: Prisma.MemberLoanWhereInput = {
+      groupId,
+      ...(status && { status: status as any }),
+      ...(memberId && { memberId }),
+    };
+
+    const [loans, total] = await Promise.all([
+      this.prisma.memberLoan.findMany({
+        where,
+        include: { member: { select: memberSelect } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.memberLoan.count({ where }),
+    ]);
+
+    return { loans, total, limit, offset };
+  }
+
+  /**
+   * A loan with its approvals, schedule and repayments, and what is still
+   * owed on it
+   */
+  async getLoan(groupId: string, loanId: string) {
+    const loan = await this.prisma.memberLoan.findFirst({
+      where: { id: loanId, groupId },
+      include: {
+        member: { select: memberSelect },
+        approvals: {
+          include: { approver: { select: memberSelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+        instalments: { orderBy: { instalmentNumber: 'asc' } },
+        repayments: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!loan) {
+      throw new NotFoundException('Loan not found');
+    }
+
+    const owed = (status?: string) =>
+      loan.instalments
+        .filter((i) => (status ? i.status === status : true))
+        .reduce((sum, i) => sum.plus(instalmentOwed(toBalance(i))), new Decimal(0));
+
+    return { ...loan, outstanding: owed(), overdue: owed('OVERDUE') };
+  }
+
+  /**
+   * Record an officer's approval. The loan is approved once the group's
+   * minimum number of officers agree; the member's limit and the pot are
+   * checked again with each vote as both may have moved since they applied.
+   */
+  async approveLoan(groupId: string, loanId: string, dto: ApproveLoanDto, userId: string) {
+    const loan = await this.findReviewableLoan(groupId, loanId, userId);
+    const { rules } = await this.requireLendingGroup(groupId);
+    const principal = new Decimal(loan.principal.toString());
+
+    const [savingsBalance, borrowed, potBalance] = await Promise.all([
+      this.ledgerService.getMemberBalance(groupId, loan.memberId),
+      this.borrowedBy(groupId, loan.memberId, loanId),
+      this.ledgerService.getBalance(groupId),
+    ]);
+    const available = availableLoanLimit(
+      savingsBalance,
+      rules.loanLimitPercent!.toString(),
+      borrowed,
+    );
+    if (principal.greaterThan(available)) {
+      throw new BadRequestException(
+        `Loan is above the member's limit of ${loan.currency} ${available.toFixed(2)}`,
+      );
+    }
+    if (principal.greaterThan(potBalance)) {
+      throw new BadRequestException(
+        `Insufficient balance. Current: ${potBalance.toString()}, Loan: ${principal.toString()}`,
+      );
+    }
+
+    // The vote, the count and the decision go together, so two officers
+    // voting at once cannot both miss or both pass the last approval
+    const requiredApprovals = rules.minApprovalCount;
+    const approvalCount = await this.prisma.$transaction(
+      async (tx) => {
+        await tx.memberLoanApproval.create({
+          data: { loanId, approverId: userId, decision: 'APPROVED', reason: dto.reason },
+        });
+        const approvalCount = await tx.memberLoanApproval.count({
+          where: { loanId, decision: 'APPROVED' },
+        });
+
+        const { count } = await tx.memberLoan.updateMany({
+          where: { id: loanId, status: 'PENDING' },
+          data:
+            approvalCount >= requiredApprovals
+              ? { status: 'APPROVED', approvedAt: new Date() }
+              : { updatedAt: new Date() },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Loan has already been decided');
+        }
+
+        return approvalCount;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    if (approvalCount < requiredApprovals) {
+      await this.auditService.log({
+        actorId: userId,
+        actorType: 'USER',
+        action: 'LOAN_APPROVAL_ADDED',
+        resourceType: 'MEMBER_LOAN',
+        resourceId: loanId,
+        groupId,
+        afterState: { approvalCount, requiredApprovals, status: 'PENDING' },
+        outcome: 'SUCCESS',
+      });
+      return this.getLoan(groupId, loanId);
+    }
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LOAN_APPROVED',
+      resourceType: 'MEMBER_LOAN',
+      resourceId: loanId,
+      groupId,
+      beforeState: { status: 'PENDING' },
+      afterState: { status: 'APPROVED', principal: principal.toFixed(2), approvalCount },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notify(
+      loan.memberId,
+      groupId,
+      'LOAN_APPROVED',
+      'Loan approved',
+      `Your loan of ${loan.currency} ${principal.toFixed(2)} has been approved and will be paid ` +
+        'to you shortly.',
+      { loanId },
+    );
+
+    return this.getLoan(groupId, loanId);
+  }
+
+  async rejectLoan(groupId: string, loanId: string, dto: RejectLoanDto, userId: string) {
+    const loan = await this.findReviewableLoan(groupId, loanId, userId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.memberLoanApproval.create({
+        data: { loanId, approverId: userId, decision: 'REJECTED', reason: dto.reason },
+      });
+      const { count } = await tx.memberLoan.updateMany({
+        where: { id: loanId, status: 'PENDING' },
+        data: { status: 'REJECTED' },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Loan has already been decided');
+      }
+    });
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LOAN_REJECTED',
+      resourceType: 'MEMBER_LOAN',
+      resourceId: loanId,
+      groupId,
+      beforeState: { status: 'PENDING' },
+      afterState: { status: 'REJECTED', reason: dto.reason },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notify(
+      loan.memberId,
+      groupId,
+      'LOAN_REJECTED',
+      'Loan not approved',
+      `Your loan of ${loan.currency} ${loan.principal.toFixed(2)} was not approved: ${dto.reason}`,
+      { loanId },
+    );
+
+    return this.getLoan(groupId, loanId);
+  }
+
+  /**
+   * Withdraw a loan before it is paid out; the member who applied or the
+   * chairperson can do this
+   */
+  async cancelLoan(groupId: string, loanId: string, userId: string) {
+    const loan = await this.findLoanOrFail(groupId, loanId);
+
+    if (loan.status !== 'PENDING' && loan.status !== 'APPROVED') {
+      throw new BadRequestException(`Cannot cancel a ${loan.status.toLowerCase()} loan`);
+    }
+
+    if (loan.memberId !== userId) {
+      const membership = await this.prisma.groupMember.findFirst({
+        where: { groupId, userId, status: 'ACTIVE', deletedAt: null, role: 'CHAIRPERSON' },
+      });
+      if (!membership) {
+        throw new ForbiddenException('Only the member or the chairperson can cancel a loan');
+      }
+    }
+
+    const { count } = await this.prisma.memberLoan.updateMany({
+      where: { id: loanId, status: { in: ['PENDING', 'APPROVED'] } },
+      data: { status: 'CANCELLED' },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Loan has already been decided or paid out');
+    }
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LOAN_CANCELLED',
+      resourceType: 'MEMBER_LOAN',
+      resourceId: loanId,
+      groupId,
+      beforeState: { status: loan.status },
+      afterState: { status: 'CANCELLED' },
+      outcome: 'SUCCESS',
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Pay an approved loan out of the pot and set its repayment schedule,
+   * the first instalment falling due a month from today
+   */
+  async disburseLoan(groupId: string, loanId: string, dto: DisburseLoanDto, userId: string) {
+    const loan = await this.findLoanOrFail(groupId, loanId);
+
+    if (loan.status !== 'APPROVED') {
+      throw new BadRequestException(`Cannot pay out a ${loan.status.toLowerCase()} loan`);
+    }
+    await this.requireTreasurerOrChairperson(
+      groupId,
+      userId,
+      'Only treasurer or chairperson can pay out loans',
+    );
+    if (loan.memberId === userId) {
+      throw new ForbiddenException('You cannot pay out your own loan');
+    }
+
+    const disbursedAt = new Date();
+    const schedule = buildRepaymentSchedule(
+      loan.principal.toString(),
+      loan.interestRate.toString(),
+      loan.termMonths,
+      disbursedAt,
+    );
+
+    const ledgerEntry = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.memberLoan.updateMany({
+          where: { id: loanId, status: 'APPROVED' },
+          data: {
+            status: 'ACTIVE',
+            disbursedById: userId,
+            disbursedAt,
+            paymentReference: dto.paymentReference,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Loan has already been paid out');
+        }
+
+        const { entry } = await this.ledgerService.appendLoanDisbursementDebit(
+          tx,
+          groupId,
+          loanId,
+          loan.principal.toString(),
+          memberName(loan.member),
+          userId,
+        );
+
+        await tx.memberLoanInstalment.createMany({
+          data: schedule.map((instalment) => ({
+            loanId,
+            instalmentNumber: instalment.instalmentNumber,
+            dueDate: instalment.dueDate,
+            principalDue: new Prisma.Decimal(instalment.principalDue.toString()),
+            interestDue: new Prisma.Decimal(instalment.interestDue.toString()),
+          })),
+        });
+        await tx.memberLoan.update({
+          where: { id: loanId },
+          data: { ledgerEntryId: entry.id },
+        });
+
+        return entry;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    const first = schedule[0];
+    const totalInterest = schedule.reduce((sum, i) => sum.plus(i.interestDue), new Decimal(0));
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LOAN_DISBURSED',
+      resourceType: 'MEMBER_LOAN',
+      resourceId: loanId,
+      groupId,
+      beforeState: { status: 'APPROVED' },
+      afterState: {
+        status: 'ACTIVE',
+        principal: loan.principal.toString(),
+        totalInterest: totalInterest.toFixed(2),
+        instalments: schedule.length,
+        firstDueDate: isoDate(first.dueDate),
+        paymentReference: dto.paymentReference,
+        ledgerEntryId: ledgerEntry.id,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notify(
+      loan.memberId,
+      groupId,
+      'LOAN_DISBURSED',
+      'Loan paid out',
+      `${loan.currency} ${loan.principal.toFixed(2)} has been paid to you ` +
+        `(reference ${dto.paymentReference}). Repay it in ${schedule.length} monthly ` +
+        `instalments of ${loan.currency} ${first.principalDue.plus(first.interestDue).toFixed(2)}, ` +
+        `the first due on ${isoDate(first.dueDate)}.`,
+      { loanId },
+    );
+
+    return this.getLoan(groupId, loanId);
+  }
+
+  /**
+   * Record a repayment. It settles the oldest instalments first, each one's
+   * penalty, then interest, then principal. The principal goes back to the
+   * pot as a repayment credit; interest and penalty interest are credited
+   * as income and shared among members by their savings.
+   */
+  async recordRepayment(
+    groupId: string,
+    loanId: string,
+    dto: RecordLoanRepaymentDto,
+    userId: string,
+  ) {
+    const loan = await this.findLoanOrFail(groupId, loanId);
+
+    if (loan.status !== 'ACTIVE') {
+      throw new BadRequestException(`Cannot repay a ${loan.status.toLowerCase()} loan`);
+    }
+    await this.requireTreasurerOrChairperson(
+      groupId,
+      userId,
+      'Only treasurer or chairperson can record loan repayments',
+    );
+
+    // Bring penalty interest up to today so the split is current
+    const paidAt = new Date();
+    await this.assessLoanArrears(loanId, paidAt);
+
+    const amount = new Decimal(dto.amount);
+    const name = memberName(loan.member);
+
+    // The split is worked out from the instalments as they stand inside the
+    // transaction, so two repayments cannot both settle the same instalment
+    const { repayment, owed, split, repaid } = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.memberLoan.updateMany({
+          where: { id: loanId, status: 'ACTIVE' },
+          data: { updatedAt: paidAt },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Loan is no longer being repaid');
+        }
+
+        const instalments = await tx.memberLoanInstalment.findMany({
+          where: { loanId, status: { not: 'PAID' } },
+          orderBy: { instalmentNumber: 'asc' },
+        });
+        const balances = instalments.map(toBalance);
+        const owed = balances.reduce((sum, i) => sum.plus(instalmentOwed(i)), new Decimal(0));
+
+        if (amount.greaterThan(owed)) {
+          throw new BadRequestException(
+            `The loan only has ${loan.currency} ${owed.toFixed(2)} left to repay`,
+          );
+        }
+
+        const split = splitRepayment(amount, balances);
+        const income = split.interest.plus(split.penalty);
+        const shares = income.greaterThan(0) ? await this.interestShares(groupId, income) : [];
+        const repaid = amount.equals(owed);
+
+        const created = await tx.memberLoanRepayment.create({
+          data: {
+            loanId,
+            groupId,
+            amount: new Prisma.Decimal(amount.toString()),
+            principal: new Prisma.Decimal(split.principal.toString()),
+            interest: new Prisma.Decimal(split.interest.toString()),
+            penalty: new Prisma.Decimal(split.penalty.toString()),
+            paymentReference: dto.paymentReference,
+            recordedById: userId,
+          },
+        });
+
+        let principalLedgerEntryId: string | undefined;
+        if (split.principal.greaterThan(0)) {
+          const { entry } = await this.ledgerService.appendLoanRepaymentCredit(
+            tx,
+            groupId,
+            created.id,
+            split.principal.toString(),
+            name,
+            userId,
+          );
+          principalLedgerEntryId = entry.id;
+        }
+
+        let interestLedgerEntryId: string | undefined;
+        if (income.greaterThan(0)) {
+          const { entry } = await this.ledgerService.appendLoanInterestCredit(
+            tx,
+            groupId,
+            created.id,
+            income.toString(),
+            name,
+            split.penalty.toString(),
+            shares,
+            userId,
+          );
+          interestLedgerEntryId = entry.id;
+        }
+
+        for (const part of split.instalments) {
+          await tx.memberLoanInstalment.update({
+            where: { id: part.id },
+            data: {
+              principalPaid: { increment: new Prisma.Decimal(part.principal.toString()) },
+              interestPaid: { increment: new Prisma.Decimal(part.interest.toString()) },
+              penaltyPaid: { increment: new Prisma.Decimal(part.penalty.toString()) },
+              ...(part.settled && { status: 'PAID' as const, paidAt }),
+            },
+          });
+        }
+
+        if (repaid) {
+          await tx.memberLoan.update({
+            where: { id: loanId },
+            data: { status: 'REPAID', repaidAt: paidAt },
+          });
+        }
+
+        const repayment = await tx.memberLoanRepayment.update({
+          where: { id: created.id },
+          data: { principalLedgerEntryId, interestLedgerEntryId },
+        });
+        return { repayment, owed, split, repaid };
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    const outstanding = owed.minus(amount);
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'LOAN_REPAYMENT_RECORDED',
+      resourceType: 'MEMBER_LOAN',
+      resourceId: loanId,
+      groupId,
+      beforeState: { outstanding: owed.toFixed(2), status: 'ACTIVE' },
+      afterState: {
+        repaymentId: repayment.id,
+        amount: amount.toFixed(2),
+        principal: split.principal.toFixed(2),
+        interest: split.interest.toFixed(2),
+        penalty: split.penalty.toFixed(2),
+        paymentReference: dto.paymentReference,
+        outstanding: outstanding.toFixed(2),
+        status: repaid ? 'REPAID' : 'ACTIVE',
+      },
+      outcome: 'SUCCESS',
+    });
+
+    await this.notify(
+      loan.memberId,
+      groupId,
+      repaid ? 'LOAN_REPAID' : 'LOAN_REPAYMENT_RECEIVED',
+      repaid ? 'Loan repaid' : 'Loan repayment received',
+      `We received ${loan.currency} ${amount.toFixed(2)} (reference ${dto.paymentReference}). ` +
+        (repaid
+          ? 'Your loan is now fully repaid.'
+          : `You still owe ${loan.currency} ${outstanding.toFixed(2)}.`),
+      { loanId, repaymentId: repayment.id },
+    );
+
+    return this.getLoan(groupId, loanId);
+  }
+
+  /**
+   * Mark instalments past their due date overdue and charge penalty
+   * interest on them. Called by the daily 'assess-loan-arrears' job for
+   * every group, or by an officer for theirs.
+   */
+  async assessArrears(asOf: Date = new Date(), groupId?: string) {
+    const loans = await this.prisma.memberLoan.findMany({
+      where: {
+        status: 'ACTIVE',
+        ...(groupId && { groupId }),
+        instalments: { some: { status: { not: 'PAID' }, dueDate: { lt: startOfDay(asOf) } } },
+      },
+      select: { id: true },
+    });
+
+    let instalmentsOverdue = 0;
+    let penaltyCharged = new Decimal(0);
+    for (const loan of loans) {
+      try {
+        const result = await this.assessLoanArrears(loan.id, asOf);
+        instalmentsOverdue += result.newlyOverdue;
+        penaltyCharged = penaltyCharged.plus(result.penaltyCharged);
+      } catch (error) {
+        this.logger.error(`Failed to assess arrears for loan ${loan.id}`, error);
+      }
+    }
+
+    this.logger.log(
+      `Assessed ${loans.length} loans in arrears, ${instalmentsOverdue} instalments newly overdue`,
+    );
+
+    return {
+      loansChecked: loans.length,
+      instalmentsOverdue,
+      penaltyCharged: penaltyCharged.toFixed(2),
+    };
+  }
+
+  /**
+   * Charge one loan's penalty interest up to `asOf`. Penalty runs daily on
+   * the principal and interest of each instalment past its due date, and
+   * never on earlier penalty.
+   */
+  async assessLoanArrears(loanId: string, asOf: Date) {
+    const today = startOfDay(asOf);
+    const loan = await this.prisma.memberLoan.findFirst({
+      where: { id: loanId, status: 'ACTIVE' },
+      include: {
+        instalments: {
+          where: { status: { not: 'PAID' }, dueDate: { lt: today } },
+          orderBy: { instalmentNumber: 'asc' },
+        },
+      },
+    });
+
+    if (!loan || loan.instalments.length === 0) {
+      return { newlyOverdue: 0, penaltyCharged: new Decimal(0) };
+    }
+
+    let penaltyCharged = new Decimal(0);
+    const newlyOverdue: typeof loan.instalments = [];
+    for (const instalment of loan.instalments) {
+      const balance = toBalance(instalment);
+      const overdue = balance.principalDue
+        .minus(balance.principalPaid)
+        .plus(balance.interestDue.minus(balance.interestPaid));
+      const penalty = penaltyInterest(
+        overdue,
+        loan.penaltyRate.toString(),
+        instalment.penaltyChargedTo ?? instalment.dueDate,
+        today,
+      );
+
+      // Only charge if nothing has touched the instalment since it was read:
+      // a repayment or another run may have moved it on in the meantime
+      const { count } = await this.prisma.memberLoanInstalment.updateMany({
+        where: {
+          id: instalment.id,
+          status: instalment.status,
+          penaltyChargedTo: instalment.penaltyChargedTo,
+          principalPaid: instalment.principalPaid,
+          interestPaid: instalment.interestPaid,
+        },
+        data: {
+          status: 'OVERDUE',
+          penaltyCharged: { increment: new Prisma.Decimal(penalty.toString()) },
+          penaltyChargedTo: today,
+        },
+      });
+      if (count === 0) {
+        continue;
+      }
+
+      penaltyCharged = penaltyCharged.plus(penalty);
+      if (instalment.status === 'DUE') {
+        newlyOverdue.push(instalment);
+      }
+    }
+
+    if (newlyOverdue.length > 0) {
+      const overdue = newlyOverdue.reduce(
+        (sum, i) => sum.plus(instalmentOwed(toBalance(i))),
+        new Decimal(0),
+      );
+
+      await this.auditService.log({
+        actorType: 'SYSTEM',
+        action: 'LOAN_INSTALMENTS_OVERDUE',
+        resourceType: 'MEMBER_LOAN',
+        resourceId: loanId,
+        groupId: loan.groupId,
+        afterState: {
+          instalments: newlyOverdue.map((i) => i.instalmentNumber),
+          overdue: overdue.toFixed(2),
+          penaltyRate: loan.penaltyRate.toString(),
+        },
+        outcome: 'SUCCESS',
+      });
+
+      await this.notify(
+        loan.memberId,
+        loan.groupId,
+        'LOAN_INSTALMENT_OVERDUE',
+        'Loan instalment overdue',
+        `${loan.currency} ${overdue.toFixed(2)} of your loan was due on ` +
+          `${isoDate(newlyOverdue[0].dueDate)} and has not been paid. ` +
+          (loan.penaltyRate.greaterThan(0)
+            ? `Penalty interest of ${loan.penaltyRate.toString()}% a month is charged until it is.`
+            : 'Please pay it as soon as you can.'),
+        { loanId },
+      );
+    }
+
+    return { newlyOverdue: newlyOverdue.length, penaltyCharged };
+  }
+
+  /**
+   * Loan interest belongs to the members, shared by their savings as a
+   * proportional payout would be
+   */
+  private async interestShares(groupId: string, income: Decimal): Promise<MemberLedgerPosting[]> {
+    const balances = await this.ledgerService.getMemberBalances(groupId);
+    const weights = [...balances.entries()]
+      .filter(([, balance]) => balance.greaterThan(0))
+      .map(([memberId, weight]) => ({ memberId, weight }));
+    if (weights.length === 0) {
+      return [];
+    }
+
+    return allocateByWeight(income, weights).map((share) => ({
+      memberId: share.memberId,
+      amount: share.amount,
+    }));
+  }
+
+  /**
+   * Principal a member has asked for or still owes, other than on `excludeLoanId`
+   */
+  private async borrowedBy(
+    groupId: string,
+    memberId: string,
+    excludeLoanId?: string,
+  ): Promise<Decimal> {
+    const loans = await this.prisma.memberLoan.findMany({
+      where: {
+        groupId,
+        memberId,
+        status: { in: OPEN_LOAN_STATUSES },
+        ...(excludeLoanId && { id: { not: excludeLoanId } }),
+      },
+      select: { principal: true, instalments: { select: { principalPaid: true } } },
+    });
+
+    return loans.reduce(
+      (sum, loan) =>
+        loan.instalments.reduce(
+          (left, i) => left.minus(i.principalPaid.toString()),
+          sum.plus(loan.principal.toString()),
+        ),
+      new Decimal(0),
+    );
+  }
+
+  private async requireLendingGroup(groupId: string) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'SAVINGS', deletedAt: null },
+      include: { savingsRules: true },
+    });
+
+    if (!group || !group.savingsRules) {
+      throw new NotFoundException('Savings group not found');
+    }
+    if (!group.savingsRules.loanLimitPercent?.greaterThan(0)) {
+      throw new BadRequestException('This group does not lend to its members');
+    }
+
+    return { group, rules: group.savingsRules };
+  }
+
+  /**
+   * A pending loan the user may vote on: they are an officer, have not
+   * voted yet, and are not the borrower
+   */
+  private async findReviewableLoan(groupId: string, loanId: string, userId: string) {
+    const loan = await this.prisma.memberLoan.findFirst({
+      where: { id: loanId, groupId },
+      include: { approvals: true },
+    });
+
+    if (!loan) {
+      throw new NotFoundException('Loan not found');
+    }
+    if (loan.status !== 'PENDING') {
+      throw new BadRequestException(`Loan is already ${loan.status.toLowerCase()}`);
+    }
+    if (loan.memberId === userId) {
+      throw new ForbiddenException('You cannot review your own loan');
+    }
+    if (loan.approvals.some((a) => a.approverId === userId)) {
+      throw new BadRequestException('You have already voted on this loan');
+    }
+
+    await this.requireTreasurerOrChairperson(
+      groupId,
+      userId,
+      'Only treasurer or chairperson can review loans',
+    );
+
+    return loan;
+  }
+
+  private async findLoanOrFail(groupId: string, loanId: string) {
+    const loan = await this.prisma.memberLoan.findFirst({
+      where: { id: loanId, groupId },
+      include: { member: { select: memberSelect } },
+    });
+
+    if (!loan) {
+      throw new NotFoundException('Loan not found');
+    }
+
+    return loan;
+  }
+
+  private async requireTreasurerOrChairperson(groupId: string, userId: string, message: string) {
+    const membership = await this.prisma.groupMember.findFirst({
+      where: {
+        groupId,
+        userId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        role: { in: ['TREASURER', 'CHAIRPERSON'] },
+      },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException(message);
+    }
+
+    return membership;
+  }
+
+  private async notify(
+    userId: string,
+    groupId: string,
+    type: string,
+    title: string,
+    body: string,
+    data: Record<string, string>,
+  ) {
+    await this.notificationsService.send({
+      userId,
+      type,
+      channels: ['IN_APP', 'EMAIL'],
+      title,
+      body,
+      data,
+      groupId,
+    });
+  }
+}
+
+function toBalance(instalment: {
+  id: string;
+  principalDue: Prisma.Decimal;
+  interestDue: Prisma.Decimal;
+  principalPaid: Prisma.Decimal;
+  interestPaid: Prisma.Decimal;
+  penaltyCharged: Prisma.Decimal;
+  penaltyPaid: Prisma.Decimal;
+}): InstalmentBalance {
+  return {
+    id: instalment.id,
+    principalDue: new Decimal(instalment.principalDue.toString()),
+    interestDue: new Decimal(instalment.interestDue.toString()),
+    principalPaid: new Decimal(instalment.principalPaid.toString()),
+    interestPaid: new Decimal(instalment.interestPaid.toString()),
+    penaltyCharged: new Decimal(instalment.penaltyCharged.toString()),
+    penaltyPaid: new Decimal(instalment.penaltyPaid.toString()),
+  };
+}
+
+function memberName(member: { firstName: string; lastName: string }): string {
+  return `${member.firstName} ${member.lastName}`;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
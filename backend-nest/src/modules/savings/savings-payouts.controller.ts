@@ -13,6 +13,7 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@ne
 import { SavingsPayoutsService } from './savings-payouts.service';
 import { CreatePayoutDto } from './dto/create-payout.dto';
 import { ApprovePayoutDto, RejectPayoutDto } from './dto/approve-payout.dto';
+import { RecordLinePaymentDto, FailPayoutDto } from './dto/disburse-payout.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { TreasurerOrHigher, AnyMember } from '../auth/decorators/roles.decorator';
@@ -83,6 +84,39 @@ export class SavingsPayoutsController {
     return this.payoutsService.rejectPayout(payoutId, dto, user.id);
   }
 
+  @Post('savings/payouts/:payoutId/disburse')
+  @ApiOperation({ summary: 'Start disbursing an approved payout (debits the pot)' })
+  @ApiResponse({ status: 200, description: 'Payout moved to PROCESSING' })
+  disburse(
+    @Param('payoutId', ParseUUIDPipe) payoutId: string,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.payoutsService.startDisbursement(payoutId, user.id);
+  }
+
+  @Post('savings/payouts/:payoutId/lines/:lineId/paid')
+  @ApiOperation({ summary: 'Record payment to one recipient' })
+  @ApiResponse({ status: 200, description: 'Line marked as paid; payout completes when all lines are paid' })
+  recordLinePayment(
+    @Param('payoutId', ParseUUIDPipe) payoutId: string,
+    @Param('lineId', ParseUUIDPipe) lineId: string,
+    @Body() dto: RecordLinePaymentDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.payoutsService.recordLinePayment(payoutId, lineId, dto, user.id);
+  }
+
+  @Post('savings/payouts/:payoutId/fail')
+  @ApiOperation({ summary: 'Mark a disbursement as failed and reverse unpaid lines' })
+  @ApiResponse({ status: 200, description: 'Payout failed and reversal posted' })
+  fail(
+    @Param('payoutId', ParseUUIDPipe) payoutId: string,
+    @Body() dto: FailPayoutDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.payoutsService.failDisbursement(payoutId, dto, user.id);
+  }
+
   @Delete('savings/payouts/:payoutId')
   @ApiOperation({ summary: 'Cancel a pending payout' })
   @ApiResponse({ status: 200, description: 'Payout cancelled' })
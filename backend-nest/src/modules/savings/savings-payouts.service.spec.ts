@@ -0,0 +1,367 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Decimal } from 'decimal.js';
+import { SavingsPayoutsService } from './savings-payouts.service';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+describe('SavingsPayoutsService', () => {
+  let service: SavingsPayoutsService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    group: {
+      findFirst: jest.fn(),
+    },
+    savingsPayout: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    savingsPayoutApproval: {
+      create: jest.fn(),
+    },
+    savingsPayoutLine: {
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    groupMember: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    document: {
+      findFirst: jest.fn(),
+    },
+    memberExitSettlement: {
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockAuditService = {
+    log: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    getBalance: jest.fn(),
+    getMemberBalances: jest.fn(),
+    appendPayoutDebit: jest.fn(),
+    appendPayoutReversal: jest.fn(),
+  };
+
+  const line = (id: string, amount: number, status = 'PENDING') => ({
+    id,
+    memberId: `member-${id}`,
+    amount: new Prisma.Decimal(amount),
+    status,
+  });
+
+  const basePayout = {
+    id: 'payout-1',
+    groupId: 'group-1',
+    amount: new Prisma.Decimal(300),
+    payoutType: 'MANUAL',
+    description: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavingsPayoutsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<SavingsPayoutsService>(SavingsPayoutsService);
+
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      Array.isArray(fn) ? Promise.all(fn) : fn(mockPrismaService),
+    );
+    mockPrismaService.savingsPayout.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.savingsPayoutLine.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.savingsPayoutLine.count.mockResolvedValue(0);
+    mockPrismaService.groupMember.findFirst.mockResolvedValue({ role: 'TREASURER' });
+    jest.spyOn(service, 'getPayout').mockResolvedValue({} as any);
+  });
+
+  describe('createPayout', () => {
+    it('should weight PROPORTIONAL payouts by member balances', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue({ id: 'group-1', status: 'ACTIVE' });
+      mockLedgerService.getBalance.mockResolvedValue(new Decimal(5000));
+      mockPrismaService.groupMember.findMany.mockResolvedValue([
+        { userId: 'member-a' },
+        { userId: 'member-b' },
+        { userId: 'member-c' },
+      ]);
+      mockLedgerService.getMemberBalances.mockResolvedValue(
+        new Map([
+          ['member-a', new Decimal(3000)],
+          ['member-b', new Decimal(1000)],
+          ['member-c', new Decimal(-200)],
+        ]),
+      );
+      mockPrismaService.savingsPayout.create.mockResolvedValue({ id: 'payout-1' });
+
+      await service.createPayout(
+        'group-1',
+        { amount: 1000, payoutType: 'MANUAL', distributionType: 'PROPORTIONAL' } as any,
+        'treasurer-1',
+      );
+
+      const { lines } = mockPrismaService.savingsPayout.create.mock.calls[0][0].data;
+      expect(lines.create.map((l: any) => [l.memberId, l.amount.toString()])).toEqual([
+        ['member-a', '750'],
+        ['member-b', '250'],
+      ]);
+    });
+  });
+
+  describe('approvePayout', () => {
+    it('should approve without touching the ledger', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'PENDING',
+        group: { savingsRules: { minApprovalCount: 1 } },
+        approvals: [],
+      });
+      mockLedgerService.getBalance.mockResolvedValue(new Decimal(1000));
+
+      await service.approvePayout('payout-1', {}, 'chair-1');
+
+      expect(mockPrismaService.savingsPayout.update).toHaveBeenCalledWith({
+        where: { id: 'payout-1' },
+        data: expect.objectContaining({ status: 'APPROVED' }),
+      });
+      expect(mockLedgerService.appendPayoutDebit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startDisbursement', () => {
+    it('should debit the pot and move the payout to PROCESSING', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'APPROVED',
+        lines: [line('a', 100), line('b', 200)],
+        ledgerEntry: null,
+      });
+
+      await service.startDisbursement('payout-1', 'treasurer-1');
+
+      expect(mockLedgerService.appendPayoutDebit).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'payout-1',
+        '300',
+        'MANUAL',
+        undefined,
+        'treasurer-1',
+        [
+          { memberId: 'member-a', amount: '100' },
+          { memberId: 'member-b', amount: '200' },
+        ],
+      );
+      expect(mockPrismaService.savingsPayout.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payout-1', status: 'APPROVED' },
+        data: expect.objectContaining({ status: 'PROCESSING' }),
+      });
+    });
+
+    it('should not debit again when another disbursement started first', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'APPROVED',
+        lines: [line('a', 300)],
+        ledgerEntry: null,
+      });
+      mockPrismaService.savingsPayout.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.startDisbursement('payout-1', 'treasurer-1')).rejects.toThrow(
+        'Payout disbursement has already started',
+      );
+      expect(mockLedgerService.appendPayoutDebit).not.toHaveBeenCalled();
+    });
+
+    it('should not debit twice for payouts debited at approval', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'APPROVED',
+        lines: [line('a', 300)],
+        ledgerEntry: { id: 'entry-1' },
+      });
+
+      await service.startDisbursement('payout-1', 'treasurer-1');
+
+      expect(mockLedgerService.appendPayoutDebit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordLinePayment', () => {
+    it('should require a reference or evidence', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'PROCESSING',
+        lines: [line('a', 300)],
+      });
+
+      await expect(
+        service.recordLinePayment('payout-1', 'a', { paymentMethod: 'CASH' }, 'treasurer-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should complete the payout when the last line is paid', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'PROCESSING',
+        lines: [line('a', 100, 'PAID'), line('b', 200)],
+      });
+
+      await service.recordLinePayment(
+        'payout-1',
+        'b',
+        { paymentMethod: 'EFT', paymentReference: 'REF-1' },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.savingsPayoutLine.updateMany).toHaveBeenCalledWith({
+        where: { id: 'b', status: 'PENDING', payout: { status: 'PROCESSING' } },
+        data: expect.objectContaining({ status: 'PAID', paymentReference: 'REF-1' }),
+      });
+      expect(mockPrismaService.savingsPayout.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payout-1', status: 'PROCESSING' },
+        data: expect.objectContaining({ status: 'COMPLETED', processedAt: expect.any(Date) }),
+      });
+    });
+
+    it('should not pay a line once the disbursement has failed', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'PROCESSING',
+        lines: [line('a', 300)],
+      });
+      mockPrismaService.savingsPayoutLine.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.recordLinePayment(
+          'payout-1',
+          'a',
+          { paymentMethod: 'EFT', paymentReference: 'REF-1' },
+          'treasurer-1',
+        ),
+      ).rejects.toThrow('Payout line is no longer awaiting payment');
+      expect(mockPrismaService.savingsPayout.updateMany).not.toHaveBeenCalled();
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+
+    it('should settle the exit settlement when a member exit payout completes', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        payoutType: 'MEMBER_EXIT',
+        status: 'PROCESSING',
+        lines: [line('a', 300)],
+      });
+
+      await service.recordLinePayment(
+        'payout-1',
+        'a',
+        { paymentMethod: 'EFT', paymentReference: 'REF-1' },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.memberExitSettlement.updateMany).toHaveBeenCalledWith({
+        where: { payoutId: 'payout-1', status: 'PAYOUT_RAISED' },
+        data: expect.objectContaining({ status: 'SETTLED' }),
+      });
+    });
+
+    it('should leave the payout processing while lines are outstanding', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'PROCESSING',
+        lines: [line('a', 100), line('b', 200)],
+      });
+      mockPrismaService.savingsPayoutLine.count.mockResolvedValue(1);
+
+      await service.recordLinePayment(
+        'payout-1',
+        'a',
+        { paymentMethod: 'EFT', paymentReference: 'REF-1' },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.savingsPayout.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should complete the payout when another line was paid meanwhile', async () => {
+      // Read before the other line was paid; the count inside the transaction sees it
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'PROCESSING',
+        lines: [line('a', 100), line('b', 200)],
+      });
+
+      await service.recordLinePayment(
+        'payout-1',
+        'a',
+        { paymentMethod: 'EFT', paymentReference: 'REF-1' },
+        'treasurer-1',
+      );
+
+      expect(mockPrismaService.savingsPayoutLine.count).toHaveBeenCalledWith({
+        where: { payoutId: 'payout-1', status: { not: 'PAID' } },
+      });
+      expect(mockPrismaService.savingsPayout.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payout-1', status: 'PROCESSING' },
+        data: expect.objectContaining({ status: 'COMPLETED' }),
+      });
+    });
+  });
+
+  describe('failDisbursement', () => {
+    it('should reverse only the unpaid lines', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'PROCESSING',
+        lines: [line('a', 100, 'PAID'), line('b', 200)],
+      });
+      mockLedgerService.appendPayoutReversal.mockResolvedValue({ entry: { id: 'entry-2' } });
+
+      await service.failDisbursement('payout-1', { reason: 'Account closed' }, 'treasurer-1');
+
+      expect(mockLedgerService.appendPayoutReversal).toHaveBeenCalledWith(
+        mockPrismaService,
+        'group-1',
+        'payout-1',
+        new Decimal(200),
+        'Account closed',
+        'treasurer-1',
+        [{ memberId: 'member-b', amount: '200' }],
+      );
+      expect(mockPrismaService.savingsPayout.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payout-1', status: 'PROCESSING' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'PAYOUT_FAILED' }),
+      );
+    });
+
+    it('should not reverse twice when the payout has already failed', async () => {
+      mockPrismaService.savingsPayout.findFirst.mockResolvedValue({
+        ...basePayout,
+        status: 'PROCESSING',
+        lines: [line('a', 300)],
+      });
+      mockPrismaService.savingsPayout.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.failDisbursement('payout-1', { reason: 'Account closed' }, 'treasurer-1'),
+      ).rejects.toThrow('Payout is no longer being disbursed');
+      expect(mockLedgerService.appendPayoutReversal).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -8,7 +8,15 @@ import { PrismaService } from '../../common/prisma/prisma.service';
 import { AuditService } from '../audit/audit.service';
 import { LedgerService } from '../ledger/ledger.service';
 import { CreatePayoutDto } from './dto/create-payout.dto';
+import {
+  PayoutShare,
+  allocateByWeight,
+  allocateEqually,
+  validateCustomAllocation,
+} from './payout-allocation';
+import { Prisma } from '@prisma/client';
 import { ApprovePayoutDto, RejectPayoutDto } from './dto/approve-payout.dto';
+import { RecordLinePaymentDto, FailPayoutDto } from './dto/disburse-payout.dto';
 import { Decimal } from 'decimal.js';
 
 @Injectable()
@@ -19,7 +27,12 @@ export class SavingsPayoutsService {
     private ledgerService: LedgerService,
   ) {}
 
-  async createPayout(groupId: string, dto: CreatePayoutDto, userId: string) {
+  async createPayout(
+    groupId: string,
+    dto: CreatePayoutDto,
+    userId: string,
+    options: { system?: boolean; dissolutionId?: string; memberExit?: boolean } = {},
+  ) {
     // Verify group is a savings group
     const group = await this.prisma.group.findFirst({
       where: { id: groupId, type: 'SAVINGS', deletedAt: null },
@@ -30,6 +43,20 @@ export class SavingsPayoutsService {
       throw new NotFoundException('Savings group not found');
     }
 
+    // Dissolution payouts are only raised by the dissolution settlement,
+    // which is also the only payout allowed once the group is frozen
+    if (dto.payoutType === 'DISSOLUTION' && !options.dissolutionId) {
+      throw new BadRequestException('Dissolution payouts are raised when settling a dissolution');
+    }
+    if (dto.payoutType === 'MEMBER_EXIT' && !options.memberExit) {
+      throw new BadRequestException('Member exit payouts are raised from an exit settlement');
+    }
+    if (group.status !== 'ACTIVE' && !options.dissolutionId) {
+      throw new BadRequestException(
+        `Cannot create payouts for a ${group.status.toLowerCase()} group`,
+      );
+    }
+
     // Get current balance
     const currentBalance = await this.ledgerService.getBalance(groupId);
     const requestedAmount = new Decimal(dto.amount);
@@ -51,6 +78,9 @@ export class SavingsPayoutsService {
       }
     }
 
+    // Work out who gets what before anything is saved
+    const { shares, periodStart, periodEnd } = await this.calculatePayoutLines(groupId, dto);
+
     const payout = await this.prisma.savingsPayout.create({
       data: {
         groupId,
@@ -60,20 +90,35 @@ export class SavingsPayoutsService {
         description: dto.description,
         targetMembers: dto.targetMembers,
         distributionType: dto.distributionType || 'EQUAL',
+        periodStart,
+        periodEnd,
         createdById: userId,
         idempotencyKey: dto.idempotencyKey,
+        dissolutionId: options.dissolutionId,
         status: 'PENDING',
+        lines: {
+          create: shares.map((share) => ({
+            memberId: share.memberId,
+            amount: new Prisma.Decimal(share.amount.toString()),
+            weight: share.weight ? new Prisma.Decimal(share.weight.toString()) : null,
+          })),
+        },
       },
       include: {
         createdBy: {
           select: { id: true, firstName: true, lastName: true, email: true },
         },
+        lines: {
+          include: {
+            member: { select: { id: true, firstName: true, lastName: true } },
+          },
+        },
       },
     });
 
     await this.auditService.log({
-      actorId: userId,
-      actorType: 'USER',
+      actorId: options.system ? undefined : userId,
+      actorType: options.system ? 'SYSTEM' : 'USER',
       action: 'PAYOUT_CREATED',
       resourceType: 'SAVINGS_PAYOUT',
       resourceId: payout.id,
@@ -82,6 +127,10 @@ export class SavingsPayoutsService {
         amount: dto.amount.toString(),
         payoutType: dto.payoutType,
         distributionType: dto.distributionType,
+        lines: shares.map((share) => ({
+          memberId: share.memberId,
+          amount: share.amount.toFixed(2),
+        })),
       },
       outcome: 'SUCCESS',
     });
@@ -115,6 +164,11 @@ export class SavingsPayoutsService {
               },
             },
           },
+          lines: {
+            include: {
+              member: { select: { id: true, firstName: true, lastName: true } },
+            },
+          },
         },
         orderBy: { createdAt: 'desc' },
         take: limit,
@@ -143,6 +197,11 @@ export class SavingsPayoutsService {
             },
           },
         },
+        lines: {
+          include: {
+            member: { select: { id: true, firstName: true, lastName: true, email: true } },
+          },
+        },
       },
     });
 
@@ -215,19 +274,9 @@ export class SavingsPayoutsService {
     const approvalCount = payout.approvals.filter((a) => a.decision === 'APPROVED').length + 1;
     const requiredApprovals = payout.group.savingsRules?.minApprovalCount || 2;
 
-    // Check if we have enough approvals
+    // Check if we have enough approvals. The ledger is only debited once
+    // disbursement starts, so an approved payout can still be cancelled.
     if (approvalCount >= requiredApprovals) {
-      // Enough approvals - debit from ledger
-      await this.ledgerService.debitPayout(
-        payout.groupId,
-        payout.id,
-        payoutAmount,
-        payout.payoutType,
-        payout.description || undefined,
-        userId,
-      );
-
-      // Update payout status
       await this.prisma.savingsPayout.update({
         where: { id: payoutId },
         data: {
@@ -313,6 +362,7 @@ export class SavingsPayoutsService {
       where: { id: payoutId },
       data: { status: 'REJECTED' },
     });
+    await this.reopenExitSettlement(payout);
 
     await this.auditService.log({
       actorId: userId,
@@ -340,7 +390,7 @@ export class SavingsPayoutsService {
       throw new NotFoundException('Payout not found');
     }
 
-    if (payout.status !== 'PENDING') {
+    if (payout.status !== 'PENDING' && payout.status !== 'APPROVED') {
       throw new BadRequestException(`Cannot cancel payout with status ${payout.status}`);
     }
 
@@ -365,6 +415,7 @@ export class SavingsPayoutsService {
       where: { id: payoutId },
       data: { status: 'CANCELLED' },
     });
+    await this.reopenExitSettlement(payout);
 
     await this.auditService.log({
       actorId: userId,
@@ -378,4 +429,463 @@ export class SavingsPayoutsService {
 
     return { success: true };
   }
+
+  /**
+   * Move an approved payout to PROCESSING and debit the pot.
+   * Recipients are then paid one line at a time.
+   */
+  async startDisbursement(payoutId: string, userId: string) {
+    const payout = await this.prisma.savingsPayout.findFirst({
+      where: { id: payoutId, deletedAt: null },
+      include: { lines: true, ledgerEntry: true },
+    });
+
+    if (!payout) {
+      throw new NotFoundException('Payout not found');
+    }
+
+    if (payout.status !== 'APPROVED') {
+      throw new BadRequestException(`Cannot disburse payout with status ${payout.status}`);
+    }
+
+    if (payout.lines.length === 0) {
+      throw new BadRequestException('Payout has no member lines to disburse');
+    }
+
+    await this.requireTreasurerOrChairperson(
+      payout.groupId,
+      userId,
+      'Only treasurer or chairperson can disburse payouts',
+    );
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.savingsPayout.updateMany({
+          where: { id: payoutId, status: 'APPROVED' },
+          data: {
+            status: 'PROCESSING',
+            disbursementStartedAt: new Date(),
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Payout disbursement has already started');
+        }
+
+        // Payouts approved before disbursement tracking were debited at approval
+        if (!payout.ledgerEntry) {
+          await this.ledgerService.appendPayoutDebit(
+            tx,
+            payout.groupId,
+            payout.id,
+            payout.amount.toString(),
+            payout.payoutType,
+            payout.description || undefined,
+            userId,
+            payout.lines.map((l) => ({ memberId: l.memberId, amount: l.amount.toString() })),
+          );
+        }
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'PAYOUT_DISBURSEMENT_STARTED',
+      resourceType: 'SAVINGS_PAYOUT',
+      resourceId: payoutId,
+      groupId: payout.groupId,
+      beforeState: { status: 'APPROVED' },
+      afterState: {
+        status: 'PROCESSING',
+        amount: payout.amount.toString(),
+        lineCount: payout.lines.length,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getPayout(payoutId);
+  }
+
+  /**
+   * Record that a recipient has been paid. Completes the payout once
+   * every line is paid.
+   */
+  async recordLinePayment(
+    payoutId: string,
+    lineId: string,
+    dto: RecordLinePaymentDto,
+    userId: string,
+  ) {
+    const payout = await this.prisma.savingsPayout.findFirst({
+      where: { id: payoutId, deletedAt: null },
+      include: { lines: true },
+    });
+
+    if (!payout) {
+      throw new NotFoundException('Payout not found');
+    }
+
+    if (payout.status !== 'PROCESSING') {
+      throw new BadRequestException('Payout is not being disbursed');
+    }
+
+    const line = payout.lines.find((l) => l.id === lineId);
+    if (!line) {
+      throw new NotFoundException('Payout line not found');
+    }
+
+    if (line.status !== 'PENDING') {
+      throw new BadRequestException(`Payout line is already ${line.status.toLowerCase()}`);
+    }
+
+    if (!dto.paymentReference && !dto.evidenceDocumentId) {
+      throw new BadRequestException(
+        'A bank reference or cash handover evidence document is required',
+      );
+    }
+
+    await this.requireTreasurerOrChairperson(
+      payout.groupId,
+      userId,
+      'Only treasurer or chairperson can disburse payouts',
+    );
+
+    if (dto.evidenceDocumentId) {
+      const document = await this.prisma.document.findFirst({
+        where: { id: dto.evidenceDocumentId, groupId: payout.groupId, deletedAt: null },
+      });
+      if (!document) {
+        throw new BadRequestException('Evidence document not found in this group');
+      }
+    }
+
+    const paidAt = new Date();
+    // The line, and the payout once its last line is paid, only move on
+    // while the payout is still being disbursed
+    const completed = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.savingsPayoutLine.updateMany({
+          where: { id: lineId, status: 'PENDING', payout: { status: 'PROCESSING' } },
+          data: {
+            status: 'PAID',
+            paymentMethod: dto.paymentMethod,
+            paymentReference: dto.paymentReference,
+            evidenceDocumentId: dto.evidenceDocumentId,
+            paidById: userId,
+            paidAt,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Payout line is no longer awaiting payment');
+        }
+
+        const unpaid = await tx.savingsPayoutLine.count({
+          where: { payoutId, status: { not: 'PAID' } },
+        });
+        if (unpaid > 0) {
+          return false;
+        }
+
+        const { count: finished } = await tx.savingsPayout.updateMany({
+          where: { id: payoutId, status: 'PROCESSING' },
+          data: { status: 'COMPLETED', processedAt: paidAt },
+        });
+        if (finished === 0) {
+          throw new BadRequestException('Payout is no longer being disbursed');
+        }
+
+        if (payout.payoutType === 'MEMBER_EXIT') {
+          await tx.memberExitSettlement.updateMany({
+            where: { payoutId, status: 'PAYOUT_RAISED' },
+            data: { status: 'SETTLED', resolvedById: userId, resolvedAt: paidAt },
+          });
+        }
+
+        return true;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'PAYOUT_LINE_PAID',
+      resourceType: 'SAVINGS_PAYOUT',
+      resourceId: payoutId,
+      groupId: payout.groupId,
+      afterState: {
+        lineId,
+        memberId: line.memberId,
+        amount: line.amount.toString(),
+        paymentMethod: dto.paymentMethod,
+        paymentReference: dto.paymentReference,
+        evidenceDocumentId: dto.evidenceDocumentId,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    if (completed) {
+      await this.auditService.log({
+        actorId: userId,
+        actorType: 'USER',
+        action: 'PAYOUT_COMPLETED',
+        resourceType: 'SAVINGS_PAYOUT',
+        resourceId: payoutId,
+        groupId: payout.groupId,
+        beforeState: { status: 'PROCESSING' },
+        afterState: { status: 'COMPLETED', amount: payout.amount.toString() },
+        outcome: 'SUCCESS',
+      });
+    }
+
+    return this.getPayout(payoutId);
+  }
+
+  /**
+   * Mark a disbursement as failed and return every unpaid line to the pot
+   */
+  async failDisbursement(payoutId: string, dto: FailPayoutDto, userId: string) {
+    const payout = await this.prisma.savingsPayout.findFirst({
+      where: { id: payoutId, deletedAt: null },
+      include: { lines: true },
+    });
+
+    if (!payout) {
+      throw new NotFoundException('Payout not found');
+    }
+
+    if (payout.status !== 'PROCESSING') {
+      throw new BadRequestException('Only a payout being disbursed can fail');
+    }
+
+    await this.requireTreasurerOrChairperson(
+      payout.groupId,
+      userId,
+      'Only treasurer or chairperson can fail a disbursement',
+    );
+
+    const unpaidLines = payout.lines.filter((l) => l.status !== 'PAID');
+    const reversalAmount = unpaidLines.reduce(
+      (sum, l) => sum.plus(new Decimal(l.amount.toString())),
+      new Decimal(0),
+    );
+
+    const reversalEntryId = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.savingsPayout.updateMany({
+          where: { id: payoutId, status: 'PROCESSING' },
+          data: {
+            status: 'FAILED',
+            failedAt: new Date(),
+            failureReason: dto.reason,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('Payout is no longer being disbursed');
+        }
+
+        await tx.savingsPayoutLine.updateMany({
+          where: { payoutId, status: { not: 'PAID' } },
+          data: { status: 'FAILED' },
+        });
+
+        if (reversalAmount.isZero()) {
+          return undefined;
+        }
+
+        const { entry } = await this.ledgerService.appendPayoutReversal(
+          tx,
+          payout.groupId,
+          payout.id,
+          reversalAmount,
+          dto.reason,
+          userId,
+          unpaidLines.map((l) => ({ memberId: l.memberId, amount: l.amount.toString() })),
+        );
+        return entry.id as string;
+      },
+      {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      },
+    );
+    await this.reopenExitSettlement(payout);
+
+    await this.auditService.log({
+      actorId: userId,
+      actorType: 'USER',
+      action: 'PAYOUT_FAILED',
+      resourceType: 'SAVINGS_PAYOUT',
+      resourceId: payoutId,
+      groupId: payout.groupId,
+      beforeState: { status: 'PROCESSING' },
+      afterState: {
+        status: 'FAILED',
+        reason: dto.reason,
+        failedLines: unpaidLines.map((l) => l.id),
+        reversedAmount: reversalAmount.toString(),
+        reversalEntryId,
+      },
+      outcome: 'SUCCESS',
+    });
+
+    return this.getPayout(payoutId);
+  }
+
+  /**
+   * A member exit payout that will not be paid sends its settlement back to
+   * PENDING so another payout can be raised or the refund waived
+   */
+  private async reopenExitSettlement(payout: { id: string; payoutType: string }) {
+    if (payout.payoutType !== 'MEMBER_EXIT') {
+      return;
+    }
+
+    await this.prisma.memberExitSettlement.updateMany({
+      where: { payoutId: payout.id, status: 'PAYOUT_RAISED' },
+      data: { status: 'PENDING', payoutId: null },
+    });
+  }
+
+  private async requireTreasurerOrChairperson(groupId: string, userId: string, message: string) {
+    const membership = await this.prisma.groupMember.findFirst({
+      where: {
+        groupId,
+        userId,
+        status: 'ACTIVE',
+        deletedAt: null,
+        role: { in: ['TREASURER', 'CHAIRPERSON'] },
+      },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException(message);
+    }
+
+    return membership;
+  }
+
+  /**
+   * Split a payout into per-member lines according to its distribution type.
+   * EQUAL and PROPORTIONAL go to targetMembers (or every active member);
+   * CUSTOM takes the caller's allocations and checks them against the total.
+   */
+  private async calculatePayoutLines(
+    groupId: string,
+    dto: CreatePayoutDto,
+  ): Promise<{ shares: PayoutShare[]; periodStart?: Date; periodEnd?: Date }> {
+    const distributionType = dto.distributionType || 'EQUAL';
+
+    const activeMembers = await this.prisma.groupMember.findMany({
+      where: { groupId, status: 'ACTIVE', deletedAt: null },
+      select: { userId: true },
+    });
+    const activeIds = new Set(activeMembers.map((m) => m.userId));
+
+    const targetMembers = dto.targetMembers || [];
+    const notMembers = targetMembers.filter((id) => !activeIds.has(id));
+    if (notMembers.length > 0) {
+      throw new BadRequestException(
+        `Target members are not active in this group: ${notMembers.join(', ')}`,
+      );
+    }
+
+    const recipients = (
+      targetMembers.length > 0 ? [...new Set(targetMembers)] : [...activeIds]
+    ).sort();
+    if (recipients.length === 0) {
+      throw new BadRequestException('Group has no active members to pay out to');
+    }
+
+    if (distributionType === 'CUSTOM') {
+      const allocations = dto.allocations || [];
+      if (allocations.length === 0) {
+        throw new BadRequestException('CUSTOM payouts require per-member allocations');
+      }
+
+      const errors = validateCustomAllocation(dto.amount, allocations);
+      const outsideTarget = allocations.filter((a) => !recipients.includes(a.memberId));
+      if (outsideTarget.length > 0) {
+        errors.push(
+          `Allocations include members outside the payout targets: ${outsideTarget.map((a) => a.memberId).join(', ')}`,
+        );
+      }
+      if (targetMembers.length > 0) {
+        const missing = recipients.filter((id) => !allocations.some((a) => a.memberId === id));
+        if (missing.length > 0) {
+          errors.push(`No allocation given for target members: ${missing.join(', ')}`);
+        }
+      }
+      if (errors.length > 0) {
+        throw new BadRequestException(errors.join('; '));
+      }
+
+      return {
+        shares: allocations.map((a) => ({ memberId: a.memberId, amount: new Decimal(a.amount) })),
+      };
+    }
+
+    if (distributionType === 'PROPORTIONAL' && !dto.periodStart && !dto.periodEnd) {
+      // Weight by each member's equity in the pot from their sub-ledger
+      const balances = await this.ledgerService.getMemberBalances(groupId);
+
+      // Members with nothing left in the pot receive nothing
+      const weights = recipients
+        .filter((id) => balances.has(id) && balances.get(id)!.greaterThan(0))
+        .map((id) => ({ memberId: id, weight: balances.get(id)! }));
+      if (weights.length === 0) {
+        throw new BadRequestException('No member has a balance to weight a proportional payout');
+      }
+
+      return { shares: allocateByWeight(dto.amount, weights) };
+    }
+
+    if (distributionType === 'PROPORTIONAL') {
+      // An explicit window weights by approved contributions within it instead
+      const now = new Date();
+      const periodStart = dto.periodStart
+        ? new Date(dto.periodStart)
+        : new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+      const periodEnd = dto.periodEnd ? new Date(dto.periodEnd) : now;
+
+      if (periodStart > periodEnd) {
+        throw new BadRequestException('periodStart must be on or before periodEnd');
+      }
+
+      const contributions = await this.prisma.contribution.findMany({
+        where: {
+          groupId,
+          memberId: { in: recipients },
+          status: 'APPROVED',
+          deletedAt: null,
+          periodStart: { gte: periodStart, lte: periodEnd },
+        },
+        select: { memberId: true, amount: true },
+      });
+
+      const totals = new Map<string, Decimal>();
+      for (const c of contributions) {
+        const current = totals.get(c.memberId) || new Decimal(0);
+        totals.set(c.memberId, current.plus(new Decimal(c.amount.toString())));
+      }
+
+      // Members who contributed nothing in the window receive nothing
+      const weights = recipients
+        .filter((id) => totals.has(id) && totals.get(id)!.greaterThan(0))
+        .map((id) => ({ memberId: id, weight: totals.get(id)! }));
+      if (weights.length === 0) {
+        throw new BadRequestException(
+          'No approved contributions in the period to weight a proportional payout',
+        );
+      }
+
+      return { shares: allocateByWeight(dto.amount, weights), periodStart, periodEnd };
+    }
+
+    return { shares: allocateEqually(dto.amount, recipients) };
+  }
 }
@@ -0,0 +1,216 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SavingsPayoutsService } from './savings-payouts.service';
+import {
+  PayoutScheduleConfig,
+  PayoutScheduleError,
+  getDuePayoutDates,
+  getNextPayoutDates,
+  normalizePayoutSchedule,
+} from './payout-schedule';
+import { Decimal } from 'decimal.js';
+
+// How far back a daily run looks for scheduled dates it may have missed
+const CATCH_UP_DAYS = 7;
+
+@Injectable()
+export class SavingsScheduleService {
+  private readonly logger = new Logger(SavingsScheduleService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+    private notificationsService: NotificationsService,
+    private payoutsService: SavingsPayoutsService,
+  ) {}
+
+  /**
+   * Show the next `count` payout dates for a group and what each would pay
+   * out at today's available balance
+   */
+  async previewSchedule(groupId: string, count = 5) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'SAVINGS', deletedAt: null },
+      include: { savingsRules: true },
+    });
+
+    if (!group || !group.savingsRules) {
+      throw new NotFoundException('Savings group not found');
+    }
+
+    const payoutModel = group.savingsRules.payoutModel;
+    let schedule: PayoutScheduleConfig | null;
+    try {
+      schedule = normalizePayoutSchedule(
+        payoutModel,
+        group.savingsRules.payoutSchedule as Record<string, any> | null,
+      );
+    } catch (error) {
+      if (error instanceof PayoutScheduleError) {
+        throw new BadRequestException(`Stored payout schedule is invalid: ${error.message}`);
+      }
+      throw error;
+    }
+
+    if (!schedule) {
+      return { groupId, payoutModel, schedule: null, payouts: [] };
+    }
+
+    const available = await this.getAvailableBalance(groupId);
+    const estimatedAmount = this.calculateScheduledAmount(available, schedule);
+
+    return {
+      groupId,
+      payoutModel,
+      schedule,
+      availableBalance: available.toString(),
+      payouts: getNextPayoutDates(schedule, new Date(), count).map((date) => ({
+        date,
+        estimatedAmount: estimatedAmount.toString(),
+      })),
+    };
+  }
+
+  /**
+   * Create SCHEDULED payout drafts for every savings group with a payout
+   * date that has arrived. Called by the daily 'generate-scheduled-payouts' job.
+   */
+  async generateScheduledPayouts(asOf: Date = new Date()) {
+    const groups = await this.prisma.group.findMany({
+      where: {
+        type: 'SAVINGS',
+        status: 'ACTIVE',
+        deletedAt: null,
+        savingsRules: { payoutModel: { not: 'ON_DEMAND' } },
+      },
+      select: { id: true },
+    });
+
+    let payoutsCreated = 0;
+    for (const group of groups) {
+      try {
+        const payouts = await this.generateGroupScheduledPayouts(group.id, asOf);
+        payoutsCreated += payouts.length;
+      } catch (error) {
+        this.logger.error(`Failed to generate scheduled payouts for group ${group.id}`, error);
+      }
+    }
+
+    this.logger.log(`Checked ${groups.length} groups, created ${payoutsCreated} scheduled payouts`);
+
+    return { groupsChecked: groups.length, payoutsCreated };
+  }
+
+  async generateGroupScheduledPayouts(groupId: string, asOf: Date = new Date()) {
+    const group = await this.prisma.group.findFirst({
+      where: { id: groupId, type: 'SAVINGS', deletedAt: null },
+      include: {
+        savingsRules: true,
+        members: {
+          where: {
+            status: 'ACTIVE',
+            deletedAt: null,
+            role: { in: ['TREASURER', 'CHAIRPERSON'] },
+          },
+          select: { userId: true, role: true },
+        },
+      },
+    });
+
+    if (!group || !group.savingsRules) {
+      throw new NotFoundException('Savings group not found');
+    }
+
+    const schedule = normalizePayoutSchedule(
+      group.savingsRules.payoutModel,
+      group.savingsRules.payoutSchedule as Record<string, any> | null,
+    );
+    if (!schedule) {
+      return [];
+    }
+
+    // Scheduled payouts are raised on behalf of the chairperson
+    const chairperson = group.members.find((m) => m.role === 'CHAIRPERSON');
+    if (!chairperson) {
+      this.logger.warn(`Group ${groupId} has no chairperson, skipping scheduled payouts`);
+      return [];
+    }
+
+    const payouts = [];
+    for (const date of getDuePayoutDates(schedule, asOf, CATCH_UP_DAYS)) {
+      const dateStr = date.toISOString().split('T')[0];
+      const idempotencyKey = `scheduled:${groupId}:${dateStr}`;
+
+      const existing = await this.prisma.savingsPayout.findFirst({
+        where: { idempotencyKey },
+      });
+      if (existing) {
+        continue;
+      }
+
+      const available = await this.getAvailableBalance(groupId);
+      const amount = this.calculateScheduledAmount(available, schedule);
+      if (amount.lessThan(1)) {
+        this.logger.log(`Group ${groupId} has nothing to pay out on ${dateStr}`);
+        continue;
+      }
+
+      const payout = await this.payoutsService.createPayout(
+        groupId,
+        {
+          amount: amount.toNumber(),
+          currency: group.currency,
+          payoutType: 'SCHEDULED',
+          description: `Scheduled ${group.savingsRules.payoutModel.toLowerCase().replace('_', '-')} payout for ${dateStr}`,
+          distributionType: schedule.distributionType,
+          idempotencyKey,
+        },
+        chairperson.userId,
+        { system: true },
+      );
+      payouts.push(payout);
+
+      await this.notificationsService.sendBulk({
+        userIds: [...new Set(group.members.map((m) => m.userId))],
+        type: 'PAYOUT_SCHEDULED',
+        channels: ['IN_APP', 'EMAIL'],
+        title: 'Scheduled payout awaiting approval',
+        body: `A scheduled payout of ${group.currency} ${amount.toFixed(2)} for ${group.name} is ready for approval.`,
+        data: { payoutId: payout.id, amount: amount.toFixed(2), date: dateStr },
+        groupId,
+      });
+    }
+
+    return payouts;
+  }
+
+  /**
+   * Pot balance less payouts that are pending or approved but not yet debited
+   */
+  private async getAvailableBalance(groupId: string): Promise<Decimal> {
+    const [balance, committed] = await Promise.all([
+      this.ledgerService.getBalance(groupId),
+      this.prisma.savingsPayout.aggregate({
+        where: {
+          groupId,
+          deletedAt: null,
+          status: { in: ['PENDING', 'APPROVED'] },
+          ledgerEntry: { is: null },
+        },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const available = balance.minus(new Decimal(committed._sum.amount?.toString() || 0));
+    return Decimal.max(available, 0);
+  }
+
+  private calculateScheduledAmount(available: Decimal, schedule: PayoutScheduleConfig): Decimal {
+    return available
+      .times(schedule.portionPercent)
+      .dividedBy(100)
+      .toDecimalPlaces(2, Decimal.ROUND_DOWN);
+  }
+}
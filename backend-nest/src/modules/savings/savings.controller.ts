@@ -7,9 +7,12 @@ import {
   Param,
   UseGuards,
   ParseUUIDPipe,
+  Query,
+  ParseIntPipe,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { SavingsService } from './savings.service';
+import { SavingsScheduleService } from './savings-schedule.service';
 import { CreateSavingsGroupDto } from './dto/create-savings-group.dto';
 import { UpdateSavingsRulesDto } from './dto/update-savings-rules.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
@@ -23,7 +26,10 @@ import { AuthUser } from '../auth/auth.service';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class SavingsController {
-  constructor(private readonly savingsService: SavingsService) {}
+  constructor(
+    private readonly savingsService: SavingsService,
+    private readonly scheduleService: SavingsScheduleService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new savings group' })
@@ -54,6 +60,19 @@ export class SavingsController {
     return this.savingsService.updateSavingsRules(groupId, dto, user.id);
   }
 
+  @Get(':groupId/payout-schedule/preview')
+  @UseGuards(RolesGuard)
+  @AnyMember()
+  @ApiOperation({ summary: 'Preview the next scheduled payout dates' })
+  @ApiResponse({ status: 200, description: 'Upcoming payout dates with estimated amounts' })
+  @ApiQuery({ name: 'count', required: false, type: Number })
+  previewPayoutSchedule(
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query('count', new ParseIntPipe({ optional: true })) count: number = 5,
+  ) {
+    return this.scheduleService.previewSchedule(groupId, Math.min(Math.max(count, 1), 24));
+  }
+
   @Get(':groupId/summary')
   @UseGuards(RolesGuard)
   @AnyMember()
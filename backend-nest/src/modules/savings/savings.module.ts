@@ -1,14 +1,77 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { SavingsService } from './savings.service';
 import { SavingsController } from './savings.controller';
 import { SavingsPayoutsController } from './savings-payouts.controller';
 import { SavingsPayoutsService } from './savings-payouts.service';
+import { SavingsFinesController } from './savings-fines.controller';
+import { SavingsFinesService } from './savings-fines.service';
+import { SavingsComplianceController } from './savings-compliance.controller';
+import { SavingsComplianceService } from './savings-compliance.service';
+import { SavingsScheduleService } from './savings-schedule.service';
+import { SavingsDissolutionController } from './savings-dissolution.controller';
+import { SavingsDissolutionService } from './savings-dissolution.service';
+import { SavingsExitsController } from './savings-exits.controller';
+import { SavingsExitsService } from './savings-exits.service';
+import { SavingsInterestController } from './savings-interest.controller';
+import { SavingsInterestService } from './savings-interest.service';
+import { SavingsLoansController } from './savings-loans.controller';
+import { SavingsLoansService } from './savings-loans.service';
+import { SavingsProcessor } from './savings.processor';
 import { LedgerModule } from '../ledger/ledger.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ContributionsModule } from '../contributions/contributions.module';
 
 @Module({
-  imports: [LedgerModule],
-  controllers: [SavingsController, SavingsPayoutsController],
-  providers: [SavingsService, SavingsPayoutsService],
-  exports: [SavingsService, SavingsPayoutsService],
+  imports: [
+    ConfigModule,
+    LedgerModule,
+    NotificationsModule,
+    ContributionsModule,
+    BullModule.registerQueueAsync({
+      name: 'savings',
+      imports: [ConfigModule],
+      useFactory: async (configService: ConfigService) => ({
+        redis: {
+          host: configService.get('REDIS_HOST', 'localhost'),
+          port: configService.get('REDIS_PORT', 6379),
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 500,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [
+    SavingsController,
+    SavingsPayoutsController,
+    SavingsFinesController,
+    SavingsComplianceController,
+    SavingsDissolutionController,
+    SavingsExitsController,
+    SavingsInterestController,
+    SavingsLoansController,
+  ],
+  providers: [
+    SavingsService,
+    SavingsPayoutsService,
+    SavingsFinesService,
+    SavingsComplianceService,
+    SavingsScheduleService,
+    SavingsDissolutionService,
+    SavingsExitsService,
+    SavingsInterestService,
+    SavingsLoansService,
+    SavingsProcessor,
+  ],
+  exports: [SavingsService, SavingsPayoutsService, SavingsFinesService, SavingsComplianceService],
 })
 export class SavingsModule {}
@@ -0,0 +1,145 @@
+import { Processor, Process, InjectQueue } from '@nestjs/bull';
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bull';
+import { SavingsFinesService } from './savings-fines.service';
+import { SavingsComplianceService } from './savings-compliance.service';
+import { SavingsScheduleService } from './savings-schedule.service';
+import { SavingsInterestService } from './savings-interest.service';
+import { SavingsLoansService } from './savings-loans.service';
+import { ContributionsService } from '../contributions/contributions.service';
+
+@Processor('savings')
+export class SavingsProcessor implements OnModuleInit {
+  private readonly logger = new Logger(SavingsProcessor.name);
+
+  constructor(
+    @InjectQueue('savings') private savingsQueue: Queue,
+    private configService: ConfigService,
+    private finesService: SavingsFinesService,
+    private complianceService: SavingsComplianceService,
+    private scheduleService: SavingsScheduleService,
+    private interestService: SavingsInterestService,
+    private loansService: SavingsLoansService,
+    private contributionsService: ContributionsService,
+  ) {}
+
+  async onModuleInit() {
+    // Repeatable jobs are keyed on name + cron, so re-registering on boot is a no-op
+    await this.savingsQueue.add(
+      'apply-contribution-credit',
+      {},
+      {
+        repeat: { cron: this.configService.get('CONTRIBUTION_CREDIT_CRON', '0 1 1 * *') },
+        jobId: 'apply-contribution-credit',
+      },
+    );
+
+    await this.savingsQueue.add(
+      'assess-fines',
+      {},
+      {
+        repeat: { cron: this.configService.get('FINE_ASSESSMENT_CRON', '0 2 * * *') },
+        jobId: 'assess-fines',
+      },
+    );
+
+    await this.savingsQueue.add(
+      'remind-arrears',
+      {},
+      {
+        repeat: { cron: this.configService.get('ARREARS_REMINDER_CRON', '0 9 * * 1') },
+        jobId: 'remind-arrears',
+      },
+    );
+
+    await this.savingsQueue.add(
+      'generate-scheduled-payouts',
+      {},
+      {
+        repeat: { cron: this.configService.get('PAYOUT_SCHEDULE_CRON', '0 3 * * *') },
+        jobId: 'generate-scheduled-payouts',
+      },
+    );
+
+    await this.savingsQueue.add(
+      'accrue-interest',
+      {},
+      {
+        repeat: { cron: this.configService.get('INTEREST_ACCRUAL_CRON', '0 4 1 * *') },
+        jobId: 'accrue-interest',
+      },
+    );
+
+    await this.savingsQueue.add(
+      'assess-loan-arrears',
+      {},
+      {
+        repeat: { cron: this.configService.get('LOAN_ARREARS_CRON', '30 2 * * *') },
+        jobId: 'assess-loan-arrears',
+      },
+    );
+  }
+
+  @Process('apply-contribution-credit')
+  async handleApplyContributionCredit(job: Job<{ asOf?: string }>) {
+    const asOf = job.data.asOf ? new Date(job.data.asOf) : new Date();
+
+    const result = await this.contributionsService.applyAllCredit(asOf);
+    this.logger.log(`Contribution credit applied: ${result.allocationCount} allocations made`);
+
+    return result;
+  }
+
+  @Process('assess-fines')
+  async handleAssessFines(job: Job<{ asOf?: string }>) {
+    const asOf = job.data.asOf ? new Date(job.data.asOf) : new Date();
+
+    const result = await this.finesService.assessFines(asOf);
+    this.logger.log(`Fine assessment complete: ${result.finesRaised} fines raised`);
+
+    return result;
+  }
+
+  @Process('remind-arrears')
+  async handleRemindArrears(job: Job<{ asOf?: string }>) {
+    const asOf = job.data.asOf ? new Date(job.data.asOf) : new Date();
+
+    const result = await this.complianceService.remindArrears(asOf);
+    this.logger.log(`Arrears reminders complete: ${result.remindersSent} reminders sent`);
+
+    return result;
+  }
+
+  @Process('generate-scheduled-payouts')
+  async handleScheduledPayouts(job: Job<{ asOf?: string }>) {
+    const asOf = job.data.asOf ? new Date(job.data.asOf) : new Date();
+
+    const result = await this.scheduleService.generateScheduledPayouts(asOf);
+    this.logger.log(`Payout schedule run complete: ${result.payoutsCreated} payouts created`);
+
+    return result;
+  }
+
+  @Process('accrue-interest')
+  async handleAccrueInterest(job: Job<{ asOf?: string }>) {
+    const asOf = job.data.asOf ? new Date(job.data.asOf) : new Date();
+
+    const result = await this.interestService.accrueInterest(asOf);
+    this.logger.log(`Interest accrual complete: ${result.accrualsPosted} accruals posted`);
+
+    return result;
+  }
+
+  @Process('assess-loan-arrears')
+  async handleAssessLoanArrears(job: Job<{ asOf?: string }>) {
+    const asOf = job.data.asOf ? new Date(job.data.asOf) : new Date();
+
+    const result = await this.loansService.assessArrears(asOf);
+    this.logger.log(
+      `Loan arrears assessment complete: ${result.instalmentsOverdue} instalments overdue`,
+    );
+
+    return result;
+  }
+}
@@ -8,6 +8,8 @@ import { AuditService } from '../audit/audit.service';
 import { LedgerService } from '../ledger/ledger.service';
 import { CreateSavingsGroupDto } from './dto/create-savings-group.dto';
 import { UpdateSavingsRulesDto } from './dto/update-savings-rules.dto';
+import { normalizePayoutSchedule, PayoutScheduleError } from './payout-schedule';
+import { ExitPolicy, PayoutModel, Prisma } from '@prisma/client';
 import { Decimal } from 'decimal.js';
 
 @Injectable()
@@ -40,6 +42,10 @@ export class SavingsService {
       );
     }
 
+    const payoutModel = dto.payoutModel || 'YEAR_END';
+    const payoutSchedule = this.validatePayoutSchedule(payoutModel, dto.payoutSchedule);
+    this.validateExitPolicy(dto.exitPolicy || 'FULL_REFUND', dto.exitPenaltyPercent);
+
     // Create group with savings rules in a transaction
     const result = await this.prisma.$transaction(async (tx) => {
       // Create the group
@@ -71,23 +77,27 @@ export class SavingsService {
           fineEnabled: dto.fineEnabled || false,
           fineAmount: dto.fineAmount,
           fineType: dto.fineType,
-          payoutModel: dto.payoutModel || 'YEAR_END',
-          payoutSchedule: dto.payoutSchedule,
+          payoutModel,
+          payoutSchedule: payoutSchedule ?? undefined,
           minApprovalCount: dto.minApprovalCount || 2,
+          exitPolicy: dto.exitPolicy,
+          exitPenaltyPercent: dto.exitPenaltyPercent,
+          interestRate: dto.interestRate,
+          interestCompounding: dto.interestCompounding,
+          loanLimitPercent: dto.loanLimitPercent,
+          loanInterestRate: dto.loanInterestRate,
+          loanPenaltyRate: dto.loanPenaltyRate,
+          loanMaxTermMonths: dto.loanMaxTermMonths,
         },
       });
 
       // Create opening balance ledger entry
-      await tx.ledgerEntry.create({
-        data: {
-          groupId: group.id,
-          entryType: 'OPENING_BALANCE',
-          amount: 0,
-          currency: 'ZAR',
-          balanceAfter: 0,
-          description: 'Opening balance for new savings group',
-          createdById: userId,
-        },
+      await this.ledgerService.appendEntry(tx, {
+        groupId: group.id,
+        entryType: 'OPENING_BALANCE',
+        amount: 0,
+        description: 'Opening balance for new savings group',
+        createdById: userId,
       });
 
       return { group, rules };
@@ -173,6 +183,25 @@ export class SavingsService {
       payoutModel: group.savingsRules.payoutModel,
     };
 
+    // Re-validate the schedule whenever the model or schedule changes. A new
+    // model without a new schedule starts from that model's defaults.
+    let payoutSchedule: Record<string, any> | null | undefined;
+    if (dto.payoutModel !== undefined || dto.payoutSchedule !== undefined) {
+      const payoutModel = dto.payoutModel ?? group.savingsRules.payoutModel;
+      const modelChanged = payoutModel !== group.savingsRules.payoutModel;
+      const rawSchedule =
+        dto.payoutSchedule ??
+        (modelChanged ? undefined : (group.savingsRules.payoutSchedule as Record<string, any>));
+      payoutSchedule = this.validatePayoutSchedule(payoutModel, rawSchedule);
+    }
+
+    if (dto.exitPolicy !== undefined || dto.exitPenaltyPercent !== undefined) {
+      this.validateExitPolicy(
+        dto.exitPolicy ?? group.savingsRules.exitPolicy,
+        dto.exitPenaltyPercent ?? group.savingsRules.exitPenaltyPercent?.toNumber(),
+      );
+    }
+
     const updatedRules = await this.prisma.savingsRule.update({
       where: { id: group.savingsRules.id },
       data: {
@@ -183,8 +212,17 @@ export class SavingsService {
         fineAmount: dto.fineAmount,
         fineType: dto.fineType,
         payoutModel: dto.payoutModel,
-        payoutSchedule: dto.payoutSchedule,
+        payoutSchedule:
+          payoutSchedule === undefined ? undefined : (payoutSchedule ?? Prisma.DbNull),
         minApprovalCount: dto.minApprovalCount,
+        exitPolicy: dto.exitPolicy,
+        exitPenaltyPercent: dto.exitPenaltyPercent,
+        interestRate: dto.interestRate,
+        interestCompounding: dto.interestCompounding,
+        loanLimitPercent: dto.loanLimitPercent,
+        loanInterestRate: dto.loanInterestRate,
+        loanPenaltyRate: dto.loanPenaltyRate,
+        loanMaxTermMonths: dto.loanMaxTermMonths,
       },
     });
 
@@ -374,6 +412,23 @@ export class SavingsService {
     };
   }
 
+  private validatePayoutSchedule(model: PayoutModel, raw?: Record<string, any> | null) {
+    try {
+      return normalizePayoutSchedule(model, raw) as Record<string, any> | null;
+    } catch (error) {
+      if (error instanceof PayoutScheduleError) {
+        throw new BadRequestException(`Invalid payout schedule: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private validateExitPolicy(policy: ExitPolicy, penaltyPercent?: number | null) {
+    if (policy === 'REFUND_LESS_PENALTY' && !penaltyPercent) {
+      throw new BadRequestException('REFUND_LESS_PENALTY requires an exitPenaltyPercent');
+    }
+  }
+
   private getNextDueDate(dueDay: number): Date {
     const now = new Date();
     let dueDate = new Date(now.getFullYear(), now.getMonth(), dueDay);
@@ -16,6 +16,7 @@ import GroupDetailPage from './pages/groups/GroupDetailPage';
 import CreateGroupPage from './pages/groups/CreateGroupPage';
 import ContributionsPage from './pages/contributions/ContributionsPage';
 import ContributionReviewPage from './pages/contributions/ContributionReviewPage';
+import ComplianceMatrixPage from './pages/contributions/ComplianceMatrixPage';
 import PayoutsPage from './pages/payouts/PayoutsPage';
 import NotificationsPage from './pages/notifications/NotificationsPage';
 import ProfilePage from './pages/profile/ProfilePage';
@@ -71,6 +72,7 @@ function App() {
         <Route path="/groups/:groupId" element={<GroupDetailPage />} />
         <Route path="/contributions" element={<ContributionsPage />} />
         <Route path="/contributions/review/:groupId" element={<ContributionReviewPage />} />
+        <Route path="/contributions/compliance/:groupId" element={<ComplianceMatrixPage />} />
         <Route path="/payouts" element={<PayoutsPage />} />
         <Route path="/notifications" element={<NotificationsPage />} />
         <Route path="/profile" element={<ProfilePage />} />
@@ -100,9 +100,24 @@ export const contributionsApi = {
     api.post(`/contributions/${id}/approve`, { notes }),
   reject: (id: string, reason: string) =>
     api.post(`/contributions/${id}/reject`, { reason }),
+  bulkApprove: (groupId: string, contributionIds: string[], notes?: string) =>
+    api.post(`/groups/${groupId}/contributions/bulk-approve`, { contributionIds, notes }),
+  bulkReject: (groupId: string, contributionIds: string[], reason: string) =>
+    api.post(`/groups/${groupId}/contributions/bulk-reject`, { contributionIds, reason }),
   cancel: (id: string) => api.post(`/contributions/${id}/cancel`),
 };
 
+export const complianceApi = {
+  get: (groupId: string, params?: { from?: string; to?: string; sort?: 'ARREARS' | 'NAME' }) =>
+    api.get(`/groups/${groupId}/savings/compliance`, { params }),
+  excuse: (groupId: string, data: { memberId: string; period: string; reason: string }) =>
+    api.post(`/groups/${groupId}/savings/compliance/excusals`, data),
+  removeExcusal: (groupId: string, excusalId: string) =>
+    api.delete(`/groups/${groupId}/savings/compliance/excusals/${excusalId}`),
+  remind: (groupId: string) =>
+    api.post(`/groups/${groupId}/savings/compliance/reminders`),
+};
+
 export const payoutsApi = {
   create: (data: any) => api.post('/savings/payouts', data),
   get: (id: string) => api.get(`/savings/payouts/${id}`),
@@ -129,9 +144,17 @@ export const documentsApi = {
     });
   },
   getDownloadUrl: (id: string) => api.get(`/documents/${id}/download`),
+  getExtraction: (id: string) => api.get(`/documents/${id}/extraction`),
   delete: (id: string) => api.delete(`/documents/${id}`),
 };
 
+export const reportsApi = {
+  getAgmReport: (groupId: string, startMonth: string) =>
+    api.get(`/groups/${groupId}/reports/agm`, { params: { startMonth } }),
+  generateAgmReportPdf: (groupId: string, startMonth: string) =>
+    api.post(`/groups/${groupId}/reports/agm`, { startMonth }),
+};
+
 // Grocery API
 export const groceryApi = {
   // Summary
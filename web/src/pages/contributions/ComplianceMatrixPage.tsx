@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { complianceApi, savingsApi } from '@/lib/api';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, ArrowDownUp, Bell, Loader2, Undo2 } from 'lucide-react';
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  PAID: { label: 'Paid', className: 'bg-green-100 text-green-800' },
+  LATE: { label: 'Late', className: 'bg-orange-100 text-orange-800' },
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  PARTIAL: { label: 'Partial', className: 'bg-purple-100 text-purple-800' },
+  DUE: { label: 'Due', className: 'bg-blue-100 text-blue-800' },
+  MISSING: { label: 'Missing', className: 'bg-red-100 text-red-800' },
+  EXCUSED: { label: 'Excused', className: 'bg-gray-100 text-gray-800' },
+};
+
+const formatMonth = (periodStart: string) =>
+  new Date(periodStart).toLocaleDateString('en-ZA', {
+    month: 'short',
+    year: '2-digit',
+    timeZone: 'UTC',
+  });
+
+export default function ComplianceMatrixPage() {
+  const { groupId } = useParams<{ groupId: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [sort, setSort] = useState<'ARREARS' | 'NAME'>('ARREARS');
+  const [selectedCell, setSelectedCell] = useState<any>(null);
+  const [excuseReason, setExcuseReason] = useState('');
+
+  const { data: group } = useQuery({
+    queryKey: ['group', groupId],
+    queryFn: async () => {
+      const response = await savingsApi.get(groupId!);
+      return response.data;
+    },
+  });
+
+  const { data: compliance, isLoading } = useQuery({
+    queryKey: ['compliance', groupId, sort],
+    queryFn: async () => {
+      const response = await complianceApi.get(groupId!, { sort });
+      return response.data;
+    },
+  });
+
+  const isLeader = ['CHAIRPERSON', 'TREASURER'].includes(group?.myRole);
+  const currency = compliance?.currency;
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.response?.data?.message || 'Something went wrong',
+      variant: 'destructive',
+    });
+  };
+
+  const excuseMutation = useMutation({
+    mutationFn: async () =>
+      complianceApi.excuse(groupId!, {
+        memberId: selectedCell.member.memberId,
+        period: selectedCell.cell.periodStart.slice(0, 7),
+        reason: excuseReason,
+      }),
+    onSuccess: () => {
+      toast({
+        title: 'Member excused',
+        description: 'The period no longer counts towards their arrears.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['compliance', groupId] });
+      setSelectedCell(null);
+      setExcuseReason('');
+    },
+    onError: onError('Failed to excuse'),
+  });
+
+  const removeExcusalMutation = useMutation({
+    mutationFn: async (excusalId: string) =>
+      complianceApi.removeExcusal(groupId!, excusalId),
+    onSuccess: () => {
+      toast({ title: 'Excusal removed' });
+      queryClient.invalidateQueries({ queryKey: ['compliance', groupId] });
+      setSelectedCell(null);
+    },
+    onError: onError('Failed to remove excusal'),
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: async () => complianceApi.remind(groupId!),
+    onSuccess: (response) => {
+      toast({
+        title: 'Reminders sent',
+        description: `${response.data.remindersSent} members in arrears were reminded.`,
+      });
+    },
+    onError: onError('Failed to send reminders'),
+  });
+
+  const canExcuse =
+    isLeader && ['MISSING', 'DUE'].includes(selectedCell?.cell.status);
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" onClick={() => navigate(-1)} className="mb-4">
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Back to {group?.name}
+      </Button>
+
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Contribution Compliance</h1>
+          <p className="text-muted-foreground">
+            Who has paid for each period in {group?.name}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setSort(sort === 'ARREARS' ? 'NAME' : 'ARREARS')}
+          >
+            <ArrowDownUp className="w-4 h-4 mr-2" />
+            {sort === 'ARREARS' ? 'Sort by name' : 'Sort by arrears'}
+          </Button>
+          {isLeader && (
+            <Button
+              onClick={() => remindMutation.mutate()}
+              disabled={remindMutation.isPending || !compliance?.membersInArrears}
+            >
+              {remindMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Bell className="w-4 h-4 mr-2" />
+              )}
+              Remind Members in Arrears
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Total Arrears
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {formatCurrency(compliance?.totalArrears || 0, currency)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Members in Arrears
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {compliance?.membersInArrears || 0} of{' '}
+              {compliance?.members?.length || 0}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Monthly Contribution
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {formatCurrency(compliance?.monthlyAmount || 0, currency)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Due on day {compliance?.dueDay}, {compliance?.gracePeriodDays} days'
+              grace
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Members by Period</CardTitle>
+          <CardDescription>
+            {sort === 'ARREARS'
+              ? 'Members furthest behind are listed first'
+              : 'Members are listed by name'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-10 bg-gray-100 rounded" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 pr-4 font-medium">Member</th>
+                    {compliance?.periods?.map((period: any) => (
+                      <th
+                        key={period.periodStart}
+                        className="px-1 py-2 font-medium whitespace-nowrap"
+                      >
+                        {formatMonth(period.periodStart)}
+                      </th>
+                    ))}
+                    <th className="text-right py-2 pl-4 font-medium">Arrears</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {compliance?.members?.map((member: any) => (
+                    <tr key={member.memberId} className="border-b last:border-0">
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {member.memberName}
+                      </td>
+                      {member.cells.map((cell: any) => {
+                        const style = cell.status && STATUS_STYLES[cell.status];
+                        const selected =
+                          selectedCell?.member.memberId === member.memberId &&
+                          selectedCell?.cell.periodStart === cell.periodStart;
+                        return (
+                          <td key={cell.periodStart} className="px-1 py-2 text-center">
+                            {style && (
+                              <button
+                                type="button"
+                                onClick={() => setSelectedCell({ member, cell })}
+                                title={cell.excusalReason || style.label}
+                                className={`text-xs px-2 py-1 rounded-full ${style.className} ${
+                                  selected ? 'ring-2 ring-primary' : ''
+                                }`}
+                              >
+                                {style.label}
+                              </button>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td
+                        className={`py-2 pl-4 text-right font-semibold whitespace-nowrap ${
+                          Number(member.arrears) > 0 ? 'text-red-600' : ''
+                        }`}
+                      >
+                        {formatCurrency(member.arrears, currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedCell && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {selectedCell.member.memberName},{' '}
+              {formatMonth(selectedCell.cell.periodStart)}
+            </CardTitle>
+            <CardDescription>
+              {STATUS_STYLES[selectedCell.cell.status].label}. Paid{' '}
+              {formatCurrency(selectedCell.cell.amountPaid, currency)}, arrears to
+              date {formatCurrency(selectedCell.cell.arrears, currency)}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selectedCell.cell.status === 'EXCUSED' && (
+              <>
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Reason: </span>
+                  {selectedCell.cell.excusalReason}
+                </p>
+                {isLeader && (
+                  <Button
+                    variant="outline"
+                    onClick={() =>
+                      removeExcusalMutation.mutate(selectedCell.cell.excusalId)
+                    }
+                    disabled={removeExcusalMutation.isPending}
+                  >
+                    {removeExcusalMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Undo2 className="w-4 h-4 mr-2" />
+                    )}
+                    Remove Excusal
+                  </Button>
+                )}
+              </>
+            )}
+            {canExcuse && (
+              <div className="space-y-2">
+                <Label>Reason for excusing this period</Label>
+                <Input
+                  placeholder="e.g. Hospitalised, agreed at meeting..."
+                  value={excuseReason}
+                  onChange={(e) => setExcuseReason(e.target.value)}
+                />
+                <Button
+                  onClick={() => excuseMutation.mutate()}
+                  disabled={!excuseReason || excuseMutation.isPending}
+                >
+                  {excuseMutation.isPending && (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  )}
+                  Excuse Member
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ import {
   FileText,
   ExternalLink,
   Loader2,
+  AlertTriangle,
 } from 'lucide-react';
 
 export default function ContributionReviewPage() {
@@ -36,6 +37,9 @@ export default function ContributionReviewPage() {
   const [selectedContribution, setSelectedContribution] = useState<any>(null);
   const [rejectReason, setRejectReason] = useState('');
   const [approvalNotes, setApprovalNotes] = useState('');
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [bulkNotes, setBulkNotes] = useState('');
+  const [bulkRejectReason, setBulkRejectReason] = useState('');
 
   const { data: group } = useQuery({
     queryKey: ['group', groupId],
@@ -99,6 +103,74 @@ export default function ContributionReviewPage() {
     },
   });
 
+  // Keep whatever failed selected so it can be looked at individually
+  const onBulkSuccess = (action: string) => (response: any) => {
+    const { succeeded, failed, results } = response.data;
+    toast({
+      title: `${succeeded} contributions ${action}`,
+      description: failed
+        ? `${failed} could not be ${action}: ${results
+            .filter((r: any) => r.outcome === 'FAILED')
+            .map((r: any) => r.error)
+            .join('; ')}`
+        : undefined,
+      variant: failed ? 'destructive' : undefined,
+    });
+    queryClient.invalidateQueries({ queryKey: ['contributions'] });
+    setCheckedIds(
+      results.filter((r: any) => r.outcome === 'FAILED').map((r: any) => r.contributionId)
+    );
+    setSelectedContribution(null);
+  };
+
+  const bulkApproveMutation = useMutation({
+    mutationFn: async () =>
+      contributionsApi.bulkApprove(groupId!, checkedIds, bulkNotes || undefined),
+    onSuccess: (response) => {
+      onBulkSuccess('approved')(response);
+      setBulkNotes('');
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to approve',
+        description: error.response?.data?.message || 'Something went wrong',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const bulkRejectMutation = useMutation({
+    mutationFn: async () =>
+      contributionsApi.bulkReject(groupId!, checkedIds, bulkRejectReason),
+    onSuccess: (response) => {
+      onBulkSuccess('rejected')(response);
+      setBulkRejectReason('');
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to reject',
+        description: error.response?.data?.message || 'Something went wrong',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const pending = contributions?.contributions || [];
+  const allChecked = pending.length > 0 && checkedIds.length === pending.length;
+  const checkedTotal = pending
+    .filter((c: any) => checkedIds.includes(c.id))
+    .reduce((sum: number, c: any) => sum + Number(c.amount), 0);
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds((ids) =>
+      ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]
+    );
+  };
+
+  const toggleAll = () => {
+    setCheckedIds(allChecked ? [] : pending.map((c: any) => c.id));
+  };
+
   const handleApprove = () => {
     if (selectedContribution) {
       approveMutation.mutate({
@@ -131,16 +203,92 @@ export default function ContributionReviewPage() {
         </p>
       </div>
 
-      <div className="grid gap-6 md:grid-cols-2">
-        {/* Pending Contributions List */}
+      {checkedIds.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">Pending Contributions</CardTitle>
+            <CardTitle className="text-lg">
+              {checkedIds.length} Selected
+            </CardTitle>
             <CardDescription>
-              {contributions?.contributions?.length || 0} contributions awaiting
-              review
+              {formatCurrency(checkedTotal)} in total. Approvals are credited to
+              the ledger together, in the order they were submitted.
             </CardDescription>
           </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Approval Notes (optional)</Label>
+              <Input
+                placeholder="Add notes..."
+                value={bulkNotes}
+                onChange={(e) => setBulkNotes(e.target.value)}
+              />
+              <Button
+                className="w-full"
+                onClick={() => bulkApproveMutation.mutate()}
+                disabled={bulkApproveMutation.isPending || bulkRejectMutation.isPending}
+              >
+                {bulkApproveMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                )}
+                Approve Selected
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label>Rejection Reason</Label>
+              <Input
+                placeholder="Reason for rejection..."
+                value={bulkRejectReason}
+                onChange={(e) => setBulkRejectReason(e.target.value)}
+              />
+              <Button
+                variant="destructive"
+                className="w-full"
+                onClick={() => bulkRejectMutation.mutate()}
+                disabled={
+                  !bulkRejectReason ||
+                  bulkApproveMutation.isPending ||
+                  bulkRejectMutation.isPending
+                }
+              >
+                {bulkRejectMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <XCircle className="w-4 h-4 mr-2" />
+                )}
+                Reject Selected
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Pending Contributions List */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div>
+                <CardTitle className="text-lg">Pending Contributions</CardTitle>
+                <CardDescription>
+                  {contributions?.contributions?.length || 0} contributions
+                  awaiting review
+                </CardDescription>
+              </div>
+              {pending.length > 0 && (
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={allChecked}
+                    onChange={toggleAll}
+                  />
+                  Select all
+                </label>
+              )}
+            </div>
+          </CardHeader>
           <CardContent>
             {isLoading ? (
               <div className="animate-pulse space-y-3">
@@ -168,13 +316,28 @@ export default function ContributionReviewPage() {
                     }`}
                   >
                     <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium">
-                          {c.member?.user?.firstName} {c.member?.user?.lastName}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          {c.contributionPeriod}
-                        </p>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={checkedIds.includes(c.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => toggleChecked(c.id)}
+                        />
+                        <div>
+                          <p className="font-medium">
+                            {c.member?.user?.firstName} {c.member?.user?.lastName}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {c.contributionPeriod}
+                          </p>
+                          {c.popFlagged && (
+                            <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                              <AlertTriangle className="w-3 h-3" />
+                              POP reused
+                            </span>
+                          )}
+                        </div>
                       </div>
                       <div className="text-right">
                         <p className="font-semibold">
@@ -260,6 +423,55 @@ export default function ContributionReviewPage() {
                   </div>
                 )}
 
+                {/* Where the proof of payment disagrees with the submission */}
+                {selectedContribution.popMismatches?.length > 0 && (
+                  <div className="p-3 rounded-lg border border-yellow-200 bg-yellow-50 space-y-2">
+                    <p className="flex items-center gap-2 text-sm font-medium text-yellow-800">
+                      <AlertTriangle className="w-4 h-4" />
+                      Proof of payment does not match
+                    </p>
+                    {selectedContribution.popMismatches.map((m: any) => (
+                      <div key={m.field} className="flex justify-between text-sm">
+                        <span className="capitalize">{m.field}</span>
+                        <span>
+                          Entered {m.submitted}
+                          <span className="text-muted-foreground">
+                            {' '}
+                            &middot; slip shows {m.extracted}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Earlier use of the same proof of payment */}
+                {selectedContribution.popReuse?.length > 0 && (
+                  <div className="p-3 rounded-lg border border-orange-200 bg-orange-50 space-y-2">
+                    <p className="flex items-center gap-2 text-sm font-medium text-orange-800">
+                      <AlertTriangle className="w-4 h-4" />
+                      This proof of payment was already used
+                    </p>
+                    {selectedContribution.popReuse.map((r: any) => (
+                      <div
+                        key={r.contributionId}
+                        className="flex justify-between text-sm"
+                      >
+                        <span>
+                          {r.memberName} &middot; {formatDate(r.periodStart)}
+                          <span className="text-muted-foreground">
+                            {' '}
+                            ({r.match === 'EXACT' ? 'same file' : 'similar image'})
+                          </span>
+                        </span>
+                        <span className="text-muted-foreground">
+                          {r.status} &middot; {formatDate(r.submittedAt)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Actions */}
                 <div className="pt-4 border-t space-y-4">
                   <div className="space-y-2">
@@ -151,6 +151,11 @@ function GroupContributions({ group }: { group: any }) {
                 </div>
                 <div className="text-right">
                   <p className="font-medium">{formatCurrency(c.amount)}</p>
+                  {Number(c.creditRemaining) > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(c.creditRemaining)} credit
+                    </p>
+                  )}
                   <span
                     className={`text-xs px-2 py-0.5 rounded-full ${getStatusColor(
                       c.status
@@ -1,14 +1,15 @@
 import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { groceryApi } from '@/lib/api';
+import { groceryApi, documentsApi } from '@/lib/api';
 import { 
   Plus, 
   Trash2, 
   ShoppingCart, 
   Upload,
   ArrowLeft,
-  Calculator
+  Calculator,
+  FileText
 } from 'lucide-react';
 
 interface PurchaseItem {
@@ -28,7 +29,9 @@ export function RecordPurchasePage() {
     new Date().toISOString().split('T')[0]
   );
   const [notes, setNotes] = useState('');
+  const [supplierName, setSupplierName] = useState('');
   const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [receiptDocumentId, setReceiptDocumentId] = useState<string | null>(null);
 
   const { data: productsData, isLoading: loadingProducts } = useQuery({
     queryKey: ['grocery-products', groupId],
@@ -42,18 +45,47 @@ export function RecordPurchasePage() {
     enabled: !!groupId,
   });
 
+  // The receipt is read in the background after upload; poll until it is
+  const { data: extraction } = useQuery({
+    queryKey: ['document-extraction', receiptDocumentId],
+    queryFn: () => documentsApi.getExtraction(receiptDocumentId!).then(res => res.data),
+    enabled: !!receiptDocumentId,
+    refetchInterval: (query) => (query.state.data?.status === 'PENDING' ? 3000 : false),
+  });
+
+  const uploadReceiptMutation = useMutation({
+    mutationFn: (file: File) => documentsApi.upload(file, 'GROCERY_RECEIPT', groupId),
+    onSuccess: (response) => setReceiptDocumentId(response.data.id),
+  });
+
+  const handleReceiptChange = (file: File | null) => {
+    setReceiptFile(file);
+    setReceiptDocumentId(null);
+    if (file) {
+      uploadReceiptMutation.mutate(file);
+    }
+  };
+
+  const suggestion = extraction?.purchaseSuggestion;
+  const matchedItems = suggestion?.items?.filter((item: any) => item.productId) || [];
+
+  const applyReceipt = () => {
+    if (suggestion.supplierName) setSupplierName(suggestion.supplierName);
+    if (suggestion.purchaseDate) setPurchaseDate(suggestion.purchaseDate);
+    if (matchedItems.length > 0) {
+      setItems(
+        matchedItems.map((item: any) => ({
+          productId: item.productId,
+          productName: productsData?.products?.find((p: any) => p.id === item.productId)?.name,
+          quantity: item.quantity,
+          unitCost: item.unitPrice,
+        }))
+      );
+    }
+  };
+
   const createMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const response = await groceryApi.createPurchase(groupId!, data);
-      // If we have a receipt, upload it
-      if (receiptFile && response.data.id) {
-        const formData = new FormData();
-        formData.append('file', receiptFile);
-        formData.append('purchaseId', response.data.id);
-        // Note: This would need a file upload endpoint
-      }
-      return response;
-    },
+    mutationFn: (data: any) => groceryApi.createPurchase(groupId!, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['grocery-purchases', groupId] });
       queryClient.invalidateQueries({ queryKey: ['grocery-summary', groupId] });
@@ -108,7 +140,9 @@ export function RecordPurchasePage() {
     }
 
     createMutation.mutate({
+      supplierName,
       purchaseDate: new Date(purchaseDate).toISOString(),
+      receiptDocumentId: receiptDocumentId || undefined,
       notes: notes || undefined,
       items: validItems.map(({ productId, quantity, unitCost }) => ({
         productId,
@@ -169,6 +203,19 @@ export function RecordPurchasePage() {
             Purchase Details
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Supplier
+              </label>
+              <input
+                type="text"
+                value={supplierName}
+                onChange={(e) => setSupplierName(e.target.value)}
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                placeholder="e.g., Makro Crown Mines"
+              />
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Purchase Date
@@ -197,19 +244,38 @@ export function RecordPurchasePage() {
                     type="file"
                     accept="image/*,.pdf"
                     className="hidden"
-                    onChange={(e) => setReceiptFile(e.target.files?.[0] || null)}
+                    onChange={(e) => handleReceiptChange(e.target.files?.[0] || null)}
                   />
                 </label>
                 {receiptFile && (
                   <button
                     type="button"
-                    onClick={() => setReceiptFile(null)}
+                    onClick={() => handleReceiptChange(null)}
                     className="p-2 text-gray-500 hover:text-red-600"
                   >
                     <Trash2 className="h-4 w-4" />
                   </button>
                 )}
               </div>
+              {receiptDocumentId && extraction?.status === 'PENDING' && (
+                <p className="mt-2 text-xs text-gray-500">Reading receipt...</p>
+              )}
+              {extraction?.status === 'COMPLETED' && suggestion && (
+                <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-600">
+                  <span>
+                    {matchedItems.length} of {suggestion.items.length} receipt lines match your
+                    products
+                  </span>
+                  <button
+                    type="button"
+                    onClick={applyReceipt}
+                    className="inline-flex items-center gap-1 px-2 py-1 bg-emerald-100 text-emerald-700 rounded hover:bg-emerald-200"
+                  >
+                    <FileText className="h-3 w-3" />
+                    Fill from receipt
+                  </button>
+                </div>
+              )}
             </div>
           </div>
           <div className="mt-4">
@@ -28,6 +28,7 @@ import {
   CheckCircle,
   Clock,
   FileText,
+  Grid3X3,
 } from 'lucide-react';
 
 export default function GroupDetailPage() {
@@ -118,6 +119,12 @@ export default function GroupDetailPage() {
           </div>
         </div>
         <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link to={`/contributions/compliance/${groupId}`}>
+              <Grid3X3 className="w-4 h-4 mr-2" />
+              Compliance
+            </Link>
+          </Button>
           {isLeader && (
             <Button asChild variant="outline">
               <Link to={`/contributions/review/${groupId}`}>